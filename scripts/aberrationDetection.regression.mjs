@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-aberration-test-'));
+const bundledModule = path.join(tempDir, 'aberrationDetection.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/aberrationDetection.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const { detectAberrations, inferPeriodsPerYear, regularPeriods } = await import(pathToFileURL(bundledModule).href);
+
+  // C1: baseline 1..7 has mean 4 and sample SD √(14/3)
+  const series = [1, 2, 3, 4, 5, 6, 7, 20];
+  const sd = Math.sqrt(14 / 3);
+  const c1 = detectAberrations(series, { method: 'C1' });
+  assert.equal(c1[6], null);
+  close(c1[7].expected, 4, 1e-12);
+  close(c1[7].threshold, 4 + 3 * sd, 1e-12);
+  close(c1[7].statistic, 16 / sd, 1e-12);
+  assert.equal(c1[7].alarm, true);
+
+  // C2 skips the two most recent periods: baseline t-9 ... t-3
+  const lagged = [1, 2, 3, 4, 5, 6, 7, 50, 50, 20];
+  const c2 = detectAberrations(lagged, { method: 'C2' });
+  assert.equal(c2[8], null);
+  close(c2[9].expected, 4, 1e-12);
+  close(c2[9].statistic, 16 / sd, 1e-12);
+
+  // C3 sums max(0, C2 - 1) over t, t-1, t-2
+  const c3Series = [4, 5, 6, 5, 4, 5, 6, 5, 4, 5, 6, 5, 9];
+  const c2Stats = detectAberrations(c3Series, { method: 'C2' }).map(r => (r ? r.statistic : null));
+  const c3 = detectAberrations(c3Series, { method: 'C3' });
+  const last = c3Series.length - 1;
+  const carried = Math.max(0, c2Stats[last - 1] - 1) + Math.max(0, c2Stats[last - 2] - 1);
+  close(c3[last].statistic, Math.max(0, c2Stats[last] - 1) + carried, 1e-12);
+  assert.equal(c3[last].alarm, c3[last].statistic > 2);
+  assert.equal(c3[10], null);
+
+  // A flat baseline only alarms above its mean
+  const flatEars = detectAberrations([3, 3, 3, 3, 3, 3, 3, 3, 4], { method: 'C1' });
+  assert.equal(flatEars[7].alarm, false);
+  assert.equal(flatEars[8].alarm, true);
+
+  // Farrington on a constant monthly series: the fit is exact, dispersion is 1,
+  // and the threshold is the Poisson(10) 95th percentile (15)
+  const monthly = Array.from({ length: 48 }, () => 10);
+  const options = { method: 'farrington', periodsPerYear: 12, years: 3, window: 1 };
+  const flat = detectAberrations(monthly, options);
+  assert.equal(flat[36], null);
+  close(flat[37].expected, 10, 1e-6);
+  assert.equal(flat[37].threshold, 15);
+  assert.ok(flat.every(r => r === null || !r.alarm));
+
+  // A spike in the final month alarms; 15 itself does not
+  const spiked = [...monthly.slice(0, 47), 30];
+  assert.equal(detectAberrations(spiked, options)[47].alarm, true);
+  const atThreshold = [...monthly.slice(0, 47), 15];
+  assert.equal(detectAberrations(atThreshold, options)[47].alarm, false);
+
+  // Seasonal series: the expected count is the mean of the current month and
+  // its neighbours (window 1) in past years, e.g. Jun = mean(14, 18, 16)
+  const season = [2, 3, 5, 9, 14, 18, 16, 11, 7, 4, 3, 2];
+  const seasonal = Array.from({ length: 48 }, (_, t) => season[t % 12]);
+  const seasonalFit = detectAberrations(seasonal, options);
+  close(seasonalFit[41].expected, 16, 1e-6);
+  close(seasonalFit[46].expected, 3, 1e-6);
+  assert.ok(seasonalFit.every(r => r === null || !r.alarm));
+
+  // A past outbreak in the reference years is downweighted rather than
+  // inflating the expected count
+  const withOutbreak = seasonal.map((v, t) => (t === 29 ? 60 : v));
+  assert.ok(detectAberrations(withOutbreak, options)[41].expected < 20);
+
+  // "5 in 4" rule: exceeding the threshold with under 5 recent cases is not an alarm
+  const sparse = Array.from({ length: 48 }, (_, t) => (t % 12 === 0 ? 1 : 0));
+  sparse[47] = 3;
+  const sparseResult = detectAberrations(sparse, options)[47];
+  assert.ok(sparseResult.observed > sparseResult.threshold);
+  assert.equal(sparseResult.alarm, false);
+
+  // Cleared (NaN) settings fall back to the defaults instead of widening the
+  // EARS baseline or stalling the Farrington threshold search
+  assert.deepEqual(
+    detectAberrations(seasonal, { method: 'C2', baseline: NaN }),
+    detectAberrations(seasonal, { method: 'C2' })
+  );
+  assert.deepEqual(
+    detectAberrations(seasonal, { ...options, years: NaN, window: NaN, alpha: NaN }),
+    detectAberrations(seasonal, { ...options, years: undefined, window: undefined, alpha: undefined })
+  );
+
+  // Periods per year from date spacing
+  const dates = (days, n) => Array.from({ length: n }, (_, i) => new Date(2024, 0, 1 + i * days));
+  assert.equal(inferPeriodsPerYear(dates(1, 10)), 365);
+  assert.equal(inferPeriodsPerYear(dates(7, 10)), 52);
+  assert.equal(inferPeriodsPerYear(Array.from({ length: 10 }, (_, i) => new Date(2024, i, 1))), 12);
+  assert.equal(inferPeriodsPerYear(dates(3, 10)), null);
+
+  // Dates with gaps are laid on a regular grid, so missing periods count as zero
+  const gappy = [1, 2, 3, 6, 7, 8, 9, 10, 11].map(d => new Date(2024, 0, d));
+  const grid = regularPeriods(gappy);
+  assert.equal(grid.periodsPerYear, 365);
+  assert.equal(grid.periods.length, 11);
+  assert.deepEqual(grid.indices, [0, 1, 2, 5, 6, 7, 8, 9, 10]);
+  assert.equal(grid.periods[3].getTime(), new Date(2024, 0, 4).getTime());
+  // Reading the gap as zeros lowers the C1 baseline for the last day
+  const reported = [3, 3, 3, 3, 3, 3, 3, 3, 9];
+  const filled = new Array(grid.periods.length).fill(0);
+  grid.indices.forEach((index, i) => { filled[index] = reported[i]; });
+  assert.deepEqual(filled, [3, 3, 3, 0, 0, 3, 3, 3, 3, 3, 9]);
+  const c1Filled = detectAberrations(filled, { method: 'C1' });
+  close(c1Filled[10].expected, 15 / 7, 1e-12);
+  assert.equal(c1Filled[10].alarm, true);
+  // Weeks across a daylight saving change, months by calendar month
+  assert.deepEqual(regularPeriods([4, 11, 18, 32].map(d => new Date(2024, 2, d))).indices, [0, 1, 2, 4]);
+  const months = regularPeriods([10, 11, 12, 15].map(m => new Date(2023, m, 1)));
+  assert.deepEqual([months.periodsPerYear, months.indices, months.periods.length], [12, [0, 1, 2, 5], 6]);
+  assert.equal(months.periods[3].getTime(), new Date(2024, 1, 1).getTime());
+  // Off the grid, or irregular spacing: no grid
+  assert.equal(regularPeriods([...dates(7, 6), new Date(2024, 0, 40)]), null);
+  assert.equal(regularPeriods(dates(3, 10)), null);
+
+  console.log('Aberration detection regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,233 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-animation-export-test-'));
+const bundledModule = path.join(tempDir, 'animationExport.mjs');
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/animationExport.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const { createGifEncoder, createZip, crc32, frameFileName } = await import(
+    `${pathToFileURL(bundledModule).href}?t=${Date.now()}`
+  );
+
+  const bytes = (text) => new TextEncoder().encode(text);
+  const readUint16 = (data, offset) => data[offset] | (data[offset + 1] << 8);
+  const readUint32 = (data, offset) => (readUint16(data, offset) | (readUint16(data, offset + 2) << 16)) >>> 0;
+
+  // GIF LZW decoder, following the specification independently of the encoder
+  const lzwDecode = (data, minCodeSize, pixelCount) => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output = [];
+    let table = [];
+    let codeSize = minCodeSize + 1;
+    let previous = null;
+    let bitPosition = 0;
+    const readCode = () => {
+      let code = 0;
+      for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+        if ((data[bitPosition >> 3] >> (bitPosition & 7)) & 1) code |= 1 << bit;
+      }
+      return code;
+    };
+    const reset = () => {
+      table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+      previous = null;
+    };
+    reset();
+    while (bitPosition < data.length * 8) {
+      const code = readCode();
+      if (code === clearCode) {
+        reset();
+        continue;
+      }
+      if (code === endCode) break;
+      let entry;
+      if (previous === null) {
+        entry = table[code];
+      } else {
+        entry = code < table.length ? table[code] : [...table[previous], table[previous][0]];
+        table.push([...table[previous], entry[0]]);
+      }
+      assert.ok(entry, `invalid LZW code ${code}`);
+      output.push(...entry);
+      previous = code;
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    assert.equal(output.length, pixelCount);
+    return output;
+  };
+
+  // Walks the GIF blocks and returns each frame's delay, palette and pixels
+  const decodeGif = (data) => {
+    assert.equal(String.fromCharCode(...data.subarray(0, 6)), 'GIF89a');
+    const width = readUint16(data, 6);
+    const height = readUint16(data, 8);
+    assert.equal(data[10] & 0x80, 0, 'no global colour table');
+    let offset = 13;
+    let loops = false;
+    let delay = null;
+    const frames = [];
+    while (data[offset] !== 0x3b) {
+      if (data[offset] === 0x21) {
+        const label = data[offset + 1];
+        if (label === 0xf9) delay = readUint16(data, offset + 4);
+        if (label === 0xff) loops = String.fromCharCode(...data.subarray(offset + 3, offset + 14)) === 'NETSCAPE2.0';
+        offset += 2;
+        while (data[offset] !== 0) offset += data[offset] + 1;
+        offset += 1;
+      } else {
+        assert.equal(data[offset], 0x2c, `unexpected block 0x${data[offset].toString(16)}`);
+        assert.equal(readUint16(data, offset + 5), width);
+        assert.equal(readUint16(data, offset + 7), height);
+        const packed = data[offset + 9];
+        assert.equal(packed & 0x80, 0x80, 'local colour table');
+        const paletteSize = 2 << (packed & 7);
+        const palette = data.subarray(offset + 10, offset + 10 + paletteSize * 3);
+        offset += 10 + paletteSize * 3;
+        const minCodeSize = data[offset++];
+        const chunks = [];
+        while (data[offset] !== 0) {
+          chunks.push(...data.subarray(offset + 1, offset + 1 + data[offset]));
+          offset += data[offset] + 1;
+        }
+        offset += 1;
+        frames.push({ delay, palette, pixels: lzwDecode(Uint8Array.from(chunks), minCodeSize, width * height) });
+      }
+    }
+    assert.equal(offset, data.length - 1, 'trailer is the last byte');
+    return { width, height, loops, frames };
+  };
+
+  const rgbaFrame = (width, height, colorAt) => {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const [r, g, b] = colorAt(x, y);
+        const i = (y * width + x) * 4;
+        rgba.set([r, g, b, 255], i);
+      }
+    }
+    return rgba;
+  };
+
+  // Few colours round-trip exactly; the second frame is noise with many
+  // distinct colours, long enough to fill the code table and force clear codes
+  {
+    const width = 120;
+    const height = 90;
+    const stripes = (x, y) => (x < 40 ? [255, 255, 255] : y < 45 ? [196, 78, 82] : [31, 119, 180]);
+    let state = 12345;
+    const random = () => {
+      state = (state * 1103515245 + 12345) >>> 0;
+      return state >>> 24;
+    };
+    const noiseColors = Array.from({ length: width * height }, () => [random(), random(), random()]);
+    const noise = (x, y) => noiseColors[y * width + x];
+
+    const encoder = createGifEncoder(width, height, { delayMs: 250 });
+    encoder.addFrame(rgbaFrame(width, height, stripes));
+    encoder.addFrame(rgbaFrame(width, height, noise));
+    const gif = decodeGif(encoder.finish());
+
+    assert.equal(gif.width, width);
+    assert.equal(gif.height, height);
+    assert.equal(gif.loops, true);
+    assert.equal(gif.frames.length, 2);
+    assert.deepEqual(gif.frames.map(frame => frame.delay), [25, 25]);
+
+    const colorOf = (frame, index) => [...frame.palette.subarray(frame.pixels[index] * 3, frame.pixels[index] * 3 + 3)];
+    for (let y = 0; y < height; y += 7) {
+      for (let x = 0; x < width; x += 11) {
+        assert.deepEqual(colorOf(gif.frames[0], y * width + x), stripes(x, y));
+      }
+    }
+    // Noise has more colours than the palette: every pixel maps within a few levels
+    let worst = 0;
+    gif.frames[1].pixels.forEach((_, index) => {
+      const decoded = colorOf(gif.frames[1], index);
+      const original = noiseColors[index];
+      worst = Math.max(worst, ...decoded.map((value, channel) => Math.abs(value - original[channel])));
+    });
+    assert.ok(worst < 128, `noise colours mapped to the nearest palette entry (worst ${worst})`);
+  }
+
+  // Short delays are floored at 2/100 s, which browsers honour; no loop extension when disabled
+  {
+    const encoder = createGifEncoder(2, 2, { delayMs: 0, loop: false });
+    encoder.addFrame(rgbaFrame(2, 2, () => [0, 0, 0]));
+    const gif = decodeGif(encoder.finish());
+    assert.equal(gif.loops, false);
+    assert.equal(gif.frames[0].delay, 2);
+    assert.deepEqual(gif.frames[0].pixels, [0, 0, 0, 0]);
+    assert.throws(() => createGifEncoder(4, 4, { delayMs: 100 }).addFrame(new Uint8ClampedArray(8)), /smaller than the image/);
+  }
+
+  // CRC-32 check values
+  assert.equal(crc32(bytes('')), 0);
+  assert.equal(crc32(bytes('hello')), 0x3610a686);
+  assert.equal(crc32(bytes('123456789')), 0xcbf43926);
+
+  // Zip: local headers, stored data, central directory and end record agree
+  {
+    const entries = [
+      { name: 'spot-map-frame-001.png', data: bytes('first frame') },
+      { name: 'spot-map-frame-002.png', data: bytes('second') },
+    ];
+    const zip = createZip(entries, new Date(2024, 5, 15, 13, 45, 30));
+    const end = zip.length - 22;
+    assert.equal(readUint32(zip, end), 0x06054b50);
+    assert.equal(readUint16(zip, end + 10), 2);
+    const directorySize = readUint32(zip, end + 12);
+    const directoryOffset = readUint32(zip, end + 16);
+    assert.equal(directoryOffset + directorySize, end);
+
+    let central = directoryOffset;
+    entries.forEach(entry => {
+      assert.equal(readUint32(zip, central), 0x02014b50);
+      assert.equal(readUint16(zip, central + 10), 0, 'stored');
+      assert.equal(readUint16(zip, central + 12), (13 << 11) | (45 << 5) | 15);
+      assert.equal(readUint16(zip, central + 14), (44 << 9) | (6 << 5) | 15);
+      assert.equal(readUint32(zip, central + 16), crc32(entry.data));
+      const nameLength = readUint16(zip, central + 28);
+      assert.equal(new TextDecoder().decode(zip.subarray(central + 46, central + 46 + nameLength)), entry.name);
+
+      const local = readUint32(zip, central + 42);
+      assert.equal(readUint32(zip, local), 0x04034b50);
+      assert.equal(readUint32(zip, local + 14), crc32(entry.data));
+      assert.equal(readUint32(zip, local + 22), entry.data.length);
+      const dataStart = local + 30 + readUint16(zip, local + 26);
+      assert.deepEqual([...zip.subarray(dataStart, dataStart + entry.data.length)], [...entry.data]);
+      central += 46 + nameLength;
+    });
+    assert.equal(central, end);
+
+    const empty = createZip([]);
+    assert.equal(empty.length, 22);
+    assert.equal(readUint32(empty, 0), 0x06054b50);
+  }
+
+  // Frame names sort in playback order
+  assert.equal(frameFileName('spot-map-frame', 0, 12), 'spot-map-frame-001.png');
+  assert.equal(frameFileName('spot-map-frame', 1233, 1500), 'spot-map-frame-1234.png');
+  assert.equal(frameFileName('frame', 4, 5, 'webp'), 'frame-005.webp');
+
+  console.log('Animation export regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -122,6 +122,25 @@ try {
   });
   assert.deepEqual(duplicateJoin.summary.duplicateDenominatorKeys, ['north']);
 
+  // Standardized metrics map the per-area results; age-stratified rows are not duplicates
+  const standardizedJoin = buildAreaJoin({
+    records,
+    areaField: 'district',
+    boundaries,
+    boundaryKey: 'district',
+    metric: 'smr',
+    denominatorDataset: duplicateDenominatorDataset,
+    denominatorKey: 'district',
+    denominatorValue: 'population',
+    rateMultiplier: 100000,
+    standardization: {
+      groups: [{ key: 'north', label: 'North', strata: [], direct: { adjustedRate: 150 }, indirect: { smr: 1.25 } }],
+    },
+  });
+  assert.equal(standardizedJoin.areas.find(area => area.label === 'North')?.value, 1.25);
+  assert.equal(standardizedJoin.areas.find(area => area.label === 'South')?.value, null);
+  assert.deepEqual(standardizedJoin.summary.duplicateDenominatorKeys, []);
+
   console.log('Area map regression checks passed.');
 } finally {
   await rm(tempDir, { recursive: true, force: true });
@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-contacts-test-'));
+const bundledModule = path.join(tempDir, 'contactTracing.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/contactTracing.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const {
+    addDays,
+    contactFollowUp,
+    contactToCaseRecord,
+    contactTracingIndicators,
+    dailyChecklist,
+    followUpWindow,
+    nextCaseId,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Follow-up runs from the day after last exposure through exposure + max incubation
+  assert.equal(addDays('2024-12-31', 1), '2025-01-01');
+  assert.deepEqual(followUpWindow('2024-02-27', 3), {
+    start: '2024-02-28',
+    end: '2024-03-01',
+    days: ['2024-02-28', '2024-02-29', '2024-03-01'],
+  });
+  assert.deepEqual(followUpWindow('2024-05-01', 0.25).days, ['2024-05-02']);
+  assert.equal(followUpWindow('', 14), null);
+  assert.equal(followUpWindow('not a date', 14), null);
+
+  const contact = (id, caseRecordId, lastExposure, followUp = {}, extra = {}) => ({
+    id,
+    datasetId: 'd1',
+    caseRecordId,
+    name: id,
+    phone: '',
+    relationship: '',
+    lastExposure,
+    followUp,
+    lostToFollowUp: false,
+    notes: '',
+    createdAt: '2024-03-01T00:00:00.000Z',
+    ...extra,
+  });
+  const contacts = [
+    contact('Bob', 'r1', '2024-03-03', { '2024-03-04': 'well', '2024-03-05': 'symptomatic' }),
+    contact('Ann', 'r1', '2024-03-01', { '2024-03-02': 'well', '2024-03-03': 'not-reached', '2024-03-04': 'well' }),
+    contact('Cy', 'r2', '2024-02-20'),
+    contact('Di', 'r2', '2024-03-05'),
+    contact('Ed', 'r1', '2024-03-01', {}, { lostToFollowUp: true }),
+    contact('Flo', 'r9', '2024-03-01', { '2024-03-03': 'symptomatic' }, { convertedRecordId: 'r4' }),
+  ];
+  const date = '2024-03-05';
+  const maxIncubation = 5;
+
+  // A day marked not reached counts as missed; seen again since, so not overdue
+  const ann = contactFollowUp(contacts[1], maxIncubation, date);
+  assert.equal(ann.status, 'active');
+  assert.equal(ann.day, 4);
+  assert.deepEqual(ann.missedDays, ['2024-03-03']);
+  assert.equal(ann.overdue, false);
+  assert.equal(ann.lastSeen, '2024-03-04');
+  assert.equal(ann.result, null);
+  assert.equal(ann.firstSymptomatic, null);
+  // Overdue once the latest expected visit is missing: not seen the day before nor on the date
+  const annNextDay = contactFollowUp(contacts[1], maxIncubation, '2024-03-06');
+  assert.deepEqual(annNextDay.missedDays, ['2024-03-03', '2024-03-05']);
+  assert.equal(annNextDay.overdue, true);
+  const seenToday = { ...contacts[1], followUp: { ...contacts[1].followUp, '2024-03-06': 'well' } };
+  assert.equal(contactFollowUp(seenToday, maxIncubation, '2024-03-06').overdue, false);
+  // Nothing is expected before the first window day
+  assert.equal(contactFollowUp(contacts[3], maxIncubation, '2024-03-06').overdue, false);
+
+  const bob = contactFollowUp(contacts[0], maxIncubation, date);
+  assert.deepEqual([bob.status, bob.day, bob.result, bob.overdue, bob.firstSymptomatic], ['active', 2, 'symptomatic', false, '2024-03-05']);
+
+  assert.deepEqual(
+    contacts.map(c => contactFollowUp(c, maxIncubation, date).status),
+    ['active', 'active', 'completed', 'awaiting', 'lost', 'became-case']
+  );
+  // Only contacts under follow-up can be overdue
+  assert.deepEqual(contactFollowUp(contacts[4], maxIncubation, date).missedDays, []);
+
+  // Checklist: contacts under follow-up, overdue first, then most missed days
+  assert.deepEqual(dailyChecklist(contacts, maxIncubation, date).map(entry => entry.contact.name), ['Ann', 'Bob']);
+  const missedMore = contact('Al', 'r1', '2024-03-01', { '2024-03-05': 'well' });
+  assert.deepEqual(
+    dailyChecklist([missedMore, contacts[1]], maxIncubation, '2024-03-06').map(entry => [entry.contact.name, entry.overdue, entry.missedDays.length]),
+    [['Ann', true, 2], ['Al', false, 3]]
+  );
+  // Equal numbers of missed days fall back to name order
+  assert.deepEqual(dailyChecklist(contacts, maxIncubation, '2024-03-07').map(entry => entry.contact.name), ['Bob', 'Di']);
+
+  const indicators = contactTracingIndicators(contacts, ['r1', 'r2', 'r3', 'r4'], maxIncubation, date);
+  assert.deepEqual(
+    { ...indicators, contactsPerCase: undefined },
+    {
+      contacts: 6,
+      cases: 4,
+      casesWithContacts: 2,
+      contactsPerCase: undefined,
+      underFollowUp: 2,
+      followed: 1,
+      percentFollowed: 50,
+      overdue: 0,
+      withMissedDays: 1,
+      completed: 1,
+      becameCases: 1,
+      lost: 1,
+    }
+  );
+  close(indicators.contactsPerCase, 1.5);
+  const empty = contactTracingIndicators([], [], maxIncubation, date);
+  assert.ok(Number.isNaN(empty.contactsPerCase) && Number.isNaN(empty.percentFollowed));
+
+  // New case IDs continue the line list's numbering
+  assert.equal(nextCaseId(['C-009', 'C-010', 'x']), 'C-011');
+  assert.equal(nextCaseId(['C-9']), 'C-10');
+  assert.equal(nextCaseId(['007', '']), '008');
+  assert.equal(nextCaseId(['A', 'B']), '3');
+
+  const columns = [
+    { key: 'case_id', label: 'Case ID', type: 'text' },
+    { key: 'name', label: 'Name', type: 'text' },
+    { key: 'infected_by', label: 'Infected by', type: 'text' },
+    { key: 'onset', label: 'Onset', type: 'date' },
+    { key: 'age', label: 'Age', type: 'number' },
+  ];
+  const records = [
+    { id: 'r1', case_id: 'C-001', name: 'Index', infected_by: '', onset: '2024-02-28', age: 40 },
+    { id: 'r2', case_id: 'C-002', name: 'Second', infected_by: 'C-001', onset: '2024-03-01', age: 35 },
+  ];
+  assert.deepEqual(
+    contactToCaseRecord(contacts[0], columns, { idField: 'case_id', sourceField: 'infected_by', nameField: 'name', onsetField: 'onset' }, records[0], records),
+    { case_id: 'C-003', name: 'Bob', infected_by: 'C-001', onset: '2024-03-05', age: '' }
+  );
+  // Without an ID column the source is referenced by record ID; no symptoms leaves onset empty
+  assert.deepEqual(
+    contactToCaseRecord(contacts[1], columns, { idField: '', sourceField: 'infected_by', nameField: '', onsetField: 'onset' }, records[0], records),
+    { case_id: '', name: '', infected_by: 'r1', onset: '', age: '' }
+  );
+
+  console.log('Contact tracing regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
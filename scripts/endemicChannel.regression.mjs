@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-endemic-test-'));
+const bundledModule = path.join(tempDir, 'endemicChannel.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/endemicChannel.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const { buildSeasonalCounts, computeEndemicChannel, classifyZone, periodOf } = await import(pathToFileURL(bundledModule).href);
+
+  // Epi weeks follow the epi curve's CDC (Sunday) and ISO (Monday) week starts
+  assert.deepEqual(periodOf(new Date(2024, 0, 1), 'weekly-iso'), { year: 2024, index: 0 });
+  assert.deepEqual(periodOf(new Date(2024, 0, 1), 'weekly-cdc'), { year: 2024, index: 0 });
+  assert.deepEqual(periodOf(new Date(2021, 0, 1), 'weekly-iso'), { year: 2020, index: 52 });
+  assert.deepEqual(periodOf(new Date(2021, 0, 1), 'weekly-cdc'), { year: 2020, index: 52 });
+  // Sunday 2023-01-01 opens CDC week 1 but closes ISO week 52 of 2022
+  assert.deepEqual(periodOf(new Date(2023, 0, 1), 'weekly-cdc'), { year: 2023, index: 0 });
+  assert.deepEqual(periodOf(new Date(2023, 0, 1), 'weekly-iso'), { year: 2022, index: 51 });
+  assert.deepEqual(periodOf(new Date(2024, 6, 15), 'monthly'), { year: 2024, index: 6 });
+
+  // Monthly counts: rows per case or summed, missing outside the observed range
+  const records = [
+    { id: '1', date: '2022-03-10', n: 4 },
+    { id: '2', date: '2022-03-20', n: 1 },
+    { id: '3', date: '2023-01-05', n: 2 },
+    { id: '4', date: '', n: 9 },
+    { id: '5', date: '2023-02-01', n: '' },
+  ];
+  const counts = buildSeasonalCounts(records, { dateField: 'date', period: 'monthly' });
+  assert.deepEqual([...counts.keys()], [2022, 2023]);
+  assert.deepEqual(counts.get(2022), [null, null, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  assert.deepEqual(counts.get(2023), [1, 1, null, null, null, null, null, null, null, null, null, null]);
+  const sums = buildSeasonalCounts(records, { dateField: 'date', period: 'monthly', valueField: 'n' });
+  assert.equal(sums.get(2022)[2], 5);
+  assert.equal(sums.get(2023)[0], 2);
+  assert.equal(sums.get(2023)[1], null);
+
+  // Week 53 is missing in 52-week years
+  const weekly = buildSeasonalCounts([{ id: '1', date: '2019-06-01' }, { id: '2', date: '2021-06-01' }], {
+    dateField: 'date',
+    period: 'weekly-iso',
+  });
+  assert.equal(weekly.get(2019)[52], null);
+  assert.equal(weekly.get(2020)[52], 0);
+
+  // Quartile channel: Q1, median and Q3 per period
+  const history = [
+    [2, 10, 0],
+    [4, 20, 0],
+    [6, 30, null],
+    [8, 40, null],
+    [10, 50, null],
+  ];
+  const quartile = computeEndemicChannel(history, 'quartile');
+  assert.deepEqual(quartile[0], { lower: 4, center: 6, upper: 8, years: 5 });
+  assert.deepEqual(quartile[1], { lower: 20, center: 30, upper: 40, years: 5 });
+  // Fewer than three years with data: no channel
+  assert.equal(quartile[2], null);
+
+  // Bortman: mean ± 2 SD of log(x + 1), back-transformed
+  const bortman = computeEndemicChannel(history, 'bortman')[0];
+  const logs = [2, 4, 6, 8, 10].map(v => Math.log(v + 1));
+  const mean = logs.reduce((a, b) => a + b, 0) / logs.length;
+  const sd = Math.sqrt(logs.reduce((s, x) => s + (x - mean) ** 2, 0) / (logs.length - 1));
+  close(bortman.center, Math.exp(mean) - 1);
+  close(bortman.upper, Math.exp(mean + 2 * sd) - 1);
+  close(bortman.lower, Math.max(0, Math.exp(mean - 2 * sd) - 1));
+  // All-zero history stays at zero instead of going negative
+  assert.deepEqual(computeEndemicChannel([[0], [0], [0]], 'bortman')[0], { lower: 0, center: 0, upper: 0, years: 3 });
+
+  // Zones
+  const point = { lower: 4, center: 6, upper: 8, years: 5 };
+  assert.equal(classifyZone(3, point), 'success');
+  assert.equal(classifyZone(4, point), 'safety');
+  assert.equal(classifyZone(6, point), 'safety');
+  assert.equal(classifyZone(7, point), 'alert');
+  assert.equal(classifyZone(8, point), 'alert');
+  assert.equal(classifyZone(9, point), 'epidemic');
+
+  console.log('Endemic channel regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-epicurve-trends-test-'));
+const bundledModule = path.join(tempDir, 'epiCurveTrends.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/epiCurveTrends.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const { cumulativeCounts, movingAverage, countScale, scaleFraction, estimateGrowthRate } = await import(pathToFileURL(bundledModule).href);
+
+  assert.deepEqual(cumulativeCounts([2, 0, 3, 1]), [2, 2, 5, 6]);
+
+  // Windows that run past either end are null; centered windows are symmetric for odd sizes
+  const counts = [1, 2, 3, 4, 5, 6, 7];
+  assert.deepEqual(movingAverage(counts, 3, 'centered'), [null, 2, 3, 4, 5, 6, null]);
+  assert.deepEqual(movingAverage(counts, 3, 'trailing'), [null, null, 2, 3, 4, 5, 6]);
+  assert.deepEqual(movingAverage(counts, 7, 'centered'), [null, null, null, 4, null, null, null]);
+  assert.deepEqual(movingAverage(counts, 7, 'trailing'), [null, null, null, null, null, null, 4]);
+
+  // Linear axis matches the epi curve's y-axis rule
+  const linear = countScale(12, false);
+  assert.equal(linear.max, 15);
+  assert.deepEqual(linear.ticks.map(t => t.value), [0, 3, 6, 9, 12, 15]);
+  close(scaleFraction(6, linear), 0.4);
+  // Log axis: log10(count + 1), ending at the next power of ten
+  const log = countScale(40, true);
+  assert.equal(log.max, 100);
+  assert.deepEqual(log.ticks.map(t => t.value), [0, 1, 2, 5, 10, 20, 50, 100]);
+  assert.equal(scaleFraction(0, log), 0);
+  close(scaleFraction(9, log), 1 / Math.log10(101));
+  assert.equal(scaleFraction(100, log), 1);
+  assert.deepEqual(countScale(5000, true).ticks.map(t => t.value), [0, 1, 10, 100, 1000, 10000]);
+  assert.equal(countScale(0, true).max, 10);
+
+  // Exact exponential counts: the Poisson fit recovers the rate (0.2 per bin)
+  const growing = Array.from({ length: 10 }, (_, t) => 5 * Math.exp(0.2 * t));
+  const fit = estimateGrowthRate(growing, 1);
+  close(fit.rate, 0.2, 1e-6);
+  close(fit.doublingTime, Math.LN2 / 0.2, 1e-4);
+  assert.equal(fit.direction, 'growth');
+  assert.ok(fit.rateCI[0] < 0.2 && fit.rateCI[1] > 0.2);
+  assert.ok(fit.doublingTimeCI[0] < fit.doublingTime && fit.doublingTimeCI[1] > fit.doublingTime);
+  close(fit.fitted[3], 5 * Math.exp(0.6), 1e-4);
+
+  // Weekly bins: the per-bin slope is divided by 7 days
+  const weekly = estimateGrowthRate(growing, 7);
+  close(weekly.rate, 0.2 / 7, 1e-6);
+  close(weekly.doublingTime, 7 * Math.LN2 / 0.2, 1e-3);
+
+  // A window picks out the declining tail, reported as a halving time
+  const outbreak = [1, 2, 4, 8, 16, 8, 4, 2, 1];
+  const decline = estimateGrowthRate(outbreak, 1, { start: 4, end: 8 });
+  assert.equal(decline.startIndex, 4);
+  assert.equal(decline.cases, 31);
+  assert.equal(decline.direction, 'decline');
+  close(decline.rate, -Math.LN2, 1e-6);
+  close(decline.doublingTime, 1, 1e-6);
+
+  // Flat counts: the CI includes zero, so the doubling time has no upper limit
+  const flat = estimateGrowthRate([4, 5, 3, 5, 4, 4], 1);
+  assert.ok(flat.rateCI[0] < 0 && flat.rateCI[1] > 0);
+  assert.equal(flat.doublingTimeCI[1], Infinity);
+
+  // Overdispersed counts are flagged (their CIs use the Pearson dispersion)
+  const noisy = [2, 12, 3, 20, 6, 35, 10, 60];
+  const noisyFit = estimateGrowthRate(noisy, 1);
+  assert.ok(noisyFit.dispersion > 1);
+
+  // Too short or empty windows
+  assert.equal(estimateGrowthRate([1, 2], 1), null);
+  assert.equal(estimateGrowthRate([0, 0, 0, 0], 1), null);
+  assert.equal(estimateGrowthRate(outbreak, 1, { start: 7 }), null);
+
+  console.log('Epi curve trend regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-geocoding-test-'));
+const bundledModule = path.join(tempDir, 'geocoding.mjs');
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/geocoding.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+  const {
+    gazetteerRowsFromGeoJson,
+    suggestGazetteerFields,
+    buildGazetteer,
+    normalizePlaceName,
+    geocodeRecords,
+    groupPlaceValues,
+    createPlaceMatcher,
+    searchGazetteer,
+    applyCoordinates,
+  } = await import(`${pathToFileURL(bundledModule).href}?t=${Date.now()}`);
+
+  const rows = [
+    { name: 'Kibera', district: 'Nairobi', lat: '-1.3133', lon: '36.7876' },
+    { name: 'Mathare', district: 'Nairobi', lat: -1.2606, lon: 36.8582 },
+    { name: 'Mathare', district: 'Nairobi', lat: -1.2606, lon: 36.8582 },
+    { name: 'Kisumu Ndogo', district: 'Mombasa', lat: -4.05, lon: 39.67 },
+    { name: 'Kisumu Ndogo', district: 'Nairobi', lat: -1.29, lon: 36.82 },
+    { name: 'Nyeri Town', district: 'Nyeri', lat: '-0,4201', lon: '36,9476' },
+    { name: 'Mbale', district: 'Vihiga', lat: 0.08, lon: 34.72 },
+    { name: 'Mbali', district: 'Kakamega', lat: 0.28, lon: 34.75 },
+    { name: '', district: 'Nairobi', lat: -1.2, lon: 36.8 },
+    { name: 'Nowhere', district: '', lat: 0, lon: 0 },
+    { name: 'Out of range', district: '', lat: 95, lon: 36 },
+  ];
+
+  // Field suggestions from common column names
+  const fields = suggestGazetteerFields(['name', 'district', 'lat', 'lon']);
+  assert.deepEqual(fields, { nameKey: 'name', latKey: 'lat', lngKey: 'lon', contextKey: 'district' });
+  assert.equal(suggestGazetteerFields(['village_name', 'latitude', 'longitude']).contextKey, undefined);
+
+  // Blank names, 0,0 and out-of-range coordinates are skipped; exact repeats are kept once
+  const gazetteer = buildGazetteer(rows, fields);
+  assert.equal(gazetteer.skipped, 3);
+  assert.equal(gazetteer.entries.length, 7);
+  assert.equal(gazetteer.entries.filter(entry => entry.name === 'Mathare').length, 1);
+  const nyeri = gazetteer.entries.find(entry => entry.name === 'Nyeri Town');
+  assert.equal(nyeri.lat, -0.4201);
+  assert.equal(nyeri.lng, 36.9476);
+  assert.equal(nyeri.context, 'Nyeri');
+
+  // GeoJSON Point features become rows with the point's coordinates
+  const geoRows = gazetteerRowsFromGeoJson({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { NAME: 'Lamu' }, geometry: { type: 'Point', coordinates: [40.9, -2.27] } },
+      { type: 'Feature', properties: { NAME: 'County' }, geometry: { type: 'Polygon', coordinates: [] } },
+      { type: 'Feature', properties: null, geometry: null },
+    ],
+  });
+  assert.equal(geoRows.length, 1);
+  const geoFields = suggestGazetteerFields(Object.keys(geoRows[0]));
+  assert.equal(geoFields.nameKey, 'NAME');
+  const geoGazetteer = buildGazetteer(geoRows, geoFields);
+  assert.deepEqual(
+    geoGazetteer.entries.map(({ name, lat, lng }) => ({ name, lat, lng })),
+    [{ name: 'Lamu', lat: -2.27, lng: 40.9 }]
+  );
+
+  // Normalization ignores case, accents, punctuation and spacing
+  assert.equal(normalizePlaceName('  Kibéra,  Village. '), 'kibera village');
+  assert.equal(normalizePlaceName(null), '');
+
+  const records = [
+    { id: 'r1', village: 'Kibera' },
+    { id: 'r2', village: 'kibera ' },
+    { id: 'r3', village: 'Mathre' },
+    { id: 'r4', village: 'Kisumu Ndogo' },
+    { id: 'r5', village: 'Mbalu' },
+    { id: 'r6', village: 'Atlantis' },
+    { id: 'r7', village: '' },
+    { id: 'r8', village: 'Nyeri-Town' },
+  ];
+  const matches = geocodeRecords(records, 'village', gazetteer.entries, { threshold: 0.9 });
+  const byValue = Object.fromEntries(matches.map(match => [match.value, match]));
+
+  // Distinct values in first-seen order; blanks are left out
+  assert.deepEqual(matches.map(match => match.value), ['Kibera', 'Mathre', 'Kisumu Ndogo', 'Mbalu', 'Atlantis', 'Nyeri-Town']);
+  assert.deepEqual(byValue.Kibera.recordIds, ['r1', 'r2']);
+  assert.equal(byValue.Kibera.status, 'exact');
+  assert.equal(byValue.Kibera.match.name, 'Kibera');
+  assert.equal(byValue['Nyeri-Town'].status, 'exact');
+
+  // A misspelling above the threshold is a fuzzy match
+  assert.equal(byValue.Mathre.status, 'fuzzy');
+  assert.equal(byValue.Mathre.match.name, 'Mathare');
+  assert.ok(byValue.Mathre.candidates[0].score >= 0.9 && byValue.Mathre.candidates[0].score < 1);
+
+  // The same name in two districts needs a person to choose
+  assert.equal(byValue['Kisumu Ndogo'].status, 'ambiguous');
+  assert.equal(byValue['Kisumu Ndogo'].match, null);
+  assert.deepEqual(byValue['Kisumu Ndogo'].candidates.map(c => c.entry.context).sort(), ['Mombasa', 'Nairobi']);
+
+  // Two near-equal fuzzy matches are ambiguous too
+  const mbalu = byValue.Mbalu.candidates.map(c => c.entry.name);
+  assert.deepEqual(mbalu.slice(0, 2).sort(), ['Mbale', 'Mbali']);
+  assert.ok(Math.abs(byValue.Mbalu.candidates[0].score - byValue.Mbalu.candidates[1].score) <= 0.02);
+  assert.equal(byValue.Mbalu.status, 'ambiguous');
+
+  // Nothing close enough
+  assert.equal(byValue.Atlantis.status, 'unmatched');
+  assert.equal(byValue.Atlantis.match, null);
+
+  // A stricter threshold turns the fuzzy match into a failure with candidates kept
+  const strict = geocodeRecords(records, 'village', gazetteer.entries, { threshold: 0.99 });
+  const strictMathre = strict.find(match => match.value === 'Mathre');
+  assert.equal(strictMathre.status, 'unmatched');
+  assert.equal(strictMathre.candidates[0].entry.name, 'Mathare');
+
+  // A misspelt first letter is still found: the search skips names by the
+  // letters they share, not by their initial
+  const typo = geocodeRecords([{ id: 'r1', village: 'Qibera' }], 'village', gazetteer.entries, { threshold: 0.85 });
+  assert.equal(typo[0].status, 'fuzzy');
+  assert.equal(typo[0].match.name, 'Kibera');
+
+  // Matching value by value gives the same result as the whole column
+  const places = groupPlaceValues(records, 'village');
+  assert.deepEqual(places.map(place => place.key), matches.map(match => match.key));
+  assert.deepEqual(places.map(createPlaceMatcher(gazetteer.entries, { threshold: 0.9 })), matches);
+
+  // Manual search ranks by similarity
+  assert.equal(searchGazetteer('kisumu', gazetteer.entries)[0].entry.name, 'Kisumu Ndogo');
+  assert.deepEqual(searchGazetteer('  ', gazetteer.entries), []);
+
+  // New coordinate columns are added; unmatched records get blanks
+  const columns = [{ key: 'village', label: 'Village', type: 'text' }];
+  const target = { latKey: 'latitude', latLabel: 'Latitude', lngKey: 'longitude', lngLabel: 'Longitude' };
+  const locations = new Map([
+    ['r1', { lat: -1.3133, lng: 36.7876 }],
+    ['r3', { lat: -1.2606, lng: 36.8582 }],
+  ]);
+  const created = applyCoordinates(columns, records, target, locations);
+  assert.deepEqual(created.createdColumns.map(col => col.key), ['latitude', 'longitude']);
+  assert.equal(created.columns.length, 3);
+  assert.equal(created.updatedCount, 2);
+  assert.equal(created.records[0].latitude, -1.3133);
+  assert.equal(created.records[2].longitude, 36.8582);
+  assert.equal(created.records[5].latitude, null);
+  assert.equal(records[0].latitude, undefined);
+
+  // Existing columns are updated in place; other records keep their values
+  const existing = applyCoordinates(
+    created.columns,
+    created.records.map(record => (record.id === 'r6' ? { ...record, latitude: 1, longitude: 2 } : record)),
+    target,
+    new Map([['r1', { lat: -1.3133, lng: 36.7876 }], ['r4', { lat: -4.05, lng: 39.67 }]])
+  );
+  assert.deepEqual(existing.createdColumns, []);
+  assert.equal(existing.columns.length, 3);
+  assert.equal(existing.updatedCount, 1);
+  assert.equal(existing.records[3].latitude, -4.05);
+  assert.equal(existing.records[5].latitude, 1);
+
+  console.log('Geocoding regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-incubation-test-'));
+const bundledModule = path.join(tempDir, 'incubationPeriod.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/incubationPeriod.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const { buildIncubationData, fitIncubationPeriod, createIncubationFitter } = await import(pathToFileURL(bundledModule).href);
+
+  // Observations: exact times, date-only (whole-day) values, an exposure window, and bad rows
+  const records = [
+    { id: '1', exp: '2024-03-01', exp_time: '12:00', onset: '2024-03-02', onset_time: '18:00' },
+    { id: '2', exp: '2024-03-01', exp_time: '', onset: '2024-03-03', onset_time: '' },
+    { id: '3', exp: '2024-03-01', exp_end: '2024-03-03', onset: '2024-03-05', onset_time: '06:00' },
+    { id: '4', exp: '', onset: '2024-03-05' },
+    { id: '5', exp: '2024-03-10', onset: '2024-03-05' },
+  ];
+  const { observations, excluded } = buildIncubationData(records, {
+    exposureStartField: 'exp',
+    exposureStartTimeField: 'exp_time',
+    exposureEndField: 'exp_end',
+    onsetField: 'onset',
+    onsetTimeField: 'onset_time',
+  });
+  assert.deepEqual(excluded, { missingDates: 1, inconsistentDates: 1 });
+  close(observations[0].lower, 1.25, 1e-9);
+  close(observations[0].upper, 1.25, 1e-9);
+  // Exposure any time on Mar 1, onset any time on Mar 3: between 1 and 3 days
+  close(observations[1].lower, 1, 1e-9);
+  close(observations[1].upper, 3, 1e-9);
+  // Exposure Mar 1 00:00 to Mar 4 00:00, onset Mar 5 06:00
+  close(observations[2].lower, 1.25, 1e-9);
+  close(observations[2].upper, 4.25, 1e-9);
+
+  // Normal quantile by bisection on a Taylor-series erf (accurate for |z| < 5),
+  // independent of the module under test
+  const normalQuantile = p => {
+    const cdf = z => 0.5 * (1 + erf(z / Math.SQRT2));
+    let lo = -5;
+    let hi = 5;
+    for (let i = 0; i < 200; i++) {
+      const mid = (lo + hi) / 2;
+      if (cdf(mid) < p) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+  function erf(x) {
+    let sum = x;
+    let term = x;
+    for (let n = 1; n < 200; n++) {
+      term *= (-x * x) / n;
+      sum += term / (2 * n + 1);
+    }
+    return (2 / Math.sqrt(Math.PI)) * sum;
+  }
+  // Exact values on a lognormal quantile grid (median 5 days, sdlog 0.5):
+  // the lognormal MLE is the mean and (n-denominator) SD of the logs
+  const n = 60;
+  const values = Array.from({ length: n }, (_, i) => Math.exp(Math.log(5) + 0.5 * normalQuantile((i + 0.5) / n)));
+  const exact = values.map((v, i) => ({ id: String(i), lower: v, upper: v }));
+  const logs = values.map(Math.log);
+  const meanlog = logs.reduce((a, b) => a + b, 0) / n;
+  const sdlog = Math.sqrt(logs.reduce((sum, x) => sum + (x - meanlog) ** 2, 0) / n);
+
+  const fits = fitIncubationPeriod(exact, { bootstrapSamples: 0 });
+  assert.deepEqual(fits.map(f => f.distribution), ['lognormal', 'gamma', 'weibull']);
+  const lognormal = fits[0];
+  close(lognormal.parameters.meanlog, meanlog, 1e-4);
+  close(lognormal.parameters.sdlog, sdlog, 1e-4);
+  close(lognormal.median.estimate, Math.exp(meanlog), 1e-3);
+  close(lognormal.p95.estimate, Math.exp(meanlog + 1.644854 * sdlog), 1e-3);
+  assert.equal(lognormal.median.ci, null);
+  assert.ok(lognormal.aic < fits[2].aic, 'lognormal data should favour the lognormal over the Weibull');
+  // Gamma and Weibull still place the median near 5 days
+  close(fits[1].median.estimate, 5, 0.3);
+  close(fits[2].median.estimate, 5, 0.4);
+
+  // Interval-censored to whole days around the same values: similar median
+  const censored = values.map((v, i) => ({ id: String(i), lower: Math.floor(v), upper: Math.floor(v) + 1 }));
+  const censoredFit = fitIncubationPeriod(censored, { bootstrapSamples: 0 })[0];
+  close(censoredFit.median.estimate, 5, 0.4);
+
+  // Bootstrap CIs bracket the estimates and are reproducible with a seed
+  const boot = fitIncubationPeriod(exact.slice(0, 30), { bootstrapSamples: 40, seed: 7 })[0];
+  const again = fitIncubationPeriod(exact.slice(0, 30), { bootstrapSamples: 40, seed: 7 })[0];
+  assert.ok(boot.median.ci[0] < boot.median.estimate && boot.median.ci[1] > boot.median.estimate);
+  assert.ok(boot.p5.ci[1] < boot.p95.ci[0]);
+  assert.deepEqual(boot.median.ci, again.median.ci);
+
+  // Refits run in batches give the same fits as a single run
+  const fitter = createIncubationFitter(exact.slice(0, 30), { bootstrapSamples: 40, seed: 7 });
+  assert.equal(fitter.totalReplicates, 120);
+  assert.equal(fitter.runReplicates(7), 7);
+  assert.equal(fitter.fits()[0].median.ci.length, 2);
+  let done = 7;
+  while (done < fitter.totalReplicates) done = fitter.runReplicates(25);
+  assert.equal(done, 120);
+  assert.equal(fitter.runReplicates(5), 120);
+  assert.deepEqual(fitter.fits(), fitIncubationPeriod(exact.slice(0, 30), { bootstrapSamples: 40, seed: 7 }));
+
+  // Too few or identical observations
+  assert.deepEqual(fitIncubationPeriod(exact.slice(0, 2)), []);
+  assert.deepEqual(fitIncubationPeriod([1, 2, 3].map(i => ({ id: String(i), lower: 2, upper: 2 }))), []);
+  assert.equal(createIncubationFitter([]).totalReplicates, 0);
+
+  console.log('Incubation period regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
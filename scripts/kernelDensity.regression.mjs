@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-kernel-density-test-'));
+const bundledModule = path.join(tempDir, 'kernelDensity.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/kernelDensity.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const {
+    defaultBandwidth,
+    densityBounds,
+    kernelDensityGrid,
+    kernelDensityRatio,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Normal reference rule: on the equator x spread only, IQR/1.349 smaller than the SD
+  const line = [0, 0.01, 0.02, 0.03].map(lng => ({ lat: 0, lng }));
+  close(defaultBandwidth(line), ((0.01 * 111320 * 1.5) / 1.349 / 2) * Math.pow(4, -1 / 6), 1e-6);
+  // Doubling the spread doubles the bandwidth
+  close(
+    defaultBandwidth(line.map(p => ({ lat: p.lat, lng: p.lng * 2 }))),
+    2 * defaultBandwidth(line),
+    1e-6
+  );
+  assert.equal(defaultBandwidth([{ lat: 1, lng: 1 }]), null);
+  assert.equal(defaultBandwidth([{ lat: 1, lng: 1 }, { lat: 1, lng: 1 }]), null);
+
+  // Bounds reach three bandwidths past the points
+  const bounds = densityBounds([{ lat: 0, lng: 0 }], 1000);
+  close(bounds.north, 3000 / 111320);
+  close(bounds.east, 3000 / 111320);
+
+  // One point: the surface integrates to one point and peaks where the point is
+  const cellAreaKm2 = (grid, row) => {
+    const mercatorY = lat => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
+    const inverse = y => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180 / Math.PI;
+    const top = mercatorY(grid.bounds.north);
+    const span = top - mercatorY(grid.bounds.south);
+    const north = inverse(top - (row / grid.height) * span);
+    const south = inverse(top - ((row + 1) / grid.height) * span);
+    const midLat = (north + south) / 2;
+    const widthKm = ((grid.bounds.east - grid.bounds.west) / grid.width) * 111.32 * Math.cos(midLat * Math.PI / 180);
+    return widthKm * (north - south) * 111.32;
+  };
+  const integrate = grid => {
+    let total = 0;
+    for (let row = 0; row < grid.height; row++) {
+      for (let col = 0; col < grid.width; col++) {
+        total += grid.values[row * grid.width + col] * cellAreaKm2(grid, row);
+      }
+    }
+    return total;
+  };
+  const single = kernelDensityGrid([{ lat: 10, lng: 20 }], { bandwidthMeters: 500, resolution: 61 });
+  assert.equal(single.width, single.height);
+  close(integrate(single), 1, 0.02);
+  close(single.max, 1e6 / (2 * Math.PI * 500 * 500), 0.02 * single.max);
+  const peak = single.values.indexOf(single.max);
+  assert.equal(peak, 30 * single.width + 30, 'peak in the centre cell');
+
+  // Three points integrate to three
+  const three = kernelDensityGrid(
+    [{ lat: 10, lng: 20 }, { lat: 10.01, lng: 20 }, { lat: 10, lng: 20.02 }],
+    { bandwidthMeters: 400, resolution: 120 }
+  );
+  close(integrate(three), 3, 0.06);
+  assert.equal(kernelDensityGrid([], { bandwidthMeters: 400 }), null);
+  assert.equal(kernelDensityGrid(line, { bandwidthMeters: 0 }), null);
+
+  // Ratio: identical case and control patterns give 1 wherever controls are present
+  const grid = [];
+  for (let i = 0; i < 6; i++) {
+    for (let j = 0; j < 6; j++) grid.push({ lat: i * 0.005, lng: j * 0.005 });
+  }
+  const flat = kernelDensityRatio(grid, grid, { bandwidthMeters: 400, resolution: 50 });
+  let finite = 0;
+  flat.values.forEach(value => {
+    if (Number.isNaN(value)) return;
+    finite++;
+    close(value, 1, 1e-9);
+  });
+  assert.ok(finite > 0);
+  assert.ok(flat.values.some(Number.isNaN), 'cells far from controls are left empty');
+
+  // Cases bunched in the west: ratio above 1 there, below 1 in the east
+  const west = grid.filter(p => p.lng <= 0.005);
+  const ratio = kernelDensityRatio(west, grid, { bandwidthMeters: 400, resolution: 50 });
+  const valueAt = (lat, lng) => {
+    const col = Math.floor(((lng - ratio.bounds.west) / (ratio.bounds.east - ratio.bounds.west)) * ratio.width);
+    const row = Math.floor(((ratio.bounds.north - lat) / (ratio.bounds.north - ratio.bounds.south)) * ratio.height);
+    return ratio.values[row * ratio.width + col];
+  };
+  assert.ok(valueAt(0.0125, 0.0025) > 2);
+  assert.ok(valueAt(0.0125, 0.0225) < 0.1);
+  assert.equal(kernelDensityRatio([], grid, { bandwidthMeters: 400 }), null);
+
+  console.log('Kernel density regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-nowcasting-test-'));
+const bundledModule = path.join(tempDir, 'nowcasting.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/nowcasting.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const { buildReportingData, estimateNowcast, aggregateNowcast } = await import(pathToFileURL(bundledModule).href);
+
+  const { observations, excluded } = buildReportingData([
+    { id: '1', onset: '2024-03-01', report: '2024-03-03' },
+    { id: '2', onset: '2024-03-02', report: '2024-03-02' },
+    { id: '3', onset: '2024-03-02', report: '' },
+    { id: '4', onset: '2024-03-05', report: '2024-03-04' },
+  ], { onsetField: 'onset', reportField: 'report' });
+  assert.deepEqual(excluded, { missingDates: 1, reportBeforeOnset: 1 });
+  assert.deepEqual(observations.map(o => o.delay), [2, 0]);
+
+  // Every onset day has 4 cases reported the same day, 2 after one day and
+  // 2 after two days. Days 1-10 of April, data as of April 10.
+  const day = d => new Date(2024, 3, d);
+  const all = [];
+  for (let d = 1; d <= 10; d++) {
+    [0, 0, 0, 0, 1, 1, 2, 2].forEach(delay => all.push({ onset: day(d), delay }));
+  }
+  const asOf = day(10);
+  const reportedBy = all.filter(o => o.onset.getTime() + o.delay * 86400000 <= asOf.getTime());
+  assert.equal(estimateNowcast(reportedBy.slice(0, 9)), null);
+
+  const nowcast = estimateNowcast(reportedBy, { samples: 2000, seed: 3 });
+  assert.equal(nowcast.asOf.getTime(), asOf.getTime());
+  const { delay } = nowcast;
+  assert.equal(delay.maxDelay, 2);
+  // Reverse-time hazards: delay 2 among onsets up to Apr 8 (8 days x 8 cases),
+  // delay 1 among onsets up to Apr 9 with delay <= 1 (9 days x 6 cases)
+  assert.deepEqual(delay.events, [40, 18, 16]);
+  assert.deepEqual(delay.atRisk, [40, 54, 64]);
+  const g2 = 16.5 / 65;
+  const g1 = 18.5 / 55;
+  close(delay.cdf[1], 1 - g2);
+  close(delay.cdf[0], (1 - g2) * (1 - g1));
+  // F(0) ≈ 0.496 (the true value is 0.5), so the median delay rounds up to 1 day
+  assert.equal(delay.median, 1);
+
+  // The last two onset days are incomplete; the point estimate is reported / F(a)
+  assert.equal(nowcast.days.length, 2);
+  const [apr9, apr10] = nowcast.days;
+  assert.equal(apr9.date.getTime(), day(9).getTime());
+  assert.equal(apr9.reported, 6);
+  assert.equal(apr10.reported, 4);
+  close(apr9.estimate, 6 / delay.cdf[1]);
+  close(apr10.estimate, 4 / delay.cdf[0]);
+  // The true total of 8 lies within each day's 95% credible interval
+  for (const d of nowcast.days) {
+    assert.ok(d.lower <= 8 && d.upper >= 8, `8 should be within [${d.lower}, ${d.upper}]`);
+    assert.ok(d.lower >= d.reported);
+  }
+
+  // Bins: complete days add nothing; an incomplete bin sums its days
+  assert.equal(aggregateNowcast(nowcast, day(1), day(8)), null);
+  const lastWeek = aggregateNowcast(nowcast, day(8), day(15));
+  assert.equal(lastWeek.reported, 10);
+  close(lastWeek.notYetReported, 6, 1.5);
+  assert.ok(lastWeek.lower <= 6 && lastWeek.upper >= 6);
+  assert.ok(lastWeek.lower >= 0 && lastWeek.upper < 20);
+
+  // Reproducible with a seed
+  assert.deepEqual(estimateNowcast(reportedBy, { samples: 200, seed: 3 }).days, estimateNowcast(reportedBy, { samples: 200, seed: 3 }).days);
+
+  // An earlier as-of date leaves out later reports and nowcasts from there
+  const earlier = estimateNowcast(all, { asOf: day(6), samples: 200 });
+  assert.equal(earlier.days[earlier.days.length - 1].date.getTime(), day(6).getTime());
+  assert.equal(earlier.days[earlier.days.length - 1].reported, 4);
+
+  // A recent day with no reports yet still gets an interval above zero
+  const noneYet = estimateNowcast(reportedBy.filter(o => o.onset.getTime() !== asOf.getTime()), { asOf, samples: 2000, seed: 3 });
+  const today = noneYet.days[noneYet.days.length - 1];
+  assert.equal(today.reported, 0);
+  assert.equal(today.estimate, 0);
+  assert.ok(today.upper > 0, `upper bound should exceed 0, got ${today.upper}`);
+
+  console.log('Nowcasting regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-regression-test-'));
+const bundledModule = path.join(tempDir, 'regression.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+// Build records from cell counts: [count, ill, exposure, sex]
+const makeRecords = cells => {
+  const records = [];
+  cells.forEach(([count, ill, exposure, sex]) => {
+    for (let i = 0; i < count; i++) {
+      records.push({ id: String(records.length + 1), ill, exposure, sex });
+    }
+  });
+  return records;
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/regression.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    buildDesignMatrix,
+    fitLogisticRegression,
+    fitCountModel,
+    aggregateCountsByDenominator,
+    AGGREGATED_COUNT_KEY,
+    fitConditionalLogistic,
+  } = await import(pathToFileURL(bundledModule).href);
+  const isIll = record => (record.ill === '' ? null : record.ill === 'Yes' ? 1 : 0);
+
+  const records = makeRecords([
+    [20, 'Yes', 'Yes', 'M'], [10, 'No', 'Yes', 'M'], [5, 'Yes', 'No', 'M'], [25, 'No', 'No', 'M'],
+    [10, 'Yes', 'Yes', 'F'], [15, 'No', 'Yes', 'F'], [4, 'Yes', 'No', 'F'], [30, 'No', 'No', 'F'],
+    [3, '', 'Yes', 'F'],
+  ]);
+
+  // A single binary predictor reproduces the crude odds ratio (ad/bc)
+  const crude = fitLogisticRegression(buildDesignMatrix(records, isIll, [
+    { key: 'exposure', label: 'Exposure', type: 'categorical', referenceLevel: 'No' },
+  ]));
+  close(crude.coefficients[0].oddsRatio, (30 * 55) / (25 * 9));
+  // Woolf SE on the log scale
+  close(crude.coefficients[0].standardError, Math.sqrt(1 / 30 + 1 / 25 + 1 / 9 + 1 / 55));
+  assert.equal(crude.excludedCount, 3);
+  assert.equal(crude.n, 119);
+  assert.ok(crude.converged);
+
+  // Adjusted model: coefficients, LR tests and overall model fit
+  const adjusted = fitLogisticRegression(buildDesignMatrix(records, isIll, [
+    { key: 'exposure', label: 'Exposure', type: 'categorical', referenceLevel: 'No' },
+    { key: 'sex', label: 'Sex', type: 'categorical' },
+  ]));
+  close(adjusted.coefficients[0].estimate, 1.9984);
+  close(adjusted.coefficients[1].estimate, 0.8444);
+  assert.equal(adjusted.coefficients[1].referenceLevel, 'F');
+  close(adjusted.termTests.find(t => t.termKey === 'sex').chiSquare, 3.698);
+  close(adjusted.modelChiSquare, 26.476);
+  assert.equal(adjusted.separationWarning, false);
+
+  // Complete separation is flagged
+  const separated = fitLogisticRegression(buildDesignMatrix(makeRecords([
+    [5, 'Yes', 'Yes', 'M'], [4, 'No', 'No', 'M'], [2, 'Yes', 'No', 'F'],
+  ]), isIll, [
+    { key: 'exposure', label: 'Exposure', type: 'categorical', referenceLevel: 'No' },
+  ]));
+  assert.ok(separated.separationWarning);
+  assert.ok(separated.warnings.length > 0);
+
+  // Poisson with a person-time offset reproduces the crude rate ratio
+  const rateColumns = [
+    { key: 'cases', label: 'Cases', type: 'number' },
+    { key: 'pyears', label: 'Person-years', type: 'number' },
+    { key: 'group', label: 'Group', type: 'categorical' },
+  ];
+  const poisson = fitCountModel([
+    { id: '1', cases: 30, pyears: 1000, group: 'A' },
+    { id: '2', cases: 10, pyears: 800, group: 'B' },
+    { id: '3', cases: 5, pyears: '', group: 'B' },
+  ], rateColumns, {
+    countVar: 'cases',
+    exposureVar: 'pyears',
+    model: 'poisson',
+    predictors: [{ key: 'group', type: 'categorical', referenceLevel: 'B' }],
+  });
+  close(poisson.coefficients[0].rateRatio, (30 / 1000) / (10 / 800));
+  close(poisson.coefficients[0].standardError, Math.sqrt(1 / 30 + 1 / 10));
+  close(poisson.intercept.rateRatio, 10 / 800, 1e-6);
+  assert.equal(poisson.excludedCount, 1);
+  close(poisson.totalExposure, 1800);
+
+  // Overdispersed counts: flagged by Poisson, modeled by negative binomial
+  const overdispersed = [0, 2, 15, 1, 30, 4, 0, 22, 3, 9, 12, 0].map((cases, i) => ({
+    id: String(i + 1),
+    cases,
+    pyears: 100,
+    group: i % 2 === 0 ? 'A' : 'B',
+  }));
+  const countSettings = {
+    countVar: 'cases',
+    exposureVar: 'pyears',
+    predictors: [{ key: 'group', type: 'categorical', referenceLevel: 'B' }],
+  };
+  const overPoisson = fitCountModel(overdispersed, rateColumns, { ...countSettings, model: 'poisson' });
+  assert.ok(overPoisson.dispersion.overdispersed);
+  assert.ok(overPoisson.warnings.some(w => w.includes('overdispersed')));
+
+  const negBin = fitCountModel(overdispersed, rateColumns, { ...countSettings, model: 'negativeBinomial' });
+  assert.equal(negBin.model, 'negativeBinomial');
+  assert.ok(negBin.theta > 0 && negBin.theta < 10);
+  assert.ok(negBin.overdispersionTest.pValue < 0.001);
+  assert.ok(negBin.converged);
+  // With one categorical predictor the fitted means are the group means
+  const groupMean = group => {
+    const rows = overdispersed.filter(r => r.group === group);
+    return rows.reduce((sum, r) => sum + r.cases, 0) / rows.length;
+  };
+  close(negBin.coefficients[0].rateRatio, groupMean('A') / groupMean('B'));
+  assert.ok(negBin.coefficients[0].standardError > overPoisson.coefficients[0].standardError);
+
+  // Line-list cases joined onto a denominator table by two keys
+  const aggregated = aggregateCountsByDenominator(
+    [
+      { id: '1', district: 'North', age: '0-4' },
+      { id: '2', district: 'north ', age: '0-4' },
+      { id: '3', district: 'South', age: '5+' },
+      { id: '4', district: 'West', age: '5+' },
+      { id: '5', district: '', age: '5+' },
+    ],
+    [
+      { id: 'p1', area: 'North', ageGroup: '0-4', population: 500 },
+      { id: 'p2', area: 'North', ageGroup: '5+', population: 1500 },
+      { id: 'p3', area: 'South', ageGroup: '5+', population: 2000 },
+    ],
+    [{ caseKey: 'district', denominatorKey: 'area' }, { caseKey: 'age', denominatorKey: 'ageGroup' }]
+  );
+  assert.deepEqual(aggregated.records.map(r => r[AGGREGATED_COUNT_KEY]), [2, 0, 1]);
+  assert.equal(aggregated.matchedCaseCount, 3);
+  assert.equal(aggregated.unmatchedCaseCount, 2);
+
+  // Conditional logistic regression: 1:1 pairs reproduce the discordant-pair ratio f/g
+  const pairObservations = [];
+  const addSets = (count, caseExposed, controlsExposed) => {
+    for (let i = 0; i < count; i++) {
+      const setId = `set${pairObservations.length}`;
+      pairObservations.push({ setId, isCase: true, covariates: [caseExposed] });
+      controlsExposed.forEach(x => pairObservations.push({ setId, isCase: false, covariates: [x] }));
+    }
+  };
+  addSets(12, 1, [0]);
+  addSets(4, 1, [0]);
+  addSets(5, 0, [1]);
+  addSets(9, 1, [1]);
+  addSets(7, 0, [0]);
+  const pairs = fitConditionalLogistic(pairObservations, ['Exposure']);
+  close(pairs.coefficients[0].oddsRatio, 16 / 5);
+  close(pairs.coefficients[0].standardError, Math.sqrt(1 / 16 + 1 / 5));
+  assert.equal(pairs.setsUsed, 37);
+
+  // 1:2 matched sets, including uninformative (concordant) sets and excluded sets
+  pairObservations.length = 0;
+  addSets(10, 1, [0, 0]);
+  addSets(6, 1, [1, 0]);
+  addSets(3, 0, [1, 0]);
+  addSets(2, 0, [1, 1]);
+  addSets(4, 1, [1, 1]);
+  addSets(5, 0, [0, 0]);
+  pairObservations.push({ setId: 'controls-only', isCase: false, covariates: [1] });
+  const oneToTwo = fitConditionalLogistic(pairObservations, ['Exposure']);
+  close(oneToTwo.coefficients[0].oddsRatio, 4.2525);
+  close(oneToTwo.coefficients[0].standardError, 0.5284);
+  close(oneToTwo.lrChiSquare, 8.7753);
+  assert.equal(oneToTwo.excludedSets.noCase, 1);
+  assert.equal(oneToTwo.controlsUsed, 60);
+
+  console.log('Regression model checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-rt-test-'));
+const bundledModule = path.join(tempDir, 'reproductionNumber.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/reproductionNumber.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const { discretizeSerialInterval, totalInfectiousness, estimateRt } = await import(pathToFileURL(bundledModule).href);
+
+  // Discretized gamma: w₀ = 0, sums to 1, keeps the requested mean; the
+  // linear interpolation between steps adds about 1/6 to the variance
+  const si = discretizeSerialInterval(2.6, 1.5);
+  assert.equal(si[0], 0);
+  close(si.reduce((a, b) => a + b, 0), 1, 1e-9);
+  const siMean = si.reduce((sum, w, k) => sum + k * w, 0);
+  const siVar = si.reduce((sum, w, k) => sum + (k - siMean) ** 2 * w, 0);
+  close(siMean, 2.6, 2e-3);
+  close(siVar, 1.5 ** 2 + 1 / 6, 2e-2);
+  assert.equal(discretizeSerialInterval(1, 1), null);
+  assert.equal(discretizeSerialInterval(3, 0), null);
+
+  // Λₜ with a two-step serial interval
+  assert.deepEqual(totalInfectiousness([1, 2, 3], [0, 0.5, 0.5]), [0, 0.5, 1.5]);
+
+  // Steady incidence: Rt close to 1 once Λ covers the whole serial interval
+  const flat = Array.from({ length: 40 }, () => 100);
+  const flatRt = estimateRt(flat, si, { windowSize: 7 });
+  assert.equal(flatRt[5], null);
+  close(flatRt[39].mean, 1, 0.01);
+  assert.ok(flatRt[39].lower < 1 && flatRt[39].upper > 1);
+  assert.equal(flatRt[39].windowStart, 33);
+  assert.equal(flatRt[39].casesInWindow, 700);
+
+  // Exponential growth Iₜ = I₀rᵗ: R = 1 / Σ wₖ r⁻ᵏ (Euler-Lotka)
+  const growth = 1.2;
+  const epidemic = Array.from({ length: 40 }, (_, t) => 10 * growth ** t);
+  const expectedR = 1 / si.reduce((sum, w, k) => sum + w * growth ** -k, 0);
+  close(estimateRt(epidemic, si, { windowSize: 7 })[39].mean, expectedR, 1e-3);
+
+  // Gamma posterior by hand: prior shape 1, scale 5; window of 1 bin
+  const small = [4, 6];
+  const [, last] = estimateRt(small, [0, 1], { windowSize: 1, minCumulativeCases: 0 });
+  const shape = 1 + 6;
+  const rate = 1 / 5 + 4;
+  close(last.mean, shape / rate, 1e-9);
+  close(last.sd, Math.sqrt(shape) / rate, 1e-9);
+  // Gamma(7, rate 4.2) quantiles = χ²₁₄ quantiles (5.629, 26.119) / 8.4
+  close(last.lower, 5.629 / 8.4, 1e-3);
+  close(last.upper, 26.119 / 8.4, 1e-3);
+
+  // No estimate before 12 cumulative cases by default
+  assert.equal(estimateRt(small, [0, 1], { windowSize: 1 })[1], null);
+
+  console.log('Reproduction number regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
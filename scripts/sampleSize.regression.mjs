@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-sample-size-test-'));
+const bundledModule = path.join(tempDir, 'sampleSize.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/sampleSize.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    twoGroupSampleSize,
+    twoGroupPower,
+    detectableProportion,
+    proportionFromOddsRatio,
+    oddsRatioFromProportions,
+    surveySampleSize,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Fleiss' table: p = 0.10 vs 0.20, alpha 0.05, power 0.80 -> 199 per group, 219 corrected
+  const design = { alpha: 0.05, ratio: 1, p0: 0.1, p1: 0.2 };
+  const sizes = Object.fromEntries(twoGroupSampleSize(design, 0.8).map(size => [size.method, size]));
+  assert.equal(sizes.kelsey.n1, 201);
+  assert.equal(sizes.fleiss.n1, 199);
+  assert.equal(sizes.fleissCC.n1, 219);
+  assert.equal(sizes.fleissCC.total, 438);
+
+  // Unequal groups: two controls per case
+  const caseControl = { alpha: 0.05, ratio: 2, p0: 0.3, p1: proportionFromOddsRatio(0.3, 2) };
+  close(caseControl.p1, 0.461538);
+  close(oddsRatioFromProportions(caseControl.p1, 0.3), 2, 1e-9);
+  const unequal = twoGroupSampleSize(caseControl, 0.8).find(size => size.method === 'fleissCC');
+  assert.equal(unequal.n1, 114);
+  assert.equal(unequal.n0, 227);
+
+  assert.deepEqual(twoGroupSampleSize({ ...design, p1: 0.1 }, 0.8), []);
+  assert.deepEqual(twoGroupSampleSize({ ...design, p1: 1.2 }, 0.8), []);
+
+  // Power at the sizes above returns the target power
+  close(twoGroupPower(design, 199).fleiss, 0.8, 2e-3);
+  close(twoGroupPower(design, 219).fleissCC, 0.8, 2e-3);
+  assert.ok(twoGroupPower(design, 50).fleissCC < twoGroupPower(design, 50).fleiss);
+
+  // Detectable difference inverts the power calculation
+  const base = { alpha: 0.05, ratio: 1, p0: 0.1 };
+  close(detectableProportion(base, 0.8, 219, 'increase'), 0.2, 2e-3);
+  const lower = detectableProportion(base, 0.8, 219, 'decrease');
+  assert.ok(lower > 0 && lower < 0.1);
+  close(twoGroupPower({ ...base, p1: lower }, 219).fleissCC, 0.8, 1e-6);
+  assert.equal(detectableProportion(base, 0.8, 3, 'decrease'), null);
+
+  // Surveys: 50% +/- 5 points at 95% confidence
+  assert.deepEqual(
+    surveySampleSize({ proportion: 0.5, precision: 0.05, confidence: 0.95, designEffect: 1 }),
+    { simpleRandom: 385, withDesignEffect: 385, required: 385 }
+  );
+  assert.deepEqual(
+    surveySampleSize({ proportion: 0.5, precision: 0.05, confidence: 0.95, designEffect: 2, populationSize: 1000 }),
+    { simpleRandom: 385, withDesignEffect: 769, required: 556 }
+  );
+  assert.equal(surveySampleSize({ proportion: 0.5, precision: 0.05, confidence: 0.95, designEffect: 1, populationSize: 100 }).required, 80);
+  assert.equal(surveySampleSize({ proportion: 0.5, precision: 0.05, confidence: 0.95, designEffect: 0.5 }), null);
+
+  console.log('Sample size regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-source-distance-test-'));
+const bundledModule = path.join(tempDir, 'sourceDistance.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/sourceDistance.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const {
+    nearestSource,
+    parseBandRadii,
+    formatDistance,
+    distanceBandLabels,
+    distanceBandKeys,
+    distanceBands,
+  } = await import(`${pathToFileURL(bundledModule).href}?t=${Date.now()}`);
+
+  // Metres per degree of latitude on the haversine sphere (R = 6371 km)
+  const metersPerDegree = (Math.PI / 180) * 6371000;
+  const north = (source, meters) => ({ lat: source.lat + meters / metersPerDegree, lng: source.lng });
+
+  const tower = { id: 't', name: 'Cooling tower', lat: 40, lng: -75 };
+  const well = { id: 'w', name: 'Well', lat: 40.1, lng: -75 };
+
+  // Nearest source and great-circle distance
+  {
+    assert.equal(nearestSource(40, -75, []), null);
+    const nearTower = nearestSource(40.02, -75, [tower, well]);
+    assert.equal(nearTower.source.id, 't');
+    close(nearTower.distanceMeters, 0.02 * metersPerDegree, 1e-6);
+    const nearWell = nearestSource(40.09, -75, [tower, well]);
+    assert.equal(nearWell.source.id, 'w');
+    close(nearWell.distanceMeters, 0.01 * metersPerDegree, 1e-6);
+    // East-west distances shrink with the cosine of latitude
+    const east = nearestSource(40, -74.99, [tower]);
+    close(east.distanceMeters, 0.01 * metersPerDegree * Math.cos(40 * Math.PI / 180), 0.01);
+  }
+
+  // Radii and labels
+  assert.deepEqual(parseBandRadii('500, 100 250;100 -5 abc 0'), [100, 250, 500]);
+  assert.deepEqual(parseBandRadii(''), []);
+  assert.equal(formatDistance(249.6), '250 m');
+  assert.equal(formatDistance(1000), '1 km');
+  assert.equal(formatDistance(1500), '1.5 km');
+  assert.equal(formatDistance(12345), '12.3 km');
+  assert.deepEqual(distanceBandLabels([250, 1000]), ['0 - 250 m', '250 m - 1 km', '1 km or more']);
+  // Keys come from the radii, so bands with the same rounded label stay apart
+  assert.deepEqual(distanceBandKeys([250, 1000]), ['0-250', '250-1000', '1000-']);
+  assert.deepEqual(distanceBandLabels([1500, 1504]).slice(1), ['1.5 km - 1.5 km', '1.5 km or more']);
+  assert.deepEqual(distanceBandKeys([]), []);
+
+  const pointsAt = (source, meters, count, isCase) => Array.from({ length: count }, () => ({ ...north(source, meters), isCase }));
+
+  // Cases and non-cases from the map: attack rates, risk ratios against the
+  // farthest band and the trend test match the dose-response calculation
+  {
+    const points = [
+      ...pointsAt(tower, 50, 8, true), ...pointsAt(tower, 50, 2, false),
+      ...pointsAt(tower, 300, 5, true), ...pointsAt(tower, 300, 15, false),
+      ...pointsAt(tower, 2000, 2, true), ...pointsAt(tower, 2000, 38, false),
+    ];
+    const result = distanceBands(points, [tower], { radiiMeters: [100, 500] });
+    assert.deepEqual(result.bands.map(band => band.label), ['0 - 100 m', '100 m - 500 m', '500 m or more']);
+    assert.deepEqual(result.bands.map(band => band.cases), [8, 5, 2]);
+    assert.deepEqual(result.bands.map(band => band.nonCases), [2, 15, 38]);
+    assert.deepEqual(result.bands.map(band => band.denominatorSource), ['points', 'points', 'points']);
+    assert.deepEqual(result.bands.map(band => band.denominator), [10, 20, 40]);
+    assert.equal(result.totalCases, 15);
+    close(result.bands[0].attackRate, 80);
+    close(result.bands[1].attackRate, 25);
+    close(result.bands[2].attackRate, 5);
+    assert.deepEqual(result.bands.map(band => band.isReference), [false, false, true]);
+    close(result.bands[0].riskRatio, 16);
+    close(result.bands[1].riskRatio, 5);
+    close(result.bands[2].riskRatio, 1);
+    // Katz log CI for 8/10 vs 2/40
+    const se = Math.sqrt(1 / 8 - 1 / 10 + 1 / 2 - 1 / 40);
+    close(result.bands[0].riskRatioCI[0], 16 * Math.exp(-1.96 * se), 1e-3);
+    close(result.bands[0].riskRatioCI[1], 16 * Math.exp(1.96 * se), 1e-2);
+    // Wilson interval for 8/10, in percent
+    close(result.bands[0].attackRateCI[0], 49.016, 1e-2);
+    close(result.bands[0].attackRateCI[1], 94.332, 1e-2);
+
+    // Extended Mantel-Haenszel chi-square for trend, scores 1, 2, 3
+    const levels = [[8, 10, 1], [5, 20, 2], [2, 40, 3]];
+    const n = 70;
+    const totalCases = 15;
+    const sumNX = levels.reduce((sum, [, total, x]) => sum + total * x, 0);
+    const sumNX2 = levels.reduce((sum, [, total, x]) => sum + total * x * x, 0);
+    const sumAX = levels.reduce((sum, [a, , x]) => sum + a * x, 0);
+    const t = sumAX - (totalCases * sumNX) / n;
+    const variance = (totalCases * (n - totalCases) * (n * sumNX2 - sumNX * sumNX)) / (n * n * (n - 1));
+    close(result.trendChiSquare, (t * t) / variance, 1e-9);
+    assert.ok(result.trendPValue < 0.001);
+  }
+
+  // Points are counted once, in the band of their nearest source
+  {
+    const points = [
+      ...pointsAt(tower, 50, 3, true),
+      ...pointsAt(well, 50, 4, true),
+      // Midway between the two sources: 5.56 km from each, outside every ring
+      { lat: 40.05, lng: -75, isCase: true },
+    ];
+    const result = distanceBands(points, [tower, well], { radiiMeters: [100, 1000] });
+    assert.deepEqual(result.bands.map(band => band.cases), [7, 0, 1]);
+    assert.equal(result.totalCases, 8);
+    // Cases only: no denominator, so no rates
+    assert.ok(result.bands.every(band => band.denominator === null && Number.isNaN(band.attackRate)));
+    assert.ok(Number.isNaN(result.trendChiSquare));
+  }
+
+  // Entered populations replace point counts; other bands keep mapped points
+  {
+    const points = [
+      ...pointsAt(tower, 50, 6, true),
+      ...pointsAt(tower, 300, 3, true), ...pointsAt(tower, 300, 1, false),
+    ];
+    const result = distanceBands(points, [tower], {
+      radiiMeters: [100, 500],
+      populations: { '0-100': 120, '100-500': 600, '500-': 0 },
+    });
+    assert.deepEqual(result.bands.map(band => band.denominatorSource), ['population', 'population', 'points']);
+    assert.deepEqual(result.bands.map(band => band.denominator), [120, 600, 0]);
+    close(result.bands[0].attackRate, 5);
+    close(result.bands[1].attackRate, 0.5);
+    assert.ok(Number.isNaN(result.bands[2].attackRate));
+    // The farthest band with a denominator is the reference
+    assert.equal(result.bands[1].isReference, true);
+    close(result.bands[0].riskRatio, 10);
+    assert.ok(Number.isFinite(result.trendChiSquare));
+  }
+
+  // A population for some bands and mapped points for others: risk ratios,
+  // but no trend test across the two kinds of denominator
+  {
+    const points = [
+      ...pointsAt(tower, 50, 6, true),
+      ...pointsAt(tower, 2000, 2, true), ...pointsAt(tower, 2000, 38, false),
+    ];
+    const result = distanceBands(points, [tower], { radiiMeters: [100, 500], populations: { '0-100': 60 } });
+    assert.deepEqual(result.bands.map(band => band.denominatorSource), ['population', 'points', 'points']);
+    close(result.bands[0].riskRatio, 2);
+    assert.ok(Number.isNaN(result.trendChiSquare) && Number.isNaN(result.trendPValue));
+  }
+
+  // Nothing to tally without sources or radii
+  assert.deepEqual(distanceBands([{ lat: 40, lng: -75, isCase: true }], [], { radiiMeters: [100] }).bands, []);
+  assert.deepEqual(distanceBands([{ lat: 40, lng: -75, isCase: true }], [tower], { radiiMeters: [] }).bands, []);
+
+  console.log('Source distance regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-spatial-scan-test-'));
+const bundledModule = path.join(tempDir, 'spatialScan.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/spatialScan.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const {
+    pointsToLocations,
+    geometryCentroid,
+    haversineKm,
+    bernoulliLLR,
+    poissonLLR,
+    spatialScan,
+    createSpatialScan,
+    formatScanPValue,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Likelihood ratios against hand calculation
+  close(poissonLLR(10, 4, 20), 10 * Math.log(10 / 4) + 10 * Math.log(10 / 16));
+  assert.equal(poissonLLR(3, 4, 20), 0, 'low-rate circles are not clusters');
+  close(
+    bernoulliLLR(6, 8, 10, 40),
+    6 * Math.log(6 / 8) + 2 * Math.log(2 / 8) + 4 * Math.log(4 / 32) + 28 * Math.log(28 / 32)
+      - 10 * Math.log(10 / 40) - 30 * Math.log(30 / 40)
+  );
+  assert.equal(bernoulliLLR(2, 8, 10, 40), 0);
+
+  close(haversineKm(0, 0, 0, 1), 111.195, 1e-3);
+
+  // Centroids: a square, the same square with a hole in one corner, and a MultiPolygon of two squares
+  const square = [[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]];
+  assert.deepEqual(geometryCentroid({ type: 'Polygon', coordinates: [square] }), [1, 1]);
+  const [holeLat, holeLng] = geometryCentroid({
+    type: 'Polygon',
+    coordinates: [square, [[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]]],
+  });
+  close(holeLat, 7 / 6);
+  close(holeLng, 7 / 6);
+  assert.deepEqual(
+    geometryCentroid({ type: 'MultiPolygon', coordinates: [[square], [square.map(([x, y]) => [x + 4, y])]] }),
+    [1, 3]
+  );
+  assert.deepEqual(geometryCentroid({ type: 'Point', coordinates: [30, 10] }), [10, 30]);
+  assert.equal(geometryCentroid({ type: 'LineString', coordinates: [[0, 0], [1, 1]] }), null);
+
+  // Points at the same coordinates pool into one location named by the first point
+  assert.deepEqual(
+    pointsToLocations([
+      { id: 'a', lat: 1, lng: 1, isCase: true },
+      { id: 'b', lat: 1, lng: 1, isCase: false },
+      { id: 'c', lat: 2, lng: 2, isCase: false },
+    ]),
+    [
+      { id: 'a', lat: 1, lng: 1, cases: 1, population: 2 },
+      { id: 'c', lat: 2, lng: 2, cases: 0, population: 1 },
+    ]
+  );
+
+  // Poisson: ten areas along the equator, equal populations, excess cases in areas 2 and 3
+  const longitudes = [0, 0.1, 0.2, 0.25, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+  const areas = longitudes.map((lng, i) => ({
+    id: `A${i}`,
+    lat: 0,
+    lng,
+    cases: i === 2 || i === 3 ? 20 : 2,
+    population: 1000,
+  }));
+  const poisson = spatialScan(areas, { model: 'poisson', replicates: 99, seed: 7 });
+  assert.equal(poisson.totalCases, 56);
+  assert.equal(poisson.totalPopulation, 10000);
+  const [mostLikely] = poisson.clusters;
+  assert.deepEqual([...mostLikely.locationIds].sort(), ['A2', 'A3']);
+  assert.equal(mostLikely.cases, 40);
+  close(mostLikely.expected, 11.2);
+  close(mostLikely.relativeRisk, (40 / 11.2) / (16 / 44.8));
+  close(mostLikely.logLikelihoodRatio, poissonLLR(40, 11.2, 56));
+  close(mostLikely.radiusKm, haversineKm(0, 0.2, 0, 0.25));
+  assert.equal(mostLikely.pValue, 0.01, 'no replicate beats a strong cluster');
+  // Secondary clusters never share an area with a more likely one, and are weaker
+  const seen = new Set();
+  poisson.clusters.forEach((cluster, index) => {
+    cluster.locationIds.forEach(id => {
+      assert.ok(!seen.has(id), `${id} appears in two clusters`);
+      seen.add(id);
+    });
+    if (index > 0) {
+      assert.ok(cluster.logLikelihoodRatio <= poisson.clusters[index - 1].logLikelihoodRatio);
+      assert.ok(cluster.pValue >= mostLikely.pValue);
+    }
+  });
+  // Circles stay within half the total population
+  poisson.clusters.forEach(cluster => assert.ok(cluster.population <= 5000));
+  // Seeded replicates are reproducible
+  assert.deepEqual(spatialScan(areas, { model: 'poisson', replicates: 99, seed: 7 }), poisson);
+
+  // Evenly spaced areas: neighbours at the same distance enter the circle together
+  const even = spatialScan(areas.map((area, i) => ({ ...area, lng: i * 0.1 })), { model: 'poisson', replicates: 9 });
+  assert.equal(even.clusters[0].locationIds.length, 3);
+  assert.equal(even.clusters[0].cases, 42);
+
+  // Replicates run in batches give the same result as a single run
+  const scan = createSpatialScan(areas, { model: 'poisson', replicates: 99, seed: 7 });
+  assert.equal(scan.totalReplicates, 99);
+  assert.equal(scan.runReplicates(10), 10);
+  assert.equal(scan.result().replicates, 10);
+  let done = 10;
+  while (done < scan.totalReplicates) done = scan.runReplicates(40);
+  assert.equal(done, 99);
+  assert.equal(scan.runReplicates(5), 99);
+  assert.deepEqual(scan.result(), poisson);
+  assert.equal(createSpatialScan(areas.map(area => ({ ...area, cases: 0 })), { model: 'poisson' }).totalReplicates, 0);
+
+  assert.equal(formatScanPValue(0.01, 99), '0.01');
+  assert.equal(formatScanPValue(0.001, 999), '0.001');
+  assert.equal(formatScanPValue(0.0001, 9999), '0.0001');
+
+  // A flat map has no significant cluster
+  const flat = areas.map(area => ({ ...area, cases: 5 }));
+  assert.equal(spatialScan(flat, { model: 'poisson', replicates: 99 }).clusters.length, 0);
+  assert.equal(spatialScan(areas.map(area => ({ ...area, cases: 0 })), { model: 'poisson' }).clusters.length, 0);
+
+  // Bernoulli: eight cases bunched near the origin among controls spread over a grid
+  const points = [];
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      points.push({ id: `c${x}-${y}`, lat: y * 0.05, lng: x * 0.05, isCase: false });
+    }
+  }
+  for (let i = 0; i < 8; i++) {
+    points.push({ id: `k${i}`, lat: 0.001 * i, lng: 0.001 * (i % 3), isCase: true });
+  }
+  points.push({ id: 'far-case', lat: 0.35, lng: 0.35, isCase: true });
+  const bernoulli = spatialScan(pointsToLocations(points), { model: 'bernoulli', replicates: 199, seed: 3 });
+  assert.equal(bernoulli.totalCases, 9);
+  assert.equal(bernoulli.totalPopulation, 73);
+  const [hotSpot] = bernoulli.clusters;
+  assert.ok(hotSpot.locationIds.includes('k1'));
+  assert.ok(!hotSpot.locationIds.includes('far-case'));
+  assert.ok(hotSpot.cases >= 8);
+  assert.ok(hotSpot.relativeRisk > 1);
+  close(hotSpot.logLikelihoodRatio, bernoulliLLR(hotSpot.cases, hotSpot.population, 9, 73));
+  assert.ok(hotSpot.pValue <= 0.01, `expected a significant cluster, got p = ${hotSpot.pValue}`);
+
+  // All cases or no controls: nothing to compare against
+  assert.equal(
+    spatialScan(pointsToLocations(points.filter(p => p.isCase)), { model: 'bernoulli' }).clusters.length,
+    0
+  );
+
+  console.log('Spatial scan regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-standardization-test-'));
+const bundledModule = path.join(tempDir, 'standardization.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+// Two districts with different age structures (cases by age group)
+const caseRecords = [];
+const addCases = (district, ageGroup, count) => {
+  for (let i = 0; i < count; i++) {
+    caseRecords.push({ id: `${district}-${ageGroup}-${i}`, district, age_group: ageGroup });
+  }
+};
+addCases('North', '0-14', 1);
+addCases('North', '15-64', 6);
+addCases('North', '65+', 12);
+addCases('South', '0-14', 2);
+addCases('South', '15-64', 5);
+addCases('South', '65+', 5);
+caseRecords.push({ id: 'x1', district: 'North', age_group: '' });
+caseRecords.push({ id: 'x2', district: 'West', age_group: '0-14' });
+
+const census = [
+  { id: 'c1', district: 'North', age_group: '0-14', population: 1000 },
+  { id: 'c2', district: 'North', age_group: '15-64', population: 3000 },
+  { id: 'c3', district: 'North', age_group: '65+', population: 1000 },
+  { id: 'c4', district: 'south', age_group: '0-14', population: 2000 },
+  { id: 'c5', district: 'south', age_group: '15-64', population: 2500 },
+  { id: 'c6', district: 'south', age_group: '65+', population: 500 },
+];
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/standardization.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    WHO_WORLD_STANDARD,
+    US_2000_STANDARD,
+    parseAgeGroup,
+    alignStandardWeights,
+    directStandardize,
+    standardizeRates,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Standard populations
+  assert.equal(US_2000_STANDARD.groups.reduce((sum, g) => sum + g.population, 0), 1000000);
+  assert.equal(WHO_WORLD_STANDARD.groups.at(-1).label, '100+');
+
+  // Age-group labels
+  assert.deepEqual(parseAgeGroup('0-4'), { lower: 0, upper: 5 });
+  assert.deepEqual(parseAgeGroup('15 to 24 years'), { lower: 15, upper: 25 });
+  assert.deepEqual(parseAgeGroup('85+'), { lower: 85, upper: Infinity });
+  assert.deepEqual(parseAgeGroup('65 and over'), { lower: 65, upper: Infinity });
+  assert.deepEqual(parseAgeGroup('<1'), { lower: 0, upper: 1 });
+  assert.equal(parseAgeGroup('Unknown'), null);
+
+  const aligned = alignStandardWeights(['0-14', '15-64', '65+', '2-6', 'Unknown'], WHO_WORLD_STANDARD);
+  assert.equal(aligned.weights.get('0-14'), 26150);
+  assert.equal(aligned.weights.get('65+'), 8235);
+  assert.deepEqual(aligned.unmatched, ['2-6', 'Unknown']);
+  assert.equal(alignStandardWeights(['0-4'], US_2000_STANDARD).weights.get('0-4'), 69135);
+
+  // One stratum: the gamma CI equals the exact Poisson CI
+  const single = directStandardize(
+    [{ ageGroup: '0-4', cases: 10, population: 1000 }],
+    new Map([['0-4', 1]]),
+    100000
+  );
+  close(single.adjustedRate, 1000);
+  close(single.adjustedRateCI[0], 479.54, 0.01);
+  close(single.adjustedRateCI[1], 1839.04, 0.01);
+
+  const result = standardizeRates({
+    caseRecords,
+    caseAgeField: 'age_group',
+    caseGroupField: 'district',
+    denominatorRecords: census,
+    denominatorAgeField: 'age_group',
+    denominatorGroupField: 'district',
+    denominatorValueField: 'population',
+    standard: WHO_WORLD_STANDARD,
+    rateMultiplier: 100000,
+  });
+  assert.equal(result.unmatchedCaseCount, 2);
+  assert.deepEqual(result.ageGroups, ['0-14', '15-64', '65+']);
+  const north = result.groups.find(g => g.label === 'North');
+  const south = result.groups.find(g => g.label === 'south');
+  close(north.direct.crudeRate, 380);
+  close(north.direct.adjustedRate, 256.1803);
+  close(south.direct.adjustedRate, 239.7161);
+  assert.ok(north.direct.adjustedRateCI[0] < 256.18 && north.direct.adjustedRateCI[1] > 256.18);
+  close(north.indirect.expected, 18.3333);
+  close(north.indirect.smr, 1.03636);
+  close(south.indirect.smr, 0.947368);
+  close(north.indirect.smrCI[0], 11.4393 / 18.33333);
+  close(result.overall.indirect.smr, 1);
+
+  console.log('Standardization regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-statistics-test-'));
+const bundledModule = path.join(tempDir, 'statistics.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/statistics.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    calculateStratifiedTwoByTwo,
+    calculateMatchedPairs,
+    clopperPearsonCI,
+    calculateDoseResponse,
+    orderExposureLevels,
+    calculateExactOddsRatio,
+    proportionCI,
+    welchTTest,
+    oneWayAnova,
+    wilcoxonRankSum,
+    kruskalWallis,
+    chiSquareQuantile,
+    normalCDF,
+    normalQuantile,
+    poissonExactCI,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // Tolbutamide trial stratified by age (Rothman, Modern Epidemiology)
+  const tolbutamide = calculateStratifiedTwoByTwo([
+    { label: '<55', table: { a: 8, b: 98, c: 5, d: 115 } },
+    { label: '55+', table: { a: 22, b: 76, c: 16, d: 69 } },
+  ]);
+  close(tolbutamide.crude.riskRatio, 1.436);
+  close(tolbutamide.mhRiskRatio, 1.326);
+  close(tolbutamide.mhOddsRatio, 1.403);
+  // Robins-Breslow-Greenland CI (matches R mantelhaen.test)
+  close(tolbutamide.mhOddsRatioCI[0], 0.7625);
+  close(tolbutamide.mhOddsRatioCI[1], 2.5820);
+  close(tolbutamide.mhChiSquare, 1.191);
+  assert.equal(tolbutamide.breslowDay.degreesOfFreedom, 1);
+  assert.ok(tolbutamide.breslowDay.pValue > 0.5);
+
+  // Identical strata: adjusted equals stratum-specific, no heterogeneity
+  const identical = calculateStratifiedTwoByTwo([
+    { label: 'A', table: { a: 10, b: 20, c: 5, d: 25 } },
+    { label: 'B', table: { a: 10, b: 20, c: 5, d: 25 } },
+  ]);
+  close(identical.mhOddsRatio, identical.strata[0].results.oddsRatio, 1e-9);
+  close(identical.mhRiskRatio, identical.strata[0].results.riskRatio, 1e-9);
+  close(identical.breslowDay.chiSquare, 0, 1e-9);
+  close(identical.woolfRiskRatio.chiSquare, 0, 1e-9);
+
+  // No discordant information: MH odds ratio is not estimable
+  const empty = calculateStratifiedTwoByTwo([
+    { label: 'A', table: { a: 0, b: 10, c: 0, d: 10 } },
+  ]);
+  assert.ok(Number.isNaN(empty.mhOddsRatio));
+  assert.ok(Number.isNaN(empty.breslowDay.pValue));
+
+  // Matched pairs: f = 15, g = 5 discordant pairs
+  const matched = calculateMatchedPairs({ bothExposed: 8, caseOnlyExposed: 15, controlOnlyExposed: 5, neitherExposed: 22 });
+  assert.equal(matched.pairs, 50);
+  close(matched.matchedOddsRatio, 3);
+  close(matched.mcNemarChiSquare, 4.05);
+  close(matched.mcNemarExactPValue, 0.0414);
+  // Exact CI from Clopper-Pearson (0.5090, 0.9134) for 15/20
+  close(matched.matchedOddsRatioCI[0], 1.0365);
+  close(matched.matchedOddsRatioCI[1], 10.551);
+  assert.deepEqual(clopperPearsonCI(0, 10).map(v => Number(v.toFixed(4))), [0, 0.3085]);
+
+  // Dose-response: servings eaten with a perfectly linear attack-rate gradient
+  const servings = calculateDoseResponse([
+    { label: '0', cases: 5, nonCases: 45 },
+    { label: '1', cases: 10, nonCases: 40 },
+    { label: '2', cases: 15, nonCases: 35 },
+    { label: '3', cases: 20, nonCases: 30 },
+  ], '0');
+  assert.ok(servings.numericScores);
+  close(servings.trendChiSquare, 13.2667);
+  close(servings.departureChiSquare, 0, 1e-9);
+  assert.equal(servings.departureDegreesOfFreedom, 2);
+  close(servings.levels[3].riskRatio, 4);
+  close(servings.levels[3].oddsRatio, (20 * 45) / (30 * 5));
+  assert.ok(servings.levels[0].isReference);
+
+  // Non-monotone levels scored 1..k: no linear trend, all heterogeneity is departure
+  const peaked = calculateDoseResponse([
+    { label: 'Low', cases: 10, nonCases: 40 },
+    { label: 'Medium', cases: 20, nonCases: 30 },
+    { label: 'High', cases: 10, nonCases: 40 },
+  ], 'Low');
+  assert.equal(peaked.numericScores, false);
+  close(peaked.trendChiSquare, 0, 1e-9);
+  close(peaked.departureChiSquare, 6.8182);
+  assert.deepEqual(orderExposureLevels(['10', '2', '1']), ['1', '2', '10']);
+  assert.deepEqual(orderExposureLevels(['High', 'Low', 'Medium'], ['Low', 'Medium', 'High']), ['Low', 'Medium', 'High']);
+
+  // Exact conditional OR (matches R fisher.test conditional MLE and p)
+  const fisher = calculateExactOddsRatio({ a: 3, b: 1, c: 1, d: 3 });
+  close(fisher.conditionalMLE, 6.4083);
+  close(fisher.ci[0], 0.2117);
+  close(fisher.ci[1], 626.24, 0.01);
+  close(fisher.pValue, 0.4857);
+  const midP = calculateExactOddsRatio({ a: 3, b: 1, c: 1, d: 3 }, true);
+  close(midP.ci[0], 0.3101);
+  close(midP.ci[1], 308.56, 0.01);
+  close(midP.pValue, 0.2571);
+  // Zero cell: unbounded lower limit, no Haldane correction needed
+  const zeroCell = calculateExactOddsRatio({ a: 0, b: 10, c: 5, d: 10 });
+  assert.equal(zeroCell.ci[0], 0);
+  assert.equal(zeroCell.conditionalMLE, 0);
+
+  // Proportion CIs for 5/20
+  close(proportionCI(5, 20, 'approximate')[0], 0.1119);
+  close(proportionCI(5, 20, 'approximate')[1], 0.4687);
+  close(proportionCI(5, 20, 'exact')[0], 0.0866);
+  close(proportionCI(5, 20, 'exact')[1], 0.4910);
+  close(proportionCI(5, 20, 'mid-p')[0], 0.0979);
+  close(proportionCI(5, 20, 'mid-p')[1], 0.4702);
+
+  // Student's sleep data (R: t.test / wilcox.test extra ~ group)
+  const sleep1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+  const sleep2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+  const welch = welchTTest(sleep1, sleep2);
+  close(welch.t, -1.8608);
+  close(welch.degreesOfFreedom, 17.776);
+  close(welch.pValue, 0.07939);
+  close(welch.meanDifferenceCI[0], -3.3655);
+  close(welch.meanDifferenceCI[1], 0.2055);
+  const rankSum = wilcoxonRankSum(sleep1, sleep2);
+  close(rankSum.u, 25.5);
+  close(rankSum.pValue, 0.06933);
+
+  // PlantGrowth (R: summary(aov(...)), kruskal.test(...))
+  const plantGrowth = [
+    { label: 'ctrl', values: [4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14] },
+    { label: 'trt1', values: [4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69] },
+    { label: 'trt2', values: [6.31, 5.12, 5.54, 5.50, 5.37, 5.29, 4.92, 6.15, 5.80, 5.26] },
+  ];
+  const anova = oneWayAnova(plantGrowth);
+  close(anova.f, 4.846);
+  close(anova.pValue, 0.01591);
+  assert.equal(anova.dfWithin, 27);
+  const kw = kruskalWallis(plantGrowth);
+  close(kw.h, 7.9882);
+  close(kw.pValue, 0.01842);
+
+  // Chi-square quantiles and exact Poisson limits (Garwood)
+  close(chiSquareQuantile(0.975, 10), 20.4832);
+  close(chiSquareQuantile(0.025, 10), 3.24697);
+  close(chiSquareQuantile(0.95, 1), 3.84146);
+  close(normalQuantile(0.975), 1.95996);
+  close(normalQuantile(0.2), -0.841621);
+  close(normalCDF(1.644854), 0.95);
+  close(normalCDF(-1), 0.158655);
+  const [poissonLower, poissonUpper] = poissonExactCI(10);
+  close(poissonLower, 4.7954);
+  close(poissonUpper, 18.3904);
+  close(poissonExactCI(0)[1], 3.68888);
+  const largeCI = poissonExactCI(5000);
+  assert.ok(largeCI[0] > 4860 && largeCI[0] < 4865 && largeCI[1] > 5137 && largeCI[1] < 5142);
+
+  console.log('Statistics regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
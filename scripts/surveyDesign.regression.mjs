@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-survey-design-test-'));
+const bundledModule = path.join(tempDir, 'surveyDesign.mjs');
+
+const close = (actual, expected, tolerance = 1e-6) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/surveyDesign.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    getActiveSurveyDesign,
+    prepareSurveySample,
+    surveyFrequency,
+    surveyMean,
+    surveyCrossTab,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  const columns = [{ key: 'wt' }, { key: 'cluster' }, { key: 'ill' }];
+  assert.equal(getActiveSurveyDesign(undefined, columns), null);
+  assert.equal(getActiveSurveyDesign({ weightField: 'gone' }, columns), null);
+  assert.deepEqual(getActiveSurveyDesign({ weightField: 'wt', strataField: 'gone' }, columns), {
+    weightField: 'wt',
+    strataField: undefined,
+    clusterField: undefined,
+  });
+
+  // Equal weights, no clusters: SRS variance p(1-p)/(n-1) and design effect 1
+  const srs = Array.from({ length: 40 }, (_, i) => ({ id: `${i}`, wt: 2, ill: i < 10 ? 'Yes' : 'No' }));
+  const srsSample = prepareSurveySample(srs, { weightField: 'wt' });
+  assert.equal(srsSample.summary.psus, 40);
+  assert.equal(srsSample.summary.degreesOfFreedom, 39);
+  const yes = surveyFrequency(srsSample, 'ill').levels.find(level => level.value === 'Yes');
+  close(yes.estimate, 0.25);
+  close(yes.standardError, Math.sqrt((0.25 * 0.75) / 39));
+  close(yes.designEffect, 1);
+  close(yes.weightedCount, 80);
+  assert.ok(yes.ci[0] < 0.25 && yes.ci[1] > 0.25);
+
+  // Clusters with unequal weights, one stratum: textbook ratio-estimator variance
+  // v(r) = m/(m-1) Σ (yᵢ - r·xᵢ)² / X², with yᵢ, xᵢ the weighted cluster totals
+  const clusters = [
+    { id: 'A', wt: 1, values: [1, 1, 1, 0] },
+    { id: 'B', wt: 2, values: [0, 0, 1] },
+    { id: 'C', wt: 1, values: [1, 0, 0, 0, 0] },
+    { id: 'D', wt: 3, values: [1, 1] },
+  ];
+  const clustered = clusters.flatMap(cluster =>
+    cluster.values.map((v, i) => ({ id: `${cluster.id}${i}`, cluster: cluster.id, wt: cluster.wt, ill: v ? 'Yes' : 'No', score: v * 10 + i }))
+  );
+  clustered.push({ id: 'noweight', cluster: 'A', wt: '', ill: 'Yes' });
+  const sample = prepareSurveySample(clustered, { weightField: 'wt', clusterField: 'cluster' });
+  assert.equal(sample.summary.excluded, 1);
+  assert.equal(sample.summary.psus, 4);
+  assert.equal(sample.summary.degreesOfFreedom, 3);
+
+  const totals = clusters.map(cluster => ({
+    y: cluster.wt * cluster.values.reduce((a, b) => a + b, 0),
+    x: cluster.wt * cluster.values.length,
+  }));
+  const X = totals.reduce((sum, t) => sum + t.x, 0);
+  const r = totals.reduce((sum, t) => sum + t.y, 0) / X;
+  const expectedVariance = (4 / 3) * totals.reduce((sum, t) => sum + (t.y - r * t.x) ** 2, 0) / (X * X);
+  const clusteredYes = surveyFrequency(sample, 'ill').levels.find(level => level.value === 'Yes');
+  close(clusteredYes.estimate, r);
+  close(clusteredYes.standardError, Math.sqrt(expectedVariance));
+  assert.equal(clusteredYes.count, 14);
+
+  // Weighted mean of a numeric variable
+  const mean = surveyMean(sample, 'score');
+  const weightedScore = clustered.filter(rec => rec.wt !== '').reduce((sum, rec) => sum + rec.wt * rec.score, 0);
+  close(mean.estimate, weightedScore / X);
+
+  // Cross-tab under SRS with exact independence: X² = 0 and δ̄ = 1
+  const independent = [];
+  [['a', 'x', 6], ['a', 'y', 3], ['b', 'x', 4], ['b', 'y', 2]].forEach(([row, col, n]) => {
+    for (let i = 0; i < n; i++) independent.push({ id: `${row}${col}${i}`, row, col });
+  });
+  const independentTab = surveyCrossTab(prepareSurveySample(independent, {}), 'row', 'col');
+  close(independentTab.raoScott.pearsonChiSquare, 0);
+  close(independentTab.raoScott.meanDesignEffect, 1);
+
+  // Cross-tab under SRS with association
+  const associated = [];
+  [['a', 'x', 30], ['a', 'y', 20], ['b', 'x', 15], ['b', 'y', 35]].forEach(([row, col, n]) => {
+    for (let i = 0; i < n; i++) associated.push({ id: `${row}${col}${i}`, row, col });
+  });
+  const associatedTab = surveyCrossTab(prepareSurveySample(associated, {}), 'row', 'col');
+  // Pearson X² for [[30, 20], [15, 35]] is 9.0909
+  close(associatedTab.raoScott.pearsonChiSquare, 9.0909, 1e-3);
+  // With every design effect 1, δ̄ = Σᵢⱼ (pᵢⱼ/(pᵢ.p.ⱼ))(1-pᵢⱼ) - Σᵢ(1-pᵢ.) - Σⱼ(1-p.ⱼ)
+  const cellTerm = (p, pRow, pCol) => (p / (pRow * pCol)) * (1 - p);
+  close(
+    associatedTab.raoScott.meanDesignEffect,
+    cellTerm(0.3, 0.5, 0.45) + cellTerm(0.2, 0.5, 0.55) + cellTerm(0.15, 0.5, 0.45) + cellTerm(0.35, 0.5, 0.55) - 2
+  );
+  close(associatedTab.raoScott.chiSquare, 9.0909 / associatedTab.raoScott.meanDesignEffect, 1e-3);
+  assert.equal(associatedTab.raoScott.degreesOfFreedom, 1);
+  close(associatedTab.cells.get('a').get('x').rowPercent.estimate, 0.6);
+  close(associatedTab.cells.get('a').get('x').colPercent.estimate, 30 / 45);
+  close(associatedTab.cells.get('a').get('x').totalPercent.estimate, 0.3);
+
+  // Clustering the same table within rows/columns inflates δ̄ and shrinks X²
+  const clusteredTab = surveyCrossTab(
+    prepareSurveySample(associated.map((rec, i) => ({ ...rec, cluster: `${rec.row}${rec.col}${i % 3}` })), { clusterField: 'cluster' }),
+    'row',
+    'col'
+  );
+  assert.ok(clusteredTab.raoScott.meanDesignEffect > 1);
+  assert.ok(clusteredTab.raoScott.chiSquare < clusteredTab.raoScott.pearsonChiSquare);
+  assert.equal(clusteredTab.raoScott.fDegreesOfFreedom[1], clusteredTab.raoScott.degreesOfFreedom * 11);
+
+  // A domain restricts the table but keeps the design df of the full sample
+  const domainTab = surveyCrossTab(prepareSurveySample(associated, {}), 'row', 'col', undefined, undefined, rec => rec.col === 'x' || rec.row === 'a');
+  assert.equal(domainTab.count, 65);
+  assert.equal(domainTab.raoScott.fDegreesOfFreedom[1], 99);
+
+  console.log('Survey design regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-survival-test-'));
+const bundledModule = path.join(tempDir, 'survival.mjs');
+
+const close = (actual, expected, tolerance = 1e-3) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+// Acute myelogenous leukemia trial (R survival::aml); "+" marks censored follow-up
+const aml = {
+  Maintained: ['9', '13', '13+', '18', '23', '28+', '31', '34', '45+', '48', '161+'],
+  Nonmaintained: ['5', '5', '8', '8', '12', '16+', '23', '27', '30', '33', '43', '45'],
+};
+
+const addDays = (isoDate, days) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const records = [];
+Object.entries(aml).forEach(([arm, times]) => {
+  times.forEach((value, i) => {
+    const entry = addDays('2024-01-01', i * 3);
+    records.push({
+      id: `${arm}-${i}`,
+      arm,
+      entry_date: entry,
+      exit_date: addDays(entry, parseInt(value, 10)),
+      status: value.endsWith('+') ? 'Censored' : 'Relapse',
+    });
+  });
+});
+records.push({ id: 'missing', arm: 'Maintained', entry_date: '2024-02-01', exit_date: '', status: 'Relapse' });
+records.push({ id: 'reversed', arm: 'Maintained', entry_date: '2024-02-01', exit_date: '2024-01-15', status: 'Relapse' });
+records.push({ id: 'nogroup', arm: '', entry_date: '2024-02-01', exit_date: '2024-03-01', status: 'Relapse' });
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/survival.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+  const {
+    buildSurvivalData,
+    getSurvivalGroups,
+    calculatePersonTimeRates,
+    kaplanMeier,
+    kaplanMeierByGroup,
+    logRankTest,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  const { observations, excluded } = buildSurvivalData(records, {
+    entryField: 'entry_date',
+    exitField: 'exit_date',
+    eventField: 'status',
+    eventValues: ['Relapse'],
+    groupField: 'arm',
+  });
+  assert.equal(observations.length, 23);
+  assert.deepEqual(excluded, { missingDates: 1, exitBeforeEntry: 1, missingGroup: 1 });
+  const groups = getSurvivalGroups(observations);
+  assert.deepEqual(groups, ['Maintained', 'Nonmaintained']);
+
+  // Kaplan-Meier (R: survfit(Surv(time, status) ~ x, data = aml))
+  const [maintained, nonmaintained] = kaplanMeierByGroup(observations, groups);
+  const expectedSurvival = { 9: 0.9091, 13: 0.8182, 18: 0.7159, 23: 0.6136, 31: 0.4909, 34: 0.3682, 48: 0.1841 };
+  Object.entries(expectedSurvival).forEach(([time, survival]) => {
+    close(maintained.steps.find(step => step.time === Number(time)).survival, survival);
+  });
+  const first = maintained.steps.find(step => step.time === 9);
+  close(first.standardError, 0.0867);
+  assert.equal(first.atRisk, 11);
+  close(first.ci[0], 0.5081, 2e-3);
+  close(first.ci[1], 0.9867, 2e-3);
+  assert.equal(maintained.steps.find(step => step.time === 13).censored, 1);
+  assert.equal(maintained.medianSurvival, 31);
+  assert.equal(nonmaintained.medianSurvival, 23);
+  assert.equal(kaplanMeier([{ id: 'a', group: 'All', time: 10, event: false }]).medianSurvival, null);
+
+  // Log-rank (R: survdiff(Surv(time, status) ~ x, data = aml))
+  const logRank = logRankTest(observations, groups);
+  close(logRank.chiSquare, 3.396, 2e-3);
+  assert.equal(logRank.degreesOfFreedom, 1);
+  close(logRank.pValue, 0.0653, 1e-3);
+  assert.equal(logRank.groups[0].observed, 7);
+  close(logRank.groups[0].expected, 10.69, 5e-3);
+  close(logRank.groups[1].expected, 7.31, 5e-3);
+
+  // Three groups: chi-square on 2 df and unchanged by group order
+  const threeGroups = observations.map((o, i) => ({ ...o, group: i % 3 === 0 ? 'C' : o.group }));
+  const a = logRankTest(threeGroups, ['Maintained', 'Nonmaintained', 'C']);
+  const b = logRankTest(threeGroups, ['C', 'Nonmaintained', 'Maintained']);
+  assert.equal(a.degreesOfFreedom, 2);
+  close(a.chiSquare, b.chiSquare, 1e-9);
+
+  // Person-time: 10 events in 1000 person-days vs 5 events in 1000 person-days
+  const cohort = [
+    ...Array.from({ length: 10 }, (_, i) => ({ id: `e${i}`, group: 'Exposed', time: 100, event: true })),
+    ...Array.from({ length: 5 }, (_, i) => ({ id: `u${i}`, group: 'Unexposed', time: 200, event: true })),
+  ];
+  const rates = calculatePersonTimeRates(cohort, ['Unexposed', 'Exposed'], 'Unexposed', 'days', 1000);
+  const exposed = rates.groups.find(g => g.group === 'Exposed');
+  const unexposed = rates.groups.find(g => g.group === 'Unexposed');
+  close(exposed.personTime, 1000);
+  close(exposed.rate, 10);
+  close(exposed.rateCI[0], 4.7954);
+  close(exposed.rateCI[1], 18.3904);
+  assert.equal(unexposed.isReference, true);
+  close(exposed.rateRatio, 2);
+  close(exposed.rateRatioCI[0], Math.exp(Math.log(2) - 1.96 * Math.sqrt(0.3)));
+  close(exposed.rateRatioCI[1], Math.exp(Math.log(2) + 1.96 * Math.sqrt(0.3)));
+  close(rates.overall.rate, 7.5);
+
+  const years = calculatePersonTimeRates(cohort, ['Exposed'], 'Exposed', 'years', 1);
+  close(years.groups[0].personTime, 1000 / 365.25, 1e-6);
+
+  console.log('Survival regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
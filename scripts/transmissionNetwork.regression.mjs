@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { pathToFileURL } from 'node:url';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { build } from 'esbuild';
+
+const root = process.cwd();
+const tempDir = await mkdtemp(path.join(os.tmpdir(), 'epikit-network-test-'));
+const bundledModule = path.join(tempDir, 'transmissionNetwork.mjs');
+
+const close = (actual, expected, tolerance = 1e-9) => {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${actual} to be within ${tolerance} of ${expected}`
+  );
+};
+
+try {
+  await build({
+    entryPoints: [path.join(root, 'src/utils/transmissionNetwork.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    outfile: bundledModule,
+    logLevel: 'silent',
+  });
+
+
+  const {
+    buildTransmissionNetwork,
+    summarizeGenerations,
+    summarizeSerialIntervals,
+    forceLayout,
+    timelineLayout,
+  } = await import(pathToFileURL(bundledModule).href);
+
+  // A: index case; B, C infected by A; D by B; E by an unlisted case X; F lists itself
+  const records = [
+    { id: 'r1', case_id: 'A', infected_by: '', onset: '2024-05-01' },
+    { id: 'r2', case_id: 'B', infected_by: 'A', onset: '2024-05-05' },
+    { id: 'r3', case_id: 'C', infected_by: 'A', onset: '2024-05-07' },
+    { id: 'r4', case_id: 'D', infected_by: 'B', onset: '2024-05-04' },
+    { id: 'r5', case_id: 'E', infected_by: 'X', onset: '' },
+    { id: 'r6', case_id: 'F', infected_by: 'F', onset: '2024-05-10' },
+    { id: 'r7', case_id: 'B', infected_by: 'C', onset: '2024-05-09' },
+    { id: 'r8', case_id: '', infected_by: 'A', onset: '2024-05-09' },
+  ];
+  const network = buildTransmissionNetwork(records, { idField: 'case_id', sourceField: 'infected_by', onsetField: 'onset' });
+  assert.deepEqual(network.nodes.map(n => n.id), ['A', 'B', 'C', 'D', 'E', 'F', 'X']);
+  assert.deepEqual(network.issues, { duplicateIds: ['B'], selfLinks: ['F'], cycles: [], unlistedSources: ['X'] });
+  assert.equal(network.nodes.find(n => n.id === 'X').record, null);
+  assert.deepEqual(network.edges.map(e => `${e.source}>${e.target}:${e.serialInterval}`), ['A>B:4', 'A>C:6', 'B>D:-1', 'X>E:null']);
+  assert.deepEqual(network.nodes.map(n => n.generation), [1, 2, 2, 3, 2, 1, 1]);
+
+  // Generation 1 counts A and F (X is unlisted); E is a listed generation-2 case of X
+  assert.deepEqual(summarizeGenerations(network), [
+    { generation: 1, cases: 2, secondaryCases: 2, secondaryPerCase: 1 },
+    { generation: 2, cases: 3, secondaryCases: 1, secondaryPerCase: 1 / 3 },
+    { generation: 3, cases: 1, secondaryCases: 0, secondaryPerCase: 0 },
+  ]);
+
+  const serial = summarizeSerialIntervals(network);
+  assert.equal(serial.pairs, 3);
+  close(serial.mean, 3);
+  assert.equal(serial.median, 4);
+  assert.equal(serial.min, -1);
+  assert.equal(serial.max, 6);
+  assert.equal(serial.negative, 1);
+  close(serial.sd, Math.sqrt(((4 - 3) ** 2 + (6 - 3) ** 2 + (-1 - 3) ** 2) / 2));
+  assert.deepEqual([...serial.distribution.entries()], [[-1, 1], [4, 1], [6, 1]]);
+
+  // Record IDs are used when no ID column is chosen
+  const byRecord = buildTransmissionNetwork([{ id: '1', src: '' }, { id: '2', src: '1' }], { idField: '', sourceField: 'src' });
+  assert.deepEqual(byRecord.edges.map(e => [e.source, e.target, e.serialInterval]), [['1', '2', null]]);
+  assert.equal(summarizeSerialIntervals(byRecord), null);
+
+  // A loop has no index case: its members (and their offspring) get no generation
+  const loop = buildTransmissionNetwork([
+    { id: '1', src: '2' },
+    { id: '2', src: '1' },
+    { id: '3', src: '2' },
+    { id: '4', src: '' },
+  ], { idField: '', sourceField: 'src' });
+  assert.deepEqual(loop.issues.cycles, ['1', '2', '3']);
+  assert.deepEqual(summarizeGenerations(loop), [{ generation: 1, cases: 1, secondaryCases: 0, secondaryPerCase: 0 }]);
+
+  // Force layout: reproducible, inside the unit square, linked nodes closer than unlinked ones
+  const layout = forceLayout(network, { seed: 7 });
+  assert.deepEqual([...layout.entries()], [...forceLayout(network, { seed: 7 }).entries()]);
+  for (const { x, y } of layout.values()) {
+    assert.ok(x >= 0 && x <= 1 && y >= 0 && y <= 1);
+  }
+  const dist = (a, b) => Math.hypot(layout.get(a).x - layout.get(b).x, layout.get(a).y - layout.get(b).y);
+  assert.ok(dist('X', 'E') < dist('X', 'D'));
+  // F has no links, so it sits on the grid below the linked cases
+  const linkedBottom = Math.max(...['A', 'B', 'C', 'D', 'E', 'X'].map(id => layout.get(id).y));
+  assert.deepEqual(layout.get('F'), { x: 0.5, y: 1 });
+  assert.ok(linkedBottom < 0.95);
+  assert.deepEqual([...forceLayout(byRecord).keys()], ['1', '2']);
+
+  // Timeline: x by onset, rows depth-first (A, B, D, C), undated E placed at its source
+  const timeline = timelineLayout(network);
+  assert.equal(timeline.domain[0].getTime(), new Date(2024, 4, 1).getTime());
+  assert.equal(timeline.domain[1].getTime(), new Date(2024, 4, 10).getTime());
+  const row = id => Math.round(timeline.positions.get(id).y * (network.nodes.length - 1));
+  assert.deepEqual(['A', 'B', 'D', 'C', 'F', 'X', 'E'].map(row), [0, 1, 2, 3, 4, 5, 6]);
+  close(timeline.positions.get('B').x, 4 / 9);
+  assert.equal(timeline.positions.get('F').x, 1);
+  assert.deepEqual([...timeline.undated], ['X', 'E']);
+  assert.equal(timeline.positions.get('E').x, timeline.positions.get('X').x);
+
+  console.log('Transmission network regression checks passed.');
+} finally {
+  await rm(tempDir, { recursive: true, force: true });
+}
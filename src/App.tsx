@@ -21,7 +21,7 @@
  * - Edit log tracks all data modifications for audit trail
  */
 import { useState, useCallback, useEffect, useRef, lazy, Suspense } from 'react';
-import type { Dataset, DataColumn, CaseRecord, EditLogEntry } from './types/analysis';
+import type { Dataset, DataColumn, CaseRecord, Contact, EditLogEntry } from './types/analysis';
 import { DataImport } from './components/analysis/DataImport';
 import { OnboardingWizard } from './components/OnboardingWizard';
 import { HelpCenter } from './components/HelpCenter';
@@ -38,17 +38,19 @@ import { LoadingSpinner } from './components/shared/LoadingSpinner';
 const Review = lazy(() => import('./components/review/Review').then((m) => ({ default: m.Review })));
 const EpiCurve = lazy(() => import('./components/analysis/EpiCurve').then((m) => ({ default: m.EpiCurve })));
 const Maps = lazy(() => import('./components/analysis/Maps').then((m) => ({ default: m.Maps })));
+const TransmissionNetwork = lazy(() => import('./components/analysis/TransmissionNetwork').then((m) => ({ default: m.TransmissionNetwork })));
+const ContactTracing = lazy(() => import('./components/contacts/ContactTracing').then((m) => ({ default: m.ContactTracing })));
 const AnalysisWorkflow = lazy(() => import('./components/analysis/AnalysisWorkflow').then((m) => ({ default: m.AnalysisWorkflow })));
 const VisualizeWorkflow = lazy(() => import('./components/visualize/VisualizeWorkflow').then((m) => ({ default: m.VisualizeWorkflow })));
 import { demoColumns, demoCaseRecords, nutritionDemoColumns, nutritionDemoRecords, surveillanceDemoColumns, surveillanceDemoRecords } from './data/demoData';
 import { exportToCSV } from './utils/csvParser';
 import { useLocale } from './contexts/LocaleContext';
 import { addVariableToDataset } from './utils/variableCreation';
-import { exportProject, downloadProject, parseProjectFile, saveDatasets, saveEditLog, saveActiveDatasetId } from './utils/persistence';
+import { exportProject, downloadProject, parseProjectFile, saveDatasets, saveEditLog, saveActiveDatasetId, loadContacts, saveContacts } from './utils/persistence';
 import type { VariableConfig } from './types/analysis';
 
 /** Available navigation modules in the app */
-type Module = 'dashboard' | 'review' | 'epicurve' | 'maps' | 'analysis' | 'visualize';
+type Module = 'dashboard' | 'review' | 'epicurve' | 'maps' | 'network' | 'contacts' | 'analysis' | 'visualize';
 
 // =============================================================================
 // DEMO DATA SETUP
@@ -215,6 +217,16 @@ function App() {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // CONTACT TRACING REGISTER
+  // Contacts of cases with their daily follow-up results, kept outside the
+  // line list and linked to case records by record ID.
+  // ---------------------------------------------------------------------------
+  const [contacts, setContacts] = useState<Contact[]>(() => {
+    const saved = loadContacts();
+    return Array.isArray(saved) ? saved : [];
+  });
+
   // Onboarding wizard can be accessed from Help Center
   // Dashboard now serves as the welcoming landing page
 
@@ -257,8 +269,9 @@ function App() {
       }
       return remaining;
     });
-    // Clean up edit log entries for the deleted dataset
+    // Clean up edit log entries and contacts for the deleted dataset
     setEditLog(prev => prev.filter(entry => entry.datasetId !== id));
+    setContacts(prev => prev.filter(contact => contact.datasetId !== id));
   }, [activeDatasetId]);
 
   /** Add a new record to a dataset (from form submission or manual entry) */
@@ -318,6 +331,12 @@ function App() {
     return () => clearTimeout(timer);
   }, [editLog]);
 
+  useEffect(() => {
+    if (saveContacts(contacts)) return;
+    const timer = setTimeout(() => setShowStorageWarning(true), 0);
+    return () => clearTimeout(timer);
+  }, [contacts]);
+
   useEffect(() => {
     if (activeDatasetId) {
       saveActiveDatasetId(activeDatasetId);
@@ -357,6 +376,20 @@ function App() {
     return editLog.filter(entry => entry.datasetId === datasetId);
   }, [editLog]);
 
+  const addContact = useCallback((contact: Contact) => {
+    setContacts(prev => [...prev, contact]);
+  }, []);
+
+  const updateContact = useCallback((id: string, updates: Partial<Contact>) => {
+    setContacts(prev => prev.map(contact =>
+      contact.id === id ? { ...contact, ...updates } : contact
+    ));
+  }, []);
+
+  const removeContact = useCallback((id: string) => {
+    setContacts(prev => prev.filter(contact => contact.id !== id));
+  }, []);
+
   const exportEditLog = useCallback((datasetId: string) => {
     const entries = editLog.filter(e => e.datasetId === datasetId);
     if (entries.length === 0) return;
@@ -496,7 +529,7 @@ function App() {
 
   // ---------------------------------------------------------------------------
   // PROJECT SAVE/LOAD
-  // Users can export entire project (datasets, edit log) as JSON file
+  // Users can export entire project (datasets, edit log, contacts) as JSON file
   // and reload it later. Useful for sharing or backing up work.
   // ---------------------------------------------------------------------------
 
@@ -505,10 +538,11 @@ function App() {
     const project = exportProject(
       datasets,
       activeDatasetId,
-      editLog
+      editLog,
+      contacts
     );
     downloadProject(project);
-  }, [datasets, activeDatasetId, editLog]);
+  }, [datasets, activeDatasetId, editLog, contacts]);
 
   // Project load handler - show file picker
   const handleLoadProjectClick = useCallback(() => {
@@ -546,6 +580,7 @@ function App() {
     setDatasets(project.datasets);
     setActiveDatasetId(project.activeDatasetId);
     setEditLog(project.editLog);
+    setContacts(project.contacts);
 
     // Restore analysis states to localStorage
     if (project.analysisState) {
@@ -557,7 +592,7 @@ function App() {
   }, [showProjectLoadConfirm]);
 
   // Check if current module needs dataset selector
-  const showDatasetSelector = ['review', 'epicurve', 'maps', 'analysis', 'visualize'].includes(activeModule);
+  const showDatasetSelector = ['review', 'epicurve', 'maps', 'network', 'contacts', 'analysis', 'visualize'].includes(activeModule);
 
   return (
     <div className="h-screen flex flex-col">
@@ -577,6 +612,8 @@ function App() {
                 ['review', 'Review/Clean'],
                 ['epicurve', 'Epi Curve'],
                 ['maps', 'Maps'],
+                ['network', 'Network'],
+                ['contacts', 'Contacts'],
                 ['analysis', 'Analysis'],
                 ['visualize', 'Visualize'],
               ] as const).map(([mod, label], i) => (
@@ -690,6 +727,8 @@ function App() {
                 ['review', 'Review/Clean'],
                 ['epicurve', 'Epi Curve'],
                 ['maps', 'Maps'],
+                ['network', 'Network'],
+                ['contacts', 'Contacts'],
                 ['analysis', 'Analysis'],
                 ['visualize', 'Visualize'],
               ] as const).map(([mod, label]) => (
@@ -878,14 +917,32 @@ function App() {
             </ErrorBoundary>
           ) : activeModule === 'maps' ? (
             <ErrorBoundary moduleName="Maps" onReset={handleResetModuleError}>
-              <Maps dataset={activeDataset} datasets={datasets} />
+              <Maps dataset={activeDataset} datasets={datasets} onCreateVariable={handleCreateVariable} />
+            </ErrorBoundary>
+          ) : activeModule === 'network' ? (
+            <ErrorBoundary moduleName="Network" onReset={handleResetModuleError}>
+              <TransmissionNetwork key={activeDataset.id} dataset={activeDataset} />
+            </ErrorBoundary>
+          ) : activeModule === 'contacts' ? (
+            <ErrorBoundary moduleName="Contacts" onReset={handleResetModuleError}>
+              <ContactTracing
+                key={activeDataset.id}
+                dataset={activeDataset}
+                contacts={contacts.filter(contact => contact.datasetId === activeDataset.id)}
+                onAddContact={addContact}
+                onUpdateContact={updateContact}
+                onRemoveContact={removeContact}
+                onAddRecord={(record) => addRecord(activeDataset.id, record)}
+              />
             </ErrorBoundary>
           ) : activeModule === 'analysis' ? (
             <ErrorBoundary moduleName="Analysis" onReset={handleResetModuleError}>
               <AnalysisWorkflow
                 dataset={activeDataset}
+                datasets={datasets}
                 onCreateVariable={handleCreateVariable}
                 onUpdateRecords={handleUpdateRecords}
+                onUpdateSurveyDesign={(surveyDesign) => updateDataset(activeDataset.id, { surveyDesign })}
               />
             </ErrorBoundary>
           ) : activeModule === 'visualize' ? (
@@ -1029,6 +1086,7 @@ function App() {
             <ul className="text-sm text-gray-600 mb-4 space-y-1 ml-4">
               <li>• {showProjectLoadConfirm.project?.datasets?.length ?? 0} dataset(s)</li>
               <li>• {showProjectLoadConfirm.project?.editLog?.length ?? 0} edit log entries</li>
+              <li>• {showProjectLoadConfirm.project?.contacts?.length ?? 0} traced contacts</li>
               <li>• All saved analysis settings</li>
             </ul>
             <p className="text-sm text-amber-600 bg-amber-50 p-3 rounded-lg mb-4">
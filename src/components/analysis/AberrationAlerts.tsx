@@ -0,0 +1,213 @@
+/**
+ * Aberration detection controls and alert table
+ *
+ * Method and parameter settings for EARS C1/C2/C3 and Farrington-Flexible, and
+ * the table of alarmed periods with their expected counts and thresholds.
+ * Used by the Epi Curve and the Visualize line chart.
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { AberrationAlert, AberrationMethod, AberrationOptions } from '../../utils/aberrationDetection';
+import { ABERRATION_METHOD_LABELS } from '../../utils/aberrationDetection';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob, exportExcel } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface AberrationSettingsProps {
+  settings: AberrationOptions;
+  onChange: (settings: AberrationOptions) => void;
+  /** Periods per year implied by the time axis, or null when it cannot be inferred */
+  inferredPeriodsPerYear: number | null;
+}
+
+const PERIODS_PER_YEAR_LABELS: Record<number, string> = { 365: 'daily', 52: 'weekly', 12: 'monthly' };
+
+export function AberrationSettings({ settings, onChange, inferredPeriodsPerYear }: AberrationSettingsProps) {
+  const update = (patch: Partial<AberrationOptions>) => onChange({ ...settings, ...patch });
+  const numberInput = (value: number | undefined, onValue: (n: number) => void, min: number, step = 1) => (
+    <input
+      type="number"
+      min={min}
+      step={step}
+      value={value === undefined || isNaN(value) ? '' : value}
+      onChange={(e) => {
+        // Keep the last valid value while the field is cleared or half-typed
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) onValue(Math.max(min, parsed));
+      }}
+      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Method</label>
+        <select
+          value={settings.method}
+          onChange={(e) => update({ method: e.target.value as AberrationMethod })}
+          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+        >
+          {(Object.keys(ABERRATION_METHOD_LABELS) as AberrationMethod[]).map(method => (
+            <option key={method} value={method}>{ABERRATION_METHOD_LABELS[method]}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.method === 'farrington' ? (
+        <>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Periods per year</label>
+            {inferredPeriodsPerYear ? (
+              <p className="text-sm text-gray-700">
+                {inferredPeriodsPerYear} ({PERIODS_PER_YEAR_LABELS[inferredPeriodsPerYear]}, from the time axis)
+              </p>
+            ) : (
+              numberInput(settings.periodsPerYear, n => update({ periodsPerYear: n }), 2)
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Years of history</label>
+              {numberInput(settings.years, n => update({ years: n }), 1)}
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Window (± periods)</label>
+              {numberInput(settings.window, n => update({ window: n }), 0)}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Alpha (one-sided)</label>
+            {numberInput(settings.alpha, n => update({ alpha: n }), 0.001, 0.01)}
+          </div>
+        </>
+      ) : (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Baseline (periods)</label>
+          {numberInput(settings.baseline, n => update({ baseline: n }), 2)}
+        </div>
+      )}
+
+      <p className="text-[11px] text-gray-400">
+        {settings.method === 'farrington'
+          ? 'Quasi-Poisson model of the same season in past years, with past outbreaks downweighted (Noufaily et al., 2013).'
+          : `Alarm when the count exceeds the baseline mean by 3 SD${settings.method === 'C1' ? '' : ', skipping the 2 most recent periods'}${settings.method === 'C3' ? ', accumulated over 3 periods' : ''} (CDC EARS).`}
+      </p>
+    </div>
+  );
+}
+
+interface AberrationAlertsTableProps {
+  alerts: AberrationAlert[];
+  settings: AberrationOptions;
+  /** Column header for the stratum; omit for a single unstratified series */
+  seriesLabel?: string;
+  /** Periods evaluated across all series (those with enough history) */
+  evaluatedPeriods: number;
+  filename: string;
+}
+
+const exportColumns: DataColumn[] = [
+  { key: 'series', label: 'Stratum', type: 'text' },
+  { key: 'period', label: 'Period', type: 'text' },
+  { key: 'observed', label: 'Observed', type: 'number' },
+  { key: 'expected', label: 'Expected', type: 'number' },
+  { key: 'threshold', label: 'Threshold', type: 'number' },
+  { key: 'statistic', label: 'Statistic', type: 'number' },
+  { key: 'method', label: 'Method', type: 'text' },
+];
+
+const formatStatistic = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : '∞');
+
+export function AberrationAlertsTable({ alerts, settings, seriesLabel, evaluatedPeriods, filename }: AberrationAlertsTableProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const methodLabel = ABERRATION_METHOD_LABELS[settings.method];
+
+  const exportRows = () => alerts.map((alert, i) => ({
+    id: String(i + 1),
+    series: alert.series,
+    period: alert.period,
+    observed: alert.observed,
+    expected: alert.expected,
+    threshold: alert.threshold,
+    statistic: isFinite(alert.statistic) ? alert.statistic : null,
+    method: methodLabel,
+  }));
+
+  const subtitle = `${methodLabel}: ${alerts.length} alert${alerts.length === 1 ? '' : 's'} in ${evaluatedPeriods} evaluated periods`;
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = exportRows();
+    const csv = exportToCSV(exportColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  const handleExportExcel = () => {
+    exportExcel({
+      title: 'Aberration detection alerts',
+      subtitle,
+      columns: exportColumns.map(c => ({ header: c.label, key: c.key })),
+      rows: exportRows(),
+    }, `${filename}.xlsx`);
+  };
+
+  return (
+    <div className="mt-4 bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h5 className="text-sm font-semibold text-gray-900">Aberration alerts</h5>
+        <p className="text-xs text-gray-500 mt-0.5">{subtitle}</p>
+      </div>
+      {alerts.length > 0 ? (
+        <div className="overflow-x-auto max-h-80">
+          <table className="w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {seriesLabel && (
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{seriesLabel}</th>
+                )}
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className={headerClass}>Observed</th>
+                <th className={headerClass}>Expected</th>
+                <th className={headerClass}>Threshold</th>
+                <th className={headerClass}>Statistic</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {alerts.map(alert => (
+                <tr key={`${alert.series}|${alert.periodIndex}`}>
+                  {seriesLabel && <td className="px-3 py-2 text-sm text-gray-900">{alert.series}</td>}
+                  <td className="px-3 py-2 text-sm text-gray-900">{alert.period}</td>
+                  <td className={`${cellClass} font-medium text-red-700`}>{formatSigFigs(alert.observed, 3)}</td>
+                  <td className={cellClass}>{formatSigFigs(alert.expected, 3)}</td>
+                  <td className={cellClass}>{formatSigFigs(alert.threshold, 3)}</td>
+                  <td className={cellClass}>{formatStatistic(alert.statistic)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="px-4 py-3 text-sm text-gray-500">No period exceeded its threshold.</p>
+      )}
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div className="text-gray-500">
+          {settings.method === 'farrington'
+            ? 'Statistic: (observed − expected) / (threshold − expected); alarms also need at least 5 cases in the last 4 periods.'
+            : settings.method === 'C3'
+              ? 'Statistic: sum of C2 excesses over 3 periods; alarm above 2. The threshold is the count that would alarm given the two previous periods.'
+              : 'Statistic: (observed − baseline mean) / baseline SD; alarm above 3.'}
+          {' '}Periods without enough history are not evaluated.
+        </div>
+        <ResultsActions
+          actions={[
+            { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary', disabled: alerts.length === 0 },
+            { label: 'Export Excel', onClick: handleExportExcel, icon: ExportIcons.download, variant: 'secondary', disabled: alerts.length === 0 },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * AgeStandardizedRates Component
+ *
+ * Table Builder panel that joins case counts by group and age group to a
+ * denominator dataset and tabulates crude, age-adjusted and indirectly
+ * standardized rates. Settings persist per dataset.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import type { CaseRecord, Dataset } from '../../types/analysis';
+import { suggestAreaField } from '../../utils/areaMap';
+import {
+  parseStandardizationSettings,
+  resolveStandardPopulation,
+  standardizeRates,
+  suggestAgeGroupField,
+} from '../../utils/standardization';
+import type { StandardizationSettings } from '../../utils/standardization';
+import { StandardizationOptions } from './StandardizationOptions';
+import { StandardizedRatesTable } from './StandardizedRatesTable';
+
+interface AgeStandardizedRatesProps {
+  dataset: Dataset;
+  /** All loaded datasets, for choosing the denominator and a custom standard */
+  datasets: Dataset[];
+  /** Records after the Table Builder filter */
+  records: CaseRecord[];
+  /** Row variables offered as the grouping variable */
+  groupVars: string[];
+}
+
+const rateMultipliers = [1000, 10000, 100000];
+const POPULATION_PATTERN = /population|pop\b|denominator/i;
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white';
+
+export function AgeStandardizedRates({ dataset, datasets, records, groupVars }: AgeStandardizedRatesProps) {
+  const persistenceKey = `epikit_tablebuilder_standardization_${dataset.id}`;
+  const [saved] = useState<Record<string, unknown>>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  const [isOpen, setIsOpen] = useState<boolean>(() => saved.isOpen === true);
+  const [groupVar, setGroupVar] = useState<string>(() => (saved.groupVar as string) ?? '');
+  const [denominatorDatasetId, setDenominatorDatasetId] = useState<string>(() => {
+    const id = typeof saved.denominatorDatasetId === 'string' ? saved.denominatorDatasetId : '';
+    return datasets.some(item => item.id === id) ? id : '';
+  });
+  const [denominatorGroupField, setDenominatorGroupField] = useState<string>(() => (saved.denominatorGroupField as string) ?? '');
+  const [denominatorValueField, setDenominatorValueField] = useState<string>(() => (saved.denominatorValueField as string) ?? '');
+  const [rateMultiplier, setRateMultiplier] = useState<number>(() => (saved.rateMultiplier as number) || 100000);
+  const [settings, setSettings] = useState<StandardizationSettings>(() => {
+    const parsed = parseStandardizationSettings(saved.settings);
+    return parsed.caseAgeField ? parsed : { ...parsed, caseAgeField: suggestAgeGroupField(dataset.columns) };
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify({
+        isOpen,
+        groupVar,
+        denominatorDatasetId,
+        denominatorGroupField,
+        denominatorValueField,
+        rateMultiplier,
+        settings,
+      }));
+    } catch (error) {
+      console.error('Failed to save standardization settings:', error);
+    }
+  }, [persistenceKey, isOpen, groupVar, denominatorDatasetId, denominatorGroupField, denominatorValueField, rateMultiplier, settings]);
+
+  const denominatorDataset = datasets.find(item => item.id === denominatorDatasetId) ?? null;
+  const activeGroupVar = groupVars.includes(groupVar) ? groupVar : '';
+  const groupColumn = dataset.columns.find(col => col.key === activeGroupVar);
+
+  const handleDenominatorDatasetChange = (id: string) => {
+    setDenominatorDatasetId(id);
+    const next = datasets.find(item => item.id === id);
+    if (!next) return;
+    const sameGroupColumn = groupColumn && next.columns.find(col => col.key === groupColumn.key || col.label === groupColumn.label);
+    setDenominatorGroupField(sameGroupColumn?.key ?? suggestAreaField(next.columns));
+    const numeric = next.columns.filter(col => col.type === 'number');
+    setDenominatorValueField((numeric.find(col => POPULATION_PATTERN.test(`${col.key} ${col.label}`)) ?? numeric[0])?.key ?? '');
+    setSettings(prev => ({ ...prev, denominatorAgeField: suggestAgeGroupField(next.columns) }));
+  };
+
+  const standard = useMemo(() => resolveStandardPopulation(settings, datasets), [settings, datasets]);
+
+  const result = useMemo(() => {
+    if (!isOpen || !denominatorDataset || !standard || !settings.caseAgeField || !settings.denominatorAgeField || !denominatorValueField) {
+      return null;
+    }
+    if (activeGroupVar && !denominatorGroupField) return null;
+    return standardizeRates({
+      caseRecords: records,
+      caseAgeField: settings.caseAgeField,
+      caseGroupField: activeGroupVar || undefined,
+      denominatorRecords: denominatorDataset.records,
+      denominatorAgeField: settings.denominatorAgeField,
+      denominatorGroupField: denominatorGroupField || undefined,
+      denominatorValueField,
+      standard,
+      rateMultiplier,
+    });
+  }, [isOpen, records, settings, activeGroupVar, denominatorDataset, denominatorGroupField, denominatorValueField, standard, rateMultiplier]);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full bg-gray-50 px-4 py-3 border-b border-gray-200 flex items-center justify-between text-left"
+      >
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Age-Standardized Rates</h4>
+          <p className="text-xs text-gray-500">Compare rates between groups with different age structures using a census/denominator dataset</p>
+        </div>
+        <svg className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="p-4 grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Group By</label>
+              <select value={activeGroupVar} onChange={(event) => setGroupVar(event.target.value)} className={selectClass}>
+                <option value="">All records (overall rate)</option>
+                {groupVars.map(key => (
+                  <option key={key} value={key}>{dataset.columns.find(col => col.key === key)?.label ?? key}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Denominator Dataset</label>
+              <select value={denominatorDatasetId} onChange={(event) => handleDenominatorDatasetChange(event.target.value)} className={selectClass}>
+                <option value="">Select imported census/denominator table...</option>
+                {datasets.filter(item => item.id !== dataset.id).map(item => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {denominatorDataset && (
+              <>
+                {activeGroupVar && (
+                  <div>
+                    <label className={labelClass}>Denominator Group Field</label>
+                    <select value={denominatorGroupField} onChange={(event) => setDenominatorGroupField(event.target.value)} className={selectClass}>
+                      <option value="">Select...</option>
+                      {denominatorDataset.columns.map(col => (
+                        <option key={col.key} value={col.key}>{col.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className={labelClass}>Population Field</label>
+                  <select value={denominatorValueField} onChange={(event) => setDenominatorValueField(event.target.value)} className={selectClass}>
+                    <option value="">Select...</option>
+                    {denominatorDataset.columns.filter(col => col.type === 'number').map(col => (
+                      <option key={col.key} value={col.key}>{col.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className={labelClass}>Rate Multiplier</label>
+              <select value={rateMultiplier} onChange={(event) => setRateMultiplier(Number(event.target.value))} className={selectClass}>
+                {rateMultipliers.map(multiplier => (
+                  <option key={multiplier} value={multiplier}>per {multiplier.toLocaleString()}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <StandardizationOptions
+              caseColumns={dataset.columns}
+              denominatorColumns={denominatorDataset?.columns ?? []}
+              datasets={datasets}
+              settings={settings}
+              onChange={setSettings}
+            />
+          </div>
+
+          <div className="text-xs text-gray-600 space-y-2">
+            <p>The denominator dataset needs one row per age group (and per group, when grouping), with the same age-group labels as the case records.</p>
+            <p>Age-adjusted rates apply each group's age-specific rates to the standard population. SMRs compare observed cases with those expected from the age-specific rates of all groups combined.</p>
+          </div>
+
+          {result && standard && (
+            <div className="xl:col-span-3">
+              <StandardizedRatesTable
+                groupLabel={groupColumn?.label ?? 'Group'}
+                result={result}
+                rateMultiplier={rateMultiplier}
+                standardLabel={standard.label}
+                filename={`${dataset.name}_${activeGroupVar || 'overall'}_age_standardized`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,20 @@
  *    - Chi-square and Fisher's exact tests
  *    - Confidence intervals
  *
+ * 4. MODEL: Multivariable regression
+ *    - Logistic regression with adjusted odds ratios
+ *    - Poisson / negative binomial regression with rate ratios
+ *    - Likelihood-ratio tests for each predictor
+ *    - Person-time rates, Kaplan-Meier curves and the log-rank test
+ *
+ * SAMPLE SIZE: Study planning (not tied to the dataset)
+ *    - Sample size, power and detectable effect for cohort/case-control studies
+ *    - Survey sample size with design effect and finite population correction
+ *
+ * SURVEY DESIGN: Weights, strata and clusters declared on the dataset switch
+ *    the Explorer and Table Builder to design-based estimates alongside the
+ *    unweighted ones
+ *
  * State Persistence:
  * - Each dataset has its own saved state (selected variables, active tab)
  * - State is saved to localStorage and restored when switching datasets
@@ -28,21 +42,33 @@
  * - "Run 2×2 with this exposure" in Explorer -> pre-populates 2×2 Analysis
  */
 import { useState, useCallback, useEffect, useRef } from 'react';
-import type { Dataset, VariableConfig } from '../../types/analysis';
+import type { Dataset, SurveyDesign, VariableConfig } from '../../types/analysis';
 import { VariableExplorer } from './VariableExplorer';
 import { TableBuilder } from './TableBuilder';
 import { TwoByTwoAnalysis } from './TwoByTwoAnalysis';
+import { LogisticRegression } from './LogisticRegression';
+import { CountRegression } from './CountRegression';
+import { SurvivalAnalysis } from './SurvivalAnalysis';
+import { SampleSizeCalculator } from './SampleSizeCalculator';
+import { SurveyDesignSettings } from './SurveyDesignSettings';
 
 interface AnalysisWorkflowProps {
   dataset: Dataset;
+  /** All loaded datasets (count models and standardized rates can take denominators from another dataset) */
+  datasets: Dataset[];
   /** Callback when user creates a new variable (passed up to App.tsx) */
   onCreateVariable?: (config: VariableConfig, values: unknown[]) => void;
   /** Callback for bulk record updates (e.g., recoding values) */
   onUpdateRecords?: (updates: Array<{ recordId: string; field: string; value: unknown }>) => void;
+  /** Callback when the dataset's survey design (weights, strata, clusters) changes */
+  onUpdateSurveyDesign?: (design: SurveyDesign | undefined) => void;
 }
 
-/** The three workflow steps */
-type SubTab = 'explore' | 'build' | 'test';
+/** The workflow steps */
+type SubTab = 'explore' | 'build' | 'test' | 'model' | 'plan';
+
+/** Regression models offered in the Model step */
+type ModelType = 'logistic' | 'count' | 'survival';
 
 /** State that gets persisted to localStorage per dataset */
 interface PersistedState {
@@ -50,6 +76,7 @@ interface PersistedState {
   explorerSelectedVar: string;
   tableBuilderRowVars: string[];
   tableBuilderColVar: string;
+  modelType?: ModelType;
 }
 
 // Each dataset gets its own localStorage key for persistence
@@ -74,7 +101,7 @@ function saveWorkflowState(datasetId: string, state: PersistedState): void {
   }
 }
 
-export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }: AnalysisWorkflowProps) {
+export function AnalysisWorkflow({ dataset, datasets, onCreateVariable, onUpdateRecords, onUpdateSurveyDesign }: AnalysisWorkflowProps) {
   // -------------------------------------------------------------------------
   // STATE MANAGEMENT
   // State is persisted per-dataset so users can switch between datasets
@@ -106,6 +133,11 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
     return saved?.tableBuilderColVar || '';
   });
 
+  const [modelType, setModelType] = useState<ModelType>(() => {
+    const saved = loadWorkflowState(dataset.id);
+    return saved?.modelType || 'logistic';
+  });
+
   // -------------------------------------------------------------------------
   // CROSS-TAB COMMUNICATION
   // These handle the "quick action" buttons that jump between tabs with
@@ -125,12 +157,14 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
         setExplorerSelectedVar(saved.explorerSelectedVar);
         setTableBuilderRowVars(saved.tableBuilderRowVars);
         setTableBuilderColVar(saved.tableBuilderColVar);
+        setModelType(saved.modelType || 'logistic');
       } else {
         // Reset to defaults for new dataset
         setActiveSubTab('explore');
         setExplorerSelectedVar('');
         setTableBuilderRowVars([]);
         setTableBuilderColVar('');
+        setModelType('logistic');
       }
       /* eslint-enable react-hooks/set-state-in-effect */
     }
@@ -143,8 +177,9 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
       explorerSelectedVar,
       tableBuilderRowVars,
       tableBuilderColVar,
+      modelType,
     });
-  }, [dataset.id, activeSubTab, explorerSelectedVar, tableBuilderRowVars, tableBuilderColVar]);
+  }, [dataset.id, activeSubTab, explorerSelectedVar, tableBuilderRowVars, tableBuilderColVar, modelType]);
 
   // Callback: Navigate from Explorer to Table Builder with pre-selected variable
   const handleBuildTable = useCallback((varKey: string) => {
@@ -211,10 +246,39 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
             >
               3. Test (2x2)
             </button>
+            <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            <button
+              onClick={() => handleTabChange('model')}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                activeSubTab === 'model'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              4. Model
+            </button>
+            <span className="w-px h-6 bg-gray-300 mx-2" />
+            <button
+              onClick={() => handleTabChange('plan')}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                activeSubTab === 'plan'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              Sample Size
+            </button>
           </div>
           <span className="text-xs text-gray-400 ml-4">
             Explore your data, build report tables, test hypotheses
           </span>
+          {onUpdateSurveyDesign && (
+            <div className="ml-auto">
+              <SurveyDesignSettings dataset={dataset} onChange={onUpdateSurveyDesign} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -235,6 +299,7 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
         <div className={`absolute inset-0 overflow-auto ${activeSubTab === 'build' ? '' : 'hidden'}`}>
           <TableBuilder
             dataset={dataset}
+            datasets={datasets}
             initialRowVars={preSelectedRowVars}
             onRowVarsUsed={() => setPreSelectedRowVars([])}
             rowVars={tableBuilderRowVars}
@@ -250,6 +315,39 @@ export function AnalysisWorkflow({ dataset, onCreateVariable, onUpdateRecords }:
             initialExposure={preSelectedExposure}
           />
         </div>
+
+        <div className={`absolute inset-0 overflow-auto flex flex-col ${activeSubTab === 'model' ? '' : 'hidden'}`}>
+          <div className="px-6 pt-4 flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-500">Outcome type:</span>
+            {([
+              ['logistic', 'Binary (logistic)'],
+              ['count', 'Counts & rates (Poisson / NB)'],
+              ['survival', 'Time to event (person-time / Kaplan-Meier)'],
+            ] as const).map(([type, label]) => (
+              <button
+                key={type}
+                onClick={() => setModelType(type)}
+                className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                  modelType === type
+                    ? 'bg-gray-700 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {/* Keyed by dataset so settings reload from storage when the dataset changes */}
+          <div className="flex-1 min-h-0">
+            {modelType === 'logistic' && <LogisticRegression key={dataset.id} dataset={dataset} />}
+            {modelType === 'count' && <CountRegression key={dataset.id} dataset={dataset} datasets={datasets} />}
+            {modelType === 'survival' && <SurvivalAnalysis key={dataset.id} dataset={dataset} />}
+          </div>
+        </div>
+
+        <div className={`absolute inset-0 overflow-auto ${activeSubTab === 'plan' ? '' : 'hidden'}`}>
+          <SampleSizeCalculator />
+        </div>
       </div>
     </div>
   );
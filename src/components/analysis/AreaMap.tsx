@@ -8,6 +8,18 @@ import type { Dataset } from '../../types/analysis';
 import { AdvancedOptions, ExportIcons, HelpPanel, ResultsActions, TabHeader } from '../shared';
 import { exportToCSV } from '../../utils/csvParser';
 import { useLocale } from '../../contexts/LocaleContext';
+import {
+  parseStandardizationSettings,
+  resolveStandardPopulation,
+  standardizeRates,
+  suggestAgeGroupField,
+} from '../../utils/standardization';
+import type { StandardizationSettings } from '../../utils/standardization';
+import { StandardizationOptions } from './StandardizationOptions';
+import { ScanClusterTable } from './ScanClusterTable';
+import { createSpatialScan, formatScanPValue, geometryCentroid } from '../../utils/spatialScan';
+import type { ScanLocation, ScanResult } from '../../utils/spatialScan';
+import { CLUSTER_COLOR, SECONDARY_CLUSTER_COLOR } from '../../utils/chartColors';
 import {
   buildAreaJoin,
   buildJoinReport,
@@ -16,6 +28,7 @@ import {
   getClassIndex,
   getGeoJsonPropertyKeys,
   isFeatureCollection,
+  isRateMetric,
   joinReportColumns,
   normalizeAreaKey,
   suggestAreaField,
@@ -31,6 +44,12 @@ interface AreaMapProps {
 type BaseMap = 'street' | 'quiet' | 'topo' | 'none';
 type ExportBaseMap = 'current' | 'quiet' | 'none';
 
+interface ScanInput {
+  locations: ScanLocation[];
+  maxPopulationFraction: number;
+  replicates: number;
+}
+
 interface SampleBoundary {
   label: string;
   fileName: string;
@@ -41,6 +60,13 @@ interface SampleBoundary {
 
 const rateMultipliers = [1000, 10000, 100000];
 
+const metricLegendTitles: Record<AreaMetric, (rateMultiplier: number) => string> = {
+  count: () => 'Observation count',
+  rate: multiplier => `Rate per ${multiplier.toLocaleString()}`,
+  'adjusted-rate': multiplier => `Age-adjusted rate per ${multiplier.toLocaleString()}`,
+  smr: () => 'SMR (observed / expected)',
+};
+
 const sampleBoundaries: SampleBoundary[] = [
   {
     label: 'Toledo area neighborhoods',
@@ -102,8 +128,13 @@ function makeAreaProperties(area: JoinedArea, metric: AreaMetric, rateMultiplier
     linelist_count: area.count,
     linelist_denominator: area.denominator,
     linelist_rate: area.rate,
+    linelist_adjusted_rate: area.standardized?.direct.adjustedRate ?? null,
+    linelist_adjusted_rate_lower: area.standardized?.direct.adjustedRateCI[0] ?? null,
+    linelist_adjusted_rate_upper: area.standardized?.direct.adjustedRateCI[1] ?? null,
+    linelist_expected: area.standardized?.indirect.expected ?? null,
+    linelist_smr: area.standardized?.indirect.smr ?? null,
     linelist_metric: metric,
-    linelist_rate_multiplier: metric === 'rate' ? rateMultiplier : null,
+    linelist_rate_multiplier: isRateMetric(metric) ? rateMultiplier : null,
     linelist_mapped_value: area.value,
   };
 }
@@ -118,6 +149,13 @@ function waitForNextPaint(): Promise<void> {
   });
 }
 
+/** Longest stretch of scan replicates before the page gets a turn to repaint */
+const SCAN_CHUNK_MS = 50;
+
+function yieldToPage(): Promise<void> {
+  return new Promise(resolve => window.setTimeout(resolve, 0));
+}
+
 async function waitForMapImages(element: HTMLElement): Promise<void> {
   const images = Array.from(element.querySelectorAll('img'));
   const pendingImages = images.filter(image => !image.complete);
@@ -171,6 +209,10 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
   const [denominatorKey, setDenominatorKey] = useState<string>(() => validSavedColumn(saved.denominatorKey, initialDenominatorColumns));
   const [denominatorValue, setDenominatorValue] = useState<string>(() => validSavedColumn(saved.denominatorValue, initialDenominatorColumns));
   const [rateMultiplier, setRateMultiplier] = useState<number>(() => (saved.rateMultiplier as number) || 100000);
+  const [standardizationSettings, setStandardizationSettings] = useState<StandardizationSettings>(() => {
+    const parsed = parseStandardizationSettings(saved.standardization);
+    return parsed.caseAgeField ? parsed : { ...parsed, caseAgeField: suggestAgeGroupField(dataset.columns) };
+  });
   const [classificationMethod, setClassificationMethod] = useState<ClassificationMethod>(() => (saved.classificationMethod as ClassificationMethod) || 'quantile');
   const [classCount, setClassCount] = useState<number>(() => (saved.classCount as number) || 5);
   const [manualBreaks, setManualBreaks] = useState<string>(() => (saved.manualBreaks as string) || '');
@@ -179,6 +221,13 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
   const [mapTitle, setMapTitle] = useState<string>(() => (saved.mapTitle as string) || '');
   const [mapCaption, setMapCaption] = useState<string>(() => (saved.mapCaption as string) || '');
   const [showLegend, setShowLegend] = useState<boolean>(() => saved.showLegend !== undefined ? saved.showLegend as boolean : true);
+  const [scanMaxPercent, setScanMaxPercent] = useState<number>(() => (saved.scanMaxPercent as number) ?? 50);
+  const [scanReplicates, setScanReplicates] = useState<number>(() => (saved.scanReplicates as number) ?? 999);
+  const [scanRun, setScanRun] = useState<{ input: ScanInput; result: ScanResult } | null>(null);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const isScanning = scanProgress !== null;
+  // Incremented to abandon a scan still in progress
+  const scanRunId = useRef(0);
   const [exportStatus, setExportStatus] = useState('');
   const [exportError, setExportError] = useState('');
   const [isExporting, setIsExporting] = useState(false);
@@ -199,6 +248,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
         denominatorKey,
         denominatorValue,
         rateMultiplier,
+        standardization: standardizationSettings,
         classificationMethod,
         classCount,
         manualBreaks,
@@ -207,6 +257,8 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
         mapTitle,
         mapCaption,
         showLegend,
+        scanMaxPercent,
+        scanReplicates,
       }));
     } catch (error) {
       console.error('Failed to save area map settings:', error);
@@ -220,6 +272,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
     denominatorKey,
     denominatorValue,
     rateMultiplier,
+    standardizationSettings,
     classificationMethod,
     classCount,
     manualBreaks,
@@ -228,8 +281,14 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
     mapTitle,
     mapCaption,
     showLegend,
+    scanMaxPercent,
+    scanReplicates,
   ]);
 
+  useEffect(() => () => {
+    scanRunId.current++;
+  }, []);
+
   useEffect(() => {
     if (!boundaryKey && propertyKeys.length > 0) {
       setBoundaryKey(suggestBoundaryKey(propertyKeys));
@@ -254,7 +313,45 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
       });
       setDenominatorValue((populationColumn ?? denominatorNumericColumns[0]).key);
     }
-  }, [denominatorDataset, denominatorKey, denominatorNumericColumns, denominatorValue]);
+    if (!standardizationSettings.denominatorAgeField) {
+      const ageField = suggestAgeGroupField(denominatorDataset.columns);
+      if (ageField) setStandardizationSettings(prev => ({ ...prev, denominatorAgeField: ageField }));
+    }
+  }, [denominatorDataset, denominatorKey, denominatorNumericColumns, denominatorValue, standardizationSettings.denominatorAgeField]);
+
+  const isStandardized = metric === 'adjusted-rate' || metric === 'smr';
+  const standardPopulation = useMemo(() => (
+    resolveStandardPopulation(standardizationSettings, datasets)
+  ), [standardizationSettings, datasets]);
+
+  // Age-stratified counts and denominators per area, keyed like the boundary join
+  const standardization = useMemo(() => {
+    const { caseAgeField, denominatorAgeField } = standardizationSettings;
+    if (!isStandardized || !areaField || !denominatorDataset || !denominatorKey || !denominatorValue) return null;
+    if (!caseAgeField || !denominatorAgeField || !standardPopulation) return null;
+    return standardizeRates({
+      caseRecords: dataset.records,
+      caseAgeField,
+      caseGroupField: areaField,
+      denominatorRecords: denominatorDataset.records,
+      denominatorAgeField,
+      denominatorGroupField: denominatorKey,
+      denominatorValueField: denominatorValue,
+      standard: standardPopulation,
+      rateMultiplier,
+      normalizeGroup: normalizeAreaKey,
+    });
+  }, [
+    isStandardized,
+    areaField,
+    dataset.records,
+    denominatorDataset,
+    denominatorKey,
+    denominatorValue,
+    standardizationSettings,
+    standardPopulation,
+    rateMultiplier,
+  ]);
 
   const joinResult = useMemo(() => {
     if (!boundaries || !boundaryKey || !areaField) return null;
@@ -269,6 +366,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
       denominatorKey,
       denominatorValue,
       rateMultiplier,
+      standardization,
     });
   }, [
     areaField,
@@ -280,6 +378,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
     denominatorValue,
     metric,
     rateMultiplier,
+    standardization,
   ]);
 
   const areaByKey = useMemo(() => {
@@ -313,9 +412,65 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
   // remounts whenever counts, denominators, or rates change
   const joinVersion = useMemo(() => (
     joinResult?.areas
-      .map(area => `${area.key}:${area.count}:${area.denominator ?? ''}:${area.rate ?? ''}`)
+      .map(area => `${area.key}:${area.count}:${area.denominator ?? ''}:${area.rate ?? ''}:${area.value ?? ''}`)
       .join('|') ?? ''
   ), [joinResult]);
+
+  // Poisson scan over areas with a population, placed at their polygon centroids
+  const scanInput: ScanInput = useMemo(() => {
+    const locations: ScanLocation[] = [];
+    joinResult?.areas.forEach(area => {
+      const centroid = geometryCentroid(area.feature.geometry);
+      if (!centroid || !area.denominator || area.denominator <= 0) return;
+      locations.push({ id: area.key, lat: centroid[0], lng: centroid[1], cases: area.count, population: area.denominator });
+    });
+    return { locations, maxPopulationFraction: scanMaxPercent / 100, replicates: scanReplicates };
+  }, [joinResult, scanMaxPercent, scanReplicates]);
+  const scanResult = scanRun && scanRun.input === scanInput ? scanRun.result : null;
+  const scanSkippedCount = (joinResult?.areas.length ?? 0) - scanInput.locations.length;
+
+  // Index of the cluster each area belongs to (0 = most likely)
+  const clusterIndexByKey = useMemo(() => {
+    const lookup = new Map<string, number>();
+    scanResult?.clusters.forEach((cluster, index) => {
+      cluster.locationIds.forEach(key => lookup.set(key, index));
+    });
+    return lookup;
+  }, [scanResult]);
+  const scanVersion = scanResult?.clusters.map(cluster => cluster.locationIds.join(',')).join('|') ?? '';
+
+  // Replicates run in short chunks so the page stays responsive, shows
+  // progress and can cancel a long scan
+  const runScan = async () => {
+    const runId = ++scanRunId.current;
+    const input = scanInput;
+    setScanProgress({ done: 0, total: 0 });
+    await waitForNextPaint();
+    if (scanRunId.current !== runId) return;
+    const scan = createSpatialScan(input.locations, {
+      model: 'poisson',
+      maxPopulationFraction: input.maxPopulationFraction,
+      replicates: input.replicates,
+    });
+    let done = 0;
+    while (done < scan.totalReplicates) {
+      const chunkStart = performance.now();
+      while (done < scan.totalReplicates && performance.now() - chunkStart < SCAN_CHUNK_MS) {
+        done = scan.runReplicates(1);
+      }
+      setScanProgress({ done, total: scan.totalReplicates });
+      await yieldToPage();
+      if (scanRunId.current !== runId) return;
+    }
+    setScanRun({ input, result: scan.result() });
+    setScanProgress(null);
+  };
+
+  const cancelScan = () => {
+    scanRunId.current++;
+    setScanProgress(null);
+  };
+
   const activeBaseMap: BaseMap = isExporting && exportBaseMap !== 'current' ? exportBaseMap : baseMap;
 
   const handleBoundaryFile = async (event: ChangeEvent<HTMLInputElement>) => {
@@ -375,30 +530,53 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
 
   const styleFeature = (feature: GeoJsonFeature | undefined) => {
     const area = areaByKey.get(getAreaKey(feature, boundaryKey));
+    const clusterIndex = area ? clusterIndexByKey.get(area.key) : undefined;
+    const cluster = clusterIndex !== undefined ? scanResult?.clusters[clusterIndex] : undefined;
     return {
       fillColor: getFillColor(area?.value ?? null),
       fillOpacity: area?.value === null || area === undefined ? 0.45 : 0.78,
-      color: '#475569',
-      weight: 1,
-      opacity: 0.9,
+      color: cluster ? (clusterIndex === 0 ? CLUSTER_COLOR : SECONDARY_CLUSTER_COLOR) : '#475569',
+      weight: cluster ? (clusterIndex === 0 ? 4 : 3) : 1,
+      opacity: cluster ? 1 : 0.9,
+      // Dashed outlines mark clusters that are not significant at 0.05
+      dashArray: cluster && cluster.pValue >= 0.05 ? '6 4' : undefined,
     };
   };
 
   const bindFeaturePopup = (feature: GeoJsonFeature, layer: { bindPopup: (content: string) => void }) => {
     const area = areaByKey.get(getAreaKey(feature, boundaryKey));
     const title = area?.label || String(feature.properties?.[boundaryKey] ?? 'Area');
-    const rateLabel = metric === 'rate'
-      ? `<div><strong>Rate:</strong> ${formatAreaValue(area?.rate ?? null)} per ${rateMultiplier.toLocaleString()}</div>`
+    const rateLabel = isRateMetric(metric)
+      ? `<div><strong>${isStandardized ? 'Crude rate' : 'Rate'}:</strong> ${formatAreaValue(area?.rate ?? null)} per ${rateMultiplier.toLocaleString()}</div>`
       : '';
-    const denominatorLabel = metric === 'rate'
+    const denominatorLabel = isRateMetric(metric)
       ? `<div><strong>Denominator:</strong> ${area?.denominator?.toLocaleString() ?? 'No match'}</div>`
       : '';
+    const direct = area?.standardized?.direct;
+    const indirect = area?.standardized?.indirect;
+    const formatInterval = (ci: [number, number] | undefined, decimals?: number) => (
+      ci && Number.isFinite(ci[0]) && Number.isFinite(ci[1])
+        ? ` (95% CI ${formatAreaValue(ci[0], decimals)}-${formatAreaValue(ci[1], decimals)})`
+        : ''
+    );
+    const standardizedLabel = isStandardized
+      ? `<div><strong>Age-adjusted rate:</strong> ${formatAreaValue(direct?.adjustedRate ?? null)}${formatInterval(direct?.adjustedRateCI)}</div>
+        <div><strong>Expected:</strong> ${formatAreaValue(indirect?.expected ?? null)}</div>
+        <div><strong>SMR:</strong> ${formatAreaValue(indirect?.smr ?? null, 2)}${formatInterval(indirect?.smrCI, 2)}</div>`
+      : '';
+    const clusterIndex = area ? clusterIndexByKey.get(area.key) : undefined;
+    const cluster = clusterIndex !== undefined ? scanResult?.clusters[clusterIndex] : undefined;
+    const clusterLabel = cluster
+      ? `<div><strong>${clusterIndex === 0 ? 'Most likely cluster' : `Secondary cluster ${clusterIndex}`}:</strong> ${cluster.cases} observed, ${formatAreaValue(cluster.expected)} expected, p = ${formatScanPValue(cluster.pValue, scanResult?.replicates ?? 0)}</div>`
+      : '';
     layer.bindPopup(`
       <div>
         <div style="font-weight: 600; margin-bottom: 4px;">${escapeHtml(title)}</div>
         <div><strong>Count:</strong> ${area?.count ?? 0}</div>
         ${denominatorLabel}
         ${rateLabel}
+        ${standardizedLabel}
+        ${clusterLabel}
       </div>
     `);
   };
@@ -457,22 +635,24 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
 
   const legendItems = useMemo(() => {
     if (mappedValues.length === 0) return [];
+    // SMRs sit around 1, so they need more precision than counts and rates
+    const decimals = metric === 'smr' ? 2 : 1;
     const min = Math.min(...mappedValues);
     // Single class: every mapped area shares one value, so show one row
     if (breaks.length === 0) {
-      return [{ label: formatAreaValue(min), color: choroplethColors[0] }];
+      return [{ label: formatAreaValue(min, decimals), color: choroplethColors[0] }];
     }
     const ranges: Array<{ label: string; color: string }> = [];
     for (let i = 0; i <= breaks.length; i++) {
       const lower = i === 0 ? min : breaks[i - 1];
       const upper = breaks[i];
       const label = upper === undefined
-        ? `> ${formatAreaValue(lower)}`
-        : `${formatAreaValue(lower)} - ${formatAreaValue(upper)}`;
+        ? `> ${formatAreaValue(lower, decimals)}`
+        : `${formatAreaValue(lower, decimals)} - ${formatAreaValue(upper, decimals)}`;
       ranges.push({ label, color: choroplethColors[Math.min(i, choroplethColors.length - 1)] });
     }
     return ranges;
-  }, [breaks, mappedValues]);
+  }, [breaks, mappedValues, metric]);
 
   return (
     <div className="h-full flex flex-col lg:flex-row">
@@ -549,10 +729,12 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
             >
               <option value="count">Observation count by area</option>
               <option value="rate">Rate using denominator dataset</option>
+              <option value="adjusted-rate">Age-adjusted rate (direct standardization)</option>
+              <option value="smr">SMR (indirect standardization)</option>
             </select>
           </div>
 
-          {metric === 'rate' && (
+          {isRateMetric(metric) && (
             <div className="space-y-3 bg-white border border-gray-200 rounded-lg p-3">
               <div>
                 <label className="block text-xs font-medium text-gray-600 mb-1">Denominator Dataset</label>
@@ -615,6 +797,16 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
                       ))}
                     </select>
                   </div>
+
+                  {isStandardized && (
+                    <StandardizationOptions
+                      caseColumns={dataset.columns}
+                      denominatorColumns={denominatorDataset.columns}
+                      datasets={datasets}
+                      settings={standardizationSettings}
+                      onChange={setStandardizationSettings}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -640,7 +832,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
                 <span className="text-right font-medium">{joinResult.summary.unmatchedDataKeys.length}</span>
                 <span className="text-gray-500">Unmatched boundaries</span>
                 <span className="text-right font-medium">{joinResult.summary.unmatchedBoundaryKeys.length}</span>
-                {metric === 'rate' && (
+                {isRateMetric(metric) && (
                   <>
                     <span className="text-gray-500">Missing denominators</span>
                     <span className="text-right font-medium">{joinResult.summary.missingDenominatorKeys.length}</span>
@@ -648,7 +840,25 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
                     <span className="text-right font-medium">{joinResult.summary.unmatchedDenominatorKeys.length}</span>
                   </>
                 )}
+                {standardization && (
+                  <>
+                    <span className="text-gray-500">Cases without age stratum</span>
+                    <span className="text-right font-medium">{standardization.unmatchedCaseCount}</span>
+                    <span className="text-gray-500">Age groups without standard</span>
+                    <span className="text-right font-medium">{standardization.unmatchedAgeGroups.length}</span>
+                  </>
+                )}
               </div>
+              {isStandardized && !standardization && (
+                <p className="text-xs text-amber-700 mt-2">
+                  Choose the age group fields and a standard population to compute standardized values.
+                </p>
+              )}
+              {standardization && standardization.unmatchedAgeGroups.length > 0 && (
+                <p className="text-xs text-amber-700 mt-2">
+                  No standard weight for: {standardization.unmatchedAgeGroups.join(', ')}.
+                </p>
+              )}
               {(joinResult.summary.unmatchedDataKeys.length > 0 || joinResult.summary.missingDenominatorKeys.length > 0) && (
                 <p className="text-xs text-amber-700 mt-2">
                   Review the join report before using this map in teaching or reports.
@@ -657,6 +867,84 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
             </div>
           )}
 
+          {joinResult && isRateMetric(metric) && (
+            <div className="bg-white border border-gray-200 rounded-lg p-3 space-y-3">
+              <div>
+                <h3 className="text-sm font-medium text-gray-800">Cluster Detection</h3>
+                <p className="text-xs text-gray-500 mt-1">
+                  Kulldorff&apos;s spatial scan (Poisson model) compares observed with expected counts in circles around each area centroid, using crude denominators.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Largest circle</label>
+                  <select
+                    value={scanMaxPercent}
+                    onChange={(event) => setScanMaxPercent(Number(event.target.value))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    <option value={10}>10% of population</option>
+                    <option value={25}>25% of population</option>
+                    <option value={50}>50% of population</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Replicates</label>
+                  <select
+                    value={scanReplicates}
+                    onChange={(event) => setScanReplicates(Number(event.target.value))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    <option value={99}>99</option>
+                    <option value={999}>999</option>
+                    <option value={9999}>9,999</option>
+                  </select>
+                </div>
+              </div>
+
+              {scanSkippedCount > 0 && (
+                <p className="text-xs text-amber-700">
+                  {scanSkippedCount} area{scanSkippedCount === 1 ? '' : 's'} without a denominator or polygon will be left out of the scan.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={runScan}
+                  disabled={isScanning || scanInput.locations.length < 2}
+                  className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {scanProgress
+                    ? scanProgress.total > 0
+                      ? `Replicate ${scanProgress.done.toLocaleString()} of ${scanProgress.total.toLocaleString()}...`
+                      : 'Scanning...'
+                    : 'Run Scan'}
+                </button>
+                {isScanning && (
+                  <button
+                    onClick={cancelScan}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {scanRun && !scanResult && !isScanning && (
+                <p className="text-xs text-amber-700">The join or scan settings changed. Run the scan again to update the clusters.</p>
+              )}
+
+              {scanResult && (
+                <ScanClusterTable
+                  result={scanResult}
+                  locationNoun="areas"
+                  includeCenters={true}
+                  filename={`area_map_clusters_${new Date().toISOString().split('T')[0]}`}
+                />
+              )}
+            </div>
+          )}
+
           <AdvancedOptions>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Classification</label>
@@ -781,6 +1069,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
             <div className="space-y-3 text-sm text-gray-700">
               <p>Area maps work best when boundaries, observation records, and denominator records share a stable area code or official area name.</p>
               <p>For rates, import the census or denominator table as a separate dataset first, then select it here.</p>
+              <p>Age-adjusted rates and SMRs need denominators by area and age group, with the same age-group labels as the observation records.</p>
               <p>Always review unmatched areas before interpreting counts or rates. Name mismatches are common in field data.</p>
             </div>
           </HelpPanel>
@@ -815,7 +1104,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
                 <ScaleControl position="bottomleft" imperial={false} metric={true} />
                 <FitGeoJsonBounds boundaries={boundaries} />
                 <GeoJSON
-                  key={`${boundaryFileName}-${boundaryKey}-${metric}-${breaks.join('|')}-${mappedValues.length}-${joinVersion}`}
+                  key={`${boundaryFileName}-${boundaryKey}-${metric}-${breaks.join('|')}-${mappedValues.length}-${joinVersion}-${scanVersion}`}
                   data={boundaries as unknown as FeatureCollection}
                   style={(feature) => styleFeature(feature as unknown as GeoJsonFeature)}
                   onEachFeature={(feature, layer) => bindFeaturePopup(feature as unknown as GeoJsonFeature, layer)}
@@ -833,7 +1122,7 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
               {showLegend && legendItems.length > 0 && (
                 <div className={`absolute ${mapCaption ? 'bottom-16' : 'bottom-4'} right-4 z-[1000] bg-white/95 rounded-lg shadow-lg p-3 max-w-xs`}>
                   <p className="text-xs font-semibold text-gray-700 mb-2">
-                    {metric === 'rate' ? `Rate per ${rateMultiplier.toLocaleString()}` : 'Observation count'}
+                    {metricLegendTitles[metric](rateMultiplier)}
                   </p>
                   <div className="space-y-1">
                     {legendItems.map(item => (
@@ -846,6 +1135,21 @@ export function AreaMap({ dataset, datasets }: AreaMapProps) {
                       <span className="w-4 h-3 rounded-sm border border-gray-300 bg-gray-200" />
                       <span className="text-xs text-gray-500">No data</span>
                     </div>
+                    {scanResult && scanResult.clusters.length > 0 && (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <span className="w-4 h-3 rounded-sm border-2" style={{ borderColor: CLUSTER_COLOR }} />
+                          <span className="text-xs text-gray-700">Most likely cluster</span>
+                        </div>
+                        {scanResult.clusters.length > 1 && (
+                          <div className="flex items-center gap-2">
+                            <span className="w-4 h-3 rounded-sm border-2" style={{ borderColor: SECONDARY_CLUSTER_COLOR }} />
+                            <span className="text-xs text-gray-700">Secondary cluster</span>
+                          </div>
+                        )}
+                        <p className="text-[11px] text-gray-500">Dashed: p &ge; 0.05</p>
+                      </>
+                    )}
                   </div>
                 </div>
               )}
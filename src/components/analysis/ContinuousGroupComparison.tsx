@@ -0,0 +1,205 @@
+/**
+ * ContinuousGroupComparison Component
+ *
+ * Compares a numeric variable across the levels of a categorical one: Welch's
+ * t-test and Wilcoxon rank-sum for two groups, one-way ANOVA and
+ * Kruskal-Wallis for three or more. Used by the Variable Explorer.
+ */
+import { useState, useMemo } from 'react';
+import type { Dataset } from '../../types/analysis';
+import {
+  calculateDescriptiveStats,
+  orderExposureLevels,
+  welchTTest,
+  oneWayAnova,
+  wilcoxonRankSum,
+  kruskalWallis,
+} from '../../utils/statistics';
+import type { ContinuousGroup } from '../../utils/statistics';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { StatTooltip, statDefinitions } from '../shared';
+
+interface ContinuousGroupComparisonProps {
+  dataset: Dataset;
+  variableKey: string;
+}
+
+const formatValue = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : '—');
+
+const formatCI = (ci: [number, number]): string => {
+  if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Not computable)';
+  return `(${formatSigFigs(ci[0], 3)} to ${formatSigFigs(ci[1], 3)})`;
+};
+
+const formatPValue = (p: number): string => {
+  if (!isFinite(p)) return 'Not computable';
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+};
+
+const isMissing = (v: unknown) => v === null || v === undefined || String(v).trim() === '';
+
+export function ContinuousGroupComparison({ dataset, variableKey }: ContinuousGroupComparisonProps) {
+  const [groupVar, setGroupVar] = useState<string>('');
+
+  // Grouping candidates: columns with 2-20 levels (numbers only if they look like codes)
+  const groupColumns = useMemo(() => {
+    return dataset.columns.filter(col => {
+      if (col.key === variableKey || col.type === 'date') return false;
+      if (col.key === 'id' || col.key === 'case_id' || col.key === 'participant_id') return false;
+      const unique = new Set(dataset.records.map(r => r[col.key]).filter(v => !isMissing(v)).map(String)).size;
+      return unique >= 2 && unique <= (col.type === 'number' ? 5 : 20);
+    });
+  }, [dataset.columns, dataset.records, variableKey]);
+
+  const activeGroupVar = groupColumns.some(c => c.key === groupVar) ? groupVar : '';
+
+  // Numeric values per group, levels in valueOrder when defined
+  const groups: ContinuousGroup[] = useMemo(() => {
+    if (!activeGroupVar) return [];
+    const byLevel = new Map<string, number[]>();
+    dataset.records.forEach(record => {
+      const value = record[variableKey];
+      const level = record[activeGroupVar];
+      if (isMissing(value) || isMissing(level) || isNaN(Number(value))) return;
+      const values = byLevel.get(String(level)) ?? [];
+      values.push(Number(value));
+      byLevel.set(String(level), values);
+    });
+    const order = dataset.columns.find(c => c.key === activeGroupVar)?.valueOrder;
+    return orderExposureLevels(Array.from(byLevel.keys()), order).map(label => ({ label, values: byLevel.get(label)! }));
+  }, [dataset.records, dataset.columns, variableKey, activeGroupVar]);
+
+  const comparison = useMemo(() => {
+    if (groups.length < 2) return null;
+    if (groups.length === 2) {
+      return {
+        kind: 'two-group' as const,
+        welch: welchTTest(groups[0].values, groups[1].values),
+        rankSum: wilcoxonRankSum(groups[0].values, groups[1].values),
+      };
+    }
+    return { kind: 'multi-group' as const, anova: oneWayAnova(groups), kruskal: kruskalWallis(groups) };
+  }, [groups]);
+
+  const groupLabel = dataset.columns.find(c => c.key === activeGroupVar)?.label || activeGroupVar;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900">Compare Groups</h4>
+          <p className="text-xs text-gray-500">
+            Compare this variable between groups (e.g., incubation period or age in cases vs. non-cases).
+          </p>
+        </div>
+        <select
+          value={activeGroupVar}
+          onChange={(e) => setGroupVar(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="">Group by...</option>
+          {groupColumns.map(col => (
+            <option key={col.key} value={col.key}>{col.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {activeGroupVar && groups.length < 2 && (
+        <p className="text-sm text-gray-500">At least two groups with numeric values are needed.</p>
+      )}
+
+      {comparison && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Group summaries */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">{groupLabel}</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">N</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Mean (SD)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Median (IQR)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {groups.map(group => {
+                  const stats = calculateDescriptiveStats(group.values);
+                  return (
+                    <tr key={group.label}>
+                      <td className="px-3 py-2 text-gray-900">{group.label}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{stats.count}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {formatValue(stats.mean)} ({formatValue(stats.stdDev)})
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {formatValue(stats.median)} ({formatValue(stats.q1)}-{formatValue(stats.q3)})
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Tests */}
+          {comparison.kind === 'two-group' ? (
+            <div className="space-y-3 text-sm">
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-1 font-medium text-gray-900 mb-1">
+                  Welch's t-test
+                  <StatTooltip {...statDefinitions.pValue} />
+                </div>
+                <div className="text-gray-700">
+                  Difference in means ({groups[0].label} − {groups[1].label}):{' '}
+                  <strong>{formatValue(comparison.welch.meanDifference)}</strong> {formatCI(comparison.welch.meanDifferenceCI)} 95% CI
+                </div>
+                <div className="text-xs text-gray-600">
+                  t = {formatValue(comparison.welch.t)}, df = {formatValue(comparison.welch.degreesOfFreedom)},
+                  p = {formatPValue(comparison.welch.pValue)} · Hedges' g = {formatValue(comparison.welch.hedgesG)}
+                </div>
+              </div>
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="font-medium text-gray-900 mb-1">Wilcoxon rank-sum (Mann-Whitney)</div>
+                <div className="text-gray-700">
+                  Median difference (Hodges-Lehmann):{' '}
+                  <strong>{formatValue(comparison.rankSum.medianDifference)}</strong> {formatCI(comparison.rankSum.medianDifferenceCI)} 95% CI
+                </div>
+                <div className="text-xs text-gray-600">
+                  U = {formatValue(comparison.rankSum.u)}, p = {formatPValue(comparison.rankSum.pValue)} (normal approximation)
+                  · r = {formatValue(comparison.rankSum.effectSizeR)}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3 text-sm">
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="font-medium text-gray-900 mb-1">One-way ANOVA</div>
+                <div className="text-gray-700">
+                  F({comparison.anova.dfBetween}, {comparison.anova.dfWithin}) = {formatValue(comparison.anova.f)},
+                  p = <strong>{formatPValue(comparison.anova.pValue)}</strong>
+                </div>
+                <div className="text-xs text-gray-600">
+                  η² = {formatValue(comparison.anova.etaSquared)} · ω² = {formatValue(comparison.anova.omegaSquared)}
+                </div>
+              </div>
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="font-medium text-gray-900 mb-1">Kruskal-Wallis</div>
+                <div className="text-gray-700">
+                  H = {formatValue(comparison.kruskal.h)}, df = {comparison.kruskal.degreesOfFreedom},
+                  p = <strong>{formatPValue(comparison.kruskal.pValue)}</strong>
+                </div>
+                <div className="text-xs text-gray-600">ε² = {formatValue(comparison.kruskal.epsilonSquared)}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {comparison && (
+        <p className="mt-3 text-xs text-gray-500">
+          Use the rank-based tests when the variable is skewed (e.g., incubation periods) or groups are small; the t-test and ANOVA compare means.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,505 @@
+/**
+ * CountRegression Component
+ *
+ * Poisson and negative binomial regression for case counts with an offset
+ * for log(population) or log(person-time). Counts and denominators can come
+ * from columns of the active dataset (e.g., monthly surveillance reports) or,
+ * like AreaMap's rate metric, from a line list joined onto a second
+ * denominator dataset.
+ *
+ * Settings are persisted per dataset under `epikit_countreg_<datasetId>`.
+ */
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import type { Dataset } from '../../types/analysis';
+import {
+  fitCountModel,
+  aggregateCountsByDenominator,
+  AGGREGATED_COUNT_KEY,
+} from '../../utils/regression';
+import type { CountModel, CountJoinKey } from '../../utils/regression';
+import { suggestAreaField } from '../../utils/areaMap';
+import { downloadBlob } from '../../utils/chartExport';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { TabHeader, ResultsActions, ExportIcons, StatTooltip, statDefinitions } from '../shared';
+import { PredictorSelector } from './PredictorSelector';
+import type { SelectedPredictor } from './PredictorSelector';
+
+interface CountRegressionProps {
+  dataset: Dataset;
+  /** All loaded datasets, for choosing a denominator table */
+  datasets: Dataset[];
+}
+
+type CountSource = 'columns' | 'denominatorDataset';
+
+const findColumn = (columns: Dataset['columns'], pattern: RegExp): string =>
+  columns.find(col => col.type === 'number' && pattern.test(`${col.key} ${col.label}`))?.key ?? '';
+
+const POPULATION_PATTERN = /population|pop\b|person[-_ ]?(time|years|days)|denominator/i;
+
+export function CountRegression({ dataset, datasets }: CountRegressionProps) {
+  const persistenceKey = `epikit_countreg_${dataset.id}`;
+  const [saved] = useState<Record<string, unknown>>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  // Discard persisted column keys that no longer exist in the relevant dataset
+  const validSavedColumn = (value: unknown, columns: Dataset['columns']): string => {
+    const key = typeof value === 'string' ? value : '';
+    return key && columns.some(col => col.key === key) ? key : '';
+  };
+  const initialDenominatorColumns = datasets.find(item => item.id === saved.denominatorDatasetId)?.columns ?? [];
+
+  const [source, setSource] = useState<CountSource>(() => (saved.source as CountSource) || 'columns');
+  const [countVar, setCountVar] = useState<string>(() =>
+    validSavedColumn(saved.countVar, dataset.columns) || findColumn(dataset.columns, /cases|count/i));
+  const [exposureVar, setExposureVar] = useState<string>(() =>
+    saved.exposureVar !== undefined
+      ? validSavedColumn(saved.exposureVar, dataset.columns)
+      : findColumn(dataset.columns, POPULATION_PATTERN));
+  const [denominatorDatasetId, setDenominatorDatasetId] = useState<string>(() => {
+    const id = typeof saved.denominatorDatasetId === 'string' ? saved.denominatorDatasetId : '';
+    return datasets.some(item => item.id === id) ? id : '';
+  });
+  const [joins, setJoins] = useState<CountJoinKey[]>(() =>
+    Array.isArray(saved.joins) ? saved.joins as CountJoinKey[] : []);
+  const [denominatorValue, setDenominatorValue] = useState<string>(() =>
+    validSavedColumn(saved.denominatorValue, initialDenominatorColumns));
+  const [model, setModel] = useState<CountModel>(() => (saved.model as CountModel) || 'poisson');
+  const [predictors, setPredictors] = useState<SelectedPredictor[]>(() =>
+    Array.isArray(saved.predictors) ? saved.predictors as SelectedPredictor[] : []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify({
+        source,
+        countVar,
+        exposureVar,
+        denominatorDatasetId,
+        joins,
+        denominatorValue,
+        model,
+        predictors,
+      }));
+    } catch (e) {
+      console.error('Failed to save count regression settings:', e);
+    }
+  }, [persistenceKey, source, countVar, exposureVar, denominatorDatasetId, joins, denominatorValue, model, predictors]);
+
+  const numericColumns = useMemo(() => dataset.columns.filter(col => col.type === 'number'), [dataset.columns]);
+  const denominatorDataset = datasets.find(item => item.id === denominatorDatasetId) ?? null;
+  const denominatorNumericColumns = useMemo(() => (
+    denominatorDataset?.columns.filter(col => col.type === 'number') ?? []
+  ), [denominatorDataset]);
+
+  const selectDenominatorDataset = (id: string) => {
+    const next = datasets.find(item => item.id === id) ?? null;
+    setDenominatorDatasetId(id);
+    setPredictors([]);
+    if (!next) {
+      setJoins([]);
+      setDenominatorValue('');
+      return;
+    }
+    setJoins([{ caseKey: suggestAreaField(dataset.columns), denominatorKey: suggestAreaField(next.columns) }]);
+    setDenominatorValue(findColumn(next.columns, POPULATION_PATTERN) || next.columns.find(col => col.type === 'number')?.key || '');
+  };
+
+  const updateJoin = (index: number, updates: Partial<CountJoinKey>) => {
+    setJoins(prev => prev.map((join, i) => (i === index ? { ...join, ...updates } : join)));
+  };
+
+  // Line-list mode: count case records per denominator row
+  const aggregated = useMemo(() => {
+    if (source !== 'denominatorDataset' || !denominatorDataset || joins.length === 0) return null;
+    if (joins.some(join => !join.caseKey || !join.denominatorKey)) return null;
+    return aggregateCountsByDenominator(dataset.records, denominatorDataset.records, joins);
+  }, [source, denominatorDataset, joins, dataset.records]);
+
+  // The table the model is fitted to: dataset rows, or denominator rows with counts
+  const modelTable = useMemo(() => {
+    if (source === 'columns') {
+      return { records: dataset.records, columns: dataset.columns, countKey: countVar, exposureKey: exposureVar };
+    }
+    if (!aggregated || !denominatorDataset) return null;
+    return {
+      records: aggregated.records,
+      columns: denominatorDataset.columns,
+      countKey: AGGREGATED_COUNT_KEY,
+      exposureKey: denominatorValue,
+    };
+  }, [source, dataset, countVar, exposureVar, aggregated, denominatorDataset, denominatorValue]);
+
+  const result = useMemo(() => {
+    if (!modelTable) return null;
+    return fitCountModel(modelTable.records, modelTable.columns, {
+      countVar: modelTable.countKey,
+      exposureVar: modelTable.exposureKey,
+      model,
+      predictors,
+    });
+  }, [modelTable, model, predictors]);
+
+  const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : 'Undefined');
+  const formatCI = (ci: [number, number]): string => {
+    if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Undefined)';
+    return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+  };
+  const formatPValue = (p: number): string => {
+    if (!isFinite(p)) return '—';
+    return p < 0.001 ? '<0.001' : p.toFixed(3);
+  };
+
+  const hasOffset = !!modelTable?.exposureKey;
+  const ratioLabel = hasOffset ? 'IRR' : 'Count Ratio';
+
+  const exportResultsCSV = useCallback(() => {
+    if (!result) return;
+    const quote = (v: string) => `"${v.replace(/"/g, '""')}"`;
+    const lines = [
+      ['Term', 'Level', 'Reference', ratioLabel, 'Lower 95% CI', 'Upper 95% CI', 'Wald p', 'LR chi-square', 'LR df', 'LR p'].join(','),
+    ];
+    result.coefficients.forEach(c => {
+      const test = result.termTests.find(t => t.termKey === c.termKey);
+      lines.push([
+        quote(c.termLabel),
+        quote(c.level ?? '(per unit)'),
+        quote(c.referenceLevel ?? ''),
+        c.rateRatio.toFixed(4),
+        c.rateRatioCI[0].toFixed(4),
+        c.rateRatioCI[1].toFixed(4),
+        c.pValue.toFixed(4),
+        test ? test.chiSquare.toFixed(4) : '',
+        test ? String(test.degreesOfFreedom) : '',
+        test ? test.pValue.toFixed(4) : '',
+      ].join(','));
+    });
+    lines.push('');
+    lines.push(`${quote('Model')},${quote(result.model === 'negativeBinomial' ? 'Negative binomial' : 'Poisson')}`);
+    lines.push(`${quote('Rows used')},${result.n}`);
+    lines.push(`${quote('Total count')},${result.totalCount}`);
+    if (result.totalExposure !== null) lines.push(`${quote('Total population/person-time')},${result.totalExposure}`);
+    lines.push(`${quote('Rows excluded (missing values)')},${result.excludedCount}`);
+    lines.push(`${quote('Pearson chi-square/df (Poisson)')},${result.dispersion.pearsonRatio.toFixed(4)}`);
+    if (result.theta !== null) lines.push(`${quote('Theta')},${result.theta.toFixed(4)}`);
+    result.warnings.forEach(w => lines.push(`${quote('Warning')},${quote(w)}`));
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    downloadBlob(blob, `${dataset.name}_count_regression.csv`);
+  }, [result, dataset.name, ratioLabel]);
+
+  const ready = source === 'columns' ? !!countVar : !!aggregated && !!denominatorValue;
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Poisson & Negative Binomial Regression"
+        description="Model case counts against population or person-time to estimate adjusted incidence rate ratios."
+      />
+
+      {/* Counts and denominators */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Counts and Denominators</h4>
+          <div className="flex rounded-lg overflow-hidden border border-gray-300 w-fit">
+            <button
+              onClick={() => { setSource('columns'); setPredictors([]); }}
+              className={`px-3 py-2 text-xs font-medium transition-colors ${
+                source === 'columns' ? 'bg-gray-700 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              Count column in this dataset
+            </button>
+            <button
+              onClick={() => { setSource('denominatorDataset'); setPredictors([]); }}
+              className={`px-3 py-2 text-xs font-medium transition-colors ${
+                source === 'denominatorDataset' ? 'bg-gray-700 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              Count records using a denominator dataset
+            </button>
+          </div>
+        </div>
+
+        {source === 'columns' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Count Variable</label>
+              <select
+                value={countVar}
+                onChange={(e) => setCountVar(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+              >
+                <option value="">Select variable...</option>
+                {numericColumns.map(col => (
+                  <option key={col.key} value={col.key}>{col.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Population or Person-Time (offset)</label>
+              <select
+                value={exposureVar}
+                onChange={(e) => setExposureVar(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+              >
+                <option value="">None (compare counts)</option>
+                {numericColumns.filter(col => col.key !== countVar).map(col => (
+                  <option key={col.key} value={col.key}>{col.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-gray-600">
+              Each record in <strong>{dataset.name}</strong> counts as one case. Cases are matched to rows of the denominator dataset (e.g., population by district and age group).
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Denominator Dataset</label>
+                <select
+                  value={denominatorDatasetId}
+                  onChange={(e) => selectDenominatorDataset(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                >
+                  <option value="">Select imported census/denominator table...</option>
+                  {datasets.filter(item => item.id !== dataset.id).map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
+              {denominatorDataset && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Population/Denominator Field</label>
+                  <select
+                    value={denominatorValue}
+                    onChange={(e) => setDenominatorValue(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                  >
+                    {denominatorNumericColumns.map(col => (
+                      <option key={col.key} value={col.key}>{col.label}</option>
+                    ))}
+                  </select>
+                  {denominatorNumericColumns.length === 0 && (
+                    <p className="text-xs text-amber-700 mt-1">No numeric denominator fields were detected in this dataset.</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {denominatorDataset && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Match Cases to Denominator Rows On</label>
+                {joins.map((join, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={join.caseKey}
+                      onChange={(e) => updateJoin(index, { caseKey: e.target.value })}
+                      className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      {dataset.columns.map(col => (
+                        <option key={col.key} value={col.key}>{col.label}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-gray-500">=</span>
+                    <select
+                      value={join.denominatorKey}
+                      onChange={(e) => updateJoin(index, { denominatorKey: e.target.value })}
+                      className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      {denominatorDataset.columns.map(col => (
+                        <option key={col.key} value={col.key}>{col.label}</option>
+                      ))}
+                    </select>
+                    {joins.length > 1 && (
+                      <button
+                        onClick={() => setJoins(prev => prev.filter((_, i) => i !== index))}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => setJoins(prev => [...prev, { caseKey: dataset.columns[0]?.key ?? '', denominatorKey: denominatorDataset.columns[0]?.key ?? '' }])}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  + Add another matching field
+                </button>
+                {aggregated && (
+                  <p className="text-xs text-gray-500">
+                    {aggregated.matchedCaseCount.toLocaleString()} of {dataset.records.length.toLocaleString()} records matched a denominator row.
+                    {aggregated.unmatchedCaseCount > 0 && ` ${aggregated.unmatchedCaseCount.toLocaleString()} unmatched records are not counted.`}
+                    {aggregated.duplicateDenominatorRows > 0 && ` ${aggregated.duplicateDenominatorRows} duplicate denominator rows received no cases.`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Model</label>
+          <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={model === 'poisson'} onChange={() => setModel('poisson')} />
+              Poisson
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={model === 'negativeBinomial'} onChange={() => setModel('negativeBinomial')} />
+              Negative binomial (overdispersed counts)
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Predictors */}
+      {ready && modelTable && (
+        <PredictorSelector
+          columns={modelTable.columns}
+          records={modelTable.records}
+          excludeKeys={[modelTable.countKey, modelTable.exposureKey]}
+          predictors={predictors}
+          onChange={setPredictors}
+          description={<>Select the variables that describe each row (e.g., district, year, age group). Categorical predictors are compared against a <strong>reference level</strong>; numeric predictors give the rate ratio per one-unit increase. Rows with a missing value or a non-positive denominator are excluded.</>}
+        />
+      )}
+
+      {/* Results */}
+      {result && (
+        <div className="space-y-4">
+          {result.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+              {result.warnings.map(w => <p key={w}>{w}</p>)}
+            </div>
+          )}
+
+          {result.coefficients.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Predictor</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comparison</th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>Adjusted {ratioLabel}</span>
+                          <StatTooltip
+                            term={hasOffset ? 'Incidence Rate Ratio' : 'Count Ratio'}
+                            definition={hasOffset
+                              ? 'The rate in this group divided by the rate in the reference group, adjusted for the other predictors.'
+                              : 'The expected count in this group divided by the expected count in the reference group. Without a denominator, differences in population size are not accounted for.'}
+                            interpretation="1.0 = no difference; 2.0 = twice the rate; 0.5 = half the rate."
+                          />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>95% CI (Wald)</span>
+                          <StatTooltip {...statDefinitions.confidenceInterval} />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>p (Wald)</span>
+                          <StatTooltip {...statDefinitions.pValue} />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">p (LR, drop term)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.coefficients.map((c, index) => {
+                      const test = result.termTests.find(t => t.termKey === c.termKey);
+                      const firstOfTerm = result.coefficients.findIndex(x => x.termKey === c.termKey) === index;
+                      return (
+                        <tr key={`${c.termKey}-${c.level ?? 'numeric'}`}>
+                          <td className="px-3 py-2 text-sm font-medium text-gray-900">{firstOfTerm ? c.termLabel : ''}</td>
+                          <td className="px-3 py-2 text-sm text-gray-700">
+                            {c.level !== null ? `${c.level} vs. ${c.referenceLevel}` : 'Per 1-unit increase'}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-center font-semibold text-gray-900">{formatMeasure(c.rateRatio)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-500">{formatCI(c.rateRatioCI)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-700">{formatPValue(c.pValue)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-700">
+                            {firstOfTerm && test ? `${formatPValue(test.pValue)} (df=${test.degreesOfFreedom})` : ''}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500 space-y-0.5">
+                <p>
+                  {result.model === 'negativeBinomial' ? 'Negative binomial' : 'Poisson'} model · {result.n} rows used · {result.totalCount.toLocaleString()} total count
+                  {result.totalExposure !== null && ` · ${Math.round(result.totalExposure).toLocaleString()} population/person-time`}
+                  {result.excludedCount > 0 && ` · ${result.excludedCount} rows excluded`}
+                  {' · '}{result.converged ? `Converged in ${result.iterations} iterations` : 'Did not converge'}
+                </p>
+                {result.intercept && hasOffset && (
+                  <p>
+                    Baseline rate (all predictors at reference or zero): {formatSigFigs(result.intercept.rateRatio * 100000, 3)} per 100,000.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Dispersion diagnostic */}
+          {result.coefficients.length > 0 && (
+            <div className={`border rounded-lg p-4 text-sm ${
+              result.dispersion.overdispersed ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-gray-50 border-gray-200 text-gray-700'
+            }`}>
+              <h4 className="font-semibold mb-1">Dispersion Check</h4>
+              <p>
+                Poisson Pearson χ²/df = {isFinite(result.dispersion.pearsonRatio) ? result.dispersion.pearsonRatio.toFixed(2) : '—'}
+                {' '}(deviance/df = {isFinite(result.dispersion.devianceRatio) ? result.dispersion.devianceRatio.toFixed(2) : '—'}, df = {result.dispersion.residualDegreesOfFreedom}).
+                {' '}Values near 1 are consistent with Poisson variation; values well above 1 mean the counts vary more than a Poisson model allows.
+              </p>
+              {result.theta !== null && result.overdispersionTest && (
+                <p className="mt-1">
+                  Negative binomial θ = {formatSigFigs(result.theta, 3)} (variance = μ + μ²/θ).
+                  {' '}Likelihood-ratio test vs. Poisson: χ² = {result.overdispersionTest.chiSquare.toFixed(2)}, p = {formatPValue(result.overdispersionTest.pValue)}.
+                </p>
+              )}
+            </div>
+          )}
+
+          <ResultsActions
+            actions={[
+              {
+                label: 'Export Results CSV',
+                onClick: exportResultsCSV,
+                icon: ExportIcons.csv,
+                disabled: result.coefficients.length === 0,
+              },
+            ]}
+          />
+        </div>
+      )}
+
+      {!ready && (
+        <div className="text-center py-8 text-gray-400">
+          {source === 'columns'
+            ? 'Select a count variable above to begin analysis'
+            : 'Select a denominator dataset and matching fields to begin analysis'}
+        </div>
+      )}
+
+      {ready && predictors.length === 0 && (
+        <div className="text-center py-8 text-gray-400">
+          Select one or more predictors to fit the model
+        </div>
+      )}
+    </div>
+  );
+}
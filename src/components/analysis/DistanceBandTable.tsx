@@ -0,0 +1,151 @@
+/**
+ * DistanceBandTable Component
+ *
+ * Cases and attack rates in distance bands around suspected sources, with
+ * risk ratios against the farthest band and the chi-square for trend. Band
+ * populations can be typed in to replace mapped points as denominators.
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { DistanceBandResult } from '../../utils/sourceDistance';
+import { formatSigFigs, formatStatPercent } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface DistanceBandTableProps {
+  result: DistanceBandResult;
+  /** Population entered for each band, keyed by band key */
+  populations: Record<string, number>;
+  onPopulationChange: (key: string, population: number | null) => void;
+  filename: string;
+}
+
+const exportColumns: DataColumn[] = [
+  { key: 'band', label: 'Distance band', type: 'text' },
+  { key: 'innerMeters', label: 'From (m)', type: 'number' },
+  { key: 'outerMeters', label: 'To (m)', type: 'number' },
+  { key: 'cases', label: 'Cases', type: 'number' },
+  { key: 'nonCases', label: 'Mapped non-cases', type: 'number' },
+  { key: 'denominator', label: 'Denominator', type: 'number' },
+  { key: 'denominatorSource', label: 'Denominator source', type: 'text' },
+  { key: 'attackRate', label: 'Attack rate (%)', type: 'number' },
+  { key: 'attackRateLower', label: 'Attack rate 95% CI lower', type: 'number' },
+  { key: 'attackRateUpper', label: 'Attack rate 95% CI upper', type: 'number' },
+  { key: 'riskRatio', label: 'RR', type: 'number' },
+  { key: 'riskRatioLower', label: 'RR 95% CI lower', type: 'number' },
+  { key: 'riskRatioUpper', label: 'RR 95% CI upper', type: 'number' },
+];
+
+const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : '—');
+
+const formatPValue = (p: number): string => {
+  if (!isFinite(p)) return 'Not computable';
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+};
+
+const finiteOrNull = (n: number): number | null => (isFinite(n) ? n : null);
+
+export function DistanceBandTable({ result, populations, onPopulationChange, filename }: DistanceBandTableProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-2 py-1.5 text-xs text-center text-gray-900';
+  const headerClass = 'px-2 py-1.5 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const hasRates = result.bands.some(band => isFinite(band.attackRate));
+  const mixedDenominators = new Set(result.bands.filter(band => band.denominator).map(band => band.denominatorSource)).size > 1;
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = result.bands.map((band, i) => ({
+      id: String(i + 1),
+      band: band.label,
+      innerMeters: band.innerMeters,
+      outerMeters: band.outerMeters,
+      cases: band.cases,
+      nonCases: band.nonCases,
+      denominator: band.denominator,
+      denominatorSource: band.denominatorSource === 'population' ? 'Entered population' : band.denominatorSource === 'points' ? 'Mapped points' : '',
+      attackRate: finiteOrNull(band.attackRate),
+      attackRateLower: finiteOrNull(band.attackRateCI[0]),
+      attackRateUpper: finiteOrNull(band.attackRateCI[1]),
+      riskRatio: finiteOrNull(band.riskRatio),
+      riskRatioLower: finiteOrNull(band.riskRatioCI[0]),
+      riskRatioUpper: finiteOrNull(band.riskRatioCI[1]),
+    }));
+    const csv = exportToCSV(exportColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={`${headerClass} text-left`}>Band</th>
+              <th className={headerClass}>Cases</th>
+              <th className={headerClass} title="Population of the band; leave blank to use mapped cases plus non-cases">Pop.</th>
+              <th className={headerClass}>AR %</th>
+              <th className={headerClass}>RR</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.bands.map(band => (
+              <tr key={band.key}>
+                <td className={`${cellClass} text-left whitespace-nowrap`}>{band.label}</td>
+                <td className={cellClass}>{band.cases}</td>
+                <td className={cellClass}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={populations[band.key] ?? ''}
+                    placeholder={band.denominatorSource === 'points' ? String(band.denominator) : ''}
+                    onChange={(e) => onPopulationChange(band.key, e.target.value === '' ? null : Number(e.target.value))}
+                    className="w-16 px-1 py-0.5 border border-gray-300 rounded text-xs text-right"
+                    aria-label={`Population ${band.label}`}
+                  />
+                </td>
+                <td
+                  className={cellClass}
+                  title={isFinite(band.attackRate) ? `95% CI ${formatMeasure(band.attackRateCI[0])} - ${formatMeasure(band.attackRateCI[1])}` : undefined}
+                >
+                  {band.denominator ? formatStatPercent(band.attackRate, band.denominator) : '—'}
+                </td>
+                <td
+                  className={cellClass}
+                  title={isFinite(band.riskRatioCI[0]) ? `95% CI ${formatMeasure(band.riskRatioCI[0])} - ${formatMeasure(band.riskRatioCI[1])}` : undefined}
+                >
+                  {band.isReference ? 'Ref.' : formatMeasure(band.riskRatio)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-3 py-2 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div>
+          {result.totalCases} cases, each counted in the band of its nearest source.
+        </div>
+        {hasRates && mixedDenominators ? (
+          <div className="text-gray-500">
+            No chi-square for trend: some bands use entered populations and others mapped points. Enter a population for every band to test for a trend.
+          </div>
+        ) : hasRates ? (
+          <div>
+            Chi-square for trend with distance = {isFinite(result.trendChiSquare) ? result.trendChiSquare.toFixed(2) : 'not computable'}, p = {formatPValue(result.trendPValue)}
+          </div>
+        ) : (
+          <div className="text-gray-500">
+            Enter band populations, or tick case values under Cases and Controls so mapped non-cases can serve as denominators.
+          </div>
+        )}
+        <div className="text-gray-500">
+          Attack rates use the entered population where given, otherwise mapped cases plus non-cases. Risk ratios compare each band with the farthest band that has a denominator.
+        </div>
+        <ResultsActions
+          actions={[
+            { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary' },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * DoseResponseTable Component
+ *
+ * Per-level attack rates and ratio measures for an ordered exposure, with the
+ * chi-square for linear trend. Shared by the 2×2 Tables and Table Builder.
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { DoseResponseResults } from '../../utils/statistics';
+import { formatSigFigs, formatStatPercent } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob, exportExcel } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface DoseResponseTableProps {
+  exposureLabel: string;
+  outcomeLabel: string;
+  result: DoseResponseResults;
+  referenceLevel: string;
+  onReferenceLevelChange: (level: string) => void;
+  /** Show risk ratios (cohort data) in addition to odds ratios */
+  showRiskRatio: boolean;
+  filename: string;
+}
+
+const exportColumns: DataColumn[] = [
+  { key: 'level', label: 'Level', type: 'text' },
+  { key: 'score', label: 'Score', type: 'number' },
+  { key: 'cases', label: 'Cases', type: 'number' },
+  { key: 'nonCases', label: 'Non-cases', type: 'number' },
+  { key: 'total', label: 'Total', type: 'number' },
+  { key: 'attackRate', label: 'Attack rate (%)', type: 'number' },
+  { key: 'riskRatio', label: 'RR', type: 'number' },
+  { key: 'riskRatioLower', label: 'RR 95% CI lower', type: 'number' },
+  { key: 'riskRatioUpper', label: 'RR 95% CI upper', type: 'number' },
+  { key: 'oddsRatio', label: 'OR', type: 'number' },
+  { key: 'oddsRatioLower', label: 'OR 95% CI lower', type: 'number' },
+  { key: 'oddsRatioUpper', label: 'OR 95% CI upper', type: 'number' },
+];
+
+const formatMeasure = (n: number): string => {
+  if (!isFinite(n)) return 'Undefined';
+  return formatSigFigs(n, 3);
+};
+
+const formatCI = (ci: [number, number]): string => {
+  if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Undefined)';
+  return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+};
+
+const formatPValue = (p: number): string => {
+  if (!isFinite(p)) return 'Not computable';
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+};
+
+const finiteOrNull = (n: number): number | null => (isFinite(n) ? n : null);
+
+export function DoseResponseTable({
+  exposureLabel,
+  outcomeLabel,
+  result,
+  referenceLevel,
+  onReferenceLevelChange,
+  showRiskRatio,
+  filename,
+}: DoseResponseTableProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  const exportRows = () => result.levels.map((level, i) => ({
+    id: String(i + 1),
+    level: level.label,
+    score: level.score,
+    cases: level.cases,
+    nonCases: level.nonCases,
+    total: level.total,
+    attackRate: finiteOrNull(level.attackRate),
+    riskRatio: finiteOrNull(level.riskRatio),
+    riskRatioLower: finiteOrNull(level.riskRatioCI[0]),
+    riskRatioUpper: finiteOrNull(level.riskRatioCI[1]),
+    oddsRatio: finiteOrNull(level.oddsRatio),
+    oddsRatioLower: finiteOrNull(level.oddsRatioCI[0]),
+    oddsRatioUpper: finiteOrNull(level.oddsRatioCI[1]),
+  }));
+
+  const trendSummary = `Chi-square for linear trend = ${isFinite(result.trendChiSquare) ? result.trendChiSquare.toFixed(2) : 'not computable'}, p = ${formatPValue(result.trendPValue)}`;
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = exportRows();
+    const csv = exportToCSV(exportColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  const handleExportExcel = () => {
+    exportExcel({
+      title: `${exposureLabel}: dose-response (reference = ${referenceLevel})`,
+      subtitle: trendSummary,
+      columns: exportColumns.map(c => ({ header: c.label, key: c.key })),
+      rows: exportRows(),
+    }, `${filename}.xlsx`);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900">{exposureLabel}</span>
+        <select
+          value={referenceLevel}
+          onChange={(e) => onReferenceLevelChange(e.target.value)}
+          className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-gray-500"
+        >
+          {result.levels.map(level => (
+            <option key={level.label} value={level.label}>{level.label} = Reference</option>
+          ))}
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Level</th>
+              <th className={headerClass}>Score</th>
+              <th className={headerClass}>{outcomeLabel} / Total</th>
+              <th className={headerClass}>Attack Rate</th>
+              {showRiskRatio && <th className={headerClass}>RR (95% CI)</th>}
+              <th className={headerClass}>OR (95% CI)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.levels.map(level => (
+              <tr key={level.label} className={level.isReference ? 'bg-gray-50' : ''}>
+                <td className="px-3 py-2 text-sm text-gray-900">{level.label}</td>
+                <td className={cellClass}>{level.score}</td>
+                <td className={cellClass}>{level.cases} / {level.total}</td>
+                <td className={cellClass}>
+                  {isFinite(level.attackRate) ? `${formatStatPercent(level.attackRate, level.total)}%` : '—'}
+                </td>
+                {showRiskRatio && (
+                  <td className={cellClass}>
+                    {level.isReference ? '1.00 (reference)' : `${formatMeasure(level.riskRatio)} ${formatCI(level.riskRatioCI)}`}
+                  </td>
+                )}
+                <td className={cellClass}>
+                  {level.isReference ? '1.00 (reference)' : `${formatMeasure(level.oddsRatio)} ${formatCI(level.oddsRatioCI)}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div>{trendSummary} (extended Mantel-Haenszel, 1 df)</div>
+        {result.departureDegreesOfFreedom > 0 && (
+          <div>
+            Departure from linear trend: χ² = {isFinite(result.departureChiSquare) ? result.departureChiSquare.toFixed(2) : '—'},
+            df = {result.departureDegreesOfFreedom}, p = {formatPValue(result.departurePValue)}
+          </div>
+        )}
+        <div className="text-gray-500">
+          {result.numericScores
+            ? 'Scores are the numeric level values.'
+            : 'Levels are scored 1, 2, 3, ... in the order shown; set the column\'s value order to change it.'}
+        </div>
+        <ResultsActions
+          actions={[
+            { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary' },
+            { label: 'Export Excel', onClick: handleExportExcel, icon: ExportIcons.download, variant: 'secondary' },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
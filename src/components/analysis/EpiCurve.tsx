@@ -8,12 +8,25 @@ import {
   getAnnotationCategory,
   ANNOTATION_CATEGORIES,
   PATHOGEN_INCUBATION,
+  PATHOGEN_SERIAL_INTERVAL,
   parseLocalDate,
 } from '../../utils/epiCurve';
-import type { BinSize, ColorScheme, Annotation, EpiCurveData, AnnotationType } from '../../utils/epiCurve';
+import type { BinSize, ColorScheme, Annotation, EpiCurveData, EpiCurveBin, AnnotationType } from '../../utils/epiCurve';
+import { discretizeSerialInterval, estimateRt } from '../../utils/reproductionNumber';
+import type { RtEstimate } from '../../utils/reproductionNumber';
+import { buildIncubationData, createIncubationFitter, INCUBATION_DISTRIBUTION_LABELS } from '../../utils/incubationPeriod';
+import type { IncubationData, IncubationDistribution, IncubationFit } from '../../utils/incubationPeriod';
+import { IncubationPeriodResults } from './IncubationPeriodResults';
+import { detectAberrations, listAlerts, DEFAULT_ABERRATION_OPTIONS } from '../../utils/aberrationDetection';
+import type { AberrationAlert, AberrationOptions } from '../../utils/aberrationDetection';
+import { AberrationSettings, AberrationAlertsTable } from './AberrationAlerts';
+import { buildReportingData, estimateNowcast, aggregateNowcast, MIN_NOWCAST_CASES } from '../../utils/nowcasting';
+import type { Nowcast, NowcastInterval, ReportingData } from '../../utils/nowcasting';
+import { cumulativeCounts, movingAverage, countScale, scaleFraction, estimateGrowthRate, MOVING_AVERAGE_ALIGNMENT_LABELS, MIN_GROWTH_BINS } from '../../utils/epiCurveTrends';
+import type { CountScale, GrowthEstimate, MovingAverageAlignment } from '../../utils/epiCurveTrends';
 import { EpiCurveTutorial } from '../tutorials/EpiCurveTutorial';
 import { TabHeader, ResultsActions, ExportIcons, AdvancedOptions, HelpPanel } from '../shared';
-import { escapeXml } from '../../utils/chartExport';
+import { escapeXml, exportPNG } from '../../utils/chartExport';
 
 // Format a Date as YYYY-MM-DD using local date components.
 // (toISOString() is UTC and shifts the date back a day in UTC+ timezones.)
@@ -24,6 +37,25 @@ function formatLocalDate(d: Date): string {
   return `${y}-${m}-${day}`;
 }
 
+// Pathogen-select value for an incubation period fitted from exposure/onset dates
+const FITTED_INCUBATION = '__fitted__';
+
+// Longest stretch of bootstrap refits before the page gets a turn to repaint
+const BOOTSTRAP_CHUNK_MS = 50;
+
+function yieldToPage(): Promise<void> {
+  return new Promise(resolve => window.setTimeout(resolve, 0));
+}
+
+interface FittedIncubation {
+  distribution: IncubationDistribution;
+  /** 5th and 95th percentiles and median, in days */
+  min: number;
+  max: number;
+  typical: number;
+  cases: number;
+}
+
 interface EpiCurveProps {
   dataset: Dataset;
   onExportDataset?: () => void;
@@ -100,6 +132,9 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
   const [binSize, setBinSize] = useState<BinSize>(() => isSampleOutbreakPreset ? '12hour' : (saved.binSize as BinSize) || 'daily');
   const [stratifyBy, setStratifyBy] = useState<string>(() => isSampleOutbreakPreset ? 'case_status' : (saved.stratifyBy as string) ?? '');
   const [colorScheme, setColorScheme] = useState<ColorScheme>(() => (saved.colorScheme as ColorScheme) || 'default');
+  // Stratified curves: colors stacked in one curve, or one small-multiple panel per stratum
+  const [stratifyLayout, setStratifyLayout] = useState<'stacked' | 'panels'>(() => isSampleOutbreakPreset ? 'stacked' : (saved.stratifyLayout as 'stacked' | 'panels') ?? 'stacked');
+  const [panelYAxis, setPanelYAxis] = useState<'shared' | 'independent'>(() => isSampleOutbreakPreset ? 'shared' : (saved.panelYAxis as 'shared' | 'independent') ?? 'shared');
 
   // Filter state
   const [filterBy, setFilterBy] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.filterBy as string) ?? '');
@@ -154,6 +189,17 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
   const [showExposureWindow, setShowExposureWindow] = useState(() => isSampleOutbreakPreset ? false : saved.showExposureWindow !== undefined ? saved.showExposureWindow as boolean : false);
   const [showExposurePanel, setShowExposurePanel] = useState(false);
 
+  // Incubation period estimation state
+  const [exposureColumn, setExposureColumn] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.exposureColumn as string) ?? '');
+  const [exposureTimeColumn, setExposureTimeColumn] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.exposureTimeColumn as string) ?? '');
+  const [exposureEndColumn, setExposureEndColumn] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.exposureEndColumn as string) ?? '');
+  const [exposureEndTimeColumn, setExposureEndTimeColumn] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.exposureEndTimeColumn as string) ?? '');
+  const [incubationBootstrap, setIncubationBootstrap] = useState<number>(() => isSampleOutbreakPreset ? 200 : (saved.incubationBootstrap as number) ?? 200);
+  const [fittedIncubation, setFittedIncubation] = useState<FittedIncubation | null>(() => isSampleOutbreakPreset ? null : (saved.fittedIncubation as FittedIncubation) ?? null);
+  const [incubationResult, setIncubationResult] = useState<{ data: IncubationData; fits: IncubationFit[]; bootstrapSamples: number } | null>(null);
+  const [incubationProgress, setIncubationProgress] = useState<{ done: number; total: number } | null>(null);
+  const isFittingIncubation = incubationProgress !== null;
+
   // 7-1-7 Response Timeline
   const [show717Panel, setShow717Panel] = useState(false);
   const [outbreakStartDate, setOutbreakStartDate] = useState<string>(() => isSampleOutbreakPreset ? '2026-01-10' : (saved.outbreakStartDate as string) ?? '');
@@ -163,6 +209,35 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
   const [show717OnChart, setShow717OnChart] = useState(() => isSampleOutbreakPreset || (saved.show717OnChart !== undefined ? saved.show717OnChart as boolean : true));
   const [show717Metrics, setShow717Metrics] = useState(() => isSampleOutbreakPreset || (saved.show717Metrics !== undefined ? saved.show717Metrics as boolean : true));
 
+  // Reproduction number (Rt) state
+  const [showRtPanel, setShowRtPanel] = useState(false);
+  const [showRt, setShowRt] = useState(() => isSampleOutbreakPreset ? false : (saved.showRt as boolean) ?? false);
+  const [serialIntervalPathogen, setSerialIntervalPathogen] = useState<string>(() => isSampleOutbreakPreset ? 'Influenza' : (saved.serialIntervalPathogen as string) ?? 'Influenza');
+  const [serialIntervalMean, setSerialIntervalMean] = useState<number>(() => isSampleOutbreakPreset ? PATHOGEN_SERIAL_INTERVAL['Influenza'].mean : (saved.serialIntervalMean as number) ?? PATHOGEN_SERIAL_INTERVAL['Influenza'].mean);
+  const [serialIntervalSd, setSerialIntervalSd] = useState<number>(() => isSampleOutbreakPreset ? PATHOGEN_SERIAL_INTERVAL['Influenza'].sd : (saved.serialIntervalSd as number) ?? PATHOGEN_SERIAL_INTERVAL['Influenza'].sd);
+  const [rtWindow, setRtWindow] = useState<number>(() => isSampleOutbreakPreset ? 7 : (saved.rtWindow as number) ?? 7);
+
+  // Aberration detection state
+  const [showAberrationPanel, setShowAberrationPanel] = useState(false);
+  const [showAberrations, setShowAberrations] = useState(() => isSampleOutbreakPreset ? false : (saved.showAberrations as boolean) ?? false);
+  const [aberrationSettings, setAberrationSettings] = useState<AberrationOptions>(() => isSampleOutbreakPreset ? DEFAULT_ABERRATION_OPTIONS : (saved.aberrationSettings as AberrationOptions) ?? DEFAULT_ABERRATION_OPTIONS);
+
+  // Reporting-delay nowcast state
+  const [showNowcastPanel, setShowNowcastPanel] = useState(false);
+  const [showNowcast, setShowNowcast] = useState(() => isSampleOutbreakPreset ? false : (saved.showNowcast as boolean) ?? false);
+  const [reportDateColumn, setReportDateColumn] = useState<string>(() => isSampleOutbreakPreset ? '' : (saved.reportDateColumn as string) ?? '');
+  const [nowcastMaxDelay, setNowcastMaxDelay] = useState<number | null>(() => isSampleOutbreakPreset ? null : (saved.nowcastMaxDelay as number | null) ?? null);
+
+  // Trend overlays and growth rate state (growth window bounds are bin start times; null = automatic)
+  const [showTrendsPanel, setShowTrendsPanel] = useState(false);
+  const [showCumulative, setShowCumulative] = useState(() => isSampleOutbreakPreset ? false : (saved.showCumulative as boolean) ?? false);
+  const [movingAverageWindow, setMovingAverageWindow] = useState<number>(() => isSampleOutbreakPreset ? 0 : (saved.movingAverageWindow as number) ?? 0);
+  const [movingAverageAlignment, setMovingAverageAlignment] = useState<MovingAverageAlignment>(() => isSampleOutbreakPreset ? 'centered' : (saved.movingAverageAlignment as MovingAverageAlignment) ?? 'centered');
+  const [logScale, setLogScale] = useState(() => isSampleOutbreakPreset ? false : (saved.logScale as boolean) ?? false);
+  const [showGrowthRate, setShowGrowthRate] = useState(() => isSampleOutbreakPreset ? false : (saved.showGrowthRate as boolean) ?? false);
+  const [growthWindowStart, setGrowthWindowStart] = useState<number | null>(() => isSampleOutbreakPreset ? null : (saved.growthWindowStart as number | null) ?? null);
+  const [growthWindowEnd, setGrowthWindowEnd] = useState<number | null>(() => isSampleOutbreakPreset ? null : (saved.growthWindowEnd as number | null) ?? null);
+
   // Save all state to localStorage when it changes
   useEffect(() => {
     try {
@@ -179,6 +254,8 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
         timeColumn,
         binSize,
         stratifyBy,
+        stratifyLayout,
+        panelYAxis,
         colorScheme,
         showGridLines,
         showCaseCounts,
@@ -187,12 +264,35 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
         yAxisLabel,
         selectedPathogen,
         showExposureWindow,
+        exposureColumn,
+        exposureTimeColumn,
+        exposureEndColumn,
+        exposureEndTimeColumn,
+        incubationBootstrap,
+        fittedIncubation,
         outbreakStartDate,
         detectionDate,
         notificationDate,
         responseCompleteDate,
         show717OnChart,
         show717Metrics,
+        showRt,
+        serialIntervalPathogen,
+        serialIntervalMean,
+        serialIntervalSd,
+        rtWindow,
+        showAberrations,
+        aberrationSettings,
+        showNowcast,
+        reportDateColumn,
+        nowcastMaxDelay,
+        showCumulative,
+        movingAverageWindow,
+        movingAverageAlignment,
+        logScale,
+        showGrowthRate,
+        growthWindowStart,
+        growthWindowEnd,
         filterBy,
         selectedFilterValues: Array.from(selectedFilterValues),
       };
@@ -201,10 +301,14 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
       console.error('Failed to save epi curve settings:', e);
     }
   }, [persistenceKey, annotations, manualStartDate, manualEndDate, useManualDateRange,
-    dateColumn, timeColumn, binSize, stratifyBy, colorScheme, showGridLines, showCaseCounts,
+    dateColumn, timeColumn, binSize, stratifyBy, stratifyLayout, panelYAxis, colorScheme, showGridLines, showCaseCounts,
     chartTitle, xAxisLabel, yAxisLabel, selectedPathogen, showExposureWindow,
+    exposureColumn, exposureTimeColumn, exposureEndColumn, exposureEndTimeColumn, incubationBootstrap, fittedIncubation,
     outbreakStartDate, detectionDate, notificationDate, responseCompleteDate,
-    show717OnChart, show717Metrics, filterBy, selectedFilterValues]);
+    show717OnChart, show717Metrics, showRt, serialIntervalPathogen, serialIntervalMean, serialIntervalSd, rtWindow,
+    showAberrations, aberrationSettings, showNowcast, reportDateColumn, nowcastMaxDelay,
+    showCumulative, movingAverageWindow, movingAverageAlignment, logScale, showGrowthRate, growthWindowStart, growthWindowEnd,
+    filterBy, selectedFilterValues]);
 
   // Find date columns (memoized to prevent unnecessary re-renders)
   const dateColumns = useMemo(
@@ -338,7 +442,8 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
   const exposureWindowDates = useMemo(() => {
     if (!selectedPathogen || !showExposureWindow || !dateColumn) return null;
 
-    const incubation = PATHOGEN_INCUBATION[selectedPathogen];
+    const isFitted = selectedPathogen === FITTED_INCUBATION;
+    const incubation = isFitted ? fittedIncubation : PATHOGEN_INCUBATION[selectedPathogen];
     if (!incubation) return null;
 
     // Find first case date directly from filtered records
@@ -371,11 +476,14 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
     return {
       start: earliestExposure,
       end: latestExposure,
-      pathogen: selectedPathogen,
+      pathogen: isFitted && fittedIncubation
+        ? `${INCUBATION_DISTRIBUTION_LABELS[fittedIncubation.distribution]} fit to ${fittedIncubation.cases} cases`
+        : selectedPathogen,
+      isFitted,
       incubation,
       firstCaseDate,
     };
-  }, [selectedPathogen, showExposureWindow, dateColumn, filteredRecords]);
+  }, [selectedPathogen, fittedIncubation, showExposureWindow, dateColumn, filteredRecords]);
 
   // Process data
   const curveData: EpiCurveData = useMemo(() => {
@@ -456,6 +564,40 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
     return exposureWindowDates;
   }, [exposureWindowDates, curveData.bins]);
 
+  // Rt from the full (filtered-record) curve, so a manual date range doesn't cut off earlier infectiousness
+  const rtSeries = useMemo(() => {
+    if (!showRt || curveData.bins.length === 0) return null;
+    return calculateRtSeries(curveData.bins, serialIntervalMean, serialIntervalSd, rtWindow);
+  }, [showRt, curveData.bins, serialIntervalMean, serialIntervalSd, rtWindow]);
+
+  // Aberration detection over the full curve (per stratum when stratified)
+  const binPeriodsPerYear = binSize === 'daily' ? 365 : binSize === 'weekly-cdc' || binSize === 'weekly-iso' ? 52 : null;
+  const aberrations = useMemo(() => {
+    if (!showAberrations || curveData.bins.length === 0) return null;
+    return calculateBinAberrations(
+      curveData,
+      stratifyBy ? curveData.strataKeys : null,
+      { ...aberrationSettings, periodsPerYear: binPeriodsPerYear ?? aberrationSettings.periodsPerYear }
+    );
+  }, [showAberrations, curveData, stratifyBy, aberrationSettings, binPeriodsPerYear]);
+
+  // Nowcast of cases not yet reported; delays are whole days, so sub-daily bins are skipped
+  const nowcast = useMemo(() => {
+    if (!showNowcast || !reportDateColumn || !dateColumn || isSubDailyBin || curveData.bins.length === 0) return null;
+    return calculateBinNowcast(filteredRecords, dateColumn, reportDateColumn, curveData.bins, nowcastMaxDelay);
+  }, [showNowcast, reportDateColumn, dateColumn, isSubDailyBin, curveData.bins, filteredRecords, nowcastMaxDelay]);
+
+  // Cumulative counts, moving average and growth fit over the full curve (a manual date range only crops them)
+  const trends = useMemo(() => {
+    if ((!showCumulative && !movingAverageWindow && !showGrowthRate) || curveData.bins.length === 0) return null;
+    return calculateBinTrends(
+      curveData.bins,
+      showCumulative,
+      movingAverageWindow ? { window: movingAverageWindow, alignment: movingAverageAlignment } : null,
+      showGrowthRate ? { start: growthWindowStart, end: growthWindowEnd } : null
+    );
+  }, [curveData.bins, showCumulative, movingAverageWindow, movingAverageAlignment, showGrowthRate, growthWindowStart, growthWindowEnd]);
+
   // Calculate 7-1-7 metrics
   const metrics717 = useMemo(() => {
     if (!outbreakStartDate) return null;
@@ -782,18 +924,36 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
   const exportChart = async (format: 'png' | 'svg') => {
     if (!chartRef.current) return;
 
+    const filename = chartTitle.replace(/\s+/g, '_');
+    if (isPanelLayout) {
+      // Small multiples export as one composite image built from the same panel SVG as the screen
+      const svgContent = generatePanelSVG(displayData, panelStrata, panelYAxis === 'shared', chartTitle, xAxisLabel, yAxisLabel, showGridLines, showCaseCounts, allAnnotations, exposureWindow, aberrations?.alarms ?? null);
+      if (format === 'svg') {
+        downloadBlob(new Blob([svgContent], { type: 'image/svg+xml' }), `${filename}.svg`);
+      } else {
+        setIsExporting(true);
+        try {
+          await exportPNG(svgContent, `${filename}.png`);
+        } finally {
+          setIsExporting(false);
+        }
+      }
+      return;
+    }
+
     if (format === 'svg') {
       // Create SVG export from the same filtered data and y-axis scale as the screen
-      const svgContent = generateSVG(displayData, yAxisMax, chartTitle, xAxisLabel, yAxisLabel, showGridLines, showCaseCounts, stratifyBy, colorScheme, allAnnotations, exposureWindow);
+      const rtEstimates = rtSeries && rtSeries.estimates.size > 0 ? rtSeries.estimates : null;
+      const svgContent = generateSVG(displayData, yScale, chartTitle, xAxisLabel, yAxisLabel, showGridLines, showCaseCounts, stratifyBy, colorScheme, allAnnotations, exposureWindow, rtEstimates, aberrations?.alarms ?? null, nowcast?.intervals ?? null, trends, cumulativeScale);
       const blob = new Blob([svgContent], { type: 'image/svg+xml' });
-      downloadBlob(blob, `${chartTitle.replace(/\s+/g, '_')}.svg`);
+      downloadBlob(blob, `${filename}.svg`);
     } else {
       // PNG export: rasterize the live chart container so the PNG matches the screen
       setIsExporting(true);
       try {
         const canvas = await html2canvas(chartRef.current, { backgroundColor: '#ffffff', scale: 2 });
         const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
-        if (blob) downloadBlob(blob, `${chartTitle.replace(/\s+/g, '_')}.png`);
+        if (blob) downloadBlob(blob, `${filename}.png`);
       } catch (err) {
         console.error('PNG export failed:', err);
       } finally {
@@ -802,6 +962,138 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
     }
   };
 
+  const exportRtCSV = () => {
+    if (!rtSeries) return;
+    const formatBinStart = (date: Date) => isSubDailyBin
+      ? `${formatLocalDate(date)} ${String(date.getHours()).padStart(2, '0')}:00`
+      : formatLocalDate(date);
+    const rows = [['bin_start', 'bin_label', 'cases', 'window_start', 'rt_mean', 'rt_sd', 'rt_lower_95', 'rt_upper_95', 'cases_in_window']];
+    curveData.bins.forEach(bin => {
+      const estimate = rtSeries.estimates.get(bin.startDate.getTime());
+      rows.push([
+        formatBinStart(bin.startDate),
+        `"${bin.label}"`,
+        String(bin.total),
+        estimate ? formatBinStart(curveData.bins[estimate.windowStart].startDate) : '',
+        estimate ? estimate.mean.toFixed(4) : '',
+        estimate ? estimate.sd.toFixed(4) : '',
+        estimate ? estimate.lower.toFixed(4) : '',
+        estimate ? estimate.upper.toFixed(4) : '',
+        estimate ? String(estimate.casesInWindow) : '',
+      ]);
+    });
+    const csv = rows.map(row => row.join(',')).join('\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${chartTitle.replace(/\s+/g, '_')}_Rt.csv`);
+  };
+
+  const exportTrendsCSV = () => {
+    if (!trends) return;
+    const formatBinStart = (date: Date) => isSubDailyBin
+      ? `${formatLocalDate(date)} ${String(date.getHours()).padStart(2, '0')}:00`
+      : formatLocalDate(date);
+    const rows = [['bin_start', 'bin_label', 'cases', 'cumulative', 'moving_average', 'growth_fit']];
+    curveData.bins.forEach(bin => {
+      const time = bin.startDate.getTime();
+      const average = trends.average?.get(time);
+      const fitted = trends.growth?.fitted.get(time);
+      rows.push([
+        formatBinStart(bin.startDate),
+        `"${bin.label}"`,
+        String(bin.total),
+        trends.cumulative ? String(trends.cumulative.get(time) ?? '') : '',
+        average !== undefined ? average.toFixed(4) : '',
+        fitted !== undefined ? fitted.toFixed(4) : '',
+      ]);
+    });
+    const estimate = trends.growth?.estimate;
+    if (estimate) {
+      rows.push([]);
+      rows.push(['growth_window', `"${trends.growth!.windowLabel}"`]);
+      rows.push(['growth_rate_per_day', estimate.rate.toFixed(6), estimate.rateCI[0].toFixed(6), estimate.rateCI[1].toFixed(6)]);
+      rows.push([
+        estimate.direction === 'growth' ? 'doubling_time_days' : 'halving_time_days',
+        estimate.doublingTime.toFixed(4),
+        isFinite(estimate.doublingTimeCI[0]) ? estimate.doublingTimeCI[0].toFixed(4) : 'Inf',
+        isFinite(estimate.doublingTimeCI[1]) ? estimate.doublingTimeCI[1].toFixed(4) : 'Inf',
+      ]);
+    }
+    const csv = rows.map(row => row.join(',')).join('\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${chartTitle.replace(/\s+/g, '_')}_trends.csv`);
+  };
+
+  const exportNowcastCSV = () => {
+    if (!nowcast?.nowcast) return;
+    const rows = [['bin_start', 'bin_label', 'cases', 'reported_by_as_of', 'not_yet_reported', 'not_yet_reported_lower_95', 'not_yet_reported_upper_95', 'estimated_total', 'as_of']];
+    curveData.bins.forEach(bin => {
+      const interval = nowcast.intervals.get(bin.startDate.getTime());
+      if (!interval) return;
+      rows.push([
+        formatLocalDate(bin.startDate),
+        `"${bin.label}"`,
+        String(bin.total),
+        String(interval.reported),
+        interval.notYetReported.toFixed(1),
+        interval.lower.toFixed(1),
+        interval.upper.toFixed(1),
+        (bin.total + interval.notYetReported).toFixed(1),
+        formatLocalDate(nowcast.nowcast!.asOf),
+      ]);
+    });
+    const csv = rows.map(row => row.join(',')).join('\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${chartTitle.replace(/\s+/g, '_')}_nowcast.csv`);
+  };
+
+  const selectIncubationFit = (fit: IncubationFit, cases: number) => {
+    // Rounded to 0.1 day so the window and its labels stay readable
+    const round = (days: number) => Math.round(days * 10) / 10;
+    setFittedIncubation({
+      distribution: fit.distribution,
+      min: round(fit.p5.estimate),
+      max: round(fit.p95.estimate),
+      typical: round(fit.median.estimate),
+      cases,
+    });
+    setSelectedPathogen(FITTED_INCUBATION);
+    setShowExposureWindow(true);
+  };
+
+  // The bootstrap runs in short chunks so the page stays responsive and can
+  // show progress with many resamples
+  const runIncubationFit = async () => {
+    if (!exposureColumn || !dateColumn) return;
+    setIncubationProgress({ done: 0, total: 0 });
+    try {
+      await yieldToPage();
+      const data = buildIncubationData(filteredRecords, {
+        exposureStartField: exposureColumn,
+        exposureStartTimeField: exposureTimeColumn || undefined,
+        exposureEndField: exposureEndColumn || undefined,
+        exposureEndTimeField: exposureEndTimeColumn || undefined,
+        onsetField: dateColumn,
+        onsetTimeField: timeColumn || undefined,
+      });
+      const bootstrapSamples = Math.max(0, Math.min(2000, Math.round(incubationBootstrap) || 0));
+      const fitter = createIncubationFitter(data.observations, { bootstrapSamples });
+      let done = 0;
+      while (done < fitter.totalReplicates) {
+        const chunkStart = performance.now();
+        while (done < fitter.totalReplicates && performance.now() - chunkStart < BOOTSTRAP_CHUNK_MS) {
+          done = fitter.runReplicates(1);
+        }
+        setIncubationProgress({ done, total: fitter.totalReplicates });
+        await yieldToPage();
+      }
+      const fits = fitter.fits();
+      setIncubationResult({ data, fits, bootstrapSamples });
+      if (fits.length > 0) {
+        const best = fits.reduce((a, b) => (b.aic < a.aic ? b : a));
+        selectIncubationFit(best, data.observations.length);
+      }
+    } finally {
+      setIncubationProgress(null);
+    }
+  };
+
   // Calculate bar width based on optimal sizing, not container width
   // Use 60px as the optimal width for bars, with a minimum of 25px and maximum of 80px
   // This allows the chart to naturally size to its content
@@ -817,8 +1109,38 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
 
   const barWidth = getOptimalBarWidth(displayData.bins.length);
   const chartHeight = 300;
-  // Y-axis max should be at least 1 above the highest bar, rounded up to a nice number
-  const yAxisMax = Math.max(displayData.maxCount + 1, Math.ceil((displayData.maxCount + 1) / 5) * 5);
+  // Y-axis max should be at least 1 above the highest bar (or nowcast interval or growth fit), rounded up to a nice number
+  const peakCount = displayData.bins.reduce(
+    (peak, bin) => Math.max(
+      peak,
+      bin.total + (nowcast?.intervals.get(bin.startDate.getTime())?.upper ?? 0),
+      trends?.growth?.fitted.get(bin.startDate.getTime()) ?? 0
+    ),
+    displayData.maxCount
+  );
+  const yScale = countScale(peakCount, logScale);
+  const yPos = (value: number) => scaleFraction(value, yScale) * chartHeight;
+  // Right-hand axis for the cumulative line, over the displayed bins
+  const cumulativeScale = trends?.cumulative
+    ? countScale(displayData.bins.reduce((peak, bin) => Math.max(peak, trends.cumulative!.get(bin.startDate.getTime()) ?? 0), 0), logScale)
+    : null;
+
+  // Small multiples: one panel per stratum, in the column's value order and then alphabetically
+  const isPanelLayout = stratifyLayout === 'panels' && !!stratifyBy && displayData.strataKeys.length > 0;
+  const panelStrata = useMemo(() => {
+    const order = dataset.columns.find(c => c.key === stratifyBy)?.valueOrder ?? [];
+    const ordered = order.filter(v => displayData.strataKeys.includes(v));
+    const rest = displayData.strataKeys.filter(key => !order.includes(key));
+    // Colors follow the stacked layout so a stratum keeps its color when switching
+    return [...ordered, ...rest].map(key => ({
+      key,
+      color: getColorForStrata(key, displayData.strataKeys.indexOf(key), colorScheme),
+    }));
+  }, [dataset.columns, stratifyBy, displayData.strataKeys, colorScheme]);
+  const panelSvg = useMemo(() => {
+    if (!isPanelLayout) return '';
+    return generatePanelSVG(displayData, panelStrata, panelYAxis === 'shared', null, xAxisLabel, yAxisLabel, showGridLines, showCaseCounts, allAnnotations, exposureWindow, aberrations?.alarms ?? null);
+  }, [isPanelLayout, displayData, panelStrata, panelYAxis, xAxisLabel, yAxisLabel, showGridLines, showCaseCounts, allAnnotations, exposureWindow, aberrations]);
 
   // Determine if x-axis labels should be rotated based on available space
   // Estimate label width: assume ~7px per character on average for the label text
@@ -841,6 +1163,10 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
     : 1;
   const shouldShowLabel = (index: number) => index % labelSkipInterval === 0;
 
+  const nowcastFor = (bin: EpiCurveBin) => nowcast?.intervals.get(bin.startDate.getTime());
+  // Labels and markers sit above the bar and any nowcast interval
+  const barTop = (bin: EpiCurveBin) => bin.total + (nowcastFor(bin)?.upper ?? 0);
+
   return (
     <div ref={containerRef} className={`h-full flex flex-col lg:flex-row ${isResizing ? 'select-none' : ''}`}>
       {/* Left Panel - Controls */}
@@ -1006,6 +1332,36 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                 <option key={col.key} value={col.key}>{col.label}</option>
               ))}
             </select>
+            {stratifyBy && (
+              <div className="mt-2 space-y-2">
+                <div className="flex gap-1 bg-gray-100 rounded-lg p-0.5">
+                  {([['stacked', 'Stacked'], ['panels', 'Panel per value']] as const).map(([layout, label]) => (
+                    <button
+                      key={layout}
+                      onClick={() => setStratifyLayout(layout)}
+                      className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                        stratifyLayout === layout ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {stratifyLayout === 'panels' && (
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Panel Y-Axes</label>
+                    <select
+                      value={panelYAxis}
+                      onChange={(e) => setPanelYAxis(e.target.value as 'shared' | 'independent')}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      <option value="shared">Shared scale (compare sizes)</option>
+                      <option value="independent">Independent scales (compare shapes)</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Annotations */}
@@ -1256,6 +1612,11 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
                   >
                     <option value="">Select pathogen...</option>
+                    {fittedIncubation && (
+                      <option value={FITTED_INCUBATION}>
+                        Fitted from data ({fittedIncubation.min}-{fittedIncubation.max}d)
+                      </option>
+                    )}
                     {Object.keys(PATHOGEN_INCUBATION).sort().map(pathogen => (
                       <option key={pathogen} value={pathogen}>
                         {pathogen} ({PATHOGEN_INCUBATION[pathogen].min}-{PATHOGEN_INCUBATION[pathogen].max}d)
@@ -1264,6 +1625,99 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                   </select>
                 </div>
 
+                {/* Incubation Period Estimation */}
+                <div className="p-2 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+                  <p className="text-xs font-medium text-gray-700">Estimate incubation from exposure dates</p>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Exposure date (start)</label>
+                    <select
+                      value={exposureColumn}
+                      onChange={(e) => setExposureColumn(e.target.value)}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                    >
+                      <option value="">Select column...</option>
+                      {dateColumns.filter(col => col.key !== dateColumn).map(col => (
+                        <option key={col.key} value={col.key}>{col.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Exposure date (end, optional)</label>
+                    <select
+                      value={exposureEndColumn}
+                      onChange={(e) => setExposureEndColumn(e.target.value)}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                    >
+                      <option value="">Same as start</option>
+                      {dateColumns.filter(col => col.key !== dateColumn).map(col => (
+                        <option key={col.key} value={col.key}>{col.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {timeColumns.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Start time</label>
+                        <select
+                          value={exposureTimeColumn}
+                          onChange={(e) => setExposureTimeColumn(e.target.value)}
+                          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                        >
+                          <option value="">None</option>
+                          {timeColumns.map(col => (
+                            <option key={col.key} value={col.key}>{col.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">End time</label>
+                        <select
+                          value={exposureEndTimeColumn}
+                          onChange={(e) => setExposureEndTimeColumn(e.target.value)}
+                          disabled={!exposureEndColumn}
+                          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white disabled:bg-gray-100"
+                        >
+                          <option value="">None</option>
+                          {timeColumns.map(col => (
+                            <option key={col.key} value={col.key}>{col.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Bootstrap resamples</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={2000}
+                      step={50}
+                      value={isNaN(incubationBootstrap) ? '' : incubationBootstrap}
+                      onChange={(e) => setIncubationBootstrap(parseInt(e.target.value, 10))}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                    />
+                  </div>
+                  <button
+                    onClick={runIncubationFit}
+                    disabled={!exposureColumn || !dateColumn || isFittingIncubation}
+                    className="w-full px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    {incubationProgress
+                      ? incubationProgress.total > 0
+                        ? `Bootstrap ${incubationProgress.done.toLocaleString()} of ${incubationProgress.total.toLocaleString()}…`
+                        : 'Fitting…'
+                      : 'Fit incubation period'}
+                  </button>
+                  <p className="text-[11px] text-gray-400">
+                    Onset is the chart's date{timeColumn ? ' and time' : ''} column. Fits lognormal, gamma and Weibull distributions; the best fit by AIC sets the exposure window.
+                  </p>
+                  {incubationResult && incubationResult.fits.length === 0 && (
+                    <p className="text-xs text-amber-700">
+                      Need at least 3 cases with valid, varying exposure and onset dates ({incubationResult.data.observations.length} usable).
+                    </p>
+                  )}
+                </div>
+
                 {/* Exposure Window Toggle & Info */}
                 {selectedPathogen && (
                   <div className="space-y-2">
@@ -1286,7 +1740,7 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                           {exposureWindow.end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                         </p>
                         <p className="text-xs text-red-400 mt-1">
-                          Based on {selectedPathogen} incubation ({exposureWindow.incubation.min}-{exposureWindow.incubation.max} days)
+                          Based on {exposureWindow.isFitted ? `the ${exposureWindow.pathogen.toLowerCase()}` : selectedPathogen} incubation ({exposureWindow.incubation.min}-{exposureWindow.incubation.max} days)
                         </p>
                       </div>
                     )}
@@ -1296,6 +1750,301 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
             )}
           </div>
 
+          {/* Trends and Growth Rate */}
+          <div className="border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setShowTrendsPanel(!showTrendsPanel)}
+              className="flex items-center justify-between w-full text-left"
+            >
+              <span className="text-sm font-medium text-gray-700">Trends &amp; Growth Rate</span>
+              <span className="text-gray-400">{showTrendsPanel ? '−' : '+'}</span>
+            </button>
+
+            {showTrendsPanel && (
+              <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showCumulative}
+                    onChange={(e) => setShowCumulative(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Cumulative cases (right axis)</span>
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={logScale}
+                    onChange={(e) => setLogScale(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Log-scale y-axis</span>
+                </label>
+
+                {/* Moving Average */}
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Moving average</label>
+                    <select
+                      value={movingAverageWindow}
+                      onChange={(e) => setMovingAverageWindow(parseInt(e.target.value, 10))}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                    >
+                      <option value={0}>None</option>
+                      <option value={3}>3 bins</option>
+                      <option value={7}>7 bins</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Alignment</label>
+                    <select
+                      value={movingAverageAlignment}
+                      onChange={(e) => setMovingAverageAlignment(e.target.value as MovingAverageAlignment)}
+                      disabled={!movingAverageWindow}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white disabled:opacity-50"
+                    >
+                      {(Object.keys(MOVING_AVERAGE_ALIGNMENT_LABELS) as MovingAverageAlignment[]).map(alignment => (
+                        <option key={alignment} value={alignment}>{MOVING_AVERAGE_ALIGNMENT_LABELS[alignment]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Growth Rate */}
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showGrowthRate}
+                    onChange={(e) => setShowGrowthRate(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Growth rate and doubling time</span>
+                </label>
+                {showGrowthRate && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Fit from</label>
+                      <select
+                        value={growthWindowStart ?? ''}
+                        onChange={(e) => setGrowthWindowStart(e.target.value ? Number(e.target.value) : null)}
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                      >
+                        <option value="">First bin</option>
+                        {curveData.bins.map(bin => (
+                          <option key={bin.startDate.getTime()} value={bin.startDate.getTime()}>{bin.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">Fit to</label>
+                      <select
+                        value={growthWindowEnd ?? ''}
+                        onChange={(e) => setGrowthWindowEnd(e.target.value ? Number(e.target.value) : null)}
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                      >
+                        <option value="">Peak</option>
+                        {curveData.bins.map(bin => (
+                          <option key={bin.startDate.getTime()} value={bin.startDate.getTime()}>{bin.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+                {trends?.growth?.error && (
+                  <p className="text-xs text-amber-700">{trends.growth.error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Reproduction Number */}
+          <div className="border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setShowRtPanel(!showRtPanel)}
+              className="flex items-center justify-between w-full text-left"
+            >
+              <span className="text-sm font-medium text-gray-700">Reproduction Number (Rt)</span>
+              <span className="text-gray-400">{showRtPanel ? '−' : '+'}</span>
+            </button>
+
+            {showRtPanel && (
+              <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showRt}
+                    onChange={(e) => setShowRt(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Show Rt under the curve</span>
+                </label>
+
+                {/* Serial Interval */}
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Serial interval (gamma)</label>
+                  <select
+                    value={serialIntervalPathogen}
+                    onChange={(e) => {
+                      setSerialIntervalPathogen(e.target.value);
+                      const preset = PATHOGEN_SERIAL_INTERVAL[e.target.value];
+                      if (preset) {
+                        setSerialIntervalMean(preset.mean);
+                        setSerialIntervalSd(preset.sd);
+                      }
+                    }}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                  >
+                    <option value="">Custom</option>
+                    {Object.keys(PATHOGEN_SERIAL_INTERVAL).sort().map(pathogen => (
+                      <option key={pathogen} value={pathogen}>
+                        {pathogen} (mean {PATHOGEN_SERIAL_INTERVAL[pathogen].mean}d, SD {PATHOGEN_SERIAL_INTERVAL[pathogen].sd}d)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Mean (days)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={isNaN(serialIntervalMean) ? '' : serialIntervalMean}
+                      onChange={(e) => {
+                        setSerialIntervalMean(parseFloat(e.target.value));
+                        setSerialIntervalPathogen('');
+                      }}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">SD (days)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={isNaN(serialIntervalSd) ? '' : serialIntervalSd}
+                      onChange={(e) => {
+                        setSerialIntervalSd(parseFloat(e.target.value));
+                        setSerialIntervalPathogen('');
+                      }}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                    />
+                  </div>
+                </div>
+
+                {/* Sliding Window */}
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Sliding window (bins)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={isNaN(rtWindow) ? '' : rtWindow}
+                    onChange={(e) => setRtWindow(parseInt(e.target.value, 10))}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                  />
+                </div>
+
+                {showRt && rtSeries?.error && (
+                  <p className="text-xs text-amber-700">{rtSeries.error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Reporting Delay Nowcast */}
+          <div className="border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setShowNowcastPanel(!showNowcastPanel)}
+              className="flex items-center justify-between w-full text-left"
+            >
+              <span className="text-sm font-medium text-gray-700">Reporting Delay Nowcast</span>
+              <span className="text-gray-400">{showNowcastPanel ? '−' : '+'}</span>
+            </button>
+
+            {showNowcastPanel && (
+              <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showNowcast}
+                    onChange={(e) => setShowNowcast(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Estimate cases not yet reported</span>
+                </label>
+
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Report date</label>
+                  <select
+                    value={reportDateColumn}
+                    onChange={(e) => setReportDateColumn(e.target.value)}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded bg-white"
+                  >
+                    <option value="">Select column...</option>
+                    {dateColumns.filter(col => col.key !== dateColumn).map(col => (
+                      <option key={col.key} value={col.key}>{col.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Maximum delay (days)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={nowcastMaxDelay ?? ''}
+                    placeholder="Longest observed"
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      setNowcastMaxDelay(isNaN(value) ? null : value);
+                    }}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                  />
+                </div>
+
+                {showNowcast && isSubDailyBin && (
+                  <p className="text-xs text-amber-700">Reporting delays are measured in days. Choose a daily or weekly bin size.</p>
+                )}
+                {nowcast?.error && (
+                  <p className="text-xs text-amber-700">{nowcast.error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Aberration Detection */}
+          <div className="border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setShowAberrationPanel(!showAberrationPanel)}
+              className="flex items-center justify-between w-full text-left"
+            >
+              <span className="text-sm font-medium text-gray-700">Aberration Detection</span>
+              <span className="text-gray-400">{showAberrationPanel ? '−' : '+'}</span>
+            </button>
+
+            {showAberrationPanel && (
+              <div className="mt-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showAberrations}
+                    onChange={(e) => setShowAberrations(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-gray-700">Flag unusual {stratifyBy ? 'counts in each stratum' : 'counts'}</span>
+                </label>
+                <AberrationSettings
+                  settings={aberrationSettings}
+                  onChange={setAberrationSettings}
+                  inferredPeriodsPerYear={binPeriodsPerYear}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Advanced Options */}
           <AdvancedOptions>
             {/* Color Scheme */}
@@ -1441,8 +2190,8 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
               {/* Title */}
               <h4 className="text-center text-lg font-semibold text-gray-900 mb-4">{chartTitle}</h4>
 
-              {/* Legend for Stratified Charts */}
-              {stratifyBy && displayData.strataKeys.length > 0 && (
+              {/* Legend for Stratified Charts (small-multiple panels are titled instead) */}
+              {stratifyBy && displayData.strataKeys.length > 0 && !isPanelLayout && (
                 <div className="flex flex-wrap justify-center gap-4 mb-4 pb-3 border-b border-gray-200">
                   {displayData.strataKeys.map((strataKey, strataIndex) => (
                     <div key={strataKey} className="flex items-center gap-2">
@@ -1458,226 +2207,347 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                 </div>
               )}
 
-              {/* Chart Area */}
-              <div className="flex">
-                {/* Y-Axis Label */}
-                <div className="flex items-center justify-center w-8">
-                  <span className="text-sm font-bold text-gray-500 transform -rotate-90 whitespace-nowrap">
-                    {yAxisLabel}
-                  </span>
+              {/* Legend for the nowcast segment */}
+              {nowcast && nowcast.intervals.size > 0 && !isPanelLayout && (
+                <div className="flex justify-center items-center gap-2 mb-4 text-sm text-gray-700">
+                  <div className="w-4 h-4 rounded-sm border border-slate-500" style={{ backgroundImage: NOWCAST_HATCH }} />
+                  <span>Estimated not yet reported (bars: 95% credible interval)</span>
                 </div>
+              )}
 
-                {/* Y-Axis */}
-                <div className="flex flex-col justify-between h-[300px] pr-2 text-right">
-                  {[...Array(6)].map((_, i) => {
-                    const value = Math.round((yAxisMax * (5 - i)) / 5);
-                    return (
-                      <span key={i} className="text-sm text-gray-500">{value}</span>
-                    );
-                  })}
+              {isPanelLayout ? (
+                <div>
+                  <div className="mb-3 flex items-center gap-2">
+                    <span className="text-xs font-medium text-purple-700 bg-purple-50 px-2 py-0.5 rounded-full">
+                      Small Multiples
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      Faceted by {dataset.columns.find(c => c.key === stratifyBy)?.label || stratifyBy} ({panelStrata.length} panels, {panelYAxis === 'shared' ? 'shared' : 'independent'} y-axes)
+                    </span>
+                  </div>
+                  <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: panelSvg }} />
+                  {((rtSeries && rtSeries.estimates.size > 0) || (nowcast && nowcast.intervals.size > 0) || trends || logScale) && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Rt, nowcast, trend and log-scale options apply to the whole curve and are shown in the stacked layout only.
+                    </p>
+                  )}
                 </div>
-
-                {/* Chart Body */}
-                <div
-                  ref={chartBodyRef}
-                  className="flex-1 overflow-x-auto cursor-crosshair"
-                  onClick={handleChartClick}
-                  title="Click to add annotation"
-                >
-                  <div
-                    className="relative"
-                    style={{
-                      width: displayData.bins.length * barWidth,
-                      marginRight: shouldRotateLabels ? 60 : 0,
-                    }}
-                  >
-                    {/* Grid Lines */}
-                    {showGridLines && (
-                      <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
-                        {[...Array(6)].map((_, i) => (
-                          <div key={i} className="border-b border-gray-100 w-full" />
-                        ))}
-                      </div>
-                    )}
-
-                    {/* Exposure Window Shading */}
-                    {exposureWindow && (
-                      <ExposureWindowShading
-                        exposureWindow={exposureWindow}
-                        bins={displayData.bins}
-                        barWidth={barWidth}
-                        chartHeight={chartHeight}
-                      />
-                    )}
-
-                    {/* Annotations */}
-                    {allAnnotations.map(ann => (
-                      <AnnotationMarker
-                        key={ann.id}
-                        annotation={ann}
-                        bins={displayData.bins}
-                        barWidth={barWidth}
-                        chartHeight={chartHeight}
-                        labelOffset={annotationOffsets.get(ann.id) || 0}
-                      />
-                    ))}
-
-                    {/* Bars */}
-                    <div className="flex items-end" style={{ height: chartHeight }}>
-                      {displayData.bins.map((bin, binIndex) => (
-                        <div
-                          key={binIndex}
-                          className="flex flex-col justify-end relative"
-                          style={{ width: barWidth }}
-                        >
-                          {stratifyBy && displayData.strataKeys.length > 0 ? (
-                            // Stacked bars
-                            <div className="flex flex-col-reverse">
-                              {displayData.strataKeys.map((strataKey, strataIndex) => {
-                                const count = bin.strata.get(strataKey)?.length || 0;
-                                if (count === 0) return null;
-                                const height = (count / yAxisMax) * chartHeight;
-                                return (
-                                  <div
-                                    key={strataKey}
-                                    className="mx-0.5 hover:opacity-80 transition-opacity"
-                                    style={{
-                                      height,
-                                      backgroundColor: getColorForStrata(strataKey, strataIndex, colorScheme),
-                                    }}
-                                    title={`${bin.label}: ${strataKey} (${count})`}
-                                  />
-                                );
-                              })}
-                            </div>
-                          ) : (
-                            // Single bar
-                            <div
-                              className="mx-0.5 bg-blue-500 hover:bg-blue-600 transition-colors"
-                              style={{
-                                height: (bin.total / yAxisMax) * chartHeight,
-                              }}
-                              title={`${bin.label}: ${bin.total} cases`}
-                            />
-                          )}
-
-                          {/* Case count label */}
-                          {showCaseCounts && bin.total > 0 && (
-                            <div
-                              className="absolute text-center text-xs font-medium text-gray-700 w-full"
-                              style={{
-                                bottom: `${(bin.total / yAxisMax) * chartHeight + 2}px`
-                              }}
-                            >
-                              {bin.total}
-                            </div>
-                          )}
+              ) : (
+                <>
+                  {/* Legend for the trend overlays */}
+                  {trends && trendLegendItems(trends).length > 0 && (
+                    <div className="flex flex-wrap justify-center items-center gap-4 mb-4 text-sm text-gray-700">
+                      {trendLegendItems(trends).map(item => (
+                        <div key={item.label} className="flex items-center gap-2">
+                          <svg width="24" height="8">
+                            <line x1="0" y1="4" x2="24" y2="4" stroke={item.color} strokeWidth="2" strokeDasharray={item.dash || undefined} />
+                          </svg>
+                          <span>{item.label}</span>
                         </div>
                       ))}
                     </div>
+                  )}
 
-                    {/* X-Axis Labels */}
-                    <div className="flex border-t border-gray-200">
-                      {displayData.bins.map((bin, index) => (
-                        <div
-                          key={index}
-                          className="relative"
-                          style={{ width: barWidth, height: shouldRotateLabels ? 96 : 34 }}
+                  {/* Chart Area */}
+                  <div className="flex">
+                    {/* Y-Axis Label */}
+                    <div className="flex items-center justify-center w-8">
+                      <span className="text-sm font-bold text-gray-500 transform -rotate-90 whitespace-nowrap">
+                        {yAxisLabel}
+                      </span>
+                    </div>
+
+                    {/* Y-Axis */}
+                    <div className="relative h-[300px] min-w-[2.5rem] pr-2 text-right">
+                      {yScale.ticks.map(tick => (
+                        <span
+                          key={tick.value}
+                          className="absolute right-2 text-sm text-gray-500 leading-none translate-y-1/2"
+                          style={{ bottom: tick.fraction * chartHeight }}
                         >
-                          {shouldShowLabel(index) && (
-                            <span
-                              className="text-sm text-gray-500 absolute whitespace-nowrap"
-                              style={
-                                shouldRotateLabels
-                                  ? {
-                                      transform: 'rotate(45deg)',
-                                      transformOrigin: '0 0',
-                                      left: '50%',
-                                      top: 10,
-                                    }
-                                  : {
-                                      left: '50%',
-                                      transform: 'translateX(-50%)',
-                                      top: 8,
-                                      textAlign: 'center',
-                                    }
-                              }
-                            >
-                              {bin.label}
-                            </span>
-                          )}
-                        </div>
+                          {tick.value}
+                        </span>
                       ))}
                     </div>
 
-                    {/* Click-to-add annotation popup */}
-                    {clickAddPosition && (
+                    {/* Chart Body */}
+                    <div
+                      ref={chartBodyRef}
+                      className="flex-1 overflow-x-auto cursor-crosshair"
+                      onClick={handleChartClick}
+                      title="Click to add annotation"
+                    >
                       <div
-                        className="absolute z-50 bg-white border border-gray-300 rounded-lg shadow-lg p-3 w-64"
+                        className="relative"
                         style={{
-                          left: Math.min(clickAddPosition.x, displayData.bins.length * barWidth - 270),
-                          top: Math.min(clickAddPosition.y, chartHeight - 200),
+                          width: displayData.bins.length * barWidth,
+                          marginRight: shouldRotateLabels ? 60 : 0,
                         }}
-                        onClick={(e) => e.stopPropagation()}
                       >
-                        <div className="flex items-center justify-between mb-2">
-                          <span className="text-sm font-medium text-gray-700">Add Annotation</span>
-                          <button
-                            onClick={cancelClickAdd}
-                            className="text-gray-400 hover:text-gray-600"
-                          >
-                            ×
-                          </button>
-                        </div>
-                        <div className="text-xs text-gray-500 mb-2">
-                          Date: {new Date(clickAddPosition.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
-                        </div>
-                        <div className="space-y-2">
-                          <select
-                            value={newAnnotation.type}
-                            onChange={(e) => setNewAnnotation({ ...newAnnotation, type: e.target.value as AnnotationType })}
-                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
-                          >
-                            {Object.entries(ANNOTATION_CATEGORIES).map(([categoryKey, category]) => (
-                              <optgroup key={categoryKey} label={category.label}>
-                                {category.types.map(t => (
-                                  <option key={t.value} value={t.value}>{t.label}</option>
-                                ))}
-                              </optgroup>
+                        {/* Grid Lines */}
+                        {showGridLines && (
+                          <div className="absolute inset-x-0 top-0 pointer-events-none" style={{ height: chartHeight }}>
+                            {yScale.ticks.map(tick => (
+                              <div key={tick.value} className="absolute w-full border-b border-gray-100" style={{ bottom: tick.fraction * chartHeight }} />
                             ))}
-                          </select>
-                          <input
-                            type="text"
-                            value={newAnnotation.label}
-                            onChange={(e) => setNewAnnotation({ ...newAnnotation, label: e.target.value })}
-                            placeholder="Label (optional)"
-                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                          </div>
+                        )}
+
+                        {/* Exposure Window Shading */}
+                        {exposureWindow && (
+                          <ExposureWindowShading
+                            exposureWindow={exposureWindow}
+                            bins={displayData.bins}
+                            barWidth={barWidth}
+                            chartHeight={chartHeight}
+                          />
+                        )}
+
+                        {/* Annotations */}
+                        {allAnnotations.map(ann => (
+                          <AnnotationMarker
+                            key={ann.id}
+                            annotation={ann}
+                            bins={displayData.bins}
+                            barWidth={barWidth}
+                            chartHeight={chartHeight}
+                            labelOffset={annotationOffsets.get(ann.id) || 0}
                           />
-                          <div className="flex gap-2">
-                            <button
-                              onClick={saveClickAnnotation}
-                              className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-gray-700 rounded hover:bg-gray-800"
+                        ))}
+
+                        {/* Bars */}
+                        <div className="flex items-end" style={{ height: chartHeight }}>
+                          {displayData.bins.map((bin, binIndex) => (
+                            <div
+                              key={binIndex}
+                              className="flex flex-col justify-end relative"
+                              style={{ width: barWidth }}
                             >
-                              Add
-                            </button>
-                            <button
-                              onClick={cancelClickAdd}
-                              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200"
+                              {/* Nowcast: hatched segment of cases not yet reported, stacked on the bar */}
+                              {nowcastFor(bin) && (
+                                <div
+                                  className="mx-0.5 border border-b-0 border-dashed border-slate-500"
+                                  style={{
+                                    height: yPos(bin.total + nowcastFor(bin)!.notYetReported) - yPos(bin.total),
+                                    backgroundImage: NOWCAST_HATCH,
+                                  }}
+                                  title={`${bin.label}: about ${Math.round(nowcastFor(bin)!.notYetReported)} more cases expected (95% CrI ${Math.round(nowcastFor(bin)!.lower)}–${Math.round(nowcastFor(bin)!.upper)})`}
+                                />
+                              )}
+                              {nowcastFor(bin) && (
+                                <div
+                                  className="absolute left-1/2 w-2 -ml-1 border-y border-slate-700 pointer-events-none"
+                                  style={{
+                                    bottom: yPos(bin.total + nowcastFor(bin)!.lower),
+                                    height: yPos(bin.total + nowcastFor(bin)!.upper) - yPos(bin.total + nowcastFor(bin)!.lower),
+                                  }}
+                                >
+                                  <div className="mx-auto w-px h-full bg-slate-700" />
+                                </div>
+                              )}
+
+                              {stratifyBy && displayData.strataKeys.length > 0 ? (
+                                // Stacked bars
+                                <div className="flex flex-col-reverse">
+                                  {displayData.strataKeys.map((strataKey, strataIndex) => {
+                                    const count = bin.strata.get(strataKey)?.length || 0;
+                                    if (count === 0) return null;
+                                    // Segment between the running totals, so stacks also work on a log axis
+                                    const below = displayData.strataKeys
+                                      .slice(0, strataIndex)
+                                      .reduce((sum, key) => sum + (bin.strata.get(key)?.length || 0), 0);
+                                    const height = yPos(below + count) - yPos(below);
+                                    return (
+                                      <div
+                                        key={strataKey}
+                                        className="mx-0.5 hover:opacity-80 transition-opacity"
+                                        style={{
+                                          height,
+                                          backgroundColor: getColorForStrata(strataKey, strataIndex, colorScheme),
+                                        }}
+                                        title={`${bin.label}: ${strataKey} (${count})`}
+                                      />
+                                    );
+                                  })}
+                                </div>
+                              ) : (
+                                // Single bar
+                                <div
+                                  className="mx-0.5 bg-blue-500 hover:bg-blue-600 transition-colors"
+                                  style={{
+                                    height: yPos(bin.total),
+                                  }}
+                                  title={`${bin.label}: ${bin.total} cases`}
+                                />
+                              )}
+
+                              {/* Case count label (above any nowcast interval) */}
+                              {showCaseCounts && bin.total > 0 && (
+                                <div
+                                  className="absolute text-center text-xs font-medium text-gray-700 w-full"
+                                  style={{
+                                    bottom: `${yPos(barTop(bin)) + 2}px`
+                                  }}
+                                >
+                                  {bin.total}
+                                </div>
+                              )}
+
+                              {/* Aberration alarm marker */}
+                              {aberrations?.alarms.has(bin.startDate.getTime()) && (
+                                <div
+                                  className="absolute text-center text-xs text-red-600 w-full leading-none"
+                                  style={{
+                                    bottom: `${yPos(barTop(bin)) + (showCaseCounts && bin.total > 0 ? 18 : 2)}px`
+                                  }}
+                                  title={`Alert: ${aberrations.alarms.get(bin.startDate.getTime())!.join(', ')}`}
+                                >
+                                  ▲
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+
+                        {/* Moving average, growth fit and cumulative lines over the bars */}
+                        {trends && (
+                          <div
+                            className="absolute left-0 top-0 pointer-events-none"
+                            dangerouslySetInnerHTML={{
+                              __html: `<svg xmlns="http://www.w3.org/2000/svg" width="${displayData.bins.length * barWidth}" height="${chartHeight}">${trendOverlayMarkup(displayData.bins, trends, yScale, cumulativeScale, barWidth, chartHeight)}</svg>`,
+                            }}
+                          />
+                        )}
+
+                        {/* X-Axis Labels */}
+                        <div className="flex border-t border-gray-200">
+                          {displayData.bins.map((bin, index) => (
+                            <div
+                              key={index}
+                              className="relative"
+                              style={{ width: barWidth, height: shouldRotateLabels ? 96 : 34 }}
                             >
-                              Cancel
-                            </button>
-                          </div>
+                              {shouldShowLabel(index) && (
+                                <span
+                                  className="text-sm text-gray-500 absolute whitespace-nowrap"
+                                  style={
+                                    shouldRotateLabels
+                                      ? {
+                                          transform: 'rotate(45deg)',
+                                          transformOrigin: '0 0',
+                                          left: '50%',
+                                          top: 10,
+                                        }
+                                      : {
+                                          left: '50%',
+                                          transform: 'translateX(-50%)',
+                                          top: 8,
+                                          textAlign: 'center',
+                                        }
+                                  }
+                                >
+                                  {bin.label}
+                                </span>
+                              )}
+                            </div>
+                          ))}
                         </div>
+
+                        {/* Rt ribbon under the curve, sharing the bar positions */}
+                        {rtSeries && rtSeries.estimates.size > 0 && (
+                          <div
+                            className="mt-2"
+                            dangerouslySetInnerHTML={{
+                              __html: `<svg xmlns="http://www.w3.org/2000/svg" width="${displayData.bins.length * barWidth}" height="${RT_PANEL_HEIGHT}">${rtRibbonMarkup(displayData.bins, rtSeries.estimates, barWidth, RT_PANEL_HEIGHT, false)}</svg>`,
+                            }}
+                          />
+                        )}
+
+                        {/* Click-to-add annotation popup */}
+                        {clickAddPosition && (
+                          <div
+                            className="absolute z-50 bg-white border border-gray-300 rounded-lg shadow-lg p-3 w-64"
+                            style={{
+                              left: Math.min(clickAddPosition.x, displayData.bins.length * barWidth - 270),
+                              top: Math.min(clickAddPosition.y, chartHeight - 200),
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm font-medium text-gray-700">Add Annotation</span>
+                              <button
+                                onClick={cancelClickAdd}
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                ×
+                              </button>
+                            </div>
+                            <div className="text-xs text-gray-500 mb-2">
+                              Date: {new Date(clickAddPosition.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                            </div>
+                            <div className="space-y-2">
+                              <select
+                                value={newAnnotation.type}
+                                onChange={(e) => setNewAnnotation({ ...newAnnotation, type: e.target.value as AnnotationType })}
+                                className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                              >
+                                {Object.entries(ANNOTATION_CATEGORIES).map(([categoryKey, category]) => (
+                                  <optgroup key={categoryKey} label={category.label}>
+                                    {category.types.map(t => (
+                                      <option key={t.value} value={t.value}>{t.label}</option>
+                                    ))}
+                                  </optgroup>
+                                ))}
+                              </select>
+                              <input
+                                type="text"
+                                value={newAnnotation.label}
+                                onChange={(e) => setNewAnnotation({ ...newAnnotation, label: e.target.value })}
+                                placeholder="Label (optional)"
+                                className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                              />
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={saveClickAnnotation}
+                                  className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-gray-700 rounded hover:bg-gray-800"
+                                >
+                                  Add
+                                </button>
+                                <button
+                                  onClick={cancelClickAdd}
+                                  className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded hover:bg-gray-200"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Right-hand axis for the cumulative line */}
+                    {cumulativeScale && (
+                      <div className="relative h-[300px] min-w-[2.5rem] pl-2">
+                        {cumulativeScale.ticks.map(tick => (
+                          <span
+                            key={tick.value}
+                            className="absolute left-2 text-sm leading-none translate-y-1/2"
+                            style={{ bottom: tick.fraction * chartHeight, color: TREND_COLORS.cumulative }}
+                          >
+                            {tick.value}
+                          </span>
+                        ))}
                       </div>
                     )}
                   </div>
-                </div>
-              </div>
 
-              {/* X-Axis Label */}
-              <div className="text-center mt-2">
-                <span className="text-sm font-bold text-gray-500">{xAxisLabel}</span>
-              </div>
+                  {/* X-Axis Label */}
+                  <div className="text-center mt-2">
+                    <span className="text-sm font-bold text-gray-500">{xAxisLabel}</span>
+                  </div>
+                </>
+              )}
             </div>
 
             {/* 7-1-7 Metrics Summary */}
@@ -1727,10 +2597,11 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                         <strong>First case date:</strong> {exposureWindow.firstCaseDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
                       </li>
                       <li>
-                        <strong>Selected pathogen:</strong> {exposureWindow.pathogen}
+                        <strong>{exposureWindow.isFitted ? 'Incubation estimate' : 'Selected pathogen'}:</strong> {exposureWindow.pathogen}
                       </li>
                       <li>
                         <strong>Incubation period:</strong> {exposureWindow.incubation.min}–{exposureWindow.incubation.max} days
+                        {exposureWindow.isFitted && ` (5th–95th percentile, median ${exposureWindow.incubation.typical} days)`}
                       </li>
                       <li>
                         <strong>Earliest exposure:</strong> First case date − {Math.ceil(exposureWindow.incubation.max)} days = {exposureWindow.start.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
@@ -1751,6 +2622,88 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
               </div>
             )}
 
+            {/* Incubation Period Fits */}
+            {incubationResult && incubationResult.fits.length > 0 && (
+              <IncubationPeriodResults
+                fits={incubationResult.fits}
+                observations={incubationResult.data.observations.length}
+                excluded={incubationResult.data.excluded}
+                bootstrapSamples={incubationResult.bootstrapSamples}
+                selectedDistribution={selectedPathogen === FITTED_INCUBATION ? fittedIncubation?.distribution ?? null : null}
+                onSelect={fit => selectIncubationFit(fit, incubationResult.data.observations.length)}
+                filename={`${chartTitle.replace(/\s+/g, '_')}_incubation`}
+              />
+            )}
+
+            {/* Aberration Alerts */}
+            {aberrations && (
+              <AberrationAlertsTable
+                alerts={aberrations.alerts}
+                settings={aberrationSettings}
+                seriesLabel={stratifyBy ? dataset.columns.find(c => c.key === stratifyBy)?.label ?? stratifyBy : undefined}
+                evaluatedPeriods={aberrations.evaluated}
+                filename={`${chartTitle.replace(/\s+/g, '_')}_alerts`}
+              />
+            )}
+
+            {/* Growth Rate Explanation */}
+            {trends?.growth?.estimate && (
+              <div className="mt-4 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-sm text-emerald-900">
+                <h5 className="font-semibold mb-1">
+                  {trends.growth.estimate.direction === 'growth' ? 'Growth rate' : 'Decline rate'}: {(trends.growth.estimate.rate * 100).toFixed(1)}% per day
+                  {' '}(95% CI {(trends.growth.estimate.rateCI[0] * 100).toFixed(1)}% to {(trends.growth.estimate.rateCI[1] * 100).toFixed(1)}%)
+                </h5>
+                <p className="text-xs">
+                  {growthSummary(trends.growth.estimate)}, from a log-linear (Poisson) regression of the counts on time over
+                  {' '}{trends.growth.windowLabel} ({trends.growth.estimate.endIndex - trends.growth.estimate.startIndex + 1} bins,
+                  {' '}{trends.growth.estimate.cases} cases). The dashed green line is the fitted exponential curve.
+                </p>
+                <p className="text-xs text-emerald-700 mt-1">
+                  Assumes steady exponential growth or decline within the window; choose a window within one phase of the outbreak.
+                  {trends.growth.estimate.dispersion > 1 && ` Counts vary more than expected (dispersion ${trends.growth.estimate.dispersion.toFixed(1)}), so the intervals are widened accordingly.`}
+                  {(trends.growth.estimate.rateCI[0] < 0 && trends.growth.estimate.rateCI[1] > 0) && ' The interval includes no change, so the upper limit is unbounded.'}
+                </p>
+              </div>
+            )}
+
+            {/* Nowcast Explanation */}
+            {nowcast?.nowcast && nowcast.intervals.size > 0 && (
+              <div className="mt-4 p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-800">
+                <h5 className="font-semibold mb-1">Nowcast of cases not yet reported</h5>
+                <p className="text-xs">
+                  Data as of {nowcast.nowcast.asOf.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.
+                  {' '}From {nowcast.data.observations.length} cases with onset and report dates, the median reporting delay is
+                  {' '}{nowcast.nowcast.delay.median} day{nowcast.nowcast.delay.median === 1 ? '' : 's'} and delays up to
+                  {' '}{nowcast.nowcast.delay.maxDelay} days are modelled. The hatched segments show the cases with onset in the
+                  last {nowcast.nowcast.delay.maxDelay} days that are expected to be reported later, with 95% credible intervals
+                  (reverse-time delay distribution with a Bayesian multinomial model; Lawless, 1994; Höhle &amp; an der Heiden, 2014).
+                </p>
+                <p className="text-xs text-slate-600 mt-1">
+                  Assumes the delay distribution has not changed during the outbreak. Bins where few cases are reported yet
+                  have wide intervals.
+                  {nowcast.data.excluded.missingDates > 0 && ` ${nowcast.data.excluded.missingDates} case${nowcast.data.excluded.missingDates === 1 ? '' : 's'} without a valid report date ${nowcast.data.excluded.missingDates === 1 ? 'is' : 'are'} drawn in the bars but not used for the delays.`}
+                  {nowcast.data.excluded.reportBeforeOnset > 0 && ` ${nowcast.data.excluded.reportBeforeOnset} case${nowcast.data.excluded.reportBeforeOnset === 1 ? '' : 's'} reported before onset ${nowcast.data.excluded.reportBeforeOnset === 1 ? 'was' : 'were'} excluded.`}
+                </p>
+              </div>
+            )}
+
+            {/* Rt Explanation */}
+            {rtSeries && rtSeries.estimates.size > 0 && (
+              <div className="mt-4 p-3 bg-violet-50 border border-violet-200 rounded-lg text-sm text-violet-900">
+                <h5 className="font-semibold mb-1">Time-varying reproduction number (Rt)</h5>
+                <p className="text-xs">
+                  Posterior mean and 95% credible interval by the method of Cori et al. (2013), using a
+                  {' '}{rtWindow}-bin sliding window and a gamma serial interval with mean {serialIntervalMean} days
+                  (SD {serialIntervalSd}){serialIntervalPathogen ? ` for ${serialIntervalPathogen}` : ''}. Each estimate is
+                  plotted at the last bin of its window. Rt above 1 (dashed line) means the outbreak is growing.
+                </p>
+                <p className="text-xs text-violet-700 mt-1">
+                  Estimates assume complete, timely reporting by onset date; recent bins are affected by reporting
+                  delays, and windows with few cases have wide intervals.
+                </p>
+              </div>
+            )}
+
             {/* Results Actions */}
             <ResultsActions
               actions={[
@@ -1767,6 +2720,24 @@ export function EpiCurve({ dataset, onExportDataset, preset }: EpiCurveProps) {
                   icon: ExportIcons.download,
                   variant: 'secondary',
                 },
+                ...(rtSeries && rtSeries.estimates.size > 0 ? [{
+                  label: 'Export Rt CSV',
+                  onClick: exportRtCSV,
+                  icon: ExportIcons.csv,
+                  variant: 'secondary' as const,
+                }] : []),
+                ...(trends ? [{
+                  label: 'Export Trends CSV',
+                  onClick: exportTrendsCSV,
+                  icon: ExportIcons.csv,
+                  variant: 'secondary' as const,
+                }] : []),
+                ...(nowcast?.nowcast && nowcast.intervals.size > 0 ? [{
+                  label: 'Export Nowcast CSV',
+                  onClick: exportNowcastCSV,
+                  icon: ExportIcons.csv,
+                  variant: 'secondary' as const,
+                }] : []),
                 ...(onExportDataset ? [{
                   label: 'Export Dataset CSV',
                   onClick: onExportDataset,
@@ -2022,7 +2993,7 @@ function downloadBlob(blob: Blob, filename: string) {
 
 function generateSVG(
   data: EpiCurveData,
-  yMax: number,
+  yScale: CountScale,
   title: string,
   xLabel: string,
   yLabel: string,
@@ -2031,17 +3002,29 @@ function generateSVG(
   stratifyBy: string,
   colorScheme: ColorScheme,
   annotations: Annotation[],
-  exposureWindow: { start: Date; end: Date } | null
+  exposureWindow: { start: Date; end: Date } | null,
+  rtEstimates: Map<number, RtEstimate> | null,
+  aberrationAlarms: Map<number, string[]> | null,
+  nowcastIntervals: Map<number, NowcastInterval> | null,
+  trends: BinTrends | null,
+  cumulativeScale: CountScale | null
 ): string {
   const width = Math.max(800, data.bins.length * 40 + 100);
-  const height = 500;
   const margin = { top: 60, right: 80, bottom: 110, left: 60 };
   const chartWidth = width - margin.left - margin.right;
-  const chartHeight = height - margin.top - margin.bottom;
+  const chartHeight = 500 - margin.top - margin.bottom;
+  const trendLegend = trends ? trendLegendItems(trends) : [];
+  // The trend legend and the Rt panel sit below the x-axis label
+  const height = 500 + trendLegend.length * 18;
+  const totalHeight = rtEstimates ? height + RT_PANEL_HEIGHT + 20 : height;
   const barWidth = data.bins.length > 0 ? chartWidth / data.bins.length : chartWidth;
   const chartBottom = margin.top + chartHeight;
+  const yPos = (value: number) => scaleFraction(value, yScale) * chartHeight;
 
-  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" style="background: white;">`;
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${totalHeight}" style="background: white;">`;
+  if (nowcastIntervals && nowcastIntervals.size > 0) {
+    svg += '<defs><pattern id="nowcast-hatch" patternUnits="userSpaceOnUse" width="6" height="6" patternTransform="rotate(45)"><rect width="2" height="6" fill="#64748B"/></pattern></defs>';
+  }
 
   // Title
   svg += `<text x="${width / 2}" y="30" text-anchor="middle" font-size="18" font-weight="bold">${escapeXml(title)}</text>`;
@@ -2062,25 +3045,42 @@ function generateSVG(
     });
   }
 
-  // Y-axis label
-  svg += `<text x="20" y="${height / 2}" text-anchor="middle" font-size="14" transform="rotate(-90, 20, ${height / 2})">${escapeXml(yLabel)}</text>`;
+  // Legend for the nowcast segment (top right, clear of the strata legend)
+  if (nowcastIntervals && nowcastIntervals.size > 0) {
+    svg += `<rect x="${width - margin.right - 170}" y="${margin.top - 14}" width="12" height="12" fill="url(#nowcast-hatch)" stroke="#64748B"/>`;
+    svg += `<text x="${width - margin.right - 154}" y="${margin.top - 4}" font-size="11">Estimated not yet reported</text>`;
+  }
 
-  // X-axis label
-  svg += `<text x="${width / 2}" y="${height - 10}" text-anchor="middle" font-size="14">${escapeXml(xLabel)}</text>`;
+  // Y-axis label
+  svg += `<text x="20" y="${margin.top + chartHeight / 2}" text-anchor="middle" font-size="14" transform="rotate(-90, 20, ${margin.top + chartHeight / 2})">${escapeXml(yLabel)}</text>`;
+
+  // X-axis label, then one row per trend overlay
+  const xLabelY = chartBottom + margin.bottom - 10;
+  svg += `<text x="${width / 2}" y="${xLabelY}" text-anchor="middle" font-size="14">${escapeXml(xLabel)}</text>`;
+  trendLegend.forEach((item, i) => {
+    const y = xLabelY + 18 * (i + 1);
+    svg += `<line x1="${margin.left}" y1="${y - 4}" x2="${margin.left + 24}" y2="${y - 4}" stroke="${item.color}" stroke-width="2"${item.dash ? ` stroke-dasharray="${item.dash}"` : ''}/>`;
+    svg += `<text x="${margin.left + 30}" y="${y}" font-size="12">${escapeXml(item.label)}</text>`;
+  });
 
-  // Grid lines
-  if (showGrid) {
-    for (let i = 0; i <= 5; i++) {
-      const y = margin.top + (i / 5) * chartHeight;
+  // Grid lines and y-axis ticks (same scale as the on-screen chart)
+  yScale.ticks.forEach(tick => {
+    const y = chartBottom - tick.fraction * chartHeight;
+    if (showGrid) {
       svg += `<line x1="${margin.left}" y1="${y}" x2="${width - margin.right}" y2="${y}" stroke="#eee" stroke-width="1"/>`;
     }
+    svg += `<text x="${margin.left - 10}" y="${y + 4}" text-anchor="end" font-size="12">${tick.value}</text>`;
+  });
+  if (yScale.log) {
+    svg += `<text x="${margin.left - 10}" y="${margin.top - 8}" text-anchor="end" font-size="10" fill="#6B7280">log scale</text>`;
   }
 
-  // Y-axis ticks (same yMax scale as the on-screen chart)
-  for (let i = 0; i <= 5; i++) {
-    const value = Math.round((yMax * (5 - i)) / 5);
-    const y = margin.top + (i / 5) * chartHeight;
-    svg += `<text x="${margin.left - 10}" y="${y + 4}" text-anchor="end" font-size="12">${value}</text>`;
+  // Right-hand axis for the cumulative line
+  if (cumulativeScale) {
+    cumulativeScale.ticks.forEach(tick => {
+      const y = chartBottom - tick.fraction * chartHeight;
+      svg += `<text x="${width - margin.right + 8}" y="${y + 4}" font-size="12" fill="${TREND_COLORS.cumulative}">${tick.value}</text>`;
+    });
   }
 
   // Bars
@@ -2088,69 +3088,118 @@ function generateSVG(
     const x = margin.left + index * barWidth;
 
     if (stratifyBy && data.strataKeys.length > 0) {
-      let cumHeight = 0;
+      let cumCount = 0;
       data.strataKeys.forEach((key, keyIndex) => {
         const count = bin.strata.get(key)?.length || 0;
         if (count > 0) {
-          const barHeight = (count / yMax) * chartHeight;
-          const y = chartBottom - cumHeight - barHeight;
+          const barHeight = yPos(cumCount + count) - yPos(cumCount);
+          const y = chartBottom - yPos(cumCount + count);
           const color = getColorForStrata(key, keyIndex, colorScheme);
           svg += `<rect x="${x + 2}" y="${y}" width="${barWidth - 4}" height="${barHeight}" fill="${color}"/>`;
-          cumHeight += barHeight;
+          cumCount += count;
         }
       });
     } else if (bin.total > 0) {
-      const barHeight = (bin.total / yMax) * chartHeight;
+      const barHeight = yPos(bin.total);
       const y = chartBottom - barHeight;
       svg += `<rect x="${x + 2}" y="${y}" width="${barWidth - 4}" height="${barHeight}" fill="#3B82F6"/>`;
     }
 
+    // Nowcast: hatched segment for cases not yet reported, with its 95% credible interval
+    const nowcastInterval = nowcastIntervals?.get(bin.startDate.getTime());
+    if (nowcastInterval) {
+      const base = chartBottom - yPos(bin.total);
+      const segmentHeight = yPos(bin.total + nowcastInterval.notYetReported) - yPos(bin.total);
+      const cx = x + barWidth / 2;
+      const yLower = chartBottom - yPos(bin.total + nowcastInterval.lower);
+      const yUpper = chartBottom - yPos(bin.total + nowcastInterval.upper);
+      svg += `<rect x="${x + 2}" y="${base - segmentHeight}" width="${barWidth - 4}" height="${segmentHeight}" fill="url(#nowcast-hatch)" stroke="#64748B" stroke-dasharray="3 2"/>`;
+      svg += `<line x1="${cx}" y1="${yLower}" x2="${cx}" y2="${yUpper}" stroke="#334155" stroke-width="1"/>`;
+      svg += `<line x1="${cx - 4}" y1="${yLower}" x2="${cx + 4}" y2="${yLower}" stroke="#334155" stroke-width="1"/>`;
+      svg += `<line x1="${cx - 4}" y1="${yUpper}" x2="${cx + 4}" y2="${yUpper}" stroke="#334155" stroke-width="1"/>`;
+    }
+    // Labels and markers sit above the bar and any nowcast interval
+    const labelCount = bin.total + (nowcastInterval?.upper ?? 0);
+
     // Case count
     if (showCounts && bin.total > 0) {
-      const barHeight = (bin.total / yMax) * chartHeight;
+      const barHeight = yPos(labelCount);
       svg += `<text x="${x + barWidth / 2}" y="${chartBottom - barHeight - 5}" text-anchor="middle" font-size="10">${bin.total}</text>`;
     }
 
+    // Aberration alarm marker
+    if (aberrationAlarms?.has(bin.startDate.getTime())) {
+      const top = chartBottom - yPos(labelCount) - (showCounts && bin.total > 0 ? 16 : 4);
+      const cx = x + barWidth / 2;
+      svg += `<path d="M ${cx - 5} ${top} L ${cx + 5} ${top} L ${cx} ${top - 8} Z" fill="#DC2626"><title>${escapeXml(`Alert: ${aberrationAlarms.get(bin.startDate.getTime())!.join(', ')}`)}</title></path>`;
+    }
+
     // X-axis label
     const labelX = x + barWidth / 2;
     const labelY = chartBottom + 12;
     svg += `<text x="${labelX}" y="${labelY}" text-anchor="start" font-size="11" transform="rotate(45, ${labelX}, ${labelY})">${escapeXml(bin.label)}</text>`;
   });
 
-  // Map a timestamp to an x position, mirroring the on-screen marker math:
-  // date-only (midnight) annotations are centered on their bin.
+  // Exposure window and annotations, drawn over the plot area
+  svg += `<g transform="translate(${margin.left}, ${margin.top})">${markerOverlayMarkup(data.bins, annotations, exposureWindow, barWidth, chartHeight, true)}</g>`;
+
+  // Moving average, growth fit and cumulative lines
+  if (trends) {
+    svg += `<g transform="translate(${margin.left}, ${margin.top})">${trendOverlayMarkup(data.bins, trends, yScale, cumulativeScale, barWidth, chartHeight)}</g>`;
+  }
+
+  if (rtEstimates) {
+    svg += `<g transform="translate(${margin.left}, ${height + 10})">${rtRibbonMarkup(data.bins, rtEstimates, barWidth, RT_PANEL_HEIGHT, true)}</g>`;
+  }
+
+  svg += '</svg>';
+  return svg;
+}
+
+// Exposure window shading and annotation markers for a plot area starting at (0, 0),
+// mirroring the on-screen marker math: date-only (midnight) annotations are centered on their bin.
+function markerOverlayMarkup(
+  bins: EpiCurveBin[],
+  annotations: Annotation[],
+  exposureWindow: { start: Date; end: Date } | null,
+  barWidth: number,
+  plotHeight: number,
+  showLabels: boolean
+): string {
+  if (bins.length === 0) return '';
+  const plotWidth = bins.length * barWidth;
+  const firstStart = bins[0].startDate.getTime();
+  const lastEnd = bins[bins.length - 1].endDate.getTime();
+  let svg = '';
+
   const xForTime = (time: number, centerInBin: boolean): number | null => {
-    if (data.bins.length === 0) return null;
-    const firstStart = data.bins[0].startDate.getTime();
-    const lastEnd = data.bins[data.bins.length - 1].endDate.getTime();
-    if (time < firstStart) return margin.left;
-    if (time >= lastEnd) return width - margin.right;
-    const binIndex = data.bins.findIndex(b => time >= b.startDate.getTime() && time < b.endDate.getTime());
+    if (time < firstStart) return 0;
+    if (time >= lastEnd) return plotWidth;
+    const binIndex = bins.findIndex(b => time >= b.startDate.getTime() && time < b.endDate.getTime());
     if (binIndex === -1) return null;
-    const bin = data.bins[binIndex];
+    const bin = bins[binIndex];
     const binDuration = bin.endDate.getTime() - bin.startDate.getTime();
     const fraction = binDuration > 0 ? (time - bin.startDate.getTime()) / binDuration : 0;
     const within = centerInBin ? Math.max(fraction * barWidth, barWidth / 2) : fraction * barWidth;
-    return margin.left + binIndex * barWidth + within;
+    return binIndex * barWidth + within;
   };
+  const label = (x: number, text: string, color: string) =>
+    showLabels ? `<text x="${x + 4}" y="12" font-size="10" font-weight="500" fill="${color}">${escapeXml(text)}</text>` : '';
 
   // Exposure window shading (matches the on-screen translucent red band)
-  if (exposureWindow && data.bins.length > 0) {
-    const firstStart = data.bins[0].startDate.getTime();
-    const lastEnd = data.bins[data.bins.length - 1].endDate.getTime();
-    const totalDuration = lastEnd - firstStart;
+  if (exposureWindow) {
     const toX = (time: number): number => {
-      if (time <= firstStart) return margin.left;
-      if (time >= lastEnd) return width - margin.right;
-      return margin.left + ((time - firstStart) / totalDuration) * chartWidth;
+      if (time <= firstStart) return 0;
+      if (time >= lastEnd) return plotWidth;
+      return ((time - firstStart) / (lastEnd - firstStart)) * plotWidth;
     };
     const x1 = toX(exposureWindow.start.getTime());
     const x2 = toX(exposureWindow.end.getTime());
     const w = Math.max(x2 - x1, barWidth / 2);
-    svg += `<rect x="${x1}" y="${margin.top}" width="${w}" height="${chartHeight}" fill="rgba(220, 38, 38, 0.15)"/>`;
-    svg += `<line x1="${x1}" y1="${margin.top}" x2="${x1}" y2="${chartBottom}" stroke="#F87171" stroke-width="2"/>`;
-    svg += `<line x1="${x1 + w}" y1="${margin.top}" x2="${x1 + w}" y2="${chartBottom}" stroke="#F87171" stroke-width="2"/>`;
-    svg += `<text x="${x1 + 4}" y="${margin.top + 12}" font-size="10" font-weight="500" fill="#B91C1C">Est. Exposure</text>`;
+    svg += `<rect x="${x1}" y="0" width="${w}" height="${plotHeight}" fill="rgba(220, 38, 38, 0.15)"/>`;
+    svg += `<line x1="${x1}" y1="0" x2="${x1}" y2="${plotHeight}" stroke="#F87171" stroke-width="2"/>`;
+    svg += `<line x1="${x1 + w}" y1="0" x2="${x1 + w}" y2="${plotHeight}" stroke="#F87171" stroke-width="2"/>`;
+    svg += label(x1, 'Est. Exposure', '#B91C1C');
   }
 
   // Annotations (dashed markers / shaded ranges, as on screen)
@@ -2162,16 +3211,395 @@ function generateSVG(
     if (ann.endDate && !isNaN(ann.endDate.getTime())) {
       const endX = xForTime(ann.endDate.getTime(), false) ?? x;
       const w = Math.max(endX - x, barWidth / 2);
-      svg += `<rect x="${x}" y="${margin.top}" width="${w}" height="${chartHeight}" fill="${ann.color}" opacity="0.1"/>`;
-      svg += `<line x1="${x}" y1="${margin.top}" x2="${x}" y2="${chartBottom}" stroke="${ann.color}" stroke-width="1" stroke-dasharray="4 3"/>`;
-      svg += `<line x1="${x + w}" y1="${margin.top}" x2="${x + w}" y2="${chartBottom}" stroke="${ann.color}" stroke-width="1" stroke-dasharray="4 3"/>`;
-      svg += `<text x="${x + 4}" y="${margin.top + 12}" font-size="10" font-weight="500" fill="${ann.color}">${escapeXml(ann.label)}</text>`;
+      svg += `<rect x="${x}" y="0" width="${w}" height="${plotHeight}" fill="${ann.color}" opacity="0.1"/>`;
+      svg += `<line x1="${x}" y1="0" x2="${x}" y2="${plotHeight}" stroke="${ann.color}" stroke-width="1" stroke-dasharray="4 3"/>`;
+      svg += `<line x1="${x + w}" y1="0" x2="${x + w}" y2="${plotHeight}" stroke="${ann.color}" stroke-width="1" stroke-dasharray="4 3"/>`;
     } else {
-      svg += `<line x1="${x}" y1="${margin.top}" x2="${x}" y2="${chartBottom}" stroke="${ann.color}" stroke-width="1.5" stroke-dasharray="4 3"/>`;
-      svg += `<text x="${x + 4}" y="${margin.top + 12}" font-size="10" font-weight="500" fill="${ann.color}">${escapeXml(ann.label)}</text>`;
+      svg += `<line x1="${x}" y1="0" x2="${x}" y2="${plotHeight}" stroke="${ann.color}" stroke-width="1.5" stroke-dasharray="4 3"/>`;
     }
+    svg += label(x, ann.label, ann.color);
   });
 
+  return svg;
+}
+
+const PANEL_PLOT_HEIGHT = 120;
+const PANEL_TITLE_HEIGHT = 22;
+const PANEL_GAP = 14;
+
+// Small multiples: one epi curve per stratum, stacked on a shared date axis.
+// Y-axes are either shared (compare sizes) or scaled to each panel's peak (compare shapes).
+function generatePanelSVG(
+  data: EpiCurveData,
+  panels: Array<{ key: string; color: string }>,
+  sharedYAxis: boolean,
+  title: string | null,
+  xLabel: string,
+  yLabel: string,
+  showGrid: boolean,
+  showCounts: boolean,
+  annotations: Annotation[],
+  exposureWindow: { start: Date; end: Date } | null,
+  aberrationAlarms: Map<number, string[]> | null
+): string {
+  const width = Math.max(800, data.bins.length * 40 + 100);
+  const margin = { top: title ? 50 : 10, right: 40, bottom: 100, left: 70 };
+  const chartWidth = width - margin.left - margin.right;
+  const barWidth = data.bins.length > 0 ? chartWidth / data.bins.length : chartWidth;
+  const panelHeight = PANEL_TITLE_HEIGHT + PANEL_PLOT_HEIGHT + PANEL_GAP;
+  const height = margin.top + panels.length * panelHeight + margin.bottom;
+
+  const countsFor = (key: string) => data.bins.map(bin => bin.strata.get(key)?.length || 0);
+  // Same "at least 1 above the peak, rounded up to a multiple of 5" rule as the stacked chart
+  const niceMax = (peak: number) => Math.max(peak + 1, Math.ceil((peak + 1) / 5) * 5);
+  const sharedMax = niceMax(panels.reduce((peak, p) => countsFor(p.key).reduce((m, c) => Math.max(m, c), peak), 0));
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" style="background: white;">`;
+  if (title) {
+    svg += `<text x="${width / 2}" y="30" text-anchor="middle" font-size="18" font-weight="bold">${escapeXml(title)}</text>`;
+  }
+
+  panels.forEach(({ key, color }, panelIndex) => {
+    const counts = countsFor(key);
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    const yMax = sharedYAxis ? sharedMax : niceMax(counts.reduce((m, c) => Math.max(m, c), 0));
+    const panelTop = margin.top + panelIndex * panelHeight;
+    const plotTop = panelTop + PANEL_TITLE_HEIGHT;
+    const plotBottom = plotTop + PANEL_PLOT_HEIGHT;
+
+    // Panel title
+    svg += `<rect x="${margin.left}" y="${panelTop + 4}" width="10" height="10" fill="${color}"/>`;
+    svg += `<text x="${margin.left + 14}" y="${panelTop + 13}" font-size="12" font-weight="bold">${escapeXml(key)}<tspan font-weight="normal" fill="#6B7280"> (${total} ${total === 1 ? 'case' : 'cases'})</tspan></text>`;
+
+    // Grid lines and y-axis ticks
+    for (let i = 0; i <= 5; i++) {
+      const y = plotTop + (i / 5) * PANEL_PLOT_HEIGHT;
+      if (showGrid) {
+        svg += `<line x1="${margin.left}" y1="${y}" x2="${width - margin.right}" y2="${y}" stroke="#eee" stroke-width="1"/>`;
+      }
+      svg += `<text x="${margin.left - 8}" y="${y + 4}" text-anchor="end" font-size="10">${Math.round((yMax * (5 - i)) / 5)}</text>`;
+    }
+
+    // Bars
+    counts.forEach((count, index) => {
+      const x = margin.left + index * barWidth;
+      const barHeight = (count / yMax) * PANEL_PLOT_HEIGHT;
+      if (count > 0) {
+        svg += `<rect x="${x + 2}" y="${plotBottom - barHeight}" width="${barWidth - 4}" height="${barHeight}" fill="${color}"/>`;
+      }
+      if (showCounts && count > 0) {
+        svg += `<text x="${x + barWidth / 2}" y="${plotBottom - barHeight - 3}" text-anchor="middle" font-size="9">${count}</text>`;
+      }
+      // Aberration alarms are flagged per stratum
+      const binStart = data.bins[index].startDate.getTime();
+      if (aberrationAlarms?.get(binStart)?.includes(key)) {
+        const top = plotBottom - barHeight - (showCounts && count > 0 ? 13 : 3);
+        const cx = x + barWidth / 2;
+        svg += `<path d="M ${cx - 4} ${top} L ${cx + 4} ${top} L ${cx} ${top - 7} Z" fill="#DC2626"><title>${escapeXml(`Alert: ${key}`)}</title></path>`;
+      }
+    });
+
+    // Event markers in every panel; labels only on the top one
+    svg += `<g transform="translate(${margin.left}, ${plotTop})">${markerOverlayMarkup(data.bins, annotations, exposureWindow, barWidth, PANEL_PLOT_HEIGHT, panelIndex === 0)}</g>`;
+
+    svg += `<line x1="${margin.left}" y1="${plotBottom}" x2="${width - margin.right}" y2="${plotBottom}" stroke="#9CA3AF" stroke-width="1"/>`;
+  });
+
+  // Shared date axis under the bottom panel
+  const axisY = margin.top + panels.length * panelHeight - PANEL_GAP;
+  data.bins.forEach((bin, index) => {
+    const labelX = margin.left + index * barWidth + barWidth / 2;
+    const labelY = axisY + 12;
+    svg += `<text x="${labelX}" y="${labelY}" text-anchor="start" font-size="11" transform="rotate(45, ${labelX}, ${labelY})">${escapeXml(bin.label)}</text>`;
+  });
+
+  // Axis labels
+  const plotsMiddle = margin.top + (axisY - margin.top) / 2;
+  svg += `<text x="20" y="${plotsMiddle}" text-anchor="middle" font-size="14" transform="rotate(-90, 20, ${plotsMiddle})">${escapeXml(yLabel)}</text>`;
+  svg += `<text x="${width / 2}" y="${height - 10}" text-anchor="middle" font-size="14">${escapeXml(xLabel)}</text>`;
+
   svg += '</svg>';
   return svg;
 }
+
+const RT_PANEL_HEIGHT = 140;
+
+interface RtSeries {
+  /** Estimates keyed by bin start time */
+  estimates: Map<number, RtEstimate>;
+  /** Bin width in days (the serial interval is rescaled to bins) */
+  binDays: number;
+  error?: string;
+}
+
+// Cori et al. Rt over the epi curve bins, with the serial interval given in days
+function calculateRtSeries(bins: EpiCurveBin[], siMean: number, siSd: number, windowSize: number): RtSeries {
+  const binDays = Math.round((bins[0].endDate.getTime() - bins[0].startDate.getTime()) / 3600000) / 24;
+  const estimates = new Map<number, RtEstimate>();
+
+  if (!(siMean > 0) || !(siSd > 0)) {
+    return { estimates, binDays, error: 'Enter a serial interval mean and SD above zero.' };
+  }
+  if (!Number.isInteger(windowSize) || windowSize < 1) {
+    return { estimates, binDays, error: 'The window must be a whole number of bins.' };
+  }
+  const serialInterval = discretizeSerialInterval(siMean / binDays, siSd / binDays);
+  if (!serialInterval) {
+    return { estimates, binDays, error: `The serial interval mean must be longer than one bin (${binDays} days). Choose a shorter bin size.` };
+  }
+
+  estimateRt(bins.map(bin => bin.total), serialInterval, { windowSize }).forEach((estimate, i) => {
+    if (estimate) estimates.set(bins[i].startDate.getTime(), estimate);
+  });
+  return estimates.size > 0
+    ? { estimates, binDays }
+    : { estimates, binDays, error: 'Not enough cases: Rt needs at least 12 cumulative cases and earlier cases within the serial interval.' };
+}
+
+// Rt mean line and 95% credible ribbon aligned with the bars (origin at the first bin's left edge)
+function rtRibbonMarkup(
+  bins: EpiCurveBin[],
+  estimates: Map<number, RtEstimate>,
+  barWidth: number,
+  height: number,
+  ticksOutside: boolean
+): string {
+  const top = 20;
+  const bottom = height - 6;
+  const width = bins.length * barWidth;
+  const points = bins.map((bin, i) => ({ x: i * barWidth + barWidth / 2, estimate: estimates.get(bin.startDate.getTime()) }));
+
+  let maxMean = 0;
+  let maxUpper = 0;
+  points.forEach(({ estimate }) => {
+    if (!estimate) return;
+    maxMean = Math.max(maxMean, estimate.mean);
+    maxUpper = Math.max(maxUpper, estimate.upper);
+  });
+  // Wide early intervals would flatten the rest of the ribbon, so cap the axis unless the mean itself is high
+  const yMax = Math.max(2, Math.ceil(Math.max(maxMean * 1.25, Math.min(maxUpper, 6))));
+  const y = (value: number) => bottom - (Math.min(value, yMax) / yMax) * (bottom - top);
+
+  let markup = `<text x="${ticksOutside ? 0 : 4}" y="12" font-size="11" font-weight="600" fill="#5B21B6">Rt (95% CrI)</text>`;
+  const tickStep = yMax > 6 ? Math.ceil(yMax / 5) : 1;
+  for (let value = 0; value <= yMax; value += tickStep) {
+    markup += `<line x1="0" y1="${y(value)}" x2="${width}" y2="${y(value)}" stroke="#eee" stroke-width="1"/>`;
+    markup += ticksOutside
+      ? `<text x="-10" y="${y(value) + 4}" text-anchor="end" font-size="11" fill="#6B7280">${value}</text>`
+      : `<text x="4" y="${y(value) - 2}" font-size="10" fill="#9CA3AF">${value}</text>`;
+  }
+  markup += `<line x1="0" y1="${y(1)}" x2="${width}" y2="${y(1)}" stroke="#6B7280" stroke-width="1" stroke-dasharray="4 3"/>`;
+
+  // Contiguous runs of estimates become separate ribbon segments
+  const segments: Array<typeof points> = [];
+  let current: typeof points = [];
+  points.forEach(point => {
+    if (point.estimate) {
+      current.push(point);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current);
+
+  segments.forEach(segment => {
+    if (segment.length === 1) {
+      const { x, estimate } = segment[0];
+      markup += `<line x1="${x}" y1="${y(estimate!.lower)}" x2="${x}" y2="${y(estimate!.upper)}" stroke="#7C3AED" stroke-opacity="0.4" stroke-width="4"/>`;
+      markup += `<circle cx="${x}" cy="${y(estimate!.mean)}" r="2.5" fill="#7C3AED"/>`;
+      return;
+    }
+    const upper = segment.map(p => `${p.x},${y(p.estimate!.upper)}`);
+    const lower = segment.slice().reverse().map(p => `${p.x},${y(p.estimate!.lower)}`);
+    markup += `<polygon points="${[...upper, ...lower].join(' ')}" fill="#7C3AED" fill-opacity="0.2"/>`;
+    markup += `<polyline points="${segment.map(p => `${p.x},${y(p.estimate!.mean)}`).join(' ')}" fill="none" stroke="#7C3AED" stroke-width="2"/>`;
+  });
+
+  return markup;
+}
+
+interface BinAberrations {
+  /** Strata (or 'All cases') with an alarm, keyed by bin start time */
+  alarms: Map<number, string[]>;
+  alerts: AberrationAlert[];
+  /** Bin-by-series periods with enough history to be evaluated */
+  evaluated: number;
+}
+
+// Aberration detection on bin counts, per stratum when strata are given
+function calculateBinAberrations(data: EpiCurveData, strataKeys: string[] | null, options: AberrationOptions): BinAberrations {
+  const labels = data.bins.map(bin => bin.label);
+  const series = strataKeys && strataKeys.length > 0
+    ? strataKeys.map(key => ({ name: key, counts: data.bins.map(bin => bin.strata.get(key)?.length || 0) }))
+    : [{ name: 'All cases', counts: data.bins.map(bin => bin.total) }];
+
+  const alarms = new Map<number, string[]>();
+  const alerts: AberrationAlert[] = [];
+  let evaluated = 0;
+  series.forEach(({ name, counts }) => {
+    const results = detectAberrations(counts, options);
+    evaluated += results.filter(r => r !== null).length;
+    listAlerts(name, labels, results).forEach(alert => {
+      const time = data.bins[alert.periodIndex].startDate.getTime();
+      alarms.set(time, [...(alarms.get(time) ?? []), name]);
+      alerts.push(alert);
+    });
+  });
+  alerts.sort((a, b) => a.periodIndex - b.periodIndex);
+  return { alarms, alerts, evaluated };
+}
+
+// Hatching for the nowcast segment, matching the SVG export's pattern
+const NOWCAST_HATCH = 'repeating-linear-gradient(45deg, #64748B 0 2px, transparent 2px 6px)';
+
+interface BinNowcast {
+  /** Not-yet-reported estimates keyed by bin start time */
+  intervals: Map<number, NowcastInterval>;
+  nowcast: Nowcast | null;
+  data: ReportingData;
+  error?: string;
+}
+
+// Reporting-delay nowcast summed over the epi curve bins
+function calculateBinNowcast(
+  records: Dataset['records'],
+  onsetField: string,
+  reportField: string,
+  bins: EpiCurveBin[],
+  maxDelay: number | null
+): BinNowcast {
+  const data = buildReportingData(records, { onsetField, reportField });
+  const intervals = new Map<number, NowcastInterval>();
+  if (maxDelay !== null && !(maxDelay >= 1)) {
+    return { intervals, nowcast: null, data, error: 'The maximum delay must be at least 1 day.' };
+  }
+  const nowcast = estimateNowcast(data.observations, { maxDelay: maxDelay ?? undefined });
+  if (!nowcast) {
+    return { intervals, nowcast, data, error: `Not enough cases: the nowcast needs at least ${MIN_NOWCAST_CASES} cases with valid onset and report dates.` };
+  }
+  bins.forEach(bin => {
+    const interval = aggregateNowcast(nowcast, bin.startDate, bin.endDate);
+    if (interval) intervals.set(bin.startDate.getTime(), interval);
+  });
+  return { intervals, nowcast, data };
+}
+
+// Line colors for the trend overlays
+const TREND_COLORS = { average: '#111827', cumulative: '#7C3AED', growth: '#059669' };
+
+interface BinTrends {
+  /** Running total, keyed by bin start time */
+  cumulative: Map<number, number> | null;
+  /** Moving average, keyed by bin start time (missing where the window is incomplete) */
+  average: Map<number, number> | null;
+  averageLabel: string;
+  growth: BinGrowth | null;
+}
+
+interface BinGrowth {
+  estimate: GrowthEstimate | null;
+  /** Expected counts from the exponential fit, keyed by bin start time */
+  fitted: Map<number, number>;
+  windowLabel: string;
+  error?: string;
+}
+
+function calculateBinTrends(
+  bins: EpiCurveBin[],
+  showCumulative: boolean,
+  average: { window: number; alignment: MovingAverageAlignment } | null,
+  growthWindow: { start: number | null; end: number | null } | null
+): BinTrends {
+  const totals = bins.map(bin => bin.total);
+  const keyed = (values: Array<number | null>) => {
+    const map = new Map<number, number>();
+    values.forEach((value, i) => {
+      if (value !== null) map.set(bins[i].startDate.getTime(), value);
+    });
+    return map;
+  };
+
+  let growth: BinGrowth | null = null;
+  if (growthWindow) {
+    // Default window: first bin through the (first) peak, the growth phase of a point-source or propagated outbreak
+    const peakIndex = totals.indexOf(totals.reduce((max, v) => Math.max(max, v), 0));
+    const findBin = (time: number | null) => (time === null ? -1 : bins.findIndex(bin => bin.startDate.getTime() === time));
+    const startIndex = findBin(growthWindow.start) >= 0 ? findBin(growthWindow.start) : 0;
+    const defaultEnd = peakIndex - startIndex + 1 >= MIN_GROWTH_BINS ? peakIndex : bins.length - 1;
+    const endIndex = findBin(growthWindow.end) >= 0 ? findBin(growthWindow.end) : defaultEnd;
+    const binDays = Math.round((bins[0].endDate.getTime() - bins[0].startDate.getTime()) / 3600000) / 24;
+    const estimate = estimateGrowthRate(totals, binDays, { start: startIndex, end: endIndex });
+    const fitted = new Map<number, number>();
+    estimate?.fitted.forEach((value, t) => fitted.set(bins[estimate.startIndex + t].startDate.getTime(), value));
+    growth = {
+      estimate,
+      fitted,
+      windowLabel: endIndex >= startIndex ? `${bins[startIndex].label} – ${bins[endIndex].label}` : '',
+      error: estimate
+        ? undefined
+        : endIndex - startIndex + 1 < MIN_GROWTH_BINS
+          ? `Choose a window of at least ${MIN_GROWTH_BINS} bins.`
+          : 'There are no cases in the chosen window.',
+    };
+  }
+
+  return {
+    cumulative: showCumulative ? keyed(cumulativeCounts(totals)) : null,
+    average: average ? keyed(movingAverage(totals, average.window, average.alignment)) : null,
+    averageLabel: average ? `${average.window}-bin ${MOVING_AVERAGE_ALIGNMENT_LABELS[average.alignment].toLowerCase()} moving average` : '',
+    growth,
+  };
+}
+
+function formatDays(days: number): string {
+  return isFinite(days) ? days.toFixed(1) : '∞';
+}
+
+/** "Doubling time 3.2 days (95% CI 2.5–4.4)", or the halving time for a declining window */
+function growthSummary(estimate: GrowthEstimate): string {
+  const kind = estimate.direction === 'growth' ? 'Doubling' : 'Halving';
+  return `${kind} time ${formatDays(estimate.doublingTime)} days (95% CI ${formatDays(estimate.doublingTimeCI[0])}–${formatDays(estimate.doublingTimeCI[1])})`;
+}
+
+/**
+ * Moving average, growth fit and cumulative lines for a plot area starting at (0, 0).
+ * Counts use the chart's y scale; the cumulative line uses its own (right-hand) scale.
+ */
+function trendOverlayMarkup(
+  bins: EpiCurveBin[],
+  trends: BinTrends,
+  yScale: CountScale,
+  cumulativeScale: CountScale | null,
+  barWidth: number,
+  plotHeight: number
+): string {
+  const line = (values: Map<number, number>, scale: CountScale, color: string, dash: string) => {
+    const points: string[] = [];
+    bins.forEach((bin, i) => {
+      const value = values.get(bin.startDate.getTime());
+      if (value === undefined) return;
+      points.push(`${i * barWidth + barWidth / 2},${plotHeight - scaleFraction(value, scale) * plotHeight}`);
+    });
+    return points.length > 1
+      ? `<polyline points="${points.join(' ')}" fill="none" stroke="${color}" stroke-width="2"${dash ? ` stroke-dasharray="${dash}"` : ''}/>`
+      : '';
+  };
+
+  let svg = '';
+  if (trends.average) svg += line(trends.average, yScale, TREND_COLORS.average, '');
+  if (trends.growth && trends.growth.fitted.size > 0) svg += line(trends.growth.fitted, yScale, TREND_COLORS.growth, '6 3');
+  if (trends.cumulative && cumulativeScale) svg += line(trends.cumulative, cumulativeScale, TREND_COLORS.cumulative, '2 2');
+  return svg;
+}
+
+/** Legend entries for the active trend overlays */
+function trendLegendItems(trends: BinTrends): Array<{ label: string; color: string; dash: string }> {
+  const items: Array<{ label: string; color: string; dash: string }> = [];
+  if (trends.average) items.push({ label: trends.averageLabel, color: TREND_COLORS.average, dash: '' });
+  if (trends.growth?.estimate) {
+    items.push({ label: `Exponential fit, ${trends.growth.windowLabel}: ${growthSummary(trends.growth.estimate)}`, color: TREND_COLORS.growth, dash: '6 3' });
+  }
+  if (trends.cumulative) items.push({ label: 'Cumulative cases (right axis)', color: TREND_COLORS.cumulative, dash: '2 2' });
+  return items;
+}
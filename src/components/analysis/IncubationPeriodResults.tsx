@@ -0,0 +1,172 @@
+/**
+ * IncubationPeriodResults Component
+ *
+ * Lognormal, gamma and Weibull incubation period fits with bootstrap CIs for
+ * the median, 5th and 95th percentiles. The selected fit drives the epi
+ * curve's exposure-window overlay. Used by the Epi Curve.
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { IncubationDistribution, IncubationFit, IncubationPercentile } from '../../utils/incubationPeriod';
+import { INCUBATION_DISTRIBUTION_LABELS } from '../../utils/incubationPeriod';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob, exportExcel } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface IncubationPeriodResultsProps {
+  fits: IncubationFit[];
+  observations: number;
+  excluded: { missingDates: number; inconsistentDates: number };
+  bootstrapSamples: number;
+  selectedDistribution: IncubationDistribution | null;
+  onSelect: (fit: IncubationFit) => void;
+  filename: string;
+}
+
+const exportColumns: DataColumn[] = [
+  { key: 'distribution', label: 'Distribution', type: 'text' },
+  { key: 'parameter1', label: 'Parameter 1', type: 'text' },
+  { key: 'parameter2', label: 'Parameter 2', type: 'text' },
+  { key: 'mean', label: 'Mean (days)', type: 'number' },
+  { key: 'median', label: 'Median (days)', type: 'number' },
+  { key: 'medianLower', label: 'Median 95% CI lower', type: 'number' },
+  { key: 'medianUpper', label: 'Median 95% CI upper', type: 'number' },
+  { key: 'p5', label: '5th percentile (days)', type: 'number' },
+  { key: 'p5Lower', label: '5th percentile 95% CI lower', type: 'number' },
+  { key: 'p5Upper', label: '5th percentile 95% CI upper', type: 'number' },
+  { key: 'p95', label: '95th percentile (days)', type: 'number' },
+  { key: 'p95Lower', label: '95th percentile 95% CI lower', type: 'number' },
+  { key: 'p95Upper', label: '95th percentile 95% CI upper', type: 'number' },
+  { key: 'logLikelihood', label: 'Log-likelihood', type: 'number' },
+  { key: 'aic', label: 'AIC', type: 'number' },
+];
+
+const formatPercentile = (value: IncubationPercentile): string => {
+  const estimate = formatSigFigs(value.estimate, 3);
+  return value.ci ? `${estimate} (${formatSigFigs(value.ci[0], 3)} - ${formatSigFigs(value.ci[1], 3)})` : estimate;
+};
+
+const formatParameters = (fit: IncubationFit): string[] =>
+  Object.entries(fit.parameters).map(([name, value]) => `${name} = ${formatSigFigs(value, 3)}`);
+
+export function IncubationPeriodResults({
+  fits,
+  observations,
+  excluded,
+  bootstrapSamples,
+  selectedDistribution,
+  onSelect,
+  filename,
+}: IncubationPeriodResultsProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const bestAic = Math.min(...fits.map(fit => fit.aic));
+
+  const exportRows = () => fits.map((fit, i) => {
+    const [parameter1, parameter2] = formatParameters(fit);
+    return {
+      id: String(i + 1),
+      distribution: INCUBATION_DISTRIBUTION_LABELS[fit.distribution],
+      parameter1,
+      parameter2,
+      mean: fit.mean,
+      median: fit.median.estimate,
+      medianLower: fit.median.ci?.[0] ?? null,
+      medianUpper: fit.median.ci?.[1] ?? null,
+      p5: fit.p5.estimate,
+      p5Lower: fit.p5.ci?.[0] ?? null,
+      p5Upper: fit.p5.ci?.[1] ?? null,
+      p95: fit.p95.estimate,
+      p95Lower: fit.p95.ci?.[0] ?? null,
+      p95Upper: fit.p95.ci?.[1] ?? null,
+      logLikelihood: fit.logLikelihood,
+      aic: fit.aic,
+    };
+  });
+
+  const subtitle = `${observations} cases with exposure and onset dates; bootstrap CIs from ${bootstrapSamples} resamples`;
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = exportRows();
+    const csv = exportToCSV(exportColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  const handleExportExcel = () => {
+    exportExcel({
+      title: 'Incubation period',
+      subtitle,
+      columns: exportColumns.map(c => ({ header: c.label, key: c.key })),
+      rows: exportRows(),
+    }, `${filename}.xlsx`);
+  };
+
+  return (
+    <div className="mt-4 bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h5 className="text-sm font-semibold text-gray-900">Incubation period (days)</h5>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass}>Overlay</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Distribution</th>
+              <th className={headerClass}>Parameters</th>
+              <th className={headerClass}>Median (95% CI)</th>
+              <th className={headerClass}>5th Pct (95% CI)</th>
+              <th className={headerClass}>95th Pct (95% CI)</th>
+              <th className={headerClass}>AIC</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {fits.map(fit => (
+              <tr key={fit.distribution} className={fit.aic === bestAic ? 'bg-green-50' : ''}>
+                <td className={cellClass}>
+                  <input
+                    type="radio"
+                    name="incubation-overlay"
+                    checked={selectedDistribution === fit.distribution}
+                    onChange={() => onSelect(fit)}
+                    aria-label={`Use the ${INCUBATION_DISTRIBUTION_LABELS[fit.distribution]} fit for the exposure window`}
+                  />
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {INCUBATION_DISTRIBUTION_LABELS[fit.distribution]}
+                  {fit.aic === bestAic && <span className="ml-1 text-xs text-green-700">(best AIC)</span>}
+                </td>
+                <td className="px-3 py-2 text-xs text-center text-gray-600">
+                  {formatParameters(fit).map(text => <div key={text}>{text}</div>)}
+                </td>
+                <td className={cellClass}>{formatPercentile(fit.median)}</td>
+                <td className={cellClass}>{formatPercentile(fit.p5)}</td>
+                <td className={cellClass}>{formatPercentile(fit.p95)}</td>
+                <td className={cellClass}>{fit.aic.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div>{subtitle}.</div>
+        <div className="text-gray-500">
+          Maximum likelihood with interval censoring: a date without a time covers the whole day, and an exposure
+          range covers every time in it (Reich et al., 2009). The selected fit's 5th–95th percentiles set the exposure window.
+        </div>
+        {(excluded.missingDates > 0 || excluded.inconsistentDates > 0) && (
+          <div className="text-amber-700">
+            Excluded: {excluded.missingDates} with a missing or invalid date, {excluded.inconsistentDates} with onset before exposure or an exposure end before its start.
+          </div>
+        )}
+        <ResultsActions
+          actions={[
+            { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary' },
+            { label: 'Export Excel', onClick: handleExportExcel, icon: ExportIcons.download, variant: 'secondary' },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
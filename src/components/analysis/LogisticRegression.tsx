@@ -0,0 +1,324 @@
+/**
+ * LogisticRegression Component
+ *
+ * Unconditional logistic regression for a binary outcome with several
+ * categorical or numeric predictors. Uses the same outcome/case-value
+ * definition as TwoByTwoAnalysis and reports adjusted odds ratios.
+ *
+ * Settings are persisted per dataset under `epikit_logistic_<datasetId>` so
+ * the Visualize Forest Plot can refit the model and show the adjusted series.
+ */
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import type { Dataset } from '../../types/analysis';
+import { fitLogisticModel, LOGISTIC_SETTINGS_EVENT } from '../../utils/regression';
+import type { LogisticModelSettings } from '../../utils/regression';
+import { downloadBlob } from '../../utils/chartExport';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { TabHeader, ResultsActions, ExportIcons, StatTooltip, statDefinitions } from '../shared';
+import { PredictorSelector } from './PredictorSelector';
+import type { SelectedPredictor } from './PredictorSelector';
+
+interface LogisticRegressionProps {
+  dataset: Dataset;
+}
+
+
+/** Read saved settings, falling back to the outcome and case values chosen in 2×2 Tables */
+function loadSettings(datasetId: string): LogisticModelSettings {
+  const read = (key: string): Record<string, unknown> => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  };
+  const saved = read(`epikit_logistic_${datasetId}`);
+  const twoByTwo = read(`epikit_twobytwo_${datasetId}`);
+  const outcomeVar = (saved.outcomeVar as string) || (twoByTwo.outcomeVar as string) || '';
+  const caseValues = Array.isArray(saved.caseValues)
+    ? saved.caseValues as string[]
+    : Array.isArray(twoByTwo.caseValues) && outcomeVar === twoByTwo.outcomeVar
+      ? twoByTwo.caseValues as string[]
+      : [];
+  return {
+    outcomeVar,
+    caseValues,
+    predictors: Array.isArray(saved.predictors) ? saved.predictors as SelectedPredictor[] : [],
+  };
+}
+
+export function LogisticRegression({ dataset }: LogisticRegressionProps) {
+  const [initial] = useState<LogisticModelSettings>(() => loadSettings(dataset.id));
+  const [outcomeVar, setOutcomeVar] = useState<string>(initial.outcomeVar);
+  const [caseValues, setCaseValues] = useState<Set<string>>(() => new Set(initial.caseValues));
+  const [predictors, setPredictors] = useState<SelectedPredictor[]>(initial.predictors);
+
+  // Save settings to localStorage when they change
+  useEffect(() => {
+    try {
+      const toSave: LogisticModelSettings = {
+        outcomeVar,
+        caseValues: Array.from(caseValues),
+        predictors,
+      };
+      localStorage.setItem(`epikit_logistic_${dataset.id}`, JSON.stringify(toSave));
+      window.dispatchEvent(new Event(LOGISTIC_SETTINGS_EVENT));
+    } catch (e) {
+      console.error('Failed to save logistic regression settings:', e);
+    }
+  }, [dataset.id, outcomeVar, caseValues, predictors]);
+
+  // Columns suitable for the outcome (same rules as the 2×2 case definition)
+  const caseDefinitionColumns = useMemo(() => {
+    return dataset.columns.filter(col => {
+      if (col.type === 'number' && !col.key.toLowerCase().includes('age')) return false;
+      if (col.type === 'date') return false;
+      if (col.key === 'id' || col.key === 'case_id' || col.key === 'participant_id') return false;
+      if (col.key.includes('latitude') || col.key.includes('longitude')) return false;
+      const uniqueValues = new Set(dataset.records.map(r => r[col.key])).size;
+      return uniqueValues >= 2 && uniqueValues <= 20;
+    });
+  }, [dataset]);
+
+  const outcomeValues = useMemo(() => {
+    if (!outcomeVar) return [];
+    const values = new Set(dataset.records.map(r => String(r[outcomeVar] ?? '')));
+    return Array.from(values).filter(v => v !== '').sort();
+  }, [dataset.records, outcomeVar]);
+
+  const result = useMemo(() => {
+    return fitLogisticModel(dataset.records, dataset.columns, {
+      outcomeVar,
+      caseValues: Array.from(caseValues),
+      predictors,
+    });
+  }, [dataset.records, dataset.columns, outcomeVar, caseValues, predictors]);
+
+  const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : 'Undefined');
+  const formatCI = (ci: [number, number]): string => {
+    if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Undefined)';
+    return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+  };
+  const formatPValue = (p: number): string => {
+    if (!isFinite(p)) return '—';
+    return p < 0.001 ? '<0.001' : p.toFixed(3);
+  };
+
+  const exportResultsCSV = useCallback(() => {
+    if (!result) return;
+    const quote = (v: string) => `"${v.replace(/"/g, '""')}"`;
+    const lines = [
+      ['Term', 'Level', 'Reference', 'Adjusted OR', 'Lower 95% CI', 'Upper 95% CI', 'Wald p', 'LR chi-square', 'LR df', 'LR p'].join(','),
+    ];
+    result.coefficients.forEach(c => {
+      const test = result.termTests.find(t => t.termKey === c.termKey);
+      lines.push([
+        quote(c.termLabel),
+        quote(c.level ?? '(per unit)'),
+        quote(c.referenceLevel ?? ''),
+        c.oddsRatio.toFixed(4),
+        c.oddsRatioCI[0].toFixed(4),
+        c.oddsRatioCI[1].toFixed(4),
+        c.pValue.toFixed(4),
+        test ? test.chiSquare.toFixed(4) : '',
+        test ? String(test.degreesOfFreedom) : '',
+        test ? test.pValue.toFixed(4) : '',
+      ].join(','));
+    });
+    lines.push('');
+    lines.push(`${quote('Records used')},${result.n}`);
+    lines.push(`${quote('Cases')},${result.events}`);
+    lines.push(`${quote('Records excluded (missing values)')},${result.excludedCount}`);
+    lines.push(`${quote('Log-likelihood')},${result.logLikelihood.toFixed(4)}`);
+    result.warnings.forEach(w => lines.push(`${quote('Warning')},${quote(w)}`));
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    downloadBlob(blob, `${dataset.name}_logistic_regression.csv`);
+  }, [result, dataset.name]);
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Logistic Regression"
+        description="Estimate adjusted odds ratios for several exposures at once, controlling for each other."
+      />
+
+      {/* Outcome Variable */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Outcome Variable</h4>
+        <p className="text-xs text-gray-600 mb-3">
+          Choose the outcome and the values that count as a case. The definition starts from your 2×2 Tables settings.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Variable</label>
+            <select
+              value={outcomeVar}
+              onChange={(e) => {
+                setOutcomeVar(e.target.value);
+                setCaseValues(new Set());
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+            >
+              <option value="">Select variable...</option>
+              {caseDefinitionColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          {outcomeVar && outcomeValues.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Values that count as a case</label>
+              <div className="flex flex-wrap gap-2">
+                {outcomeValues.map(value => (
+                  <label
+                    key={value}
+                    className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm cursor-pointer transition-colors ${
+                      caseValues.has(value)
+                        ? 'bg-gray-700 text-white'
+                        : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={caseValues.has(value)}
+                      onChange={(e) => {
+                        const next = new Set(caseValues);
+                        if (e.target.checked) next.add(value);
+                        else next.delete(value);
+                        setCaseValues(next);
+                      }}
+                      className="sr-only"
+                    />
+                    {value}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Predictors */}
+      {outcomeVar && caseValues.size > 0 && (
+        <PredictorSelector
+          columns={dataset.columns}
+          records={dataset.records}
+          excludeKeys={[outcomeVar]}
+          predictors={predictors}
+          onChange={setPredictors}
+          description={<>Select the exposures and confounders to include. Categorical predictors are compared against a <strong>reference level</strong>; numeric predictors give the odds ratio per one-unit increase. Records with a missing value in any selected variable are excluded.</>}
+        />
+      )}
+
+      {/* Results */}
+      {result && (
+        <div className="space-y-4">
+          {result.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+              {result.warnings.map(w => <p key={w}>{w}</p>)}
+            </div>
+          )}
+
+          {result.coefficients.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Predictor</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comparison</th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>Adjusted OR</span>
+                          <StatTooltip {...statDefinitions.oddsRatio} />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>95% CI (Wald)</span>
+                          <StatTooltip {...statDefinitions.confidenceInterval} />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>p (Wald)</span>
+                          <StatTooltip {...statDefinitions.pValue} />
+                        </div>
+                      </th>
+                      <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <div className="flex items-center justify-center gap-1">
+                          <span>p (LR, drop term)</span>
+                          <StatTooltip
+                            term="Likelihood-Ratio Test"
+                            definition="Compares the full model with a model that leaves this predictor out. A small p-value means the predictor as a whole (all of its levels) improves the model."
+                          />
+                        </div>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.coefficients.map((c, index) => {
+                      const test = result.termTests.find(t => t.termKey === c.termKey);
+                      const firstOfTerm = result.coefficients.findIndex(x => x.termKey === c.termKey) === index;
+                      return (
+                        <tr key={`${c.termKey}-${c.level ?? 'numeric'}`}>
+                          <td className="px-3 py-2 text-sm font-medium text-gray-900">{firstOfTerm ? c.termLabel : ''}</td>
+                          <td className="px-3 py-2 text-sm text-gray-700">
+                            {c.level !== null ? `${c.level} vs. ${c.referenceLevel}` : 'Per 1-unit increase'}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-center font-semibold text-gray-900">{formatMeasure(c.oddsRatio)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-500">{formatCI(c.oddsRatioCI)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-700">{formatPValue(c.pValue)}</td>
+                          <td className="px-3 py-2 text-sm text-center text-gray-700">
+                            {firstOfTerm && test ? `${formatPValue(test.pValue)} (df=${test.degreesOfFreedom})` : ''}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500 space-y-0.5">
+                <p>
+                  {result.n} records used ({result.events} cases)
+                  {result.excludedCount > 0 && ` · ${result.excludedCount} excluded for missing values`}
+                  {' · '}Log-likelihood {isFinite(result.logLikelihood) ? result.logLikelihood.toFixed(2) : '—'}
+                  {' · '}{result.converged ? `Converged in ${result.iterations} iterations` : 'Did not converge'}
+                </p>
+                <p>
+                  Model likelihood-ratio χ² = {isFinite(result.modelChiSquare) ? result.modelChiSquare.toFixed(2) : '—'}, df = {result.modelDegreesOfFreedom}, p = {formatPValue(result.modelPValue)}.
+                  Each odds ratio is adjusted for all other predictors in the model. Adjusted ORs also appear in Visualize → Forest Plot.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <ResultsActions
+            actions={[
+              {
+                label: 'Export Results CSV',
+                onClick: exportResultsCSV,
+                icon: ExportIcons.csv,
+                disabled: result.coefficients.length === 0,
+              },
+            ]}
+          />
+        </div>
+      )}
+
+      {(!outcomeVar || caseValues.size === 0) && (
+        <div className="text-center py-8 text-gray-400">
+          Define the outcome variable above to begin analysis
+        </div>
+      )}
+
+      {outcomeVar && caseValues.size > 0 && predictors.length === 0 && (
+        <div className="text-center py-8 text-gray-400">
+          Select one or more predictors to fit the model
+        </div>
+      )}
+    </div>
+  );
+}
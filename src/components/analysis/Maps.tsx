@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { Dataset } from '../../types/analysis';
+import type { Dataset, VariableConfig } from '../../types/analysis';
 import { AreaMap } from './AreaMap';
 import { SketchMap } from './SketchMap';
 import { SpotMap } from './SpotMap';
@@ -7,11 +7,12 @@ import { SpotMap } from './SpotMap';
 interface MapsProps {
   dataset: Dataset;
   datasets: Dataset[];
+  onCreateVariable?: (config: VariableConfig, values: unknown[]) => void;
 }
 
 type MapMode = 'spot' | 'area' | 'sketch';
 
-export function Maps({ dataset, datasets }: MapsProps) {
+export function Maps({ dataset, datasets, onCreateVariable }: MapsProps) {
   const [mode, setMode] = useState<MapMode>('spot');
 
   return (
@@ -53,7 +54,7 @@ export function Maps({ dataset, datasets }: MapsProps) {
 
       <div className="flex-1 overflow-hidden">
         {mode === 'spot' ? (
-          <SpotMap key={dataset.id} dataset={dataset} />
+          <SpotMap key={dataset.id} dataset={dataset} datasets={datasets} onCreateVariable={onCreateVariable} />
         ) : mode === 'area' ? (
           <AreaMap key={dataset.id} dataset={dataset} datasets={datasets} />
         ) : (
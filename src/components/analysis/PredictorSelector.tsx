@@ -0,0 +1,140 @@
+/**
+ * PredictorSelector Component
+ *
+ * Chip picker for regression predictors shared by the Model tab. Each selected
+ * predictor can be entered as categorical (with a reference level) or, for
+ * number columns, as numeric (per-unit effect).
+ */
+import { useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { PredictorType } from '../../utils/regression';
+
+export interface SelectedPredictor {
+  key: string;
+  type: PredictorType;
+  referenceLevel?: string;
+}
+
+interface PredictorSelectorProps {
+  columns: DataColumn[];
+  records: CaseRecord[];
+  /** Columns that cannot be predictors (outcome, count, denominator...) */
+  excludeKeys: string[];
+  predictors: SelectedPredictor[];
+  onChange: (predictors: SelectedPredictor[]) => void;
+  description: ReactNode;
+}
+
+export function PredictorSelector({ columns, records, excludeKeys, predictors, onChange, description }: PredictorSelectorProps) {
+  // Distinct non-missing values of a column, in valueOrder when defined
+  const getValues = useCallback((key: string): string[] => {
+    const values = new Set<string>();
+    records.forEach(r => {
+      const v = r[key];
+      if (v !== null && v !== undefined && String(v).trim() !== '') values.add(String(v).trim());
+    });
+    const order = columns.find(c => c.key === key)?.valueOrder;
+    const ordered = order ? order.filter(v => values.has(v)) : [];
+    return [...ordered, ...Array.from(values).filter(v => !ordered.includes(v)).sort()];
+  }, [records, columns]);
+
+  // Predictor candidates: categorical columns with 2-20 levels, or numeric columns
+  const predictorColumns = useMemo(() => {
+    return columns.filter(col => {
+      if (col.type === 'date') return false;
+      if (col.key === 'id' || col.key === 'case_id' || col.key === 'participant_id') return false;
+      if (col.key.includes('latitude') || col.key.includes('longitude')) return false;
+      if (excludeKeys.includes(col.key)) return false;
+      if (col.type === 'number') return true;
+      const uniqueValues = getValues(col.key).length;
+      return uniqueValues >= 2 && uniqueValues <= 20;
+    });
+  }, [columns, excludeKeys, getValues]);
+
+  // Pick a sensible reference level ("No", "None", ... or the most common value)
+  const detectReferenceLevel = useCallback((key: string): string => {
+    const values = getValues(key);
+    const refKeywords = ['no', 'none', 'unexposed', 'false', '0', 'negative', 'not exposed'];
+    const found = values.find(v => refKeywords.includes(v.toLowerCase()));
+    if (found) return found;
+    const counts = new Map<string, number>();
+    records.forEach(r => {
+      const v = String(r[key] ?? '').trim();
+      if (v) counts.set(v, (counts.get(v) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? values[0] ?? '';
+  }, [getValues, records]);
+
+  const togglePredictor = (key: string) => {
+    if (predictors.some(p => p.key === key)) {
+      onChange(predictors.filter(p => p.key !== key));
+      return;
+    }
+    const column = columns.find(c => c.key === key);
+    const type: PredictorType = column?.type === 'number' && getValues(key).length > 2 ? 'numeric' : 'categorical';
+    onChange([...predictors, { key, type, referenceLevel: type === 'categorical' ? detectReferenceLevel(key) : undefined }]);
+  };
+
+  const updatePredictor = (key: string, updates: Partial<SelectedPredictor>) => {
+    onChange(predictors.map(p => (p.key === key ? { ...p, ...updates } : p)));
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3">Predictors</h4>
+      <p className="text-xs text-gray-600 mb-3">{description}</p>
+      <div className="flex flex-wrap gap-2">
+        {predictorColumns.map(col => {
+          const predictor = predictors.find(p => p.key === col.key);
+          const isSelected = !!predictor;
+          const levels = isSelected && predictor.type === 'categorical' ? getValues(col.key) : [];
+
+          return (
+            <div key={col.key}>
+              <button
+                onClick={() => togglePredictor(col.key)}
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  isSelected ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {col.label}
+              </button>
+              {isSelected && (
+                <div className="mt-1 flex flex-col gap-1">
+                  {col.type === 'number' && (
+                    <select
+                      value={predictor.type}
+                      onChange={(e) => {
+                        const type = e.target.value as PredictorType;
+                        updatePredictor(col.key, {
+                          type,
+                          referenceLevel: type === 'categorical' ? detectReferenceLevel(col.key) : undefined,
+                        });
+                      }}
+                      className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-gray-500"
+                    >
+                      <option value="numeric">Numeric (per unit)</option>
+                      <option value="categorical">Categorical</option>
+                    </select>
+                  )}
+                  {predictor.type === 'categorical' && (
+                    <select
+                      value={predictor.referenceLevel || levels[0] || ''}
+                      onChange={(e) => updatePredictor(col.key, { referenceLevel: e.target.value })}
+                      className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-gray-500"
+                    >
+                      {levels.map(v => (
+                        <option key={v} value={v}>{v} = Reference</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
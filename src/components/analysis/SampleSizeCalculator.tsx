@@ -0,0 +1,409 @@
+/**
+ * SampleSizeCalculator Component
+ *
+ * Study planning before data collection: sample size, power and the smallest
+ * detectable effect for unmatched cohort and case-control studies, and sample
+ * size for a single-proportion survey with a design effect and finite
+ * population correction.
+ *
+ * Settings are not tied to a dataset and persist under `epikit_samplesize`.
+ */
+import { useState, useMemo, useEffect } from 'react';
+import {
+  detectableProportion,
+  oddsRatioFromProportions,
+  proportionFromOddsRatio,
+  SAMPLE_SIZE_METHOD_LABELS,
+  surveySampleSize,
+  twoGroupPower,
+  twoGroupSampleSize,
+} from '../../utils/sampleSize';
+import type { TwoGroupDesign } from '../../utils/sampleSize';
+import { exportExcel } from '../../utils/chartExport';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { TabHeader, ResultsActions, ExportIcons } from '../shared';
+
+type StudyDesign = 'cohort' | 'caseControl' | 'survey';
+type Calculation = 'sampleSize' | 'power' | 'detectable';
+
+interface SampleSizeSettings {
+  design: StudyDesign;
+  calculation: Calculation;
+  confidence: number;
+  power: number;
+  ratio: number;
+  p0: number;
+  effect: number;
+  n1: number;
+  surveyProportion: number;
+  surveyPrecision: number;
+  designEffect: number;
+  populationSize: number;
+}
+
+const persistenceKey = 'epikit_samplesize';
+
+const DEFAULT_SETTINGS: SampleSizeSettings = {
+  design: 'cohort',
+  calculation: 'sampleSize',
+  confidence: 95,
+  power: 80,
+  ratio: 1,
+  p0: 10,
+  effect: 2,
+  n1: 100,
+  surveyProportion: 50,
+  surveyPrecision: 5,
+  designEffect: 1,
+  populationSize: 0,
+};
+
+const confidenceLevels = [90, 95, 99];
+const labelClass = 'block text-sm font-medium text-gray-700 mb-2';
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500';
+
+const designText = {
+  cohort: {
+    group1: 'Exposed',
+    group0: 'Unexposed',
+    ratio: 'Unexposed per exposed',
+    p0: 'Outcome in unexposed (%)',
+    effect: 'Risk ratio to detect',
+    effectShort: 'RR',
+    n1: 'Exposed subjects available',
+  },
+  caseControl: {
+    group1: 'Cases',
+    group0: 'Controls',
+    ratio: 'Controls per case',
+    p0: 'Exposure among controls (%)',
+    effect: 'Odds ratio to detect',
+    effectShort: 'OR',
+    n1: 'Cases available',
+  },
+} as const;
+
+/** Group proportions and the requested result for the current settings */
+function calculate(settings: SampleSizeSettings) {
+  const { design, calculation } = settings;
+  const alpha = 1 - settings.confidence / 100;
+  const power = settings.power / 100;
+  const p0 = settings.p0 / 100;
+  const p1 = design === 'cohort' ? p0 * settings.effect : proportionFromOddsRatio(p0, settings.effect);
+  const twoGroupDesign: TwoGroupDesign = { alpha, ratio: settings.ratio, p0, p1 };
+
+  // Convert a proportion in group 1 back to the design's effect measure
+  const detectable = (direction: 'increase' | 'decrease') => {
+    const proportion = detectableProportion({ alpha, ratio: settings.ratio, p0 }, power, settings.n1, direction);
+    if (proportion === null) return null;
+    return { proportion, effect: design === 'cohort' ? proportion / p0 : oddsRatioFromProportions(proportion, p0) };
+  };
+
+  if (design === 'survey') {
+    return {
+      p0,
+      p1,
+      results: {
+        survey: surveySampleSize({
+          proportion: settings.surveyProportion / 100,
+          precision: settings.surveyPrecision / 100,
+          confidence: settings.confidence / 100,
+          designEffect: settings.designEffect,
+          populationSize: settings.populationSize || undefined,
+        }),
+      },
+    };
+  }
+  if (calculation === 'sampleSize') return { p0, p1, results: { sizes: twoGroupSampleSize(twoGroupDesign, power) } };
+  if (calculation === 'power') return { p0, p1, results: { power: twoGroupPower(twoGroupDesign, settings.n1) } };
+  return { p0, p1, results: { detectable: { above: detectable('increase'), below: detectable('decrease') } } };
+}
+
+export function SampleSizeCalculator() {
+  const [settings, setSettings] = useState<SampleSizeSettings>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify(settings));
+    } catch (e) {
+      console.error('Failed to save sample size settings:', e);
+    }
+  }, [settings]);
+
+  const update = (changes: Partial<SampleSizeSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+  const numberInput = (key: keyof SampleSizeSettings, label: string, options: { min?: number; max?: number; step?: number } = {}) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        value={Number.isFinite(settings[key] as number) ? settings[key] as number : ''}
+        min={options.min}
+        max={options.max}
+        step={options.step ?? 'any'}
+        onChange={(e) => update({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const { design, calculation } = settings;
+  const text = design === 'survey' ? null : designText[design];
+  const { p0, p1, results } = useMemo(() => calculate(settings), [settings]);
+
+  const invalidTwoGroup = design !== 'survey' && calculation !== 'detectable' && !(p1 > 0 && p1 < 1 && p1 !== p0);
+  const formatPercent = (p: number) => `${formatSigFigs(p * 100, 3)}%`;
+
+  // Inputs and results as label/value rows, shared by the Excel export
+  const summaryRows = (): Array<{ item: string; value: string | number }> => {
+    const rows: Array<{ item: string; value: string | number }> = [
+      { item: 'Study design', value: design === 'cohort' ? 'Cohort / cross-sectional' : design === 'caseControl' ? 'Unmatched case-control' : 'Single-proportion survey' },
+      { item: 'Confidence level (%)', value: settings.confidence },
+    ];
+    if (design === 'survey') {
+      rows.push(
+        { item: 'Anticipated proportion (%)', value: settings.surveyProportion },
+        { item: 'Precision (± percentage points)', value: settings.surveyPrecision },
+        { item: 'Design effect', value: settings.designEffect },
+        { item: 'Population size', value: settings.populationSize || 'Not specified (no correction)' },
+      );
+      if (results.survey) {
+        rows.push(
+          { item: 'Sample size (simple random sampling)', value: results.survey.simpleRandom },
+          { item: 'Sample size with design effect', value: results.survey.withDesignEffect },
+          { item: 'Required sample size', value: results.survey.required },
+        );
+      }
+      return rows;
+    }
+    if (!text) return rows;
+    rows.push({ item: text.ratio, value: settings.ratio }, { item: text.p0, value: settings.p0 });
+    if (calculation !== 'detectable') rows.push({ item: text.effect, value: settings.effect });
+    if (calculation !== 'power') rows.push({ item: 'Power (%)', value: settings.power });
+    if (calculation !== 'sampleSize') rows.push({ item: text.n1, value: settings.n1 });
+    results.sizes?.forEach(size => {
+      const method = SAMPLE_SIZE_METHOD_LABELS[size.method];
+      rows.push(
+        { item: `${method}: ${text.group1}`, value: size.n1 },
+        { item: `${method}: ${text.group0}`, value: size.n0 },
+        { item: `${method}: Total`, value: size.total },
+      );
+    });
+    if (results.power) {
+      rows.push(
+        { item: 'Power, normal approximation (%)', value: Number((results.power.fleiss * 100).toFixed(1)) },
+        { item: 'Power, with continuity correction (%)', value: Number((results.power.fleissCC * 100).toFixed(1)) },
+      );
+    }
+    if (results.detectable) {
+      rows.push(
+        { item: `Smallest detectable ${text.effectShort} above 1`, value: results.detectable.above ? Number(results.detectable.above.effect.toFixed(3)) : 'Not detectable' },
+        { item: `Largest detectable ${text.effectShort} below 1`, value: results.detectable.below ? Number(results.detectable.below.effect.toFixed(3)) : 'Not detectable' },
+      );
+    }
+    return rows;
+  };
+
+  const handleExportExcel = () => {
+    exportExcel({
+      title: 'Sample size calculation',
+      subtitle: design === 'survey'
+        ? 'Single proportion with design effect and finite population correction'
+        : 'Two-sided test for two independent proportions (Kelsey / Fleiss)',
+      columns: [
+        { header: 'Item', key: 'item' },
+        { header: 'Value', key: 'value' },
+      ],
+      rows: summaryRows(),
+    }, 'sample_size.xlsx');
+  };
+
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-700';
+  const hasResult = !!(results.survey || (results.sizes && results.sizes.length > 0) || results.power || results.detectable);
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Sample Size & Power"
+        description="Plan a study before collecting data: how many subjects you need, the power of a fixed sample, or the smallest effect it can detect."
+      />
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-gray-500">Study design:</span>
+          {([
+            ['cohort', 'Cohort / cross-sectional'],
+            ['caseControl', 'Unmatched case-control'],
+            ['survey', 'Survey (single proportion)'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => update({ design: value })}
+              className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                design === value ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {text && (
+          <div className="flex rounded-lg overflow-hidden border border-gray-300 w-fit">
+            {([
+              ['sampleSize', 'Sample size'],
+              ['power', 'Power'],
+              ['detectable', `Detectable ${text.effectShort}`],
+            ] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => update({ calculation: value })}
+                className={`px-3 py-2 text-xs font-medium transition-colors ${
+                  calculation === value ? 'bg-gray-700 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Confidence Level (two-sided)</label>
+            <select value={settings.confidence} onChange={(e) => update({ confidence: Number(e.target.value) })} className={inputClass}>
+              {confidenceLevels.map(level => (
+                <option key={level} value={level}>{level}%</option>
+              ))}
+            </select>
+          </div>
+
+          {text ? (
+            <>
+              {calculation !== 'power' && numberInput('power', 'Power (%)', { min: 1, max: 99 })}
+              {numberInput('ratio', text.ratio, { min: 0.1 })}
+              {numberInput('p0', text.p0, { min: 0, max: 100 })}
+              {calculation !== 'detectable' && numberInput('effect', text.effect, { min: 0 })}
+              {calculation !== 'sampleSize' && numberInput('n1', text.n1, { min: 1, step: 1 })}
+            </>
+          ) : (
+            <>
+              {numberInput('surveyProportion', 'Anticipated proportion (%)', { min: 0, max: 100 })}
+              {numberInput('surveyPrecision', 'Precision (± percentage points)', { min: 0, max: 100 })}
+              {numberInput('designEffect', 'Design effect (1 = simple random sample)', { min: 1 })}
+              {numberInput('populationSize', 'Population size (0 = very large)', { min: 0, step: 1 })}
+            </>
+          )}
+        </div>
+
+        {text && calculation !== 'detectable' && p1 > 0 && p1 < 1 && (
+          <p className="text-xs text-gray-600">
+            {design === 'cohort'
+              ? `Expected outcome among exposed: ${formatPercent(p1)}.`
+              : `Expected exposure among cases: ${formatPercent(p1)}.`}
+          </p>
+        )}
+        {invalidTwoGroup && (
+          <p className="text-xs text-amber-700">
+            {design === 'cohort'
+              ? 'The risk ratio and outcome percentage give an impossible risk among the exposed. Lower one of them.'
+              : 'Enter an exposure percentage between 0 and 100 and an odds ratio other than 1.'}
+          </p>
+        )}
+      </div>
+
+      {hasResult && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          {results.sizes && text && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Method</th>
+                  <th className={headerClass}>{text.group1}</th>
+                  <th className={headerClass}>{text.group0}</th>
+                  <th className={headerClass}>Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {results.sizes.map(size => (
+                  <tr key={size.method} className={size.method === 'fleissCC' ? 'bg-blue-50 font-medium' : ''}>
+                    <td className="px-3 py-2 text-sm text-gray-900">{SAMPLE_SIZE_METHOD_LABELS[size.method]}</td>
+                    <td className={cellClass}>{size.n1.toLocaleString()}</td>
+                    <td className={cellClass}>{size.n0.toLocaleString()}</td>
+                    <td className={cellClass}>{size.total.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {results.power && (
+            <div className="p-4 text-sm text-gray-700 space-y-1">
+              <p>
+                Power with continuity correction: <strong>{formatPercent(results.power.fleissCC)}</strong>
+              </p>
+              <p className="text-gray-500">Normal approximation without correction: {formatPercent(results.power.fleiss)}</p>
+            </div>
+          )}
+
+          {results.detectable && text && (
+            <div className="p-4 text-sm text-gray-700 space-y-1">
+              <p>
+                Smallest detectable {text.effectShort} above 1:{' '}
+                <strong>{results.detectable.above ? formatSigFigs(results.detectable.above.effect, 3) : 'not detectable with this sample'}</strong>
+              </p>
+              <p>
+                Largest detectable {text.effectShort} below 1:{' '}
+                <strong>{results.detectable.below ? formatSigFigs(results.detectable.below.effect, 3) : 'not detectable with this sample'}</strong>
+              </p>
+              <p className="text-gray-500">
+                With {settings.n1.toLocaleString()} {text.group1.toLowerCase()} and {Math.round(settings.n1 * settings.ratio).toLocaleString()} {text.group0.toLowerCase()}, at {settings.power}% power (Fleiss with continuity correction).
+              </p>
+            </div>
+          )}
+
+          {results.survey && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="bg-white divide-y divide-gray-200">
+                <tr>
+                  <td className="px-3 py-2 text-sm text-gray-900">Simple random sample</td>
+                  <td className={cellClass}>{results.survey.simpleRandom.toLocaleString()}</td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 text-sm text-gray-900">With design effect ({settings.designEffect})</td>
+                  <td className={cellClass}>{results.survey.withDesignEffect.toLocaleString()}</td>
+                </tr>
+                <tr className="bg-blue-50 font-medium">
+                  <td className="px-3 py-2 text-sm text-gray-900">
+                    Required sample size{settings.populationSize > 0 ? ' (finite population correction)' : ''}
+                  </td>
+                  <td className={cellClass}>{results.survey.required.toLocaleString()}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+            {design === 'survey' ? (
+              <div>Add an allowance for non-response. Use a design effect of about 2 for cluster surveys when no prior estimate is available.</div>
+            ) : (
+              <div>Two-sided test of two independent proportions. Fleiss with continuity correction is the most conservative and is highlighted.</div>
+            )}
+            <ResultsActions
+              actions={[
+                { label: 'Export Excel', onClick: handleExportExcel, icon: ExportIcons.download, variant: 'secondary' },
+              ]}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
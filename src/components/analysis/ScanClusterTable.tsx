@@ -0,0 +1,131 @@
+/**
+ * ScanClusterTable Component
+ *
+ * Most likely and secondary clusters from the spatial scan statistic, with
+ * Monte Carlo p-values. Used by the Spot Map (Bernoulli) and Area Map (Poisson).
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import { formatScanPValue } from '../../utils/spatialScan';
+import type { ScanResult } from '../../utils/spatialScan';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob } from '../../utils/chartExport';
+import { CLUSTER_COLOR, SECONDARY_CLUSTER_COLOR } from '../../utils/chartColors';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface ScanClusterTableProps {
+  result: ScanResult;
+  /** What the scanned locations are, e.g. "areas" */
+  locationNoun: string;
+  /** Export circle centres (off when map locations are obfuscated) */
+  includeCenters: boolean;
+  filename: string;
+}
+
+const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : '—');
+
+export function ScanClusterTable({ result, locationNoun, includeCenters, filename }: ScanClusterTableProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-2 py-1.5 text-xs text-center text-gray-900';
+  const headerClass = 'px-2 py-1.5 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const populationLabel = result.model === 'bernoulli' ? 'Points' : 'Population';
+
+  const handleExportCSV = () => {
+    const columns: DataColumn[] = [
+      { key: 'cluster', label: 'Cluster', type: 'number' },
+      ...(includeCenters ? [
+        { key: 'lat', label: 'Centre latitude', type: 'number' as const },
+        { key: 'lng', label: 'Centre longitude', type: 'number' as const },
+      ] : []),
+      { key: 'radiusKm', label: 'Radius (km)', type: 'number' },
+      { key: 'locations', label: 'Locations', type: 'number' },
+      { key: 'cases', label: 'Observed cases', type: 'number' },
+      { key: 'expected', label: 'Expected cases', type: 'number' },
+      { key: 'population', label: populationLabel, type: 'number' },
+      { key: 'relativeRisk', label: 'Relative risk', type: 'number' },
+      { key: 'llr', label: 'Log likelihood ratio', type: 'number' },
+      { key: 'pValue', label: 'p-value', type: 'number' },
+      { key: 'locationIds', label: 'Location IDs', type: 'text' },
+    ];
+    const records: CaseRecord[] = result.clusters.map((cluster, i) => ({
+      id: String(i + 1),
+      cluster: i + 1,
+      lat: cluster.lat,
+      lng: cluster.lng,
+      radiusKm: cluster.radiusKm,
+      locations: cluster.locationIds.length,
+      cases: cluster.cases,
+      expected: cluster.expected,
+      population: cluster.population,
+      relativeRisk: isFinite(cluster.relativeRisk) ? cluster.relativeRisk : null,
+      llr: cluster.logLikelihoodRatio,
+      pValue: cluster.pValue,
+      locationIds: cluster.locationIds.join('; '),
+    }));
+    const csv = exportToCSV(columns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      {result.clusters.length === 0 ? (
+        <p className="px-3 py-3 text-xs text-gray-600">
+          No circle holds more cases than expected (with at least 2 cases), so there is no cluster to report.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerClass}>#</th>
+                <th className={headerClass}>Obs / Exp</th>
+                <th className={headerClass}>RR</th>
+                <th className={headerClass}>Radius</th>
+                <th className={headerClass}>p</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {result.clusters.map((cluster, i) => (
+                <tr key={cluster.centerId} className={cluster.pValue < 0.05 ? '' : 'text-gray-500'}>
+                  <td className={cellClass}>
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className="inline-block w-2.5 h-2.5 rounded-full"
+                        style={{ backgroundColor: i === 0 ? CLUSTER_COLOR : SECONDARY_CLUSTER_COLOR }}
+                      />
+                      {i + 1}
+                    </span>
+                  </td>
+                  <td className={cellClass} title={`${cluster.locationIds.length} ${locationNoun}`}>
+                    {cluster.cases} / {formatMeasure(cluster.expected)}
+                  </td>
+                  <td className={cellClass}>{formatMeasure(cluster.relativeRisk)}</td>
+                  <td className={cellClass}>{formatMeasure(cluster.radiusKm)} km</td>
+                  <td className={`${cellClass} ${cluster.pValue < 0.05 ? 'font-semibold' : ''}`}>
+                    {formatScanPValue(cluster.pValue, result.replicates)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="px-3 py-2 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div>
+          {result.totalCases} cases, {result.totalPopulation.toLocaleString()} {result.model === 'bernoulli' ? 'cases and controls' : 'population'} across {result.locations} {locationNoun}; {result.replicates} Monte Carlo replicates.
+        </div>
+        <div className="text-gray-500">
+          Cluster 1 is the most likely cluster. Secondary clusters share no {locationNoun} with a more likely one and their p-values are conservative.
+        </div>
+        {result.clusters.length > 0 && (
+          <ResultsActions
+            actions={[
+              { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary' },
+            ]}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
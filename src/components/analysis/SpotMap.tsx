@@ -1,24 +1,45 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
 import type { ChangeEvent } from 'react';
-import { MapContainer, TileLayer, CircleMarker, Popup, useMap, ScaleControl } from 'react-leaflet';
+import { MapContainer, TileLayer, CircleMarker, Circle, ImageOverlay, Popup, useMap, useMapEvents, ScaleControl } from 'react-leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import html2canvas from 'html2canvas';
-import type { Dataset, CaseRecord, DataColumn } from '../../types/analysis';
+import type { Dataset, CaseRecord, DataColumn, VariableConfig } from '../../types/analysis';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import { SpotMapTutorial } from '../tutorials/SpotMapTutorial';
 import { TabHeader, ResultsActions, ExportIcons, AdvancedOptions, HelpPanel } from '../shared';
 import { exportToCSV } from '../../utils/csvParser';
+import { createSpatialScan, formatScanPValue, pointsToLocations } from '../../utils/spatialScan';
+import type { ScanLocation, ScanResult } from '../../utils/spatialScan';
+import { defaultBandwidth, kernelDensityGrid, kernelDensityRatio } from '../../utils/kernelDensity';
+import type { DensityGrid } from '../../utils/kernelDensity';
+import { distanceBandKeys, distanceBands, formatDistance, nearestSource, parseBandRadii } from '../../utils/sourceDistance';
+import type { SourcePoint } from '../../utils/sourceDistance';
+import { validateVariableConfig } from '../../utils/variableCreation';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { processEpiCurveData } from '../../utils/epiCurve';
+import type { BinSize, EpiCurveBin } from '../../utils/epiCurve';
+import { createGifEncoder, createZip, frameFileName } from '../../utils/animationExport';
+import { CLUSTER_COLOR, SECONDARY_CLUSTER_COLOR, SOURCE_BUFFER_COLOR, SOURCE_COLOR } from '../../utils/chartColors';
+import { ScanClusterTable } from './ScanClusterTable';
+import { DistanceBandTable } from './DistanceBandTable';
 import { useLocale } from '../../contexts/LocaleContext';
 
 interface SpotMapProps {
   dataset: Dataset;
+  /** Datasets that suspected sources can be imported from */
+  datasets?: Dataset[];
+  /** Adds the distance-to-nearest-source variable to the dataset */
+  onCreateVariable?: (config: VariableConfig, values: unknown[]) => void;
 }
 
 type ColorScheme = 'default' | 'classification' | 'colorblind' | 'sequential';
 type CoordinateAxis = 'lat' | 'lng';
 type MapStyle = 'street' | 'quiet' | 'satellite' | 'topo' | 'none';
+type DensitySurface = 'density' | 'ratio';
+type AnimationMode = 'cumulative' | 'window';
+type AnimationExportFormat = 'png-zip' | 'gif' | 'webm';
 
 interface MapCase {
   record: CaseRecord;
@@ -29,6 +50,12 @@ interface MapCase {
   classification: string;
 }
 
+interface ScanInput {
+  locations: ScanLocation[];
+  maxPopulationFraction: number;
+  replicates: number;
+}
+
 interface CoordinateQAResult {
   totalRecords: number;
   validCoordinates: number;
@@ -60,6 +87,190 @@ const sequentialColors = [
 
 const spotMapExportScale = 2;
 
+// Heat surface classes: sequential for density, diverging around 1 for the case:control ratio
+const densityColors = ['#FFFFB2', '#FED976', '#FEB24C', '#FD8D3C', '#F03B20', '#BD0026'];
+const densityRatioColors = ['#2166AC', '#67A9CF', '#D1E5F0', '#F7F7F7', '#FDDBC7', '#EF8A62', '#B2182B'];
+const densityRatioBreaks = [0.25, 0.5, 0.8, 1.25, 2, 4];
+
+interface DensityLegendItem {
+  label: string;
+  color: string;
+}
+
+/**
+ * Class index for a cell, or null to leave it transparent (no estimate, or
+ * density under a sixth of the lowest class so the surface fades out).
+ */
+function densityClassIndex(value: number, surface: DensitySurface, max: number): number | null {
+  if (!Number.isFinite(value)) return null;
+  if (surface === 'ratio') {
+    const index = densityRatioBreaks.findIndex(limit => value < limit);
+    return index === -1 ? densityRatioBreaks.length : index;
+  }
+  if (max <= 0 || value < max / densityColors.length / 6) return null;
+  return Math.min(densityColors.length - 1, Math.floor((value / max) * densityColors.length));
+}
+
+function densityLegendItems(surface: DensitySurface, max: number): DensityLegendItem[] {
+  if (surface === 'ratio') {
+    return densityRatioColors.map((color, i) => {
+      const lower = densityRatioBreaks[i - 1];
+      const upper = densityRatioBreaks[i];
+      const label = lower === undefined ? `< ${upper}` : upper === undefined ? `≥ ${lower}` : `${lower} - ${upper}`;
+      return { label, color };
+    });
+  }
+  const step = max / densityColors.length;
+  return densityColors.map((color, i) => ({
+    label: `${formatSigFigs(i * step, 2)} - ${formatSigFigs((i + 1) * step, 2)}`,
+    color,
+  }));
+}
+
+/** Paint the grid one pixel per cell; the map stretches the image over the grid bounds */
+function renderDensityImage(grid: DensityGrid, surface: DensitySurface): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.width;
+  canvas.height = grid.height;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+  const colors = surface === 'ratio' ? densityRatioColors : densityColors;
+  const image = context.createImageData(grid.width, grid.height);
+  for (let i = 0; i < grid.values.length; i++) {
+    const index = densityClassIndex(grid.values[i], surface, grid.max);
+    if (index === null) continue;
+    const hex = colors[index];
+    image.data[i * 4] = parseInt(hex.slice(1, 3), 16);
+    image.data[i * 4 + 1] = parseInt(hex.slice(3, 5), 16);
+    image.data[i * 4 + 2] = parseInt(hex.slice(5, 7), 16);
+    image.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+// Time animation steps, labelled as in the epi curve bin size options
+const animationSteps: Array<{ value: BinSize; label: string }> = [
+  { value: 'hourly', label: 'Hourly' },
+  { value: '6hour', label: '6-Hour' },
+  { value: '12hour', label: '12-Hour' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly-cdc', label: 'Weekly (CDC/MMWR)' },
+  { value: 'weekly-iso', label: 'Weekly (ISO)' },
+];
+
+// GIF frames are scaled down to this width to keep files shareable
+const animationGifMaxWidth = 960;
+
+interface AnimationTimeline {
+  /** Steps from the first to the last dated point */
+  bins: EpiCurveBin[];
+  frameByRecord: Map<CaseRecord, number>;
+  maxCount: number;
+  undatedCount: number;
+}
+
+/** Period shown by a frame: the step itself, or everything up to it when cumulative */
+function formatFrameLabel(bins: EpiCurveBin[], frame: number, step: BinSize, mode: AnimationMode): string {
+  const subDaily = step === 'hourly' || step === '6hour' || step === '12hour';
+  const format = (date: Date) => subDaily
+    ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  const start = mode === 'cumulative' ? bins[0].startDate : bins[frame].startDate;
+  // Bins end where the next one starts; show the last day (or the end time) covered
+  const end = new Date(bins[frame].endDate);
+  if (!subDaily) end.setDate(end.getDate() - 1);
+  if (!subDaily && start.getTime() >= end.getTime()) return format(start);
+  return `${format(start)} – ${format(end)}`;
+}
+
+function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Frame could not be encoded as PNG.'))), 'image/png');
+  });
+}
+
+function supportedWebmType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+async function encodeFramesAsZip(frames: Blob[], prefix: string): Promise<Blob> {
+  const entries = await Promise.all(frames.map(async (frame, index) => ({
+    name: frameFileName(prefix, index, frames.length),
+    data: new Uint8Array(await frame.arrayBuffer()),
+  })));
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+}
+
+async function encodeFramesAsGif(frames: Blob[], delayMs: number): Promise<Blob> {
+  const first = await createImageBitmap(frames[0]);
+  const scale = Math.min(1, animationGifMaxWidth / first.width);
+  const width = Math.round(first.width * scale);
+  const height = Math.round(first.height * scale);
+  first.close();
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available.');
+  const encoder = createGifEncoder(width, height, { delayMs });
+  for (const frame of frames) {
+    const bitmap = await createImageBitmap(frame);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    encoder.addFrame(context.getImageData(0, 0, width, height).data);
+    // Yield between frames so the progress message can paint
+    await new Promise(resolve => window.setTimeout(resolve, 0));
+  }
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+}
+
+/** Replays the frames onto a canvas in real time while MediaRecorder captures it */
+async function encodeFramesAsWebm(frames: Blob[], delayMs: number): Promise<Blob> {
+  const mimeType = supportedWebmType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+  const first = await createImageBitmap(frames[0]);
+  const canvas = document.createElement('canvas');
+  // Video encoders expect even dimensions
+  canvas.width = first.width - (first.width % 2);
+  canvas.height = first.height - (first.height % 2);
+  first.close();
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available.');
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  let nextFrameAt = performance.now();
+  for (const frame of frames) {
+    const bitmap = await createImageBitmap(frame);
+    await new Promise(resolve => window.setTimeout(resolve, Math.max(0, nextFrameAt - performance.now())));
+    context.drawImage(bitmap, 0, 0);
+    track.requestFrame();
+    bitmap.close();
+    nextFrameAt += delayMs;
+  }
+  // Hold the last frame for its full duration
+  await new Promise(resolve => window.setTimeout(resolve, Math.max(0, nextFrameAt - performance.now())));
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(streamTrack => streamTrack.stop());
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
 // Known case status colors used when values match epidemiological terminology
 const caseStatusColors: Record<string, string> = {
   'Confirmed': '#DC2626',
@@ -224,6 +435,13 @@ function waitForNextPaint(): Promise<void> {
   });
 }
 
+/** Longest stretch of scan replicates before the page gets a turn to repaint */
+const SCAN_CHUNK_MS = 50;
+
+function yieldToPage(): Promise<void> {
+  return new Promise(resolve => window.setTimeout(resolve, 0));
+}
+
 async function waitForMapImages(element: HTMLElement): Promise<void> {
   const images = Array.from(element.querySelectorAll('img'));
   const pendingImages = images.filter(image => !image.complete);
@@ -349,6 +567,19 @@ function addSpotMapExportStyles(clonedDocument: Document) {
   }
 }
 
+function captureSpotMap(element: HTMLElement, scale: number): Promise<HTMLCanvasElement> {
+  return html2canvas(element, {
+    useCORS: true,
+    allowTaint: false,
+    backgroundColor: '#ffffff',
+    scale,
+    imageTimeout: 15000,
+    logging: false,
+    ignoreElements: child => child.classList.contains('map-export-exclude'),
+    onclone: addSpotMapExportStyles,
+  });
+}
+
 function triggerDownload(url: string, filename: string) {
   const link = document.createElement('a');
   link.download = filename;
@@ -375,6 +606,14 @@ function isObjectRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
+function isSourcePoint(value: unknown): value is SourcePoint {
+  return isObjectRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.lat === 'number' && isCoordinateInRange(value.lat, 'lat')
+    && typeof value.lng === 'number' && isCoordinateInRange(value.lng, 'lng');
+}
+
 function analyzeCoordinateQuality(
   records: CaseRecord[],
   latColumn: string,
@@ -507,18 +746,27 @@ function FitBounds({ cases }: { cases: MapCase[] }) {
 }
 
 // Component to keep the Leaflet size in sync with the resizable panel layout
-function MapSizeInvalidator({ panelWidth }: { panelWidth: number }) {
+function MapSizeInvalidator({ panelWidth, timelineVisible }: { panelWidth: number; timelineVisible: boolean }) {
   const map = useMap();
 
   useEffect(() => {
     const timeout = window.setTimeout(() => map.invalidateSize(), 100);
     return () => window.clearTimeout(timeout);
-  }, [map, panelWidth]);
+  }, [map, panelWidth, timelineVisible]);
 
   return null;
 }
 
-export function SpotMap({ dataset }: SpotMapProps) {
+// Component that adds a suspected source wherever the map is clicked
+function SourcePlacer({ onPlace }: { onPlace: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click: (event) => onPlace(event.latlng.lat, event.latlng.lng),
+  });
+
+  return null;
+}
+
+export function SpotMap({ dataset, datasets = [], onCreateVariable }: SpotMapProps) {
   const { config: localeConfig } = useLocale();
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -585,6 +833,54 @@ export function SpotMap({ dataset }: SpotMapProps) {
   // Point clustering
   const [enableClustering, setEnableClustering] = useState<boolean>(() => saved.enableClustering !== undefined ? saved.enableClustering as boolean : false);
 
+  // Case definition: the ticked classification values are cases, the rest controls
+  const [caseValues, setCaseValues] = useState<string[]>(() => Array.isArray(saved.caseValues) ? saved.caseValues as string[] : []);
+
+  // Kernel density heat surface
+  const [showDensity, setShowDensity] = useState<boolean>(() => saved.showDensity === true);
+  const [densitySurface, setDensitySurface] = useState<DensitySurface>(() => saved.densitySurface === 'ratio' ? 'ratio' : 'density');
+  const [densityBandwidthMode, setDensityBandwidthMode] = useState<'auto' | 'manual'>(() => saved.densityBandwidthMode === 'manual' ? 'manual' : 'auto');
+  const [densityBandwidth, setDensityBandwidth] = useState<number>(() => (saved.densityBandwidth as number) ?? 500);
+  const [densityOpacity, setDensityOpacity] = useState<number>(() => (saved.densityOpacity as number) ?? 0.7);
+
+  // Suspected sources and distance buffers
+  const [sources, setSources] = useState<SourcePoint[]>(() => Array.isArray(saved.sources) ? saved.sources.filter(isSourcePoint) : []);
+  const [bufferRadiiText, setBufferRadiiText] = useState<string>(() => typeof saved.bufferRadiiText === 'string' ? saved.bufferRadiiText : '100, 250, 500, 1000');
+  const [showBuffers, setShowBuffers] = useState<boolean>(() => saved.showBuffers !== false);
+  const [bandPopulations, setBandPopulations] = useState<Record<string, number>>(() => (
+    isObjectRecord(saved.bandPopulations) ? saved.bandPopulations as Record<string, number> : {}
+  ));
+  const [isPlacingSources, setIsPlacingSources] = useState(false);
+  const [showSourceImport, setShowSourceImport] = useState(false);
+  const [sourceImportDatasetId, setSourceImportDatasetId] = useState('');
+  const [sourceImportLatColumn, setSourceImportLatColumn] = useState('');
+  const [sourceImportLngColumn, setSourceImportLngColumn] = useState('');
+  const [sourceImportNameColumn, setSourceImportNameColumn] = useState('');
+  const [distanceVariableName, setDistanceVariableName] = useState('distance_to_source_m');
+  const [distanceVariableError, setDistanceVariableError] = useState('');
+
+  // Time animation
+  const [animationDateColumn, setAnimationDateColumn] = useState<string>(() => validSavedColumn(saved.animationDateColumn));
+  const [animationStep, setAnimationStep] = useState<BinSize>(() => (
+    animationSteps.some(step => step.value === saved.animationStep) ? saved.animationStep as BinSize : 'daily'
+  ));
+  const [animationMode, setAnimationMode] = useState<AnimationMode>(() => saved.animationMode === 'window' ? 'window' : 'cumulative');
+  const [animationSpeed, setAnimationSpeed] = useState<number>(() => (saved.animationSpeed as number) ?? 500);
+  const [animationExportFormat, setAnimationExportFormat] = useState<AnimationExportFormat>(() => (
+    saved.animationExportFormat === 'gif' || saved.animationExportFormat === 'webm' ? saved.animationExportFormat : 'png-zip'
+  ));
+  const [currentFrame, setCurrentFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Spatial scan
+  const [scanMaxPercent, setScanMaxPercent] = useState<number>(() => (saved.scanMaxPercent as number) ?? 50);
+  const [scanReplicates, setScanReplicates] = useState<number>(() => (saved.scanReplicates as number) ?? 999);
+  const [scanRun, setScanRun] = useState<{ input: ScanInput; result: ScanResult } | null>(null);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const isScanning = scanProgress !== null;
+  // Incremented to abandon a scan still in progress
+  const scanRunId = useRef(0);
+
   // Resizable panel
   const [panelWidth, setPanelWidth] = useState(288); // 18rem = 288px
   const [isResizing, setIsResizing] = useState(false);
@@ -610,6 +906,23 @@ export function SpotMap({ dataset }: SpotMapProps) {
         customCategoryColors,
         categoryOrder,
         popupColumns,
+        caseValues,
+        showDensity,
+        densitySurface,
+        densityBandwidthMode,
+        densityBandwidth,
+        densityOpacity,
+        sources,
+        bufferRadiiText,
+        showBuffers,
+        bandPopulations,
+        animationDateColumn,
+        animationStep,
+        animationMode,
+        animationSpeed,
+        animationExportFormat,
+        scanMaxPercent,
+        scanReplicates,
       };
       localStorage.setItem(persistenceKey, JSON.stringify(toSave));
     } catch (e) {
@@ -618,7 +931,10 @@ export function SpotMap({ dataset }: SpotMapProps) {
   }, [persistenceKey, latColumn, lngColumn, classificationColumn, colorScheme, markerSize,
     mapStyle, obfuscateLocations, jitterDistance, mapTitle, mapCaption, showNorthArrow,
     enableClustering, filterBy, selectedFilterValues, customCategoryColors,
-    categoryOrder, popupColumns]);
+    categoryOrder, popupColumns, caseValues, showDensity, densitySurface, densityBandwidthMode,
+    densityBandwidth, densityOpacity, sources, bufferRadiiText, showBuffers, bandPopulations,
+    animationDateColumn, animationStep, animationMode, animationSpeed, animationExportFormat,
+    scanMaxPercent, scanReplicates]);
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -643,6 +959,10 @@ export function SpotMap({ dataset }: SpotMapProps) {
     };
   }, [isResizing]);
 
+  useEffect(() => () => {
+    scanRunId.current++;
+  }, []);
+
   const latitudeOptions = useMemo(() => (
     dataset.columns.filter(col => isLikelyCoordinateColumn(col, dataset.records, 'lat'))
   ), [dataset.columns, dataset.records]);
@@ -681,16 +1001,7 @@ export function SpotMap({ dataset }: SpotMapProps) {
       await waitForNextPaint();
       await waitForMapImages(exportElement);
 
-      const canvas = await html2canvas(exportElement, {
-        useCORS: true,
-        allowTaint: false,
-        backgroundColor: '#ffffff',
-        scale: spotMapExportScale,
-        imageTimeout: 15000,
-        logging: false,
-        ignoreElements: element => element.classList.contains('map-export-exclude'),
-        onclone: addSpotMapExportStyles,
-      });
+      const canvas = await captureSpotMap(exportElement, spotMapExportScale);
 
       await downloadCanvasAsPng(canvas, `spot-map-${new Date().toISOString().split('T')[0]}.png`);
       setExportStatus('PNG downloaded.');
@@ -706,6 +1017,57 @@ export function SpotMap({ dataset }: SpotMapProps) {
     }
   };
 
+  // Export every animation frame as a numbered PNG sequence, a GIF or a WebM video
+  const exportAnimation = async () => {
+    const exportElement = mapContainerRef.current;
+    if (!exportElement || !timeline) return;
+
+    const frameCount = timeline.bins.length;
+    const returnToFrame = frame;
+    setIsPlaying(false);
+    setIsExporting(true);
+    setExportError('');
+    try {
+      const bounds = exportElement.getBoundingClientRect();
+      if (bounds.width === 0 || bounds.height === 0) {
+        throw new Error('Map has no visible size.');
+      }
+
+      // Frames are kept as PNG blobs, which stay small, until they are encoded
+      const frames: Blob[] = [];
+      for (let index = 0; index < frameCount; index++) {
+        setExportStatus(`Capturing frame ${index + 1} of ${frameCount}...`);
+        setCurrentFrame(index);
+        await waitForNextPaint();
+        await waitForMapImages(exportElement);
+        frames.push(await canvasToPngBlob(await captureSpotMap(exportElement, 1)));
+      }
+
+      setExportStatus(activeAnimationExportFormat === 'png-zip' ? 'Packing frames...' : 'Encoding animation...');
+      const date = new Date().toISOString().split('T')[0];
+      const { blob, filename } = activeAnimationExportFormat === 'gif'
+        ? { blob: await encodeFramesAsGif(frames, animationSpeed), filename: `spot-map-animation-${date}.gif` }
+        : activeAnimationExportFormat === 'webm'
+          ? { blob: await encodeFramesAsWebm(frames, animationSpeed), filename: `spot-map-animation-${date}.webm` }
+          : { blob: await encodeFramesAsZip(frames, 'spot-map-frame'), filename: `spot-map-frames-${date}.zip` };
+
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, filename);
+      window.setTimeout(() => URL.revokeObjectURL(url), 0);
+      setExportStatus(`${frameCount} frames exported.`);
+      window.setTimeout(() => setExportStatus(''), 4000);
+    } catch (error) {
+      console.error('Failed to export animation:', error);
+      setExportError(
+        'Animation export did not finish. Try another map style or a PNG sequence, then export again.'
+      );
+      setExportStatus('');
+    } finally {
+      setCurrentFrame(returnToFrame);
+      setIsExporting(false);
+    }
+  };
+
   // Export filtered dataset as CSV
   const exportDatasetCSV = () => {
     if (filteredCases.length === 0) return;
@@ -798,6 +1160,20 @@ export function SpotMap({ dataset }: SpotMapProps) {
       showNorthArrow,
       enableClustering,
       popupColumns,
+      caseValues,
+      showDensity,
+      densitySurface,
+      densityBandwidthMode,
+      densityBandwidth,
+      densityOpacity,
+      sources,
+      bufferRadiiText,
+      showBuffers,
+      bandPopulations,
+      animationDateColumn,
+      animationStep,
+      animationMode,
+      animationSpeed,
     };
 
     const blob = new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' });
@@ -848,6 +1224,21 @@ export function SpotMap({ dataset }: SpotMapProps) {
       if (Array.isArray(recipe.popupColumns)) {
         setPopupColumns(recipe.popupColumns.filter(value => typeof value === 'string' && validKeys.has(value)));
       }
+      if (Array.isArray(recipe.caseValues)) setCaseValues(recipe.caseValues.filter(value => typeof value === 'string'));
+      if (typeof recipe.showDensity === 'boolean') setShowDensity(recipe.showDensity);
+      if (recipe.densitySurface === 'density' || recipe.densitySurface === 'ratio') setDensitySurface(recipe.densitySurface);
+      if (recipe.densityBandwidthMode === 'auto' || recipe.densityBandwidthMode === 'manual') setDensityBandwidthMode(recipe.densityBandwidthMode);
+      if (typeof recipe.densityBandwidth === 'number') setDensityBandwidth(recipe.densityBandwidth);
+      if (typeof recipe.densityOpacity === 'number') setDensityOpacity(recipe.densityOpacity);
+      if (Array.isArray(recipe.sources)) setSources(recipe.sources.filter(isSourcePoint));
+      if (typeof recipe.bufferRadiiText === 'string') setBufferRadiiText(recipe.bufferRadiiText);
+      if (typeof recipe.showBuffers === 'boolean') setShowBuffers(recipe.showBuffers);
+      if (isObjectRecord(recipe.bandPopulations)) setBandPopulations(recipe.bandPopulations as Record<string, number>);
+      setColumnIfValid(recipe.animationDateColumn, setAnimationDateColumn);
+      const recipeStep = animationSteps.find(step => step.value === recipe.animationStep);
+      if (recipeStep) setAnimationStep(recipeStep.value);
+      if (recipe.animationMode === 'cumulative' || recipe.animationMode === 'window') setAnimationMode(recipe.animationMode);
+      if (typeof recipe.animationSpeed === 'number') setAnimationSpeed(recipe.animationSpeed);
       setExportStatus('Map recipe loaded.');
       setExportError('');
       window.setTimeout(() => setExportStatus(''), 4000);
@@ -936,6 +1327,63 @@ export function SpotMap({ dataset }: SpotMapProps) {
     });
   }, [mapCases, filterBy, selectedFilterValues]);
 
+  // Time animation: one frame per step from the first to the last dated point
+  const animationDateColumns = useMemo(
+    () => dataset.columns.filter(c => c.type === 'date' || c.key.toLowerCase().includes('date')),
+    [dataset.columns]
+  );
+
+  const timeline: AnimationTimeline | null = useMemo(() => {
+    if (!animationDateColumn) return null;
+    const curve = processEpiCurveData(filteredCases.map(c => c.record), animationDateColumn, animationStep);
+    const dated = curve.bins.map(bin => bin.total > 0);
+    const first = dated.indexOf(true);
+    if (first < 0) return null;
+    const bins = curve.bins.slice(first, dated.lastIndexOf(true) + 1);
+    const frameByRecord = new Map<CaseRecord, number>();
+    bins.forEach((bin, index) => bin.cases.forEach(record => frameByRecord.set(record, index)));
+    return {
+      bins,
+      frameByRecord,
+      maxCount: Math.max(...bins.map(bin => bin.total)),
+      undatedCount: filteredCases.length - frameByRecord.size,
+    };
+  }, [filteredCases, animationDateColumn, animationStep]);
+  const frame = timeline ? Math.min(currentFrame, timeline.bins.length - 1) : 0;
+
+  // Points shown on the map: undated points are hidden while animating
+  const visibleCases = useMemo(() => {
+    if (!timeline) return filteredCases;
+    return filteredCases.filter(caseData => {
+      const caseFrame = timeline.frameByRecord.get(caseData.record);
+      if (caseFrame === undefined) return false;
+      return animationMode === 'cumulative' ? caseFrame <= frame : caseFrame === frame;
+    });
+  }, [filteredCases, timeline, animationMode, frame]);
+
+  useEffect(() => {
+    if (!isPlaying || !timeline) return;
+    const timeout = window.setTimeout(() => {
+      if (frame >= timeline.bins.length - 1) {
+        setIsPlaying(false);
+      } else {
+        setCurrentFrame(frame + 1);
+      }
+    }, animationSpeed);
+    return () => window.clearTimeout(timeout);
+  }, [isPlaying, timeline, frame, animationSpeed]);
+
+  const canRecordWebm = useMemo(() => supportedWebmType() !== null, []);
+  const activeAnimationExportFormat: AnimationExportFormat = animationExportFormat === 'webm' && !canRecordWebm
+    ? 'png-zip'
+    : animationExportFormat;
+
+  const togglePlayback = () => {
+    if (!timeline) return;
+    if (!isPlaying && frame >= timeline.bins.length - 1) setCurrentFrame(0);
+    setIsPlaying(!isPlaying);
+  };
+
   // Calculate missing records
   const missingRecordsCount = useMemo(() => {
     if (!latColumn || !lngColumn) return 0;
@@ -966,6 +1414,188 @@ export function SpotMap({ dataset }: SpotMapProps) {
     });
   }, [classificationValues]);
 
+  // Scan inputs use the true coordinates; a result is shown only while its inputs are current
+  const scanInput: ScanInput = useMemo(() => {
+    const caseValueSet = new Set(caseValues);
+    const locations = pointsToLocations(filteredCases.map((caseData, index) => ({
+      id: String(caseData.record.id ?? index),
+      lat: caseData.lat,
+      lng: caseData.lng,
+      isCase: caseValueSet.has(caseData.classification),
+    })));
+    return { locations, maxPopulationFraction: scanMaxPercent / 100, replicates: scanReplicates };
+  }, [filteredCases, caseValues, scanMaxPercent, scanReplicates]);
+  const scanResult = scanRun && scanRun.input === scanInput ? scanRun.result : null;
+  const scanCaseCount = scanInput.locations.reduce((sum, location) => sum + location.cases, 0);
+  const scanControlCount = scanInput.locations.reduce((sum, location) => sum + location.population, 0) - scanCaseCount;
+
+  // Circles are drawn around the displayed (possibly jittered) position of their centre point
+  const scanCenters = useMemo(() => {
+    const centers = new Map<string, [number, number]>();
+    filteredCases.forEach((caseData, index) => {
+      centers.set(String(caseData.record.id ?? index), [caseData.displayLat, caseData.displayLng]);
+    });
+    return centers;
+  }, [filteredCases]);
+
+  // Heat surface: drawn from the displayed (jittered) positions when locations are
+  // obfuscated, and never sharper than the jitter distance. The automatic
+  // bandwidth comes from every mapped point so it stays fixed across animation frames.
+  const densityPoints = useMemo(() => {
+    const caseValueSet = new Set(caseValues);
+    return visibleCases.map(caseData => ({
+      lat: obfuscateLocations ? caseData.displayLat : caseData.lat,
+      lng: obfuscateLocations ? caseData.displayLng : caseData.lng,
+      isCase: caseValueSet.has(caseData.classification),
+    }));
+  }, [visibleCases, obfuscateLocations, caseValues]);
+  const autoBandwidth = useMemo(() => defaultBandwidth(filteredCases.map(caseData => ({
+    lat: obfuscateLocations ? caseData.displayLat : caseData.lat,
+    lng: obfuscateLocations ? caseData.displayLng : caseData.lng,
+  }))), [filteredCases, obfuscateLocations]);
+  const requestedBandwidth = densityBandwidthMode === 'auto' ? autoBandwidth : densityBandwidth;
+  const effectiveBandwidth = requestedBandwidth && requestedBandwidth > 0
+    ? Math.max(requestedBandwidth, obfuscateLocations ? jitterDistance : 0)
+    : null;
+  const canShowRatio = !!classificationColumn && scanCaseCount > 0 && scanControlCount > 0;
+  const activeDensitySurface: DensitySurface = densitySurface === 'ratio' && canShowRatio ? 'ratio' : 'density';
+
+  const densityLayer = useMemo(() => {
+    if (!showDensity || !effectiveBandwidth) return null;
+    const grid = activeDensitySurface === 'ratio'
+      ? kernelDensityRatio(
+        densityPoints.filter(point => point.isCase),
+        densityPoints.filter(point => !point.isCase),
+        { bandwidthMeters: effectiveBandwidth }
+      )
+      : kernelDensityGrid(densityPoints, { bandwidthMeters: effectiveBandwidth });
+    if (!grid || (activeDensitySurface === 'density' && grid.max <= 0)) return null;
+    return {
+      url: renderDensityImage(grid, activeDensitySurface),
+      bounds: [[grid.bounds.south, grid.bounds.west], [grid.bounds.north, grid.bounds.east]] as [[number, number], [number, number]],
+      legend: densityLegendItems(activeDensitySurface, grid.max),
+    };
+  }, [showDensity, effectiveBandwidth, activeDensitySurface, densityPoints]);
+
+  // Distance bands around suspected sources use the true coordinates. Without
+  // ticked case values every mapped point counts as a case.
+  const bandRadii = useMemo(() => parseBandRadii(bufferRadiiText), [bufferRadiiText]);
+  const bandResult = useMemo(() => {
+    const caseValueSet = new Set(caseValues);
+    const points = filteredCases.map(caseData => ({
+      lat: caseData.lat,
+      lng: caseData.lng,
+      isCase: caseValueSet.size === 0 || caseValueSet.has(caseData.classification),
+    }));
+    return distanceBands(points, sources, { radiiMeters: bandRadii, populations: bandPopulations });
+  }, [filteredCases, caseValues, sources, bandRadii, bandPopulations]);
+
+  // Populations belong to a band's radii: drop those of bands that no longer exist
+  const changeBufferRadii = (text: string) => {
+    setBufferRadiiText(text);
+    const keys = new Set(distanceBandKeys(parseBandRadii(text)));
+    setBandPopulations(previous => Object.fromEntries(Object.entries(previous).filter(([key]) => keys.has(key))));
+  };
+
+  const addSource = (lat: number, lng: number) => {
+    setSources(previous => [...previous, { id: crypto.randomUUID(), name: `Source ${previous.length + 1}`, lat, lng }]);
+  };
+
+  const sourceImportDataset = datasets.find(d => d.id === sourceImportDatasetId);
+
+  const selectSourceImportDataset = (datasetId: string) => {
+    setSourceImportDatasetId(datasetId);
+    const source = datasets.find(d => d.id === datasetId);
+    if (!source) return;
+    const latCol = source.columns.find(c => /lat/i.test(c.key) && isLikelyCoordinateColumn(c, source.records, 'lat'));
+    const lngCol = source.columns.find(c => /lng|lon/i.test(c.key) && isLikelyCoordinateColumn(c, source.records, 'lng'));
+    const nameCol = source.columns.find(c => /name|site|label/i.test(`${c.key} ${c.label}`) && c.type === 'text');
+    setSourceImportLatColumn(latCol?.key ?? '');
+    setSourceImportLngColumn(lngCol?.key ?? '');
+    setSourceImportNameColumn(nameCol?.key ?? '');
+  };
+
+  const importSources = () => {
+    if (!sourceImportDataset || !sourceImportLatColumn || !sourceImportLngColumn) return;
+    const imported: SourcePoint[] = [];
+    sourceImportDataset.records.forEach(record => {
+      const lat = parseCoordinateValue(record[sourceImportLatColumn]);
+      const lng = parseCoordinateValue(record[sourceImportLngColumn]);
+      if (lat === null || lng === null || !isCoordinateInRange(lat, 'lat') || !isCoordinateInRange(lng, 'lng')) return;
+      if (isZeroCoordinatePlaceholder(lat, lng)) return;
+      const name = sourceImportNameColumn ? String(record[sourceImportNameColumn] ?? '').trim() : '';
+      imported.push({ id: crypto.randomUUID(), name: name || `Source ${sources.length + imported.length + 1}`, lat, lng });
+    });
+    const skipped = sourceImportDataset.records.length - imported.length;
+    setSources(previous => [...previous, ...imported]);
+    setShowSourceImport(false);
+    setExportError('');
+    setExportStatus(`${imported.length} source${imported.length !== 1 ? 's' : ''} imported${skipped > 0 ? `; ${skipped} without valid coordinates skipped` : ''}.`);
+    window.setTimeout(() => setExportStatus(''), 4000);
+  };
+
+  // Distance in whole metres from each record's true location to its nearest
+  // source; blank for records without usable coordinates
+  const addDistanceVariable = () => {
+    if (!onCreateVariable || sources.length === 0) return;
+    const config: VariableConfig = {
+      name: distanceVariableName.trim(),
+      label: 'Distance to nearest source (m)',
+      type: 'number',
+      method: 'distance',
+      sourceColumn: latColumn,
+    };
+    const error = validateVariableConfig(config, dataset.columns);
+    if (error) {
+      setDistanceVariableError(error);
+      return;
+    }
+    const values = dataset.records.map(record => {
+      const lat = parseCoordinateValue(record[latColumn]);
+      const lng = parseCoordinateValue(record[lngColumn]);
+      if (lat === null || lng === null || !isCoordinateInRange(lat, 'lat') || !isCoordinateInRange(lng, 'lng')) return null;
+      if (isZeroCoordinatePlaceholder(lat, lng)) return null;
+      const nearest = nearestSource(lat, lng, sources);
+      return nearest ? Math.round(nearest.distanceMeters) : null;
+    });
+    onCreateVariable(config, values);
+    setDistanceVariableError('');
+    setExportStatus(`Added "${config.label}" to the dataset as ${config.name}.`);
+    window.setTimeout(() => setExportStatus(''), 4000);
+  };
+
+  // Replicates run in short chunks so the page stays responsive, shows
+  // progress and can cancel a long scan
+  const runScan = async () => {
+    const runId = ++scanRunId.current;
+    const input = scanInput;
+    setScanProgress({ done: 0, total: 0 });
+    await waitForNextPaint();
+    if (scanRunId.current !== runId) return;
+    const scan = createSpatialScan(input.locations, {
+      model: 'bernoulli',
+      maxPopulationFraction: input.maxPopulationFraction,
+      replicates: input.replicates,
+    });
+    let done = 0;
+    while (done < scan.totalReplicates) {
+      const chunkStart = performance.now();
+      while (done < scan.totalReplicates && performance.now() - chunkStart < SCAN_CHUNK_MS) {
+        done = scan.runReplicates(1);
+      }
+      setScanProgress({ done, total: scan.totalReplicates });
+      await yieldToPage();
+      if (scanRunId.current !== runId) return;
+    }
+    setScanRun({ input, result: scan.result() });
+    setScanProgress(null);
+  };
+
+  const cancelScan = () => {
+    scanRunId.current++;
+    setScanProgress(null);
+  };
+
   const hasRedGreenPairing = useMemo(() => {
     const colors = orderedClassificationValues.map(value =>
       getMarkerColor(value, colorScheme, orderedClassificationValues, customCategoryColors).toLowerCase()
@@ -1308,6 +1938,526 @@ export function SpotMap({ dataset }: SpotMapProps) {
             </div>
           </div>
 
+          {/* Cases and Controls */}
+          {classificationColumn && (
+            <div className="pt-4 border-t border-gray-200">
+              <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                Cases and Controls
+                <InfoTooltip text="Tick the classification values that count as cases. All other mapped points are controls. Used by the case:control density ratio and cluster detection." />
+              </label>
+              <div className="max-h-32 overflow-auto p-2 bg-white border border-gray-200 rounded-lg space-y-1">
+                {orderedClassificationValues.map(value => (
+                  <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={caseValues.includes(value)}
+                      onChange={(e) => setCaseValues(previous => (
+                        e.target.checked ? [...previous, value] : previous.filter(v => v !== value)
+                      ))}
+                      className="rounded border-gray-300"
+                    />
+                    <span className="text-gray-700 truncate">{value}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Heat Map */}
+          <div className="pt-4 border-t border-gray-200">
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+              Heat Map
+              <InfoTooltip text="Kernel density estimation spreads each point over a smooth Gaussian bump and adds them up, showing where points are most concentrated. The bandwidth sets how far each point spreads." />
+            </label>
+
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showDensity}
+                  onChange={(e) => setShowDensity(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-sm text-gray-700">Show kernel density surface</span>
+              </label>
+
+              {showDensity && (
+                <>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Surface</label>
+                    <select
+                      value={activeDensitySurface}
+                      onChange={(e) => setDensitySurface(e.target.value as DensitySurface)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value="density">Density of mapped points</option>
+                      <option value="ratio" disabled={!canShowRatio}>Case:control density ratio</option>
+                    </select>
+                    {!canShowRatio && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        The ratio needs a classification variable with some values ticked as cases and others left as controls.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Bandwidth</label>
+                    <select
+                      value={densityBandwidthMode}
+                      onChange={(e) => setDensityBandwidthMode(e.target.value as 'auto' | 'manual')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value="auto">
+                        Normal reference rule{autoBandwidth ? ` (${Math.round(autoBandwidth).toLocaleString()} m)` : ''}
+                      </option>
+                      <option value="manual">Fixed distance</option>
+                    </select>
+                    {densityBandwidthMode === 'manual' && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <input
+                          type="number"
+                          min={10}
+                          step={50}
+                          value={densityBandwidth}
+                          onChange={(e) => setDensityBandwidth(Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                        />
+                        <span className="text-xs text-gray-500">meters</span>
+                      </div>
+                    )}
+                    {obfuscateLocations && requestedBandwidth !== null && requestedBandwidth > 0 && requestedBandwidth < jitterDistance && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        Raised to the {jitterDistance}m jitter distance so the surface is no sharper than the obfuscated points.
+                      </p>
+                    )}
+                    {!effectiveBandwidth && densityBandwidthMode === 'auto' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        The automatic bandwidth needs at least two points in different places. Use a fixed distance instead.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">
+                      Opacity <span className="text-gray-400">({Math.round(densityOpacity * 100)}%)</span>
+                    </label>
+                    <input
+                      type="range"
+                      min="0.2"
+                      max="1"
+                      step="0.05"
+                      value={densityOpacity}
+                      onChange={(e) => setDensityOpacity(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Suspected Sources */}
+          <div className="pt-4 border-t border-gray-200">
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+              Suspected Sources
+              <InfoTooltip text="Mark point sources such as a cooling tower, well or food outlet. Rings at the buffer distances are drawn around each source, and cases are tallied by distance from their nearest source to look for a gradient in attack rates." />
+            </label>
+
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsPlacingSources(previous => !previous)}
+                  className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-lg border ${
+                    isPlacingSources ? 'bg-purple-50 border-purple-300 text-purple-800' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {isPlacingSources ? 'Done placing' : 'Place on map'}
+                </button>
+                {datasets.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowSourceImport(previous => !previous)}
+                    className="flex-1 px-3 py-1.5 text-xs font-medium rounded-lg border bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                  >
+                    Import from dataset
+                  </button>
+                )}
+              </div>
+              {isPlacingSources && (
+                <p className="text-xs text-purple-800">Click the map to add a source at that spot.</p>
+              )}
+
+              {showSourceImport && (
+                <div className="p-2 bg-white border border-gray-200 rounded-lg space-y-2">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Dataset</label>
+                    <select
+                      value={sourceImportDatasetId}
+                      onChange={(e) => selectSourceImportDataset(e.target.value)}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      <option value="">Choose a dataset...</option>
+                      {datasets.map(d => (
+                        <option key={d.id} value={d.id}>{d.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {sourceImportDataset && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Latitude</label>
+                          <select
+                            value={sourceImportLatColumn}
+                            onChange={(e) => setSourceImportLatColumn(e.target.value)}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                          >
+                            <option value="">Select...</option>
+                            {sourceImportDataset.columns.map(col => (
+                              <option key={col.key} value={col.key}>{col.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Longitude</label>
+                          <select
+                            value={sourceImportLngColumn}
+                            onChange={(e) => setSourceImportLngColumn(e.target.value)}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                          >
+                            <option value="">Select...</option>
+                            {sourceImportDataset.columns.map(col => (
+                              <option key={col.key} value={col.key}>{col.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Name (optional)</label>
+                        <select
+                          value={sourceImportNameColumn}
+                          onChange={(e) => setSourceImportNameColumn(e.target.value)}
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                        >
+                          <option value="">Number the sources</option>
+                          {sourceImportDataset.columns.map(col => (
+                            <option key={col.key} value={col.key}>{col.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={importSources}
+                        disabled={!sourceImportLatColumn || !sourceImportLngColumn}
+                        className="w-full px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-700 text-white hover:bg-purple-800 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                      >
+                        Add {sourceImportDataset.records.length} row{sourceImportDataset.records.length !== 1 ? 's' : ''} as sources
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {sources.length > 0 && (
+                <>
+                  <div className="max-h-32 overflow-auto p-2 bg-white border border-gray-200 rounded-lg space-y-1">
+                    {sources.map(source => (
+                      <div key={source.id} className="flex items-center gap-2">
+                        <svg width="10" height="10" viewBox="0 0 10 10" className="flex-shrink-0" aria-hidden="true">
+                          <rect x="1" y="1" width="8" height="8" fill={SOURCE_COLOR} stroke="#ffffff" strokeWidth="1" />
+                        </svg>
+                        <input
+                          type="text"
+                          value={source.name}
+                          onChange={(e) => setSources(previous => previous.map(s => (
+                            s.id === source.id ? { ...s, name: e.target.value } : s
+                          )))}
+                          className="flex-1 min-w-0 px-1.5 py-0.5 border border-gray-200 rounded text-xs"
+                          aria-label="Source name"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setSources(previous => previous.filter(s => s.id !== source.id))}
+                          className="text-xs text-gray-400 hover:text-red-600"
+                          aria-label={`Remove ${source.name}`}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSources([])}
+                    className="text-xs text-gray-500 hover:text-red-600"
+                  >
+                    Clear all sources
+                  </button>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Buffer distances (meters)</label>
+                    <input
+                      type="text"
+                      value={bufferRadiiText}
+                      onChange={(e) => changeBufferRadii(e.target.value)}
+                      placeholder="100, 250, 500, 1000"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                    />
+                    {bandRadii.length === 0 && (
+                      <p className="text-xs text-amber-700 mt-1">Enter one or more distances in meters, separated by commas.</p>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showBuffers}
+                      onChange={(e) => setShowBuffers(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span className="text-sm text-gray-700">Show buffer rings</span>
+                  </label>
+
+                  {bandResult.bands.length > 0 && (
+                    <DistanceBandTable
+                      result={bandResult}
+                      populations={bandPopulations}
+                      onPopulationChange={(key, population) => setBandPopulations(previous => {
+                        const next = { ...previous };
+                        if (population === null) delete next[key];
+                        else next[key] = population;
+                        return next;
+                      })}
+                      filename={`${dataset.name}_distance_bands`}
+                    />
+                  )}
+                  {obfuscateLocations && (
+                    <p className="text-xs text-gray-500">Distances use the true locations, not the jittered points on the map.</p>
+                  )}
+
+                  {onCreateVariable && (
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Distance to nearest source variable</label>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={distanceVariableName}
+                          onChange={(e) => {
+                            setDistanceVariableName(e.target.value);
+                            setDistanceVariableError('');
+                          }}
+                          className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded text-sm font-mono"
+                          aria-label="Variable name"
+                        />
+                        <button
+                          type="button"
+                          onClick={addDistanceVariable}
+                          className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-700 text-white hover:bg-purple-800"
+                        >
+                          Add to dataset
+                        </button>
+                      </div>
+                      {distanceVariableError && (
+                        <p className="text-xs text-red-600 mt-1">{distanceVariableError}</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        Meters from each record to its nearest source, for use as an exposure in 2x2 tables or regression.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Time Animation */}
+          <div className="pt-4 border-t border-gray-200">
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+              Time Animation
+              <InfoTooltip text="Step through the outbreak by date to see how it spread. Each step matches an epi curve bin; the strip under the map shows the epi curve of mapped points with the current step highlighted." />
+            </label>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Date Column</label>
+                <select
+                  value={animationDateColumn}
+                  onChange={(e) => {
+                    setAnimationDateColumn(e.target.value);
+                    setIsPlaying(false);
+                    setCurrentFrame(0);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  <option value="">None (static map)</option>
+                  {animationDateColumns.map(col => (
+                    <option key={col.key} value={col.key}>{col.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {animationDateColumn && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Step</label>
+                      <select
+                        value={animationStep}
+                        onChange={(e) => {
+                          setAnimationStep(e.target.value as BinSize);
+                          setIsPlaying(false);
+                          setCurrentFrame(0);
+                        }}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                      >
+                        {animationSteps.map(step => (
+                          <option key={step.value} value={step.value}>{step.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Speed</label>
+                      <select
+                        value={animationSpeed}
+                        onChange={(e) => setAnimationSpeed(Number(e.target.value))}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                      >
+                        <option value={1000}>1 s per step</option>
+                        <option value={500}>0.5 s per step</option>
+                        <option value={250}>0.25 s per step</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Show</label>
+                    <select
+                      value={animationMode}
+                      onChange={(e) => setAnimationMode(e.target.value as AnimationMode)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value="cumulative">Cumulative (all points up to the step)</option>
+                      <option value="window">Current step only</option>
+                    </select>
+                  </div>
+
+                  {!timeline ? (
+                    <p className="text-xs text-amber-700">No mapped points have a valid date in this column.</p>
+                  ) : (
+                    <>
+                      {timeline.undatedCount > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {timeline.undatedCount} mapped point{timeline.undatedCount !== 1 ? 's' : ''} without a valid date {timeline.undatedCount !== 1 ? 'are' : 'is'} hidden while animating.
+                        </p>
+                      )}
+
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Export frames as</label>
+                        <select
+                          value={activeAnimationExportFormat}
+                          onChange={(e) => setAnimationExportFormat(e.target.value as AnimationExportFormat)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                        >
+                          <option value="png-zip">Numbered PNG sequence (.zip)</option>
+                          <option value="gif">Animated GIF</option>
+                          <option value="webm" disabled={!canRecordWebm}>WebM video</option>
+                        </select>
+                      </div>
+                      <button
+                        onClick={exportAnimation}
+                        disabled={isExporting}
+                        className="w-full px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {isExporting ? 'Exporting...' : `Export ${timeline.bins.length} Frames`}
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Cluster Detection */}
+          <div className="pt-4 border-t border-gray-200">
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+              Cluster Detection
+              <InfoTooltip text="Kulldorff's spatial scan statistic (Bernoulli model). Circles of growing size are compared with the rest of the map to find where cases are concentrated relative to controls; Monte Carlo replication gives the p-value." />
+            </label>
+
+            {!classificationColumn ? (
+              <p className="text-xs text-gray-500">
+                Choose a classification variable to tell cases from controls (e.g., case status).
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Largest circle</label>
+                    <select
+                      value={scanMaxPercent}
+                      onChange={(e) => setScanMaxPercent(Number(e.target.value))}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value={10}>10% of points</option>
+                      <option value={25}>25% of points</option>
+                      <option value={50}>50% of points</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Replicates</label>
+                    <select
+                      value={scanReplicates}
+                      onChange={(e) => setScanReplicates(Number(e.target.value))}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value={99}>99</option>
+                      <option value={999}>999</option>
+                      <option value={9999}>9,999</option>
+                    </select>
+                  </div>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  {scanCaseCount} cases and {scanControlCount} controls on the map.
+                </p>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={runScan}
+                    disabled={isScanning || scanCaseCount === 0 || scanControlCount === 0}
+                    className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {scanProgress
+                      ? scanProgress.total > 0
+                        ? `Replicate ${scanProgress.done.toLocaleString()} of ${scanProgress.total.toLocaleString()}...`
+                        : 'Scanning...'
+                      : 'Run Scan'}
+                  </button>
+                  {isScanning && (
+                    <button
+                      onClick={cancelScan}
+                      className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+                {scanRun && !scanResult && !isScanning && (
+                  <p className="text-xs text-amber-700">Settings or filters changed. Run the scan again to update the clusters.</p>
+                )}
+
+                {scanResult && (
+                  <ScanClusterTable
+                    result={scanResult}
+                    locationNoun="locations"
+                    includeCenters={!obfuscateLocations}
+                    filename={`spot_map_clusters_${new Date().toISOString().split('T')[0]}`}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Advanced Options */}
           <AdvancedOptions>
             {/* Map Title */}
@@ -1525,82 +2675,122 @@ export function SpotMap({ dataset }: SpotMapProps) {
       {/* Right Panel - Map */}
       <div className="flex-1 relative min-h-[400px] lg:min-h-0">
         {latColumn && lngColumn ? (
-          <div ref={mapContainerRef} className="h-full w-full relative" data-spot-map-export="true">
-            {/* Map Title Overlay */}
-            {mapTitle && (
-              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] max-w-lg pointer-events-none">
-                <div className="bg-white/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
-                  <h2 className="text-sm font-semibold text-gray-900 text-center">{mapTitle}</h2>
+          <div ref={mapContainerRef} className="h-full w-full flex flex-col" data-spot-map-export="true">
+            <div className="relative flex-1 min-h-0">
+              {/* Map Title Overlay */}
+              {mapTitle && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] max-w-lg pointer-events-none">
+                  <div className="bg-white/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
+                    <h2 className="text-sm font-semibold text-gray-900 text-center">{mapTitle}</h2>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Privacy Warning Banner */}
-            {obfuscateLocations && (
-              <div className={`absolute ${mapTitle ? 'top-16' : 'top-4'} left-1/2 -translate-x-1/2 z-[1000] max-w-lg`}>
-                <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-2 shadow-lg">
-                  <p className="text-xs text-amber-900">
-                    <span className="font-semibold">Privacy notice:</span> Map locations are jittered by {jitterDistance}m for display. Do not interpret as exact household locations.
-                    {missingRecordsCount > 0 && (
-                      <span className="block mt-1 text-amber-800">
-                        {missingRecordsCount} record{missingRecordsCount !== 1 ? 's' : ''} missing lat/lon coordinates.
-                      </span>
-                    )}
-                  </p>
+              {/* Privacy Warning Banner */}
+              {obfuscateLocations && (
+                <div className={`absolute ${mapTitle ? 'top-16' : 'top-4'} left-1/2 -translate-x-1/2 z-[1000] max-w-lg`}>
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-2 shadow-lg">
+                    <p className="text-xs text-amber-900">
+                      <span className="font-semibold">Privacy notice:</span> Map locations are jittered by {jitterDistance}m for display. Do not interpret as exact household locations.
+                      {missingRecordsCount > 0 && (
+                        <span className="block mt-1 text-amber-800">
+                          {missingRecordsCount} record{missingRecordsCount !== 1 ? 's' : ''} missing lat/lon coordinates.
+                        </span>
+                      )}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Privacy Risk Warning (when obfuscation disabled) */}
-            {!obfuscateLocations && (
-              <div className={`absolute ${mapTitle ? 'top-16' : 'top-4'} left-1/2 -translate-x-1/2 z-[1000] max-w-lg`}>
-                <div className="bg-red-50 border border-red-300 rounded-lg px-4 py-2 shadow-lg">
-                  <p className="text-xs text-red-900">
-                    <span className="font-semibold">Privacy Risk:</span> Displaying exact locations may allow re-identification of individuals. Consider enabling location obfuscation before sharing this map.
-                    {missingRecordsCount > 0 && (
-                      <span className="block mt-1 text-red-800">
-                        {missingRecordsCount} record{missingRecordsCount !== 1 ? 's' : ''} missing lat/lon coordinates.
-                      </span>
-                    )}
-                  </p>
+              {/* Privacy Risk Warning (when obfuscation disabled) */}
+              {!obfuscateLocations && (
+                <div className={`absolute ${mapTitle ? 'top-16' : 'top-4'} left-1/2 -translate-x-1/2 z-[1000] max-w-lg`}>
+                  <div className="bg-red-50 border border-red-300 rounded-lg px-4 py-2 shadow-lg">
+                    <p className="text-xs text-red-900">
+                      <span className="font-semibold">Privacy Risk:</span> Displaying exact locations may allow re-identification of individuals. Consider enabling location obfuscation before sharing this map.
+                      {missingRecordsCount > 0 && (
+                        <span className="block mt-1 text-red-800">
+                          {missingRecordsCount} record{missingRecordsCount !== 1 ? 's' : ''} missing lat/lon coordinates.
+                        </span>
+                      )}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {/* North Arrow */}
-            {showNorthArrow && (
-              <div className="absolute top-4 right-4 z-[1000] bg-white/90 backdrop-blur-sm rounded-lg p-2 shadow-lg pointer-events-none">
-                <svg width="24" height="32" viewBox="0 0 24 32">
-                  <polygon points="12,0 4,28 12,22 20,28" fill="#374151" />
-                  <text x="12" y="18" textAnchor="middle" fontSize="8" fontWeight="bold" fill="white">N</text>
-                </svg>
-              </div>
-            )}
+              )}
 
-            <MapContainer
-              center={defaultCenter}
-              zoom={defaultZoom}
-              style={{ height: '100%', width: '100%' }}
-            >
-              {activeMapStyle !== 'none' && (
-                <TileLayer
-                  url={tileUrls[activeMapStyle].url}
-                  attribution={tileUrls[activeMapStyle].attribution}
-                  opacity={activeMapStyle === 'quiet' ? 0.35 : 1}
-                  crossOrigin="anonymous"
-                />
+              {/* North Arrow */}
+              {showNorthArrow && (
+                <div className="absolute top-4 right-4 z-[1000] bg-white/90 backdrop-blur-sm rounded-lg p-2 shadow-lg pointer-events-none">
+                  <svg width="24" height="32" viewBox="0 0 24 32">
+                    <polygon points="12,0 4,28 12,22 20,28" fill="#374151" />
+                    <text x="12" y="18" textAnchor="middle" fontSize="8" fontWeight="bold" fill="white">N</text>
+                  </svg>
+                </div>
               )}
-              <ScaleControl position="bottomleft" imperial={true} metric={true} />
-              <MapSizeInvalidator panelWidth={panelWidth} />
 
-              {filteredCases.length > 0 && <FitBounds cases={filteredCases} />}
+              <MapContainer
+                center={defaultCenter}
+                zoom={defaultZoom}
+                style={{ height: '100%', width: '100%', cursor: isPlacingSources ? 'crosshair' : undefined }}
+              >
+                {activeMapStyle !== 'none' && (
+                  <TileLayer
+                    url={tileUrls[activeMapStyle].url}
+                    attribution={tileUrls[activeMapStyle].attribution}
+                    opacity={activeMapStyle === 'quiet' ? 0.35 : 1}
+                    crossOrigin="anonymous"
+                  />
+                )}
+                <ScaleControl position="bottomleft" imperial={true} metric={true} />
+                <MapSizeInvalidator panelWidth={panelWidth} timelineVisible={!!timeline} />
 
-              {enableClustering ? (
-                <MarkerClusterGroup
-                  chunkedLoading
-                  showCoverageOnHover={false}
-                >
-                  {filteredCases.map((caseData, index) => (
+                {filteredCases.length > 0 && <FitBounds cases={filteredCases} />}
+
+                {densityLayer && (
+                  <ImageOverlay url={densityLayer.url} bounds={densityLayer.bounds} opacity={densityOpacity} />
+                )}
+
+                {enableClustering ? (
+                  <MarkerClusterGroup
+                    chunkedLoading
+                    showCoverageOnHover={false}
+                  >
+                    {visibleCases.map((caseData, index) => (
+                      <CircleMarker
+                        key={caseData.record.id || index}
+                        center={[caseData.displayLat, caseData.displayLng]}
+                        radius={markerSize}
+                        pathOptions={{
+                          fillColor: getMarkerColor(caseData.classification, colorScheme, orderedClassificationValues, customCategoryColors),
+                          fillOpacity: 0.7,
+                          color: '#fff',
+                          weight: 1,
+                        }}
+                      >
+                        <Popup>
+                          <div className="text-sm">
+                            <p className="font-semibold mb-2">Case Details</p>
+                            {dataset.columns.filter(col => popupColumns.includes(col.key)).map(col => {
+                              const value = caseData.record[col.key];
+                              if (value === null || value === undefined) return null;
+                              return (
+                                <p key={col.key} className="text-gray-600">
+                                  <span className="font-medium">{col.label}:</span> {String(value)}
+                                </p>
+                              );
+                            })}
+                            {!obfuscateLocations && (
+                              <p className="text-gray-500 mt-2 text-xs">
+                                Coordinates: {caseData.lat.toFixed(4)}, {caseData.lng.toFixed(4)}
+                              </p>
+                            )}
+                          </div>
+                        </Popup>
+                      </CircleMarker>
+                    ))}
+                  </MarkerClusterGroup>
+                ) : (
+                  visibleCases.map((caseData, index) => (
                     <CircleMarker
                       key={caseData.record.id || index}
                       center={[caseData.displayLat, caseData.displayLng]}
@@ -1632,111 +2822,281 @@ export function SpotMap({ dataset }: SpotMapProps) {
                         </div>
                       </Popup>
                     </CircleMarker>
-                  ))}
-                </MarkerClusterGroup>
-              ) : (
-                filteredCases.map((caseData, index) => (
-                  <CircleMarker
-                    key={caseData.record.id || index}
-                    center={[caseData.displayLat, caseData.displayLng]}
-                    radius={markerSize}
+                  ))
+                )}
+
+                {/* Scan clusters (dashed when not significant at 0.05) */}
+                {scanResult?.clusters.map((cluster, index) => (
+                  <Circle
+                    key={`scan-${cluster.centerId}`}
+                    center={scanCenters.get(cluster.centerId) ?? [cluster.lat, cluster.lng]}
+                    // Keep single-location clusters visible, and wide enough to cover jittered markers
+                    radius={Math.max(cluster.radiusKm * 1000, obfuscateLocations ? jitterDistance : 100)}
                     pathOptions={{
-                      fillColor: getMarkerColor(caseData.classification, colorScheme, orderedClassificationValues, customCategoryColors),
-                      fillOpacity: 0.7,
-                      color: '#fff',
-                      weight: 1,
+                      color: index === 0 ? CLUSTER_COLOR : SECONDARY_CLUSTER_COLOR,
+                      weight: index === 0 ? 3 : 2,
+                      fillOpacity: 0.08,
+                      dashArray: cluster.pValue < 0.05 ? undefined : '6 4',
                     }}
                   >
                     <Popup>
                       <div className="text-sm">
-                        <p className="font-semibold mb-2">Case Details</p>
-                        {dataset.columns.filter(col => popupColumns.includes(col.key)).map(col => {
-                          const value = caseData.record[col.key];
-                          if (value === null || value === undefined) return null;
-                          return (
-                            <p key={col.key} className="text-gray-600">
-                              <span className="font-medium">{col.label}:</span> {String(value)}
-                            </p>
-                          );
-                        })}
-                        {!obfuscateLocations && (
-                          <p className="text-gray-500 mt-2 text-xs">
-                            Coordinates: {caseData.lat.toFixed(4)}, {caseData.lng.toFixed(4)}
-                          </p>
-                        )}
+                        <p className="font-semibold mb-2">{index === 0 ? 'Most likely cluster' : `Secondary cluster ${index}`}</p>
+                        <p className="text-gray-600">Cases: {cluster.cases} observed, {cluster.expected.toFixed(1)} expected</p>
+                        <p className="text-gray-600">Relative risk: {isFinite(cluster.relativeRisk) ? cluster.relativeRisk.toFixed(2) : '—'}</p>
+                        <p className="text-gray-600">Radius: {cluster.radiusKm.toFixed(2)} km</p>
+                        <p className="text-gray-600">p = {formatScanPValue(cluster.pValue, scanResult.replicates)}</p>
+                      </div>
+                    </Popup>
+                  </Circle>
+                ))}
+
+                {/* Suspected sources and their distance buffers */}
+                {isPlacingSources && <SourcePlacer onPlace={addSource} />}
+                {showBuffers && sources.flatMap(source => bandRadii.map(radius => (
+                  <Circle
+                    key={`buffer-${source.id}-${radius}`}
+                    center={[source.lat, source.lng]}
+                    radius={radius}
+                    interactive={false}
+                    pathOptions={{ color: SOURCE_BUFFER_COLOR, weight: 1.5, dashArray: '4 4', fill: false }}
+                  />
+                )))}
+                {sources.map(source => (
+                  <CircleMarker
+                    key={`source-${source.id}`}
+                    center={[source.lat, source.lng]}
+                    radius={Math.max(6, markerSize + 1)}
+                    pathOptions={{ fillColor: SOURCE_COLOR, fillOpacity: 1, color: '#fff', weight: 2 }}
+                  >
+                    <Popup>
+                      <div className="text-sm">
+                        <p className="font-semibold mb-2">{source.name || 'Suspected source'}</p>
+                        <p className="text-gray-500 text-xs">
+                          Coordinates: {source.lat.toFixed(4)}, {source.lng.toFixed(4)}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => setSources(previous => previous.filter(s => s.id !== source.id))}
+                          className="mt-2 text-xs text-red-600 hover:underline"
+                        >
+                          Remove source
+                        </button>
                       </div>
                     </Popup>
                   </CircleMarker>
-                ))
-              )}
-            </MapContainer>
+                ))}
+              </MapContainer>
 
-            {/* Map Caption Overlay */}
-            {mapCaption && (
-              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] max-w-lg pointer-events-none">
-                <div className="bg-white/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
-                  <p className="text-xs text-gray-700 text-center">{mapCaption}</p>
+              {/* Map Caption Overlay */}
+              {mapCaption && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] max-w-lg pointer-events-none">
+                  <div className="bg-white/95 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
+                    <p className="text-xs text-gray-700 text-center">{mapCaption}</p>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Legend Overlay */}
-            {orderedClassificationValues.length > 0 && colorScheme !== 'default' && (
-              <div className={`absolute ${mapCaption ? 'bottom-16' : 'bottom-4'} left-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 z-[1000]`}>
-                <p className="text-xs font-semibold text-gray-700 mb-2">Legend</p>
-                <div className="space-y-1">
-                  {orderedClassificationValues.map(value => (
-                    <div key={value} className="flex items-center gap-2">
-                      <div
-                        className="w-3 h-3 rounded-full flex-shrink-0"
-                        style={{ backgroundColor: getMarkerColor(value, colorScheme, orderedClassificationValues, customCategoryColors) }}
-                      />
-                      <span className="text-xs text-gray-700">{value}</span>
-                      <span className="text-xs text-gray-400">
-                        ({filteredCases.filter(c => c.classification === value).length})
-                      </span>
+              {/* Legend Overlay */}
+              {((orderedClassificationValues.length > 0 && colorScheme !== 'default') || densityLayer || (scanResult && scanResult.clusters.length > 0) || sources.length > 0) && (
+                <div className={`absolute ${mapCaption ? 'bottom-16' : 'bottom-4'} left-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 z-[1000]`}>
+                  <p className="text-xs font-semibold text-gray-700 mb-2">Legend</p>
+                  <div className="space-y-1">
+                    {colorScheme !== 'default' && orderedClassificationValues.map(value => (
+                      <div key={value} className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: getMarkerColor(value, colorScheme, orderedClassificationValues, customCategoryColors) }}
+                        />
+                        <span className="text-xs text-gray-700">{value}</span>
+                        <span className="text-xs text-gray-400">
+                          ({visibleCases.filter(c => c.classification === value).length})
+                        </span>
+                      </div>
+                    ))}
+                    {scanResult && scanResult.clusters.length > 0 && (
+                      <>
+                        <div className="flex items-center gap-2">
+                          {/* SVG swatches keep their colors in PNG exports, which reset inline backgrounds and borders */}
+                          <svg width="12" height="12" className="flex-shrink-0">
+                            <circle cx="6" cy="6" r="4.5" fill="none" stroke={CLUSTER_COLOR} strokeWidth="2" />
+                          </svg>
+                          <span className="text-xs text-gray-700">Most likely cluster</span>
+                        </div>
+                        {scanResult.clusters.length > 1 && (
+                          <div className="flex items-center gap-2">
+                            <svg width="12" height="12" className="flex-shrink-0">
+                              <circle cx="6" cy="6" r="4.5" fill="none" stroke={SECONDARY_CLUSTER_COLOR} strokeWidth="2" />
+                            </svg>
+                            <span className="text-xs text-gray-700">Secondary cluster</span>
+                          </div>
+                        )}
+                        <p className="text-[11px] text-gray-500">Dashed: p &ge; 0.05</p>
+                      </>
+                    )}
+                    {sources.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <svg width="12" height="12" className="flex-shrink-0">
+                          <circle cx="6" cy="6" r="5" fill={SOURCE_COLOR} stroke="#ffffff" strokeWidth="1.5" />
+                        </svg>
+                        <span className="text-xs text-gray-700">Suspected source{sources.length !== 1 ? 's' : ''}</span>
+                      </div>
+                    )}
+                    {sources.length > 0 && showBuffers && bandRadii.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <svg width="12" height="12" className="flex-shrink-0">
+                          <circle cx="6" cy="6" r="4.5" fill="none" stroke={SOURCE_BUFFER_COLOR} strokeWidth="1.5" strokeDasharray="2 2" />
+                        </svg>
+                        <span className="text-xs text-gray-700">{bandRadii.map(formatDistance).join(', ')} buffers</span>
+                      </div>
+                    )}
+                  </div>
+                  {densityLayer && (
+                    <div className={`space-y-1 ${(orderedClassificationValues.length > 0 && colorScheme !== 'default') || scanResult?.clusters.length || sources.length > 0 ? 'mt-2 pt-2 border-t border-gray-100' : ''}`}>
+                      <p className="text-xs font-medium text-gray-700">
+                        {activeDensitySurface === 'ratio' ? 'Case:control density ratio' : 'Points per km²'}
+                      </p>
+                      {densityLayer.legend.map(item => (
+                        <div key={item.label} className="flex items-center gap-2">
+                          <svg width="12" height="12" className="flex-shrink-0">
+                            <rect width="12" height="12" fill={item.color} stroke="#D1D5DB" />
+                          </svg>
+                          <span className="text-xs text-gray-700">{item.label}</span>
+                        </div>
+                      ))}
+                      <p className="text-[11px] text-gray-500">
+                        Kernel bandwidth {Math.round(effectiveBandwidth ?? 0).toLocaleString()} m
+                      </p>
                     </div>
-                  ))}
+                  )}
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Export Status */}
-            {(exportStatus || exportError) && (
-              <div className="map-export-exclude absolute top-4 right-4 z-[1100] max-w-sm">
-                <div className={`${exportError ? 'bg-red-50 border-red-200 text-red-800' : 'bg-blue-50 border-blue-200 text-blue-800'} border rounded-lg px-3 py-2 shadow-lg`}>
-                  <p className="text-xs">{exportError || exportStatus}</p>
+              {/* Export Status */}
+              {(exportStatus || exportError) && (
+                <div className="map-export-exclude absolute top-4 right-4 z-[1100] max-w-sm">
+                  <div className={`${exportError ? 'bg-red-50 border-red-200 text-red-800' : 'bg-blue-50 border-blue-200 text-blue-800'} border rounded-lg px-3 py-2 shadow-lg`}>
+                    <p className="text-xs">{exportError || exportStatus}</p>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Results Actions - Export */}
-            {latColumn && lngColumn && mapCases.length > 0 && !isExporting && (
-              <div className="map-export-exclude absolute bottom-4 right-4 z-[1000]">
-                <ResultsActions
-                  className="mt-0 pt-0 border-t-0 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-2"
-                  actions={[
-                    {
-                      label: isExporting ? 'Exporting...' : 'Export PNG',
-                      onClick: exportMap,
-                      icon: ExportIcons.image,
-                      disabled: isExporting,
-                      variant: 'primary',
-                    },
-                    {
-                      label: 'Export Dataset CSV',
-                      onClick: exportDatasetCSV,
-                      icon: ExportIcons.csv,
-                      variant: 'secondary',
-                    },
-                    {
-                      label: 'Export GeoJSON',
-                      onClick: exportGeoJSON,
-                      icon: ExportIcons.download,
-                      variant: 'secondary',
-                    },
-                  ]}
+              {/* Results Actions - Export */}
+              {latColumn && lngColumn && mapCases.length > 0 && !isExporting && (
+                <div className="map-export-exclude absolute bottom-4 right-4 z-[1000]">
+                  <ResultsActions
+                    className="mt-0 pt-0 border-t-0 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-2"
+                    actions={[
+                      {
+                        label: isExporting ? 'Exporting...' : 'Export PNG',
+                        onClick: exportMap,
+                        icon: ExportIcons.image,
+                        disabled: isExporting,
+                        variant: 'primary',
+                      },
+                      {
+                        label: 'Export Dataset CSV',
+                        onClick: exportDatasetCSV,
+                        icon: ExportIcons.csv,
+                        variant: 'secondary',
+                      },
+                      {
+                        label: 'Export GeoJSON',
+                        onClick: exportGeoJSON,
+                        icon: ExportIcons.download,
+                        variant: 'secondary',
+                      },
+                    ]}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Timeline: mini epi curve of mapped points with the current step highlighted */}
+            {timeline && (
+              <div className="bg-white border-t border-gray-200 px-4 py-2">
+                <div className="flex items-center gap-3">
+                  <div className="map-export-exclude flex items-center gap-1">
+                    <button
+                      onClick={() => {
+                        setIsPlaying(false);
+                        setCurrentFrame(Math.max(0, frame - 1));
+                      }}
+                      disabled={frame === 0 || isExporting}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded disabled:opacity-40"
+                      title="Previous step"
+                    >
+                      &lsaquo;
+                    </button>
+                    <button
+                      onClick={togglePlayback}
+                      disabled={isExporting}
+                      className="w-14 px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isPlaying ? 'Pause' : 'Play'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsPlaying(false);
+                        setCurrentFrame(Math.min(timeline.bins.length - 1, frame + 1));
+                      }}
+                      disabled={frame === timeline.bins.length - 1 || isExporting}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded disabled:opacity-40"
+                      title="Next step"
+                    >
+                      &rsaquo;
+                    </button>
+                  </div>
+                  <p className="text-xs font-semibold text-gray-800">
+                    {formatFrameLabel(timeline.bins, frame, animationStep, animationMode)}
+                  </p>
+                  <p className="text-xs text-gray-500 ml-auto">
+                    {visibleCases.length} point{visibleCases.length !== 1 ? 's' : ''} {animationMode === 'cumulative' ? 'to date' : 'in this step'}
+                  </p>
+                </div>
+                <svg
+                  viewBox={`0 0 ${timeline.bins.length} 40`}
+                  preserveAspectRatio="none"
+                  className="block w-full h-10 mt-2"
+                  role="img"
+                  aria-label="Epidemic curve of mapped points"
+                >
+                  {timeline.bins.map((bin, index) => {
+                    const highlighted = animationMode === 'cumulative' ? index <= frame : index === frame;
+                    const height = (bin.total / timeline.maxCount) * 38;
+                    return (
+                      <g
+                        key={bin.startDate.getTime()}
+                        onClick={() => {
+                          setIsPlaying(false);
+                          setCurrentFrame(index);
+                        }}
+                        className="cursor-pointer"
+                      >
+                        <title>{`${bin.label}: ${bin.total}`}</title>
+                        <rect x={index} y={0} width={1} height={40} fill={index === frame ? '#DBEAFE' : '#FFFFFF'} />
+                        <rect x={index + 0.1} y={40 - height} width={0.8} height={height} fill={highlighted ? '#3B82F6' : '#D1D5DB'} />
+                      </g>
+                    );
+                  })}
+                </svg>
+                <input
+                  type="range"
+                  min={0}
+                  max={timeline.bins.length - 1}
+                  value={frame}
+                  onChange={(e) => {
+                    setIsPlaying(false);
+                    setCurrentFrame(Number(e.target.value));
+                  }}
+                  disabled={isExporting}
+                  className="map-export-exclude block w-full"
+                  aria-label="Animation step"
                 />
+                <div className="flex justify-between text-[11px] text-gray-500">
+                  <span>{timeline.bins[0].label}</span>
+                  <span>{timeline.bins[timeline.bins.length - 1].label}</span>
+                </div>
               </div>
             )}
           </div>
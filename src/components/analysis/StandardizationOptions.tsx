@@ -0,0 +1,125 @@
+/**
+ * StandardizationOptions Component
+ *
+ * Age-group fields and standard population choice for age standardization.
+ * Shared by the Area Map and the Table Builder's standardized rates panel.
+ */
+import type { DataColumn, Dataset } from '../../types/analysis';
+import { STANDARD_POPULATIONS } from '../../utils/standardization';
+import type { StandardizationSettings } from '../../utils/standardization';
+
+interface StandardizationOptionsProps {
+  caseColumns: DataColumn[];
+  denominatorColumns: DataColumn[];
+  datasets: Dataset[];
+  settings: StandardizationSettings;
+  onChange: (settings: StandardizationSettings) => void;
+}
+
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white';
+
+export function StandardizationOptions({
+  caseColumns,
+  denominatorColumns,
+  datasets,
+  settings,
+  onChange,
+}: StandardizationOptionsProps) {
+  const update = (changes: Partial<StandardizationSettings>) => onChange({ ...settings, ...changes });
+  const standardDataset = datasets.find(item => item.id === settings.standardDatasetId) ?? null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Case Age Group Field</label>
+        <select
+          value={settings.caseAgeField}
+          onChange={(event) => update({ caseAgeField: event.target.value })}
+          className={selectClass}
+        >
+          <option value="">Select age group field...</option>
+          {caseColumns.map(col => (
+            <option key={col.key} value={col.key}>{col.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>Denominator Age Group Field</label>
+        <select
+          value={settings.denominatorAgeField}
+          onChange={(event) => update({ denominatorAgeField: event.target.value })}
+          className={selectClass}
+        >
+          <option value="">Select age group field...</option>
+          {denominatorColumns.map(col => (
+            <option key={col.key} value={col.key}>{col.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClass}>Standard Population</label>
+        <select
+          value={settings.standardId}
+          onChange={(event) => update({ standardId: event.target.value })}
+          className={selectClass}
+        >
+          {STANDARD_POPULATIONS.map(standard => (
+            <option key={standard.id} value={standard.id}>{standard.label}</option>
+          ))}
+          <option value="dataset">From an imported dataset...</option>
+        </select>
+      </div>
+
+      {settings.standardId === 'dataset' && (
+        <div className="space-y-3 pl-3 border-l-2 border-gray-200">
+          <div>
+            <label className={labelClass}>Standard Population Dataset</label>
+            <select
+              value={settings.standardDatasetId}
+              onChange={(event) => update({ standardDatasetId: event.target.value, standardAgeField: '', standardValueField: '' })}
+              className={selectClass}
+            >
+              <option value="">Select dataset...</option>
+              {datasets.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+          {standardDataset && (
+            <>
+              <div>
+                <label className={labelClass}>Age Group Field</label>
+                <select
+                  value={settings.standardAgeField}
+                  onChange={(event) => update({ standardAgeField: event.target.value })}
+                  className={selectClass}
+                >
+                  <option value="">Select...</option>
+                  {standardDataset.columns.map(col => (
+                    <option key={col.key} value={col.key}>{col.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Population Field</label>
+                <select
+                  value={settings.standardValueField}
+                  onChange={(event) => update({ standardValueField: event.target.value })}
+                  className={selectClass}
+                >
+                  <option value="">Select...</option>
+                  {standardDataset.columns.filter(col => col.type === 'number').map(col => (
+                    <option key={col.key} value={col.key}>{col.label}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * StandardizedRatesTable Component
+ *
+ * Crude and directly age-adjusted rates with gamma CIs, plus indirectly
+ * standardized ratios (SMR), for each group or area. Used by the Table Builder.
+ */
+import type { CaseRecord, DataColumn } from '../../types/analysis';
+import type { StandardizationResult, StandardizedGroup } from '../../utils/standardization';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob, exportExcel } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
+import { ResultsActions, ExportIcons } from '../shared';
+
+interface StandardizedRatesTableProps {
+  groupLabel: string;
+  result: StandardizationResult;
+  rateMultiplier: number;
+  standardLabel: string;
+  filename: string;
+}
+
+const exportColumns: DataColumn[] = [
+  { key: 'group', label: 'Group', type: 'text' },
+  { key: 'cases', label: 'Cases', type: 'number' },
+  { key: 'population', label: 'Population', type: 'number' },
+  { key: 'crudeRate', label: 'Crude rate', type: 'number' },
+  { key: 'adjustedRate', label: 'Age-adjusted rate', type: 'number' },
+  { key: 'adjustedRateLower', label: 'Age-adjusted 95% CI lower', type: 'number' },
+  { key: 'adjustedRateUpper', label: 'Age-adjusted 95% CI upper', type: 'number' },
+  { key: 'expected', label: 'Expected cases', type: 'number' },
+  { key: 'smr', label: 'SMR', type: 'number' },
+  { key: 'smrLower', label: 'SMR 95% CI lower', type: 'number' },
+  { key: 'smrUpper', label: 'SMR 95% CI upper', type: 'number' },
+];
+
+const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : '—');
+
+const formatCI = (ci: [number, number]): string => {
+  if (!isFinite(ci[0]) || !isFinite(ci[1])) return '';
+  return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+};
+
+const finiteOrNull = (n: number): number | null => (isFinite(n) ? n : null);
+
+export function StandardizedRatesTable({
+  groupLabel,
+  result,
+  rateMultiplier,
+  standardLabel,
+  filename,
+}: StandardizedRatesTableProps) {
+  const { config: localeConfig } = useLocale();
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const rows = [...result.groups, result.overall];
+
+  const exportRows = () => rows.map((group, i) => ({
+    id: String(i + 1),
+    group: group.label,
+    cases: group.direct.cases,
+    population: group.direct.population,
+    crudeRate: finiteOrNull(group.direct.crudeRate),
+    adjustedRate: finiteOrNull(group.direct.adjustedRate),
+    adjustedRateLower: finiteOrNull(group.direct.adjustedRateCI[0]),
+    adjustedRateUpper: finiteOrNull(group.direct.adjustedRateCI[1]),
+    expected: finiteOrNull(group.indirect.expected),
+    smr: finiteOrNull(group.indirect.smr),
+    smrLower: finiteOrNull(group.indirect.smrCI[0]),
+    smrUpper: finiteOrNull(group.indirect.smrCI[1]),
+  }));
+
+  const subtitle = `Rates per ${rateMultiplier.toLocaleString()}; direct standardization to the ${standardLabel}; SMR against all groups combined`;
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = exportRows();
+    const csv = exportToCSV(exportColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  const handleExportExcel = () => {
+    exportExcel({
+      title: `Age-standardized rates by ${groupLabel}`,
+      subtitle,
+      columns: exportColumns.map(c => ({ header: c.label, key: c.key })),
+      rows: exportRows(),
+    }, `${filename}.xlsx`);
+  };
+
+  const renderRow = (group: StandardizedGroup, isOverall: boolean) => (
+    <tr key={isOverall ? '__overall' : group.key} className={isOverall ? 'bg-gray-50 font-medium' : ''}>
+      <td className="px-3 py-2 text-sm text-gray-900">{group.label}</td>
+      <td className={cellClass}>{group.direct.cases}</td>
+      <td className={cellClass}>{group.direct.population.toLocaleString()}</td>
+      <td className={cellClass}>{formatMeasure(group.direct.crudeRate)}</td>
+      <td className={cellClass}>
+        {formatMeasure(group.direct.adjustedRate)} {formatCI(group.direct.adjustedRateCI)}
+        {group.direct.missingStrata > 0 && <span className="text-amber-700"> *</span>}
+      </td>
+      <td className={cellClass}>{formatMeasure(group.indirect.expected)}</td>
+      <td className={cellClass}>
+        {isOverall ? '1.00 (reference)' : `${formatMeasure(group.indirect.smr)} ${formatCI(group.indirect.smrCI)}`}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{groupLabel}</th>
+              <th className={headerClass}>Cases</th>
+              <th className={headerClass}>Population</th>
+              <th className={headerClass}>Crude Rate</th>
+              <th className={headerClass}>Age-Adjusted Rate (95% CI)</th>
+              <th className={headerClass}>Expected</th>
+              <th className={headerClass}>SMR (95% CI)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.groups.map(group => renderRow(group, false))}
+            {renderRow(result.overall, true)}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+        <div>{subtitle}.</div>
+        <div className="text-gray-500">
+          Age-adjusted CIs use the gamma method (Fay &amp; Feuer); SMR CIs are exact Poisson limits for the observed count.
+        </div>
+        {rows.some(group => group.direct.missingStrata > 0) && (
+          <div className="text-amber-700">* Some age groups have no population here and are left out of the adjusted rate.</div>
+        )}
+        {result.unmatchedAgeGroups.length > 0 && (
+          <div className="text-amber-700">
+            No standard weight for: {result.unmatchedAgeGroups.join(', ')}. Use age groups that line up with the standard's 5-year groups.
+          </div>
+        )}
+        {result.unmatchedCaseCount > 0 && (
+          <div className="text-amber-700">
+            {result.unmatchedCaseCount} case record{result.unmatchedCaseCount === 1 ? '' : 's'} had a missing age group or no matching denominator row.
+          </div>
+        )}
+        <ResultsActions
+          actions={[
+            { label: 'Export CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary' },
+            { label: 'Export Excel', onClick: handleExportExcel, icon: ExportIcons.download, variant: 'secondary' },
+          ]}
+        />
+      </div>
+    </div>
+  );
+}
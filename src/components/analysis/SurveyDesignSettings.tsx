@@ -0,0 +1,108 @@
+/**
+ * SurveyDesignSettings Component
+ *
+ * Declares the weight, stratum and cluster (PSU) columns of a dataset that
+ * comes from a complex survey. When any are set, the Variable Explorer and
+ * Table Builder add design-based estimates (weighted percentages and means
+ * with linearized SEs, design effects and the Rao-Scott chi-square).
+ */
+import { useState } from 'react';
+import type { Dataset, SurveyDesign } from '../../types/analysis';
+import { describeSurveyDesign, getActiveSurveyDesign, prepareSurveySample } from '../../utils/surveyDesign';
+
+interface SurveyDesignSettingsProps {
+  dataset: Dataset;
+  onChange: (design: SurveyDesign | undefined) => void;
+}
+
+const FIELDS: Array<{ key: keyof SurveyDesign; label: string; hint: string; numeric: boolean }> = [
+  { key: 'weightField', label: 'Sampling weight', hint: 'Inverse probability of selection', numeric: true },
+  { key: 'strataField', label: 'Strata', hint: 'Sampled independently', numeric: false },
+  { key: 'clusterField', label: 'Clusters (PSU)', hint: 'Primary sampling units within strata', numeric: false },
+];
+
+export function SurveyDesignSettings({ dataset, onChange }: SurveyDesignSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const design = getActiveSurveyDesign(dataset.surveyDesign, dataset.columns);
+  const summary = design ? prepareSurveySample(dataset.records, design).summary : null;
+
+  const updateField = (key: keyof SurveyDesign, value: string) => {
+    const next: SurveyDesign = { ...design, [key]: value || undefined };
+    onChange(next.weightField || next.strataField || next.clusterField ? next : undefined);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+          design
+            ? 'bg-amber-50 border-amber-300 text-amber-800 hover:bg-amber-100'
+            : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+        }`}
+        title={design ? describeSurveyDesign(design, dataset.columns) : 'Declare weights, strata and clusters'}
+      >
+        Survey design: {design ? 'on' : 'off'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-4 z-20">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-900">Complex survey design</h3>
+            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600 text-sm">
+              ✕
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-700">{field.label}</label>
+                <select
+                  value={design?.[field.key] ?? ''}
+                  onChange={e => updateField(field.key, e.target.value)}
+                  className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded"
+                >
+                  <option value="">None</option>
+                  {dataset.columns
+                    .filter(col => !field.numeric || col.type === 'number')
+                    .map(col => (
+                      <option key={col.key} value={col.key}>{col.label}</option>
+                    ))}
+                </select>
+                <p className="text-[11px] text-gray-400 mt-0.5">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          {summary && (
+            <div className="mt-3 pt-3 border-t border-gray-100 text-xs text-gray-600 space-y-0.5">
+              <p>
+                {summary.records} records · {summary.strata} {summary.strata === 1 ? 'stratum' : 'strata'} · {summary.psus} PSUs · design df {summary.degreesOfFreedom}
+              </p>
+              {summary.excluded > 0 && (
+                <p className="text-amber-700">
+                  {summary.excluded} records excluded (missing or non-positive weight, or missing stratum/cluster)
+                </p>
+              )}
+              {summary.singletonStrata > 0 && (
+                <p className="text-amber-700">
+                  {summary.singletonStrata} {summary.singletonStrata === 1 ? 'stratum has' : 'strata have'} a single PSU and add no variance
+                </p>
+              )}
+            </div>
+          )}
+
+          {design && (
+            <button
+              onClick={() => onChange(undefined)}
+              className="mt-3 text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear design (simple random sampling)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
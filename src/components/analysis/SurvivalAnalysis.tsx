@@ -0,0 +1,618 @@
+/**
+ * SurvivalAnalysis Component
+ *
+ * Time-to-event analysis for cohort data with entry and exit dates:
+ * incidence rates per person-time with rate ratios, Kaplan-Meier survival
+ * curves with 95% CIs, and the log-rank test between groups.
+ *
+ * Settings are persisted per dataset under `epikit_survival_<datasetId>`.
+ */
+import { useState, useMemo, useEffect } from 'react';
+import type { CaseRecord, DataColumn, Dataset } from '../../types/analysis';
+import {
+  buildSurvivalData,
+  calculatePersonTimeRates,
+  getSurvivalGroups,
+  kaplanMeierByGroup,
+  logRankTest,
+  PERSON_TIME_UNIT_DAYS,
+} from '../../utils/survival';
+import type { KaplanMeierCurve, PersonTimeRate, PersonTimeUnit } from '../../utils/survival';
+import {
+  downloadBlob,
+  exportExcel,
+  exportPNG,
+  exportSVG,
+  getDefaultDimensions,
+  svgAxisLine,
+  svgGridLine,
+  svgSource,
+  svgText,
+  svgTitle,
+  svgWrapper,
+} from '../../utils/chartExport';
+import { getChartColors } from '../../utils/chartColors';
+import { exportToCSV } from '../../utils/csvParser';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { useLocale } from '../../contexts/LocaleContext';
+import { TabHeader, ResultsActions, ExportIcons, StatTooltip, statDefinitions } from '../shared';
+
+interface SurvivalAnalysisProps {
+  dataset: Dataset;
+}
+
+const units: PersonTimeUnit[] = ['days', 'weeks', 'months', 'years'];
+const rateMultipliers = [1, 100, 1000, 10000, 100000];
+const ENTRY_PATTERN = /entry|enrol|start|admi|onset|exposure/i;
+const EXIT_PATTERN = /exit|end|last|death|discharge|outcome|censor/i;
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500';
+
+const rateColumns: DataColumn[] = [
+  { key: 'group', label: 'Group', type: 'text' },
+  { key: 'subjects', label: 'Subjects', type: 'number' },
+  { key: 'events', label: 'Events', type: 'number' },
+  { key: 'personTime', label: 'Person-time', type: 'number' },
+  { key: 'rate', label: 'Rate', type: 'number' },
+  { key: 'rateLower', label: 'Rate 95% CI lower', type: 'number' },
+  { key: 'rateUpper', label: 'Rate 95% CI upper', type: 'number' },
+  { key: 'rateRatio', label: 'Rate ratio', type: 'number' },
+  { key: 'rateRatioLower', label: 'Rate ratio 95% CI lower', type: 'number' },
+  { key: 'rateRatioUpper', label: 'Rate ratio 95% CI upper', type: 'number' },
+  { key: 'pValue', label: 'p (Wald)', type: 'number' },
+];
+
+const survivalColumns: DataColumn[] = [
+  { key: 'group', label: 'Group', type: 'text' },
+  { key: 'time', label: 'Time (days)', type: 'number' },
+  { key: 'atRisk', label: 'At risk', type: 'number' },
+  { key: 'events', label: 'Events', type: 'number' },
+  { key: 'censored', label: 'Censored', type: 'number' },
+  { key: 'survival', label: 'Survival', type: 'number' },
+  { key: 'standardError', label: 'Standard error', type: 'number' },
+  { key: 'lower', label: '95% CI lower', type: 'number' },
+  { key: 'upper', label: '95% CI upper', type: 'number' },
+];
+
+const finiteOrNull = (n: number): number | null => (isFinite(n) ? n : null);
+
+/** Generate the Kaplan-Meier step chart; time is plotted in the person-time unit. */
+function generateKaplanMeierSvg(
+  curves: KaplanMeierCurve[],
+  colors: string[],
+  unit: PersonTimeUnit,
+  showCI: boolean,
+  chartTitle: string,
+  chartSubtitle: string,
+  chartSource: string
+): string {
+  if (curves.every(curve => curve.steps.length === 0)) return '';
+
+  const { width, height, margin } = getDefaultDimensions('line');
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const unitDays = PERSON_TIME_UNIT_DAYS[unit];
+
+  const maxDays = Math.max(1, ...curves.flatMap(curve => curve.steps.map(step => step.time)));
+  const rawMax = maxDays / unitDays;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawMax)));
+  const xStep = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => rawMax / s <= 8) ?? magnitude * 10;
+  const xMax = Math.ceil(rawMax / xStep) * xStep;
+
+  const toX = (days: number) => margin.left + (days / unitDays / xMax) * plotWidth;
+  const toY = (survival: number) => margin.top + (1 - survival) * plotHeight;
+
+  let svg = '';
+  if (chartTitle) svg += svgTitle(width, chartTitle, chartSubtitle || undefined);
+
+  for (let i = 0; i <= 5; i++) {
+    const value = i / 5;
+    svg += svgGridLine(margin.left, toY(value), margin.left + plotWidth, toY(value));
+    svg += svgText(margin.left - 10, toY(value), value.toFixed(1), { anchor: 'end', fontSize: 11, fill: '#666', dy: '0.35em' });
+  }
+  for (let value = 0; value <= xMax + xStep / 1000; value += xStep) {
+    const px = margin.left + (value / xMax) * plotWidth;
+    svg += svgText(px, margin.top + plotHeight + 18, formatSigFigs(value, 3), { fontSize: 11, fill: '#666' });
+  }
+  svg += svgAxisLine(margin.left, margin.top, margin.left, margin.top + plotHeight);
+  svg += svgAxisLine(margin.left, margin.top + plotHeight, margin.left + plotWidth, margin.top + plotHeight);
+  svg += svgText(margin.left + plotWidth / 2, margin.top + plotHeight + 40, `Time since entry (${unit})`, { fontSize: 12, fill: '#333' });
+  svg += svgText(16, margin.top + plotHeight / 2, 'Survival probability', { fontSize: 12, fill: '#333', rotate: -90 });
+
+  curves.forEach((curve, index) => {
+    const color = colors[index];
+    if (curve.steps.length === 0) return;
+
+    if (showCI) {
+      const upper: string[] = [`${toX(0)},${toY(1)}`];
+      const lower: string[] = [`${toX(0)},${toY(1)}`];
+      let previous: [number, number] = [1, 1];
+      curve.steps.forEach(step => {
+        lower.push(`${toX(step.time)},${toY(previous[0])}`, `${toX(step.time)},${toY(step.ci[0])}`);
+        upper.push(`${toX(step.time)},${toY(previous[1])}`, `${toX(step.time)},${toY(step.ci[1])}`);
+        previous = step.ci;
+      });
+      svg += `<polygon points="${[...upper, ...lower.reverse()].join(' ')}" fill="${color}" fill-opacity="0.15" stroke="none"/>`;
+    }
+
+    let path = `M${toX(0)},${toY(1)}`;
+    let survival = 1;
+    curve.steps.forEach(step => {
+      path += ` H${toX(step.time)}`;
+      if (step.survival !== survival) path += ` V${toY(step.survival)}`;
+      survival = step.survival;
+    });
+    svg += `<path d="${path}" fill="none" stroke="${color}" stroke-width="2"/>`;
+
+    curve.steps.filter(step => step.censored > 0).forEach(step => {
+      const px = toX(step.time);
+      const py = toY(step.survival);
+      svg += `<line x1="${px}" y1="${py - 5}" x2="${px}" y2="${py + 5}" stroke="${color}" stroke-width="1.5"/>`;
+    });
+  });
+
+  if (curves.length > 1) {
+    curves.forEach((curve, index) => {
+      const y = margin.top + 10 + index * 18;
+      const x = margin.left + plotWidth - 150;
+      svg += `<line x1="${x}" y1="${y}" x2="${x + 20}" y2="${y}" stroke="${colors[index]}" stroke-width="2"/>`;
+      svg += svgText(x + 26, y, curve.group, { anchor: 'start', fontSize: 11, fill: '#333', dy: '0.35em' });
+    });
+  }
+
+  if (chartSource) svg += svgSource(width, height, chartSource);
+  return svgWrapper(width, height, svg);
+}
+
+export function SurvivalAnalysis({ dataset }: SurvivalAnalysisProps) {
+  const { config: localeConfig } = useLocale();
+  const persistenceKey = `epikit_survival_${dataset.id}`;
+  const [saved] = useState<Record<string, unknown>>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  // Discard persisted column keys that no longer exist in the dataset
+  const validSavedColumn = (value: unknown): string => {
+    const key = typeof value === 'string' ? value : '';
+    return key && dataset.columns.some(col => col.key === key) ? key : '';
+  };
+
+  const dateColumns = useMemo(() => dataset.columns.filter(col => col.type === 'date'), [dataset.columns]);
+
+  // Categorical columns for the event indicator and comparison groups
+  const categoricalColumns = useMemo(() => {
+    return dataset.columns.filter(col => {
+      if (col.type === 'date') return false;
+      if (col.key === 'id' || col.key === 'case_id' || col.key === 'participant_id') return false;
+      if (col.key.includes('latitude') || col.key.includes('longitude')) return false;
+      const uniqueValues = new Set(dataset.records.map(r => r[col.key])).size;
+      return uniqueValues >= 2 && uniqueValues <= 20;
+    });
+  }, [dataset]);
+
+  const [entryField, setEntryField] = useState<string>(() =>
+    validSavedColumn(saved.entryField) || (dateColumns.find(col => ENTRY_PATTERN.test(`${col.key} ${col.label}`)) ?? dateColumns[0])?.key || '');
+  const [exitField, setExitField] = useState<string>(() =>
+    validSavedColumn(saved.exitField) || dateColumns.find(col => EXIT_PATTERN.test(`${col.key} ${col.label}`))?.key || '');
+  const [eventField, setEventField] = useState<string>(() => validSavedColumn(saved.eventField));
+  const [eventValues, setEventValues] = useState<Set<string>>(() =>
+    new Set(Array.isArray(saved.eventValues) ? saved.eventValues as string[] : []));
+  const [groupField, setGroupField] = useState<string>(() => validSavedColumn(saved.groupField));
+  const [referenceGroup, setReferenceGroup] = useState<string>(() => (saved.referenceGroup as string) ?? '');
+  const [unit, setUnit] = useState<PersonTimeUnit>(() =>
+    units.includes(saved.unit as PersonTimeUnit) ? saved.unit as PersonTimeUnit : 'years');
+  const [rateMultiplier, setRateMultiplier] = useState<number>(() => (saved.rateMultiplier as number) || 1000);
+  const [showCI, setShowCI] = useState<boolean>(() => saved.showCI !== false);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify({
+        entryField,
+        exitField,
+        eventField,
+        eventValues: Array.from(eventValues),
+        groupField,
+        referenceGroup,
+        unit,
+        rateMultiplier,
+        showCI,
+      }));
+    } catch (e) {
+      console.error('Failed to save survival analysis settings:', e);
+    }
+  }, [persistenceKey, entryField, exitField, eventField, eventValues, groupField, referenceGroup, unit, rateMultiplier, showCI]);
+
+  const eventOptions = useMemo(() => {
+    if (!eventField) return [];
+    const values = new Set(dataset.records.map(r => String(r[eventField] ?? '').trim()));
+    return Array.from(values).filter(v => v !== '').sort();
+  }, [dataset.records, eventField]);
+
+  const survivalData = useMemo(() => {
+    if (!entryField || !exitField || !eventField || eventValues.size === 0) return null;
+    return buildSurvivalData(dataset.records, {
+      entryField,
+      exitField,
+      eventField,
+      eventValues: Array.from(eventValues),
+      groupField: groupField || undefined,
+    });
+  }, [dataset.records, entryField, exitField, eventField, eventValues, groupField]);
+
+  const groupColumn = dataset.columns.find(col => col.key === groupField);
+  const groups = useMemo(() => (
+    survivalData ? getSurvivalGroups(survivalData.observations, groupColumn?.valueOrder) : []
+  ), [survivalData, groupColumn]);
+  const activeReference = groups.includes(referenceGroup) ? referenceGroup : groups[0] ?? '';
+
+  const results = useMemo(() => {
+    if (!survivalData || survivalData.observations.length === 0) return null;
+    const { observations } = survivalData;
+    return {
+      rates: calculatePersonTimeRates(observations, groups, activeReference, unit, rateMultiplier),
+      curves: kaplanMeierByGroup(observations, groups),
+      logRank: groups.length > 1 ? logRankTest(observations, groups) : null,
+    };
+  }, [survivalData, groups, activeReference, unit, rateMultiplier]);
+
+  const chartTitle = groupColumn ? `Kaplan-Meier survival by ${groupColumn.label}` : 'Kaplan-Meier survival';
+  const chartSubtitle = showCI ? 'Shaded bands: 95% confidence intervals; ticks mark censored follow-up' : 'Ticks mark censored follow-up';
+  const colors = useMemo(() => getChartColors(Math.max(groups.length, 1)), [groups.length]);
+  const svgContent = useMemo(() => {
+    if (!results) return '';
+    return generateKaplanMeierSvg(results.curves, colors, unit, showCI, chartTitle, chartSubtitle, dataset.name);
+  }, [results, colors, unit, showCI, chartTitle, chartSubtitle, dataset.name]);
+
+  const formatMeasure = (n: number): string => (isFinite(n) ? formatSigFigs(n, 3) : 'Undefined');
+  const formatCI = (ci: [number, number]): string => {
+    if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Undefined)';
+    return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+  };
+  const formatPValue = (p: number): string => {
+    if (!isFinite(p)) return '—';
+    return p < 0.001 ? '<0.001' : p.toFixed(3);
+  };
+  const formatMedian = (days: number | null): string =>
+    days === null ? 'Not reached' : `${formatSigFigs(days / PERSON_TIME_UNIT_DAYS[unit], 3)} ${unit}`;
+
+  const rateLabel = `per ${rateMultiplier.toLocaleString()} person-${unit}`;
+  const filename = `${dataset.name}_survival`;
+
+  const rateExportRows = () => {
+    if (!results) return [];
+    const rows: PersonTimeRate[] = [...results.rates.groups, results.rates.overall];
+    return rows.map((row, i) => ({
+      id: String(i + 1),
+      group: row.group,
+      subjects: row.subjects,
+      events: row.events,
+      personTime: finiteOrNull(row.personTime),
+      rate: finiteOrNull(row.rate),
+      rateLower: finiteOrNull(row.rateCI[0]),
+      rateUpper: finiteOrNull(row.rateCI[1]),
+      rateRatio: finiteOrNull(row.rateRatio),
+      rateRatioLower: finiteOrNull(row.rateRatioCI[0]),
+      rateRatioUpper: finiteOrNull(row.rateRatioCI[1]),
+      pValue: finiteOrNull(row.pValue),
+    }));
+  };
+
+  const handleExportRatesCSV = () => {
+    const records: CaseRecord[] = rateExportRows();
+    const csv = exportToCSV(rateColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}_rates.csv`);
+  };
+
+  const handleExportRatesExcel = () => {
+    exportExcel({
+      title: groupColumn ? `Incidence rates by ${groupColumn.label}` : 'Incidence rate',
+      subtitle: `Rates ${rateLabel}; exact Poisson CIs; rate ratios vs. ${activeReference}`,
+      columns: rateColumns.map(c => ({ header: c.label, key: c.key })),
+      rows: rateExportRows(),
+    }, `${filename}_rates.xlsx`);
+  };
+
+  const handleExportSurvivalCSV = () => {
+    if (!results) return;
+    const records: CaseRecord[] = results.curves.flatMap(curve => curve.steps.map((step, i) => ({
+      id: `${curve.group}-${i}`,
+      group: curve.group,
+      time: step.time,
+      atRisk: step.atRisk,
+      events: step.events,
+      censored: step.censored,
+      survival: step.survival,
+      standardError: step.standardError,
+      lower: step.ci[0],
+      upper: step.ci[1],
+    })));
+    const csv = exportToCSV(survivalColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}_kaplan_meier.csv`);
+  };
+
+  const excluded = survivalData?.excluded;
+  const excludedTotal = excluded ? excluded.missingDates + excluded.exitBeforeEntry + excluded.missingGroup : 0;
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-700';
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Person-Time & Survival Analysis"
+        description="Follow a cohort from entry to exit: incidence rates per person-time, Kaplan-Meier survival curves and the log-rank test."
+      />
+
+      {/* Follow-up definition */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <h4 className="text-sm font-semibold text-gray-900">Follow-Up</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Entry Date</label>
+            <select value={entryField} onChange={(e) => setEntryField(e.target.value)} className={selectClass}>
+              <option value="">Select date...</option>
+              {dateColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Exit Date (event or end of follow-up)</label>
+            <select value={exitField} onChange={(e) => setExitField(e.target.value)} className={selectClass}>
+              <option value="">Select date...</option>
+              {dateColumns.filter(col => col.key !== entryField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Event Indicator</label>
+            <select
+              value={eventField}
+              onChange={(e) => {
+                setEventField(e.target.value);
+                setEventValues(new Set());
+              }}
+              className={selectClass}
+            >
+              <option value="">Select variable...</option>
+              {categoricalColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {dateColumns.length < 2 && (
+          <p className="text-xs text-amber-700">This analysis needs two date columns. Set column types to Date in the line list if dates were imported as text.</p>
+        )}
+
+        {eventField && eventOptions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Values that mean the event occurred (all others are censored)</label>
+            <div className="flex flex-wrap gap-2">
+              {eventOptions.map(value => (
+                <label
+                  key={value}
+                  className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm cursor-pointer transition-colors ${
+                    eventValues.has(value)
+                      ? 'bg-gray-700 text-white'
+                      : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={eventValues.has(value)}
+                    onChange={(e) => {
+                      const next = new Set(eventValues);
+                      if (e.target.checked) next.add(value);
+                      else next.delete(value);
+                      setEventValues(next);
+                    }}
+                    className="sr-only"
+                  />
+                  {value}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Compare Groups</label>
+            <select value={groupField} onChange={(e) => setGroupField(e.target.value)} className={selectClass}>
+              <option value="">None (whole cohort)</option>
+              {categoricalColumns.filter(col => col.key !== eventField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          {groups.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reference Group</label>
+              <select value={activeReference} onChange={(e) => setReferenceGroup(e.target.value)} className={selectClass}>
+                {groups.map(group => (
+                  <option key={group} value={group}>{group}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Person-Time Unit</label>
+            <select value={unit} onChange={(e) => setUnit(e.target.value as PersonTimeUnit)} className={selectClass}>
+              {units.map(u => (
+                <option key={u} value={u}>Person-{u}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rate Multiplier</label>
+            <select value={rateMultiplier} onChange={(e) => setRateMultiplier(Number(e.target.value))} className={selectClass}>
+              {rateMultipliers.map(multiplier => (
+                <option key={multiplier} value={multiplier}>per {multiplier.toLocaleString()}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!survivalData && (
+        <div className="text-center py-8 text-gray-400">
+          Select entry and exit dates, an event indicator and the event values to begin analysis
+        </div>
+      )}
+
+      {excluded && excludedTotal > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          {excludedTotal} record{excludedTotal === 1 ? '' : 's'} excluded:
+          {excluded.missingDates > 0 && ` ${excluded.missingDates} with a missing or invalid date;`}
+          {excluded.exitBeforeEntry > 0 && ` ${excluded.exitBeforeEntry} with exit before entry;`}
+          {excluded.missingGroup > 0 && ` ${excluded.missingGroup} with no group value;`}
+        </div>
+      )}
+
+      {results && (
+        <div className="space-y-6">
+          {/* Person-time rates */}
+          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{groupColumn?.label ?? 'Cohort'}</th>
+                    <th className={headerClass}>Subjects</th>
+                    <th className={headerClass}>Events</th>
+                    <th className={headerClass}>Person-{unit}</th>
+                    <th className={headerClass}>Rate (95% CI)</th>
+                    {groups.length > 1 && (
+                      <>
+                        <th className={headerClass}>
+                          <div className="flex items-center justify-center gap-1">
+                            <span>Rate Ratio (95% CI)</span>
+                            <StatTooltip
+                              term="Incidence Rate Ratio"
+                              definition="The incidence rate in this group divided by the rate in the reference group."
+                              interpretation="1.0 = no difference; 2.0 = twice the rate; 0.5 = half the rate."
+                            />
+                          </div>
+                        </th>
+                        <th className={headerClass}>
+                          <div className="flex items-center justify-center gap-1">
+                            <span>p (Wald)</span>
+                            <StatTooltip {...statDefinitions.pValue} />
+                          </div>
+                        </th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {[...results.rates.groups, ...(groups.length > 1 ? [results.rates.overall] : [])].map(row => {
+                    const isOverall = row === results.rates.overall;
+                    return (
+                      <tr key={isOverall ? '__overall' : row.group} className={isOverall ? 'bg-gray-50 font-medium' : ''}>
+                        <td className="px-3 py-2 text-sm text-gray-900">{row.group}</td>
+                        <td className={cellClass}>{row.subjects}</td>
+                        <td className={cellClass}>{row.events}</td>
+                        <td className={cellClass}>{formatSigFigs(row.personTime, 4)}</td>
+                        <td className={cellClass}>{formatMeasure(row.rate)} {formatCI(row.rateCI)}</td>
+                        {groups.length > 1 && (
+                          <>
+                            <td className={cellClass}>
+                              {isOverall ? '' : row.isReference ? '1.00 (reference)' : `${formatMeasure(row.rateRatio)} ${formatCI(row.rateRatioCI)}`}
+                            </td>
+                            <td className={cellClass}>{isOverall || row.isReference ? '' : formatPValue(row.pValue)}</td>
+                          </>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+              <div>Rates {rateLabel}. Rate CIs are exact Poisson limits; rate ratio CIs use the Wald method on the log scale.</div>
+              <ResultsActions
+                actions={[
+                  { label: 'Export CSV', onClick: handleExportRatesCSV, icon: ExportIcons.csv, variant: 'secondary' },
+                  { label: 'Export Excel', onClick: handleExportRatesExcel, icon: ExportIcons.download, variant: 'secondary' },
+                ]}
+              />
+            </div>
+          </div>
+
+          {/* Kaplan-Meier curve */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900">Kaplan-Meier Survival</h4>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={showCI} onChange={(e) => setShowCI(e.target.checked)} />
+                Show 95% CI
+              </label>
+            </div>
+            {svgContent && (
+              <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: svgContent }} />
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{groupColumn?.label ?? 'Cohort'}</th>
+                    <th className={headerClass}>Subjects</th>
+                    <th className={headerClass}>Events</th>
+                    <th className={headerClass}>Median Survival</th>
+                    {results.logRank && (
+                      <>
+                        <th className={headerClass}>Observed</th>
+                        <th className={headerClass}>Expected</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {results.curves.map((curve, index) => (
+                    <tr key={curve.group}>
+                      <td className="px-3 py-2 text-sm text-gray-900">
+                        <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ backgroundColor: colors[index] }} />
+                        {curve.group}
+                      </td>
+                      <td className={cellClass}>{curve.subjects}</td>
+                      <td className={cellClass}>{curve.events}</td>
+                      <td className={cellClass}>{formatMedian(curve.medianSurvival)}</td>
+                      {results.logRank && (
+                        <>
+                          <td className={cellClass}>{results.logRank.groups[index].observed}</td>
+                          <td className={cellClass}>{results.logRank.groups[index].expected.toFixed(2)}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {results.logRank && (
+              <p className="text-sm text-gray-700">
+                Log-rank test: χ² = {isFinite(results.logRank.chiSquare) ? results.logRank.chiSquare.toFixed(2) : '—'},
+                {' '}df = {results.logRank.degreesOfFreedom}, p = {formatPValue(results.logRank.pValue)}.
+                {' '}A small p-value means survival differs between groups over the whole follow-up period.
+              </p>
+            )}
+
+            <ResultsActions
+              actions={[
+                { label: 'Export SVG', onClick: () => exportSVG(svgContent, `${filename}.svg`), icon: ExportIcons.image, variant: 'secondary', disabled: !svgContent },
+                { label: 'Export PNG', onClick: () => exportPNG(svgContent, `${filename}.png`), icon: ExportIcons.image, variant: 'secondary', disabled: !svgContent },
+                { label: 'Export Survival Table CSV', onClick: handleExportSurvivalCSV, icon: ExportIcons.csv, variant: 'secondary' },
+              ]}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
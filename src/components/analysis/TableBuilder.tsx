@@ -1,11 +1,17 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import type { Dataset } from '../../types/analysis';
-import { calculateCrossTabulation } from '../../utils/statistics';
-import type { CrossTabResults } from '../../utils/statistics';
+import { calculateCrossTabulation, calculateDoseResponse, orderExposureLevels, proportionCI, CONFIDENCE_METHOD_LABELS } from '../../utils/statistics';
+import type { CrossTabResults, DoseResponseResults, ConfidenceMethod } from '../../utils/statistics';
 import { formatSigFigs, formatStatPercent } from '../../utils/localeNumbers';
+import { getActiveSurveyDesign, prepareSurveySample, surveyCrossTab } from '../../utils/surveyDesign';
+import type { SurveyCrossTabCell, SurveyCrossTabResults, SurveyEstimate } from '../../utils/surveyDesign';
+import { DoseResponseTable } from './DoseResponseTable';
+import { AgeStandardizedRates } from './AgeStandardizedRates';
 
 interface TableBuilderProps {
   dataset: Dataset;
+  /** All loaded datasets (denominators for age-standardized rates) */
+  datasets: Dataset[];
   initialRowVars?: string[];
   onRowVarsUsed?: () => void;
   // Optional controlled state for persistence
@@ -17,10 +23,22 @@ interface TableBuilderProps {
 
 type PercentType = 'row' | 'column' | 'total';
 
+/** The weighted percentage of a survey cross-tab cell matching the table's percent type */
+function surveyCellPercent(cell: SurveyCrossTabCell | undefined, percentType: PercentType): SurveyEstimate | null {
+  if (!cell) return null;
+  switch (percentType) {
+    case 'row': return cell.rowPercent;
+    case 'column': return cell.colPercent;
+    case 'total': return cell.totalPercent;
+  }
+}
+
 interface TableOptions {
   percentType: PercentType;
   showCumPercent: boolean;
   includeMissing: boolean;
+  /** Confidence interval method for frequency percents ('none' hides the column) */
+  ciMethod: ConfidenceMethod | 'none';
 }
 
 interface FrequencyRow {
@@ -32,6 +50,8 @@ interface FrequencyRow {
   cumPercent: number;
   isVariableHeader: boolean;
   isMissing: boolean;
+  /** 95% CI for the percent (0-100 scale), when a CI method is selected */
+  percentCI: [number, number] | null;
 }
 
 interface CrossTabCell {
@@ -57,6 +77,7 @@ interface SingleCrossTab {
  */
 export function TableBuilder({
   dataset,
+  datasets,
   initialRowVars = [],
   onRowVarsUsed,
   rowVars: controlledRowVars,
@@ -94,9 +115,10 @@ export function TableBuilder({
         percentType: (savedOpts.percentType as PercentType) || 'column',
         showCumPercent: savedOpts.showCumPercent !== undefined ? savedOpts.showCumPercent as boolean : false,
         includeMissing: savedOpts.includeMissing !== undefined ? savedOpts.includeMissing as boolean : true,
+        ciMethod: (savedOpts.ciMethod as ConfidenceMethod | 'none') || 'none',
       };
     }
-    return { percentType: 'column', showCumPercent: false, includeMissing: true };
+    return { percentType: 'column', showCumPercent: false, includeMissing: true, ciMethod: 'none' };
   });
   const [copySuccess, setCopySuccess] = useState(false);
 
@@ -108,6 +130,13 @@ export function TableBuilder({
   });
   const [showAllFilterValues, setShowAllFilterValues] = useState(false);
 
+  // Dose-response view for a binary column: which column value is the outcome,
+  // and the reference level for each row variable
+  const [trendCaseValue, setTrendCaseValue] = useState<string>(() => (saved.trendCaseValue as string) ?? '');
+  const [trendReferenceLevels, setTrendReferenceLevels] = useState<Record<string, string>>(
+    () => (saved.trendReferenceLevels as Record<string, string>) ?? {}
+  );
+
   // Track previous dataset ID to detect actual changes (vs re-renders)
   const prevDatasetIdRef = useRef<string>(dataset.id);
   // Skip the save effect once after a dataset switch so stale state from the
@@ -136,11 +165,14 @@ export function TableBuilder({
             percentType: (savedOpts.percentType as PercentType) || 'column',
             showCumPercent: savedOpts.showCumPercent !== undefined ? savedOpts.showCumPercent as boolean : false,
             includeMissing: savedOpts.includeMissing !== undefined ? savedOpts.includeMissing as boolean : true,
+            ciMethod: (savedOpts.ciMethod as ConfidenceMethod | 'none') || 'none',
           }
-        : { percentType: 'column', showCumPercent: false, includeMissing: true });
+        : { percentType: 'column', showCumPercent: false, includeMissing: true, ciMethod: 'none' });
       setFilterBy(nextFilterBy);
       setSelectedFilterValues(Array.isArray(next.selectedFilterValues) ? new Set(next.selectedFilterValues as string[]) : new Set());
       setShowAllFilterValues(false);
+      setTrendCaseValue((next.trendCaseValue as string) ?? '');
+      setTrendReferenceLevels((next.trendReferenceLevels as Record<string, string>) ?? {});
     }
   }, [dataset.id, persistenceKey, filterBy]);
 
@@ -155,12 +187,14 @@ export function TableBuilder({
         tableOptions,
         filterBy,
         selectedFilterValues: Array.from(selectedFilterValues),
+        trendCaseValue,
+        trendReferenceLevels,
       };
       localStorage.setItem(persistenceKey, JSON.stringify(toSave));
     } catch (e) {
       console.error('Failed to save table builder settings:', e);
     }
-  }, [persistenceKey, tableOptions, filterBy, selectedFilterValues]);
+  }, [persistenceKey, tableOptions, filterBy, selectedFilterValues, trendCaseValue, trendReferenceLevels]);
 
   // Apply initial row vars when they change (for quick actions from Explorer)
   useEffect(() => {
@@ -253,6 +287,11 @@ export function TableBuilder({
 
     const rows: FrequencyRow[] = [];
     const totalRecords = filteredRecords.length;
+    const ciForCount = (count: number, n: number): [number, number] | null => {
+      if (tableOptions.ciMethod === 'none' || n <= 0) return null;
+      const [lower, upper] = proportionCI(count, n, tableOptions.ciMethod);
+      return [lower * 100, upper * 100];
+    };
 
     for (const varKey of rowVars) {
       const column = dataset.columns.find(c => c.key === varKey);
@@ -287,6 +326,7 @@ export function TableBuilder({
           cumPercent: denominator > 0 ? (cumCount / denominator) * 100 : 0,
           isVariableHeader: index === 0,
           isMissing: false,
+          percentCI: ciForCount(count, denominator),
         });
       });
 
@@ -301,12 +341,13 @@ export function TableBuilder({
           cumPercent: 100,
           isVariableHeader: sortedValues.length === 0,
           isMissing: true,
+          percentCI: ciForCount(missingCount, denominator),
         });
       }
     }
 
     return rows;
-  }, [rowVars, colVar, dataset.columns, filteredRecords, tableOptions.includeMissing]);
+  }, [rowVars, colVar, dataset.columns, filteredRecords, tableOptions.includeMissing, tableOptions.ciMethod]);
 
   // Calculate cross-tabulation data (when both row and column vars are set)
   // Returns an array of cross-tabs, one for each row variable
@@ -428,6 +469,62 @@ export function TableBuilder({
     return results;
   }, [crossTabData, rowVars, colVar, filteredRecords]);
 
+  // Design-based cross-tabs when the dataset declares weights, strata or clusters.
+  // Filters define a subpopulation; PSUs outside it still count toward the variance.
+  const surveyCrossTabs = useMemo(() => {
+    const design = getActiveSurveyDesign(dataset.surveyDesign, dataset.columns);
+    if (!design || !crossTabData) return null;
+
+    const sample = prepareSurveySample(dataset.records, design);
+    const inFilter = new Set(filteredRecords);
+    const results: Map<string, SurveyCrossTabResults> = new Map();
+    for (const ct of crossTabData.crossTabs) {
+      results.set(
+        ct.rowVar,
+        surveyCrossTab(sample, ct.rowVar, crossTabData.colVar, ct.rowValues, crossTabData.colValues, record => inFilter.has(record))
+      );
+    }
+    return { summary: sample.summary, results };
+  }, [dataset.surveyDesign, dataset.columns, dataset.records, crossTabData, filteredRecords]);
+
+  // Outcome value for the dose-response view (only when the column variable is binary)
+  const doseResponseCaseValue = useMemo(() => {
+    if (!crossTabData || crossTabData.colValues.length !== 2) return '';
+    const values = crossTabData.colValues;
+    if (values.includes(trendCaseValue)) return trendCaseValue;
+    const positiveKeywords = ['yes', 'true', '1', 'positive', 'ill', 'case'];
+    return values.find(v => positiveKeywords.includes(v.toLowerCase())) ?? values[0];
+  }, [crossTabData, trendCaseValue]);
+
+  // Dose-response results for row variables with three or more levels
+  const doseResponseResults = useMemo(() => {
+    const results = new Map<string, { referenceLevel: string; result: DoseResponseResults }>();
+    if (!crossTabData || !doseResponseCaseValue) return results;
+    const nonCaseValue = crossTabData.colValues.find(v => v !== doseResponseCaseValue)!;
+
+    for (const ct of crossTabData.crossTabs) {
+      const levels = orderExposureLevels(
+        ct.rowValues.filter(rv => (ct.rowTotals.get(rv) || 0) > 0),
+        dataset.columns.find(c => c.key === ct.rowVar)?.valueOrder
+      );
+      if (levels.length < 3) continue;
+      const savedReference = trendReferenceLevels[ct.rowVar];
+      const referenceLevel = savedReference && levels.includes(savedReference) ? savedReference : levels[0];
+      results.set(ct.rowVar, {
+        referenceLevel,
+        result: calculateDoseResponse(
+          levels.map(label => ({
+            label,
+            cases: ct.table.get(label)!.get(doseResponseCaseValue)!.count,
+            nonCases: ct.table.get(label)!.get(nonCaseValue)!.count,
+          })),
+          referenceLevel
+        ),
+      });
+    }
+    return results;
+  }, [crossTabData, doseResponseCaseValue, dataset.columns, trendReferenceLevels]);
+
   const formatNumber = (n: number, decimals: number = 2): string => {
     if (!isFinite(n)) return 'N/A';
     return n.toFixed(decimals);
@@ -450,6 +547,13 @@ export function TableBuilder({
     }
   };
 
+  // Name of the percent CI method, shown in the table header and exports
+  const ciLabel = tableOptions.ciMethod === 'none' ? '' : CONFIDENCE_METHOD_LABELS[tableOptions.ciMethod].proportion;
+
+  const formatPercentCI = useCallback((ci: [number, number]): string => {
+    return `${formatStatPercent(ci[0], filteredRecords.length)}-${formatStatPercent(ci[1], filteredRecords.length)}%`;
+  }, [filteredRecords.length]);
+
   // Export to CSV
   const exportToCSV = useCallback(() => {
     let csv = '';
@@ -491,6 +595,7 @@ export function TableBuilder({
       // Frequency table export
       const headers = ['Variable', 'Value', 'N', '%'];
       if (tableOptions.showCumPercent) headers.push('Cum %');
+      if (ciLabel) headers.push(`"95% CI (${ciLabel})"`);
       csv = headers.join(',') + '\n';
 
       frequencyData.forEach(row => {
@@ -501,6 +606,7 @@ export function TableBuilder({
           row.percent.toFixed(1) + '%',
         ];
         if (tableOptions.showCumPercent) csvRow.push(row.isMissing ? '-' : row.cumPercent.toFixed(1) + '%');
+        if (ciLabel) csvRow.push(row.percentCI ? `"${row.percentCI[0].toFixed(1)}-${row.percentCI[1].toFixed(1)}%"` : '');
         csv += csvRow.join(',') + '\n';
       });
     }
@@ -516,7 +622,7 @@ export function TableBuilder({
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [crossTabData, frequencyData, tableOptions, dataset.name, getCellPercent]);
+  }, [crossTabData, frequencyData, tableOptions, dataset.name, getCellPercent, ciLabel]);
 
   // Copy table to clipboard
   const copyToClipboard = useCallback(async () => {
@@ -558,6 +664,7 @@ export function TableBuilder({
       // Frequency table
       const headers = ['Variable', 'Value', 'N', '%'];
       if (tableOptions.showCumPercent) headers.push('Cum %');
+      if (ciLabel) headers.push(`95% CI (${ciLabel})`);
       text = headers.join('\t') + '\n';
 
       frequencyData.forEach(row => {
@@ -568,6 +675,7 @@ export function TableBuilder({
           formatStatPercent(row.percent, filteredRecords.length) + '%',
         ];
         if (tableOptions.showCumPercent) cols.push(row.isMissing ? '-' : formatStatPercent(row.cumPercent, filteredRecords.length) + '%');
+        if (ciLabel) cols.push(row.percentCI ? formatPercentCI(row.percentCI) : '');
         text += cols.join('\t') + '\n';
       });
     }
@@ -581,7 +689,7 @@ export function TableBuilder({
     } catch {
       console.error('Failed to copy to clipboard');
     }
-  }, [crossTabData, frequencyData, tableOptions, filteredRecords.length, getCellPercent]);
+  }, [crossTabData, frequencyData, tableOptions, filteredRecords.length, getCellPercent, ciLabel, formatPercentCI]);
 
   const hasData = rowVars.length > 0;
 
@@ -835,13 +943,42 @@ export function TableBuilder({
                 />
                 Include missing as row
               </label>
+              {!colVar && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">95% CI for percents:</p>
+                  <select
+                    value={tableOptions.ciMethod}
+                    onChange={(e) => setTableOptions(prev => ({ ...prev, ciMethod: e.target.value as ConfidenceMethod | 'none' }))}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    <option value="none">None</option>
+                    <option value="approximate">Wilson score</option>
+                    <option value="exact">Clopper-Pearson exact</option>
+                    <option value="mid-p">Mid-P exact</option>
+                  </select>
+                </div>
+              )}
+              {doseResponseCaseValue && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Dose-response outcome value:</p>
+                  <select
+                    value={doseResponseCaseValue}
+                    onChange={(e) => setTrendCaseValue(e.target.value)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    {crossTabData!.colValues.map(cv => (
+                      <option key={cv} value={cv}>{cv}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
         </div>
 
         {/* Right: Table Preview */}
         <div className="lg:col-span-3">
-          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden h-full">
+          <div className={`bg-white border border-gray-200 rounded-lg overflow-hidden ${hasData ? '' : 'h-full'}`}>
             <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
               <h4 className="text-sm font-semibold text-gray-900">Table Preview</h4>
               <p className="text-xs text-gray-500">This is how your table will appear when exported</p>
@@ -945,6 +1082,112 @@ export function TableBuilder({
                           </p>
                         </div>
                       )}
+
+                      {/* Survey-weighted percentages and Rao-Scott test (complex survey design) */}
+                      {surveyCrossTabs?.results.get(ct.rowVar) && (() => {
+                        const survey = surveyCrossTabs.results.get(ct.rowVar)!;
+                        const { summary } = surveyCrossTabs;
+                        const raoScott = survey.raoScott;
+                        return (
+                          <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                            <h5 className="text-sm font-semibold text-gray-900">Survey-weighted {getPercentLabel()}</h5>
+                            <p className="text-xs text-gray-500 mb-3">
+                              Taylor-linearized 95% CIs and design effects (deff) · n = {survey.count}
+                              {summary.weighted && `, weighted N = ${formatSigFigs(survey.weightedCount, 4)}`}
+                              {' '}· {summary.psus} PSUs in {summary.strata} {summary.strata === 1 ? 'stratum' : 'strata'} · df {summary.degreesOfFreedom}
+                            </p>
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-sm border border-amber-200 bg-white">
+                                <thead className="bg-gray-50">
+                                  <tr>
+                                    <th className="px-4 py-2 text-left border-b border-r border-gray-300">{ct.rowLabel}</th>
+                                    {survey.colValues.map(cv => (
+                                      <th key={cv} className="px-4 py-2 text-center border-b border-gray-300">{cv}</th>
+                                    ))}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {survey.rowValues.map(rv => (
+                                    <tr key={rv} className="hover:bg-gray-50">
+                                      <td className="px-4 py-2 font-medium border-r border-gray-300">{rv}</td>
+                                      {survey.colValues.map(cv => {
+                                        const estimate = surveyCellPercent(survey.cells.get(rv)?.get(cv), tableOptions.percentType);
+                                        return (
+                                          <td key={cv} className="px-4 py-2 text-center whitespace-nowrap">
+                                            {estimate ? (
+                                              <>
+                                                {formatSigFigs(estimate.estimate * 100, 3)}%
+                                                {isFinite(estimate.ci[0]) && (
+                                                  <span className="text-gray-500"> ({formatSigFigs(estimate.ci[0] * 100, 3)}-{formatSigFigs(estimate.ci[1] * 100, 3)})</span>
+                                                )}
+                                                <span className="block text-xs text-gray-400">
+                                                  deff {isFinite(estimate.designEffect) ? formatSigFigs(estimate.designEffect, 3) : '-'}
+                                                </span>
+                                              </>
+                                            ) : '-'}
+                                          </td>
+                                        );
+                                      })}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+
+                            {raoScott ? (
+                              <div className="mt-4">
+                                <h5 className="text-sm font-semibold text-gray-900 mb-3">Rao-Scott Chi-Square</h5>
+                                <div className="grid grid-cols-4 gap-4 text-center">
+                                  <div>
+                                    <p className="text-xl font-bold text-gray-900">{formatSigFigs(raoScott.chiSquare, 3)}</p>
+                                    <p className="text-xs text-gray-500">Adjusted χ²</p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xl font-bold text-gray-900">{raoScott.degreesOfFreedom}</p>
+                                    <p className="text-xs text-gray-500">df</p>
+                                  </div>
+                                  <div>
+                                    <p className={`text-xl font-bold ${raoScott.pValue < 0.05 ? 'text-green-600' : 'text-gray-900'}`}>
+                                      {raoScott.pValue < 0.001 ? '< 0.001' : formatNumber(raoScott.pValue, 3)}
+                                    </p>
+                                    <p className="text-xs text-gray-500">p-value</p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xl font-bold text-gray-900">{formatSigFigs(raoScott.meanDesignEffect, 3)}</p>
+                                    <p className="text-xs text-gray-500">Mean deff (δ̄)</p>
+                                  </div>
+                                </div>
+                                <p className="mt-3 text-xs text-gray-600">
+                                  Pearson χ² {formatSigFigs(raoScott.pearsonChiSquare, 3)} divided by δ̄.
+                                  {isFinite(raoScott.fPValue) && (
+                                    <> F = {formatSigFigs(raoScott.fStatistic, 3)} on {raoScott.fDegreesOfFreedom[0]} and {raoScott.fDegreesOfFreedom[1]} df, p = {raoScott.fPValue < 0.001 ? '< 0.001' : formatNumber(raoScott.fPValue, 3)}.</>
+                                  )}
+                                </p>
+                              </div>
+                            ) : (
+                              <p className="mt-3 text-xs text-gray-500">Rao-Scott test not available for this table.</p>
+                            )}
+                          </div>
+                        );
+                      })()}
+
+                      {/* Dose-response (ordered row levels vs a binary column) */}
+                      {doseResponseResults.get(ct.rowVar) && (
+                        <div className="mt-4 space-y-2">
+                          <h5 className="text-sm font-semibold text-gray-900">
+                            Dose-Response ({crossTabData.colLabel} = {doseResponseCaseValue})
+                          </h5>
+                          <DoseResponseTable
+                            exposureLabel={ct.rowLabel}
+                            outcomeLabel={doseResponseCaseValue}
+                            result={doseResponseResults.get(ct.rowVar)!.result}
+                            referenceLevel={doseResponseResults.get(ct.rowVar)!.referenceLevel}
+                            onReferenceLevelChange={(level) => setTrendReferenceLevels(prev => ({ ...prev, [ct.rowVar]: level }))}
+                            showRiskRatio
+                            filename={`${dataset.name}_${ct.rowVar}_dose_response`}
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -964,6 +1207,9 @@ export function TableBuilder({
                           {tableOptions.showCumPercent && (
                             <th className="px-4 py-3 text-right border-b border-gray-300">Cum %</th>
                           )}
+                          {ciLabel && (
+                            <th className="px-4 py-3 text-right border-b border-gray-300">95% CI ({ciLabel})</th>
+                          )}
                         </tr>
                       </thead>
                       <tbody>
@@ -983,7 +1229,7 @@ export function TableBuilder({
                                 <tr className="bg-gray-50">
                                   <td
                                     className="px-4 py-2 font-semibold text-gray-900"
-                                    colSpan={3 + (tableOptions.showCumPercent ? 1 : 0)}
+                                    colSpan={3 + (tableOptions.showCumPercent ? 1 : 0) + (ciLabel ? 1 : 0)}
                                   >
                                     {row.variableLabel}
                                   </td>
@@ -996,6 +1242,9 @@ export function TableBuilder({
                                 {tableOptions.showCumPercent && (
                                   <td className="px-4 py-2 text-right">{row.isMissing ? '-' : formatStatPercent(row.cumPercent, filteredRecords.length)}</td>
                                 )}
+                                {ciLabel && (
+                                  <td className="px-4 py-2 text-right text-gray-500">{row.percentCI ? formatPercentCI(row.percentCI) : ''}</td>
+                                )}
                               </tr>
                             </React.Fragment>
                           );
@@ -1015,6 +1264,18 @@ export function TableBuilder({
               )}
             </div>
           </div>
+
+          {hasData && (
+            <div className="mt-6">
+              <AgeStandardizedRates
+                key={dataset.id}
+                dataset={dataset}
+                datasets={datasets}
+                records={filteredRecords}
+                groupVars={rowVars}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,517 @@
+/**
+ * TransmissionNetwork Component
+ *
+ * Who-infected-whom diagram built from a source-case column: a force-directed
+ * network or a timeline with onset date on the x-axis, nodes colored by any
+ * categorical column. Reports cases per generation and the observed serial
+ * intervals between linked cases.
+ *
+ * Settings are persisted per dataset under `epikit_network_<datasetId>`.
+ */
+import { useState, useMemo, useEffect } from 'react';
+import type { CaseRecord, DataColumn, Dataset } from '../../types/analysis';
+import {
+  buildTransmissionNetwork,
+  forceLayout,
+  NETWORK_LAYOUT_LABELS,
+  summarizeGenerations,
+  summarizeSerialIntervals,
+  timelineLayout,
+} from '../../utils/transmissionNetwork';
+import type { NetworkLayout, TimelineLayout, TransmissionNetwork as Network } from '../../utils/transmissionNetwork';
+import {
+  downloadBlob,
+  escapeXml,
+  exportPNG,
+  exportSVG,
+  svgAxisLine,
+  svgGridLine,
+  svgSource,
+  svgText,
+  svgTitle,
+  svgWrapper,
+} from '../../utils/chartExport';
+import { getChartColors, NEUTRAL_COLOR } from '../../utils/chartColors';
+import type { ChartColorScheme } from '../../utils/chartColors';
+import { exportToCSV } from '../../utils/csvParser';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { useLocale } from '../../contexts/LocaleContext';
+import { TabHeader, ResultsActions, ExportIcons } from '../shared';
+
+interface TransmissionNetworkProps {
+  dataset: Dataset;
+}
+
+const layouts: NetworkLayout[] = ['force', 'timeline'];
+const colorSchemes: Array<[ChartColorScheme, string]> = [
+  ['evergreen', 'Evergreen'],
+  ['colorblind', 'Colorblind-safe'],
+  ['grayscale', 'Grayscale'],
+  ['blue', 'Blue'],
+  ['warm', 'Warm'],
+];
+const ID_PATTERN = /case.?id|^id$/i;
+const SOURCE_PATTERN = /infect|source|contact|linked|parent/i;
+const ONSET_PATTERN = /onset/i;
+const MISSING_LABEL = 'Missing';
+const NODE_RADIUS = 6;
+/** Fewer layout iterations for large networks, where each one is O(n²) */
+const LARGE_NETWORK_NODES = 200;
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500';
+
+const edgeColumns: DataColumn[] = [
+  { key: 'source', label: 'Source case', type: 'text' },
+  { key: 'target', label: 'Infected case', type: 'text' },
+  { key: 'sourceGeneration', label: 'Source generation', type: 'number' },
+  { key: 'sourceOnset', label: 'Source onset', type: 'date' },
+  { key: 'targetOnset', label: 'Infected onset', type: 'date' },
+  { key: 'serialInterval', label: 'Serial interval (days)', type: 'number' },
+];
+
+const formatShortDate = (date: Date): string => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+const formatIsoDate = (date: Date | null): string => {
+  if (!date) return '';
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Draw the network at positions already laid out, so styling changes do not
+ * rerun the layout. Nodes not in the line list are hollow with a dashed
+ * outline; on the timeline, nodes without an onset date are hollow and sit at
+ * their source's date.
+ */
+function generateNetworkSvg(
+  network: Network,
+  layout: NetworkLayout,
+  placement: TimelineLayout,
+  nodeColor: (id: string) => string,
+  legend: Array<{ label: string; color: string }>,
+  showLabels: boolean,
+  chartTitle: string,
+  chartSubtitle: string,
+  chartSource: string
+): string {
+  if (network.nodes.length === 0) return '';
+
+  const width = 800;
+  const margin = { top: 60, right: 60, bottom: 90, left: 40 };
+  const plotWidth = width - margin.left - margin.right;
+  const { positions, undated, domain } = placement;
+  const plotHeight = layout === 'timeline' ? Math.min(1600, Math.max(200, network.nodes.length * 16)) : 480;
+  const height = margin.top + plotHeight + margin.bottom;
+  const toX = (x: number) => margin.left + x * plotWidth;
+  const toY = (y: number) => margin.top + y * plotHeight;
+
+  let svg = '<defs><marker id="network-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">'
+    + `<path d="M0,0 L10,5 L0,10 z" fill="${NEUTRAL_COLOR}"/></marker></defs>`;
+  if (chartTitle) svg += svgTitle(width, chartTitle, chartSubtitle || undefined);
+
+  if (layout === 'timeline') {
+    const axisY = margin.top + plotHeight + 10;
+    svg += svgAxisLine(margin.left, axisY, margin.left + plotWidth, axisY);
+    if (domain) {
+      const start = domain[0];
+      const spanDays = Math.round((domain[1].getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+      const stepDays = [1, 2, 7, 14, 28, 56, 91, 182, 364].find(step => spanDays / step <= 8) ?? Math.ceil(spanDays / 8);
+      for (let day = 0; day <= spanDays; day += stepDays) {
+        const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + day);
+        const px = toX(spanDays > 0 ? day / spanDays : 0.5);
+        svg += svgGridLine(px, margin.top, px, axisY);
+        svg += svgText(px, axisY + 18, formatShortDate(date), { fontSize: 11, fill: '#666' });
+      }
+    }
+    svg += svgText(margin.left + plotWidth / 2, axisY + 40, 'Symptom onset date', { fontSize: 12, fill: '#333' });
+  }
+
+  network.edges.forEach(edge => {
+    const from = positions.get(edge.source);
+    const to = positions.get(edge.target);
+    if (!from || !to) return;
+    const x1 = toX(from.x);
+    const y1 = toY(from.y);
+    const x2 = toX(to.x);
+    const y2 = toY(to.y);
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length <= 2 * NODE_RADIUS) return;
+    // Stop the line at the node edges so the arrowhead stays visible
+    const ux = (x2 - x1) / length;
+    const uy = (y2 - y1) / length;
+    svg += `<line x1="${x1 + ux * NODE_RADIUS}" y1="${y1 + uy * NODE_RADIUS}" x2="${x2 - ux * (NODE_RADIUS + 1)}" y2="${y2 - uy * (NODE_RADIUS + 1)}" stroke="${NEUTRAL_COLOR}" stroke-width="1.2" marker-end="url(#network-arrow)"/>`;
+  });
+
+  network.nodes.forEach(node => {
+    const position = positions.get(node.id);
+    if (!position) return;
+    const cx = toX(position.x);
+    const cy = toY(position.y);
+    const color = node.record ? nodeColor(node.id) : NEUTRAL_COLOR;
+    const hollow = !node.record || undated.has(node.id);
+    const dash = node.record ? '' : ' stroke-dasharray="2,2"';
+    const tooltip = [
+      node.record ? `Case ${node.id}` : `${node.id} (not in line list)`,
+      node.generation !== null ? `Generation ${node.generation}` : 'Generation unknown (cycle)',
+      node.onset ? `Onset ${formatIsoDate(node.onset)}` : 'No onset date',
+      `Infected ${node.infected.length}`,
+    ].join('\n');
+    svg += `<circle cx="${cx}" cy="${cy}" r="${NODE_RADIUS}" fill="${hollow ? '#fff' : color}" stroke="${hollow ? color : '#fff'}" stroke-width="1.5"${dash}>`
+      + `<title>${escapeXml(tooltip)}</title></circle>`;
+    if (showLabels) {
+      svg += svgText(cx + NODE_RADIUS + 3, cy, node.id, { anchor: 'start', fontSize: 10, fill: '#444', dy: '0.35em' });
+    }
+  });
+
+  // Legend: categories, then the outline conventions
+  const items: Array<{ label: string; color: string; hollow?: boolean; dashed?: boolean }> = [...legend];
+  if (network.issues.unlistedSources.length > 0) items.push({ label: 'Not in line list', color: NEUTRAL_COLOR, hollow: true, dashed: true });
+  if (undated.size > 0) items.push({ label: 'No onset date', color: '#666', hollow: true });
+  let legendX = margin.left;
+  let legendY = height - (layout === 'timeline' ? 22 : 50);
+  items.forEach(item => {
+    const itemWidth = 24 + item.label.length * 6.5;
+    if (legendX + itemWidth > width - margin.right) {
+      legendX = margin.left;
+      legendY += 16;
+    }
+    svg += `<circle cx="${legendX + 5}" cy="${legendY}" r="5" fill="${item.hollow ? '#fff' : item.color}" stroke="${item.color}" stroke-width="1.5"${item.dashed ? ' stroke-dasharray="2,2"' : ''}/>`;
+    svg += svgText(legendX + 14, legendY, item.label, { anchor: 'start', fontSize: 11, fill: '#333', dy: '0.35em' });
+    legendX += itemWidth;
+  });
+
+  if (chartSource) svg += svgSource(width, height, chartSource);
+  return svgWrapper(width, height, svg);
+}
+
+export function TransmissionNetwork({ dataset }: TransmissionNetworkProps) {
+  const { config: localeConfig } = useLocale();
+  const persistenceKey = `epikit_network_${dataset.id}`;
+  const [saved] = useState<Record<string, unknown>>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  // Discard persisted column keys that no longer exist in the dataset
+  const validSavedColumn = (value: unknown): string => {
+    const key = typeof value === 'string' ? value : '';
+    return key && dataset.columns.some(col => col.key === key) ? key : '';
+  };
+
+  const textColumns = useMemo(() => dataset.columns.filter(col => col.type !== 'date'), [dataset.columns]);
+  const dateColumns = useMemo(() => dataset.columns.filter(col => col.type === 'date'), [dataset.columns]);
+
+  const [idField, setIdField] = useState<string>(() =>
+    typeof saved.idField === 'string' && (saved.idField === '' || validSavedColumn(saved.idField))
+      ? saved.idField
+      : textColumns.find(col => ID_PATTERN.test(col.key) || ID_PATTERN.test(col.label))?.key ?? '');
+  const [sourceField, setSourceField] = useState<string>(() =>
+    validSavedColumn(saved.sourceField) || textColumns.find(col => SOURCE_PATTERN.test(`${col.key} ${col.label}`))?.key || '');
+  const [onsetField, setOnsetField] = useState<string>(() =>
+    validSavedColumn(saved.onsetField) || (dateColumns.find(col => ONSET_PATTERN.test(`${col.key} ${col.label}`)) ?? dateColumns[0])?.key || '');
+  const [colorField, setColorField] = useState<string>(() => validSavedColumn(saved.colorField));
+  const [layout, setLayout] = useState<NetworkLayout>(() =>
+    layouts.includes(saved.layout as NetworkLayout) ? saved.layout as NetworkLayout : 'force');
+  const [colorScheme, setColorScheme] = useState<ChartColorScheme>(() =>
+    colorSchemes.some(([scheme]) => scheme === saved.colorScheme) ? saved.colorScheme as ChartColorScheme : 'evergreen');
+  const [showLabels, setShowLabels] = useState<boolean>(() => saved.showLabels !== false);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify({
+        idField,
+        sourceField,
+        onsetField,
+        colorField,
+        layout,
+        colorScheme,
+        showLabels,
+      }));
+    } catch (e) {
+      console.error('Failed to save transmission network settings:', e);
+    }
+  }, [persistenceKey, idField, sourceField, onsetField, colorField, layout, colorScheme, showLabels]);
+
+  // Categorical columns to color nodes by
+  const categoricalColumns = useMemo(() => {
+    return dataset.columns.filter(col => {
+      if (col.type === 'date' || col.key === idField || col.key === sourceField) return false;
+      if (col.key.includes('latitude') || col.key.includes('longitude')) return false;
+      const uniqueValues = new Set(dataset.records.map(r => r[col.key])).size;
+      return uniqueValues >= 2 && uniqueValues <= 20;
+    });
+  }, [dataset, idField, sourceField]);
+
+  const network = useMemo(() => {
+    if (!sourceField) return null;
+    return buildTransmissionNetwork(dataset.records, { idField, sourceField, onsetField: onsetField || undefined });
+  }, [dataset.records, idField, sourceField, onsetField]);
+
+  const generations = useMemo(() => (network ? summarizeGenerations(network) : []), [network]);
+  const serialIntervals = useMemo(() => (network ? summarizeSerialIntervals(network) : null), [network]);
+
+  // Category colors in the column's value order, then alphabetically; missing values in gray
+  const colorColumn = dataset.columns.find(col => col.key === colorField);
+  const categories = useMemo(() => {
+    if (!network || !colorField) return [];
+    const values = new Set<string>();
+    network.nodes.forEach(node => {
+      const value = node.record ? String(node.record[colorField] ?? '').trim() : '';
+      if (value) values.add(value);
+    });
+    const order = colorColumn?.valueOrder ?? [];
+    return [
+      ...order.filter(value => values.has(value)),
+      ...Array.from(values).filter(value => !order.includes(value)).sort(),
+    ];
+  }, [network, colorField, colorColumn]);
+
+  const legend = useMemo(() => {
+    const colors = getChartColors(Math.max(categories.length, 1), colorScheme);
+    const items = colorField
+      ? categories.map((label, i) => ({ label, color: colors[i] }))
+      : [{ label: 'Case', color: colors[0] }];
+    if (colorField && network?.nodes.some(node => node.record && !String(node.record[colorField] ?? '').trim())) {
+      items.push({ label: MISSING_LABEL, color: NEUTRAL_COLOR });
+    }
+    return items;
+  }, [categories, colorField, colorScheme, network]);
+
+  const chartTitle = colorColumn ? `Transmission network by ${colorColumn.label}` : 'Transmission network';
+  const chartSubtitle = layout === 'timeline'
+    ? 'Arrows point from source to infected case; cases placed by onset date'
+    : 'Arrows point from source to infected case';
+  // Laid out separately from the drawing: the force layout is the slow part
+  const placement = useMemo<TimelineLayout | null>(() => {
+    if (!network) return null;
+    if (layout === 'timeline') return timelineLayout(network);
+    const positions = forceLayout(network, { iterations: network.nodes.length > LARGE_NETWORK_NODES ? 100 : 300 });
+    return { positions, domain: null, undated: new Set() };
+  }, [network, layout]);
+
+  const svgContent = useMemo(() => {
+    if (!network || !placement) return '';
+    const byId = new Map(network.nodes.map(node => [node.id, node]));
+    const colorOf = new Map(legend.map(item => [item.label, item.color]));
+    const nodeColor = (id: string) => {
+      if (!colorField) return legend[0].color;
+      const value = String(byId.get(id)?.record?.[colorField] ?? '').trim();
+      return colorOf.get(value || MISSING_LABEL) ?? NEUTRAL_COLOR;
+    };
+    return generateNetworkSvg(network, layout, placement, nodeColor, legend, showLabels, chartTitle, chartSubtitle, dataset.name);
+  }, [network, layout, placement, legend, colorField, showLabels, chartTitle, chartSubtitle, dataset.name]);
+
+  const filename = `${dataset.name}_transmission_network`;
+
+  const handleExportEdgesCSV = () => {
+    if (!network) return;
+    const byId = new Map(network.nodes.map(node => [node.id, node]));
+    const records: CaseRecord[] = network.edges.map((edge, i) => ({
+      id: String(i + 1),
+      source: edge.source,
+      target: edge.target,
+      sourceGeneration: byId.get(edge.source)?.generation ?? null,
+      sourceOnset: formatIsoDate(byId.get(edge.source)?.onset ?? null),
+      targetOnset: formatIsoDate(byId.get(edge.target)?.onset ?? null),
+      serialInterval: edge.serialInterval,
+    }));
+    const csv = exportToCSV(edgeColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${filename}_links.csv`);
+  };
+
+  const listedCases = network ? network.nodes.filter(node => node.record).length : 0;
+  const linkedCases = network ? network.nodes.filter(node => node.record && node.sourceId !== null).length : 0;
+  const issues = network?.issues;
+  const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const cellClass = 'px-3 py-2 text-sm text-center text-gray-700';
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Transmission Network"
+        description="Draw who infected whom from a source-case column, count cases by generation and measure serial intervals between linked cases."
+      />
+
+      {/* Network definition */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <h4 className="text-sm font-semibold text-gray-900">Links</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Case ID</label>
+            <select value={idField} onChange={(e) => setIdField(e.target.value)} className={selectClass}>
+              <option value="">Row ID</option>
+              {textColumns.filter(col => col.key !== sourceField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Infected By (source case ID)</label>
+            <select value={sourceField} onChange={(e) => setSourceField(e.target.value)} className={selectClass}>
+              <option value="">Select variable...</option>
+              {textColumns.filter(col => col.key !== idField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Onset Date</label>
+            <select value={onsetField} onChange={(e) => setOnsetField(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {dateColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Color Nodes By</label>
+            <select value={colorField} onChange={(e) => setColorField(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {categoricalColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Color Scheme</label>
+            <select value={colorScheme} onChange={(e) => setColorScheme(e.target.value as ChartColorScheme)} className={selectClass}>
+              {colorSchemes.map(([scheme, label]) => (
+                <option key={scheme} value={scheme}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Layout</label>
+            <select value={layout} onChange={(e) => setLayout(e.target.value as NetworkLayout)} className={selectClass}>
+              {layouts.map(l => (
+                <option key={l} value={l} disabled={l === 'timeline' && !onsetField}>{NETWORK_LAYOUT_LABELS[l]}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer md:mt-8">
+            <input type="checkbox" checked={showLabels} onChange={(e) => setShowLabels(e.target.checked)} />
+            Show case IDs
+          </label>
+        </div>
+        {layout === 'timeline' && !onsetField && (
+          <p className="text-xs text-amber-700">The timeline layout needs an onset date column. Set column types to Date in the line list if dates were imported as text.</p>
+        )}
+      </div>
+
+      {!network && (
+        <div className="text-center py-8 text-gray-400">
+          Select the column that names each case's source to draw the network
+        </div>
+      )}
+
+      {issues && (issues.duplicateIds.length > 0 || issues.selfLinks.length > 0 || issues.cycles.length > 0 || issues.unlistedSources.length > 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+          {issues.duplicateIds.length > 0 && (
+            <div>Duplicate case IDs (only the first record is used): {issues.duplicateIds.join(', ')}</div>
+          )}
+          {issues.selfLinks.length > 0 && (
+            <div>Cases listed as their own source (link ignored): {issues.selfLinks.join(', ')}</div>
+          )}
+          {issues.cycles.length > 0 && (
+            <div>Cases in a loop of sources (no generation assigned): {issues.cycles.join(', ')}</div>
+          )}
+          {issues.unlistedSources.length > 0 && (
+            <div>Sources not in the line list (drawn hollow): {issues.unlistedSources.join(', ')}</div>
+          )}
+        </div>
+      )}
+
+      {network && network.nodes.length > 0 && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ['Cases', listedCases],
+              ['Linked to a source', linkedCases],
+              ['Transmission links', network.edges.length],
+              ['Generations', generations.length],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white border border-gray-200 rounded-lg p-3">
+                <div className="text-xs text-gray-500">{label}</div>
+                <div className="text-xl font-semibold text-gray-900">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Network diagram */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            {svgContent && (
+              <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: svgContent }} />
+            )}
+            <ResultsActions
+              actions={[
+                { label: 'Export SVG', onClick: () => exportSVG(svgContent, `${filename}.svg`), icon: ExportIcons.image, variant: 'secondary', disabled: !svgContent },
+                { label: 'Export PNG', onClick: () => exportPNG(svgContent, `${filename}.png`), icon: ExportIcons.image, variant: 'secondary', disabled: !svgContent },
+                { label: 'Export Links CSV', onClick: handleExportEdgesCSV, icon: ExportIcons.csv, variant: 'secondary', disabled: network.edges.length === 0 },
+              ]}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Generations */}
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <h4 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">Cases by Generation</h4>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>Generation</th>
+                    <th className={headerClass}>Cases</th>
+                    <th className={headerClass}>Secondary Cases</th>
+                    <th className={headerClass}>Per Case</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {generations.map(row => (
+                    <tr key={row.generation}>
+                      <td className={cellClass}>{row.generation === 1 ? '1 (index)' : row.generation}</td>
+                      <td className={cellClass}>{row.cases}</td>
+                      <td className={cellClass}>{row.secondaryCases}</td>
+                      <td className={cellClass}>{row.secondaryPerCase.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600">
+                Index cases have no listed source. Secondary cases per case in the last generations are
+                usually low because their onward transmission has not been traced yet.
+              </p>
+            </div>
+
+            {/* Serial intervals */}
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <h4 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">Observed Serial Interval</h4>
+              {serialIntervals ? (
+                <div className="p-4 space-y-2 text-sm text-gray-700">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>Pairs with both onset dates</div><div className="font-medium">{serialIntervals.pairs}</div>
+                    <div>Mean (SD)</div><div className="font-medium">{formatSigFigs(serialIntervals.mean, 3)} ({formatSigFigs(serialIntervals.sd, 3)}) days</div>
+                    <div>Median</div><div className="font-medium">{formatSigFigs(serialIntervals.median, 3)} days</div>
+                    <div>Range</div><div className="font-medium">{serialIntervals.min} to {serialIntervals.max} days</div>
+                  </div>
+                  {serialIntervals.negative > 0 && (
+                    <p className="text-xs text-gray-600">
+                      {serialIntervals.negative} pair{serialIntervals.negative === 1 ? '' : 's'} with the infected case falling ill
+                      before its source, which can reflect presymptomatic transmission or a misattributed source.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="p-4 text-sm text-gray-400">
+                  {onsetField ? 'No linked pairs where both cases have an onset date' : 'Select an onset date column to measure serial intervals'}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
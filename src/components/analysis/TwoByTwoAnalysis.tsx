@@ -1,9 +1,31 @@
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import type { Dataset, CaseRecord } from '../../types/analysis';
-import { calculateTwoByTwo } from '../../utils/statistics';
-import type { TwoByTwoResults } from '../../utils/statistics';
+import type { Dataset, CaseRecord, DataColumn } from '../../types/analysis';
+import {
+  calculateTwoByTwo,
+  calculateStratifiedTwoByTwo,
+  calculateMatchedPairs,
+  calculateDoseResponse,
+  orderExposureLevels,
+  calculateExactOddsRatio,
+  proportionCI,
+  CONFIDENCE_METHOD_LABELS,
+} from '../../utils/statistics';
+import type {
+  TwoByTwoResults,
+  TwoByTwoTable,
+  StratifiedResults,
+  MatchedPairResults,
+  DoseResponseResults,
+  ConfidenceMethod,
+} from '../../utils/statistics';
+import { fitConditionalLogistic } from '../../utils/regression';
+import type { ConditionalLogisticResult, MatchedObservation } from '../../utils/regression';
 import { formatSigFigs, formatStatPercent } from '../../utils/localeNumbers';
+import { exportToCSV } from '../../utils/csvParser';
+import { downloadBlob } from '../../utils/chartExport';
+import { useLocale } from '../../contexts/LocaleContext';
 import { TwoByTwoTutorial } from '../tutorials/TwoByTwoTutorial';
+import { DoseResponseTable } from './DoseResponseTable';
 import { TabHeader, HelpPanel, ResultsActions, ExportIcons, StatTooltip, statDefinitions } from '../shared';
 
 interface TwoByTwoAnalysisProps {
@@ -11,7 +33,7 @@ interface TwoByTwoAnalysisProps {
   initialExposure?: string;
 }
 
-type StudyDesign = 'cohort' | 'case-control';
+type StudyDesign = 'cohort' | 'case-control' | 'matched';
 
 interface ExposureResult {
   exposureVar: string;
@@ -20,9 +42,42 @@ interface ExposureResult {
   results: TwoByTwoResults;
 }
 
+interface StratifiedExposureResult {
+  exposureVar: string;
+  exposureLabel: string;
+  exposedValue: string;
+  stratified: StratifiedResults;
+}
+
+interface MatchedExposureResult {
+  exposureVar: string;
+  exposureLabel: string;
+  exposedValue: string;
+  /** 1:1 pairs only */
+  pairs: MatchedPairResults;
+  /** All sets with one case (1:1 and 1:M) */
+  conditional: ConditionalLogisticResult;
+}
+
+/** Measures that depend on the selected CI / p-value method */
+interface MethodResult {
+  oddsRatioCI: [number, number];
+  pValue: number;
+  attackRateExposedCI: [number, number];
+  attackRateUnexposedCI: [number, number];
+}
+
+interface DoseResponseExposureResult {
+  exposureVar: string;
+  exposureLabel: string;
+  referenceLevel: string;
+  doseResponse: DoseResponseResults;
+}
+
 export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisProps) {
   // Persistence key for this dataset
   const persistenceKey = `epikit_twobytwo_${dataset.id}`;
+  const { config: localeConfig } = useLocale();
 
   // Load persisted state once during initialization
   const [saved] = useState<Record<string, unknown>>(() => {
@@ -66,6 +121,20 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
   });
   const [showAllFilterValues, setShowAllFilterValues] = useState(false);
 
+  // Stratified (Mantel-Haenszel) analysis: optional confounder to stratify by
+  const [stratifyBy, setStratifyBy] = useState<string>(() => (saved.stratifyBy as string) ?? '');
+
+  // Matched case-control: column identifying each case's matched set
+  const [matchSetVar, setMatchSetVar] = useState<string>(() => (saved.matchSetVar as string) ?? '');
+
+  // Confidence interval / p-value method for the summary table
+  const [ciMethod, setCiMethod] = useState<ConfidenceMethod>(() => (saved.ciMethod as ConfidenceMethod) || 'approximate');
+
+  // Reference level for the dose-response table of each multi-level exposure
+  const [trendReferenceValues, setTrendReferenceValues] = useState<Record<string, string>>(
+    () => (saved.trendReferenceValues as Record<string, string>) ?? {}
+  );
+
   // Track previous dataset ID to detect actual changes (vs re-renders)
   const prevDatasetIdRef = useRef<string>(dataset.id);
   // Skip the save effect once after a dataset switch so stale state from the
@@ -97,6 +166,10 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
       setFilterBy(nextFilterBy);
       setSelectedFilterValues(Array.isArray(next.selectedFilterValues) ? new Set(next.selectedFilterValues as string[]) : new Set());
       setShowAllFilterValues(false);
+      setStratifyBy((next.stratifyBy as string) ?? '');
+      setMatchSetVar((next.matchSetVar as string) ?? '');
+      setTrendReferenceValues((next.trendReferenceValues as Record<string, string>) ?? {});
+      setCiMethod((next.ciMethod as ConfidenceMethod) || 'approximate');
     }
   }, [dataset.id, persistenceKey, filterBy]);
 
@@ -116,13 +189,17 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
         exposureReferenceValues,
         filterBy,
         selectedFilterValues: Array.from(selectedFilterValues),
+        stratifyBy,
+        matchSetVar,
+        trendReferenceValues,
+        ciMethod,
       };
       localStorage.setItem(persistenceKey, JSON.stringify(toSave));
     } catch (e) {
       console.error('Failed to save 2x2 analysis settings:', e);
     }
   }, [persistenceKey, studyDesign, outcomeVar, caseValues, selectedExposures,
-    exposurePositiveValues, exposureReferenceValues, filterBy, selectedFilterValues]);
+    exposurePositiveValues, exposureReferenceValues, filterBy, selectedFilterValues, stratifyBy, matchSetVar, trendReferenceValues, ciMethod]);
 
 
   // Get columns suitable for case definition (categorical columns)
@@ -349,52 +426,66 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
     URL.revokeObjectURL(url);
   }, [outcomeVar, caseValues, selectedExposures, filteredRecords, dataset.columns]);
 
-  // Calculate 2x2 results for each selected exposure
-  const exposureResults: ExposureResult[] = useMemo(() => {
-    if (!outcomeVar || caseValues.size === 0 || selectedExposures.length === 0) {
-      return [];
+  // Code one record's exposure as 1 (exposed) or 0 (reference); null when the
+  // record has a missing outcome or exposure, or a level outside the comparison
+  const codeExposure = useCallback((record: CaseRecord, expVar: string): 0 | 1 | null => {
+    const exposedValue = exposurePositiveValues[expVar] || detectExposedValue(expVar);
+    const expValue = record[expVar];
+
+    // Skip records with missing exposure values
+    if (expValue === null || expValue === undefined || expValue === '') {
+      return null;
     }
 
-    const results = selectedExposures.map(expVar => {
-      const exposedValue = exposurePositiveValues[expVar] || detectExposedValue(expVar);
-      const values = getExposureValues(expVar);
-      const isMultiLevel = values.length > 2;
-      const referenceValue = isMultiLevel
-        ? (exposureReferenceValues[expVar] || detectReferenceValue(expVar, exposedValue))
-        : null;
-      let a = 0, b = 0, c = 0, d = 0;
-
-      filteredRecords.forEach((record: CaseRecord) => {
-        const expValue = record[expVar];
+    // Skip records with missing outcome values
+    const outcomeValue = record[outcomeVar];
+    if (outcomeValue === null || outcomeValue === undefined || String(outcomeValue).trim() === '') {
+      return null;
+    }
 
-        // Skip records with missing exposure values
-        if (expValue === null || expValue === undefined || expValue === '') {
-          return;
-        }
+    const strValue = String(expValue);
 
-        // Skip records with missing outcome values
-        const outcomeValue = record[outcomeVar];
-        if (outcomeValue === null || outcomeValue === undefined || String(outcomeValue).trim() === '') {
-          return;
-        }
+    // For multi-level variables, only include exposed and reference values
+    if (getExposureValues(expVar).length > 2) {
+      const referenceValue = exposureReferenceValues[expVar] || detectReferenceValue(expVar, exposedValue);
+      if (strValue !== exposedValue && strValue !== referenceValue) {
+        return null;
+      }
+    }
 
-        const strValue = String(expValue);
+    return strValue === exposedValue ? 1 : 0;
+  }, [outcomeVar, exposurePositiveValues, exposureReferenceValues, detectExposedValue, detectReferenceValue, getExposureValues]);
 
-        // For multi-level variables, only include exposed and reference values
-        if (isMultiLevel && strValue !== exposedValue && strValue !== referenceValue) {
-          return;
-        }
+  // Build the 2x2 table for one exposure from a set of records
+  const tabulateExposure = useCallback((records: CaseRecord[], expVar: string): { exposedValue: string; table: TwoByTwoTable } => {
+    const exposedValue = exposurePositiveValues[expVar] || detectExposedValue(expVar);
+    let a = 0, b = 0, c = 0, d = 0;
 
-        const exposed = strValue === exposedValue;
-        const diseased = isCase(record);
+    records.forEach((record: CaseRecord) => {
+      const coded = codeExposure(record, expVar);
+      if (coded === null) return;
 
-        if (exposed && diseased) a++;
-        else if (exposed && !diseased) b++;
-        else if (!exposed && diseased) c++;
-        else if (!exposed && !diseased) d++;
-      });
+      const exposed = coded === 1;
+      const diseased = isCase(record);
+
+      if (exposed && diseased) a++;
+      else if (exposed && !diseased) b++;
+      else if (!exposed && diseased) c++;
+      else if (!exposed && !diseased) d++;
+    });
 
-      const results = calculateTwoByTwo({ a, b, c, d });
+    return { exposedValue, table: { a, b, c, d } };
+  }, [exposurePositiveValues, detectExposedValue, codeExposure, isCase]);
+
+  // Calculate 2x2 results for each selected exposure
+  const exposureResults: ExposureResult[] = useMemo(() => {
+    if (!outcomeVar || caseValues.size === 0 || selectedExposures.length === 0) {
+      return [];
+    }
+
+    const results = selectedExposures.map(expVar => {
+      const { exposedValue, table } = tabulateExposure(filteredRecords, expVar);
+      const results = calculateTwoByTwo(table);
       const col = dataset.columns.find(c => c.key === expVar);
 
       return {
@@ -418,7 +509,185 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
         return propB - propA;
       }
     });
-  }, [filteredRecords, dataset.columns, outcomeVar, caseValues, selectedExposures, exposurePositiveValues, exposureReferenceValues, studyDesign, detectExposedValue, detectReferenceValue, getExposureValues, isCase]);
+  }, [filteredRecords, dataset.columns, outcomeVar, caseValues, selectedExposures, studyDesign, tabulateExposure]);
+
+  // OR CI, p-value and attack-rate CIs for the selected method
+  const methodResults = useMemo(() => {
+    const results = new Map<string, MethodResult>();
+    exposureResults.forEach(result => {
+      const r = result.results;
+      const exact = ciMethod === 'approximate' ? null : calculateExactOddsRatio(r.table, ciMethod === 'mid-p');
+      results.set(result.exposureVar, {
+        oddsRatioCI: exact ? exact.ci : r.oddsRatioCI,
+        pValue: exact ? exact.pValue : r.chiSquarePValue,
+        attackRateExposedCI: proportionCI(r.table.a, r.totalExposed, ciMethod),
+        attackRateUnexposedCI: proportionCI(r.table.c, r.totalUnexposed, ciMethod),
+      });
+    });
+    return results;
+  }, [exposureResults, ciMethod]);
+
+  // Columns that can serve as a stratification (confounder) variable
+  const stratifyColumns = useMemo(() => {
+    return exposureColumns.filter(col => !selectedExposures.includes(col.key));
+  }, [exposureColumns, selectedExposures]);
+
+  // Stratum values in display order (honors the column's valueOrder when set)
+  const stratumValues = useMemo(() => {
+    if (!stratifyBy) return [];
+    const values = getExposureValues(stratifyBy);
+    const order = dataset.columns.find(c => c.key === stratifyBy)?.valueOrder;
+    if (!order || order.length === 0) return values;
+    const ordered = order.filter(v => values.includes(v));
+    return [...ordered, ...values.filter(v => !order.includes(v))];
+  }, [stratifyBy, dataset.columns, getExposureValues]);
+
+  // Records excluded from the stratified analysis because the stratum value is missing
+  const missingStratumCount = useMemo(() => {
+    if (!stratifyBy) return 0;
+    return filteredRecords.filter(r => {
+      const v = r[stratifyBy];
+      return v === null || v === undefined || String(v).trim() === '';
+    }).length;
+  }, [filteredRecords, stratifyBy]);
+
+  // Mantel-Haenszel analysis for each selected exposure, in the same order as the summary table
+  const stratifiedResults: StratifiedExposureResult[] = useMemo(() => {
+    if (!stratifyBy || stratumValues.length === 0 || exposureResults.length === 0) return [];
+
+    return exposureResults.map(result => {
+      const strata = stratumValues.map(value => ({
+        label: value,
+        table: tabulateExposure(
+          filteredRecords.filter(r => String(r[stratifyBy] ?? '') === value),
+          result.exposureVar
+        ).table,
+      }));
+
+      return {
+        exposureVar: result.exposureVar,
+        exposureLabel: result.exposureLabel,
+        exposedValue: result.exposedValue,
+        stratified: calculateStratifiedTwoByTwo(strata),
+      };
+    });
+  }, [stratifyBy, stratumValues, exposureResults, filteredRecords, tabulateExposure]);
+
+  // Columns that can identify matched sets (any column other than the outcome)
+  const matchSetColumns = useMemo(() => {
+    return dataset.columns.filter(col => col.key !== outcomeVar && col.type !== 'date');
+  }, [dataset.columns, outcomeVar]);
+
+  // Auto-detect a match-set column (e.g., "match_id", "pair", "set") for the matched design
+  useEffect(() => {
+    if (studyDesign !== 'matched' || matchSetVar) return;
+    const found = matchSetColumns.find(col =>
+      ['match', 'pair', 'set'].some(kw => col.key.toLowerCase().includes(kw))
+    );
+    if (found) setMatchSetVar(found.key);
+  }, [studyDesign, matchSetVar, matchSetColumns]);
+
+  // Group records into matched sets, skipping records without a set ID
+  const matchSetRecords = useMemo(() => {
+    const sets = new Map<string, CaseRecord[]>();
+    if (studyDesign !== 'matched' || !matchSetVar) return sets;
+    filteredRecords.forEach(record => {
+      const setId = String(record[matchSetVar] ?? '').trim();
+      if (!setId) return;
+      const members = sets.get(setId);
+      if (members) members.push(record);
+      else sets.set(setId, [record]);
+    });
+    return sets;
+  }, [studyDesign, matchSetVar, filteredRecords]);
+
+  // Matched analysis for each selected exposure: discordant pairs from 1:1 sets,
+  // conditional logistic regression over all sets with one case
+  const matchedResults: MatchedExposureResult[] = useMemo(() => {
+    if (matchSetRecords.size === 0 || exposureResults.length === 0) return [];
+
+    return exposureResults.map(result => {
+      const expVar = result.exposureVar;
+      const table = { bothExposed: 0, caseOnlyExposed: 0, controlOnlyExposed: 0, neitherExposed: 0 };
+      const observations: MatchedObservation[] = [];
+
+      matchSetRecords.forEach((members, setId) => {
+        const coded = members
+          .map(record => ({ isCase: isCase(record), exposed: codeExposure(record, expVar) }))
+          .filter((m): m is { isCase: boolean; exposed: 0 | 1 } => m.exposed !== null);
+        coded.forEach(m => observations.push({ setId, isCase: m.isCase, covariates: [m.exposed] }));
+
+        const cases = coded.filter(m => m.isCase);
+        const controls = coded.filter(m => !m.isCase);
+        if (cases.length !== 1 || controls.length !== 1) return;
+        const caseExposed = cases[0].exposed === 1;
+        const controlExposed = controls[0].exposed === 1;
+        if (caseExposed && controlExposed) table.bothExposed++;
+        else if (caseExposed) table.caseOnlyExposed++;
+        else if (controlExposed) table.controlOnlyExposed++;
+        else table.neitherExposed++;
+      });
+
+      return {
+        exposureVar: expVar,
+        exposureLabel: result.exposureLabel,
+        exposedValue: result.exposedValue,
+        pairs: calculateMatchedPairs(table),
+        conditional: fitConditionalLogistic(observations, [result.exposureLabel]),
+      };
+    });
+  }, [matchSetRecords, exposureResults, isCase, codeExposure]);
+
+  // Conditional logistic model with all selected exposures, using records
+  // with complete data on every exposure
+  const matchedAdjusted: ConditionalLogisticResult | null = useMemo(() => {
+    if (matchedResults.length < 2) return null;
+    const observations: MatchedObservation[] = [];
+    matchSetRecords.forEach((members, setId) => {
+      members.forEach(record => {
+        const covariates = matchedResults.map(r => codeExposure(record, r.exposureVar));
+        if (covariates.some(x => x === null)) return;
+        observations.push({ setId, isCase: isCase(record), covariates: covariates as number[] });
+      });
+    });
+    return fitConditionalLogistic(observations, matchedResults.map(r => r.exposureLabel));
+  }, [matchedResults, matchSetRecords, isCase, codeExposure]);
+
+  // Dose-response tables for multi-level exposures, levels in valueOrder
+  const doseResponseResults: DoseResponseExposureResult[] = useMemo(() => {
+    if (studyDesign === 'matched' || exposureResults.length === 0) return [];
+
+    return exposureResults
+      .filter(result => getExposureValues(result.exposureVar).length > 2)
+      .map(result => {
+        const expVar = result.exposureVar;
+        const column = dataset.columns.find(c => c.key === expVar);
+        const counts = new Map<string, { cases: number; nonCases: number }>();
+        filteredRecords.forEach(record => {
+          const expValue = record[expVar];
+          if (expValue === null || expValue === undefined || expValue === '') return;
+          const outcomeValue = record[outcomeVar];
+          if (outcomeValue === null || outcomeValue === undefined || String(outcomeValue).trim() === '') return;
+          const level = counts.get(String(expValue)) ?? { cases: 0, nonCases: 0 };
+          if (isCase(record)) level.cases++;
+          else level.nonCases++;
+          counts.set(String(expValue), level);
+        });
+
+        const levels = orderExposureLevels(Array.from(counts.keys()), column?.valueOrder);
+        const savedReference = trendReferenceValues[expVar];
+        const referenceLevel = savedReference && levels.includes(savedReference) ? savedReference : levels[0] ?? '';
+        return {
+          exposureVar: expVar,
+          exposureLabel: result.exposureLabel,
+          referenceLevel,
+          doseResponse: calculateDoseResponse(
+            levels.map(label => ({ label, ...counts.get(label)! })),
+            referenceLevel
+          ),
+        };
+      });
+  }, [studyDesign, exposureResults, getExposureValues, dataset.columns, filteredRecords, outcomeVar, isCase, trendReferenceValues]);
 
   // Count total cases
   const totalCases = useMemo(() => {
@@ -441,8 +710,79 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
   };
 
   const formatCI = (ci: [number, number]): string => {
-    if (!isFinite(ci[0]) || !isFinite(ci[1])) return '(Undefined)';
-    return `(${formatSigFigs(ci[0], 3)} - ${formatSigFigs(ci[1], 3)})`;
+    if (isNaN(ci[0]) || isNaN(ci[1])) return '(Undefined)';
+    // Exact limits are unbounded when a cell is zero
+    const formatLimit = (v: number) => (v === Infinity ? '∞' : formatSigFigs(v, 3));
+    return `(${formatLimit(ci[0])} - ${formatLimit(ci[1])})`;
+  };
+
+  // Attack rate CI as percentages, e.g. "(12.3-45.6%)"
+  const formatRateCI = (ci: [number, number], n: number): string => {
+    if (isNaN(ci[0]) || isNaN(ci[1])) return '';
+    return `(${formatStatPercent(ci[0] * 100, n)}-${formatStatPercent(ci[1] * 100, n)}%)`;
+  };
+
+  // Export the summary table with the CI / p-value methods used
+  const exportResultsCSV = () => {
+    const labels = CONFIDENCE_METHOD_LABELS[ciMethod];
+    const columns: DataColumn[] = [
+      { key: 'exposure', label: 'Exposure', type: 'text' },
+      { key: 'exposedValue', label: 'Exposed value', type: 'text' },
+      { key: 'a', label: 'Exposed cases', type: 'number' },
+      { key: 'b', label: 'Exposed non-cases', type: 'number' },
+      { key: 'c', label: 'Unexposed cases', type: 'number' },
+      { key: 'd', label: 'Unexposed non-cases', type: 'number' },
+      { key: 'arExposed', label: 'Attack rate exposed (%)', type: 'number' },
+      { key: 'arExposedLower', label: 'Attack rate exposed 95% CI lower', type: 'number' },
+      { key: 'arExposedUpper', label: 'Attack rate exposed 95% CI upper', type: 'number' },
+      { key: 'arUnexposed', label: 'Attack rate unexposed (%)', type: 'number' },
+      { key: 'arUnexposedLower', label: 'Attack rate unexposed 95% CI lower', type: 'number' },
+      { key: 'arUnexposedUpper', label: 'Attack rate unexposed 95% CI upper', type: 'number' },
+      { key: 'riskRatio', label: 'RR', type: 'number' },
+      { key: 'riskRatioLower', label: 'RR 95% CI lower', type: 'number' },
+      { key: 'riskRatioUpper', label: 'RR 95% CI upper', type: 'number' },
+      { key: 'oddsRatio', label: 'OR', type: 'number' },
+      { key: 'oddsRatioLower', label: 'OR 95% CI lower', type: 'number' },
+      { key: 'oddsRatioUpper', label: 'OR 95% CI upper', type: 'number' },
+      { key: 'pValue', label: 'p-value', type: 'number' },
+      { key: 'proportionMethod', label: 'Attack rate CI method', type: 'text' },
+      { key: 'riskRatioMethod', label: 'RR CI method', type: 'text' },
+      { key: 'oddsRatioMethod', label: 'OR CI method', type: 'text' },
+      { key: 'pValueMethod', label: 'p-value method', type: 'text' },
+    ];
+    const toNumber = (v: number) => (isFinite(v) ? v : null);
+    const records: CaseRecord[] = exposureResults.map((result, i) => {
+      const r = result.results;
+      const m = methodResults.get(result.exposureVar)!;
+      return {
+        id: String(i + 1),
+        exposure: result.exposureLabel,
+        exposedValue: result.exposedValue,
+        a: r.table.a,
+        b: r.table.b,
+        c: r.table.c,
+        d: r.table.d,
+        arExposed: toNumber(r.attackRateExposed * 100),
+        arExposedLower: toNumber(m.attackRateExposedCI[0] * 100),
+        arExposedUpper: toNumber(m.attackRateExposedCI[1] * 100),
+        arUnexposed: toNumber(r.attackRateUnexposed * 100),
+        arUnexposedLower: toNumber(m.attackRateUnexposedCI[0] * 100),
+        arUnexposedUpper: toNumber(m.attackRateUnexposedCI[1] * 100),
+        riskRatio: toNumber(r.riskRatio),
+        riskRatioLower: toNumber(r.riskRatioCI[0]),
+        riskRatioUpper: toNumber(r.riskRatioCI[1]),
+        oddsRatio: toNumber(r.oddsRatio),
+        oddsRatioLower: toNumber(m.oddsRatioCI[0]),
+        oddsRatioUpper: m.oddsRatioCI[1] === Infinity ? 'Inf' : toNumber(m.oddsRatioCI[1]),
+        pValue: toNumber(m.pValue),
+        proportionMethod: labels.proportion,
+        riskRatioMethod: 'Taylor series',
+        oddsRatioMethod: labels.oddsRatio,
+        pValueMethod: labels.pValue,
+      };
+    });
+    const csv = exportToCSV(columns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `2x2_results_${new Date().toISOString().split('T')[0]}.csv`);
   };
 
   // Toggle exposure selection
@@ -509,6 +849,12 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                     <th colSpan={2} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Attack rate ratio
                     </th>
+                    <th rowSpan={2} className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-l border-gray-200">
+                      <div className="flex items-center justify-center gap-1">
+                        <span>p-value</span>
+                        <StatTooltip {...statDefinitions.pValue} />
+                      </div>
+                    </th>
                   </tr>
                   {/* Second header row - individual columns */}
                   <tr>
@@ -585,6 +931,12 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                       <StatTooltip {...statDefinitions.confidenceInterval} />
                     </div>
                   </th>
+                  <th className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <div className="flex items-center justify-center gap-1">
+                      <span>p-value</span>
+                      <StatTooltip {...statDefinitions.pValue} />
+                    </div>
+                  </th>
                 </tr>
               )}
             </thead>
@@ -592,8 +944,9 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
               {exposureResults.map((result) => {
                 const r = result.results;
                 const isSignificant = r.chiSquarePValue < 0.05;
+                const m = methodResults.get(result.exposureVar)!;
                 const measure = studyDesign === 'cohort' ? r.riskRatio : r.oddsRatio;
-                const ci = studyDesign === 'cohort' ? r.riskRatioCI : r.oddsRatioCI;
+                const ci = studyDesign === 'cohort' ? r.riskRatioCI : m.oddsRatioCI;
 
                 return (
                   <tr key={result.exposureVar}>
@@ -607,11 +960,13 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                         <td className="px-3 py-2 text-sm text-center text-gray-900">{r.totalExposed}</td>
                         <td className="px-3 py-2 text-sm text-center text-gray-900 border-r border-gray-200">
                           {formatStatPercent(r.attackRateExposed * 100, r.total)}%
+                          <div className="text-xs text-gray-500">{formatRateCI(m.attackRateExposedCI, r.totalExposed)}</div>
                         </td>
                         <td className="px-3 py-2 text-sm text-center text-gray-900">{r.table.c}</td>
                         <td className="px-3 py-2 text-sm text-center text-gray-900">{r.totalUnexposed}</td>
                         <td className="px-3 py-2 text-sm text-center text-gray-900 border-r border-gray-200">
                           {formatStatPercent(r.attackRateUnexposed * 100, r.total)}%
+                          <div className="text-xs text-gray-500">{formatRateCI(m.attackRateUnexposedCI, r.totalUnexposed)}</div>
                         </td>
                         <td className={`px-3 py-2 text-sm text-center font-semibold ${isSignificant ? 'text-gray-900' : 'text-gray-900'}`}>
                           {formatMeasure(measure)}
@@ -619,6 +974,9 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                         <td className="px-3 py-2 text-sm text-center text-gray-500">
                           {formatCI(ci)}
                         </td>
+                        <td className="px-3 py-2 text-sm text-center text-gray-900 border-l border-gray-200">
+                          {formatPValue(m.pValue)}
+                        </td>
                       </>
                     ) : (
                       <>
@@ -634,6 +992,9 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                         <td className="px-3 py-2 text-sm text-center text-gray-500">
                           {formatCI(ci)}
                         </td>
+                        <td className="px-3 py-2 text-sm text-center text-gray-900 border-l border-gray-200">
+                          {formatPValue(m.pValue)}
+                        </td>
                       </>
                     )}
                   </tr>
@@ -646,11 +1007,229 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
           {studyDesign === 'cohort'
             ? 'AR = Attack Rate (Row %), RR = Risk Ratio. These are bivariate risk ratios (associations were run one at a time).'
             : 'Percentages are column percentages; per-exposure denominators may be smaller than the totals above due to missing exposure values. OR = Odds Ratio. These are bivariate odds ratios (associations were run one at a time).'}
+          <div className="mt-1">
+            {studyDesign === 'cohort'
+              ? `Attack rate 95% CI: ${CONFIDENCE_METHOD_LABELS[ciMethod].proportion}. ARR 95% CI: Taylor series. p-value: ${CONFIDENCE_METHOD_LABELS[ciMethod].pValue}.`
+              : `OR 95% CI: ${CONFIDENCE_METHOD_LABELS[ciMethod].oddsRatio}. p-value: ${CONFIDENCE_METHOD_LABELS[ciMethod].pValue}.`}
+          </div>
         </div>
       </div>
     );
   };
 
+  const formatPValue = (p: number): string => {
+    if (!isFinite(p)) return 'Not computable';
+    return p < 0.001 ? '<0.001' : p.toFixed(3);
+  };
+
+  // Render the Mantel-Haenszel results for one exposure
+  const renderStratifiedTable = (result: StratifiedExposureResult) => {
+    const s = result.stratified;
+    const showRR = studyDesign === 'cohort';
+    const crudeMeasure = showRR ? s.crude.riskRatio : s.crude.oddsRatio;
+    const adjustedMeasure = showRR ? s.mhRiskRatio : s.mhOddsRatio;
+    const homogeneity = showRR ? s.woolfRiskRatio : s.breslowDay;
+    // Conventional 10% change-in-estimate rule for confounding
+    const percentChange = isFinite(crudeMeasure) && isFinite(adjustedMeasure) && adjustedMeasure > 0
+      ? (Math.abs(crudeMeasure - adjustedMeasure) / adjustedMeasure) * 100
+      : NaN;
+    const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+    const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+    return (
+      <div key={result.exposureVar} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-900">
+          {result.exposureLabel}
+          <span className="text-xs text-gray-500 ml-1">({result.exposedValue})</span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stratum</th>
+                <th className={headerClass}>{showRR ? 'Exp. Ill / Total' : 'Exp. Cases'}</th>
+                <th className={headerClass}>{showRR ? 'Unexp. Ill / Total' : 'Exp. Controls'}</th>
+                {showRR && <th className={headerClass}>RR (95% CI)</th>}
+                <th className={headerClass}>OR (95% CI)</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {s.strata.map(stratum => {
+                const r = stratum.results;
+                return (
+                  <tr key={stratum.label}>
+                    <td className="px-3 py-2 text-sm text-gray-900">{stratum.label}</td>
+                    <td className={cellClass}>
+                      {showRR ? `${r.table.a} / ${r.totalExposed}` : `${r.table.a} / ${r.totalDisease}`}
+                    </td>
+                    <td className={cellClass}>
+                      {showRR ? `${r.table.c} / ${r.totalUnexposed}` : `${r.table.b} / ${r.totalNoDisease}`}
+                    </td>
+                    {showRR && (
+                      <td className={cellClass}>{formatMeasure(r.riskRatio)} {formatCI(r.riskRatioCI)}</td>
+                    )}
+                    <td className={cellClass}>{formatMeasure(r.oddsRatio)} {formatCI(r.oddsRatioCI)}</td>
+                  </tr>
+                );
+              })}
+              <tr className="bg-gray-50">
+                <td className="px-3 py-2 text-sm font-medium text-gray-900">Crude</td>
+                <td className={cellClass}>
+                  {showRR ? `${s.crude.table.a} / ${s.crude.totalExposed}` : `${s.crude.table.a} / ${s.crude.totalDisease}`}
+                </td>
+                <td className={cellClass}>
+                  {showRR ? `${s.crude.table.c} / ${s.crude.totalUnexposed}` : `${s.crude.table.b} / ${s.crude.totalNoDisease}`}
+                </td>
+                {showRR && (
+                  <td className={cellClass}>{formatMeasure(s.crude.riskRatio)} {formatCI(s.crude.riskRatioCI)}</td>
+                )}
+                <td className={cellClass}>{formatMeasure(s.crude.oddsRatio)} {formatCI(s.crude.oddsRatioCI)}</td>
+              </tr>
+              <tr className="bg-gray-50">
+                <td className="px-3 py-2 text-sm font-semibold text-gray-900">MH adjusted</td>
+                <td className={cellClass}>—</td>
+                <td className={cellClass}>—</td>
+                {showRR && (
+                  <td className={`${cellClass} font-semibold`}>{formatMeasure(s.mhRiskRatio)} {formatCI(s.mhRiskRatioCI)}</td>
+                )}
+                <td className={`${cellClass} font-semibold`}>{formatMeasure(s.mhOddsRatio)} {formatCI(s.mhOddsRatioCI)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-xs text-gray-600 space-y-1">
+          <div>
+            Mantel-Haenszel chi-square: {isFinite(s.mhChiSquare) ? s.mhChiSquare.toFixed(2) : 'Not computable'}, p = {formatPValue(s.mhChiSquarePValue)}
+          </div>
+          <div>
+            {showRR ? 'Test of homogeneity of RR (Woolf)' : 'Test of homogeneity of OR (Breslow-Day)'}:{' '}
+            {isFinite(homogeneity.chiSquare)
+              ? `χ² = ${homogeneity.chiSquare.toFixed(2)}, df = ${homogeneity.degreesOfFreedom}, p = ${formatPValue(homogeneity.pValue)}`
+              : 'Not computable (fewer than two informative strata)'}
+          </div>
+          <div className="text-gray-700">
+            {isFinite(homogeneity.pValue) && homogeneity.pValue < 0.05
+              ? 'Stratum-specific estimates differ (possible effect modification): report them separately rather than the adjusted estimate.'
+              : isFinite(percentChange)
+                ? `Crude and adjusted ${showRR ? 'RR' : 'OR'} differ by ${formatSigFigs(percentChange, 2)}% — ${percentChange > 10 ? 'suggests confounding by this variable.' : 'little evidence of confounding by this variable.'}`
+                : 'Crude and adjusted estimates cannot be compared.'}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render the matched-pair table, McNemar test and conditional logistic estimate for one exposure
+  const renderMatchedTable = (result: MatchedExposureResult) => {
+    const m = result.pairs;
+    const clr = result.conditional;
+    const coefficient = clr.coefficients[0];
+    const excluded = clr.excludedSets.noCase + clr.excludedSets.noControl + clr.excludedSets.multipleCases;
+    const cellClass = 'px-3 py-2 text-sm text-center text-gray-900';
+    const headerClass = 'px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+    return (
+      <div key={result.exposureVar} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-900">
+          {result.exposureLabel}
+          <span className="text-xs text-gray-500 ml-1">({result.exposedValue})</span>
+        </div>
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">1:1 Pairs ({m.pairs})</div>
+            <table className="divide-y divide-gray-200 border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2" />
+                  <th className={headerClass}>Control Exposed</th>
+                  <th className={headerClass}>Control Unexposed</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                <tr>
+                  <td className="px-3 py-2 text-xs font-medium text-gray-500 uppercase">Case Exposed</td>
+                  <td className={cellClass}>{m.table.bothExposed}</td>
+                  <td className={`${cellClass} font-semibold`}>{m.table.caseOnlyExposed}</td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 text-xs font-medium text-gray-500 uppercase">Case Unexposed</td>
+                  <td className={`${cellClass} font-semibold`}>{m.table.controlOnlyExposed}</td>
+                  <td className={cellClass}>{m.table.neitherExposed}</td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="mt-2 text-xs text-gray-600 space-y-1">
+              <div>
+                Matched OR (discordant pairs {m.table.caseOnlyExposed}/{m.table.controlOnlyExposed}):{' '}
+                <strong>{formatMeasure(m.matchedOddsRatio)}</strong> {formatCI(m.matchedOddsRatioCI)} exact 95% CI
+              </div>
+              <div>
+                McNemar χ² (corrected): {isFinite(m.mcNemarChiSquare) ? m.mcNemarChiSquare.toFixed(2) : 'Not computable'},
+                p = {formatPValue(m.mcNemarPValue)} · exact p = {formatPValue(m.mcNemarExactPValue)}
+              </div>
+            </div>
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Conditional Logistic (1:M sets)</div>
+            {coefficient ? (
+              <div className="text-sm text-gray-900 space-y-1">
+                <div>
+                  Matched OR: <strong>{formatMeasure(coefficient.oddsRatio)}</strong> {formatCI(coefficient.oddsRatioCI)} 95% CI
+                </div>
+                <div className="text-xs text-gray-600">
+                  Wald p = {formatPValue(coefficient.pValue)} · LR χ² = {isFinite(clr.lrChiSquare) ? clr.lrChiSquare.toFixed(2) : '—'}, p = {formatPValue(clr.lrPValue)}
+                </div>
+                <div className="text-xs text-gray-600">
+                  {clr.setsUsed} sets ({clr.casesUsed} cases, {clr.controlsUsed} controls)
+                  {excluded > 0 && ` · ${excluded} set${excluded !== 1 ? 's' : ''} excluded (${clr.excludedSets.noCase} without a case, ${clr.excludedSets.noControl} without a control, ${clr.excludedSets.multipleCases} with more than one case)`}
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">No usable matched sets</div>
+            )}
+            {clr.warnings.length > 0 && (
+              <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+                {clr.warnings.join(' ')}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Render the multivariable conditional logistic model
+  const renderMatchedAdjusted = (model: ConditionalLogisticResult) => (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exposure</th>
+              <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Adjusted Matched OR (95% CI)</th>
+              <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">p (Wald)</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {model.coefficients.map(c => (
+              <tr key={c.label}>
+                <td className="px-3 py-2 text-sm text-gray-900">{c.label}</td>
+                <td className="px-3 py-2 text-sm text-center text-gray-900">{formatMeasure(c.oddsRatio)} {formatCI(c.oddsRatioCI)}</td>
+                <td className="px-3 py-2 text-sm text-center text-gray-900">{formatPValue(c.pValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500 space-y-1">
+        <div>
+          {model.setsUsed} sets with complete data on all exposures · LR χ² = {isFinite(model.lrChiSquare) ? model.lrChiSquare.toFixed(2) : '—'}, df = {model.lrDegreesOfFreedom}, p = {formatPValue(model.lrPValue)}
+        </div>
+        {model.warnings.length > 0 && <div className="text-amber-700">{model.warnings.join(' ')}</div>}
+      </div>
+    </div>
+  );
+
   return (
     <div className="h-full overflow-auto p-6 space-y-6">
       {/* TabHeader */}
@@ -764,11 +1343,43 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
             />
             <span className="text-sm text-gray-900">Case-Control (Odds Ratios)</span>
           </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="studyDesign"
+              value="matched"
+              checked={studyDesign === 'matched'}
+              onChange={() => setStudyDesign('matched')}
+              className="w-4 h-4 text-gray-700 focus:ring-gray-500"
+            />
+            <span className="text-sm text-gray-900">Matched Case-Control (Match Sets)</span>
+          </label>
         </div>
         <p className="mt-2 text-xs text-gray-500">
           {studyDesign === 'cohort' && 'Compare attack rates between exposed and unexposed groups.'}
           {studyDesign === 'case-control' && 'Compare odds of exposure between cases and controls.'}
+          {studyDesign === 'matched' && 'Compare exposure within matched sets: discordant pairs and McNemar\'s test for 1:1 pairs, conditional logistic regression for 1:M sets.'}
         </p>
+        {studyDesign === 'matched' && (
+          <div className="mt-3">
+            <label className="block text-xs text-gray-500 mb-1">Match set ID</label>
+            <select
+              value={matchSetVar}
+              onChange={(e) => setMatchSetVar(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">Select column...</option>
+              {matchSetColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+            {matchSetVar && (
+              <div className="mt-2 text-xs text-gray-600">
+                {matchSetRecords.size} matched set{matchSetRecords.size !== 1 ? 's' : ''}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Outcome Variable */}
@@ -844,11 +1455,11 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
                   <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Value Mapping</div>
                   <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
                     <div className="flex items-center gap-2">
-                      <span className="font-medium text-gray-700">{studyDesign === 'case-control' ? 'Case:' : 'Ill:'}</span>
+                      <span className="font-medium text-gray-700">{studyDesign === 'cohort' ? 'Ill:' : 'Case:'}</span>
                       <span className="text-gray-600">{Array.from(caseValues).join(', ')}</span>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="font-medium text-gray-700">{studyDesign === 'case-control' ? 'Control:' : 'Not Ill:'}</span>
+                      <span className="font-medium text-gray-700">{studyDesign === 'cohort' ? 'Not Ill:' : 'Control:'}</span>
                       <span className="text-gray-600">
                         {outcomeValues.filter(v => !caseValues.has(v)).join(', ') || '(none)'}
                       </span>
@@ -935,11 +1546,99 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
         </div>
       )}
 
+      {/* Stratification (Mantel-Haenszel) */}
+      {outcomeVar && caseValues.size > 0 && selectedExposures.length > 0 && studyDesign !== 'matched' && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-900 mb-3">Stratify By (optional)</h4>
+          <p className="text-xs text-gray-600 mb-3">
+            Choose a potential confounder (e.g., age group or sex) to build one 2×2 table per stratum and calculate Mantel-Haenszel adjusted measures alongside the crude estimates.
+          </p>
+          <select
+            value={stratifyBy}
+            onChange={(e) => setStratifyBy(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">None (crude analysis only)</option>
+            {stratifyColumns.map(col => (
+              <option key={col.key} value={col.key}>{col.label}</option>
+            ))}
+          </select>
+          {stratifyBy && (
+            <div className="mt-2 text-xs text-gray-600">
+              {stratumValues.length} strata
+              {missingStratumCount > 0 && ` · ${missingStratumCount} record${missingStratumCount !== 1 ? 's' : ''} with a missing stratum value excluded from the stratified analysis`}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Results */}
       {exposureResults.length > 0 && (
         <div className="space-y-4">
-          <h4 className="text-sm font-semibold text-gray-900">Summary Table</h4>
-          {renderSummaryTable()}
+          {studyDesign === 'matched' ? (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-gray-900">Matched Analysis</h4>
+              {!matchSetVar && (
+                <div className="text-sm text-gray-500">Select the column that identifies each matched set above.</div>
+              )}
+              {matchedResults.map(renderMatchedTable)}
+              {matchedAdjusted && (
+                <>
+                  <h4 className="text-sm font-semibold text-gray-900">Conditional Logistic Model (all selected exposures)</h4>
+                  {renderMatchedAdjusted(matchedAdjusted)}
+                </>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="text-sm font-semibold text-gray-900">Summary Table</h4>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  CI / p-value method
+                  <select
+                    value={ciMethod}
+                    onChange={(e) => setCiMethod(e.target.value as ConfidenceMethod)}
+                    className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-gray-500 bg-white"
+                  >
+                    <option value="approximate">Approximate (Woolf/Taylor, Wilson, chi-square)</option>
+                    <option value="exact">Exact (conditional OR, Clopper-Pearson, Fisher)</option>
+                    <option value="mid-p">Mid-P exact</option>
+                  </select>
+                </label>
+              </div>
+              {renderSummaryTable()}
+            </>
+          )}
+
+          {studyDesign !== 'matched' && stratifiedResults.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-gray-900">
+                Stratified Analysis by {dataset.columns.find(c => c.key === stratifyBy)?.label || stratifyBy}
+              </h4>
+              {stratifiedResults.map(renderStratifiedTable)}
+            </div>
+          )}
+
+          {doseResponseResults.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold text-gray-900">Dose-Response</h4>
+              <p className="text-xs text-gray-600">
+                Attack rates and ratio measures for every level of each multi-level exposure against the chosen reference level, with the chi-square test for linear trend. Levels follow the column's value order when one is set.
+              </p>
+              {doseResponseResults.map(result => (
+                <DoseResponseTable
+                  key={result.exposureVar}
+                  exposureLabel={result.exposureLabel}
+                  outcomeLabel={studyDesign === 'cohort' ? 'Ill' : 'Cases'}
+                  result={result.doseResponse}
+                  referenceLevel={result.referenceLevel}
+                  onReferenceLevelChange={(level) => setTrendReferenceValues(prev => ({ ...prev, [result.exposureVar]: level }))}
+                  showRiskRatio={studyDesign === 'cohort'}
+                  filename={`${dataset.name}_${result.exposureVar}_dose_response`}
+                />
+              ))}
+            </div>
+          )}
 
           {/* Interpretation Example for Cohort Studies */}
           {studyDesign === 'cohort' && exposureResults.length > 0 && (
@@ -1001,6 +1700,12 @@ export function TwoByTwoAnalysis({ dataset, initialExposure }: TwoByTwoAnalysisP
           {/* Results Actions */}
           <ResultsActions
             actions={[
+              {
+                label: 'Export Results CSV',
+                onClick: exportResultsCSV,
+                icon: ExportIcons.csv,
+                disabled: studyDesign === 'matched',
+              },
               {
                 label: 'Export Dataset CSV',
                 onClick: exportDatasetCSV,
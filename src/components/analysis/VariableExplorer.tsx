@@ -1,9 +1,11 @@
 import { useState, useMemo } from 'react';
 import type { Dataset, VariableConfig } from '../../types/analysis';
-import { calculateDescriptiveStats, calculateFrequency } from '../../utils/statistics';
-import type { DescriptiveStats, FrequencyItem } from '../../utils/statistics';
+import { calculateDescriptiveStats, calculateFrequency, proportionCI, CONFIDENCE_METHOD_LABELS } from '../../utils/statistics';
+import type { DescriptiveStats, FrequencyItem, ConfidenceMethod } from '../../utils/statistics';
 import { formatSigFigs, formatStatPercent } from '../../utils/localeNumbers';
+import { getActiveSurveyDesign, prepareSurveySample, surveyFrequency, surveyMean } from '../../utils/surveyDesign';
 import { CreateVariableModal } from '../review/CreateVariableModal';
+import { ContinuousGroupComparison } from './ContinuousGroupComparison';
 import { StatTooltip, statDefinitions } from '../shared';
 
 interface VariableExplorerProps {
@@ -54,6 +56,8 @@ export function VariableExplorer({
   const [showCreateVariableModal, setShowCreateVariableModal] = useState(false);
   const [showFixValuesModal, setShowFixValuesModal] = useState(false);
   const [valueMappings, setValueMappings] = useState<ValueMapping[]>([]);
+  // Confidence interval method for frequency percents ('none' hides the column)
+  const [ciMethod, setCiMethod] = useState<ConfidenceMethod | 'none'>('none');
 
   const selectedColumn = dataset.columns.find(c => c.key === selectedVar);
 
@@ -156,6 +160,17 @@ export function VariableExplorer({
 
   const maxBinCount = Math.max(...histogramBins.map(b => b.count), 1);
 
+  // Design-based estimates when the dataset declares weights, strata or clusters
+  const surveySample = useMemo(() => {
+    const design = getActiveSurveyDesign(dataset.surveyDesign, dataset.columns);
+    return design ? prepareSurveySample(dataset.records, design) : null;
+  }, [dataset.surveyDesign, dataset.columns, dataset.records]);
+
+  const surveyMeanEstimate = useMemo(() => {
+    if (!surveySample || !selectedVar || !numericStats) return null;
+    return surveyMean(surveySample, selectedVar);
+  }, [surveySample, selectedVar, numericStats]);
+
   // Calculate frequency distribution
   const frequency: FrequencyItem[] = useMemo(() => {
     if (!selectedVar) return [];
@@ -202,6 +217,11 @@ export function VariableExplorer({
     return freq;
   }, [values, selectedVar, selectedColumn]);
 
+  const surveyFrequencies = useMemo(() => {
+    if (!surveySample || !selectedVar || selectedColumn?.type === 'number') return null;
+    return surveyFrequency(surveySample, selectedVar, frequency.map(item => item.value));
+  }, [surveySample, selectedVar, selectedColumn?.type, frequency]);
+
   // Initialize value mappings when opening Fix Values modal
   const handleOpenFixValues = () => {
     const mappings: ValueMapping[] = frequency.map(item => ({
@@ -483,9 +503,22 @@ export function VariableExplorer({
 
               {/* Frequency Table */}
               <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-                <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
-                  <h4 className="text-sm font-semibold text-gray-900">Frequency Table</h4>
-                  <p className="text-xs text-gray-500">{selectedColumn?.label}</p>
+                <div className="bg-gray-50 px-4 py-3 border-b border-gray-200 flex items-start justify-between gap-2">
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900">Frequency Table</h4>
+                    <p className="text-xs text-gray-500">{selectedColumn?.label}</p>
+                  </div>
+                  <select
+                    value={ciMethod}
+                    onChange={(e) => setCiMethod(e.target.value as ConfidenceMethod | 'none')}
+                    className="text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+                    title="95% confidence interval for percents"
+                  >
+                    <option value="none">No CI</option>
+                    <option value="approximate">95% CI: Wilson score</option>
+                    <option value="exact">95% CI: Clopper-Pearson exact</option>
+                    <option value="mid-p">95% CI: Mid-P exact</option>
+                  </select>
                 </div>
                 <div className="max-h-64 overflow-auto">
                   <table className="w-full text-sm">
@@ -495,6 +528,14 @@ export function VariableExplorer({
                         <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">N</th>
                         <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">%</th>
                         <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cum %</th>
+                        {ciMethod !== 'none' && (
+                          <th
+                            className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase"
+                            title={CONFIDENCE_METHOD_LABELS[ciMethod].proportion}
+                          >
+                            95% CI
+                          </th>
+                        )}
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -504,6 +545,14 @@ export function VariableExplorer({
                           <td className="px-4 py-2 text-gray-900 text-right">{item.count}</td>
                           <td className="px-4 py-2 text-gray-900 text-right">{formatStatPercent(item.percent, missingInfo.validCount)}%</td>
                           <td className="px-4 py-2 text-gray-500 text-right">{formatStatPercent(item.cumPercent, missingInfo.validCount)}%</td>
+                          {ciMethod !== 'none' && (() => {
+                            const [lower, upper] = proportionCI(item.count, missingInfo.validCount, ciMethod);
+                            return (
+                              <td className="px-4 py-2 text-gray-500 text-right whitespace-nowrap">
+                                {formatStatPercent(lower * 100, missingInfo.validCount)}-{formatStatPercent(upper * 100, missingInfo.validCount)}%
+                              </td>
+                            );
+                          })()}
                         </tr>
                       ))}
                       {missingInfo.missingCount > 0 && (
@@ -512,6 +561,7 @@ export function VariableExplorer({
                           <td className="px-4 py-2 text-right">{missingInfo.missingCount}</td>
                           <td className="px-4 py-2 text-right">-</td>
                           <td className="px-4 py-2 text-right">-</td>
+                          {ciMethod !== 'none' && <td className="px-4 py-2 text-right">-</td>}
                         </tr>
                       )}
                     </tbody>
@@ -523,11 +573,64 @@ export function VariableExplorer({
                         </td>
                         <td className="px-4 py-2 text-right font-medium text-gray-900">100%</td>
                         <td className="px-4 py-2 text-right">-</td>
+                        {ciMethod !== 'none' && <td className="px-4 py-2 text-right">-</td>}
                       </tr>
                     </tfoot>
                   </table>
                 </div>
               </div>
+
+              {/* Survey-weighted percentages (complex survey design) */}
+              {surveySample && surveyFrequencies && (
+                <div className="bg-white border border-amber-200 rounded-lg overflow-hidden">
+                  <div className="bg-amber-50 px-4 py-3 border-b border-amber-200">
+                    <h4 className="text-sm font-semibold text-gray-900">Survey-weighted Estimates</h4>
+                    <p className="text-xs text-gray-500">
+                      Taylor-linearized SEs · {surveySample.summary.psus} PSUs in {surveySample.summary.strata} {surveySample.summary.strata === 1 ? 'stratum' : 'strata'} · df {surveySample.summary.degreesOfFreedom}
+                    </p>
+                  </div>
+                  <div className="max-h-64 overflow-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Value</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">n</th>
+                          {surveySample.summary.weighted && (
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Weighted N</th>
+                          )}
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">%</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">SE</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">95% CI</th>
+                          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase" title="Design variance / simple random sampling variance">Deff</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {surveyFrequencies.levels.map(level => (
+                          <tr key={level.value} className="hover:bg-gray-50">
+                            <td className="px-3 py-2 text-gray-900">{level.value}</td>
+                            <td className="px-3 py-2 text-gray-900 text-right">{level.count}</td>
+                            {surveySample.summary.weighted && (
+                              <td className="px-3 py-2 text-gray-900 text-right">{formatSigFigs(level.weightedCount, 4)}</td>
+                            )}
+                            <td className="px-3 py-2 text-gray-900 text-right">{formatSigFigs(level.estimate * 100, 3)}%</td>
+                            <td className="px-3 py-2 text-gray-500 text-right">{formatSigFigs(level.standardError * 100, 2)}</td>
+                            <td className="px-3 py-2 text-gray-500 text-right whitespace-nowrap">
+                              {isFinite(level.ci[0]) ? `${formatSigFigs(level.ci[0] * 100, 3)}-${formatSigFigs(level.ci[1] * 100, 3)}%` : '-'}
+                            </td>
+                            <td className="px-3 py-2 text-gray-500 text-right">{isFinite(level.designEffect) ? formatSigFigs(level.designEffect, 3) : '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {(surveySample.summary.excluded > 0 || surveyFrequencies.missingCount > 0) && (
+                    <p className="px-4 py-2 text-xs text-amber-700 border-t border-amber-100">
+                      {surveySample.summary.excluded > 0 && `${surveySample.summary.excluded} records outside the design. `}
+                      {surveyFrequencies.missingCount > 0 && `${surveyFrequencies.missingCount} missing values excluded from percentages.`}
+                    </p>
+                  )}
+                </div>
+              )}
             </>
           ) : (
             <div className="h-96 flex items-center justify-center text-gray-400 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
@@ -576,6 +679,38 @@ export function VariableExplorer({
                 </div>
               </div>
 
+              {/* Survey-weighted mean (complex survey design) */}
+              {surveyMeanEstimate && (
+                <div className="bg-white border border-amber-200 rounded-lg p-4">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-3">Survey-weighted Mean</h4>
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div className="text-center p-3 bg-amber-50 rounded-lg col-span-2">
+                      <p className="text-xl font-bold text-amber-900">{formatSigFigs(surveyMeanEstimate.estimate, 3)}</p>
+                      <p className="text-xs text-amber-700">
+                        95% CI {isFinite(surveyMeanEstimate.ci[0])
+                          ? `${formatSigFigs(surveyMeanEstimate.ci[0], 3)} - ${formatSigFigs(surveyMeanEstimate.ci[1], 3)}`
+                          : '-'}
+                      </p>
+                    </div>
+                    <div className="text-center">
+                      <p className="font-semibold text-gray-900">{formatSigFigs(surveyMeanEstimate.standardError, 3)}</p>
+                      <p className="text-xs text-gray-500">Linearized SE</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="font-semibold text-gray-900">
+                        {isFinite(surveyMeanEstimate.designEffect) ? formatSigFigs(surveyMeanEstimate.designEffect, 3) : '-'}
+                      </p>
+                      <p className="text-xs text-gray-500" title="Design variance / simple random sampling variance">Design effect</p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    n = {surveyMeanEstimate.count}
+                    {surveySample?.summary.weighted && ` · weighted N = ${formatSigFigs(surveyMeanEstimate.weightedCount, 4)}`}
+                    {' '}· df {surveySample?.summary.degreesOfFreedom}
+                  </p>
+                </div>
+              )}
+
               {/* 5-Number Summary */}
               <div className="bg-white border border-gray-200 rounded-lg p-4">
                 <h4 className="text-sm font-semibold text-gray-900 mb-3">5-Number Summary</h4>
@@ -740,6 +875,13 @@ export function VariableExplorer({
         </div>
       </div>
 
+      {/* Group comparison for numeric variables */}
+      {selectedVar && numericStats && (
+        <div className="mt-6">
+          <ContinuousGroupComparison key={selectedVar} dataset={dataset} variableKey={selectedVar} />
+        </div>
+      )}
+
       {/* Recode Options Modal */}
       {showRecodeModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
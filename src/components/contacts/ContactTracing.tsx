@@ -0,0 +1,492 @@
+/**
+ * ContactTracing Component
+ *
+ * Register of the contacts of each case with their daily follow-up. Contacts
+ * are followed from the day after last exposure through the pathogen's
+ * maximum incubation period; the checklist for a chosen day lists everyone
+ * under follow-up with overdue contacts first. A contact who becomes ill can
+ * be added to the line list as a new case linked to its source case.
+ *
+ * Contacts are stored alongside the datasets (see App); column mapping and the
+ * pathogen are persisted per dataset under `epikit_contact_tracing_<datasetId>`.
+ */
+import { useState, useMemo, useEffect } from 'react';
+import type { CaseRecord, Contact, DataColumn, Dataset, FollowUpStatus } from '../../types/analysis';
+import {
+  CONTACT_STATUS_LABELS,
+  contactFollowUp,
+  contactToCaseRecord,
+  contactTracingIndicators,
+  dailyChecklist,
+  FOLLOW_UP_STATUS_LABELS,
+  toIsoDate,
+} from '../../utils/contactTracing';
+import type { ContactStatus } from '../../utils/contactTracing';
+import { PATHOGEN_INCUBATION } from '../../utils/epiCurve';
+import { downloadBlob } from '../../utils/chartExport';
+import { exportToCSV } from '../../utils/csvParser';
+import { formatSigFigs } from '../../utils/localeNumbers';
+import { useLocale } from '../../contexts/LocaleContext';
+import { TabHeader, ResultsActions, ExportIcons } from '../shared';
+
+interface ContactTracingProps {
+  dataset: Dataset;
+  /** Contacts registered for this dataset */
+  contacts: Contact[];
+  onAddContact: (contact: Contact) => void;
+  onUpdateContact: (id: string, updates: Partial<Contact>) => void;
+  onRemoveContact: (id: string) => void;
+  onAddRecord: (record: Omit<CaseRecord, 'id'>) => CaseRecord;
+}
+
+const ID_PATTERN = /case.?id|^id$/i;
+const SOURCE_PATTERN = /infect|source|contact|linked|parent/i;
+const NAME_PATTERN = /name/i;
+const ONSET_PATTERN = /onset/i;
+const DEFAULT_PATHOGEN = 'COVID-19';
+const followUpStatuses: FollowUpStatus[] = ['well', 'symptomatic', 'not-reached'];
+const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-gray-500';
+
+const statusBadgeClass: Record<ContactStatus, string> = {
+  awaiting: 'bg-gray-100 text-gray-700',
+  active: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  'became-case': 'bg-red-100 text-red-800',
+  lost: 'bg-amber-100 text-amber-800',
+};
+
+const resultButtonClass: Record<FollowUpStatus, string> = {
+  well: 'bg-green-600 text-white',
+  symptomatic: 'bg-red-600 text-white',
+  'not-reached': 'bg-gray-600 text-white',
+};
+
+const registerColumns: DataColumn[] = [
+  { key: 'name', label: 'Contact', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'text' },
+  { key: 'relationship', label: 'Relationship', type: 'text' },
+  { key: 'case', label: 'Case', type: 'text' },
+  { key: 'lastExposure', label: 'Last exposure', type: 'date' },
+  { key: 'followUpStart', label: 'Follow-up from', type: 'date' },
+  { key: 'followUpEnd', label: 'Follow-up through', type: 'date' },
+  { key: 'status', label: 'Status', type: 'text' },
+  { key: 'daysSeen', label: 'Days seen', type: 'number' },
+  { key: 'missedDays', label: 'Missed days', type: 'number' },
+  { key: 'lastSeen', label: 'Last seen', type: 'date' },
+  { key: 'firstSymptomatic', label: 'First symptomatic', type: 'date' },
+  { key: 'notes', label: 'Notes', type: 'text' },
+];
+
+const emptyForm = { caseRecordId: '', name: '', phone: '', relationship: '', lastExposure: '', notes: '' };
+
+export function ContactTracing({ dataset, contacts, onAddContact, onUpdateContact, onRemoveContact, onAddRecord }: ContactTracingProps) {
+  const { config: localeConfig } = useLocale();
+  const persistenceKey = `epikit_contact_tracing_${dataset.id}`;
+  const [saved] = useState<Record<string, unknown>>(() => {
+    try {
+      const raw = localStorage.getItem(persistenceKey);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  // Discard persisted column keys that no longer exist in the dataset
+  const validSavedColumn = (value: unknown): string => {
+    const key = typeof value === 'string' ? value : '';
+    return key && dataset.columns.some(col => col.key === key) ? key : '';
+  };
+
+  const textColumns = useMemo(() => dataset.columns.filter(col => col.type !== 'date'), [dataset.columns]);
+  const dateColumns = useMemo(() => dataset.columns.filter(col => col.type === 'date'), [dataset.columns]);
+  const findColumn = (columns: DataColumn[], pattern: RegExp) =>
+    columns.find(col => pattern.test(col.key) || pattern.test(col.label))?.key ?? '';
+
+  const [idField, setIdField] = useState<string>(() => validSavedColumn(saved.idField) || findColumn(textColumns, ID_PATTERN));
+  const [sourceField, setSourceField] = useState<string>(() => validSavedColumn(saved.sourceField) || findColumn(textColumns, SOURCE_PATTERN));
+  const [nameField, setNameField] = useState<string>(() => validSavedColumn(saved.nameField) || findColumn(textColumns, NAME_PATTERN));
+  const [onsetField, setOnsetField] = useState<string>(() => validSavedColumn(saved.onsetField) || findColumn(dateColumns, ONSET_PATTERN));
+  const [pathogen, setPathogen] = useState<string>(() =>
+    typeof saved.pathogen === 'string' && saved.pathogen in PATHOGEN_INCUBATION ? saved.pathogen : DEFAULT_PATHOGEN);
+  const [checklistDate, setChecklistDate] = useState<string>(() => toIsoDate(new Date()));
+  const [form, setForm] = useState(emptyForm);
+  const [showRegister, setShowRegister] = useState(true);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(persistenceKey, JSON.stringify({ idField, sourceField, nameField, onsetField, pathogen }));
+    } catch (e) {
+      console.error('Failed to save contact tracing settings:', e);
+    }
+  }, [persistenceKey, idField, sourceField, nameField, onsetField, pathogen]);
+
+  const incubationMax = PATHOGEN_INCUBATION[pathogen].max;
+  const recordsById = useMemo(() => new Map(dataset.records.map(r => [r.id, r])), [dataset.records]);
+  const rowNumbers = useMemo(() => new Map(dataset.records.map((r, i) => [r.id, i + 1])), [dataset.records]);
+  const caseLabel = (recordId: string): string => {
+    const record = recordsById.get(recordId);
+    if (!record) return '(case removed)';
+    const id = idField ? String(record[idField] ?? '').trim() : '';
+    const name = nameField ? String(record[nameField] ?? '').trim() : '';
+    const label = id || `Row ${rowNumbers.get(recordId)}`;
+    return name ? `${label} – ${name}` : label;
+  };
+
+  const indicators = useMemo(
+    () => contactTracingIndicators(contacts, dataset.records.map(r => r.id), incubationMax, checklistDate),
+    [contacts, dataset.records, incubationMax, checklistDate]
+  );
+  const checklist = useMemo(() => dailyChecklist(contacts, incubationMax, checklistDate), [contacts, incubationMax, checklistDate]);
+  const register = useMemo(
+    () => contacts
+      .map(contact => contactFollowUp(contact, incubationMax, checklistDate))
+      .sort((a, b) => a.contact.lastExposure.localeCompare(b.contact.lastExposure) || a.contact.name.localeCompare(b.contact.name)),
+    [contacts, incubationMax, checklistDate]
+  );
+
+  const canAdd = form.caseRecordId !== '' && form.name.trim() !== '' && form.lastExposure !== '';
+  const handleAddContact = () => {
+    if (!canAdd) return;
+    onAddContact({
+      id: crypto.randomUUID(),
+      datasetId: dataset.id,
+      caseRecordId: form.caseRecordId,
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      relationship: form.relationship.trim(),
+      lastExposure: form.lastExposure,
+      followUp: {},
+      lostToFollowUp: false,
+      notes: form.notes.trim(),
+      createdAt: new Date().toISOString(),
+    });
+    // Keep the case selected so several contacts of one case can be entered in a row
+    setForm({ ...emptyForm, caseRecordId: form.caseRecordId });
+  };
+
+  const recordResult = (contact: Contact, status: FollowUpStatus) => {
+    const followUp = { ...contact.followUp };
+    if (followUp[checklistDate] === status) delete followUp[checklistDate];
+    else followUp[checklistDate] = status;
+    onUpdateContact(contact.id, { followUp });
+  };
+
+  const handleConvert = (contact: Contact) => {
+    if (!confirm(`Add ${contact.name} to the line list as a new case?`)) return;
+    const record = contactToCaseRecord(
+      contact,
+      dataset.columns,
+      { idField, sourceField, nameField, onsetField },
+      recordsById.get(contact.caseRecordId) ?? null,
+      dataset.records
+    );
+    const created = onAddRecord(record);
+    onUpdateContact(contact.id, { convertedRecordId: created.id });
+  };
+
+  const handleExportCSV = () => {
+    const records: CaseRecord[] = register.map(entry => ({
+      id: entry.contact.id,
+      name: entry.contact.name,
+      phone: entry.contact.phone,
+      relationship: entry.contact.relationship,
+      case: caseLabel(entry.contact.caseRecordId),
+      lastExposure: entry.contact.lastExposure,
+      followUpStart: entry.window?.start ?? '',
+      followUpEnd: entry.window?.end ?? '',
+      status: CONTACT_STATUS_LABELS[entry.status],
+      daysSeen: Object.values(entry.contact.followUp).filter(s => s === 'well' || s === 'symptomatic').length,
+      missedDays: entry.missedDays.length,
+      lastSeen: entry.lastSeen ?? '',
+      firstSymptomatic: entry.firstSymptomatic ?? '',
+      notes: entry.contact.notes,
+    }));
+    const csv = exportToCSV(registerColumns, records, { localeConfig });
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${dataset.name}_contacts_${checklistDate}.csv`);
+  };
+
+  const formatPercent = (n: number) => (isFinite(n) ? `${formatSigFigs(n, 3)}%` : '—');
+  const headerClass = 'px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const cellClass = 'px-3 py-2 text-sm text-gray-700';
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-500 focus:border-gray-500';
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <TabHeader
+        title="Contact Tracing"
+        description="Register the contacts of each case, follow them daily through the incubation period, and add contacts who fall ill to the line list."
+        rightSlot={
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Follow-up day</label>
+            <input
+              type="date"
+              value={checklistDate}
+              onChange={(e) => e.target.value && setChecklistDate(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+        }
+      />
+
+      {/* Line list links and follow-up period */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+        <h4 className="text-sm font-semibold text-gray-900">Setup</h4>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Pathogen</label>
+            <select value={pathogen} onChange={(e) => setPathogen(e.target.value)} className={selectClass}>
+              {Object.keys(PATHOGEN_INCUBATION).sort().map(p => (
+                <option key={p} value={p}>{p} (max {PATHOGEN_INCUBATION[p].max}d)</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Case ID</label>
+            <select value={idField} onChange={(e) => setIdField(e.target.value)} className={selectClass}>
+              <option value="">Row number</option>
+              {textColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <select value={nameField} onChange={(e) => setNameField(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {textColumns.filter(col => col.key !== idField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Infected By</label>
+            <select value={sourceField} onChange={(e) => setSourceField(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {textColumns.filter(col => col.key !== idField && col.key !== nameField).map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Onset Date</label>
+            <select value={onsetField} onChange={(e) => setOnsetField(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {dateColumns.map(col => (
+                <option key={col.key} value={col.key}>{col.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-600">
+          Contacts are followed for {Math.max(1, Math.ceil(incubationMax))} day{Math.ceil(incubationMax) > 1 ? 's' : ''} after
+          last exposure (the longest {pathogen} incubation period). Contacts added to the line list as cases get the next
+          case ID, their source case in the Infected By column, and their first symptomatic day as onset date.
+        </p>
+      </div>
+
+      {/* Indicators */}
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {[
+          ['Contacts', String(indicators.contacts), `${indicators.casesWithContacts} of ${indicators.cases} cases with contacts`],
+          ['Contacts per case', isFinite(indicators.contactsPerCase) ? formatSigFigs(indicators.contactsPerCase, 3) : '—', 'Listed contacts / cases'],
+          ['Under follow-up', String(indicators.underFollowUp), `on ${checklistDate}`],
+          ['Followed up', formatPercent(indicators.percentFollowed), `${indicators.followed} of ${indicators.underFollowUp} seen that day`],
+          ['Overdue', String(indicators.overdue), `Latest visit missed; ${indicators.withMissedDays} with any missed day`],
+          ['Became cases', String(indicators.becameCases), 'Added to the line list'],
+          ['Completed', String(indicators.completed), `${indicators.lost} lost to follow-up`],
+        ].map(([label, value, detail]) => (
+          <div key={label} className={`border rounded-lg p-3 ${label === 'Overdue' && indicators.overdue > 0 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="text-xl font-semibold text-gray-900">{value}</div>
+            <div className="text-xs text-gray-500">{detail}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add contact */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900">Add Contact</h4>
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <select
+            value={form.caseRecordId}
+            onChange={(e) => setForm({ ...form, caseRecordId: e.target.value })}
+            className={inputClass}
+            aria-label="Case"
+          >
+            <option value="">Contact of case...</option>
+            {dataset.records.map(record => (
+              <option key={record.id} value={record.id}>{caseLabel(record.id)}</option>
+            ))}
+          </select>
+          <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name" className={inputClass} />
+          <input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} placeholder="Phone" className={inputClass} />
+          <input value={form.relationship} onChange={(e) => setForm({ ...form, relationship: e.target.value })} placeholder="Relationship (household, work...)" className={inputClass} />
+          <input
+            type="date"
+            value={form.lastExposure}
+            onChange={(e) => setForm({ ...form, lastExposure: e.target.value })}
+            className={inputClass}
+            aria-label="Last exposure"
+            title="Date of last exposure"
+          />
+          <button
+            onClick={handleAddContact}
+            disabled={!canAdd}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-700 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Contact
+          </button>
+        </div>
+        <input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} placeholder="Notes (optional)" className={inputClass} />
+      </div>
+
+      {/* Daily checklist */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h4 className="text-sm font-semibold text-gray-900">Follow-Up Checklist for {checklistDate}</h4>
+          <p className="text-xs text-gray-500">Overdue contacts (not seen on an earlier day of their follow-up) are listed first. Click a result again to clear it.</p>
+        </div>
+        {checklist.length === 0 ? (
+          <p className="p-4 text-sm text-gray-400">No contacts are under follow-up on this day</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Contact</th>
+                  <th className={headerClass}>Case</th>
+                  <th className={headerClass}>Day</th>
+                  <th className={headerClass}>Last Seen</th>
+                  <th className={headerClass}>Result</th>
+                  <th className={headerClass}></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {checklist.map(entry => (
+                  <tr key={entry.contact.id} className={entry.overdue ? 'bg-red-50' : ''}>
+                    <td className={cellClass}>
+                      <div className="font-medium text-gray-900">{entry.contact.name}</div>
+                      {entry.contact.phone && <div className="text-xs text-gray-500">{entry.contact.phone}</div>}
+                      {entry.overdue ? (
+                        <div className="text-xs font-medium text-red-700">
+                          Overdue: missed {entry.missedDays.length} day{entry.missedDays.length === 1 ? '' : 's'}
+                        </div>
+                      ) : entry.missedDays.length > 0 && (
+                        <div className="text-xs text-amber-700">
+                          Missed {entry.missedDays.length} earlier day{entry.missedDays.length === 1 ? '' : 's'}
+                        </div>
+                      )}
+                    </td>
+                    <td className={cellClass}>{caseLabel(entry.contact.caseRecordId)}</td>
+                    <td className={cellClass}>{entry.day} of {entry.window?.days.length}</td>
+                    <td className={cellClass}>{entry.lastSeen ?? 'Never'}</td>
+                    <td className={cellClass}>
+                      <div className="flex flex-wrap gap-1">
+                        {followUpStatuses.map(status => (
+                          <button
+                            key={status}
+                            onClick={() => recordResult(entry.contact, status)}
+                            className={`px-2 py-1 text-xs rounded ${entry.result === status ? resultButtonClass[status] : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                          >
+                            {FOLLOW_UP_STATUS_LABELS[status]}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                    <td className={cellClass}>
+                      {entry.firstSymptomatic && (
+                        <button onClick={() => handleConvert(entry.contact)} className="px-2 py-1 text-xs font-medium text-red-700 border border-red-300 rounded hover:bg-red-50">
+                          Add as Case
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Full register */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <button
+          onClick={() => setShowRegister(!showRegister)}
+          className="w-full px-4 py-3 flex items-center justify-between text-sm font-semibold text-gray-900 hover:bg-gray-50"
+        >
+          <span>Contact Register ({contacts.length})</span>
+          <span>{showRegister ? '−' : '+'}</span>
+        </button>
+        {showRegister && (
+          <>
+            <div className="overflow-x-auto border-t border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>Contact</th>
+                    <th className={headerClass}>Case</th>
+                    <th className={headerClass}>Relationship</th>
+                    <th className={headerClass}>Last Exposure</th>
+                    <th className={headerClass}>Follow-Up Through</th>
+                    <th className={headerClass}>Status</th>
+                    <th className={headerClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {register.map(entry => (
+                    <tr key={entry.contact.id} className={entry.overdue ? 'bg-red-50' : ''}>
+                      <td className={cellClass}>
+                        <div className="font-medium text-gray-900">{entry.contact.name}</div>
+                        {entry.contact.notes && <div className="text-xs text-gray-500">{entry.contact.notes}</div>}
+                      </td>
+                      <td className={cellClass}>{caseLabel(entry.contact.caseRecordId)}</td>
+                      <td className={cellClass}>{entry.contact.relationship}</td>
+                      <td className={cellClass}>{entry.contact.lastExposure}</td>
+                      <td className={cellClass}>{entry.window?.end ?? '—'}</td>
+                      <td className={cellClass}>
+                        <span className={`inline-block px-2 py-0.5 text-xs rounded-full ${statusBadgeClass[entry.status]}`}>
+                          {CONTACT_STATUS_LABELS[entry.status]}
+                        </span>
+                        {entry.status === 'became-case' && entry.contact.convertedRecordId && (
+                          <div className="text-xs text-gray-500 mt-1">{caseLabel(entry.contact.convertedRecordId)}</div>
+                        )}
+                      </td>
+                      <td className={`${cellClass} whitespace-nowrap space-x-2`}>
+                        {!entry.contact.convertedRecordId && (
+                          <>
+                            <button onClick={() => handleConvert(entry.contact)} className="text-xs text-red-700 hover:underline">
+                              Add as case
+                            </button>
+                            <button
+                              onClick={() => onUpdateContact(entry.contact.id, { lostToFollowUp: !entry.contact.lostToFollowUp })}
+                              className="text-xs text-gray-600 hover:underline"
+                            >
+                              {entry.contact.lostToFollowUp ? 'Resume follow-up' : 'Lost to follow-up'}
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => { if (confirm(`Remove ${entry.contact.name} from the register?`)) onRemoveContact(entry.contact.id); }}
+                          className="text-xs text-gray-500 hover:text-red-600"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="px-4 py-3 bg-gray-50 border-t border-gray-200">
+              <ResultsActions
+                actions={[
+                  { label: 'Export Register CSV', onClick: handleExportCSV, icon: ExportIcons.csv, variant: 'secondary', disabled: contacts.length === 0 },
+                ]}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,645 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { ChangeEvent } from 'react';
+import type { DataColumn, CaseRecord, VariableConfig } from '../../types/analysis';
+import { parseCSV } from '../../utils/csvParser';
+import { isFeatureCollection } from '../../utils/areaMap';
+import {
+  GEOJSON_LAT_KEY,
+  GEOJSON_LNG_KEY,
+  buildGazetteer,
+  createPlaceMatcher,
+  gazetteerRowsFromGeoJson,
+  groupPlaceValues,
+  searchGazetteer,
+  suggestGazetteerFields,
+} from '../../utils/geocoding';
+import type { CoordinateColumns, GazetteerEntry, GazetteerFields, GeocodeCandidate, GeocodeMatch, GeocodeStatus } from '../../utils/geocoding';
+import { validateVariableConfig } from '../../utils/variableCreation';
+import { useLocale } from '../../contexts/LocaleContext';
+
+/** Coordinates chosen in the modal, keyed by record ID, with counts for the edit log */
+export interface GeocodeApplication {
+  target: CoordinateColumns;
+  locations: Map<string, { lat: number; lng: number }>;
+  sourceColumn: string;
+  gazetteerName: string;
+  exactCount: number;
+  fuzzyCount: number;
+  manualCount: number;
+}
+
+interface GeocodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingColumns: DataColumn[];
+  records: CaseRecord[];
+  onApply: (application: GeocodeApplication) => void;
+}
+
+interface GazetteerFile {
+  name: string;
+  rows: Array<Record<string, unknown>>;
+  fields: string[];
+  fieldLabels: Record<string, string>;
+}
+
+type ReviewFilter = 'review' | 'matched' | 'all';
+
+const statusStyles: Record<GeocodeStatus, string> = {
+  exact: 'bg-green-100 text-green-800',
+  fuzzy: 'bg-blue-100 text-blue-800',
+  ambiguous: 'bg-amber-100 text-amber-800',
+  unmatched: 'bg-red-100 text-red-800',
+};
+
+const statusLabels: Record<GeocodeStatus, string> = {
+  exact: 'Exact',
+  fuzzy: 'Fuzzy',
+  ambiguous: 'Ambiguous',
+  unmatched: 'No match',
+};
+
+/** Longest stretch of matching before the page gets a turn to repaint */
+const MATCHING_CHUNK_MS = 50;
+
+const PLACE_COLUMN_PATTERN = /village|place|address|facility|location|locality|site|town|city|settlement|residence/i;
+
+function suggestSourceColumn(columns: DataColumn[]): string {
+  const textColumns = columns.filter(col => col.type === 'text' || col.type === 'categorical');
+  return (textColumns.find(col => PLACE_COLUMN_PATTERN.test(`${col.key} ${col.label}`)) ?? textColumns[0])?.key ?? '';
+}
+
+function suggestTarget(columns: DataColumn[], axis: 'lat' | 'lng'): string {
+  const pattern = axis === 'lat' ? /^(lat|latitude)$/i : /^(lng|lon|long|longitude)$/i;
+  return columns.find(col => pattern.test(col.key))?.key ?? (axis === 'lat' ? 'latitude' : 'longitude');
+}
+
+function describeEntry(entry: GazetteerEntry): string {
+  return entry.context ? `${entry.name} (${entry.context})` : entry.name;
+}
+
+function yieldToPage(): Promise<void> {
+  return new Promise(resolve => window.setTimeout(resolve, 0));
+}
+
+export function GeocodeModal({
+  isOpen,
+  onClose,
+  existingColumns,
+  records,
+  onApply,
+}: GeocodeModalProps) {
+  const { config: localeConfig } = useLocale();
+  const [gazetteerFile, setGazetteerFile] = useState<GazetteerFile | null>(null);
+  const [gazetteerFields, setGazetteerFields] = useState<GazetteerFields>({ nameKey: '', latKey: '', lngKey: '' });
+  const [gazetteerError, setGazetteerError] = useState('');
+  const [sourceColumn, setSourceColumn] = useState('');
+  const [threshold, setThreshold] = useState(0.9);
+  const [run, setRun] = useState<{
+    records: CaseRecord[];
+    sourceColumn: string;
+    entries: GazetteerEntry[];
+    threshold: number;
+    matches: GeocodeMatch[];
+  } | null>(null);
+  const [matchingProgress, setMatchingProgress] = useState<{ done: number; total: number } | null>(null);
+  // Incremented to abandon a matching run still in progress
+  const matchingRunId = useRef(0);
+  const [resolutions, setResolutions] = useState<Record<string, string | null>>({});
+  const [searchResults, setSearchResults] = useState<Record<string, GeocodeCandidate[]>>({});
+  const [searchKey, setSearchKey] = useState('');
+  const [searchText, setSearchText] = useState('');
+  const [filter, setFilter] = useState<ReviewFilter>('review');
+  const [latKey, setLatKey] = useState('latitude');
+  const [lngKey, setLngKey] = useState('longitude');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset matching when the modal opens; a loaded gazetteer is kept
+  useEffect(() => {
+    matchingRunId.current++;
+    setMatchingProgress(null);
+    if (isOpen) {
+      setSourceColumn(suggestSourceColumn(existingColumns));
+      setLatKey(suggestTarget(existingColumns, 'lat'));
+      setLngKey(suggestTarget(existingColumns, 'lng'));
+      setRun(null);
+      setResolutions({});
+      setSearchResults({});
+      setSearchKey('');
+      setFilter('review');
+      setError(null);
+    }
+  }, [isOpen, existingColumns]);
+
+  const gazetteer = useMemo(() => {
+    if (!gazetteerFile || !gazetteerFields.nameKey || !gazetteerFields.latKey || !gazetteerFields.lngKey) return null;
+    return buildGazetteer(gazetteerFile.rows, gazetteerFields);
+  }, [gazetteerFile, gazetteerFields]);
+
+  const entryById = useMemo(
+    () => new Map((gazetteer?.entries ?? []).map(entry => [entry.id, entry])),
+    [gazetteer]
+  );
+
+  // Results only describe the current records, column, gazetteer and threshold
+  const matches = run
+    && run.records === records
+    && run.sourceColumn === sourceColumn
+    && run.entries === gazetteer?.entries
+    && run.threshold === threshold
+    ? run.matches
+    : null;
+
+  const resolvedEntry = (match: GeocodeMatch): GazetteerEntry | null => {
+    if (!(match.key in resolutions)) return match.match;
+    const id = resolutions[match.key];
+    return id ? entryById.get(id) ?? null : null;
+  };
+
+  const summary = useMemo(() => {
+    const counts = { exact: 0, fuzzy: 0, ambiguous: 0, unmatched: 0, exactLocated: 0, fuzzyLocated: 0, manual: 0, located: 0, records: 0 };
+    matches?.forEach(match => {
+      counts[match.status]++;
+      const entry = !(match.key in resolutions)
+        ? match.match
+        : resolutions[match.key] ? entryById.get(resolutions[match.key] as string) ?? null : null;
+      if (!entry) return;
+      if (entry !== match.match) counts.manual++;
+      else if (match.status === 'exact') counts.exactLocated++;
+      else counts.fuzzyLocated++;
+      counts.located++;
+      counts.records += match.recordIds.length;
+    });
+    return counts;
+  }, [matches, resolutions, entryById]);
+
+  const visibleMatches = (matches ?? []).filter(match => {
+    if (filter === 'all') return true;
+    const needsReview = match.status === 'ambiguous' || match.status === 'unmatched';
+    return filter === 'review' ? needsReview : !needsReview;
+  });
+
+  const handleGazetteerFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      let loaded: GazetteerFile;
+      if (/\.(geo)?json$/i.test(file.name)) {
+        const parsed = JSON.parse(text) as unknown;
+        if (!isFeatureCollection(parsed)) {
+          setGazetteerError('This file is not a GeoJSON FeatureCollection.');
+          return;
+        }
+        const rows = gazetteerRowsFromGeoJson(parsed);
+        const fields = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+        loaded = {
+          name: file.name,
+          rows,
+          fields,
+          fieldLabels: Object.fromEntries(fields.map(field => [
+            field,
+            field === GEOJSON_LAT_KEY ? 'Point latitude' : field === GEOJSON_LNG_KEY ? 'Point longitude' : field,
+          ])),
+        };
+      } else {
+        const parsed = parseCSV(text, { localeConfig });
+        loaded = {
+          name: file.name,
+          rows: parsed.records,
+          fields: parsed.columns.map(col => col.key),
+          fieldLabels: Object.fromEntries(parsed.columns.map(col => [col.key, col.label])),
+        };
+      }
+      if (loaded.rows.length === 0) {
+        setGazetteerError('No places were found in this file. GeoJSON gazetteers need Point features.');
+        return;
+      }
+      setGazetteerFile(loaded);
+      setGazetteerFields(suggestGazetteerFields(loaded.fields));
+      setGazetteerError('');
+    } catch {
+      setGazetteerError('The gazetteer could not be read. Upload a CSV file or a GeoJSON file of points.');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  // Values are matched in short chunks so the page stays responsive and can
+  // show progress on large line lists and gazetteers
+  const runMatching = async () => {
+    if (!gazetteer || !sourceColumn) return;
+    const runId = ++matchingRunId.current;
+    const input = { records, sourceColumn, entries: gazetteer.entries, threshold };
+    const places = groupPlaceValues(records, sourceColumn);
+    setRun(null);
+    setResolutions({});
+    setSearchResults({});
+    setSearchKey('');
+    setError(null);
+    setMatchingProgress({ done: 0, total: places.length });
+    await yieldToPage();
+
+    const matchPlace = createPlaceMatcher(input.entries, { threshold });
+    const results: GeocodeMatch[] = [];
+    let chunkStart = performance.now();
+    for (const place of places) {
+      if (matchingRunId.current !== runId) return;
+      results.push(matchPlace(place));
+      if (performance.now() - chunkStart >= MATCHING_CHUNK_MS) {
+        setMatchingProgress({ done: results.length, total: places.length });
+        await yieldToPage();
+        chunkStart = performance.now();
+      }
+    }
+    if (matchingRunId.current !== runId) return;
+    setRun({ ...input, matches: results });
+    setMatchingProgress(null);
+  };
+
+  const runSearch = (key: string) => {
+    if (!gazetteer) return;
+    setSearchResults(previous => ({ ...previous, [key]: searchGazetteer(searchText, gazetteer.entries) }));
+  };
+
+  const handleApply = () => {
+    if (!matches) return;
+
+    const latExisting = existingColumns.find(col => col.key === latKey);
+    const lngExisting = existingColumns.find(col => col.key === lngKey);
+    if (latKey === lngKey) {
+      setError('Latitude and longitude need different variable names');
+      return;
+    }
+    for (const [key, label, existing] of [[latKey, 'Latitude', latExisting], [lngKey, 'Longitude', lngExisting]] as const) {
+      if (existing) continue;
+      const config: VariableConfig = { name: key, label, type: 'number', method: 'geocode', sourceColumn };
+      const validationError = validateVariableConfig(config, existingColumns);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+    }
+
+    const locations = new Map<string, { lat: number; lng: number }>();
+    matches.forEach(match => {
+      const entry = resolvedEntry(match);
+      if (!entry) return;
+      match.recordIds.forEach(recordId => locations.set(recordId, { lat: entry.lat, lng: entry.lng }));
+    });
+    if (locations.size === 0) {
+      setError('No records have a location yet. Choose places for the values under review, or lower the match threshold.');
+      return;
+    }
+
+    onApply({
+      target: {
+        latKey,
+        latLabel: latExisting?.label ?? 'Latitude',
+        lngKey,
+        lngLabel: lngExisting?.label ?? 'Longitude',
+      },
+      locations,
+      sourceColumn,
+      gazetteerName: gazetteerFile?.name ?? 'gazetteer',
+      exactCount: summary.exactLocated,
+      fuzzyCount: summary.fuzzyLocated,
+      manualCount: summary.manual,
+    });
+    onClose();
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const sourceColumnLabel = existingColumns.find(col => col.key === sourceColumn)?.label ?? sourceColumn;
+  const fieldOptions = gazetteerFile?.fields.map(field => (
+    <option key={field} value={field}>{gazetteerFile.fieldLabels[field] ?? field}</option>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Geocode Places</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Look up coordinates for a village, facility or address column in a gazetteer file. Matching runs in the browser.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {/* Gazetteer */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">1. Gazetteer</h4>
+            <label className="block">
+              <span className="sr-only">Gazetteer file</span>
+              <input
+                type="file"
+                accept=".csv,.txt,.geojson,.json,application/geo+json,application/json"
+                onChange={handleGazetteerFile}
+                className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-gray-300 file:bg-white file:text-sm file:text-gray-700 hover:file:bg-gray-50"
+              />
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              A CSV with a place name and latitude/longitude columns, or a GeoJSON file of Point features.
+            </p>
+            {gazetteerError && <p className="text-xs text-red-600 mt-1">{gazetteerError}</p>}
+
+            {gazetteerFile && (
+              <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Place name</label>
+                  <select
+                    value={gazetteerFields.nameKey}
+                    onChange={(e) => setGazetteerFields(previous => ({ ...previous, nameKey: e.target.value }))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    <option value="">Select...</option>
+                    {fieldOptions}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Latitude</label>
+                  <select
+                    value={gazetteerFields.latKey}
+                    onChange={(e) => setGazetteerFields(previous => ({ ...previous, latKey: e.target.value }))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    <option value="">Select...</option>
+                    {fieldOptions}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Longitude</label>
+                  <select
+                    value={gazetteerFields.lngKey}
+                    onChange={(e) => setGazetteerFields(previous => ({ ...previous, lngKey: e.target.value }))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    <option value="">Select...</option>
+                    {fieldOptions}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Area (optional)</label>
+                  <select
+                    value={gazetteerFields.contextKey ?? ''}
+                    onChange={(e) => setGazetteerFields(previous => ({ ...previous, contextKey: e.target.value || undefined }))}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                  >
+                    <option value="">None</option>
+                    {fieldOptions}
+                  </select>
+                </div>
+                <p className="col-span-2 md:col-span-4 text-xs text-gray-500">
+                  {gazetteerFile.name}: {gazetteer ? `${gazetteer.entries.length.toLocaleString()} places` : 'choose the name and coordinate fields'}
+                  {gazetteer && gazetteer.skipped > 0 && `, ${gazetteer.skipped.toLocaleString()} rows without a name or valid coordinates skipped`}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Matching */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">2. Match</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">Place variable</label>
+                <select
+                  value={sourceColumn}
+                  onChange={(e) => setSourceColumn(e.target.value)}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                >
+                  <option value="">Select...</option>
+                  {existingColumns.map(col => (
+                    <option key={col.key} value={col.key}>{col.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">
+                  Fuzzy match threshold <span className="text-gray-400">({threshold.toFixed(2)})</span>
+                </label>
+                <input
+                  type="range"
+                  min="0.8"
+                  max="0.99"
+                  step="0.01"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+              <button
+                onClick={runMatching}
+                disabled={!gazetteer || gazetteer.entries.length === 0 || !sourceColumn || matchingProgress !== null}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {matchingProgress
+                  ? `Matching ${matchingProgress.done.toLocaleString()} of ${matchingProgress.total.toLocaleString()} values...`
+                  : run && !matches ? 'Match again' : 'Match places'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Names are compared after removing case, accents and punctuation. Jaro-Winkler similarity at or above the threshold counts as a fuzzy match.
+            </p>
+          </div>
+
+          {/* Review */}
+          {matches && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-900">3. Review</h4>
+                <div className="flex gap-1">
+                  {([
+                    ['review', `Needs review (${summary.ambiguous + summary.unmatched})`],
+                    ['matched', `Matched (${summary.exact + summary.fuzzy})`],
+                    ['all', `All (${matches.length})`],
+                  ] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setFilter(value)}
+                      className={`px-2 py-1 text-xs rounded ${filter === value ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="max-h-80 overflow-auto">
+                  <table className="w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{sourceColumnLabel}</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Records</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {visibleMatches.map(match => {
+                        const entry = resolvedEntry(match);
+                        const options = [...match.candidates];
+                        (searchResults[match.key] ?? []).forEach(candidate => {
+                          if (!options.some(option => option.entry.id === candidate.entry.id)) options.push(candidate);
+                        });
+                        if (entry && !options.some(option => option.entry.id === entry.id)) options.push({ entry, score: NaN });
+                        return (
+                          <tr key={match.key} className="align-top">
+                            <td className="px-3 py-2 text-gray-900">{match.value}</td>
+                            <td className="px-3 py-2 text-right text-gray-600">{match.recordIds.length}</td>
+                            <td className="px-3 py-2">
+                              <span className={`px-2 py-0.5 rounded text-xs ${statusStyles[match.status]}`}>
+                                {statusLabels[match.status]}
+                              </span>
+                              {match.key in resolutions && (
+                                <span className="ml-1 text-xs text-gray-500">edited</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2">
+                              <div className="flex items-center gap-2">
+                                <select
+                                  value={entry?.id ?? ''}
+                                  onChange={(e) => setResolutions(previous => ({ ...previous, [match.key]: e.target.value || null }))}
+                                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs bg-white"
+                                  aria-label={`Location for ${match.value}`}
+                                >
+                                  <option value="">Leave blank</option>
+                                  {options.map(option => (
+                                    <option key={option.entry.id} value={option.entry.id}>
+                                      {describeEntry(option.entry)}{isFinite(option.score) ? ` · ${option.score.toFixed(2)}` : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                                <button
+                                  onClick={() => {
+                                    setSearchKey(searchKey === match.key ? '' : match.key);
+                                    setSearchText(match.value);
+                                  }}
+                                  className="text-xs text-blue-600 hover:text-blue-700 whitespace-nowrap"
+                                >
+                                  Search
+                                </button>
+                              </div>
+                              {searchKey === match.key && (
+                                <form
+                                  onSubmit={(e) => {
+                                    e.preventDefault();
+                                    runSearch(match.key);
+                                  }}
+                                  className="flex gap-2 mt-2"
+                                >
+                                  <input
+                                    type="text"
+                                    value={searchText}
+                                    onChange={(e) => setSearchText(e.target.value)}
+                                    placeholder="Search the gazetteer"
+                                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs"
+                                    autoFocus
+                                  />
+                                  <button type="submit" className="px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50">
+                                    Find
+                                  </button>
+                                </form>
+                              )}
+                              {searchKey === match.key && searchResults[match.key]?.length === 0 && (
+                                <p className="text-xs text-gray-500 mt-1">No similar places in the gazetteer.</p>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                      {visibleMatches.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-3 py-6 text-center text-sm text-gray-500">
+                            {filter === 'review' ? 'Every value has a single match.' : 'No values in this view.'}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {summary.located} of {matches.length} values located, covering {summary.records} records
+                {summary.manual > 0 && `; ${summary.manual} chosen by hand`}. Records with blank {sourceColumnLabel} are not geocoded.
+              </p>
+            </div>
+          )}
+
+          {/* Output */}
+          {matches && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">4. Write coordinates</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  ['Latitude variable', latKey, setLatKey],
+                  ['Longitude variable', lngKey, setLngKey],
+                ] as const).map(([label, value, setValue]) => (
+                  <div key={label}>
+                    <label className="block text-xs text-gray-600 mb-1">{label}</label>
+                    <input
+                      type="text"
+                      value={value}
+                      onChange={(e) => {
+                        setValue(e.target.value);
+                        setError(null);
+                      }}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm font-mono"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {existingColumns.some(col => col.key === value)
+                        ? 'Existing variable: located records are overwritten, others are kept.'
+                        : 'New variable.'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!matches || summary.records === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Write Coordinates{matches ? ` (${summary.records} records)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
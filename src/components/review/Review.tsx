@@ -26,6 +26,10 @@
  *    - Create new variables from existing ones
  *    - Methods: categorize (bins), formula, copy, blank
  *
+ * 5. GEOCODING (modal)
+ *    - Match a place-name or address column against an imported gazetteer
+ *    - Review ambiguous and failed matches, then write latitude/longitude
+ *
  * All edits are logged and can be exported for reproducibility.
  */
 import { useState, useMemo, useCallback, useEffect } from 'react';
@@ -33,9 +37,12 @@ import { LineListing } from '../analysis/LineListing';
 import { EditLogPanel } from './EditLogPanel';
 import { DataQualityPanel } from './DataQualityPanel';
 import { CreateVariableModal } from './CreateVariableModal';
+import { GeocodeModal } from './GeocodeModal';
+import type { GeocodeApplication } from './GeocodeModal';
 import type { Dataset, DataColumn, CaseRecord, EditLogEntry, DataQualityIssue, DataQualityConfig, VariableConfig, FilterCondition } from '../../types/analysis';
 import { runDataQualityChecks, getDefaultConfig } from '../../utils/dataQuality';
 import { addVariableToDataset } from '../../utils/variableCreation';
+import { applyCoordinates } from '../../utils/geocoding';
 import { ReviewCleanTutorial } from '../tutorials/ReviewCleanTutorial';
 
 interface ReviewProps {
@@ -74,6 +81,7 @@ export function Review({
   // ---------------------------------------------------------------------------
   const [showEditLog, setShowEditLog] = useState(false);
   const [showCreateVariable, setShowCreateVariable] = useState(false);
+  const [showGeocode, setShowGeocode] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [showAddRow, setShowAddRow] = useState(false);
   const [showMobilePanel, setShowMobilePanel] = useState(false);
@@ -183,6 +191,42 @@ export function Review({
     });
   }, [activeDataset, updateDataset, addEditLogEntry]);
 
+  // Geocoded coordinates are logged once per column: new columns as created
+  // variables, existing ones as a bulk update
+  const handleApplyGeocodes = useCallback((application: GeocodeApplication) => {
+    if (!activeDataset) return;
+
+    const { target } = application;
+    const update = applyCoordinates(activeDataset.columns, activeDataset.records, target, application.locations);
+    updateDataset(activeDataset.id, {
+      columns: update.columns,
+      records: update.records,
+    });
+
+    const sourceLabel = activeDataset.columns.find(col => col.key === application.sourceColumn)?.label ?? application.sourceColumn;
+    const reason = `Geocoded from ${sourceLabel} against ${application.gazetteerName} `
+      + `(${application.exactCount} exact, ${application.fuzzyCount} fuzzy, ${application.manualCount} chosen manually)`;
+    const timestamp = new Date().toISOString();
+    [[target.latKey, target.latLabel], [target.lngKey, target.lngLabel]].forEach(([key, label]) => {
+      const created = update.createdColumns.some(col => col.key === key);
+      addEditLogEntry({
+        id: crypto.randomUUID(),
+        datasetId: activeDataset.id,
+        recordId: created ? 'system' : 'bulk',
+        recordIdentifier: created ? 'System' : 'Bulk Update',
+        columnKey: key,
+        columnLabel: label,
+        oldValue: null,
+        newValue: created
+          ? `Created new variable: ${label} (${application.locations.size} records geocoded)`
+          : `${update.updatedCount} records updated`,
+        reason,
+        initials: 'SYS',
+        timestamp,
+      });
+    });
+  }, [activeDataset, updateDataset, addEditLogEntry]);
+
   const addFilter = useCallback(() => {
     if (!activeDataset || activeDataset.columns.length === 0) return;
     setFilters(prev => [...prev, {
@@ -498,6 +542,20 @@ export function Review({
                     </div>
                   </button>
 
+                  {/* Geocode Button */}
+                  <button
+                    onClick={() => { setShowGeocode(true); setShowMobilePanel(false); }}
+                    className="w-full px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center justify-center gap-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Geocode Places
+                    </div>
+                  </button>
+
                   {/* Add Record Button */}
                   <button
                     onClick={() => { setShowAddRow(true); setShowMobilePanel(false); }}
@@ -625,6 +683,20 @@ export function Review({
                 </div>
               </button>
 
+              {/* Geocode Button */}
+              <button
+                onClick={() => setShowGeocode(true)}
+                className="w-full px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-center justify-center gap-2">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                  Geocode Places
+                </div>
+              </button>
+
               {/* Add Record Button */}
               <button
                 onClick={() => setShowAddRow(true)}
@@ -693,6 +765,15 @@ export function Review({
         records={activeDataset.records}
         onCreateVariable={handleCreateVariable}
       />
+
+      {/* Geocode Modal */}
+      <GeocodeModal
+        isOpen={showGeocode}
+        onClose={() => setShowGeocode(false)}
+        existingColumns={activeDataset.columns}
+        records={activeDataset.records}
+        onApply={handleApplyGeocodes}
+      />
     </div>
   );
 }
@@ -13,7 +13,8 @@ export type ChartType =
   | 'heatmap'
   | 'paired'
   | 'dumbbell'
-  | 'forest';
+  | 'forest'
+  | 'endemic';
 
 interface ChartInfo {
   type: ChartType;
@@ -71,6 +72,18 @@ function SlopeThumbnail() {
   );
 }
 
+function EndemicThumbnail() {
+  return (
+    <svg width="80" height="60" viewBox="0 0 80 60" className={THUMBNAIL_CLASSES}>
+      <path d="M8 6 L72 6 L72 22 Q56 12 40 24 Q24 34 8 20 Z" fill="#EF9A9A" />
+      <path d="M8 20 Q24 34 40 24 Q56 12 72 22 L72 32 Q56 24 40 34 Q24 42 8 32 Z" fill="#FFCC80" />
+      <path d="M8 32 Q24 42 40 34 Q56 24 72 32 L72 42 Q56 36 40 44 Q24 50 8 42 Z" fill="#FFF59D" />
+      <path d="M8 42 Q24 50 40 44 Q56 36 72 42 L72 54 L8 54 Z" fill="#C8E6C9" />
+      <polyline points="8,46 20,44 32,38 44,30 56,16 68,26" fill="none" stroke="currentColor" strokeWidth="2" />
+    </svg>
+  );
+}
+
 function LollipopThumbnail() {
   return (
     <svg width="80" height="60" viewBox="0 0 80 60" className={THUMBNAIL_CLASSES}>
@@ -273,6 +286,7 @@ const CHART_GROUPS: ChartGroup[] = [
     charts: [
       { type: 'line', name: 'Line Chart', description: 'Show trends over time with connected data points', thumbnail: LineThumbnail },
       { type: 'slope', name: 'Slope Chart', description: 'Compare changes between exactly two time points', thumbnail: SlopeThumbnail },
+      { type: 'endemic', name: 'Endemic Channel', description: "Compare this year's weekly or monthly cases with the usual range from past years", thumbnail: EndemicThumbnail },
     ],
   },
   {
@@ -322,6 +336,7 @@ const INTENT_CHARTS: Record<AnalyticalIntent, { type: ChartType; reason: string
   show_trends: [
     { type: 'line', reason: 'Track continuous trends over time' },
     { type: 'slope', reason: 'Compare values between two time points' },
+    { type: 'endemic', reason: 'Judge current case counts against previous years (epidemic threshold)' },
   ],
   show_proportions: [
     { type: 'waffle', reason: 'Each square = 1% — intuitive for non-technical audiences' },
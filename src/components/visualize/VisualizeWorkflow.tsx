@@ -16,6 +16,7 @@ import { HeatmapChart } from './charts/HeatmapChart';
 import { PairedBarChart } from './charts/PairedBarChart';
 import { DumbbellChart } from './charts/DumbbellChart';
 import { ForestPlot } from './charts/ForestPlot';
+import { EndemicChannelChart } from './charts/EndemicChannelChart';
 
 interface VisualizeWorkflowProps {
   dataset: Dataset;
@@ -34,6 +35,7 @@ const chartComponents: Record<ChartType, React.ComponentType<{ dataset: Dataset
   paired: PairedBarChart,
   dumbbell: DumbbellChart,
   forest: ForestPlot,
+  endemic: EndemicChannelChart,
 };
 
 export function VisualizeWorkflow({ dataset }: VisualizeWorkflowProps) {
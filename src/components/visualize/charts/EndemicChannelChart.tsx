@@ -0,0 +1,485 @@
+import { useState, useMemo } from 'react';
+import type { Dataset } from '../../../types/analysis';
+import { ChartContainer } from '../shared/ChartContainer';
+import { VariableMapper } from '../shared/VariableMapper';
+import { VisualizationTip } from '../shared/VisualizationTip';
+import {
+  getDefaultDimensions,
+  svgWrapper,
+  svgTitle,
+  svgSource,
+  svgText,
+  svgAxisLine,
+  svgGridLine,
+  type ExcelExportData,
+} from '../../../utils/chartExport';
+import {
+  buildSeasonalCounts,
+  computeEndemicChannel,
+  classifyZone,
+  periodLabel,
+  ENDEMIC_PERIOD_LABELS,
+  ENDEMIC_METHOD_LABELS,
+  ENDEMIC_ZONE_LABELS,
+  MIN_CHANNEL_YEARS,
+} from '../../../utils/endemicChannel';
+import type { ChannelPoint, EndemicMethod, EndemicPeriod, EndemicZone } from '../../../utils/endemicChannel';
+
+interface EndemicChannelChartProps {
+  dataset: Dataset;
+}
+
+export function EndemicChannelChart({ dataset }: EndemicChannelChartProps) {
+  const [dateCol, setDateCol] = useState('');
+  const [valueCol, setValueCol] = useState('');
+  const [period, setPeriod] = useState<EndemicPeriod>('weekly-cdc');
+  const [method, setMethod] = useState<EndemicMethod>('quartile');
+  const [currentYearSelection, setCurrentYearSelection] = useState<number | null>(null);
+  const [excludedYears, setExcludedYears] = useState<number[]>([]);
+  const [title, setTitle] = useState('');
+  const [subtitle, setSubtitle] = useState('');
+  const [source, setSource] = useState('');
+  const [showGuide, setShowGuide] = useState(false);
+
+  const seasonalCounts = useMemo(() => {
+    if (!dateCol) return new Map<number, Array<number | null>>();
+    return buildSeasonalCounts(dataset.records, { dateField: dateCol, period, valueField: valueCol || undefined });
+  }, [dataset.records, dateCol, valueCol, period]);
+
+  const years = useMemo(() => Array.from(seasonalCounts.keys()).sort((a, b) => a - b), [seasonalCounts]);
+
+  // Default to the most recent year; earlier years form the history
+  const currentYear = currentYearSelection !== null && years.includes(currentYearSelection)
+    ? currentYearSelection
+    : years[years.length - 1] ?? null;
+  const priorYears = useMemo(
+    () => years.filter(y => currentYear !== null && y < currentYear),
+    [years, currentYear]
+  );
+  const historicalYears = useMemo(
+    () => priorYears.filter(y => !excludedYears.includes(y)),
+    [priorYears, excludedYears]
+  );
+
+  const channel = useMemo(
+    () => computeEndemicChannel(historicalYears.map(y => seasonalCounts.get(y) as Array<number | null>), method),
+    [seasonalCounts, method, historicalYears]
+  );
+
+  const current = useMemo(
+    () => (currentYear !== null ? seasonalCounts.get(currentYear) ?? [] : []),
+    [seasonalCounts, currentYear]
+  );
+
+  const zones = useMemo(
+    () => current.map((value, i) => (value !== null && channel[i] ? classifyZone(value, channel[i] as ChannelPoint) : null)),
+    [current, channel]
+  );
+
+  // Week 53 is only shown when a year in view has one
+  const periodCount = period === 'monthly'
+    ? 12
+    : (current[52] !== null && current[52] !== undefined) || channel[52] ? 53 : 52;
+
+  const hasChannel = channel.some(point => point !== null);
+
+  const svgContent = useMemo(() => {
+    if (!hasChannel || currentYear === null) return '';
+    return generateEndemicSvg(channel, current, zones, period, periodCount, currentYear, title, subtitle, source);
+  }, [hasChannel, channel, current, zones, period, periodCount, currentYear, title, subtitle, source]);
+
+  const excelData = useMemo((): ExcelExportData => ({
+    title: title || 'Endemic channel',
+    subtitle: `${ENDEMIC_METHOD_LABELS[method]}; historical years ${historicalYears.join(', ')}`,
+    source: source || undefined,
+    columns: [
+      { header: 'Period', key: 'period' },
+      { header: 'Historical years', key: 'years' },
+      { header: 'Lower limit', key: 'lower' },
+      { header: method === 'quartile' ? 'Median' : 'Geometric mean', key: 'center' },
+      { header: 'Upper limit', key: 'upper' },
+      { header: currentYear !== null ? String(currentYear) : 'Current year', key: 'current' },
+      { header: 'Zone', key: 'zone' },
+    ],
+    rows: Array.from({ length: periodCount }, (_, i) => ({
+      period: periodLabel(period, i),
+      years: channel[i]?.years ?? null,
+      lower: channel[i]?.lower ?? null,
+      center: channel[i]?.center ?? null,
+      upper: channel[i]?.upper ?? null,
+      current: current[i] ?? null,
+      zone: zones[i] ? ENDEMIC_ZONE_LABELS[zones[i] as EndemicZone] : '',
+    })),
+  }), [title, source, method, historicalYears, currentYear, periodCount, period, channel, current, zones]);
+
+  const zoneCounts = zones.reduce<Record<EndemicZone, number>>((counts, zone) => {
+    if (zone) counts[zone]++;
+    return counts;
+  }, { success: 0, safety: 0, alert: 0, epidemic: 0 });
+
+  const toggleYear = (year: number) => {
+    setExcludedYears(prev => (prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year]));
+  };
+
+  const displayTitle = title || 'Endemic Channel';
+  const unit = period === 'monthly' ? 'months' : 'weeks';
+
+  return (
+    <div className="flex gap-6">
+      {/* Config panel */}
+      <div className="w-72 flex-shrink-0 space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Chart Configuration</h3>
+
+          <VisualizationTip
+            tip="An endemic channel shows the usual range of cases for each week or month, built from previous years, so this year's counts can be read against it at a glance."
+            context="Needs at least three earlier years of the same surveillance data. Leave out past epidemic years so they don't inflate the channel."
+          />
+
+          <div className="border border-blue-100 rounded-lg overflow-hidden mb-3">
+            <button
+              onClick={() => setShowGuide(!showGuide)}
+              className="w-full flex items-center justify-between px-3 py-2 bg-blue-50 text-sm font-medium text-blue-800 hover:bg-blue-100 transition-colors"
+            >
+              <span className="flex items-center gap-1.5">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                When to Use This Chart
+              </span>
+              <svg className={`w-4 h-4 transition-transform ${showGuide ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showGuide && (
+              <div className="px-3 py-2 text-xs text-blue-700 space-y-1.5 bg-white">
+                <p>• Routine surveillance of a notifiable disease with a seasonal pattern</p>
+                <p>• Deciding whether this week's count is unusual for the time of year</p>
+                <p>• Reporting to stakeholders in the success / safety / alert / epidemic zones</p>
+                <p>• Quartiles are robust to an odd past year; Bortman's log method suits skewed counts</p>
+                <p className="text-blue-500 italic mt-2">Bortman M. Rev Panam Salud Publica 1999;5:1-8.</p>
+              </div>
+            )}
+          </div>
+
+          <VariableMapper
+            label="Date"
+            description="Onset or report date of each case"
+            columns={dataset.columns}
+            value={dateCol}
+            onChange={setDateCol}
+            filterTypes={['date', 'text']}
+            required
+          />
+
+          <VariableMapper
+            label="Count Column (optional)"
+            description="For aggregated data, sum this column instead of counting rows"
+            columns={dataset.columns}
+            value={valueCol}
+            onChange={setValueCol}
+            filterTypes={['number']}
+            placeholder="None (one row per case)"
+          />
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+            <select
+              value={period}
+              onChange={e => setPeriod(e.target.value as EndemicPeriod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(ENDEMIC_PERIOD_LABELS) as EndemicPeriod[]).map(p => (
+                <option key={p} value={p}>{ENDEMIC_PERIOD_LABELS[p]}</option>
+              ))}
+            </select>
+          </div>
+
+          {years.length > 0 && (
+            <div className="mb-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Current Year</label>
+              <select
+                value={currentYear ?? ''}
+                onChange={e => setCurrentYearSelection(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {years.map(y => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </div>
+          )}
+
+          {priorYears.length > 0 && (
+            <div className="mb-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Historical Years</label>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {priorYears.map(y => (
+                  <label key={y} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!excludedYears.includes(y)}
+                      onChange={() => toggleYear(y)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {y}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Uncheck past epidemic years to keep them out of the channel</p>
+            </div>
+          )}
+
+          {dateCol && years.length > 0 && historicalYears.length < MIN_CHANNEL_YEARS && (
+            <p className="text-xs text-red-600 mb-3">
+              {historicalYears.length} historical year{historicalYears.length === 1 ? '' : 's'} selected. The channel needs at least {MIN_CHANNEL_YEARS} years before the current year.
+            </p>
+          )}
+        </div>
+
+        {/* Display options */}
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Display Options</h4>
+
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+            <select
+              value={method}
+              onChange={e => setMethod(e.target.value as EndemicMethod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(ENDEMIC_METHOD_LABELS) as EndemicMethod[]).map(m => (
+                <option key={m} value={m}>{ENDEMIC_METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              {method === 'quartile'
+                ? 'Channel limits are the 1st and 3rd quartiles; the central line is the median'
+                : 'Limits are the geometric mean × / ÷ 2 SD of log(count + 1)'}
+            </p>
+          </div>
+        </div>
+
+        {/* Text inputs */}
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder="Chart title"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subtitle</label>
+            <input
+              type="text"
+              value={subtitle}
+              onChange={e => setSubtitle(e.target.value)}
+              placeholder="Optional subtitle"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+            <input
+              type="text"
+              value={source}
+              onChange={e => setSource(e.target.value)}
+              placeholder="Data source"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Chart area */}
+      <div className="flex-1 min-w-0">
+        {svgContent ? (
+          <>
+            <ChartContainer
+              title={displayTitle}
+              subtitle={subtitle || undefined}
+              source={source || undefined}
+              svgContent={svgContent}
+              excelData={excelData}
+              filename="endemic-channel"
+            >
+              <div dangerouslySetInnerHTML={{ __html: svgContent }} />
+            </ChartContainer>
+            <p className="text-xs text-gray-500 mt-2">
+              {currentYear}: {(Object.keys(zoneCounts) as EndemicZone[])
+                .map(zone => `${zoneCounts[zone]} ${unit} in the ${ENDEMIC_ZONE_LABELS[zone].toLowerCase()} zone`)
+                .join(', ')}. Channel from {historicalYears.join(', ')}.
+            </p>
+          </>
+        ) : (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-12 text-center">
+            <p className="text-gray-500 text-sm">
+              Select a date variable covering at least {MIN_CHANNEL_YEARS + 1} years to generate the endemic channel.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// SVG
+// =============================================================================
+
+const ZONE_FILLS: Record<EndemicZone, string> = {
+  success: '#C8E6C9',
+  safety: '#FFF59D',
+  alert: '#FFCC80',
+  epidemic: '#EF9A9A',
+};
+
+const ZONE_POINT_COLORS: Record<EndemicZone, string> = {
+  success: '#2E7D32',
+  safety: '#B8860B',
+  alert: '#E65100',
+  epidemic: '#C62828',
+};
+
+/** Generate SVG for the channel bands with the current year's line on top. */
+function generateEndemicSvg(
+  channel: Array<ChannelPoint | null>,
+  current: Array<number | null>,
+  zones: Array<EndemicZone | null>,
+  period: EndemicPeriod,
+  periodCount: number,
+  currentYear: number,
+  chartTitle: string,
+  chartSubtitle: string,
+  chartSource: string
+): string {
+  const { width, height, margin } = getDefaultDimensions('endemic');
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+
+  let yMax = 0;
+  for (let i = 0; i < periodCount; i++) {
+    yMax = Math.max(yMax, channel[i]?.upper ?? 0, current[i] ?? 0);
+  }
+  const niceYMax = getNiceMax(yMax * 1.15);
+
+  const step = plotWidth / periodCount;
+  const toPixelX = (index: number) => margin.left + (index + 0.5) * step;
+  const toPixelY = (value: number) => margin.top + plotHeight - (value / niceYMax) * plotHeight;
+
+  let svg = '';
+  if (chartTitle) {
+    svg += svgTitle(width, chartTitle, chartSubtitle || undefined);
+  }
+
+  // Zone bands over each run of periods that has a channel
+  const runs: number[][] = [];
+  for (let i = 0; i < periodCount; i++) {
+    if (!channel[i]) continue;
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === i - 1) run.push(i);
+    else runs.push([i]);
+  }
+  const band = (run: number[], top: (p: ChannelPoint) => number, bottom: (p: ChannelPoint) => number, fill: string) => {
+    const points = run.map(i => channel[i] as ChannelPoint);
+    // Single-period runs are drawn as a bar the width of the period
+    const xs = run.length === 1 ? [toPixelX(run[0]) - step / 2, toPixelX(run[0]) + step / 2] : run.map(toPixelX);
+    const tops = run.length === 1 ? [top(points[0]), top(points[0])] : points.map(top);
+    const bottoms = run.length === 1 ? [bottom(points[0]), bottom(points[0])] : points.map(bottom);
+    const upper = xs.map((x, k) => `${x},${toPixelY(tops[k])}`);
+    const lower = xs.map((x, k) => `${x},${toPixelY(bottoms[k])}`).reverse();
+    return `<polygon points="${[...upper, ...lower].join(' ')}" fill="${fill}" stroke="none"/>`;
+  };
+  for (const run of runs) {
+    svg += band(run, () => niceYMax, p => p.upper, ZONE_FILLS.epidemic);
+    svg += band(run, p => p.upper, p => p.center, ZONE_FILLS.alert);
+    svg += band(run, p => p.center, p => p.lower, ZONE_FILLS.safety);
+    svg += band(run, p => p.lower, () => 0, ZONE_FILLS.success);
+  }
+
+  const yTickCount = 5;
+  for (let i = 0; i <= yTickCount; i++) {
+    const yVal = (i / yTickCount) * niceYMax;
+    const py = toPixelY(yVal);
+    svg += svgGridLine(margin.left, py, margin.left + plotWidth, py).replace('/>', ' stroke-opacity="0.6"/>');
+    const label = Number.isInteger(yVal) ? String(yVal) : yVal.toFixed(1);
+    svg += svgText(margin.left - 10, py, label, { anchor: 'end', fontSize: 11, fill: '#666', dy: '0.35em' });
+  }
+
+  svg += svgAxisLine(margin.left, margin.top, margin.left, margin.top + plotHeight);
+  svg += svgAxisLine(margin.left, margin.top + plotHeight, margin.left + plotWidth, margin.top + plotHeight);
+
+  const labelStep = period === 'monthly' ? 1 : 4;
+  for (let i = 0; i < periodCount; i++) {
+    if (i % labelStep !== 0 && i !== periodCount - 1) continue;
+    svg += svgText(toPixelX(i), margin.top + plotHeight + 18, periodLabel(period, i), { fontSize: 11, fill: '#666' });
+  }
+  svg += svgText(margin.left + plotWidth / 2, margin.top + plotHeight + 40, period === 'monthly' ? 'Month' : 'Epidemiological week', {
+    fontSize: 12,
+    fill: '#444',
+  });
+  svg += svgText(18, margin.top + plotHeight / 2, 'Cases', { fontSize: 12, fill: '#444', rotate: -90 });
+
+  // Current year: line broken where counts are missing, points colored by zone
+  let segment: string[] = [];
+  const flush = () => {
+    if (segment.length > 1) {
+      svg += `<polyline points="${segment.join(' ')}" fill="none" stroke="#1F2937" stroke-width="2" stroke-linejoin="round"/>`;
+    }
+    segment = [];
+  };
+  for (let i = 0; i < periodCount; i++) {
+    const value = current[i];
+    if (value === null || value === undefined) {
+      flush();
+      continue;
+    }
+    segment.push(`${toPixelX(i)},${toPixelY(value)}`);
+  }
+  flush();
+  for (let i = 0; i < periodCount; i++) {
+    const value = current[i];
+    if (value === null || value === undefined) continue;
+    const zone = zones[i];
+    const fill = zone ? ZONE_POINT_COLORS[zone] : '#6B7280';
+    svg += `<circle cx="${toPixelX(i)}" cy="${toPixelY(value)}" r="3" fill="${fill}" stroke="#fff" stroke-width="1"/>`;
+  }
+
+  // Legend
+  const legendY = height - 22;
+  const items: Array<{ label: string; swatch: string }> = [
+    ...(['epidemic', 'alert', 'safety', 'success'] as EndemicZone[]).map(zone => ({
+      label: ENDEMIC_ZONE_LABELS[zone],
+      swatch: `<rect width="14" height="10" fill="${ZONE_FILLS[zone]}" stroke="#9CA3AF" stroke-width="0.5"/>`,
+    })),
+    { label: String(currentYear), swatch: '<line x1="0" y1="5" x2="14" y2="5" stroke="#1F2937" stroke-width="2"/>' },
+  ];
+  const itemWidth = 95;
+  const legendStartX = margin.left + (plotWidth - items.length * itemWidth) / 2;
+  items.forEach((item, k) => {
+    const lx = legendStartX + k * itemWidth;
+    svg += `<g transform="translate(${lx}, ${legendY - 5})">${item.swatch}</g>`;
+    svg += svgText(lx + 20, legendY, item.label, { anchor: 'start', fontSize: 11, fill: '#444', dy: '0.35em' });
+  });
+
+  if (chartSource) {
+    svg += svgSource(width, height, chartSource);
+  }
+
+  return svgWrapper(width, height, svg);
+}
+
+/** Calculate a nice maximum value for the axis. */
+function getNiceMax(value: number): number {
+  if (value <= 0) return 10;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  let niceNorm: number;
+  if (normalized <= 1) niceNorm = 1;
+  else if (normalized <= 2) niceNorm = 2;
+  else if (normalized <= 5) niceNorm = 5;
+  else niceNorm = 10;
+  return niceNorm * magnitude;
+}
@@ -1,9 +1,10 @@
-import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useState, useMemo, useEffect, useCallback, useSyncExternalStore } from 'react';
 import type { Dataset, CaseRecord } from '../../../types/analysis';
 import { ChartContainer } from '../shared/ChartContainer';
 import { VariableMapper } from '../shared/VariableMapper';
 import { VisualizationTip } from '../shared/VisualizationTip';
 import { calculateTwoByTwo } from '../../../utils/statistics';
+import { fitLogisticModel, LOGISTIC_SETTINGS_EVENT, type LogisticModelSettings } from '../../../utils/regression';
 import { getChartColors, type ChartColorScheme } from '../../../utils/chartColors';
 import {
   getDefaultDimensions,
@@ -25,6 +26,8 @@ interface ForestRow {
   isPooled: boolean;
   /** True when the 2×2 table had a zero cell and the estimate used a continuity correction */
   zeroCell?: boolean;
+  /** 'adjusted' rows come from the Analysis logistic regression model */
+  series?: 'crude' | 'adjusted';
 }
 
 type DataMode = 'manual' | 'calculate';
@@ -41,6 +44,33 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
     }
   }, [dataset.id]);
 
+  // --- Load saved logistic regression model for the adjusted series ---
+  // Subscribed so the plot refits whenever the Logistic Regression tab saves,
+  // in this tab (custom event) or another one (storage event)
+  const logisticKey = `epikit_logistic_${dataset.id}`;
+  const subscribeLogistic = useCallback((onChange: () => void) => {
+    window.addEventListener(LOGISTIC_SETTINGS_EVENT, onChange);
+    window.addEventListener('storage', onChange);
+    return () => {
+      window.removeEventListener(LOGISTIC_SETTINGS_EVENT, onChange);
+      window.removeEventListener('storage', onChange);
+    };
+  }, []);
+  const logisticRaw = useSyncExternalStore(subscribeLogistic, () => {
+    try {
+      return localStorage.getItem(logisticKey);
+    } catch {
+      return null;
+    }
+  });
+  const logisticSaved = useMemo((): LogisticModelSettings | null => {
+    try {
+      return logisticRaw ? JSON.parse(logisticRaw) : null;
+    } catch {
+      return null;
+    }
+  }, [logisticRaw]);
+
   // --- Data mode toggle ---
   const [dataMode, setDataMode] = useState<DataMode>('calculate');
 
@@ -68,6 +98,7 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
   );
   const [measureType, setMeasureType] = useState<MeasureType>('oddsRatio');
   // Custom labels for forest plot rows (keyed by exposure variable key)
+  const [showAdjusted, setShowAdjusted] = useState(false);
   const [customLabels, setCustomLabels] = useState<Record<string, string>>({});
 
   // --- Shared state ---
@@ -262,12 +293,34 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
         weight: results.total, // weight by total sample size
         isPooled: false,
         zeroCell: a === 0 || b === 0 || c === 0 || d === 0,
+        series: 'crude',
       });
     }
 
     return rows;
   }, [dataMode, dataset, outcomeVar, caseValues, selectedExposures, exposurePositiveValues, customLabels, measureType, detectExposedValue, isCase]);
 
+  // --- Adjusted odds ratios from the saved logistic regression model ---
+  const adjustedForestData = useMemo((): ForestRow[] => {
+    if (dataMode !== 'calculate' || measureType !== 'oddsRatio' || !showAdjusted || !logisticSaved) return [];
+    const model = fitLogisticModel(dataset.records, dataset.columns, logisticSaved);
+    if (!model) return [];
+
+    return model.coefficients
+      .filter(c => isFinite(c.oddsRatio) && c.oddsRatioCI.every(v => isFinite(v) && v > 0))
+      .map(c => ({
+        label: c.level !== null
+          ? `${c.termLabel} (${c.level} vs. ${c.referenceLevel}), adj.`
+          : `${c.termLabel} (per unit), adj.`,
+        estimate: c.oddsRatio,
+        lower: c.oddsRatioCI[0],
+        upper: c.oddsRatioCI[1],
+        weight: model.n,
+        isPooled: false,
+        series: 'adjusted' as const,
+      }));
+  }, [dataMode, measureType, showAdjusted, logisticSaved, dataset.records, dataset.columns]);
+
   // --- Manual mode: process data from columns ---
   const manualForestData = useMemo((): ForestRow[] => {
     if (dataMode !== 'manual') return [];
@@ -308,7 +361,10 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
   }, [dataMode, dataset.records, labelCol, estimateCol, lowerCICol, upperCICol, weightCol, effectMeasure]);
 
   // Combined forest data
-  const forestData = dataMode === 'calculate' ? calculatedForestData : manualForestData;
+  const forestData = useMemo(
+    () => (dataMode === 'calculate' ? [...calculatedForestData, ...adjustedForestData] : manualForestData),
+    [dataMode, calculatedForestData, adjustedForestData, manualForestData]
+  );
 
   // Generate SVG
   const svgContent = useMemo(() => {
@@ -322,8 +378,10 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
     const rowHeight = 30;
     const minPlotHeight = forestData.length * rowHeight;
     const width = dims.width;
-    const height = Math.max(dims.height, minPlotHeight + dims.margin.top + dims.margin.bottom);
-    const margin = { ...dims.margin, right: showLabels ? 180 : 60 };
+    const hasAdjusted = forestData.some(r => r.series === 'adjusted');
+    // Extra top space for the crude/adjusted legend
+    const margin = { ...dims.margin, top: dims.margin.top + (hasAdjusted ? 20 : 0), right: showLabels ? 180 : 60 };
+    const height = Math.max(dims.height, minPlotHeight + margin.top + margin.bottom);
     const plotW = width - margin.left - margin.right;
     const plotH = height - margin.top - margin.bottom;
 
@@ -429,18 +487,21 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
       const xLo = xScale(toScale(row.lower));
       const xHi = xScale(toScale(row.upper));
       const xEst = xScale(toScale(row.estimate));
+      const rowColor = row.series === 'adjusted' ? colors[1] : colors[0];
 
       // CI line
-      svg += `<line x1="${xLo}" y1="${y}" x2="${xHi}" y2="${y}" stroke="${colors[0]}" stroke-width="1.5"/>`;
+      svg += `<line x1="${xLo}" y1="${y}" x2="${xHi}" y2="${y}" stroke="${rowColor}" stroke-width="1.5"/>`;
 
       // CI whiskers (small vertical caps)
-      svg += `<line x1="${xLo}" y1="${y - 4}" x2="${xLo}" y2="${y + 4}" stroke="${colors[0]}" stroke-width="1.5"/>`;
-      svg += `<line x1="${xHi}" y1="${y - 4}" x2="${xHi}" y2="${y + 4}" stroke="${colors[0]}" stroke-width="1.5"/>`;
+      svg += `<line x1="${xLo}" y1="${y - 4}" x2="${xLo}" y2="${y + 4}" stroke="${rowColor}" stroke-width="1.5"/>`;
+      svg += `<line x1="${xHi}" y1="${y - 4}" x2="${xHi}" y2="${y + 4}" stroke="${rowColor}" stroke-width="1.5"/>`;
 
       // Marker
       const markerSize = 3 + (row.weight / maxWeight) * 6;
 
-      if (row.isPooled) {
+      if (row.series === 'adjusted') {
+        svg += `<circle cx="${xEst}" cy="${y}" r="${markerSize}" fill="${rowColor}" stroke="white" stroke-width="1"/>`;
+      } else if (row.isPooled) {
         const half = markerSize + 1;
         svg += `<polygon points="${xEst},${y - half} ${xEst + half * 1.5},${y} ${xEst},${y + half} ${xEst - half * 1.5},${y}" fill="${colors[1]}" stroke="white" stroke-width="1"/>`;
       } else {
@@ -459,6 +520,15 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
       }
     }
 
+    // Legend when crude and adjusted estimates are shown together
+    if (hasAdjusted) {
+      const legendY = margin.top - 24;
+      svg += `<rect x="${margin.left}" y="${legendY - 5}" width="10" height="10" fill="${colors[0]}"/>`;
+      svg += svgText(margin.left + 14, legendY, 'Crude (2×2)', { anchor: 'start', fontSize: 10, fill: '#555', dy: '0.35em' });
+      svg += `<circle cx="${margin.left + 105}" cy="${legendY}" r="5" fill="${colors[1]}"/>`;
+      svg += svgText(margin.left + 114, legendY, 'Adjusted (logistic regression)', { anchor: 'start', fontSize: 10, fill: '#555', dy: '0.35em' });
+    }
+
     // Footnote for zero-cell continuity correction
     if (forestData.some(r => r.zeroCell)) {
       svg += svgText(margin.left, margin.top + plotH + 55, '† Zero cell in 2×2 table — estimate and CI use a 0.5 continuity correction', {
@@ -481,6 +551,7 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
       : 'Estimate';
     const columns = [
       { header: 'Exposure', key: 'label' },
+      ...(forestData.some(r => r.series === 'adjusted') ? [{ header: 'Series', key: 'series' }] : []),
       { header: measureLabel, key: 'estimate' },
       { header: 'Lower 95% CI', key: 'lower' },
       { header: 'Upper 95% CI', key: 'upper' },
@@ -488,6 +559,7 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
     ];
     const rows = forestData.map(r => ({
       label: r.label,
+      series: r.series === 'adjusted' ? 'Adjusted' : 'Crude',
       estimate: r.estimate,
       lower: r.lower,
       upper: r.upper,
@@ -672,6 +744,24 @@ export function ForestPlot({ dataset }: { dataset: Dataset }) {
                   <option value="riskRatio">Risk Ratio (RR)</option>
                   <option value="riskDifference">Risk Difference (RD)</option>
                 </select>
+                {measureType === 'oddsRatio' && (
+                  <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showAdjusted}
+                      onChange={e => setShowAdjusted(e.target.checked)}
+                      className="rounded border-gray-300 mt-0.5"
+                    />
+                    <span>
+                      Show adjusted ORs
+                      <span className="block text-gray-500">
+                        {logisticSaved && logisticSaved.predictors?.length > 0
+                          ? 'From the model in Analysis → 4. Model'
+                          : 'Fit a model in Analysis → 4. Model first'}
+                      </span>
+                    </span>
+                  </label>
+                )}
               </div>
 
               {/* Exposure Selection */}
@@ -1,11 +1,15 @@
 import { useState, useMemo } from 'react';
-import type { Dataset } from '../../../types/analysis';
+import type { DataColumn, Dataset } from '../../../types/analysis';
 import { ChartContainer } from '../shared/ChartContainer';
 import { VariableMapper } from '../shared/VariableMapper';
 import { VisualizationTip } from '../shared/VisualizationTip';
 import { FacetWrapper, FacetControl } from '../shared/FacetWrapper';
 import { getChartColor, getChartColors } from '../../../utils/chartColors';
 import type { ChartColorScheme } from '../../../utils/chartColors';
+import { detectAberrations, listAlerts, regularPeriods, DEFAULT_ABERRATION_OPTIONS } from '../../../utils/aberrationDetection';
+import { parseLocalDate } from '../../../utils/epiCurve';
+import type { AberrationAlert, AberrationOptions } from '../../../utils/aberrationDetection';
+import { AberrationSettings, AberrationAlertsTable } from '../../analysis/AberrationAlerts';
 import {
   getDefaultDimensions,
   svgWrapper,
@@ -43,7 +47,8 @@ function generateLineSvg(
   showGridlines: boolean,
   chartTitle: string,
   chartSubtitle: string,
-  chartSource: string
+  chartSource: string,
+  alarmKeys?: Set<string>
 ): string {
   if (seriesData.length === 0 || xValues.length === 0) return '';
 
@@ -168,6 +173,19 @@ function generateLineSvg(
     }
   }
 
+  // Aberration alarms: red ring and marker above the point
+  if (alarmKeys && alarmKeys.size > 0) {
+    for (const series of seriesData) {
+      for (const pt of series.points) {
+        if (!alarmKeys.has(`${series.name}|${pt.x}`)) continue;
+        const px = toPixelX(pt.x);
+        const py = toPixelY(pt.y);
+        svg += `<circle cx="${px}" cy="${py}" r="6" fill="none" stroke="#DC2626" stroke-width="2"/>`;
+        svg += `<path d="M ${px - 4} ${py - 10} L ${px + 4} ${py - 10} L ${px} ${py - 16} Z" fill="#DC2626"/>`;
+      }
+    }
+  }
+
   if (seriesData.length > 1) {
     const legendY = margin.top - 15;
     const itemWidth = 100;
@@ -211,94 +229,60 @@ export function LineChart({ dataset }: LineChartProps) {
   const [chartSubtitle, setChartSubtitle] = useState('');
   const [chartSource, setChartSource] = useState('');
   const [showGuide, setShowGuide] = useState(false);
+  const [showAberrations, setShowAberrations] = useState(false);
+  const [aberrationSettings, setAberrationSettings] = useState<AberrationOptions>(DEFAULT_ABERRATION_OPTIONS);
 
   // Derive x-axis values (sorted dates or ordered categories)
-  const xValues = useMemo(() => {
-    if (!xVar) return [];
-
-    const col = dataset.columns.find(c => c.key === xVar);
-    if (!col) return [];
-
-    const rawValues = dataset.records
-      .map(r => r[xVar])
-      .filter(v => v !== null && v !== undefined && v !== '');
-
-    if (col.type === 'date') {
-      // Sort dates chronologically
-      const dateSet = new Set(rawValues.map(v => String(v)));
-      const sorted = Array.from(dateSet).sort((a, b) => {
-        const da = new Date(a).getTime();
-        const db = new Date(b).getTime();
-        return da - db;
-      });
-      return sorted;
-    }
-
-    // For ordered categorical variables, use valueOrder if available
-    if (col.valueOrder && col.valueOrder.length > 0) {
-      return col.valueOrder.filter(v => rawValues.some(rv => String(rv) === v));
-    }
-
-    // Otherwise, use unique values in natural order
-    const unique = new Set(rawValues.map(v => String(v)));
-    return Array.from(unique).sort();
-  }, [xVar, dataset.records, dataset.columns]);
+  const xValues = useMemo(
+    () => deriveXValues(dataset.records, dataset.columns.find(c => c.key === xVar)),
+    [xVar, dataset.records, dataset.columns]
+  );
 
   // Build series data
   const seriesData: Series[] = useMemo(() => {
     if (!xVar || xValues.length === 0) return [];
+    return buildSeries(dataset.records, xVar, valueMode, yVar, xValues, strataVar, colorScheme);
+  }, [xVar, xValues, strataVar, valueMode, yVar, colorScheme, dataset.records]);
 
-    if (!strataVar) {
-      // Single series
-      const points = buildSeriesPoints(
-        dataset.records,
-        xVar,
-        valueMode,
-        yVar,
-        xValues
-      );
-      return [{
-        name: 'All',
-        points,
-        color: getChartColor(0, colorScheme),
-      }];
-    }
-
-    // Multiple series by strata
-    const strataValues = new Set<string>();
-    for (const record of dataset.records) {
-      const sv = record[strataVar];
-      if (sv !== null && sv !== undefined && sv !== '') {
-        strataValues.add(String(sv));
-      }
+  // Periods the detection runs over: for dates, every day, week or month
+  // between the first and last (null when the dates are irregular)
+  const detectionPeriods = useMemo(
+    () => deriveDetectionPeriods(xValues, dataset.columns.find(c => c.key === xVar)),
+    [xVar, xValues, dataset.columns]
+  );
+  const inferredPeriodsPerYear = detectionPeriods?.periodsPerYear ?? null;
+
+  // Aberration detection on every series, and on every panel when faceted
+  const aberrations = useMemo(() => {
+    if (!showAberrations || seriesData.length === 0 || !detectionPeriods) return null;
+    const options = { ...aberrationSettings, periodsPerYear: inferredPeriodsPerYear ?? aberrationSettings.periodsPerYear };
+    if (!facetCol) {
+      return seriesAberrations(seriesData, detectionPeriods.indices, detectionPeriods, options, '');
     }
-
-    const strataList = Array.from(strataValues).sort();
-    const colors = getChartColors(strataList.length, colorScheme);
-
-    return strataList.map((strataValue, i) => {
-      const filteredRecords = dataset.records.filter(
-        r => String(r[strataVar] ?? '') === strataValue
-      );
-      const points = buildSeriesPoints(
-        filteredRecords,
-        xVar,
-        valueMode,
-        yVar,
-        xValues
-      );
-      return {
-        name: strataValue,
-        points,
-        color: colors[i],
-      };
+    const col = dataset.columns.find(c => c.key === xVar);
+    const facetValues = Array.from(
+      new Set(dataset.records.map(r => r[facetCol]).filter(v => v != null && v !== '').map(String))
+    ).sort();
+    const combined: SeriesAberrations = { alarmKeys: new Map(), alerts: [], evaluated: 0 };
+    facetValues.forEach(facet => {
+      const records = dataset.records.filter(r => String(r[facetCol]) === facet);
+      const facetXValues = deriveXValues(records, col);
+      const facetSeries = buildSeries(records, xVar, valueMode, yVar, facetXValues, strataVar, colorScheme);
+      // Each panel runs over the whole chart's periods
+      const periodOfX = new Map(xValues.map((x, i) => [x, detectionPeriods.indices[i]]));
+      const facetIndices = facetXValues.map(x => periodOfX.get(x) as number);
+      const result = seriesAberrations(facetSeries, facetIndices, detectionPeriods, options, facet);
+      combined.alarmKeys.set(facet, result.alarmKeys.get(facet) ?? new Set());
+      combined.alerts.push(...result.alerts);
+      combined.evaluated += result.evaluated;
     });
-  }, [xVar, xValues, strataVar, valueMode, yVar, colorScheme, dataset.records]);
+    return combined;
+  }, [showAberrations, aberrationSettings, detectionPeriods, inferredPeriodsPerYear, seriesData, xValues, facetCol, xVar, valueMode, yVar, strataVar, colorScheme, dataset.records, dataset.columns]);
 
   // Generate SVG string
   const svgContent = useMemo(() => {
-    return generateLineSvg(seriesData, xValues, showDataPoints, showGridlines, chartTitle, chartSubtitle, chartSource);
-  }, [seriesData, xValues, showDataPoints, showGridlines, chartTitle, chartSubtitle, chartSource]);
+    return generateLineSvg(seriesData, xValues, showDataPoints, showGridlines, chartTitle, chartSubtitle, chartSource, aberrations?.alarmKeys.get(''));
+  }, [seriesData, xValues, showDataPoints, showGridlines, chartTitle, chartSubtitle, chartSource, aberrations]);
 
   // Build Excel export data
   const excelData = useMemo((): ExcelExportData => {
@@ -462,6 +446,32 @@ export function LineChart({ dataset }: LineChartProps) {
             onChange={setFacetCol}
           />
 
+          {/* Aberration detection */}
+          <div className="space-y-2 pt-3 border-t border-gray-200">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Aberration Detection</p>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showAberrations}
+                onChange={(e) => setShowAberrations(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span className="text-gray-700">Flag unusual values in each series</span>
+            </label>
+            {showAberrations && !detectionPeriods && (
+              <p className="text-xs text-amber-700">
+                The dates on the x-axis are not spaced by day, week or month, so periods without records cannot be filled in. Choose a date variable recorded at a regular interval.
+              </p>
+            )}
+            {showAberrations && (
+              <AberrationSettings
+                settings={aberrationSettings}
+                onChange={setAberrationSettings}
+                inferredPeriodsPerYear={inferredPeriodsPerYear}
+              />
+            )}
+          </div>
+
           {/* Chart labels */}
           <div className="space-y-3 pt-3 border-t border-gray-200">
             <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Chart Labels</p>
@@ -502,99 +512,45 @@ export function LineChart({ dataset }: LineChartProps) {
       {/* Right Panel - Chart */}
       <div className="flex-1 overflow-auto p-4 lg:p-6">
         {seriesData.length > 0 && xValues.length > 0 ? (
-          facetCol ? (
-            <FacetWrapper
-              dataset={dataset}
-              facetCol={facetCol}
-              renderChart={(fd) => {
-                // Get x-values for this facet
-                const col = dataset.columns.find(c => c.key === xVar);
-                let facetXValues: string[] = [];
-                const rawValues = fd.records
-                  .map(r => r[xVar])
-                  .filter(v => v !== null && v !== undefined && v !== '');
-
-                if (col?.type === 'date') {
-                  const dateSet = new Set(rawValues.map(v => String(v)));
-                  facetXValues = Array.from(dateSet).sort((a, b) => {
-                    const da = new Date(a).getTime();
-                    const db = new Date(b).getTime();
-                    return da - db;
-                  });
-                } else if (col?.valueOrder && col.valueOrder.length > 0) {
-                  facetXValues = col.valueOrder.filter(v => rawValues.some(rv => String(rv) === v));
-                } else {
-                  const unique = new Set(rawValues.map(v => String(v)));
-                  facetXValues = Array.from(unique).sort();
-                }
-
-                // Build series for facet
-                let facetSeries: Series[] = [];
-
-                if (!strataVar) {
-                  const points = buildSeriesPoints(
-                    fd.records,
-                    xVar,
-                    valueMode,
-                    yVar,
-                    facetXValues
-                  );
-                  facetSeries = [{
-                    name: 'All',
-                    points,
-                    color: getChartColor(0, colorScheme),
-                  }];
-                } else {
-                  const strataValues = new Set<string>();
-                  for (const record of fd.records) {
-                    const sv = record[strataVar];
-                    if (sv !== null && sv !== undefined && sv !== '') {
-                      strataValues.add(String(sv));
-                    }
+          <>
+            {facetCol ? (
+              <FacetWrapper
+                dataset={dataset}
+                facetCol={facetCol}
+                renderChart={(fd, facetLabel) => {
+                  const facetXValues = deriveXValues(fd.records, dataset.columns.find(c => c.key === xVar));
+                  const facetSeries = buildSeries(fd.records, xVar, valueMode, yVar, facetXValues, strataVar, colorScheme);
+
+                  if (facetSeries.length === 0 || facetXValues.length === 0) {
+                    return <div className="text-gray-400 text-xs p-2">No data</div>;
                   }
 
-                  const strataList = Array.from(strataValues).sort();
-                  const colors = getChartColors(strataList.length, colorScheme);
-
-                  facetSeries = strataList.map((strataValue, i) => {
-                    const filteredRecords = fd.records.filter(
-                      r => String(r[strataVar] ?? '') === strataValue
-                    );
-                    const points = buildSeriesPoints(
-                      filteredRecords,
-                      xVar,
-                      valueMode,
-                      yVar,
-                      facetXValues
-                    );
-                    return {
-                      name: strataValue,
-                      points,
-                      color: colors[i],
-                    };
-                  });
-                }
-
-                if (facetSeries.length === 0 || facetXValues.length === 0) {
-                  return <div className="text-gray-400 text-xs p-2">No data</div>;
-                }
-
-                const facetSvg = generateLineSvg(facetSeries, facetXValues, showDataPoints, showGridlines, '', '', '');
-                return <div dangerouslySetInnerHTML={{ __html: facetSvg }} />;
-              }}
-            />
-          ) : (
-            <ChartContainer
-              title={chartTitle || 'Line Chart'}
-              subtitle={chartSubtitle || undefined}
-              source={chartSource || undefined}
-              svgContent={svgContent}
-              excelData={excelData}
-              filename={chartTitle ? chartTitle.replace(/\s+/g, '_') : 'line_chart'}
-            >
-              <div dangerouslySetInnerHTML={{ __html: svgContent }} />
-            </ChartContainer>
-          )
+                  const facetSvg = generateLineSvg(facetSeries, facetXValues, showDataPoints, showGridlines, '', '', '', aberrations?.alarmKeys.get(facetLabel));
+                  return <div dangerouslySetInnerHTML={{ __html: facetSvg }} />;
+                }}
+              />
+            ) : (
+              <ChartContainer
+                title={chartTitle || 'Line Chart'}
+                subtitle={chartSubtitle || undefined}
+                source={chartSource || undefined}
+                svgContent={svgContent}
+                excelData={excelData}
+                filename={chartTitle ? chartTitle.replace(/\s+/g, '_') : 'line_chart'}
+              >
+                <div dangerouslySetInnerHTML={{ __html: svgContent }} />
+              </ChartContainer>
+            )}
+            {aberrations && (
+              <AberrationAlertsTable
+                alerts={aberrations.alerts}
+                settings={aberrationSettings}
+                seriesLabel={strataVar || facetCol ? 'Series' : undefined}
+                evaluatedPeriods={aberrations.evaluated}
+                filename={`${chartTitle ? chartTitle.replace(/\s+/g, '_') : 'line_chart'}_alerts`}
+              />
+            )}
+          </>
         ) : (
           <div className="flex items-center justify-center h-64 text-gray-400 text-sm">
             {xVar
@@ -607,6 +563,139 @@ export function LineChart({ dataset }: LineChartProps) {
   );
 }
 
+/** X-axis values: sorted dates, ordered categories, or sorted unique values */
+function deriveXValues(records: Dataset['records'], col: DataColumn | undefined): string[] {
+  if (!col) return [];
+
+  const rawValues = records
+    .map(r => r[col.key])
+    .filter(v => v !== null && v !== undefined && v !== '');
+
+  if (col.type === 'date') {
+    // Sort dates chronologically
+    const dateSet = new Set(rawValues.map(v => String(v)));
+    return Array.from(dateSet).sort((a, b) => {
+      const da = new Date(a).getTime();
+      const db = new Date(b).getTime();
+      return da - db;
+    });
+  }
+
+  // For ordered categorical variables, use valueOrder if available
+  if (col.valueOrder && col.valueOrder.length > 0) {
+    return col.valueOrder.filter(v => rawValues.some(rv => String(rv) === v));
+  }
+
+  // Otherwise, use unique values in natural order
+  const unique = new Set(rawValues.map(v => String(v)));
+  return Array.from(unique).sort();
+}
+
+/** One series for all records, or one per stratum value */
+function buildSeries(
+  records: Dataset['records'],
+  xVar: string,
+  valueMode: ValueMode,
+  yVar: string,
+  xValues: string[],
+  strataVar: string,
+  colorScheme: ChartColorScheme
+): Series[] {
+  if (!strataVar) {
+    return [{
+      name: 'All',
+      points: buildSeriesPoints(records, xVar, valueMode, yVar, xValues),
+      color: getChartColor(0, colorScheme),
+    }];
+  }
+
+  const strataValues = new Set<string>();
+  for (const record of records) {
+    const sv = record[strataVar];
+    if (sv !== null && sv !== undefined && sv !== '') {
+      strataValues.add(String(sv));
+    }
+  }
+
+  const strataList = Array.from(strataValues).sort();
+  const colors = getChartColors(strataList.length, colorScheme);
+
+  return strataList.map((strataValue, i) => {
+    const filteredRecords = records.filter(
+      r => String(r[strataVar] ?? '') === strataValue
+    );
+    return {
+      name: strataValue,
+      points: buildSeriesPoints(filteredRecords, xVar, valueMode, yVar, xValues),
+      color: colors[i],
+    };
+  });
+}
+
+interface SeriesAberrations {
+  /** Alarmed `${series}|${x index}` keys for each facet ('' when not faceted) */
+  alarmKeys: Map<string, Set<string>>;
+  alerts: AberrationAlert[];
+  evaluated: number;
+}
+
+interface DetectionPeriods {
+  /** Label of every period, including those filled in between dates */
+  labels: string[];
+  /** Period of each x-value */
+  indices: number[];
+  /** Inferred from a date axis; null for categories */
+  periodsPerYear: number | null;
+}
+
+/**
+ * Categories are taken as consecutive periods as they stand. Dates are laid
+ * on a daily, weekly or monthly grid so days without records count as zero;
+ * null when they fit none.
+ */
+function deriveDetectionPeriods(xValues: string[], col: DataColumn | undefined): DetectionPeriods | null {
+  if (col?.type !== 'date') {
+    return { labels: xValues, indices: xValues.map((_, i) => i), periodsPerYear: null };
+  }
+  const grid = regularPeriods(xValues.map(v => parseLocalDate(v)));
+  if (!grid) return null;
+  const labels = grid.periods.map(date =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  );
+  grid.indices.forEach((period, i) => { labels[period] = xValues[i]; });
+  return { labels, indices: grid.indices, periodsPerYear: grid.periodsPerYear };
+}
+
+/**
+ * Aberration detection on each series over every period; periods without a
+ * point count as 0. xPeriods maps the series' x indices to periods.
+ */
+function seriesAberrations(
+  seriesList: Series[],
+  xPeriods: number[],
+  periods: DetectionPeriods,
+  options: AberrationOptions,
+  facet: string
+): SeriesAberrations {
+  const keys = new Set<string>();
+  const alerts: AberrationAlert[] = [];
+  const xOfPeriod = new Map(xPeriods.map((period, x) => [period, x]));
+  let evaluated = 0;
+  for (const series of seriesList) {
+    const values = periods.labels.map(() => 0);
+    series.points.forEach(pt => { values[xPeriods[pt.x]] = pt.y; });
+    const results = detectAberrations(values, options);
+    evaluated += results.filter(r => r !== null).length;
+    const name = [facet, series.name === 'All' && facet ? '' : series.name].filter(Boolean).join(' · ');
+    listAlerts(name, periods.labels, results).forEach(alert => {
+      const x = xOfPeriod.get(alert.periodIndex);
+      if (x !== undefined) keys.add(`${series.name}|${x}`);
+      alerts.push(alert);
+    });
+  }
+  return { alarmKeys: new Map([[facet, keys]]), alerts, evaluated };
+}
+
 /**
  * Build series points from filtered records.
  * For "count" mode: count occurrences of each x-value.
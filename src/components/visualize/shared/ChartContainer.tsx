@@ -1,14 +1,14 @@
 import { useRef, useState } from 'react';
 import type { ReactNode } from 'react';
 import { ResultsActions, ExportIcons } from '../../shared';
-import { exportPNG, copyChartToClipboard, exportExcel } from '../../../utils/chartExport';
+import { exportPNG, exportSVG, copyChartToClipboard, exportExcel } from '../../../utils/chartExport';
 import type { ExcelExportData } from '../../../utils/chartExport';
 
 interface ChartContainerProps {
   title: string;
   subtitle?: string;
   source?: string;
-  svgContent?: string;  // SVG string used for PNG export and clipboard
+  svgContent?: string;  // SVG string used for PNG/SVG export and clipboard
   children: ReactNode;
   filename?: string;
   excelData?: ExcelExportData;  // Structured data for Excel export
@@ -36,6 +36,12 @@ export function ChartContainer({ title, subtitle, source, svgContent, children,
     }
   };
 
+  const handleExportSVG = () => {
+    if (svgContent) {
+      exportSVG(svgContent, `${filename}.svg`);
+    }
+  };
+
   const handleCopyToClipboard = async () => {
     if (!svgContent) return;
     const result = await copyChartToClipboard(svgContent);
@@ -57,6 +63,7 @@ export function ChartContainer({ title, subtitle, source, svgContent, children,
 
   const actions = [
     { label: 'Export PNG', onClick: handleExportPNG, icon: ExportIcons.image, disabled: !svgContent },
+    { label: 'Export SVG', onClick: handleExportSVG, icon: ExportIcons.image, variant: 'secondary' as const, disabled: !svgContent },
     { label: copyLabel, onClick: handleCopyToClipboard, icon: ClipboardIcon, variant: 'secondary' as const, disabled: !svgContent },
     { label: 'Export to Excel', onClick: handleExportExcel, icon: ExcelIcon, variant: 'secondary' as const, disabled: !excelData },
   ];
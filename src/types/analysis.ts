@@ -11,6 +11,16 @@ export interface DataColumn {
   valueOrder?: string[];
 }
 
+/** Complex survey design columns; any field left empty is not part of the design */
+export interface SurveyDesign {
+  /** Sampling weight (inverse probability of selection) */
+  weightField?: string;
+  /** Stratum the record was sampled in */
+  strataField?: string;
+  /** Cluster / primary sampling unit (PSU), nested within strata */
+  clusterField?: string;
+}
+
 export interface Dataset {
   id: string;
   name: string;
@@ -19,6 +29,8 @@ export interface Dataset {
   records: CaseRecord[];
   createdAt: string;
   updatedAt: string;
+  /** Declared survey design; estimates use simple random sampling when absent */
+  surveyDesign?: SurveyDesign;
 }
 
 export interface FilterCondition {
@@ -46,6 +58,31 @@ export interface EditLogEntry {
   timestamp: string;
 }
 
+// Contact Tracing Types
+/** Result of one day's follow-up visit or call */
+export type FollowUpStatus = 'well' | 'symptomatic' | 'not-reached';
+
+/** A contact of a case, followed daily until the incubation period after last exposure has passed */
+export interface Contact {
+  id: string;
+  datasetId: string;
+  /** Record ID of the case this person is a contact of */
+  caseRecordId: string;
+  name: string;
+  phone: string;
+  relationship: string;
+  /** Date of last exposure to the case (YYYY-MM-DD) */
+  lastExposure: string;
+  /** Follow-up result by date (YYYY-MM-DD) */
+  followUp: Record<string, FollowUpStatus>;
+  /** Follow-up stopped before the window ended (moved away, refused, ...) */
+  lostToFollowUp: boolean;
+  /** Record ID of the case record created when the contact became a case */
+  convertedRecordId?: string;
+  notes: string;
+  createdAt: string;
+}
+
 // Data Quality Check Types
 export type DataQualityCheckType =
   | 'duplicate'
@@ -118,7 +155,7 @@ export interface DataQualityConfig {
 }
 
 // Variable Creation Types
-export type CreationMethod = 'categorize' | 'formula' | 'copy' | 'blank';
+export type CreationMethod = 'categorize' | 'formula' | 'copy' | 'blank' | 'distance' | 'geocode';
 
 export interface CategoryRule {
   id: string;
@@ -0,0 +1,437 @@
+/**
+ * Aberration Detection
+ *
+ * Flags time periods with unusually high counts in a surveillance time series,
+ * using the CDC Early Aberration Reporting System (EARS) C1, C2 and C3 methods
+ * and the Farrington-Flexible algorithm. Counts are one value per period, in
+ * time order, with no gaps (periods without reports count as zero).
+ *
+ * CONTENTS:
+ *
+ * 1. EARS C1 / C2 / C3
+ *    - C1: baseline of the 7 periods before the current one; alarm when
+ *      (x - mean) / sd > 3
+ *    - C2: the same with a 2-period guard band (baseline t-9 ... t-3)
+ *    - C3: the sum of max(0, C2 - 1) over the current and previous 2 periods;
+ *      alarm when it exceeds 2
+ *
+ * 2. FARRINGTON-FLEXIBLE
+ *    - Reference values from the past b years, with the weeks (or months)
+ *      around the current period of each year forming one seasonal level and
+ *      the rest of each year split into further levels (Noufaily et al.)
+ *    - Quasi-Poisson log-linear model with an optional linear trend, kept only
+ *      when significant (p < 0.05) and not extrapolating past the data
+ *    - Past outbreaks downweighted by their Anscombe residuals (> 2.58)
+ *    - Threshold: negative binomial (1 - alpha) quantile of the predicted count
+ *    - No alarm unless at least 5 cases were reported in the last 4 periods
+ *
+ * 3. PERIODS
+ *    - Periods per year inferred from the spacing of dates (daily, weekly,
+ *      monthly)
+ *    - Dates laid on a regular grid of those periods, so periods without
+ *      reports can be filled with zeros
+ *
+ * References:
+ * - Hutwagner L, Thompson W, Seeman GM, Treadwell T. The bioterrorism
+ *   preparedness and response Early Aberration Reporting System (EARS).
+ *   J Urban Health 2003;80(Suppl 1):i89-i96.
+ * - Fricker RD, Hegler BL, Dunfee DA. Comparing syndromic surveillance
+ *   detection methods: EARS' versus a CUSUM-based methodology. Stat Med
+ *   2008;27:3407-3429.
+ * - Farrington CP, Andrews NJ, Beale AD, Catchpole MA. A statistical algorithm
+ *   for the early detection of outbreaks of infectious disease. J R Stat Soc A
+ *   1996;159:547-563.
+ * - Noufaily A, Enki DG, Farrington P, et al. An improved algorithm for
+ *   outbreak detection in multiple surveillance systems. Stat Med
+ *   2013;32:1206-1222.
+ */
+import { invertMatrix } from './regression';
+import { logGamma, normalCDF } from './statistics';
+
+export type AberrationMethod = 'C1' | 'C2' | 'C3' | 'farrington';
+
+export const ABERRATION_METHOD_LABELS: Record<AberrationMethod, string> = {
+  C1: 'EARS C1 (mild)',
+  C2: 'EARS C2 (medium)',
+  C3: 'EARS C3 (ultra)',
+  farrington: 'Farrington-Flexible',
+};
+
+export interface AberrationOptions {
+  method: AberrationMethod;
+  /** EARS: baseline length in periods (default 7) */
+  baseline?: number;
+  /** Farrington: periods per year (52 for weekly data, 12 for monthly) */
+  periodsPerYear?: number;
+  /** Farrington: years of history used as reference (default 3) */
+  years?: number;
+  /** Farrington: half-width of the window around the current period in each past year */
+  window?: number;
+  /** Farrington: number of seasonal levels, including the window itself (default 10) */
+  seasonalLevels?: number;
+  /** Farrington: one-sided significance level of the threshold (default 0.05) */
+  alpha?: number;
+}
+
+export const DEFAULT_ABERRATION_OPTIONS: AberrationOptions = { method: 'C2', baseline: 7, years: 3, alpha: 0.05 };
+
+export interface AberrationResult {
+  observed: number;
+  /** Baseline mean (EARS) or predicted count (Farrington) */
+  expected: number;
+  /** Count above which the period alarms */
+  threshold: number;
+  /** EARS: the C1/C2/C3 statistic; Farrington: (observed - expected) / (threshold - expected) */
+  statistic: number;
+  alarm: boolean;
+}
+
+/**
+ * Run the chosen method over a count series. Entries are null where there is
+ * not enough history (the baseline or reference years reach before the start).
+ * Missing or non-finite settings fall back to their defaults, and the rest are
+ * clamped to usable ranges.
+ */
+export function detectAberrations(counts: number[], options: AberrationOptions): Array<AberrationResult | null> {
+  return options.method === 'farrington' ? farringtonFlexible(counts, options) : earsC(counts, options);
+}
+
+// =============================================================================
+// EARS C1 / C2 / C3
+// =============================================================================
+
+const EARS_THRESHOLD = 3;
+const C3_THRESHOLD = 2;
+
+function earsC(counts: number[], options: AberrationOptions): Array<AberrationResult | null> {
+  const baseline = Math.max(2, Math.round(finiteOr(options.baseline, 7)));
+  const lag = options.method === 'C1' ? 0 : 2;
+
+  // Baseline mean and SD for each period (C1: t-7..t-1; C2 and C3: t-9..t-3)
+  const moments = counts.map((_, t) => {
+    const end = t - lag - 1;
+    const start = end - baseline + 1;
+    if (start < 0) return null;
+    const values = counts.slice(start, end + 1);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return { mean, sd: Math.sqrt(variance) };
+  });
+  // A zero-variance baseline alarms on any count above its mean
+  const standardized = (t: number): number | null => {
+    const m = moments[t];
+    if (!m) return null;
+    const excess = counts[t] - m.mean;
+    if (m.sd > 0) return excess / m.sd;
+    return excess > 0 ? Infinity : 0;
+  };
+
+  return counts.map((observed, t) => {
+    const m = moments[t];
+    const z = standardized(t);
+    if (!m || z === null) return null;
+
+    if (options.method !== 'C3') {
+      return {
+        observed,
+        expected: m.mean,
+        threshold: m.mean + EARS_THRESHOLD * m.sd,
+        statistic: z,
+        alarm: z > EARS_THRESHOLD,
+      };
+    }
+
+    // C3 adds the C2 excesses of the two previous periods
+    const previous = [t - 1, t - 2].map(standardized);
+    if (previous.some(value => value === null)) return null;
+    const carried = previous.reduce((sum: number, value) => sum + Math.max(0, (value as number) - 1), 0);
+    const statistic = Math.max(0, z - 1) + carried;
+    return {
+      observed,
+      expected: m.mean,
+      threshold: Math.max(0, m.mean + m.sd * (C3_THRESHOLD + 1 - carried)),
+      statistic,
+      alarm: statistic > C3_THRESHOLD,
+    };
+  });
+}
+
+// =============================================================================
+// FARRINGTON-FLEXIBLE
+// =============================================================================
+
+// Residuals above this are treated as past outbreaks (Noufaily et al.)
+const REWEIGHT_THRESHOLD = 2.58;
+const TREND_P_VALUE = 0.05;
+// Farrington et al.'s "5 in 4" rule
+const MIN_RECENT_CASES = 5;
+const RECENT_PERIODS = 4;
+
+interface PoissonFit {
+  beta: number[];
+  /** (X'WX)⁻¹ without the dispersion factor */
+  covariance: number[][];
+  fitted: number[];
+  /** Diagonal of the hat matrix */
+  leverage: number[];
+}
+
+/** Poisson log-linear model with prior weights, by iteratively reweighted least squares */
+function fitWeightedPoisson(X: number[][], y: number[], priorWeights: number[]): PoissonFit | null {
+  const p = X[0].length;
+  const totalWeight = priorWeights.reduce((a, b) => a + b, 0);
+  const weightedMean = y.reduce((sum, v, i) => sum + v * priorWeights[i], 0) / totalWeight;
+  let beta = new Array(p).fill(0);
+  beta[0] = Math.log(Math.max(weightedMean, 0.5));
+  let covariance: number[][] | null = null;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const eta = X.map(row => row.reduce((sum, x, j) => sum + x * beta[j], 0));
+    const mu = eta.map(e => Math.exp(Math.min(e, 700)));
+    const information = Array.from({ length: p }, () => new Array(p).fill(0));
+    const score = new Array(p).fill(0);
+    X.forEach((row, i) => {
+      const w = priorWeights[i] * Math.max(mu[i], 1e-10);
+      const z = eta[i] + (y[i] - mu[i]) / Math.max(mu[i], 1e-10);
+      for (let j = 0; j < p; j++) {
+        score[j] += row[j] * w * z;
+        for (let k = 0; k < p; k++) information[j][k] += row[j] * w * row[k];
+      }
+    });
+    covariance = invertMatrix(information);
+    if (!covariance) return null;
+    const next = covariance.map(row => row.reduce((sum, c, j) => sum + c * score[j], 0));
+    const change = Math.max(...next.map((b, j) => Math.abs(b - beta[j])));
+    beta = next;
+    if (change < 1e-8) break;
+  }
+  if (!covariance) return null;
+
+  const fitted = X.map(row => Math.exp(Math.min(row.reduce((sum, x, j) => sum + x * beta[j], 0), 700)));
+  const leverage = X.map((row, i) => {
+    let quadratic = 0;
+    for (let j = 0; j < p; j++) {
+      for (let k = 0; k < p; k++) quadratic += row[j] * (covariance as number[][])[j][k] * row[k];
+    }
+    return priorWeights[i] * fitted[i] * quadratic;
+  });
+  return { beta, covariance, fitted, leverage };
+}
+
+/** Pearson dispersion, floored at 1 (Poisson variance) */
+function dispersionOf(y: number[], fitted: number[], weights: number[], parameters: number): number {
+  const df = y.length - parameters;
+  if (df <= 0) return 1;
+  const pearson = y.reduce((sum, v, i) => sum + (weights[i] * (v - fitted[i]) ** 2) / Math.max(fitted[i], 1e-10), 0);
+  return Math.max(1, pearson / df);
+}
+
+/**
+ * Fit, downweight past outbreaks by their Anscombe residuals, and refit.
+ * Returns the reweighted fit and its dispersion.
+ */
+function fitReweighted(X: number[][], y: number[]): { fit: PoissonFit; dispersion: number } | null {
+  const p = X[0].length;
+  const unit = y.map(() => 1);
+  const first = fitWeightedPoisson(X, y, unit);
+  if (!first) return null;
+  const phi = dispersionOf(y, first.fitted, unit, p);
+
+  const raw = y.map((v, i) => {
+    const mu = Math.max(first.fitted[i], 1e-10);
+    const anscombe = (1.5 * (Math.pow(v, 2 / 3) - Math.pow(mu, 2 / 3))) / Math.pow(mu, 1 / 6);
+    const s = anscombe / Math.sqrt(phi * Math.max(1 - first.leverage[i], 1e-6));
+    return s > REWEIGHT_THRESHOLD ? 1 / (s * s) : 1;
+  });
+  const scale = y.length / raw.reduce((a, b) => a + b, 0);
+  const weights = raw.map(w => w * scale);
+
+  const fit = fitWeightedPoisson(X, y, weights);
+  if (!fit) return null;
+  return { fit, dispersion: dispersionOf(y, fit.fitted, weights, p) };
+}
+
+/** Smallest count k with P(X ≤ k) ≥ q, for a negative binomial with the given mean and variance = phi·mean */
+function quasiPoissonQuantile(q: number, mean: number, phi: number): number {
+  if (mean <= 0) return 0;
+  // phi = 1 is the Poisson limit (size → ∞)
+  const size = phi > 1 ? mean / (phi - 1) : Infinity;
+  const logPmf = (k: number): number => {
+    if (!isFinite(size)) return k * Math.log(mean) - mean - logGamma(k + 1);
+    const prob = size / (size + mean);
+    return logGamma(k + size) - logGamma(size) - logGamma(k + 1) + size * Math.log(prob) + k * Math.log(1 - prob);
+  };
+  let cumulative = 0;
+  for (let k = 0; k < 1e6; k++) {
+    cumulative += Math.exp(logPmf(k));
+    if (cumulative >= q) return k;
+  }
+  return Infinity;
+}
+
+function farringtonFlexible(counts: number[], options: AberrationOptions): Array<AberrationResult | null> {
+  const periodsPerYear = Math.max(2, Math.round(finiteOr(options.periodsPerYear, 52)));
+  const years = Math.max(1, Math.round(finiteOr(options.years, 3)));
+  const window = Math.max(0, Math.round(finiteOr(options.window, periodsPerYear >= 52 ? 3 : 1)));
+  const alpha = Math.min(0.5, Math.max(1e-6, finiteOr(options.alpha, 0.05)));
+  // The stretch between yearly windows is split into the remaining levels
+  const gap = periodsPerYear - 2 * window - 1;
+  const levels = gap > 0 ? Math.max(1, Math.min(Math.round(finiteOr(options.seasonalLevels, 10)) - 1, gap)) : 0;
+
+  return counts.map((observed, t0) => {
+    const first = t0 - years * periodsPerYear - window;
+    const last = t0 - window - 1;
+    if (first < 0 || last <= first) return null;
+
+    const times: number[] = [];
+    const y: number[] = [];
+    const level: number[] = [];
+    for (let t = first; t <= last; t++) {
+      const position = (((t - t0) % periodsPerYear) + periodsPerYear) % periodsPerYear;
+      const inWindow = position <= window || position >= periodsPerYear - window;
+      times.push(t);
+      y.push(counts[t]);
+      level.push(inWindow ? 0 : 1 + Math.floor(((position - window - 1) * levels) / gap));
+    }
+    if (y.every(v => v === 0)) return null;
+
+    // Seasonal levels present among the reference values (level 0 is the baseline)
+    const presentLevels = Array.from(new Set(level.filter(l => l > 0))).sort((a, b) => a - b);
+    const design = (withTrend: boolean) => (t: number, l: number) => [
+      1,
+      ...(withTrend ? [t] : []),
+      ...presentLevels.map(candidate => (l === candidate ? 1 : 0)),
+    ];
+
+    const fitModel = (withTrend: boolean) => {
+      const row = design(withTrend);
+      const X = times.map((t, i) => row(t, level[i]));
+      if (X.length <= X[0].length) return null;
+      const result = fitReweighted(X, y);
+      if (!result) return null;
+      const x0 = row(t0, 0);
+      const eta0 = x0.reduce((sum, x, j) => sum + x * result.fit.beta[j], 0);
+      return { ...result, expected: Math.exp(eta0) };
+    };
+
+    let model = fitModel(true);
+    if (model) {
+      const se = Math.sqrt(model.dispersion * model.fit.covariance[1][1]);
+      const pValue = 2 * (1 - normalCDF(Math.abs(model.fit.beta[1] / se)));
+      // Drop a trend that is not significant or predicts beyond anything observed
+      if (!(pValue < TREND_P_VALUE) || model.expected > Math.max(...y)) model = fitModel(false);
+    } else {
+      model = fitModel(false);
+    }
+    if (!model) return null;
+
+    const { expected, dispersion } = model;
+    const threshold = quasiPoissonQuantile(1 - alpha, expected, dispersion);
+    const recent = counts.slice(Math.max(0, t0 - RECENT_PERIODS + 1), t0 + 1).reduce((a, b) => a + b, 0);
+    return {
+      observed,
+      expected,
+      threshold,
+      statistic: threshold > expected ? (observed - expected) / (threshold - expected) : 0,
+      alarm: observed > threshold && recent >= MIN_RECENT_CASES,
+    };
+  });
+}
+
+// =============================================================================
+// PERIODS
+// =============================================================================
+
+/**
+ * Periods per year implied by the median spacing of consecutive dates:
+ * 365 (daily), 52 (weekly) or 12 (monthly); null for other spacings.
+ */
+export function inferPeriodsPerYear(dates: Date[]): number | null {
+  const times = dates.map(d => d.getTime()).filter(t => !isNaN(t)).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 86400000).filter(g => g > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return null;
+  const median = gaps[Math.floor(gaps.length / 2)];
+  if (median >= 0.5 && median <= 1.5) return 365;
+  if (median >= 6 && median <= 8) return 52;
+  if (median >= 27 && median <= 32) return 12;
+  return null;
+}
+
+export interface RegularPeriods {
+  /** Every period from the first date to the last */
+  periods: Date[];
+  /** Position in periods of each date passed in */
+  indices: number[];
+  periodsPerYear: number;
+}
+
+/**
+ * Place dates on the daily, weekly or monthly grid running from the earliest
+ * to the latest, so the periods between them can be filled with zeros. Null
+ * when the spacing is none of these or a date falls between grid steps.
+ */
+export function regularPeriods(dates: Date[]): RegularPeriods | null {
+  const periodsPerYear = inferPeriodsPerYear(dates);
+  if (periodsPerYear === null || dates.some(d => isNaN(d.getTime()))) return null;
+  const first = dates.reduce((earliest, d) => (d.getTime() < earliest.getTime() ? d : earliest));
+  const step = periodsPerYear === 365 ? 1 : 7;
+  // Calendar days and months, so daylight saving changes do not shift a step
+  const offsets = dates.map(d => periodsPerYear === 12
+    ? (d.getFullYear() - first.getFullYear()) * 12 + d.getMonth() - first.getMonth()
+    : calendarDays(first, d) / step);
+  const onGrid = dates.every((d, i) => Number.isInteger(offsets[i])
+    && (periodsPerYear !== 12 || d.getDate() === first.getDate()));
+  if (!onGrid) return null;
+
+  const count = Math.max(...offsets) + 1;
+  const periods = Array.from({ length: count }, (_, i) => periodsPerYear === 12
+    ? new Date(first.getFullYear(), first.getMonth() + i, first.getDate())
+    : new Date(first.getFullYear(), first.getMonth(), first.getDate() + i * step));
+  return { periods, indices: offsets, periodsPerYear };
+}
+
+// =============================================================================
+// ALERTS
+// =============================================================================
+
+export interface AberrationAlert {
+  /** Stratum or series name ('' for an unstratified series) */
+  series: string;
+  period: string;
+  periodIndex: number;
+  observed: number;
+  expected: number;
+  threshold: number;
+  statistic: number;
+}
+
+/** Alarmed periods of one series, labelled for the alert table */
+export function listAlerts(series: string, periodLabels: string[], results: Array<AberrationResult | null>): AberrationAlert[] {
+  const alerts: AberrationAlert[] = [];
+  results.forEach((result, i) => {
+    if (!result?.alarm) return;
+    alerts.push({
+      series,
+      period: periodLabels[i],
+      periodIndex: i,
+      observed: result.observed,
+      expected: result.expected,
+      threshold: result.threshold,
+      statistic: result.statistic,
+    });
+  });
+  return alerts;
+}
+
+// =============================================================================
+// Module-private helpers
+// =============================================================================
+
+function calendarDays(from: Date, to: Date): number {
+  return (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000;
+}
+
+/** A setting cleared in a form arrives as NaN; treat it like a missing one */
+function finiteOr(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) ? value : fallback;
+}
@@ -0,0 +1,357 @@
+/**
+ * Animation Export
+ *
+ * File formats for exporting map animations as a single download, written
+ * in the browser without extra libraries.
+ *
+ * CONTENTS:
+ *
+ * 1. ANIMATED GIF
+ *    - GIF89a with a looping extension and one local palette per frame
+ *    - Palettes by the popularity method on 15-bit colour buckets (the 256
+ *      most common buckets, averaged), nearest-colour mapping without dithering
+ *    - Variable-width LZW compression (up to 12-bit codes)
+ *
+ * 2. ZIP ARCHIVE
+ *    - Stored (uncompressed) entries, suited to already-compressed PNG frames
+ *    - CRC-32 checksums
+ *
+ * References:
+ * - CompuServe. Graphics Interchange Format, Version 89a. 1990.
+ * - Heckbert P. Color image quantization for frame buffer display. Comput Graph
+ *   1982;16:297-307.
+ * - PKWARE. APPNOTE.TXT - .ZIP File Format Specification, version 6.3.10. 2022.
+ */
+
+// =============================================================================
+// ANIMATED GIF
+// =============================================================================
+
+export interface GifOptions {
+  /** Display time of each frame */
+  delayMs: number;
+  /** Loop forever (default true) */
+  loop?: boolean;
+}
+
+export interface GifEncoder {
+  /** Add a frame of RGBA pixels (width × height × 4 bytes); alpha is ignored */
+  addFrame: (rgba: Uint8Array | Uint8ClampedArray) => void;
+  /** Close the file and return its bytes */
+  finish: () => Uint8Array<ArrayBuffer>;
+}
+
+/** Frames are encoded as they are added, so only the compressed file is kept in memory */
+export function createGifEncoder(width: number, height: number, options: GifOptions): GifEncoder {
+  const { delayMs, loop = true } = options;
+  const output = new ByteWriter();
+  output.writeString('GIF89a');
+  output.writeUint16(width);
+  output.writeUint16(height);
+  // No global colour table; each frame carries its own
+  output.writeBytes([0x70, 0, 0]);
+  if (loop) {
+    output.writeBytes([0x21, 0xff, 0x0b]);
+    output.writeString('NETSCAPE2.0');
+    output.writeBytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+  }
+  const delay = Math.max(2, Math.round(delayMs / 10));
+
+  return {
+    addFrame: (rgba) => {
+      if (rgba.length < width * height * 4) throw new Error('GIF frame is smaller than the image size.');
+      const { palette, indexes } = quantizeFrame(rgba, width * height);
+      // Graphic control extension: frame delay in hundredths of a second
+      output.writeBytes([0x21, 0xf9, 0x04, 0x04]);
+      output.writeUint16(delay);
+      output.writeBytes([0x00, 0x00]);
+      // Image descriptor with a 256-entry local colour table
+      output.writeByte(0x2c);
+      output.writeUint16(0);
+      output.writeUint16(0);
+      output.writeUint16(width);
+      output.writeUint16(height);
+      output.writeByte(0x87);
+      output.writeBytes(palette);
+      output.writeByte(GIF_MIN_CODE_SIZE);
+      const compressed = lzwEncode(indexes, GIF_MIN_CODE_SIZE);
+      for (let offset = 0; offset < compressed.length; offset += 255) {
+        const block = compressed.subarray(offset, offset + 255);
+        output.writeByte(block.length);
+        output.writeBytes(block);
+      }
+      output.writeByte(0x00);
+    },
+    finish: () => {
+      output.writeByte(0x3b);
+      return output.toBytes();
+    },
+  };
+}
+
+// =============================================================================
+// ZIP ARCHIVE
+// =============================================================================
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/** Zip archive of stored entries, all dated `date` */
+export function createZip(entries: ZipEntry[], date: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const output = new ByteWriter();
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const dosDate = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const central: Array<{ name: Uint8Array; crc: number; size: number; offset: number }> = [];
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    central.push({ name, crc, size: entry.data.length, offset: output.length });
+    output.writeUint32(0x04034b50);
+    // Version 2.0; UTF-8 names; stored
+    output.writeUint16(20);
+    output.writeUint16(0x0800);
+    output.writeUint16(0);
+    output.writeUint16(dosTime);
+    output.writeUint16(dosDate);
+    output.writeUint32(crc);
+    output.writeUint32(entry.data.length);
+    output.writeUint32(entry.data.length);
+    output.writeUint16(name.length);
+    output.writeUint16(0);
+    output.writeBytes(name);
+    output.writeBytes(entry.data);
+  });
+
+  const directoryOffset = output.length;
+  central.forEach(({ name, crc, size, offset }) => {
+    output.writeUint32(0x02014b50);
+    output.writeUint16(20);
+    output.writeUint16(20);
+    output.writeUint16(0x0800);
+    output.writeUint16(0);
+    output.writeUint16(dosTime);
+    output.writeUint16(dosDate);
+    output.writeUint32(crc);
+    output.writeUint32(size);
+    output.writeUint32(size);
+    output.writeUint16(name.length);
+    // Extra field, comment, disk number, internal and external attributes
+    output.writeUint16(0);
+    output.writeUint16(0);
+    output.writeUint16(0);
+    output.writeUint16(0);
+    output.writeUint32(0);
+    output.writeUint32(offset);
+    output.writeBytes(name);
+  });
+  const directorySize = output.length - directoryOffset;
+
+  output.writeUint32(0x06054b50);
+  output.writeUint16(0);
+  output.writeUint16(0);
+  output.writeUint16(central.length);
+  output.writeUint16(central.length);
+  output.writeUint32(directorySize);
+  output.writeUint32(directoryOffset);
+  output.writeUint16(0);
+  return output.toBytes();
+}
+
+/** CRC-32 (IEEE 802.3), as used by zip and PNG */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Numbered frame file name that sorts in order, e.g. "spot-map-frame-007.png" */
+export function frameFileName(prefix: string, index: number, count: number, extension = 'png'): string {
+  const digits = Math.max(3, String(count).length);
+  return `${prefix}-${String(index + 1).padStart(digits, '0')}.${extension}`;
+}
+
+// =============================================================================
+// Module-private helpers
+// =============================================================================
+
+const GIF_MIN_CODE_SIZE = 8;
+const GIF_MAX_CODE = 4096;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** Growable little-endian byte buffer */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeByte(value: number) {
+    this.reserve(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeUint16(value: number) {
+    this.writeByte(value);
+    this.writeByte(value >>> 8);
+  }
+
+  writeUint32(value: number) {
+    this.writeUint16(value & 0xffff);
+    this.writeUint16(value >>> 16);
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  writeString(text: string) {
+    for (let i = 0; i < text.length; i++) this.writeByte(text.charCodeAt(i));
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/** 256-colour palette (768 bytes, unused entries black) and a palette index per pixel */
+function quantizeFrame(rgba: Uint8Array | Uint8ClampedArray, pixelCount: number) {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  const keys = new Uint16Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    keys[i] = key;
+    counts[key]++;
+    sums[key * 3] += r;
+    sums[key * 3 + 1] += g;
+    sums[key * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    if (counts[key] > 0) used.push(key);
+  }
+  used.sort((a, b) => counts[b] - counts[a] || a - b);
+  const chosen = used.slice(0, 256);
+  const palette = new Uint8Array(768);
+  chosen.forEach((key, index) => {
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(sums[key * 3 + channel] / counts[key]);
+    }
+  });
+
+  // Nearest palette entry for each bucket that occurs, computed once per bucket
+  const lookup = new Int16Array(32768).fill(-1);
+  chosen.forEach((key, index) => {
+    lookup[key] = index;
+  });
+  const indexes = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const key = keys[i];
+    if (lookup[key] < 0) {
+      const r = sums[key * 3] / counts[key];
+      const g = sums[key * 3 + 1] / counts[key];
+      const b = sums[key * 3 + 2] / counts[key];
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let p = 0; p < chosen.length; p++) {
+        const dr = palette[p * 3] - r;
+        const dg = palette[p * 3 + 1] - g;
+        const db = palette[p * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = p;
+        }
+      }
+      lookup[key] = best;
+    }
+    indexes[i] = lookup[key];
+  }
+  return { palette, indexes };
+}
+
+/**
+ * GIF-flavoured LZW: codes start one bit wider than the minimum code size and
+ * grow as the table fills; a clear code restarts the table at 4096 entries.
+ */
+function lzwEncode(indexes: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output = new ByteWriter();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.writeByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indexes.length === 0) {
+    emit(endCode);
+  } else {
+    let current = indexes[0];
+    for (let i = 1; i < indexes.length; i++) {
+      const next = indexes[i];
+      const key = (current << 8) | next;
+      const existing = table.get(key);
+      if (existing !== undefined) {
+        current = existing;
+        continue;
+      }
+      emit(current);
+      if (nextCode === GIF_MAX_CODE) {
+        emit(clearCode);
+        table = new Map();
+        nextCode = endCode + 1;
+        codeSize = minCodeSize + 1;
+      } else {
+        // Widen codes when the new entry no longer fits; the decoder,
+        // one entry behind, widens on reading the next code
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      current = next;
+    }
+    emit(current);
+    emit(endCode);
+  }
+  if (bitCount > 0) output.writeByte(bitBuffer & 0xff);
+  return output.toBytes();
+}
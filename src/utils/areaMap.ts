@@ -1,6 +1,8 @@
 import type { CaseRecord, DataColumn, Dataset } from '../types/analysis';
+import type { StandardizationResult, StandardizedGroup } from './standardization';
 
-export type AreaMetric = 'count' | 'rate';
+/** 'adjusted-rate' and 'smr' need age-stratified denominators (see standardization.ts) */
+export type AreaMetric = 'count' | 'rate' | 'adjusted-rate' | 'smr';
 export type ClassificationMethod = 'equal' | 'quantile' | 'natural' | 'manual';
 
 export interface GeoJsonFeature {
@@ -21,6 +23,8 @@ export interface JoinedArea {
   count: number;
   denominator: number | null;
   rate: number | null;
+  /** Direct and indirect age standardization for this area, when computed */
+  standardized: StandardizedGroup | null;
   value: number | null;
   feature: GeoJsonFeature;
 }
@@ -52,6 +56,8 @@ export interface BuildAreaJoinOptions {
   denominatorKey?: string;
   denominatorValue?: string;
   rateMultiplier?: number;
+  /** Age-standardized results by area (groups keyed by normalizeAreaKey) */
+  standardization?: StandardizationResult | null;
 }
 
 export interface JoinReportRow extends CaseRecord {
@@ -61,6 +67,8 @@ export interface JoinReportRow extends CaseRecord {
   data_count: number;
   denominator: number | null;
   rate: number | null;
+  adjusted_rate: number | null;
+  smr: number | null;
   issue: string;
 }
 
@@ -71,6 +79,8 @@ export const joinReportColumns: DataColumn[] = [
   { key: 'data_count', label: 'Data Count', type: 'number' },
   { key: 'denominator', label: 'Denominator', type: 'number' },
   { key: 'rate', label: 'Rate', type: 'number' },
+  { key: 'adjusted_rate', label: 'Age-Adjusted Rate', type: 'number' },
+  { key: 'smr', label: 'SMR', type: 'number' },
   { key: 'issue', label: 'Issue', type: 'text' },
 ];
 
@@ -124,6 +134,10 @@ export function suggestBoundaryKey(keys: string[]): string {
   return match ?? keys[0] ?? '';
 }
 
+export function isRateMetric(metric: AreaMetric): boolean {
+  return metric !== 'count';
+}
+
 export function buildAreaJoin(options: BuildAreaJoinOptions): AreaJoinResult {
   const {
     records,
@@ -135,7 +149,10 @@ export function buildAreaJoin(options: BuildAreaJoinOptions): AreaJoinResult {
     denominatorKey,
     denominatorValue,
     rateMultiplier = 100000,
+    standardization,
   } = options;
+  const rateMetric = isRateMetric(metric);
+  const standardizedByKey = new Map(standardization?.groups.map(group => [group.key, group]) ?? []);
 
   const dataCounts = new Map<string, { label: string; count: number }>();
   records.forEach(record => {
@@ -183,9 +200,16 @@ export function buildAreaJoin(options: BuildAreaJoinOptions): AreaJoinResult {
 
     const count = dataCounts.get(key)?.count ?? 0;
     const denominator = denominatorValues.get(key)?.value ?? null;
-    const rate = metric === 'rate' && denominator && denominator > 0
+    const rate = rateMetric && denominator && denominator > 0
       ? (count / denominator) * rateMultiplier
       : null;
+    const standardized = standardizedByKey.get(key) ?? null;
+    const finiteOrNull = (n: number | undefined) => (n !== undefined && Number.isFinite(n) ? n : null);
+
+    let value: number | null = count;
+    if (metric === 'rate') value = rate;
+    else if (metric === 'adjusted-rate') value = finiteOrNull(standardized?.direct.adjustedRate);
+    else if (metric === 'smr') value = finiteOrNull(standardized?.indirect.smr);
 
     return {
       key,
@@ -193,7 +217,8 @@ export function buildAreaJoin(options: BuildAreaJoinOptions): AreaJoinResult {
       count,
       denominator,
       rate,
-      value: metric === 'rate' ? rate : count,
+      standardized,
+      value,
       feature,
     };
   });
@@ -215,11 +240,12 @@ export function buildAreaJoin(options: BuildAreaJoinOptions): AreaJoinResult {
     .filter(([, count]) => count > 1)
     .map(([key]) => key)
     .sort((a, b) => a.localeCompare(b));
+  // Age-stratified denominators have one row per area and age group
   const duplicateDenominatorKeys = Array.from(denominatorRawCounts.entries())
-    .filter(([, count]) => count > 1)
+    .filter(([, count]) => count > 1 && (metric === 'count' || metric === 'rate'))
     .map(([key]) => key)
     .sort((a, b) => a.localeCompare(b));
-  const missingDenominatorKeys = metric === 'rate'
+  const missingDenominatorKeys = rateMetric
     ? areas
         .filter(area => area.count > 0 && (!area.denominator || area.denominator <= 0))
         .map(area => area.label)
@@ -259,6 +285,10 @@ export function buildJoinReport(result: AreaJoinResult): JoinReportRow[] {
       data_count: area.count,
       denominator: area.denominator,
       rate: area.rate,
+      adjusted_rate: area.standardized && Number.isFinite(area.standardized.direct.adjustedRate)
+        ? area.standardized.direct.adjustedRate
+        : null,
+      smr: area.standardized && Number.isFinite(area.standardized.indirect.smr) ? area.standardized.indirect.smr : null,
       issue: issues.join('; '),
     };
   });
@@ -272,6 +302,8 @@ export function buildJoinReport(result: AreaJoinResult): JoinReportRow[] {
       data_count: 0,
       denominator: null,
       rate: null,
+      adjusted_rate: null,
+      smr: null,
       issue: 'Observation area did not match any boundary feature',
     });
   });
@@ -285,6 +317,8 @@ export function buildJoinReport(result: AreaJoinResult): JoinReportRow[] {
       data_count: 0,
       denominator: null,
       rate: null,
+      adjusted_rate: null,
+      smr: null,
       issue: 'Denominator area did not match any boundary feature',
     });
   });
@@ -34,3 +34,11 @@ export const SECONDARY_COLOR = '#E57A3A';
 export const INCREASE_COLOR = '#2E8B57'; // Green for positive slopes
 export const DECREASE_COLOR = '#C44E52'; // Red for negative slopes
 export const NEUTRAL_COLOR = '#8C8C8C'; // Gray for no change
+
+// Spatial scan clusters: the most likely cluster, then secondary clusters
+export const CLUSTER_COLOR = '#C44E52';
+export const SECONDARY_CLUSTER_COLOR = '#E57A3A';
+
+// Suspected point sources on maps, and the distance buffers drawn around them
+export const SOURCE_COLOR = '#6B21A8';
+export const SOURCE_BUFFER_COLOR = '#7C3AED';
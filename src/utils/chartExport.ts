@@ -174,6 +174,7 @@ export function getDefaultDimensions(chartType: string, containerWidth?: number)
     paired: { width: 800, height: 500, margin: { top: 50, right: 60, bottom: 60, left: 120 } },
     dumbbell: { width: 800, height: 500, margin: { top: 60, right: 60, bottom: 60, left: 180 } },
     forest: { width: 800, height: 500, margin: { top: 60, right: 60, bottom: 60, left: 180 } },
+    endemic: { width: 800, height: 450, margin: { top: 50, right: 30, bottom: 80, left: 60 } },
   };
   const dims = defaults[chartType] || defaults.bar;
 
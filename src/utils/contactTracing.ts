@@ -0,0 +1,268 @@
+/**
+ * Contact Tracing
+ *
+ * Follow-up windows, the daily checklist and programme indicators for the
+ * contacts register, plus turning a contact who became ill into a case record.
+ *
+ * CONTENTS:
+ *
+ * 1. FOLLOW-UP WINDOW
+ *    - Contacts are followed from the day after last exposure through last
+ *      exposure plus the longest incubation period of the pathogen
+ *
+ * 2. DAILY CHECKLIST
+ *    - Each contact's status on a date (awaiting follow-up, under follow-up,
+ *      completed, became a case, lost to follow-up)
+ *    - Missed days: days in the window before the date without a visit where
+ *      the contact was seen
+ *    - Overdue: under follow-up and seen neither on the date nor the day
+ *      before, so the latest expected visit is missing (earlier missed days
+ *      alone do not make a contact overdue once they have been seen again)
+ *
+ * 3. INDICATORS
+ *    - Contacts per case, percent of cases with contacts listed
+ *    - Percent of contacts under follow-up seen on the date
+ *
+ * 4. CONVERSION TO A CASE
+ *    - New line-list record carrying the contact's name, the source case's ID
+ *      in the "infected by" column and the first symptomatic day as onset
+ *
+ * References:
+ * - World Health Organization. Contact tracing in the context of COVID-19:
+ *   interim guidance. Geneva: WHO; 2021.
+ * - World Health Organization. Implementation and management of contact tracing
+ *   for Ebola virus disease. Geneva: WHO; 2015.
+ */
+import type { CaseRecord, Contact, DataColumn, FollowUpStatus } from '../types/analysis';
+import { parseLocalDate } from './epiCurve';
+
+// =============================================================================
+// FOLLOW-UP WINDOW
+// =============================================================================
+
+export const FOLLOW_UP_STATUS_LABELS: Record<FollowUpStatus, string> = {
+  well: 'Seen, well',
+  symptomatic: 'Seen, symptomatic',
+  'not-reached': 'Not reached',
+};
+
+/** Local calendar date as YYYY-MM-DD */
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Shift a YYYY-MM-DD date by a number of days */
+export function addDays(isoDate: string, days: number): string {
+  const date = parseLocalDate(isoDate);
+  return toIsoDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
+export interface FollowUpWindow {
+  /** First and last day of follow-up (YYYY-MM-DD) */
+  start: string;
+  end: string;
+  /** Every day from start to end */
+  days: string[];
+}
+
+/**
+ * Follow-up from the day after last exposure through last exposure plus the
+ * maximum incubation period (rounded up to whole days, at least one day).
+ * Returns null when the exposure date is missing or invalid.
+ */
+export function followUpWindow(lastExposure: string, incubationMaxDays: number): FollowUpWindow | null {
+  if (!lastExposure || isNaN(parseLocalDate(lastExposure).getTime())) return null;
+  const length = Math.max(1, Math.ceil(incubationMaxDays));
+  const days = Array.from({ length }, (_, i) => addDays(lastExposure, i + 1));
+  return { start: days[0], end: days[days.length - 1], days };
+}
+
+// =============================================================================
+// DAILY CHECKLIST
+// =============================================================================
+
+export type ContactStatus = 'awaiting' | 'active' | 'completed' | 'became-case' | 'lost';
+
+export const CONTACT_STATUS_LABELS: Record<ContactStatus, string> = {
+  awaiting: 'Awaiting follow-up',
+  active: 'Under follow-up',
+  completed: 'Follow-up completed',
+  'became-case': 'Became a case',
+  lost: 'Lost to follow-up',
+};
+
+export interface ContactFollowUp {
+  contact: Contact;
+  window: FollowUpWindow | null;
+  status: ContactStatus;
+  /** Day number of the date within the window (1 = first day), null outside it */
+  day: number | null;
+  /** Result recorded for the date */
+  result: FollowUpStatus | null;
+  /** Window days before the date on which the contact was not seen */
+  missedDays: string[];
+  /** Under follow-up and not seen on the date or the window day before it */
+  overdue: boolean;
+  /** Most recent day the contact was seen (well or symptomatic) */
+  lastSeen: string | null;
+  /** First day the contact was seen with symptoms */
+  firstSymptomatic: string | null;
+}
+
+const wasSeen = (status: FollowUpStatus | undefined) => status === 'well' || status === 'symptomatic';
+
+export function contactFollowUp(contact: Contact, incubationMaxDays: number, date: string): ContactFollowUp {
+  const window = followUpWindow(contact.lastExposure, incubationMaxDays);
+  const seenDays = Object.keys(contact.followUp).filter(d => wasSeen(contact.followUp[d])).sort();
+  const firstSymptomatic = Object.keys(contact.followUp).filter(d => contact.followUp[d] === 'symptomatic').sort()[0] ?? null;
+
+  let status: ContactStatus;
+  if (contact.convertedRecordId) status = 'became-case';
+  else if (contact.lostToFollowUp) status = 'lost';
+  else if (!window || date < window.start) status = 'awaiting';
+  else if (date > window.end) status = 'completed';
+  else status = 'active';
+
+  const index = window ? window.days.indexOf(date) : -1;
+  const missedDays = window && status === 'active'
+    ? window.days.filter(d => d < date && !wasSeen(contact.followUp[d]))
+    : [];
+  // On the first window day there is no earlier visit to miss yet
+  const overdue = index > 0 && status === 'active'
+    && !wasSeen(contact.followUp[date]) && missedDays.includes(addDays(date, -1));
+  return {
+    contact,
+    window,
+    status,
+    day: index >= 0 ? index + 1 : null,
+    result: contact.followUp[date] ?? null,
+    missedDays,
+    overdue,
+    lastSeen: seenDays.filter(d => d <= date).pop() ?? null,
+    firstSymptomatic,
+  };
+}
+
+/**
+ * Contacts to visit on a date: everyone under follow-up, overdue contacts
+ * first, then most missed days first, then by name.
+ */
+export function dailyChecklist(contacts: Contact[], incubationMaxDays: number, date: string): ContactFollowUp[] {
+  return contacts
+    .map(contact => contactFollowUp(contact, incubationMaxDays, date))
+    .filter(entry => entry.status === 'active')
+    .sort((a, b) =>
+      Number(b.overdue) - Number(a.overdue)
+      || b.missedDays.length - a.missedDays.length
+      || a.contact.name.localeCompare(b.contact.name)
+    );
+}
+
+// =============================================================================
+// INDICATORS
+// =============================================================================
+
+export interface ContactTracingIndicators {
+  contacts: number;
+  /** Cases in the line list, and how many have at least one contact listed */
+  cases: number;
+  casesWithContacts: number;
+  /** Contacts listed per case in the line list */
+  contactsPerCase: number;
+  /** Contacts under follow-up on the date, and how many were seen that day */
+  underFollowUp: number;
+  followed: number;
+  /** followed / underFollowUp (NaN when nobody is under follow-up) */
+  percentFollowed: number;
+  overdue: number;
+  /** Contacts under follow-up with at least one missed day, overdue or not */
+  withMissedDays: number;
+  completed: number;
+  becameCases: number;
+  lost: number;
+}
+
+export function contactTracingIndicators(
+  contacts: Contact[],
+  caseRecordIds: string[],
+  incubationMaxDays: number,
+  date: string
+): ContactTracingIndicators {
+  const entries = contacts.map(contact => contactFollowUp(contact, incubationMaxDays, date));
+  const count = (status: ContactStatus) => entries.filter(entry => entry.status === status).length;
+  const active = entries.filter(entry => entry.status === 'active');
+  const followed = active.filter(entry => wasSeen(entry.result ?? undefined)).length;
+  const caseIds = new Set(caseRecordIds);
+  const casesWithContacts = new Set(contacts.map(c => c.caseRecordId).filter(id => caseIds.has(id))).size;
+
+  return {
+    contacts: contacts.length,
+    cases: caseIds.size,
+    casesWithContacts,
+    contactsPerCase: caseIds.size > 0 ? contacts.length / caseIds.size : NaN,
+    underFollowUp: active.length,
+    followed,
+    percentFollowed: active.length > 0 ? (followed / active.length) * 100 : NaN,
+    overdue: active.filter(entry => entry.overdue).length,
+    withMissedDays: active.filter(entry => entry.missedDays.length > 0).length,
+    completed: count('completed'),
+    becameCases: count('became-case'),
+    lost: count('lost'),
+  };
+}
+
+// =============================================================================
+// CONVERSION TO A CASE
+// =============================================================================
+
+export interface CaseRecordFields {
+  /** Case ID column ('' when cases are identified by record ID only) */
+  idField: string;
+  /** "Infected by" column that receives the source case's ID */
+  sourceField: string;
+  nameField: string;
+  onsetField: string;
+}
+
+/**
+ * Next ID in the line list's numbering: the highest trailing number among
+ * existing IDs plus one, keeping its prefix and zero padding ("C-009" -> "C-010").
+ */
+export function nextCaseId(existingIds: string[]): string {
+  let best: { prefix: string; number: number; width: number } | null = null;
+  for (const id of existingIds) {
+    const match = /^(.*?)(\d+)$/.exec(id.trim());
+    if (!match) continue;
+    const number = parseInt(match[2], 10);
+    if (!best || number > best.number) best = { prefix: match[1], number, width: match[2].length };
+  }
+  if (!best) return String(existingIds.length + 1);
+  const { prefix, number, width } = best;
+  return `${prefix}${String(number + 1).padStart(width, '0')}`;
+}
+
+/**
+ * Line-list record for a contact who became a case. Every dataset column is
+ * present (empty unless mapped) so the record lines up with the others.
+ */
+export function contactToCaseRecord(
+  contact: Contact,
+  columns: DataColumn[],
+  fields: CaseRecordFields,
+  sourceCase: CaseRecord | null,
+  records: CaseRecord[]
+): Omit<CaseRecord, 'id'> {
+  const record: Omit<CaseRecord, 'id'> = {};
+  columns.forEach(col => {
+    record[col.key] = '';
+  });
+  const { idField, sourceField, nameField, onsetField } = fields;
+  if (idField) record[idField] = nextCaseId(records.map(r => String(r[idField] ?? '')));
+  if (sourceField && sourceCase) record[sourceField] = idField ? String(sourceCase[idField] ?? '') : sourceCase.id;
+  if (nameField) record[nameField] = contact.name;
+  if (onsetField) {
+    const firstSymptomatic = Object.keys(contact.followUp).filter(d => contact.followUp[d] === 'symptomatic').sort()[0];
+    if (firstSymptomatic) record[onsetField] = firstSymptomatic;
+  }
+  return record;
+}
@@ -0,0 +1,186 @@
+/**
+ * Endemic Channel
+ *
+ * Builds an endemic channel (epidemic threshold chart) from several historical
+ * years of weekly or monthly counts, and places the current year's counts in
+ * its success, safety, alert and epidemic zones.
+ *
+ * CONTENTS:
+ *
+ * 1. SEASONAL COUNTS
+ *    - Counts (or sums of a numeric column) per year and epidemiological week
+ *      (CDC or ISO, as in the epi curve's weekly bins) or calendar month
+ *    - Periods outside the observed date range are missing, not zero
+ *
+ * 2. CHANNEL
+ *    - Quartile method: Q1, median and Q3 of the historical years per period
+ *    - Bortman method: geometric mean and mean ± 2 SD of log(count + 1),
+ *      transformed back to counts
+ *
+ * 3. ZONES
+ *    - Success (below the lower limit), safety (up to the central line),
+ *      alert (up to the upper limit) and epidemic (above it)
+ *
+ * References:
+ * - Bortman M. Elaboración de corredores o canales endémicos mediante
+ *   planillas de cálculo. Rev Panam Salud Publica 1999;5:1-8.
+ * - PAHO. Módulos de Principios de Epidemiología para el Control de
+ *   Enfermedades (MOPECE), Unit 4.
+ */
+import type { CaseRecord } from '../types/analysis';
+import { getEpiWeek, parseLocalDate } from './epiCurve';
+import { calculateDescriptiveStats } from './statistics';
+
+// =============================================================================
+// SEASONAL COUNTS
+// =============================================================================
+
+export type EndemicPeriod = 'weekly-cdc' | 'weekly-iso' | 'monthly';
+
+export const ENDEMIC_PERIOD_LABELS: Record<EndemicPeriod, string> = {
+  'weekly-cdc': 'Epi week (CDC, Sunday start)',
+  'weekly-iso': 'ISO week (Monday start)',
+  monthly: 'Month',
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Periods in a year: weeks 1-53 or months 1-12 */
+export function periodsPerYear(period: EndemicPeriod): number {
+  return period === 'monthly' ? 12 : 53;
+}
+
+/** Axis label for a zero-based period index */
+export function periodLabel(period: EndemicPeriod, index: number): string {
+  return period === 'monthly' ? MONTH_LABELS[index] : `W${index + 1}`;
+}
+
+/** Year and zero-based period index of a date */
+export function periodOf(date: Date, period: EndemicPeriod): { year: number; index: number } {
+  if (period === 'monthly') return { year: date.getFullYear(), index: date.getMonth() };
+  const { year, week } = getEpiWeek(date, period);
+  return { year, index: week - 1 };
+}
+
+export interface SeasonalCountOptions {
+  dateField: string;
+  period: EndemicPeriod;
+  /** Sum this numeric column instead of counting records (aggregated reports) */
+  valueField?: string;
+}
+
+/**
+ * Counts per year and period. Each year's array has one entry per period;
+ * null marks periods before the first or after the last dated record (and
+ * week 53 in years that have only 52 weeks).
+ */
+export function buildSeasonalCounts(records: CaseRecord[], options: SeasonalCountOptions): Map<number, Array<number | null>> {
+  const { dateField, period, valueField } = options;
+  const length = periodsPerYear(period);
+  const dated: Array<{ year: number; index: number; value: number }> = [];
+
+  records.forEach(record => {
+    const raw = record[dateField];
+    if (raw === null || raw === undefined || String(raw).trim() === '') return;
+    const date = parseLocalDate(String(raw));
+    if (isNaN(date.getTime())) return;
+    let value = 1;
+    if (valueField) {
+      value = Number(record[valueField]);
+      if (record[valueField] === null || record[valueField] === '' || !isFinite(value)) return;
+    }
+    dated.push({ ...periodOf(date, period), value });
+  });
+  if (dated.length === 0) return new Map();
+
+  const key = (p: { year: number; index: number }) => p.year * 100 + p.index;
+  const first = dated.reduce((a, b) => (key(b) < key(a) ? b : a));
+  const last = dated.reduce((a, b) => (key(b) > key(a) ? b : a));
+
+  const counts = new Map<number, Array<number | null>>();
+  for (let year = first.year; year <= last.year; year++) {
+    const weeksInYear = period === 'monthly' ? 12 : getEpiWeek(new Date(year, 11, 28), period).week;
+    counts.set(year, Array.from({ length }, (_, index) => {
+      if (index >= weeksInYear) return null;
+      const k = year * 100 + index;
+      return k < key(first) || k > key(last) ? null : 0;
+    }));
+  }
+  dated.forEach(({ year, index, value }) => {
+    const row = counts.get(year) as Array<number | null>;
+    row[index] = (row[index] ?? 0) + value;
+  });
+  return counts;
+}
+
+// =============================================================================
+// CHANNEL
+// =============================================================================
+
+export type EndemicMethod = 'quartile' | 'bortman';
+
+export const ENDEMIC_METHOD_LABELS: Record<EndemicMethod, string> = {
+  quartile: 'Quartiles (Q1, median, Q3)',
+  bortman: 'Log mean ± 2 SD (Bortman)',
+};
+
+export interface ChannelPoint {
+  lower: number;
+  /** Median (quartile method) or geometric mean (Bortman) */
+  center: number;
+  upper: number;
+  /** Historical years with data for this period */
+  years: number;
+}
+
+/** Fewest historical values needed for a period's channel */
+export const MIN_CHANNEL_YEARS = 3;
+
+/**
+ * Channel limits for each period from the historical years' counts. Entries
+ * are null where fewer than three years have data.
+ */
+export function computeEndemicChannel(historical: Array<Array<number | null>>, method: EndemicMethod): Array<ChannelPoint | null> {
+  const length = Math.max(0, ...historical.map(row => row.length));
+  return Array.from({ length }, (_, index) => {
+    const values = historical
+      .map(row => row[index])
+      .filter((v): v is number => v !== null && v !== undefined && isFinite(v));
+    if (values.length < MIN_CHANNEL_YEARS) return null;
+
+    if (method === 'quartile') {
+      const stats = calculateDescriptiveStats(values);
+      return { lower: stats.q1, center: stats.median, upper: stats.q3, years: values.length };
+    }
+
+    // Bortman: log(x + 1) handles zero counts; back-transform with exp(·) - 1
+    const logs = calculateDescriptiveStats(values.map(v => Math.log(v + 1)));
+    const back = (x: number) => Math.max(0, Math.exp(x) - 1);
+    return {
+      lower: back(logs.mean - 2 * logs.stdDev),
+      center: back(logs.mean),
+      upper: back(logs.mean + 2 * logs.stdDev),
+      years: values.length,
+    };
+  });
+}
+
+// =============================================================================
+// ZONES
+// =============================================================================
+
+export type EndemicZone = 'success' | 'safety' | 'alert' | 'epidemic';
+
+export const ENDEMIC_ZONE_LABELS: Record<EndemicZone, string> = {
+  success: 'Success',
+  safety: 'Safety',
+  alert: 'Alert',
+  epidemic: 'Epidemic',
+};
+
+export function classifyZone(value: number, channel: ChannelPoint): EndemicZone {
+  if (value > channel.upper) return 'epidemic';
+  if (value > channel.center) return 'alert';
+  if (value >= channel.lower) return 'safety';
+  return 'success';
+}
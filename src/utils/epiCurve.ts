@@ -151,6 +151,18 @@ export const PATHOGEN_INCUBATION: Record<string, { min: number; max: number; typ
   'Mumps': { min: 12, max: 25, typical: 17 },
 };
 
+// Serial interval (symptom onset in infector to onset in infectee), mean and SD in days,
+// used for time-varying reproduction number (Rt) estimates
+export const PATHOGEN_SERIAL_INTERVAL: Record<string, { mean: number; sd: number }> = {
+  'Influenza': { mean: 2.6, sd: 1.5 },
+  'COVID-19': { mean: 4.7, sd: 2.9 },
+  'Norovirus': { mean: 3.6, sd: 2.0 },
+  'SARS': { mean: 8.4, sd: 3.8 },
+  'Measles': { mean: 14.9, sd: 3.9 },
+  'Ebola': { mean: 15.3, sd: 9.3 },
+  'Smallpox': { mean: 22.4, sd: 6.1 },
+};
+
 // Internal alias for parseLocalDate
 const parseDate = parseLocalDate;
 
@@ -158,7 +170,7 @@ const parseDate = parseLocalDate;
  * Parses a time string (e.g., "14:00", "2:30 PM") and returns hours and minutes.
  * Returns null if the time string is invalid or empty.
  */
-function parseTimeString(timeStr: string | null | undefined): { hours: number; minutes: number } | null {
+export function parseTimeString(timeStr: string | null | undefined): { hours: number; minutes: number } | null {
   if (!timeStr || typeof timeStr !== 'string') return null;
 
   const trimmed = timeStr.trim();
@@ -384,6 +396,23 @@ function getBinStart(date: Date, binSize: BinSize): Date {
   return d;
 }
 
+/**
+ * Epidemiological week of a date: CDC/MMWR weeks start on Sunday, ISO weeks
+ * on Monday. Week 1 is the first week with at least four days in the year
+ * (the one containing January 4), so early-January dates can fall in week 52
+ * or 53 of the previous year.
+ */
+export function getEpiWeek(date: Date, binSize: 'weekly-cdc' | 'weekly-iso'): { year: number; week: number } {
+  const start = getBinStart(date, binSize);
+  const midweek = new Date(start);
+  midweek.setDate(midweek.getDate() + 3);
+  const year = midweek.getFullYear();
+  const firstWeekStart = getBinStart(new Date(year, 0, 4), binSize);
+  // Rounded so a daylight-saving change inside the span doesn't shift the week
+  const week = Math.round((start.getTime() - firstWeekStart.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return { year, week };
+}
+
 function getBinEnd(date: Date, binSize: BinSize): Date {
   const start = getBinStart(date, binSize);
   return getNextBinStart(start, binSize);
@@ -0,0 +1,199 @@
+/**
+ * Epi Curve Trends
+ *
+ * Series derived from the epi curve's bin counts: the running total, moving
+ * averages, a linear or log count axis, and the exponential growth rate with
+ * its doubling (or halving) time.
+ *
+ * CONTENTS:
+ *
+ * 1. DERIVED SERIES
+ *    - Cumulative case counts
+ *    - Centered or trailing moving averages over a number of bins
+ *
+ * 2. COUNT AXIS
+ *    - Linear axis rounded up to a multiple of 5 (as on the epi curve)
+ *    - Log axis drawn as log10(count + 1), so bins with zero cases stay on
+ *      the axis and stacked strata keep their order
+ *
+ * 3. GROWTH RATE AND DOUBLING TIME
+ *    - Log-linear (Poisson) regression of bin counts on time over a window
+ *    - Standard errors inflated by the Pearson dispersion when counts are
+ *      overdispersed (quasi-Poisson)
+ *    - Doubling time ln(2)/r while growing, halving time while declining
+ *
+ * References:
+ * - Vynnycky E, White RG. An Introduction to Infectious Disease Modelling.
+ *   Oxford University Press; 2010. Chapter 4.
+ * - Wallinga J, Lipsitch M. How generation intervals shape the relationship
+ *   between growth rates and reproductive numbers. Proc R Soc B 2007;274:599-604.
+ */
+import { fitCountRegression, INTERCEPT_KEY } from './regression';
+import type { DesignMatrix } from './regression';
+
+// =============================================================================
+// DERIVED SERIES
+// =============================================================================
+
+/** Running total of the bin counts */
+export function cumulativeCounts(counts: number[]): number[] {
+  let total = 0;
+  return counts.map(count => (total += count));
+}
+
+export type MovingAverageAlignment = 'centered' | 'trailing';
+
+export const MOVING_AVERAGE_ALIGNMENT_LABELS: Record<MovingAverageAlignment, string> = {
+  centered: 'Centered',
+  trailing: 'Trailing',
+};
+
+/**
+ * Mean of `window` bins around (centered) or ending at (trailing) each bin.
+ * Bins whose window runs past either end of the series are null. Even
+ * centered windows lean one bin toward the past.
+ */
+export function movingAverage(counts: number[], window: number, alignment: MovingAverageAlignment): Array<number | null> {
+  const size = Math.max(1, Math.floor(window));
+  const after = alignment === 'centered' ? Math.floor((size - 1) / 2) : 0;
+  const before = size - 1 - after;
+  return counts.map((_, i) => {
+    if (i - before < 0 || i + after >= counts.length) return null;
+    let sum = 0;
+    for (let j = i - before; j <= i + after; j++) sum += counts[j];
+    return sum / size;
+  });
+}
+
+// =============================================================================
+// COUNT AXIS
+// =============================================================================
+
+export interface CountScale {
+  log: boolean;
+  /** Top of the axis */
+  max: number;
+  /** Labelled values with their height as a fraction of the axis (0 = bottom) */
+  ticks: Array<{ value: number; fraction: number }>;
+}
+
+/** Height of a count as a fraction of the axis, clamped to [0, 1] */
+export function scaleFraction(value: number, scale: CountScale): number {
+  if (!(value > 0) || !(scale.max > 0)) return 0;
+  const fraction = scale.log ? Math.log10(value + 1) / Math.log10(scale.max + 1) : value / scale.max;
+  return Math.min(1, fraction);
+}
+
+/**
+ * Count axis for a peak value. Linear axes end at least 1 above the peak,
+ * rounded up to a multiple of 5, with six evenly spaced ticks. Log axes end at
+ * the next power of ten with ticks at 0 and each power of ten (plus 2 and 5
+ * times each when the axis spans two decades or fewer).
+ */
+export function countScale(peak: number, log: boolean): CountScale {
+  if (!log) {
+    const max = Math.max(peak + 1, Math.ceil((peak + 1) / 5) * 5);
+    return {
+      log,
+      max,
+      ticks: Array.from({ length: 6 }, (_, i) => ({ value: Math.round((max * i) / 5), fraction: i / 5 })),
+    };
+  }
+
+  const decades = Math.max(1, Math.ceil(Math.log10(Math.max(peak, 1) + 1e-9)));
+  const max = 10 ** decades;
+  const scale: CountScale = { log, max, ticks: [] };
+  const values = [0];
+  for (let d = 0; d <= decades; d++) {
+    const power = 10 ** d;
+    values.push(power);
+    if (decades <= 2 && d < decades) values.push(2 * power, 5 * power);
+  }
+  scale.ticks = values.map(value => ({ value, fraction: scaleFraction(value, scale) }));
+  return scale;
+}
+
+// =============================================================================
+// GROWTH RATE AND DOUBLING TIME
+// =============================================================================
+
+/** Fewest bins a growth rate is fitted over */
+export const MIN_GROWTH_BINS = 3;
+
+export interface GrowthEstimate {
+  /** First and last bin indexes of the fitted window */
+  startIndex: number;
+  endIndex: number;
+  /** Cases in the window */
+  cases: number;
+  /** Exponential growth rate per day, with its 95% CI */
+  rate: number;
+  rateCI: [number, number];
+  /** Days for counts to double (growing) or halve (declining), with its 95% CI */
+  doublingTime: number;
+  doublingTimeCI: [number, number];
+  direction: 'growth' | 'decline';
+  /** Pearson chi-square / df of the Poisson fit; CIs are widened when above 1 */
+  dispersion: number;
+  /** Expected count for each bin in the window */
+  fitted: number[];
+}
+
+/**
+ * Fit log E[count] = a + r·t over bins `start`..`end` (inclusive; defaults to
+ * the whole series) and convert the per-bin slope to a daily growth rate.
+ * Returns null for windows shorter than three bins or without cases.
+ */
+export function estimateGrowthRate(
+  counts: number[],
+  binDays: number,
+  window: { start?: number; end?: number } = {}
+): GrowthEstimate | null {
+  const startIndex = Math.max(0, window.start ?? 0);
+  const endIndex = Math.min(counts.length - 1, window.end ?? counts.length - 1);
+  const y = counts.slice(startIndex, endIndex + 1);
+  if (y.length < MIN_GROWTH_BINS || !(binDays > 0)) return null;
+  const cases = y.reduce((sum, c) => sum + c, 0);
+  if (cases === 0) return null;
+
+  const design: DesignMatrix = {
+    X: y.map((_, t) => [1, t]),
+    y,
+    columns: [
+      { termKey: INTERCEPT_KEY, termLabel: 'Intercept', level: null, referenceLevel: null },
+      { termKey: 'time', termLabel: 'Time (bins)', level: null, referenceLevel: null },
+    ],
+    recordIds: y.map((_, t) => String(startIndex + t)),
+    excludedCount: 0,
+  };
+  const fit = fitCountRegression(design, 'poisson');
+  const slope = fit.coefficients[0];
+  if (!fit.intercept || !slope || !isFinite(slope.standardError)) return null;
+
+  // Quasi-Poisson: scale the standard error by sqrt(dispersion) when counts vary more than Poisson
+  const dispersion = fit.dispersion.pearsonRatio;
+  const se = slope.standardError * Math.sqrt(isFinite(dispersion) ? Math.max(1, dispersion) : 1);
+  const rate = slope.estimate / binDays;
+  const rateCI: [number, number] = [(slope.estimate - 1.96 * se) / binDays, (slope.estimate + 1.96 * se) / binDays];
+
+  const direction = rate >= 0 ? 'growth' : 'decline';
+  // Time to double (or halve) from the rate nearest zero and furthest from zero;
+  // a CI that includes zero growth leaves the upper limit unbounded
+  const [near, far] = direction === 'growth' ? [rateCI[0], rateCI[1]] : [-rateCI[1], -rateCI[0]];
+  const doublingTime = Math.abs(rate) > 0 ? Math.LN2 / Math.abs(rate) : Infinity;
+  const doublingTimeCI: [number, number] = [far > 0 ? Math.LN2 / far : Infinity, near > 0 ? Math.LN2 / near : Infinity];
+
+  const intercept = fit.intercept.estimate;
+  return {
+    startIndex,
+    endIndex,
+    cases,
+    rate,
+    rateCI,
+    doublingTime,
+    doublingTimeCI,
+    direction,
+    dispersion,
+    fitted: y.map((_, t) => Math.exp(intercept + slope.estimate * t)),
+  };
+}
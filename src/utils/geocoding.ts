@@ -0,0 +1,389 @@
+/**
+ * Offline Gazetteer Geocoding
+ *
+ * Coordinates for line lists that record a village, facility or address as
+ * text, looked up in a gazetteer the user imports (a CSV of named points or a
+ * GeoJSON file of Point features). Nothing is sent to an online geocoder.
+ *
+ * CONTENTS:
+ *
+ * 1. GAZETTEER
+ *    - Rows from CSV records or GeoJSON Point features; name, latitude,
+ *      longitude and an optional context field (district, region) chosen by
+ *      the user
+ *    - Rows without a name or valid coordinates are skipped; repeated rows for
+ *      the same name and place are kept once
+ *
+ * 2. MATCHING
+ *    - Each distinct text value is matched once: normalized exact match first,
+ *      then Jaro-Winkler similarity against the gazetteer names that can
+ *      reach the candidate floor, judged from the letters the two names share
+ *    - One value at a time through a matcher, so long runs can yield to the
+ *      page between values
+ *    - Status per value: exact, fuzzy (best score at or above the threshold),
+ *      ambiguous (several places share the name, or the two best fuzzy
+ *      matches are within the ambiguity margin) or unmatched
+ *    - Candidate lists for manual resolution, and a free-text gazetteer search
+ *
+ * 3. WRITING COORDINATES
+ *    - Latitude and longitude columns added or updated for geocoded records;
+ *      other records keep their existing values
+ *
+ * References:
+ * - Winkler WE. String comparator metrics and enhanced decision rules in the
+ *   Fellegi-Sunter model of record linkage. Proc Section on Survey Research
+ *   Methods, American Statistical Association 1990:354-9.
+ * - Goldberg DW, Wilson JP, Knoblock CA. From text to geographic coordinates:
+ *   the current state of geocoding. URISA J 2007;19:33-46.
+ */
+
+import type { CaseRecord, DataColumn } from '../types/analysis';
+import { normalizeAreaKey } from './areaMap';
+import type { GeoJsonFeatureCollection } from './areaMap';
+import { jaroWinklerSimilarity, MAX_SIMILARITY_LENGTH } from './stringSimilarity';
+
+// =============================================================================
+// GAZETTEER
+// =============================================================================
+
+export interface GazetteerEntry {
+  id: string;
+  name: string;
+  /** Normalized name used for matching */
+  key: string;
+  lat: number;
+  lng: number;
+  /** Higher-level area shown to tell same-named places apart; may be empty */
+  context: string;
+}
+
+export interface GazetteerFields {
+  nameKey: string;
+  latKey: string;
+  lngKey: string;
+  contextKey?: string;
+}
+
+export interface Gazetteer {
+  entries: GazetteerEntry[];
+  /** Rows without a name or usable coordinates */
+  skipped: number;
+}
+
+/** Property keys added to GeoJSON rows for the Point coordinates */
+export const GEOJSON_LAT_KEY = '__latitude';
+export const GEOJSON_LNG_KEY = '__longitude';
+
+/**
+ * Flatten Point features into rows of their properties plus the point's
+ * latitude and longitude. Features with other geometries are left out.
+ */
+export function gazetteerRowsFromGeoJson(collection: GeoJsonFeatureCollection): Array<Record<string, unknown>> {
+  const rows: Array<Record<string, unknown>> = [];
+  collection.features.forEach(feature => {
+    const geometry = feature.geometry as { type?: unknown; coordinates?: unknown } | null | undefined;
+    if (!geometry || geometry.type !== 'Point' || !Array.isArray(geometry.coordinates)) return;
+    const [lng, lat] = geometry.coordinates as unknown[];
+    rows.push({ ...(feature.properties ?? {}), [GEOJSON_LAT_KEY]: lat, [GEOJSON_LNG_KEY]: lng });
+  });
+  return rows;
+}
+
+/** Guess the name, coordinate and context fields from their names */
+export function suggestGazetteerFields(fields: string[]): GazetteerFields {
+  const find = (pattern: RegExp, exclude: string[] = []) =>
+    fields.find(field => pattern.test(field) && !exclude.includes(field)) ?? '';
+  const latKey = fields.includes(GEOJSON_LAT_KEY) ? GEOJSON_LAT_KEY : find(/^(lat|latitude|y)$/i) || find(/lat/i);
+  const lngKey = fields.includes(GEOJSON_LNG_KEY)
+    ? GEOJSON_LNG_KEY
+    : find(/^(lng|lon|long|longitude|x)$/i) || find(/lng|lon/i);
+  const nameKey = find(/^(name|place|placename|village|facility|site)$/i) || find(/name/i, [latKey, lngKey]);
+  const contextKey = find(/district|county|region|province|admin|adm\d|state|ward/i, [nameKey, latKey, lngKey]);
+  return { nameKey, latKey, lngKey, contextKey: contextKey || undefined };
+}
+
+/** Gazetteer entries from imported rows */
+export function buildGazetteer(rows: Array<Record<string, unknown>>, fields: GazetteerFields): Gazetteer {
+  const entries: GazetteerEntry[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  rows.forEach((row, index) => {
+    const name = String(row[fields.nameKey] ?? '').trim();
+    const lat = toCoordinate(row[fields.latKey]);
+    const lng = toCoordinate(row[fields.lngKey]);
+    const key = normalizePlaceName(name);
+    if (!key || lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+      skipped++;
+      return;
+    }
+    const duplicateKey = `${key}|${lat.toFixed(5)}|${lng.toFixed(5)}`;
+    if (seen.has(duplicateKey)) return;
+    seen.add(duplicateKey);
+    const context = fields.contextKey ? String(row[fields.contextKey] ?? '').trim() : '';
+    entries.push({ id: String(index), name, key, lat, lng, context });
+  });
+
+  return { entries, skipped };
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+export type GeocodeStatus = 'exact' | 'fuzzy' | 'ambiguous' | 'unmatched';
+
+export interface GeocodeCandidate {
+  entry: GazetteerEntry;
+  /** Jaro-Winkler similarity of the normalized names (1 for an exact match) */
+  score: number;
+}
+
+export interface PlaceValue {
+  /** Text as it appears in the dataset (first spelling seen) */
+  value: string;
+  /** Normalized text shared by every record in the group */
+  key: string;
+  recordIds: string[];
+}
+
+export interface GeocodeMatch extends PlaceValue {
+  status: GeocodeStatus;
+  /** Best candidates, highest score first */
+  candidates: GeocodeCandidate[];
+  /** Automatic match for exact and fuzzy values; null otherwise */
+  match: GazetteerEntry | null;
+}
+
+export interface GeocodeOptions {
+  /** Lowest similarity accepted as a fuzzy match (default 0.9) */
+  threshold?: number;
+  /** Fuzzy matches this close to the best make the value ambiguous (default 0.02) */
+  ambiguityMargin?: number;
+  /** Candidates kept per value for review (default 5) */
+  maxCandidates?: number;
+  /** Lowest similarity listed as a candidate (default 0.7) */
+  candidateFloor?: number;
+}
+
+/** Lowercased, accents and punctuation removed, spaces collapsed */
+export function normalizePlaceName(value: unknown): string {
+  return normalizeAreaKey(value)
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Distinct values of a text column, grouped by normalized text, in the order
+ * they first appear. Records with a blank value are left out.
+ */
+export function groupPlaceValues(records: CaseRecord[], column: string): PlaceValue[] {
+  const groups = new Map<string, PlaceValue>();
+  records.forEach(record => {
+    const raw = record[column];
+    const key = normalizePlaceName(raw);
+    if (!key) return;
+    const group = groups.get(key);
+    if (group) group.recordIds.push(record.id);
+    else groups.set(key, { value: String(raw).trim(), key, recordIds: [record.id] });
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Matcher for one grouped value at a time, with the gazetteer indexed once.
+ * Lets a long run be split into chunks that yield to the page.
+ */
+export function createPlaceMatcher(
+  gazetteer: GazetteerEntry[],
+  options: GeocodeOptions = {}
+): (place: PlaceValue) => GeocodeMatch {
+  const { threshold = 0.9, ambiguityMargin = 0.02, maxCandidates = 5, candidateFloor = 0.7 } = options;
+  const floor = Math.min(candidateFloor, threshold);
+  const index = indexGazetteer(gazetteer);
+
+  return place => {
+    const exact = index.exact.get(place.key) ?? [];
+    if (exact.length > 0) {
+      return {
+        ...place,
+        status: exact.length === 1 ? 'exact' : 'ambiguous',
+        candidates: exact.map(entry => ({ entry, score: 1 })),
+        match: exact.length === 1 ? exact[0] : null,
+      };
+    }
+
+    const candidates = rankCandidates(place.key, index, floor, maxCandidates);
+    const best = candidates[0];
+    const second = candidates[1];
+    let status: GeocodeStatus = 'unmatched';
+    if (best && best.score >= threshold) {
+      status = second && second.score >= threshold && best.score - second.score <= ambiguityMargin ? 'ambiguous' : 'fuzzy';
+    }
+    return {
+      ...place,
+      status,
+      candidates,
+      match: status === 'fuzzy' ? best.entry : null,
+    };
+  };
+}
+
+/**
+ * Match each distinct value of a text column against the gazetteer. Records
+ * with a blank value are left out. Results keep the order in which values
+ * first appear.
+ */
+export function geocodeRecords(
+  records: CaseRecord[],
+  column: string,
+  gazetteer: GazetteerEntry[],
+  options: GeocodeOptions = {}
+): GeocodeMatch[] {
+  return groupPlaceValues(records, column).map(createPlaceMatcher(gazetteer, options));
+}
+
+/** Gazetteer entries most similar to a typed query, for manual resolution */
+export function searchGazetteer(query: string, gazetteer: GazetteerEntry[], limit = 8): GeocodeCandidate[] {
+  const key = normalizePlaceName(query);
+  if (!key) return [];
+  return rankCandidates(key, indexGazetteer(gazetteer), 0.6, limit);
+}
+
+// =============================================================================
+// WRITING COORDINATES
+// =============================================================================
+
+export interface CoordinateColumns {
+  latKey: string;
+  latLabel: string;
+  lngKey: string;
+  lngLabel: string;
+}
+
+export interface CoordinateUpdate {
+  columns: DataColumn[];
+  records: CaseRecord[];
+  /** Coordinate columns that did not exist before */
+  createdColumns: DataColumn[];
+  /** Records whose coordinates changed */
+  updatedCount: number;
+}
+
+/**
+ * Write geocoded coordinates into latitude and longitude columns, adding the
+ * columns when missing. Records without a location keep their values.
+ */
+export function applyCoordinates(
+  columns: DataColumn[],
+  records: CaseRecord[],
+  target: CoordinateColumns,
+  locations: Map<string, { lat: number; lng: number }>
+): CoordinateUpdate {
+  const createdColumns: DataColumn[] = [];
+  if (!columns.some(col => col.key === target.latKey)) {
+    createdColumns.push({ key: target.latKey, label: target.latLabel, type: 'number' });
+  }
+  if (!columns.some(col => col.key === target.lngKey)) {
+    createdColumns.push({ key: target.lngKey, label: target.lngLabel, type: 'number' });
+  }
+  const createdKeys = new Set(createdColumns.map(col => col.key));
+
+  let updatedCount = 0;
+  const updatedRecords = records.map(record => {
+    const location = locations.get(record.id);
+    if (!location) {
+      if (createdKeys.size === 0) return record;
+      const next = { ...record };
+      createdKeys.forEach(key => {
+        next[key] = null;
+      });
+      return next;
+    }
+    if (record[target.latKey] !== location.lat || record[target.lngKey] !== location.lng) updatedCount++;
+    return { ...record, [target.latKey]: location.lat, [target.lngKey]: location.lng };
+  });
+
+  return {
+    columns: [...columns, ...createdColumns],
+    records: updatedRecords,
+    createdColumns,
+    updatedCount,
+  };
+}
+
+// =============================================================================
+// Module-private helpers
+// =============================================================================
+
+function toCoordinate(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const raw = String(value ?? '').trim().replace(',', '.');
+  if (!raw) return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+interface IndexedText {
+  /** Normalized name cut to the length the similarity compares */
+  text: string;
+  /** Occurrences of each character */
+  letters: Map<string, number>;
+}
+
+interface IndexedName extends IndexedText {
+  entry: GazetteerEntry;
+}
+
+interface GazetteerIndex {
+  exact: Map<string, GazetteerEntry[]>;
+  names: IndexedName[];
+}
+
+function indexGazetteer(gazetteer: GazetteerEntry[]): GazetteerIndex {
+  const exact = new Map<string, GazetteerEntry[]>();
+  gazetteer.forEach(entry => {
+    const list = exact.get(entry.key);
+    if (list) list.push(entry);
+    else exact.set(entry.key, [entry]);
+  });
+  return { exact, names: gazetteer.map(entry => ({ entry, ...indexText(entry.key) })) };
+}
+
+function indexText(key: string): IndexedText {
+  const text = key.slice(0, MAX_SIMILARITY_LENGTH);
+  const letters = new Map<string, number>();
+  for (let i = 0; i < text.length; i++) letters.set(text[i], (letters.get(text[i]) ?? 0) + 1);
+  return { text, letters };
+}
+
+/**
+ * Highest Jaro-Winkler similarity two names can reach: no more characters can
+ * match than the two share, transpositions only lower the score, and the
+ * prefix bonus is at most their common prefix (up to 4). Far cheaper than the
+ * similarity itself, so the search skips most of a large gazetteer.
+ */
+function similarityUpperBound(query: IndexedText, name: IndexedText): number {
+  let shared = 0;
+  name.letters.forEach((count, char) => {
+    shared += Math.min(count, query.letters.get(char) ?? 0);
+  });
+  if (shared === 0) return 0;
+  const jaro = (shared / query.text.length + shared / name.text.length + 1) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < query.text.length && query.text[prefix] === name.text[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function rankCandidates(key: string, index: GazetteerIndex, floor: number, limit: number): GeocodeCandidate[] {
+  const query = indexText(key);
+  const scored: GeocodeCandidate[] = [];
+  index.names.forEach(name => {
+    if (similarityUpperBound(query, name) < floor) return;
+    const score = jaroWinklerSimilarity(key, name.entry.key);
+    if (score >= floor) scored.push({ entry: name.entry, score });
+  });
+  scored.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+  return scored.slice(0, limit);
+}
@@ -0,0 +1,371 @@
+/**
+ * Incubation Period Estimation
+ *
+ * Estimates the incubation period distribution from per-case exposure and
+ * symptom onset dates/times, the reverse of calculateExposureWindow (which
+ * starts from a known pathogen's incubation period). The fitted distribution
+ * can then drive the epi curve's exposure-window overlay.
+ *
+ * CONTENTS:
+ *
+ * 1. OBSERVATIONS
+ *    - Incubation interval per case, in days: [earliest onset - latest exposure,
+ *      latest onset - earliest exposure]. A date without a time covers the
+ *      whole day; a single exposure and onset time give an exact value.
+ *
+ * 2. MAXIMUM LIKELIHOOD FIT
+ *    - Lognormal, gamma and Weibull distributions
+ *    - Likelihood: density for exact values, F(upper) - F(lower) for
+ *      interval-censored ones; Nelder-Mead on log-transformed parameters
+ *    - AIC for comparing the three fits
+ *
+ * 3. PERCENTILES WITH BOOTSTRAP CONFIDENCE INTERVALS
+ *    - Median, 5th and 95th percentiles, with percentile-bootstrap 95% CIs
+ *      from refitting resampled cases (seeded, so results are reproducible)
+ *    - A fitter that runs the refits a batch at a time, so a long bootstrap
+ *      can yield to the page and report progress
+ *
+ * References:
+ * - Reich NG, Lessler J, Cummings DAT, Brookmeyer R. Estimating incubation
+ *   period distributions with coarse data. Stat Med 2009;28:2769-2784.
+ * - Lessler J, Reich NG, Brookmeyer R, et al. Incubation periods of acute
+ *   respiratory viral infections: a systematic review. Lancet Infect Dis
+ *   2009;9:291-300.
+ */
+import type { CaseRecord } from '../types/analysis';
+import { chiSquareCDF, chiSquareQuantile, logGamma, normalCDF, normalQuantile } from './statistics';
+import { parseLocalDate, parseTimeString } from './epiCurve';
+import { seededRandom } from './random';
+
+// =============================================================================
+// OBSERVATIONS
+// =============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface IncubationFields {
+  /** Exposure date, or the earliest possible exposure when a latest one is also given */
+  exposureStartField: string;
+  exposureStartTimeField?: string;
+  /** Latest possible exposure (interval-censored exposure) */
+  exposureEndField?: string;
+  exposureEndTimeField?: string;
+  onsetField: string;
+  onsetTimeField?: string;
+}
+
+export interface IncubationObservation {
+  id: string;
+  /** Shortest possible incubation period (days) */
+  lower: number;
+  /** Longest possible incubation period (days); equal to lower when exact */
+  upper: number;
+}
+
+export interface IncubationData {
+  observations: IncubationObservation[];
+  excluded: {
+    missingDates: number;
+    /** Onset before exposure, or latest exposure before earliest exposure */
+    inconsistentDates: number;
+  };
+}
+
+/** The span [earliest, latest] in ms that a date (and optional time) value covers */
+function timeSpan(record: CaseRecord, dateField: string, timeField?: string): [number, number] | null {
+  const value = record[dateField];
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const date = parseLocalDate(String(value));
+  if (isNaN(date.getTime())) return null;
+
+  const time = timeField ? parseTimeString(String(record[timeField] ?? '')) : null;
+  if (time) {
+    date.setHours(time.hours, time.minutes, 0, 0);
+    return [date.getTime(), date.getTime()];
+  }
+  // A date-only value is treated as anywhere within that day
+  date.setHours(0, 0, 0, 0);
+  const end = new Date(date);
+  end.setDate(end.getDate() + 1);
+  return [date.getTime(), end.getTime()];
+}
+
+export function buildIncubationData(records: CaseRecord[], fields: IncubationFields): IncubationData {
+  const observations: IncubationObservation[] = [];
+  const excluded = { missingDates: 0, inconsistentDates: 0 };
+
+  records.forEach(record => {
+    const exposureStart = timeSpan(record, fields.exposureStartField, fields.exposureStartTimeField);
+    const exposureEnd = fields.exposureEndField
+      ? timeSpan(record, fields.exposureEndField, fields.exposureEndTimeField) ?? exposureStart
+      : exposureStart;
+    const onset = timeSpan(record, fields.onsetField, fields.onsetTimeField);
+    if (!exposureStart || !exposureEnd || !onset) {
+      excluded.missingDates++;
+      return;
+    }
+
+    const earliestExposure = exposureStart[0];
+    const latestExposure = exposureEnd[1];
+    const upper = (onset[1] - earliestExposure) / MS_PER_DAY;
+    if (latestExposure < earliestExposure || upper <= 0) {
+      excluded.inconsistentDates++;
+      return;
+    }
+    const lower = Math.max(0, (onset[0] - latestExposure) / MS_PER_DAY);
+    observations.push({ id: String(record.id), lower, upper });
+  });
+
+  return { observations, excluded };
+}
+
+// =============================================================================
+// MAXIMUM LIKELIHOOD FIT
+// =============================================================================
+
+export type IncubationDistribution = 'lognormal' | 'gamma' | 'weibull';
+
+export const INCUBATION_DISTRIBUTION_LABELS: Record<IncubationDistribution, string> = {
+  lognormal: 'Lognormal',
+  gamma: 'Gamma',
+  weibull: 'Weibull',
+};
+
+interface DistributionFamily {
+  parameterNames: [string, string];
+  /** Unconstrained optimizer coordinates -> natural parameters */
+  toParameters(theta: number[]): [number, number];
+  /** Starting coordinates from the mean and SD of interval midpoints */
+  start(mean: number, sd: number): number[];
+  logDensity(x: number, p: [number, number]): number;
+  cdf(x: number, p: [number, number]): number;
+  quantile(q: number, p: [number, number]): number;
+  mean(p: [number, number]): number;
+}
+
+const FAMILIES: Record<IncubationDistribution, DistributionFamily> = {
+  lognormal: {
+    parameterNames: ['meanlog', 'sdlog'],
+    toParameters: ([mu, logSigma]) => [mu, Math.exp(logSigma)],
+    start: (mean, sd) => {
+      const sigma2 = Math.log(1 + (sd * sd) / (mean * mean));
+      return [Math.log(mean) - sigma2 / 2, Math.log(Math.sqrt(sigma2))];
+    },
+    logDensity: (x, [mu, sigma]) =>
+      -Math.pow(Math.log(x) - mu, 2) / (2 * sigma * sigma) - Math.log(x * sigma * Math.sqrt(2 * Math.PI)),
+    cdf: (x, [mu, sigma]) => (x <= 0 ? 0 : normalCDF((Math.log(x) - mu) / sigma)),
+    quantile: (q, [mu, sigma]) => Math.exp(mu + sigma * normalQuantile(q)),
+    mean: ([mu, sigma]) => Math.exp(mu + (sigma * sigma) / 2),
+  },
+  gamma: {
+    parameterNames: ['shape', 'scale'],
+    toParameters: ([logShape, logScale]) => [Math.exp(logShape), Math.exp(logScale)],
+    start: (mean, sd) => [Math.log((mean * mean) / (sd * sd)), Math.log((sd * sd) / mean)],
+    logDensity: (x, [shape, scale]) =>
+      (shape - 1) * Math.log(x) - x / scale - logGamma(shape) - shape * Math.log(scale),
+    cdf: (x, [shape, scale]) => (x <= 0 ? 0 : chiSquareCDF((2 * x) / scale, 2 * shape)),
+    quantile: (q, [shape, scale]) => (scale * chiSquareQuantile(q, 2 * shape)) / 2,
+    mean: ([shape, scale]) => shape * scale,
+  },
+  weibull: {
+    parameterNames: ['shape', 'scale'],
+    toParameters: ([logShape, logScale]) => [Math.exp(logShape), Math.exp(logScale)],
+    start: (mean, sd) => {
+      const shape = Math.pow(sd / mean, -1.086);
+      return [Math.log(shape), Math.log(mean / Math.exp(logGamma(1 + 1 / shape)))];
+    },
+    logDensity: (x, [shape, scale]) =>
+      Math.log(shape / scale) + (shape - 1) * Math.log(x / scale) - Math.pow(x / scale, shape),
+    cdf: (x, [shape, scale]) => (x <= 0 ? 0 : 1 - Math.exp(-Math.pow(x / scale, shape))),
+    quantile: (q, [shape, scale]) => scale * Math.pow(-Math.log(1 - q), 1 / shape),
+    mean: ([shape, scale]) => scale * Math.exp(logGamma(1 + 1 / shape)),
+  },
+};
+
+/** Values closer than this (days) are treated as exactly observed */
+const EXACT_TOLERANCE = 1e-6;
+
+function logLikelihood(observations: IncubationObservation[], family: DistributionFamily, p: [number, number]): number {
+  let ll = 0;
+  for (const obs of observations) {
+    if (obs.upper - obs.lower < EXACT_TOLERANCE) {
+      ll += family.logDensity(Math.max(obs.upper, EXACT_TOLERANCE), p);
+    } else {
+      ll += Math.log(Math.max(family.cdf(obs.upper, p) - family.cdf(obs.lower, p), 1e-300));
+    }
+  }
+  return ll;
+}
+
+/** Nelder-Mead simplex minimization */
+function nelderMead(f: (x: number[]) => number, start: number[], step = 0.5, maxIterations = 500): number[] {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step : v)))]
+    .map(x => ({ x, value: f(x) }));
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) < 1e-10 * (Math.abs(best.value) + 1e-10)) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, p) => sum + p.x[j], 0) / n);
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const reflectedValue = f(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = reflectedValue < worst.value ? along(-0.5) : along(0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < Math.min(worst.value, reflectedValue)) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].x;
+}
+
+function maximizeLikelihood(observations: IncubationObservation[], family: DistributionFamily, start: number[]) {
+  const negLogLik = (theta: number[]) => {
+    const value = -logLikelihood(observations, family, family.toParameters(theta));
+    return isFinite(value) ? value : Infinity;
+  };
+  // Restart once from the first optimum to escape a collapsed simplex
+  const theta = nelderMead(negLogLik, nelderMead(negLogLik, start), 0.1);
+  return { theta, logLik: -negLogLik(theta) };
+}
+
+function startingValues(observations: IncubationObservation[], family: DistributionFamily): number[] {
+  const midpoints = observations.map(obs => Math.max((obs.lower + obs.upper) / 2, EXACT_TOLERANCE));
+  const mean = midpoints.reduce((a, b) => a + b, 0) / midpoints.length;
+  const variance = midpoints.reduce((sum, x) => sum + (x - mean) * (x - mean), 0) / Math.max(1, midpoints.length - 1);
+  const sd = variance > 0 ? Math.sqrt(variance) : mean * 0.3;
+  return family.start(mean, sd);
+}
+
+// =============================================================================
+// PERCENTILES WITH BOOTSTRAP CONFIDENCE INTERVALS
+// =============================================================================
+
+export interface IncubationPercentile {
+  estimate: number;
+  /** Percentile-bootstrap 95% CI; null without bootstrap samples */
+  ci: [number, number] | null;
+}
+
+export interface IncubationFit {
+  distribution: IncubationDistribution;
+  parameters: Record<string, number>;
+  logLikelihood: number;
+  aic: number;
+  mean: number;
+  median: IncubationPercentile;
+  p5: IncubationPercentile;
+  p95: IncubationPercentile;
+}
+
+export interface IncubationFitOptions {
+  /** Bootstrap resamples for the percentile CIs (0 skips the bootstrap) */
+  bootstrapSamples?: number;
+  seed?: number;
+}
+
+function percentileOf(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lo = Math.floor(position);
+  const hi = Math.ceil(position);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo);
+}
+
+export interface IncubationFitter {
+  /** Bootstrap refits over the three distributions */
+  totalReplicates: number;
+  /** Run up to count more refits; returns how many have run in all */
+  runReplicates(count: number): number;
+  /** Fits with CIs from the refits run so far */
+  fits(): IncubationFit[];
+}
+
+/**
+ * Fit all three distributions by maximum likelihood, leaving the bootstrap
+ * refits to be run in batches. Needs at least three observations that are not
+ * all identical; gives no fits otherwise.
+ */
+export function createIncubationFitter(observations: IncubationObservation[], options: IncubationFitOptions = {}): IncubationFitter {
+  const { bootstrapSamples = 200, seed = 1 } = options;
+  const spread = observations.length > 0
+    ? Math.max(...observations.map(o => o.upper)) - Math.min(...observations.map(o => o.lower))
+    : 0;
+  if (observations.length < 3 || spread < EXACT_TOLERANCE) {
+    return { totalReplicates: 0, runReplicates: () => 0, fits: () => [] };
+  }
+
+  const models = (Object.keys(FAMILIES) as IncubationDistribution[]).map(distribution => {
+    const family = FAMILIES[distribution];
+    const { theta, logLik } = maximizeLikelihood(observations, family, startingValues(observations, family));
+    const quantiles = (params: [number, number]) => [0.5, 0.05, 0.95].map(q => family.quantile(q, params));
+    // Each distribution draws its resamples from its own seeded stream
+    return { distribution, family, theta, logLik, quantiles, random: seededRandom(seed), replicates: [[], [], []] as number[][] };
+  });
+  const totalReplicates = models.length * bootstrapSamples;
+  let done = 0;
+
+  return {
+    totalReplicates,
+    // Percentile bootstrap: resample cases, refit from the full-data optimum
+    runReplicates(count) {
+      const stop = Math.min(totalReplicates, done + Math.max(0, count));
+      for (; done < stop; done++) {
+        const { family, theta, quantiles, random, replicates } = models[Math.floor(done / bootstrapSamples)];
+        const resample = observations.map(() => observations[Math.floor(random() * observations.length)]);
+        const fit = maximizeLikelihood(resample, family, theta);
+        if (!isFinite(fit.logLik)) continue;
+        quantiles(family.toParameters(fit.theta)).forEach((value, i) => replicates[i].push(value));
+      }
+      return done;
+    },
+    fits() {
+      return models.map(({ distribution, family, theta, logLik, quantiles, replicates }) => {
+        const p = family.toParameters(theta);
+        const [median, p5, p95] = quantiles(p);
+        const ci = (i: number): [number, number] | null => {
+          const sorted = replicates[i].filter(isFinite).sort((a, b) => a - b);
+          return sorted.length >= 2 ? [percentileOf(sorted, 0.025), percentileOf(sorted, 0.975)] : null;
+        };
+        return {
+          distribution,
+          parameters: { [family.parameterNames[0]]: p[0], [family.parameterNames[1]]: p[1] },
+          logLikelihood: logLik,
+          aic: 4 - 2 * logLik,
+          mean: family.mean(p),
+          median: { estimate: median, ci: ci(0) },
+          p5: { estimate: p5, ci: ci(1) },
+          p95: { estimate: p95, ci: ci(2) },
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Fit all three distributions by maximum likelihood, with every bootstrap
+ * refit run at once. Returns an empty list without enough varying data.
+ */
+export function fitIncubationPeriod(observations: IncubationObservation[], options: IncubationFitOptions = {}): IncubationFit[] {
+  const fitter = createIncubationFitter(observations, options);
+  fitter.runReplicates(fitter.totalReplicates);
+  return fitter.fits();
+}
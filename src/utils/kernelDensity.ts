@@ -0,0 +1,241 @@
+/**
+ * Kernel Density Estimation
+ *
+ * Smooth surfaces of point intensity for the spot map: a Gaussian kernel of a
+ * chosen bandwidth is placed over each point and summed on a regular grid.
+ *
+ * CONTENTS:
+ *
+ * 1. BANDWIDTH
+ *    - Normal reference rule for two dimensions, h = σ · n^(-1/6), with σ the
+ *      mean of the robust spreads (smaller of SD and IQR/1.349) on each axis
+ *
+ * 2. DENSITY SURFACE
+ *    - Points per km², on a grid whose rows follow the Web Mercator
+ *      projection so the surface lines up with the base map when stretched
+ *      over its bounds; distances are measured in a local flat projection
+ *
+ * 3. CASE/CONTROL RATIO SURFACE
+ *    - Case density over control density, each scaled to integrate to 1, so 1
+ *      means cases are as common as controls (relative risk surface)
+ *    - Cells where control density is negligible are left empty rather than
+ *      showing unstable ratios
+ *
+ * References:
+ * - Silverman BW. Density Estimation for Statistics and Data Analysis.
+ *   London: Chapman and Hall; 1986. (Section 4.3)
+ * - Bowman AW, Azzalini A. Applied Smoothing Techniques for Data Analysis.
+ *   Oxford: Clarendon Press; 1997.
+ * - Kelsall JE, Diggle PJ. Non-parametric estimation of spatial variation in
+ *   relative risk. Stat Med 1995;14:2335-42.
+ */
+
+// =============================================================================
+// BANDWIDTH
+// =============================================================================
+
+export interface DensityPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Normal reference bandwidth in metres. Null for fewer than two points or
+ * when every point sits at the same place.
+ */
+export function defaultBandwidth(points: DensityPoint[]): number | null {
+  if (points.length < 2) return null;
+  const projection = localProjection(points);
+  const xs = points.map(p => projection.x(p.lng));
+  const ys = points.map(p => projection.y(p.lat));
+  const sigma = (robustSpread(xs) + robustSpread(ys)) / 2;
+  if (!(sigma > 0)) return null;
+  return sigma * Math.pow(points.length, -1 / 6);
+}
+
+// =============================================================================
+// DENSITY SURFACE
+// =============================================================================
+
+export interface DensityBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface DensityGrid {
+  bounds: DensityBounds;
+  /** Cells across and down; row 0 is the northern edge */
+  width: number;
+  height: number;
+  /** Row-major cell values; NaN where there is no estimate */
+  values: Float64Array;
+  bandwidthMeters: number;
+  /** Largest finite value */
+  max: number;
+}
+
+export interface DensityOptions {
+  bandwidthMeters: number;
+  /** Cells along the longer side of the grid (default 200) */
+  resolution?: number;
+  /** Shared extent, e.g. for case and control surfaces (default: the points padded by 3 bandwidths) */
+  bounds?: DensityBounds;
+}
+
+/** Extent of the points padded by three bandwidths, where the kernel is negligible */
+export function densityBounds(points: DensityPoint[], bandwidthMeters: number): DensityBounds | null {
+  if (points.length === 0) return null;
+  const padLat = (3 * bandwidthMeters) / METERS_PER_DEGREE;
+  const meanLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const padLng = padLat / Math.max(Math.cos(meanLat * Math.PI / 180), 0.01);
+  return {
+    south: Math.max(-85, Math.min(...points.map(p => p.lat)) - padLat),
+    north: Math.min(85, Math.max(...points.map(p => p.lat)) + padLat),
+    west: Math.min(...points.map(p => p.lng)) - padLng,
+    east: Math.max(...points.map(p => p.lng)) + padLng,
+  };
+}
+
+/** Gaussian kernel density in points per km²; null without points or a positive bandwidth */
+export function kernelDensityGrid(points: DensityPoint[], options: DensityOptions): DensityGrid | null {
+  const { bandwidthMeters, resolution = 200 } = options;
+  if (!(bandwidthMeters > 0)) return null;
+  const bounds = options.bounds ?? densityBounds(points, bandwidthMeters);
+  if (!bounds || points.length === 0) return null;
+
+  const { width, height, cellLat, cellLng } = gridCells(bounds, resolution);
+  const projection = localProjection(points);
+  const cellX = cellLng.map(lng => projection.x(lng));
+  const cellY = cellLat.map(lat => projection.y(lat));
+  const values = new Float64Array(width * height);
+  const reach = 3 * bandwidthMeters;
+  const twoH2 = 2 * bandwidthMeters * bandwidthMeters;
+  // Kernel integrates to 1 over m²; report per km²
+  const scale = 1e6 / (Math.PI * twoH2);
+
+  // The Gaussian kernel is separable: weight = f(dx) · f(dy)
+  const columnWeights = new Float64Array(width);
+  points.forEach(point => {
+    const px = projection.x(point.lng);
+    const py = projection.y(point.lat);
+    let firstCol = -1;
+    let lastCol = -1;
+    for (let col = 0; col < width; col++) {
+      const dx = cellX[col] - px;
+      if (Math.abs(dx) > reach) continue;
+      columnWeights[col] = Math.exp(-(dx * dx) / twoH2);
+      if (firstCol < 0) firstCol = col;
+      lastCol = col;
+    }
+    if (firstCol < 0) return;
+    for (let row = 0; row < height; row++) {
+      const dy = cellY[row] - py;
+      if (Math.abs(dy) > reach) continue;
+      const rowWeight = scale * Math.exp(-(dy * dy) / twoH2);
+      const offset = row * width;
+      for (let col = firstCol; col <= lastCol; col++) {
+        values[offset + col] += rowWeight * columnWeights[col];
+      }
+    }
+  });
+
+  return { bounds, width, height, values, bandwidthMeters, max: finiteMax(values) };
+}
+
+// =============================================================================
+// CASE/CONTROL RATIO SURFACE
+// =============================================================================
+
+export interface DensityRatioOptions {
+  bandwidthMeters: number;
+  resolution?: number;
+  /** Cells with control density below this share of its maximum are left empty (default 0.05) */
+  minControlShare?: number;
+}
+
+/**
+ * Relative risk surface: case density over control density, each divided by
+ * its number of points. Null unless there are both cases and controls.
+ */
+export function kernelDensityRatio(
+  cases: DensityPoint[],
+  controls: DensityPoint[],
+  options: DensityRatioOptions
+): DensityGrid | null {
+  const { bandwidthMeters, resolution, minControlShare = 0.05 } = options;
+  if (cases.length === 0 || controls.length === 0) return null;
+  const bounds = densityBounds([...cases, ...controls], bandwidthMeters);
+  if (!bounds) return null;
+  const caseGrid = kernelDensityGrid(cases, { bandwidthMeters, resolution, bounds });
+  const controlGrid = kernelDensityGrid(controls, { bandwidthMeters, resolution, bounds });
+  if (!caseGrid || !controlGrid) return null;
+
+  const threshold = controlGrid.max * minControlShare;
+  const values = new Float64Array(caseGrid.values.length);
+  for (let i = 0; i < values.length; i++) {
+    const control = controlGrid.values[i];
+    values[i] = control > threshold && control > 0
+      ? (caseGrid.values[i] / cases.length) / (control / controls.length)
+      : NaN;
+  }
+  return { ...caseGrid, values, max: finiteMax(values) };
+}
+
+// =============================================================================
+// Module-private helpers
+// =============================================================================
+
+const METERS_PER_DEGREE = 111320;
+
+/** Equirectangular projection to metres around the points' mean latitude */
+function localProjection(points: DensityPoint[]) {
+  const meanLat = points.reduce((sum, p) => sum + p.lat, 0) / Math.max(points.length, 1);
+  const cosLat = Math.cos(meanLat * Math.PI / 180);
+  return {
+    x: (lng: number) => lng * METERS_PER_DEGREE * cosLat,
+    y: (lat: number) => lat * METERS_PER_DEGREE,
+  };
+}
+
+/** Cell centres: longitudes evenly spaced, latitudes evenly spaced in Web Mercator y */
+function gridCells(bounds: DensityBounds, resolution: number) {
+  const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
+  const inverseMercator = (y: number) => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180 / Math.PI;
+  const top = mercatorY(bounds.north);
+  const bottom = mercatorY(bounds.south);
+  const spanX = (bounds.east - bounds.west) * Math.PI / 180;
+  const spanY = top - bottom;
+  const cells = Math.max(2, Math.round(resolution));
+  const width = spanX >= spanY ? cells : Math.max(2, Math.round(cells * spanX / spanY));
+  const height = spanY >= spanX ? cells : Math.max(2, Math.round(cells * spanY / spanX));
+  const cellLng = Array.from({ length: width }, (_, col) => bounds.west + ((col + 0.5) / width) * (bounds.east - bounds.west));
+  const cellLat = Array.from({ length: height }, (_, row) => inverseMercator(top - ((row + 0.5) / height) * spanY));
+  return { width, height, cellLat, cellLng };
+}
+
+function robustSpread(values: number[]): number {
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+  const sorted = [...values].sort((a, b) => a - b);
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  return iqr > 0 ? Math.min(sd, iqr / 1.349) : sd;
+}
+
+/** Linear interpolation between order statistics (type 7) */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function finiteMax(values: Float64Array): number {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  return max;
+}
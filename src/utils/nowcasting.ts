@@ -0,0 +1,335 @@
+/**
+ * Nowcasting for Reporting Delays
+ *
+ * Recent bins of an epi curve by onset date are incomplete because cases with
+ * a recent onset have not all been reported yet. From each case's onset and
+ * report dates, this module estimates the reporting-delay distribution and
+ * the number of cases with a recent onset that are still to be reported.
+ *
+ * CONTENTS:
+ *
+ * 1. OBSERVATIONS
+ *    - Onset day and reporting delay (whole days) per case
+ *
+ * 2. DELAY DISTRIBUTION
+ *    - Reverse-time discrete hazard g(d) = P(delay = d | delay ≤ d), estimated
+ *      only from onset days that have been observable for at least d days, so
+ *      the right truncation of recent onsets does not favour short delays
+ *    - F(a) = P(delay ≤ a) = Π_{d>a} (1 - g(d)), with F(maxDelay) = 1
+ *
+ * 3. NOWCAST
+ *    - Bayesian: g(d) ~ Beta(n_d + ½, N_d - n_d + ½); given the reported count
+ *      n_t and F(a) for an onset day reported for a days, the cases still to
+ *      be reported are negative binomial, NB(n_t, F(a)) (a 1/N prior on the
+ *      total, so the point estimate is n_t / F(a)); a day with no reports yet
+ *      takes a shape of ½ so its interval is not collapsed to zero
+ *    - Posterior draws summed over epi curve bins give the median and 95%
+ *      credible interval of each bin's cases not yet reported
+ *
+ * Delays are in whole days, so nowcasts apply to daily or longer bins.
+ *
+ * References:
+ * - Lawless JF. Adjustments for reporting delays and the prediction of
+ *   occurred but not reported events. Can J Stat 1994;22:15-31.
+ * - Höhle M, an der Heiden M. Bayesian nowcasting during the STEC O104:H4
+ *   outbreak in Germany, 2011. Biometrics 2014;70:993-1002.
+ */
+import type { CaseRecord } from '../types/analysis';
+import { parseLocalDate } from './epiCurve';
+import { seededRandom } from './random';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// OBSERVATIONS
+// =============================================================================
+
+export interface ReportingObservation {
+  /** Onset date at local midnight */
+  onset: Date;
+  /** Report date minus onset date, in days */
+  delay: number;
+}
+
+export interface ReportingFields {
+  onsetField: string;
+  reportField: string;
+}
+
+export interface ReportingData {
+  observations: ReportingObservation[];
+  excluded: {
+    missingDates: number;
+    reportBeforeOnset: number;
+  };
+}
+
+/** Whole days from a to b, rounded so a daylight-saving change doesn't shift the count */
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((b.getTime() - a.getTime()) / MS_PER_DAY);
+}
+
+function dayOf(value: unknown): Date | null {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const date = parseLocalDate(String(value));
+  if (isNaN(date.getTime())) return null;
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+export function buildReportingData(records: CaseRecord[], fields: ReportingFields): ReportingData {
+  const observations: ReportingObservation[] = [];
+  const excluded = { missingDates: 0, reportBeforeOnset: 0 };
+
+  records.forEach(record => {
+    const onset = dayOf(record[fields.onsetField]);
+    const report = dayOf(record[fields.reportField]);
+    if (!onset || !report) {
+      excluded.missingDates++;
+      return;
+    }
+    const delay = daysBetween(onset, report);
+    if (delay < 0) {
+      excluded.reportBeforeOnset++;
+      return;
+    }
+    observations.push({ onset, delay });
+  });
+
+  return { observations, excluded };
+}
+
+// =============================================================================
+// DELAY DISTRIBUTION
+// =============================================================================
+
+export interface DelayDistribution {
+  maxDelay: number;
+  /** Cases with delay exactly d, among onsets observable for d days (index d) */
+  events: number[];
+  /** Cases with delay ≤ d, among the same onsets */
+  atRisk: number[];
+  /** P(delay ≤ a), a = 0..maxDelay */
+  cdf: number[];
+  /** P(delay = a), a = 0..maxDelay */
+  pmf: number[];
+  median: number;
+}
+
+/** F(a) from reverse-time hazards g(1..maxDelay) */
+function cdfFromHazards(hazards: number[], maxDelay: number): number[] {
+  const cdf = new Array<number>(maxDelay + 1);
+  cdf[maxDelay] = 1;
+  for (let a = maxDelay; a > 0; a--) {
+    cdf[a - 1] = cdf[a] * (1 - hazards[a]);
+  }
+  return cdf;
+}
+
+function estimateDelayDistribution(observations: ReportingObservation[], asOf: Date, maxDelay: number): DelayDistribution {
+  const events = new Array<number>(maxDelay + 1).fill(0);
+  const atRisk = new Array<number>(maxDelay + 1).fill(0);
+  observations.forEach(({ onset, delay }) => {
+    if (delay > maxDelay) return;
+    const observable = daysBetween(onset, asOf);
+    // Counted for every d from its own delay up to how long its onset day has been observable
+    for (let d = delay; d <= Math.min(maxDelay, observable); d++) {
+      atRisk[d]++;
+      if (d === delay) events[d]++;
+    }
+  });
+
+  // Posterior means, which stay below 1 even when every case at risk has delay d
+  const hazards = events.map((n, d) => (d === 0 || atRisk[d] === 0 ? 0 : (n + 0.5) / (atRisk[d] + 1)));
+  const cdf = cdfFromHazards(hazards, maxDelay);
+  const pmf = cdf.map((f, a) => (a === 0 ? f : f - cdf[a - 1]));
+  const median = cdf.findIndex(f => f >= 0.5);
+  return { maxDelay, events, atRisk, cdf, pmf, median };
+}
+
+// =============================================================================
+// NOWCAST
+// =============================================================================
+
+export interface NowcastOptions {
+  /** Date the data are complete to; defaults to the latest report date */
+  asOf?: Date;
+  /** Longest delay considered, in days; defaults to the longest observed */
+  maxDelay?: number;
+  /** Posterior draws for the credible intervals */
+  samples?: number;
+  seed?: number;
+}
+
+export interface NowcastDay {
+  date: Date;
+  reported: number;
+  /** Estimated share of this day's cases reported by the as-of date */
+  reportedFraction: number;
+  /** Point estimate of the eventual total, reported / reportedFraction */
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Nowcast {
+  asOf: Date;
+  delay: DelayDistribution;
+  /** Onset days still incomplete at the as-of date (the last maxDelay days) */
+  days: NowcastDay[];
+  /** Posterior draws of cases not yet reported: draws[sample][day] */
+  draws: number[][];
+}
+
+/** Fewest cases with both dates needed to estimate the delay distribution */
+export const MIN_NOWCAST_CASES = 10;
+
+/**
+ * Nowcast the last maxDelay onset days. Cases reported after asOf are left out.
+ * Returns null with fewer than MIN_NOWCAST_CASES usable cases.
+ */
+export function estimateNowcast(observations: ReportingObservation[], options: NowcastOptions = {}): Nowcast | null {
+  const { samples = 1000, seed = 1 } = options;
+  const latestReport = observations.reduce<number>((latest, { onset, delay }) => {
+    const report = new Date(onset);
+    report.setDate(report.getDate() + delay);
+    return Math.max(latest, report.getTime());
+  }, -Infinity);
+  if (!isFinite(latestReport)) return null;
+
+  const asOf = new Date(options.asOf ?? latestReport);
+  asOf.setHours(0, 0, 0, 0);
+  const available = observations.filter(({ onset, delay }) => delay <= daysBetween(onset, asOf));
+  if (available.length < MIN_NOWCAST_CASES) return null;
+
+  const longestDelay = available.reduce((longest, o) => Math.max(longest, o.delay), 0);
+  const maxDelay = Math.max(0, Math.round(options.maxDelay ?? longestDelay));
+  const delay = estimateDelayDistribution(available, asOf, maxDelay);
+
+  const reportedByDay = new Map<number, number>();
+  available.forEach(({ onset }) => {
+    const a = daysBetween(onset, asOf);
+    if (a < maxDelay) reportedByDay.set(a, (reportedByDay.get(a) ?? 0) + 1);
+  });
+
+  // Oldest incomplete day first
+  const ages = Array.from({ length: maxDelay }, (_, i) => maxDelay - 1 - i);
+  const random = seededRandom(seed);
+  const draws: number[][] = [];
+  for (let s = 0; s < samples; s++) {
+    const hazards = delay.events.map((n, d) =>
+      d === 0 || delay.atRisk[d] === 0 ? 0 : sampleBeta(n + 0.5, delay.atRisk[d] - n + 0.5, random)
+    );
+    const cdf = cdfFromHazards(hazards, maxDelay);
+    draws.push(ages.map(a => sampleNegativeBinomial(reportedByDay.get(a) ?? 0, cdf[a], random)));
+  }
+
+  const days = ages.map((a, i) => {
+    const date = new Date(asOf);
+    date.setDate(date.getDate() - a);
+    const reported = reportedByDay.get(a) ?? 0;
+    const totals = draws.map(draw => reported + draw[i]).sort((x, y) => x - y);
+    return {
+      date,
+      reported,
+      reportedFraction: delay.cdf[a],
+      estimate: delay.cdf[a] > 0 ? reported / delay.cdf[a] : reported,
+      lower: percentileOf(totals, 0.025),
+      upper: percentileOf(totals, 0.975),
+    };
+  });
+
+  return { asOf, delay, days, draws };
+}
+
+export interface NowcastInterval {
+  /** Cases with onset in the interval reported by the as-of date */
+  reported: number;
+  /** Posterior median of cases still to be reported, with its 95% credible interval */
+  notYetReported: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Sum the nowcast over the onset days in [start, end), e.g. an epi curve bin.
+ * Null when none of those days is still incomplete.
+ */
+export function aggregateNowcast(nowcast: Nowcast, start: Date, end: Date): NowcastInterval | null {
+  const indices = nowcast.days
+    .map((day, i) => (day.date >= start && day.date < end ? i : -1))
+    .filter(i => i >= 0);
+  if (indices.length === 0) return null;
+
+  const reported = indices.reduce((sum, i) => sum + nowcast.days[i].reported, 0);
+  const additional = nowcast.draws
+    .map(draw => indices.reduce((sum, i) => sum + draw[i], 0))
+    .sort((x, y) => x - y);
+  return {
+    reported,
+    notYetReported: percentileOf(additional, 0.5),
+    lower: percentileOf(additional, 0.025),
+    upper: percentileOf(additional, 0.975),
+  };
+}
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+function percentileOf(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lo = Math.floor(position);
+  const hi = Math.ceil(position);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo);
+}
+
+function sampleNormal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/** Gamma(shape, 1) by Marsaglia and Tsang, boosted for shape < 1 */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+function sampleBeta(a: number, b: number, random: () => number): number {
+  const x = sampleGamma(a, random);
+  return x / (x + sampleGamma(b, random));
+}
+
+/** Poisson by multiplication for small means, normal approximation above 100 */
+function samplePoisson(mean: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  if (mean > 100) return Math.max(0, Math.round(mean + Math.sqrt(mean) * sampleNormal(random)));
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let product = random();
+  while (product > limit) {
+    k++;
+    product *= random();
+  }
+  return k;
+}
+
+/**
+ * Failures before r successes with success probability p, as a gamma-Poisson
+ * mixture. r = 0 takes a shape of ½, so a day with no reports yet still has
+ * an interval that widens as its reported fraction falls.
+ */
+function sampleNegativeBinomial(r: number, p: number, random: () => number): number {
+  if (p >= 1) return 0;
+  // Guards against a vanishing reported fraction when a sampled hazard rounds to 1
+  const q = Math.max(p, 1e-6);
+  return samplePoisson(sampleGamma(r > 0 ? r : 0.5, random) * (1 - q) / q, random);
+}
@@ -3,12 +3,13 @@
  * and exporting/importing project files.
  */
 
-import type { Dataset, EditLogEntry } from '../types/analysis';
+import type { Contact, Dataset, EditLogEntry } from '../types/analysis';
 
 const STORAGE_KEYS = {
   DATASETS: 'epikit_datasets',
   ACTIVE_DATASET_ID: 'epikit_activeDatasetId',
   EDIT_LOG: 'epikit_editLog',
+  CONTACTS: 'epikit_contacts',
   ANALYSIS_STATE: 'epikit_analysis_state',
 } as const;
 
@@ -41,6 +42,8 @@ export interface ProjectData {
   datasets: Dataset[];
   activeDatasetId: string | null;
   editLog: EditLogEntry[];
+  /** Contact tracing register (absent in files saved before contacts existed) */
+  contacts: Contact[];
   analysisState: Record<string, AnalysisState>; // keyed by dataset ID
 }
 
@@ -109,6 +112,26 @@ export function loadEditLog(): EditLogEntry[] | null {
   }
 }
 
+export function saveContacts(contacts: Contact[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CONTACTS, JSON.stringify(contacts));
+    return true;
+  } catch (e) {
+    console.error('Failed to save contacts:', e);
+    return false;
+  }
+}
+
+export function loadContacts(): Contact[] | null {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.CONTACTS);
+    return data ? JSON.parse(data) : null;
+  } catch (e) {
+    console.error('Failed to load contacts:', e);
+    return null;
+  }
+}
+
 export function saveAnalysisState(datasetId: string, state: AnalysisState): void {
   try {
     const allStates = loadAllAnalysisStates() || {};
@@ -152,7 +175,8 @@ export function clearAllAnalysisStates(): void {
 export function exportProject(
   datasets: Dataset[],
   activeDatasetId: string | null,
-  editLog: EditLogEntry[]
+  editLog: EditLogEntry[],
+  contacts: Contact[]
 ): ProjectData {
   const analysisStates = loadAllAnalysisStates() || {};
 
@@ -162,6 +186,7 @@ export function exportProject(
     datasets,
     activeDatasetId,
     editLog,
+    contacts,
     analysisState: analysisStates,
   };
 }
@@ -220,6 +245,7 @@ export function parseProjectFile(fileContent: string): ProjectData | null {
 
     // Normalize optional fields so downstream code can trust the shape
     const editLog = Array.isArray(project.editLog) ? project.editLog : [];
+    const contacts = Array.isArray(project.contacts) ? project.contacts : [];
     const activeDatasetId =
       typeof project.activeDatasetId === 'string' && datasets.some(d => d.id === project.activeDatasetId)
         ? project.activeDatasetId
@@ -235,6 +261,7 @@ export function parseProjectFile(fileContent: string): ProjectData | null {
       datasets,
       activeDatasetId,
       editLog,
+      contacts,
       analysisState,
     };
   } catch (e) {
@@ -0,0 +1,22 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small reproducible generator for bootstrap intervals, posterior draws,
+ * Monte Carlo replicates and layout jitter, so the same inputs and seed give
+ * the same results on every run.
+ *
+ * References:
+ * - Ettinger T. Mulberry32, a 32-bit state generator (public domain), 2017.
+ */
+
+/** Mulberry32: small, fast, seedable PRNG returning values in [0, 1) */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,1147 @@
+/**
+ * Regression Models for Epidemiological Analysis
+ *
+ * Multivariable models fitted in the browser by iteratively reweighted least
+ * squares (IRLS). Used by the Analysis workflow to report adjusted measures
+ * of association.
+ *
+ * CONTENTS:
+ *
+ * 1. DESIGN MATRIX
+ *    - Complete-case selection
+ *    - Dummy (indicator) coding of categorical predictors against a
+ *      reference level; numeric predictors entered as-is (per-unit effect)
+ *
+ * 2. MODEL FITTING (IRLS)
+ *    - Generalized linear model core shared by all families
+ *    - Matrix inversion (Gauss-Jordan with partial pivoting)
+ *
+ * 3. UNCONDITIONAL LOGISTIC REGRESSION
+ *    - Adjusted odds ratios with Wald 95% CIs and p-values
+ *    - Likelihood-ratio tests for dropping each term
+ *    - Convergence and separation warnings
+ *    - Fitting from saved tab settings (shared with the Forest Plot)
+ *
+ * 4. POISSON AND NEGATIVE BINOMIAL REGRESSION
+ *    - Offset for log(population) or log(person-time)
+ *    - Incidence rate ratios with Wald 95% CIs
+ *    - Dispersion diagnostic and negative binomial theta (ML)
+ *
+ * 5. COUNTS FROM A LINE LIST
+ *    - Case counts joined onto a denominator dataset
+ *
+ * 6. CONDITIONAL LOGISTIC REGRESSION
+ *    - Matched case-control sets with one case and one or more controls
+ *    - Odds ratios with Wald CIs; likelihood-ratio test against the null
+ *
+ * References:
+ * - Hosmer DW, Lemeshow S, Sturdivant RX. Applied Logistic Regression. 3rd ed.
+ * - McCullagh P, Nelder JA. Generalized Linear Models. 2nd ed.
+ * - Hilbe JM. Negative Binomial Regression. 2nd ed.
+ * - Breslow NE, Day NE. Statistical Methods in Cancer Research, Vol. I.
+ */
+import type { CaseRecord, DataColumn } from '../types/analysis';
+import { chiSquareCDF, logGamma } from './statistics';
+import { normalizeAreaKey } from './areaMap';
+
+// =============================================================================
+// DESIGN MATRIX
+// Converts records and predictor specifications into a numeric matrix
+// =============================================================================
+
+export type PredictorType = 'categorical' | 'numeric';
+
+export interface PredictorSpec {
+  key: string;
+  label: string;
+  type: PredictorType;
+  /** Categorical only: level used as the comparison group (defaults to the first level) */
+  referenceLevel?: string;
+  /** Categorical only: preferred level order (e.g., DataColumn.valueOrder) */
+  levelOrder?: string[];
+}
+
+export interface DesignColumn {
+  termKey: string;
+  termLabel: string;
+  /** Level coded 1 by this indicator column (null for numeric terms and the intercept) */
+  level: string | null;
+  referenceLevel: string | null;
+}
+
+export interface DesignMatrix {
+  X: number[][];
+  y: number[];
+  /** Count models only: log(population or person-time) for each row */
+  offset?: number[];
+  columns: DesignColumn[];
+  recordIds: string[];
+  /** Records dropped because the outcome or a predictor was missing */
+  excludedCount: number;
+}
+
+export const INTERCEPT_KEY = '(intercept)';
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (isMissing(value)) return null;
+  const parsed = Number(String(value).replace(/,/g, '').trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Build a design matrix with an intercept column followed by one column per
+ * numeric predictor and one indicator column per non-reference level of each
+ * categorical predictor. Only complete cases are kept.
+ *
+ * @param outcome - Returns the response for a record, or null when missing
+ * @param exposure - Count models only: population or person-time for a record;
+ *   rows with a missing or non-positive exposure are excluded
+ */
+export function buildDesignMatrix(
+  records: CaseRecord[],
+  outcome: (record: CaseRecord) => number | null,
+  predictors: PredictorSpec[],
+  exposure?: (record: CaseRecord) => number | null
+): DesignMatrix {
+  const complete = records.filter(record => {
+    if (outcome(record) === null) return false;
+    if (exposure) {
+      const value = exposure(record);
+      if (value === null || !(value > 0)) return false;
+    }
+    return predictors.every(p =>
+      p.type === 'numeric' ? toNumber(record[p.key]) !== null : !isMissing(record[p.key])
+    );
+  });
+
+  const columns: DesignColumn[] = [
+    { termKey: INTERCEPT_KEY, termLabel: 'Intercept', level: null, referenceLevel: null },
+  ];
+  const encoders: ((record: CaseRecord) => number)[] = [() => 1];
+
+  for (const predictor of predictors) {
+    if (predictor.type === 'numeric') {
+      columns.push({ termKey: predictor.key, termLabel: predictor.label, level: null, referenceLevel: null });
+      encoders.push(record => toNumber(record[predictor.key]) as number);
+      continue;
+    }
+
+    const levels = orderLevels(
+      Array.from(new Set(complete.map(r => String(r[predictor.key]).trim()))),
+      predictor.levelOrder
+    );
+    const reference = predictor.referenceLevel && levels.includes(predictor.referenceLevel)
+      ? predictor.referenceLevel
+      : levels[0];
+
+    for (const level of levels) {
+      if (level === reference) continue;
+      columns.push({ termKey: predictor.key, termLabel: predictor.label, level, referenceLevel: reference });
+      encoders.push(record => (String(record[predictor.key]).trim() === level ? 1 : 0));
+    }
+  }
+
+  return {
+    X: complete.map(record => encoders.map(encode => encode(record))),
+    y: complete.map(record => outcome(record) as number),
+    offset: exposure ? complete.map(record => Math.log(exposure(record) as number)) : undefined,
+    columns,
+    recordIds: complete.map(record => record.id),
+    excludedCount: records.length - complete.length,
+  };
+}
+
+/** Sort levels by a preferred order, then alphabetically (numeric-aware) */
+export function orderLevels(levels: string[], preferred?: string[]): string[] {
+  const ordered = preferred ? preferred.filter(v => levels.includes(v)) : [];
+  const rest = levels
+    .filter(v => !ordered.includes(v))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return [...ordered, ...rest];
+}
+
+/** Keep only the listed design columns (used to refit reduced models) */
+function selectColumns(design: DesignMatrix, keep: number[]): DesignMatrix {
+  return {
+    ...design,
+    X: design.X.map(row => keep.map(j => row[j])),
+    columns: keep.map(j => design.columns[j]),
+  };
+}
+
+// =============================================================================
+// MODEL FITTING (IRLS)
+// Generalized linear model core: Newton-Raphson / Fisher scoring
+// =============================================================================
+
+type GlmFamily = 'binomial' | 'poisson' | 'negativeBinomial';
+
+interface GlmOptions {
+  /** Added to the linear predictor with a fixed coefficient of 1 */
+  offset?: number[];
+  /** Negative binomial only: dispersion parameter (variance = mu + mu^2 / theta) */
+  theta?: number;
+}
+
+interface GlmFit {
+  coefficients: number[];
+  covariance: number[][] | null;
+  fitted: number[];
+  logLikelihood: number;
+  iterations: number;
+  converged: boolean;
+}
+
+const MAX_ITERATIONS = 25;
+const CONVERGENCE_TOLERANCE = 1e-8;
+
+function fitGlm(X: number[][], y: number[], family: GlmFamily, options: GlmOptions = {}): GlmFit {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  const offset = options.offset ?? new Array(n).fill(0);
+  const theta = options.theta ?? Infinity;
+  let beta = new Array(p).fill(0);
+  // Log-link models start from the overall rate so the first step is not huge
+  if (family !== 'binomial' && p > 0) {
+    const totalY = y.reduce((sum, v) => sum + v, 0);
+    const totalExposure = offset.reduce((sum, o) => sum + Math.exp(o), 0);
+    beta[0] = Math.log(Math.max(totalY, 0.5) / totalExposure);
+  }
+  let previousLogLik = -Infinity;
+  let covariance: number[][] | null = null;
+  let fitted = new Array(n).fill(0);
+  let logLikelihood = -Infinity;
+  let converged = false;
+  let iterations = 0;
+
+  for (iterations = 1; iterations <= MAX_ITERATIONS; iterations++) {
+    const eta = X.map((row, i) => dot(row, beta) + offset[i]);
+    fitted = eta.map(e => inverseLink(e, family));
+    // Working weights (dmu/deta)^2 / V(mu) and working response on the eta - offset scale
+    const derivatives = fitted.map(mu => Math.max(linkDerivative(mu, family), 1e-10));
+    const weights = fitted.map((mu, i) => Math.max(derivatives[i] ** 2 / varianceFunction(mu, family, theta), 1e-10));
+    const working = eta.map((e, i) => e - offset[i] + (y[i] - fitted[i]) / derivatives[i]);
+
+    // Information matrix X'WX and score vector X'Wz
+    const information = Array.from({ length: p }, () => new Array(p).fill(0));
+    const score = new Array(p).fill(0);
+    for (let i = 0; i < n; i++) {
+      const row = X[i];
+      const w = weights[i];
+      for (let j = 0; j < p; j++) {
+        score[j] += row[j] * w * working[i];
+        for (let k = j; k < p; k++) {
+          information[j][k] += row[j] * w * row[k];
+        }
+      }
+    }
+    for (let j = 0; j < p; j++) {
+      for (let k = 0; k < j; k++) information[j][k] = information[k][j];
+    }
+
+    covariance = invertMatrix(information);
+    if (!covariance) break;
+    beta = covariance.map(row => dot(row, score));
+
+    logLikelihood = computeLogLikelihood(X.map((row, i) => inverseLink(dot(row, beta) + offset[i], family)), y, family, theta);
+    if (Math.abs(logLikelihood - previousLogLik) < CONVERGENCE_TOLERANCE * (Math.abs(logLikelihood) + 1)) {
+      converged = true;
+      break;
+    }
+    previousLogLik = logLikelihood;
+  }
+
+  fitted = X.map((row, i) => inverseLink(dot(row, beta) + offset[i], family));
+  return {
+    coefficients: beta,
+    covariance,
+    fitted,
+    logLikelihood,
+    iterations: Math.min(iterations, MAX_ITERATIONS),
+    converged,
+  };
+}
+
+function inverseLink(eta: number, family: GlmFamily): number {
+  switch (family) {
+    case 'binomial':
+      return 1 / (1 + Math.exp(-eta));
+    case 'poisson':
+    case 'negativeBinomial':
+      return Math.exp(Math.min(eta, 700));
+  }
+}
+
+/** dmu/deta for the canonical logit link and the log link */
+function linkDerivative(mu: number, family: GlmFamily): number {
+  switch (family) {
+    case 'binomial':
+      return mu * (1 - mu);
+    case 'poisson':
+    case 'negativeBinomial':
+      return mu;
+  }
+}
+
+function varianceFunction(mu: number, family: GlmFamily, theta: number): number {
+  switch (family) {
+    case 'binomial':
+      return mu * (1 - mu);
+    case 'poisson':
+      return mu;
+    case 'negativeBinomial':
+      return mu + (mu * mu) / theta;
+  }
+}
+
+function computeLogLikelihood(fitted: number[], y: number[], family: GlmFamily, theta = Infinity): number {
+  let ll = 0;
+  for (let i = 0; i < y.length; i++) {
+    switch (family) {
+      case 'binomial': {
+        const mu = Math.min(Math.max(fitted[i], 1e-15), 1 - 1e-15);
+        ll += y[i] * Math.log(mu) + (1 - y[i]) * Math.log(1 - mu);
+        break;
+      }
+      case 'poisson': {
+        const mu = Math.max(fitted[i], 1e-300);
+        ll += y[i] * Math.log(mu) - mu - logGamma(y[i] + 1);
+        break;
+      }
+      case 'negativeBinomial': {
+        const mu = Math.max(fitted[i], 1e-300);
+        ll += logGamma(y[i] + theta) - logGamma(theta) - logGamma(y[i] + 1)
+          + theta * Math.log(theta / (theta + mu)) + y[i] * Math.log(mu / (theta + mu));
+        break;
+      }
+    }
+  }
+  return ll;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Invert a square matrix by Gauss-Jordan elimination with partial pivoting.
+ * Returns null when the matrix is singular (e.g., collinear predictors).
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(1, ...matrix.map(row => Math.max(...row.map(Math.abs))));
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12 * scale) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const divisor = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * Likelihood-ratio test for dropping each non-intercept term: refit the model
+ * without that term's columns and compare log-likelihoods.
+ */
+function likelihoodRatioTests(
+  design: DesignMatrix,
+  fullLogLikelihood: number,
+  family: GlmFamily,
+  options: GlmOptions = {}
+): TermTest[] {
+  const { columns } = design;
+  const termKeys = Array.from(new Set(columns.map(c => c.termKey).filter(k => k !== INTERCEPT_KEY)));
+  return termKeys.map(termKey => {
+    const keep = columns.map((c, j) => (c.termKey === termKey ? -1 : j)).filter(j => j >= 0);
+    const df = columns.length - keep.length;
+    const reduced = selectColumns(design, keep);
+    const reducedFit = fitGlm(reduced.X, reduced.y, family, { ...options, offset: design.offset });
+    const chiSquare = reducedFit.covariance
+      ? Math.max(0, 2 * (fullLogLikelihood - reducedFit.logLikelihood))
+      : NaN;
+    return {
+      termKey,
+      termLabel: columns.find(c => c.termKey === termKey)?.termLabel ?? termKey,
+      degreesOfFreedom: df,
+      chiSquare,
+      pValue: isFinite(chiSquare) ? 1 - chiSquareCDF(chiSquare, df) : NaN,
+    };
+  });
+}
+
+// =============================================================================
+// UNCONDITIONAL LOGISTIC REGRESSION
+// Binary outcome (case = 1, non-case = 0), adjusted odds ratios
+// =============================================================================
+
+export interface LogisticCoefficient extends DesignColumn {
+  estimate: number;
+  standardError: number;
+  oddsRatio: number;
+  oddsRatioCI: [number, number];
+  pValue: number;
+}
+
+export interface TermTest {
+  termKey: string;
+  termLabel: string;
+  degreesOfFreedom: number;
+  /** Likelihood-ratio chi-square for dropping the term from the full model */
+  chiSquare: number;
+  pValue: number;
+}
+
+export interface LogisticRegressionResult {
+  intercept: LogisticCoefficient | null;
+  coefficients: LogisticCoefficient[];
+  termTests: TermTest[];
+  n: number;
+  events: number;
+  excludedCount: number;
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  /** Likelihood-ratio test of the full model against the intercept-only model */
+  modelChiSquare: number;
+  modelDegreesOfFreedom: number;
+  modelPValue: number;
+  iterations: number;
+  converged: boolean;
+  /** Large coefficients or standard errors suggesting (quasi-)complete separation */
+  separationWarning: boolean;
+  warnings: string[];
+}
+
+// Coefficients beyond |10| (OR > 22,000) or SEs beyond 10 on the log-odds
+// scale almost always indicate separation rather than a real effect
+const SEPARATION_COEFFICIENT = 10;
+const SEPARATION_STANDARD_ERROR = 10;
+
+/**
+ * Fit an unconditional logistic regression model by IRLS and report adjusted
+ * odds ratios with Wald CIs, Wald p-values, and likelihood-ratio tests for
+ * dropping each term.
+ */
+export function fitLogisticRegression(design: DesignMatrix): LogisticRegressionResult {
+  const { X, y, columns } = design;
+  const n = y.length;
+  const events = y.filter(v => v === 1).length;
+  const warnings: string[] = [];
+
+  const empty: LogisticRegressionResult = {
+    intercept: null,
+    coefficients: [],
+    termTests: [],
+    n,
+    events,
+    excludedCount: design.excludedCount,
+    logLikelihood: NaN,
+    nullLogLikelihood: NaN,
+    modelChiSquare: NaN,
+    modelDegreesOfFreedom: 0,
+    modelPValue: NaN,
+    iterations: 0,
+    converged: false,
+    separationWarning: false,
+    warnings,
+  };
+
+  if (n === 0 || events === 0 || events === n) {
+    warnings.push('The outcome must include both cases and non-cases among complete records.');
+    return empty;
+  }
+  if (columns.length >= n) {
+    warnings.push(`Too few complete records (${n}) for ${columns.length} model parameters.`);
+    return empty;
+  }
+
+  const fit = fitGlm(X, y, 'binomial');
+  if (!fit.covariance) {
+    warnings.push('The model could not be estimated because predictors are collinear or a level has no records. Remove or recode a predictor.');
+    return empty;
+  }
+
+  const all = columns.map((column, j) => {
+    const estimate = fit.coefficients[j];
+    const standardError = Math.sqrt(Math.max(fit.covariance![j][j], 0));
+    const z = estimate / standardError;
+    return {
+      ...column,
+      estimate,
+      standardError,
+      oddsRatio: Math.exp(estimate),
+      oddsRatioCI: [
+        Math.exp(estimate - 1.96 * standardError),
+        Math.exp(estimate + 1.96 * standardError),
+      ] as [number, number],
+      pValue: isFinite(z) ? 1 - chiSquareCDF(z * z, 1) : NaN,
+    };
+  });
+
+  const coefficients = all.filter(c => c.termKey !== INTERCEPT_KEY);
+  const separationWarning = coefficients.some(c =>
+    Math.abs(c.estimate) > SEPARATION_COEFFICIENT || c.standardError > SEPARATION_STANDARD_ERROR
+  );
+
+  if (!fit.converged) {
+    warnings.push(`The model did not converge after ${MAX_ITERATIONS} iterations; estimates may be unreliable.`);
+  }
+  if (separationWarning) {
+    warnings.push('Very large coefficients or standard errors suggest complete or quasi-complete separation (a predictor level with all cases or no cases). Consider combining levels or removing the predictor.');
+  }
+
+  // Intercept-only model: closed form
+  const pBar = events / n;
+  const nullLogLikelihood = events * Math.log(pBar) + (n - events) * Math.log(1 - pBar);
+  const modelDegreesOfFreedom = columns.length - 1;
+  const modelChiSquare = Math.max(0, 2 * (fit.logLikelihood - nullLogLikelihood));
+
+  const termTests = likelihoodRatioTests(design, fit.logLikelihood, 'binomial');
+
+  return {
+    intercept: all.find(c => c.termKey === INTERCEPT_KEY) ?? null,
+    coefficients,
+    termTests,
+    n,
+    events,
+    excludedCount: design.excludedCount,
+    logLikelihood: fit.logLikelihood,
+    nullLogLikelihood,
+    modelChiSquare,
+    modelDegreesOfFreedom,
+    modelPValue: modelDegreesOfFreedom > 0 ? 1 - chiSquareCDF(modelChiSquare, modelDegreesOfFreedom) : NaN,
+    iterations: fit.iterations,
+    converged: fit.converged,
+    separationWarning,
+    warnings,
+  };
+}
+
+/** Saved model definition shared by the Logistic Regression tab and the Forest Plot */
+export interface LogisticModelSettings {
+  outcomeVar: string;
+  /** Outcome values that count as a case */
+  caseValues: string[];
+  predictors: Array<{ key: string; type: PredictorType; referenceLevel?: string }>;
+}
+
+/**
+ * Window event dispatched after the Logistic Regression tab saves its settings,
+ * so an open Forest Plot refits without waiting for a dataset change. The
+ * `storage` event covers other tabs but never fires in the tab that wrote.
+ */
+export const LOGISTIC_SETTINGS_EVENT = 'epikit:logistic-settings';
+
+/**
+ * Fit the logistic model described by saved settings. Returns null until an
+ * outcome, case values, and at least one existing predictor are chosen.
+ */
+export function fitLogisticModel(
+  records: CaseRecord[],
+  columns: DataColumn[],
+  settings: LogisticModelSettings
+): LogisticRegressionResult | null {
+  if (!settings.outcomeVar || settings.caseValues.length === 0) return null;
+
+  const caseValues = new Set(settings.caseValues);
+  const outcome = (record: CaseRecord): number | null => {
+    const value = record[settings.outcomeVar];
+    if (isMissing(value)) return null;
+    return caseValues.has(String(value)) ? 1 : 0;
+  };
+
+  const specs: PredictorSpec[] = [];
+  settings.predictors.forEach(p => {
+    const column = columns.find(c => c.key === p.key);
+    if (!column) return;
+    specs.push({
+      key: p.key,
+      label: column.label,
+      type: p.type,
+      referenceLevel: p.referenceLevel,
+      levelOrder: column.valueOrder,
+    });
+  });
+  if (specs.length === 0) return null;
+
+  return fitLogisticRegression(buildDesignMatrix(records, outcome, specs));
+}
+
+// =============================================================================
+// POISSON AND NEGATIVE BINOMIAL REGRESSION
+// Counts with an offset for log(population or person-time), rate ratios
+// =============================================================================
+
+export type CountModel = 'poisson' | 'negativeBinomial';
+
+export interface RateRatioCoefficient extends DesignColumn {
+  estimate: number;
+  standardError: number;
+  /** Incidence rate ratio (count ratio when no denominator is given) */
+  rateRatio: number;
+  rateRatioCI: [number, number];
+  pValue: number;
+}
+
+export interface DispersionDiagnostic {
+  /** Pearson chi-square / residual df from the Poisson fit (about 1 for Poisson counts) */
+  pearsonRatio: number;
+  /** Deviance / residual df from the Poisson fit */
+  devianceRatio: number;
+  residualDegreesOfFreedom: number;
+  overdispersed: boolean;
+}
+
+export interface CountRegressionResult {
+  model: CountModel;
+  intercept: RateRatioCoefficient | null;
+  coefficients: RateRatioCoefficient[];
+  termTests: TermTest[];
+  n: number;
+  totalCount: number;
+  /** Sum of the denominators (null when fitted without an offset) */
+  totalExposure: number | null;
+  excludedCount: number;
+  logLikelihood: number;
+  dispersion: DispersionDiagnostic;
+  /** Negative binomial only: variance = mu + mu^2 / theta */
+  theta: number | null;
+  /** Negative binomial only: likelihood-ratio test against the Poisson model */
+  overdispersionTest: { chiSquare: number; pValue: number } | null;
+  iterations: number;
+  converged: boolean;
+  warnings: string[];
+}
+
+// Pearson dispersion above this suggests the Poisson CIs are too narrow
+const OVERDISPERSION_RATIO = 1.5;
+const MAX_THETA = 1e6;
+
+/**
+ * Fit a Poisson or negative binomial regression with a log link. When the
+ * design has an offset, exponentiated coefficients are incidence rate ratios.
+ *
+ * The negative binomial model alternates IRLS for the coefficients with a
+ * Newton-Raphson maximum likelihood update of theta (as in MASS::glm.nb).
+ * Likelihood-ratio term tests hold theta at its full-model estimate.
+ */
+export function fitCountRegression(design: DesignMatrix, model: CountModel): CountRegressionResult {
+  const { X, y, columns, offset } = design;
+  const n = y.length;
+  const totalCount = y.reduce((sum, v) => sum + v, 0);
+  const totalExposure = offset ? offset.reduce((sum, o) => sum + Math.exp(o), 0) : null;
+  const warnings: string[] = [];
+  const residualDegreesOfFreedom = n - columns.length;
+
+  const empty: CountRegressionResult = {
+    model,
+    intercept: null,
+    coefficients: [],
+    termTests: [],
+    n,
+    totalCount,
+    totalExposure,
+    excludedCount: design.excludedCount,
+    logLikelihood: NaN,
+    dispersion: { pearsonRatio: NaN, devianceRatio: NaN, residualDegreesOfFreedom, overdispersed: false },
+    theta: null,
+    overdispersionTest: null,
+    iterations: 0,
+    converged: false,
+    warnings,
+  };
+
+  if (n === 0 || totalCount === 0) {
+    warnings.push('There are no counts among complete records to model.');
+    return empty;
+  }
+  if (residualDegreesOfFreedom < 0) {
+    warnings.push(`Too few complete rows (${n}) for ${columns.length} model parameters.`);
+    return empty;
+  }
+  if (y.some(v => !Number.isInteger(v))) {
+    warnings.push('Some counts are not whole numbers; rate ratios are still estimated but the likelihood is approximate.');
+  }
+
+  const poissonFit = fitGlm(X, y, 'poisson', { offset });
+  if (!poissonFit.covariance) {
+    warnings.push('The model could not be estimated because predictors are collinear or a level has no rows. Remove or recode a predictor.');
+    return empty;
+  }
+
+  // Dispersion diagnostic from the Poisson fit
+  let pearson = 0;
+  let deviance = 0;
+  for (let i = 0; i < n; i++) {
+    const mu = poissonFit.fitted[i];
+    pearson += (y[i] - mu) ** 2 / mu;
+    deviance += 2 * ((y[i] > 0 ? y[i] * Math.log(y[i] / mu) : 0) - (y[i] - mu));
+  }
+  // A saturated model (one row per parameter) leaves nothing to assess dispersion with
+  const pearsonRatio = residualDegreesOfFreedom > 0 ? pearson / residualDegreesOfFreedom : NaN;
+  const dispersion: DispersionDiagnostic = {
+    pearsonRatio,
+    devianceRatio: residualDegreesOfFreedom > 0 ? deviance / residualDegreesOfFreedom : NaN,
+    residualDegreesOfFreedom,
+    overdispersed: pearsonRatio > OVERDISPERSION_RATIO,
+  };
+
+  let fit = poissonFit;
+  let theta: number | null = null;
+  let overdispersionTest: CountRegressionResult['overdispersionTest'] = null;
+
+  if (model === 'negativeBinomial') {
+    theta = estimateTheta(y, poissonFit.fitted, momentTheta(y, poissonFit.fitted));
+    let converged = false;
+    for (let outer = 0; outer < MAX_ITERATIONS; outer++) {
+      const next = fitGlm(X, y, 'negativeBinomial', { offset, theta });
+      if (!next.covariance) break;
+      const nextTheta = estimateTheta(y, next.fitted, theta);
+      const stable = Math.abs(next.logLikelihood - fit.logLikelihood) < 1e-6 && Math.abs(nextTheta - theta) < 1e-4 * theta;
+      fit = next;
+      theta = nextTheta;
+      if (stable) {
+        converged = true;
+        break;
+      }
+    }
+    if (fit === poissonFit) {
+      warnings.push('The negative binomial model could not be estimated; showing the Poisson fit instead.');
+      theta = null;
+    } else {
+      // Refit at the final theta so coefficients and log-likelihood match it
+      fit = fitGlm(X, y, 'negativeBinomial', { offset, theta: theta! });
+      fit = { ...fit, converged: fit.converged && converged };
+      const chiSquare = Math.max(0, 2 * (fit.logLikelihood - poissonFit.logLikelihood));
+      // theta = infinity (Poisson) lies on the boundary: halve the chi-square(1) tail
+      overdispersionTest = { chiSquare, pValue: 0.5 * (1 - chiSquareCDF(chiSquare, 1)) };
+      if (theta! >= MAX_THETA) {
+        warnings.push('No extra-Poisson variation was found (theta is effectively infinite); the Poisson model is adequate.');
+      }
+    }
+  } else if (dispersion.overdispersed) {
+    warnings.push(`The counts are overdispersed (Pearson χ²/df = ${dispersion.pearsonRatio.toFixed(2)}), so Poisson confidence intervals are too narrow. Consider the negative binomial model.`);
+  }
+
+  if (!fit.converged) {
+    warnings.push(`The model did not converge after ${MAX_ITERATIONS} iterations; estimates may be unreliable.`);
+  }
+
+  const all = columns.map((column, j) => {
+    const estimate = fit.coefficients[j];
+    const standardError = Math.sqrt(Math.max(fit.covariance![j][j], 0));
+    const z = estimate / standardError;
+    return {
+      ...column,
+      estimate,
+      standardError,
+      rateRatio: Math.exp(estimate),
+      rateRatioCI: [
+        Math.exp(estimate - 1.96 * standardError),
+        Math.exp(estimate + 1.96 * standardError),
+      ] as [number, number],
+      pValue: isFinite(z) ? 1 - chiSquareCDF(z * z, 1) : NaN,
+    };
+  });
+
+  const family: GlmFamily = theta !== null ? 'negativeBinomial' : 'poisson';
+  return {
+    model: theta !== null ? 'negativeBinomial' : 'poisson',
+    intercept: all.find(c => c.termKey === INTERCEPT_KEY) ?? null,
+    coefficients: all.filter(c => c.termKey !== INTERCEPT_KEY),
+    termTests: likelihoodRatioTests(design, fit.logLikelihood, family, { theta: theta ?? undefined }),
+    n,
+    totalCount,
+    totalExposure,
+    excludedCount: design.excludedCount,
+    logLikelihood: fit.logLikelihood,
+    dispersion,
+    theta,
+    overdispersionTest,
+    iterations: fit.iterations,
+    converged: fit.converged,
+    warnings,
+  };
+}
+
+/** Method-of-moments starting value for theta */
+function momentTheta(y: number[], mu: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < y.length; i++) sum += (y[i] / mu[i] - 1) ** 2;
+  return sum > 0 ? Math.min(y.length / sum, MAX_THETA) : MAX_THETA;
+}
+
+/** Maximum likelihood estimate of theta given fitted means (Newton-Raphson) */
+function estimateTheta(y: number[], mu: number[], initial: number): number {
+  let theta = initial;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let score = 0;
+    let information = 0;
+    for (let i = 0; i < y.length; i++) {
+      score += digamma(theta + y[i]) - digamma(theta) + Math.log(theta) + 1
+        - Math.log(theta + mu[i]) - (y[i] + theta) / (mu[i] + theta);
+      information += -trigamma(theta + y[i]) + trigamma(theta) - 1 / theta
+        + 2 / (mu[i] + theta) - (y[i] + theta) / (mu[i] + theta) ** 2;
+    }
+    if (!(information > 0)) break;
+    const step = score / information;
+    theta = Math.min(Math.max(theta + step, theta / 10), MAX_THETA);
+    if (Math.abs(step) < 1e-8 * theta || theta >= MAX_THETA) break;
+  }
+  return theta;
+}
+
+// Recurrence up to x >= 6, then the asymptotic series
+function digamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result -= 1 / x;
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return result + Math.log(x) - 0.5 / x
+    - f * (1 / 12 - f * (1 / 120 - f * (1 / 252 - f * (1 / 240 - f / 132))));
+}
+
+function trigamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result += 1 / (x * x);
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return result + 1 / x + f / 2 + (f / x) * (1 / 6 - f * (1 / 30 - f * (1 / 42 - f / 30)));
+}
+
+/** Saved model definition for the count regression tab */
+export interface CountModelSettings {
+  countVar: string;
+  /** Population or person-time column used as the offset ('' for none) */
+  exposureVar: string;
+  model: CountModel;
+  predictors: Array<{ key: string; type: PredictorType; referenceLevel?: string }>;
+}
+
+/**
+ * Fit the count model described by saved settings. Returns null until a
+ * count column and at least one existing predictor are chosen.
+ */
+export function fitCountModel(
+  records: CaseRecord[],
+  columns: DataColumn[],
+  settings: CountModelSettings
+): CountRegressionResult | null {
+  if (!settings.countVar) return null;
+
+  const count = (record: CaseRecord): number | null => {
+    const value = toNumber(record[settings.countVar]);
+    return value !== null && value >= 0 ? value : null;
+  };
+  const exposure = settings.exposureVar
+    ? (record: CaseRecord): number | null => toNumber(record[settings.exposureVar])
+    : undefined;
+
+  const specs: PredictorSpec[] = [];
+  settings.predictors.forEach(p => {
+    const column = columns.find(c => c.key === p.key);
+    if (!column) return;
+    specs.push({
+      key: p.key,
+      label: column.label,
+      type: p.type,
+      referenceLevel: p.referenceLevel,
+      levelOrder: column.valueOrder,
+    });
+  });
+  if (specs.length === 0) return null;
+
+  return fitCountRegression(buildDesignMatrix(records, count, specs, exposure), settings.model);
+}
+
+// =============================================================================
+// COUNTS FROM A LINE LIST
+// Joins case records onto a denominator table (like AreaMap's rate metric)
+// =============================================================================
+
+/** Column added to each denominator row holding its matched case count */
+export const AGGREGATED_COUNT_KEY = '__case_count';
+
+export interface CountJoinKey {
+  caseKey: string;
+  denominatorKey: string;
+}
+
+export interface AggregatedCounts {
+  /** Denominator rows with AGGREGATED_COUNT_KEY set */
+  records: CaseRecord[];
+  matchedCaseCount: number;
+  /** Case records with a missing join value or no matching denominator row */
+  unmatchedCaseCount: number;
+  /** Denominator rows sharing a key with an earlier row (they receive no cases) */
+  duplicateDenominatorRows: number;
+}
+
+/**
+ * Count case records per denominator row, matching on one or more key pairs
+ * (e.g., district and age group). Keys are compared after normalization.
+ */
+export function aggregateCountsByDenominator(
+  caseRecords: CaseRecord[],
+  denominatorRecords: CaseRecord[],
+  joins: CountJoinKey[]
+): AggregatedCounts {
+  const keyOf = (record: CaseRecord, side: keyof CountJoinKey): string | null => {
+    const parts = joins.map(join => normalizeAreaKey(record[join[side]]));
+    return parts.some(part => part === '') ? null : parts.join('\u0000');
+  };
+
+  const rowByKey = new Map<string, number>();
+  let duplicateDenominatorRows = 0;
+  denominatorRecords.forEach((record, index) => {
+    const key = keyOf(record, 'denominatorKey');
+    if (key === null) return;
+    if (rowByKey.has(key)) duplicateDenominatorRows++;
+    else rowByKey.set(key, index);
+  });
+
+  const counts = new Array(denominatorRecords.length).fill(0);
+  let matchedCaseCount = 0;
+  caseRecords.forEach(record => {
+    const key = keyOf(record, 'caseKey');
+    const index = key === null ? undefined : rowByKey.get(key);
+    if (index === undefined) return;
+    counts[index]++;
+    matchedCaseCount++;
+  });
+
+  return {
+    records: denominatorRecords.map((record, index) => ({ ...record, [AGGREGATED_COUNT_KEY]: counts[index] })),
+    matchedCaseCount,
+    unmatchedCaseCount: caseRecords.length - matchedCaseCount,
+    duplicateDenominatorRows,
+  };
+}
+
+// =============================================================================
+// CONDITIONAL LOGISTIC REGRESSION
+// Matched case-control sets (1:1 or 1:M), conditioning on each matched set
+// =============================================================================
+
+export interface MatchedObservation {
+  setId: string;
+  isCase: boolean;
+  /** One value per model term (e.g., 1 = exposed, 0 = reference) */
+  covariates: number[];
+}
+
+export interface ConditionalLogisticCoefficient {
+  label: string;
+  estimate: number;
+  standardError: number;
+  oddsRatio: number;
+  oddsRatioCI: [number, number];
+  pValue: number;
+}
+
+export interface ConditionalLogisticResult {
+  coefficients: ConditionalLogisticCoefficient[];
+  setsUsed: number;
+  casesUsed: number;
+  controlsUsed: number;
+  /** Matched sets left out: no case, no control, or more than one case */
+  excludedSets: { noCase: number; noControl: number; multipleCases: number };
+  logLikelihood: number;
+  /** Conditional log-likelihood with all coefficients at zero */
+  nullLogLikelihood: number;
+  /** Likelihood-ratio test of all coefficients against zero */
+  lrChiSquare: number;
+  lrDegreesOfFreedom: number;
+  lrPValue: number;
+  iterations: number;
+  converged: boolean;
+  warnings: string[];
+}
+
+/**
+ * Fit a conditional logistic regression to matched sets with exactly one case
+ * each. The conditional likelihood for a set is exp(b·x_case) / sum_j exp(b·x_j),
+ * so matching factors cancel and only within-set contrasts are used. With
+ * 1:1 pairs and one binary exposure the estimate equals the discordant-pair
+ * ratio f / g.
+ */
+export function fitConditionalLogistic(observations: MatchedObservation[], labels: string[]): ConditionalLogisticResult {
+  const p = labels.length;
+  const warnings: string[] = [];
+
+  const bySet = new Map<string, MatchedObservation[]>();
+  observations.forEach(obs => {
+    const members = bySet.get(obs.setId);
+    if (members) members.push(obs);
+    else bySet.set(obs.setId, [obs]);
+  });
+
+  const excludedSets = { noCase: 0, noControl: 0, multipleCases: 0 };
+  // Each usable set: covariates of the case followed by those of its controls
+  const sets: number[][][] = [];
+  let controlsUsed = 0;
+  bySet.forEach(members => {
+    const cases = members.filter(m => m.isCase);
+    const controls = members.filter(m => !m.isCase);
+    if (cases.length === 0) excludedSets.noCase++;
+    else if (controls.length === 0) excludedSets.noControl++;
+    else if (cases.length > 1) excludedSets.multipleCases++;
+    else {
+      sets.push([cases[0].covariates, ...controls.map(c => c.covariates)]);
+      controlsUsed += controls.length;
+    }
+  });
+
+  if (excludedSets.multipleCases > 0) {
+    warnings.push(`${excludedSets.multipleCases} matched set${excludedSets.multipleCases !== 1 ? 's have' : ' has'} more than one case and ${excludedSets.multipleCases !== 1 ? 'were' : 'was'} excluded; split them into 1:M sets to include them.`);
+  }
+
+  // Conditional log-likelihood, score and information at beta
+  const evaluate = (beta: number[]) => {
+    let ll = 0;
+    const score = new Array(p).fill(0);
+    const information = Array.from({ length: p }, () => new Array(p).fill(0));
+    for (const members of sets) {
+      const eta = members.map(x => dot(x, beta));
+      const maxEta = Math.max(...eta);
+      const weights = eta.map(e => Math.exp(e - maxEta));
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      ll += eta[0] - maxEta - Math.log(total);
+
+      const mean = new Array(p).fill(0);
+      members.forEach((x, j) => {
+        for (let k = 0; k < p; k++) mean[k] += (weights[j] / total) * x[k];
+      });
+      for (let k = 0; k < p; k++) score[k] += members[0][k] - mean[k];
+      members.forEach((x, j) => {
+        const w = weights[j] / total;
+        for (let k = 0; k < p; k++) {
+          for (let l = 0; l < p; l++) {
+            information[k][l] += w * (x[k] - mean[k]) * (x[l] - mean[l]);
+          }
+        }
+      });
+    }
+    return { ll, score, information };
+  };
+
+  const nullLogLikelihood = sets.reduce((sum, members) => sum - Math.log(members.length), 0);
+  const empty: ConditionalLogisticResult = {
+    coefficients: [],
+    setsUsed: sets.length,
+    casesUsed: sets.length,
+    controlsUsed,
+    excludedSets,
+    logLikelihood: NaN,
+    nullLogLikelihood,
+    lrChiSquare: NaN,
+    lrDegreesOfFreedom: p,
+    lrPValue: NaN,
+    iterations: 0,
+    converged: false,
+    warnings,
+  };
+
+  if (sets.length === 0 || p === 0) {
+    warnings.push('No matched sets contain both a case and a control with complete data.');
+    return empty;
+  }
+
+  let beta = new Array(p).fill(0);
+  let current = evaluate(beta);
+  let covariance = invertMatrix(current.information);
+  let converged = false;
+  let iterations = 0;
+
+  for (iterations = 1; iterations <= MAX_ITERATIONS && covariance; iterations++) {
+    const step = covariance.map(row => dot(row, current.score));
+    // Step halving keeps the conditional log-likelihood from decreasing
+    let scale = 1;
+    let next = beta.map((b, k) => b + step[k]);
+    let nextEval = evaluate(next);
+    while (nextEval.ll < current.ll - 1e-10 && scale > 1e-4) {
+      scale /= 2;
+      next = beta.map((b, k) => b + scale * step[k]);
+      nextEval = evaluate(next);
+    }
+    const change = Math.abs(nextEval.ll - current.ll);
+    beta = next;
+    current = nextEval;
+    covariance = invertMatrix(current.information);
+    if (change < CONVERGENCE_TOLERANCE * (Math.abs(current.ll) + 1)) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!covariance) {
+    warnings.push('The model could not be estimated: an exposure does not vary within any matched set, or within discordant sets it is always (or never) found in the case.');
+    return { ...empty, iterations: Math.min(iterations, MAX_ITERATIONS) };
+  }
+
+  const coefficients = labels.map((label, k) => {
+    const estimate = beta[k];
+    const standardError = Math.sqrt(Math.max(covariance![k][k], 0));
+    const z = estimate / standardError;
+    return {
+      label,
+      estimate,
+      standardError,
+      oddsRatio: Math.exp(estimate),
+      oddsRatioCI: [
+        Math.exp(estimate - 1.96 * standardError),
+        Math.exp(estimate + 1.96 * standardError),
+      ] as [number, number],
+      pValue: isFinite(z) ? 1 - chiSquareCDF(z * z, 1) : NaN,
+    };
+  });
+
+  if (!converged) {
+    warnings.push(`The model did not converge after ${MAX_ITERATIONS} iterations; estimates may be unreliable.`);
+  }
+  if (coefficients.some(c => Math.abs(c.estimate) > SEPARATION_COEFFICIENT || c.standardError > SEPARATION_STANDARD_ERROR)) {
+    warnings.push('Very large coefficients or standard errors suggest that, within discordant sets, the exposure is always (or never) found in the case. The odds ratio is not estimable.');
+  }
+
+  const lrChiSquare = Math.max(0, 2 * (current.ll - nullLogLikelihood));
+  return {
+    coefficients,
+    setsUsed: sets.length,
+    casesUsed: sets.length,
+    controlsUsed,
+    excludedSets,
+    logLikelihood: current.ll,
+    nullLogLikelihood,
+    lrChiSquare,
+    lrDegreesOfFreedom: p,
+    lrPValue: 1 - chiSquareCDF(lrChiSquare, p),
+    iterations: Math.min(iterations, MAX_ITERATIONS),
+    converged,
+    warnings,
+  };
+}
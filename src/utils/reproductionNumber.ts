@@ -0,0 +1,136 @@
+/**
+ * Time-varying Reproduction Number (Rt)
+ *
+ * Estimates how many secondary cases each case generates over the course of an
+ * outbreak from the epidemic curve, using the sliding-window Bayesian method of
+ * Cori et al. (the EpiEstim "parametric_si" approach).
+ *
+ * CONTENTS:
+ *
+ * 1. SERIAL INTERVAL
+ *    - Gamma serial interval discretized onto whole time steps (bins)
+ *
+ * 2. CORI ESTIMATOR
+ *    - Total infectiousness Λₜ = Σₖ Iₜ₋ₖ wₖ
+ *    - Gamma posterior for R over each window of τ bins ending at t:
+ *      shape a + Σ Iₛ, scale 1 / (1/b + Σ Λₛ), with a Gamma(mean 5, SD 5) prior
+ *    - Posterior mean, SD and 95% credible interval per bin
+ *
+ * Time steps are epi curve bins, so the serial interval (in days) is rescaled
+ * to the bin width and must span more than one bin.
+ *
+ * References:
+ * - Cori A, Ferguson NM, Fraser C, Cauchemez S. A new framework and software to
+ *   estimate time-varying reproduction numbers during epidemics. Am J Epidemiol
+ *   2013;178:1505-1512 (and Web Appendix 11 for the discretization).
+ */
+import { chiSquareCDF, chiSquareQuantile } from './statistics';
+
+// =============================================================================
+// SERIAL INTERVAL
+// =============================================================================
+
+/** Gamma CDF with the given shape and scale */
+function gammaDistributionCDF(x: number, shape: number, scale: number): number {
+  return x <= 0 ? 0 : chiSquareCDF((2 * x) / scale, 2 * shape);
+}
+
+/**
+ * Discretized serial interval w₀, w₁, ... on unit time steps: a gamma with the
+ * given mean and SD, offset by one step, so that w₀ = 0 and the distribution
+ * keeps the requested mean. Truncated once 99.99% of the mass is covered and
+ * renormalized. Returns null unless mean > 1 and sd > 0.
+ */
+export function discretizeSerialInterval(mean: number, sd: number): number[] | null {
+  if (!(mean > 1) || !(sd > 0)) return null;
+  const shape = Math.pow((mean - 1) / sd, 2);
+  const scale = (sd * sd) / (mean - 1);
+  const F = (k: number, a: number) => gammaDistributionCDF(k, a, scale);
+
+  const weights: number[] = [];
+  let total = 0;
+  for (let k = 0; k < 10000 && (k < 2 || total < 0.9999); k++) {
+    const w =
+      k * F(k, shape) + (k - 2) * F(k - 2, shape) - 2 * (k - 1) * F(k - 1, shape) +
+      shape * scale * (2 * F(k - 1, shape + 1) - F(k - 2, shape + 1) - F(k, shape + 1));
+    const weight = Math.max(0, w);
+    weights.push(weight);
+    total += weight;
+  }
+  return total > 0 ? weights.map(w => w / total) : null;
+}
+
+// =============================================================================
+// CORI ESTIMATOR
+// =============================================================================
+
+export interface RtOptions {
+  /** Window length in bins (EpiEstim default: 7) */
+  windowSize: number;
+  /** Prior mean and SD of R (Cori et al.: 5 and 5) */
+  priorMean?: number;
+  priorSd?: number;
+  /** Skip windows ending before this many cumulative cases (Cori et al. suggest 12) */
+  minCumulativeCases?: number;
+}
+
+export interface RtEstimate {
+  /** Index of the first bin in the window; the estimate belongs to the last bin */
+  windowStart: number;
+  mean: number;
+  sd: number;
+  /** 95% credible interval */
+  lower: number;
+  upper: number;
+  /** Cases in the window; the posterior CV is about 1/√(cases) */
+  casesInWindow: number;
+}
+
+/** Total infectiousness Λₜ = Σₖ₌₁ Iₜ₋ₖ wₖ for each time step */
+export function totalInfectiousness(incidence: number[], serialInterval: number[]): number[] {
+  return incidence.map((_, t) => {
+    let lambda = 0;
+    for (let k = 1; k <= t && k < serialInterval.length; k++) {
+      lambda += incidence[t - k] * serialInterval[k];
+    }
+    return lambda;
+  });
+}
+
+/**
+ * Rt for each window of `windowSize` bins, assigned to the window's last bin.
+ * Entries are null where the window would include the first bin, where no
+ * earlier cases contribute infectiousness, or before enough cases accumulate.
+ */
+export function estimateRt(incidence: number[], serialInterval: number[], options: RtOptions): Array<RtEstimate | null> {
+  const { windowSize, priorMean = 5, priorSd = 5, minCumulativeCases = 12 } = options;
+  const priorShape = Math.pow(priorMean / priorSd, 2);
+  const priorScale = (priorSd * priorSd) / priorMean;
+  const lambda = totalInfectiousness(incidence, serialInterval);
+
+  let cumulative = 0;
+  return incidence.map((cases, t) => {
+    cumulative += cases;
+    const windowStart = t - windowSize + 1;
+    if (windowSize < 1 || windowStart < 1 || cumulative < minCumulativeCases) return null;
+
+    let casesInWindow = 0;
+    let lambdaInWindow = 0;
+    for (let s = windowStart; s <= t; s++) {
+      casesInWindow += incidence[s];
+      lambdaInWindow += lambda[s];
+    }
+    if (lambdaInWindow <= 0) return null;
+
+    const shape = priorShape + casesInWindow;
+    const rate = 1 / priorScale + lambdaInWindow;
+    return {
+      windowStart,
+      mean: shape / rate,
+      sd: Math.sqrt(shape) / rate,
+      lower: chiSquareQuantile(0.025, 2 * shape) / (2 * rate),
+      upper: chiSquareQuantile(0.975, 2 * shape) / (2 * rate),
+      casesInWindow,
+    };
+  });
+}
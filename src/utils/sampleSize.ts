@@ -0,0 +1,213 @@
+/**
+ * Sample Size and Power
+ *
+ * Study planning calculations for the Sample Size calculator in the
+ * Analysis workflow, using the same formulas as OpenEpi's "Sample Size" and
+ * "Power" modules for unmatched two-group studies and proportion surveys.
+ *
+ * CONTENTS:
+ *
+ * 1. TWO-GROUP STUDIES (unmatched cohort / cross-sectional / case-control)
+ *    - Sample size by Kelsey, Fleiss, and Fleiss with continuity correction
+ *    - Power for fixed group sizes (Fleiss, with and without correction)
+ *    - Smallest detectable effect (RR or OR) for fixed group sizes
+ *    - Conversions between RR/OR and the proportion in the index group
+ *
+ * 2. SINGLE-PROPORTION SURVEYS
+ *    - Sample size for a desired absolute precision, inflated by the design
+ *      effect and reduced by the finite population correction
+ *
+ * Group 1 is the exposed group (cohort) or the cases (case-control); group 0
+ * is the unexposed group or the controls. `ratio` is group 0 size per group 1.
+ *
+ * References:
+ * - Kelsey JL, Whittemore AS, Evans AS, Thompson WD. Methods in Observational
+ *   Epidemiology. 2nd ed. 1996. Chapter 12.
+ * - Fleiss JL, Levin B, Paik MC. Statistical Methods for Rates and
+ *   Proportions. 3rd ed. 2003. Chapter 4.
+ * - Dean AG, Sullivan KM, Soe MM. OpenEpi: Open Source Epidemiologic
+ *   Statistics for Public Health. www.OpenEpi.com
+ */
+import { normalCDF, normalQuantile } from './statistics';
+
+// =============================================================================
+// TWO-GROUP STUDIES
+// =============================================================================
+
+export type SampleSizeMethod = 'kelsey' | 'fleiss' | 'fleissCC';
+
+export const SAMPLE_SIZE_METHOD_LABELS: Record<SampleSizeMethod, string> = {
+  kelsey: 'Kelsey',
+  fleiss: 'Fleiss',
+  fleissCC: 'Fleiss with continuity correction',
+};
+
+export interface TwoGroupDesign {
+  /** Two-sided significance level, e.g. 0.05 */
+  alpha: number;
+  /** Group 0 size per group 1 (unexposed per exposed, controls per case) */
+  ratio: number;
+  /** Proportion with the outcome (cohort) or exposed (case-control) in group 0 */
+  p0: number;
+  /** The same proportion in group 1 */
+  p1: number;
+}
+
+export interface TwoGroupSampleSize {
+  method: SampleSizeMethod;
+  n1: number;
+  n0: number;
+  total: number;
+}
+
+export interface TwoGroupPower {
+  fleiss: number;
+  fleissCC: number;
+}
+
+const isProportion = (p: number) => p > 0 && p < 1;
+
+function isValidDesign({ alpha, ratio, p0, p1 }: TwoGroupDesign): boolean {
+  return isProportion(alpha) && ratio > 0 && isProportion(p0) && isProportion(p1) && p0 !== p1;
+}
+
+/** Weighted average proportion p̄ = (p₁ + r·p₀) / (1 + r) */
+function pooledProportion({ ratio, p0, p1 }: TwoGroupDesign): number {
+  return (p1 + ratio * p0) / (1 + ratio);
+}
+
+/** Continuity-corrected group 1 size from the uncorrected one (Fleiss) */
+function continuityCorrect(n1: number, ratio: number, delta: number): number {
+  return (n1 / 4) * Math.pow(1 + Math.sqrt(1 + (2 * (ratio + 1)) / (n1 * ratio * delta)), 2);
+}
+
+/**
+ * Sample size for comparing two proportions with the given power. Sizes are
+ * rounded up to whole subjects; returns an empty list for invalid inputs.
+ */
+export function twoGroupSampleSize(design: TwoGroupDesign, power: number): TwoGroupSampleSize[] {
+  if (!isValidDesign(design) || !isProportion(power)) return [];
+  const { alpha, ratio, p0, p1 } = design;
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const delta = Math.abs(p1 - p0);
+  const pBar = pooledProportion(design);
+  const qBar = 1 - pBar;
+
+  const kelsey = (Math.pow(zAlpha + zBeta, 2) * pBar * qBar * (ratio + 1)) / (ratio * delta * delta);
+  const fleiss = Math.pow(
+    zAlpha * Math.sqrt((ratio + 1) * pBar * qBar) + zBeta * Math.sqrt(ratio * p1 * (1 - p1) + p0 * (1 - p0)),
+    2
+  ) / (ratio * delta * delta);
+  const fleissCC = continuityCorrect(fleiss, ratio, delta);
+
+  return ([['kelsey', kelsey], ['fleiss', fleiss], ['fleissCC', fleissCC]] as const).map(([method, exact]) => {
+    const n1 = Math.ceil(exact);
+    const n0 = Math.ceil(exact * ratio);
+    return { method, n1, n0, total: n1 + n0 };
+  });
+}
+
+/**
+ * Power to detect the difference between p1 and p0 with n1 subjects in
+ * group 1 (and n1 × ratio in group 0), by the normal approximation. The
+ * corrected power inverts the continuity correction before solving for z_β.
+ */
+export function twoGroupPower(design: TwoGroupDesign, n1: number): TwoGroupPower | null {
+  if (!isValidDesign(design) || !(n1 > 0)) return null;
+  const { alpha, ratio, p0, p1 } = design;
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const delta = Math.abs(p1 - p0);
+  const pBar = pooledProportion(design);
+  const spread = Math.sqrt(ratio * p1 * (1 - p1) + p0 * (1 - p0));
+
+  const powerFor = (n: number) => {
+    const zBeta = (Math.sqrt(n * ratio) * delta - zAlpha * Math.sqrt((ratio + 1) * pBar * (1 - pBar))) / spread;
+    return normalCDF(zBeta);
+  };
+
+  const correction = (ratio + 1) / (2 * ratio * delta);
+  const uncorrectedN = n1 > correction ? Math.pow(n1 - correction, 2) / n1 : 0;
+  return { fleiss: powerFor(n1), fleissCC: powerFor(uncorrectedN) };
+}
+
+/**
+ * Smallest p1 above (or largest below) p0 detectable with the given power and
+ * group sizes, by bisection on the continuity-corrected power. Null when even
+ * p1 near 0 or 1 does not reach the power.
+ */
+export function detectableProportion(
+  design: Omit<TwoGroupDesign, 'p1'>,
+  power: number,
+  n1: number,
+  direction: 'increase' | 'decrease'
+): number | null {
+  const edge = direction === 'increase' ? 1 - 1e-9 : 1e-9;
+  const powerAt = (p1: number) => twoGroupPower({ ...design, p1 }, n1)?.fleissCC ?? 0;
+  if (!isProportion(power) || powerAt(edge) < power) return null;
+
+  let near = design.p0;
+  let far = edge;
+  for (let i = 0; i < 100 && Math.abs(far - near) > 1e-10; i++) {
+    const mid = (near + far) / 2;
+    if (powerAt(mid) >= power) far = mid;
+    else near = mid;
+  }
+  return far;
+}
+
+/** Proportion exposed among cases implied by the OR and the proportion among controls */
+export function proportionFromOddsRatio(p0: number, oddsRatio: number): number {
+  return (oddsRatio * p0) / (1 + p0 * (oddsRatio - 1));
+}
+
+export function oddsRatioFromProportions(p1: number, p0: number): number {
+  return (p1 / (1 - p1)) / (p0 / (1 - p0));
+}
+
+// =============================================================================
+// SINGLE-PROPORTION SURVEYS
+// =============================================================================
+
+export interface SurveyDesign {
+  /** Anticipated proportion, e.g. 0.5 for the most conservative size */
+  proportion: number;
+  /** Absolute precision (half-width of the CI), e.g. 0.05 for ±5 points */
+  precision: number;
+  /** Confidence level, e.g. 0.95 */
+  confidence: number;
+  /** Design effect for cluster sampling (1 for simple random sampling) */
+  designEffect: number;
+  /** Population size; omit or 0 for a very large population (no FPC) */
+  populationSize?: number;
+}
+
+export interface SurveySampleSize {
+  /** Simple random sample size for an infinite population */
+  simpleRandom: number;
+  /** After multiplying by the design effect */
+  withDesignEffect: number;
+  /** After the finite population correction; equals withDesignEffect without one */
+  required: number;
+}
+
+/**
+ * n = deff · N · p(1 - p) / [(d²/z²)(N - 1) + p(1 - p)], which tends to
+ * deff · z² · p(1 - p) / d² as N grows. Sizes are rounded up.
+ */
+export function surveySampleSize(design: SurveyDesign): SurveySampleSize | null {
+  const { proportion: p, precision: d, confidence, designEffect, populationSize } = design;
+  if (!isProportion(p) || !isProportion(d) || !isProportion(confidence) || !(designEffect >= 1)) return null;
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const pq = p * (1 - p);
+  const simpleRandom = (z * z * pq) / (d * d);
+  const withDesignEffect = simpleRandom * designEffect;
+  const N = populationSize && populationSize > 0 ? populationSize : null;
+  const required = N ? (designEffect * N * pq) / (((d * d) / (z * z)) * (N - 1) + pq) : withDesignEffect;
+
+  return {
+    simpleRandom: Math.ceil(simpleRandom),
+    withDesignEffect: Math.ceil(withDesignEffect),
+    required: Math.ceil(N ? Math.min(required, N) : required),
+  };
+}
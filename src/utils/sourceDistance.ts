@@ -0,0 +1,233 @@
+/**
+ * Distance to Suspected Sources
+ *
+ * Case counts and attack rates by distance from point sources such as cooling
+ * towers, wells or food outlets, and the distance from each record to its
+ * nearest source for use as an exposure variable.
+ *
+ * CONTENTS:
+ *
+ * 1. NEAREST SOURCE
+ *    - Great-circle (haversine) distance in metres to the closest source
+ *
+ * 2. DISTANCE BANDS
+ *    - Concentric rings [0, r1), [r1, r2), ..., and "r_k or more"; each point
+ *      falls in the band of its nearest source, so overlapping buffers around
+ *      several sources are not counted twice
+ *    - Attack rates per band: an entered population is the denominator where
+ *      given, otherwise mapped cases plus non-cases
+ *    - Risk ratios against the farthest band with a denominator, and the
+ *      chi-square for trend across bands (scored 1, 2, 3, ... outward) when
+ *      they all use the same kind of denominator
+ *
+ * References:
+ * - Bhopal RS, Diggle P, Rowlingson B. Pinpointing clusters of apparently
+ *   sporadic cases of Legionnaires' disease. BMJ 1992;304:1022-7.
+ * - Elliott P, Wartenberg D. Spatial epidemiology: current approaches and
+ *   future challenges. Environ Health Perspect 2004;112:998-1006.
+ */
+
+import { haversineKm } from './spatialScan';
+import { calculateDoseResponse, wilsonCI } from './statistics';
+
+// =============================================================================
+// NEAREST SOURCE
+// =============================================================================
+
+export interface SourcePoint {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface NearestSource {
+  source: SourcePoint;
+  distanceMeters: number;
+}
+
+/** Closest source to a location; null when there are no sources */
+export function nearestSource(lat: number, lng: number, sources: SourcePoint[]): NearestSource | null {
+  let nearest: NearestSource | null = null;
+  sources.forEach(source => {
+    const distanceMeters = haversineKm(lat, lng, source.lat, source.lng) * 1000;
+    if (!nearest || distanceMeters < nearest.distanceMeters) nearest = { source, distanceMeters };
+  });
+  return nearest;
+}
+
+// =============================================================================
+// DISTANCE BANDS
+// =============================================================================
+
+export interface BandPoint {
+  lat: number;
+  lng: number;
+  isCase: boolean;
+}
+
+export interface DistanceBandOptions {
+  /** Outer edges of the rings in metres, ascending */
+  radiiMeters: number[];
+  /** Population per band, keyed by distanceBandKey, used as the denominator where given */
+  populations?: Record<string, number>;
+}
+
+export type BandDenominator = 'population' | 'points';
+
+export interface DistanceBand {
+  /** Stable identifier from the band's radii (see distanceBandKey) */
+  key: string;
+  label: string;
+  innerMeters: number;
+  /** Null for the open outer band */
+  outerMeters: number | null;
+  cases: number;
+  /** Mapped points that are not cases */
+  nonCases: number;
+  population: number | null;
+  denominatorSource: BandDenominator | null;
+  denominator: number | null;
+  /** Percent; NaN without a denominator */
+  attackRate: number;
+  attackRateCI: [number, number];
+  isReference: boolean;
+  /** Against the reference band; NaN without a denominator */
+  riskRatio: number;
+  riskRatioCI: [number, number];
+}
+
+export interface DistanceBandResult {
+  bands: DistanceBand[];
+  totalCases: number;
+  /**
+   * Chi-square for trend in attack rates with distance (1 df); NaN when
+   * untestable or when bands mix entered populations and mapped points
+   */
+  trendChiSquare: number;
+  trendPValue: number;
+}
+
+/** Parse "100, 250 500" into ascending, distinct, positive radii */
+export function parseBandRadii(text: string): number[] {
+  const values = text
+    .split(/[\s,;]+/)
+    .map(part => Number(part))
+    .filter(value => Number.isFinite(value) && value > 0);
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+/** Metres below 1 km, kilometres above, e.g. "250 m", "1.5 km" */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${Number((meters / 1000).toFixed(meters < 10000 ? 2 : 1))} km`;
+}
+
+/** Label for each band, e.g. "0 - 250 m", "250 m - 1 km", "1 km or more" */
+export function distanceBandLabels(radiiMeters: number[]): string[] {
+  const labels = radiiMeters.map((outer, index) => {
+    const inner = index === 0 ? 0 : radiiMeters[index - 1];
+    return index === 0 ? `0 - ${formatDistance(outer)}` : `${formatDistance(inner)} - ${formatDistance(outer)}`;
+  });
+  if (radiiMeters.length > 0) labels.push(`${formatDistance(radiiMeters[radiiMeters.length - 1])} or more`);
+  return labels;
+}
+
+/**
+ * Key for a band from its radii, e.g. "0-250" or "1000-" for the open outer
+ * band. Labels round distances, so two bands can share one.
+ */
+export function distanceBandKey(innerMeters: number, outerMeters: number | null): string {
+  return `${innerMeters}-${outerMeters ?? ''}`;
+}
+
+/** Key for each band of distanceBandLabels, in the same order */
+export function distanceBandKeys(radiiMeters: number[]): string[] {
+  if (radiiMeters.length === 0) return [];
+  return [...radiiMeters, null].map((outer, index) => distanceBandKey(index === 0 ? 0 : radiiMeters[index - 1], outer));
+}
+
+/**
+ * Points tallied by the band of their nearest source. Empty without sources
+ * or radii.
+ */
+export function distanceBands(
+  points: BandPoint[],
+  sources: SourcePoint[],
+  options: DistanceBandOptions
+): DistanceBandResult {
+  const { radiiMeters, populations = {} } = options;
+  if (sources.length === 0 || radiiMeters.length === 0) {
+    return { bands: [], totalCases: 0, trendChiSquare: NaN, trendPValue: NaN };
+  }
+
+  const labels = distanceBandLabels(radiiMeters);
+  const keys = distanceBandKeys(radiiMeters);
+  const cases = new Array<number>(labels.length).fill(0);
+  const nonCases = new Array<number>(labels.length).fill(0);
+  points.forEach(point => {
+    const nearest = nearestSource(point.lat, point.lng, sources);
+    if (!nearest) return;
+    const ring = radiiMeters.findIndex(radius => nearest.distanceMeters < radius);
+    const band = ring === -1 ? radiiMeters.length : ring;
+    if (point.isCase) cases[band]++;
+    else nonCases[band]++;
+  });
+  const hasNonCases = nonCases.some(count => count > 0);
+
+  const counted = labels.map((label, index) => {
+    const key = keys[index];
+    const population = Number.isFinite(populations[key]) && populations[key] > 0 ? populations[key] : null;
+    const denominatorSource: BandDenominator | null = population !== null ? 'population' : hasNonCases ? 'points' : null;
+    const denominator = population !== null
+      ? Math.max(population, cases[index])
+      : denominatorSource === 'points' ? cases[index] + nonCases[index] : null;
+    return { key, label, index, population, denominatorSource, denominator };
+  });
+
+  // Risk ratios and the trend test over the bands that have a denominator,
+  // against the farthest of them. A trend across entered populations and
+  // mapped points would mix two different denominators, so it is left out.
+  const withDenominator = counted.filter(band => band.denominator !== null && band.denominator > 0);
+  const reference = withDenominator[withDenominator.length - 1];
+  const doseResponse = withDenominator.length > 0
+    ? calculateDoseResponse(
+      withDenominator.map(band => ({
+        label: band.key,
+        cases: cases[band.index],
+        nonCases: (band.denominator as number) - cases[band.index],
+      })),
+      reference.key
+    )
+    : null;
+  const sameDenominator = withDenominator.every(band => band.denominatorSource === withDenominator[0].denominatorSource);
+
+  const bands: DistanceBand[] = counted.map(band => {
+    const level = doseResponse?.levels.find(l => l.label === band.key);
+    return {
+      key: band.key,
+      label: band.label,
+      innerMeters: band.index === 0 ? 0 : radiiMeters[band.index - 1],
+      outerMeters: band.index < radiiMeters.length ? radiiMeters[band.index] : null,
+      cases: cases[band.index],
+      nonCases: nonCases[band.index],
+      population: band.population,
+      denominatorSource: band.denominatorSource,
+      denominator: band.denominator,
+      attackRate: level ? level.attackRate : NaN,
+      attackRateCI: level
+        ? wilsonCI(level.cases, level.total).map(value => value * 100) as [number, number]
+        : [NaN, NaN],
+      isReference: level?.isReference ?? false,
+      riskRatio: level ? level.riskRatio : NaN,
+      riskRatioCI: level ? level.riskRatioCI : [NaN, NaN],
+    };
+  });
+
+  return {
+    bands,
+    totalCases: cases.reduce((sum, count) => sum + count, 0),
+    trendChiSquare: doseResponse && sameDenominator ? doseResponse.trendChiSquare : NaN,
+    trendPValue: doseResponse && sameDenominator ? doseResponse.trendPValue : NaN,
+  };
+}
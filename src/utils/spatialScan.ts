@@ -0,0 +1,467 @@
+/**
+ * Spatial Scan Statistic
+ *
+ * Kulldorff's circular scan for spatial clusters of cases. Circles centred on
+ * each location grow to take in its nearest neighbours; the circle whose
+ * inside is most unlike its outside (highest likelihood ratio) is the most
+ * likely cluster, and Monte Carlo replication under the null hypothesis gives
+ * its p-value.
+ *
+ * CONTENTS:
+ *
+ * 1. LOCATIONS
+ *    - Bernoulli model: case and control points (points at the same
+ *      coordinates are pooled into one location)
+ *    - Poisson model: area counts with populations, placed at area centroids
+ *    - Polygon centroids for GeoJSON geometries
+ *
+ * 2. SCAN
+ *    - Circles up to a maximum share of the total population (or of all
+ *      points for the Bernoulli model), scanning for high rates only
+ *    - Log likelihood ratios for the Bernoulli and Poisson models
+ *    - Secondary clusters that share no location with a more likely cluster
+ *
+ * 3. SIGNIFICANCE
+ *    - Replicates under the null (case labels shuffled among points, or cases
+ *      reallocated to areas in proportion to population), seeded so results
+ *      are reproducible; p = (1 + replicates at least as extreme) / (R + 1)
+ *    - Secondary clusters are compared with the most likely cluster of each
+ *      replicate, which makes their p-values conservative
+ *    - A scan that runs the replicates a batch at a time, so a long run can
+ *      yield to the page, report progress and be abandoned
+ *
+ * References:
+ * - Kulldorff M. A spatial scan statistic. Commun Stat Theory Methods
+ *   1997;26:1481-96.
+ * - Kulldorff M, Nagarwalla N. Spatial disease clusters: detection and
+ *   inference. Stat Med 1995;14:799-810.
+ * - Kulldorff M. SaTScan User Guide for version 10.1. 2022.
+ */
+import { seededRandom } from './random';
+
+// =============================================================================
+// LOCATIONS
+// =============================================================================
+
+export type ScanModel = 'bernoulli' | 'poisson';
+
+export const SCAN_MODEL_LABELS: Record<ScanModel, string> = {
+  bernoulli: 'Bernoulli (cases and controls)',
+  poisson: 'Poisson (counts and populations)',
+};
+
+export interface ScanLocation {
+  id: string;
+  lat: number;
+  lng: number;
+  cases: number;
+  /** Cases plus controls (Bernoulli) or population at risk (Poisson) */
+  population: number;
+}
+
+export interface ScanPoint {
+  id: string;
+  lat: number;
+  lng: number;
+  isCase: boolean;
+}
+
+/** Pool case and control points that share coordinates; the first point's ID names the location */
+export function pointsToLocations(points: ScanPoint[]): ScanLocation[] {
+  const byCoordinate = new Map<string, ScanLocation>();
+  points.forEach(point => {
+    const key = `${point.lat},${point.lng}`;
+    const location = byCoordinate.get(key) ?? { id: point.id, lat: point.lat, lng: point.lng, cases: 0, population: 0 };
+    location.population++;
+    if (point.isCase) location.cases++;
+    byCoordinate.set(key, location);
+  });
+  return Array.from(byCoordinate.values());
+}
+
+/**
+ * Centroid of a GeoJSON Point, Polygon or MultiPolygon as [lat, lng], using
+ * planar area weights (holes subtract). Null for other geometry types.
+ */
+export function geometryCentroid(geometry: unknown): [number, number] | null {
+  if (!geometry || typeof geometry !== 'object') return null;
+  const { type, coordinates } = geometry as { type?: string; coordinates?: unknown };
+  if (type === 'Point' && Array.isArray(coordinates)) {
+    const [lng, lat] = coordinates as number[];
+    return isFinite(lat) && isFinite(lng) ? [lat, lng] : null;
+  }
+  const polygons = type === 'Polygon' ? [coordinates as number[][][]]
+    : type === 'MultiPolygon' ? coordinates as number[][][][]
+      : null;
+  if (!Array.isArray(polygons)) return null;
+
+  let area = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let vertexCount = 0;
+  let vertexX = 0;
+  let vertexY = 0;
+  polygons.forEach(rings => {
+    (rings ?? []).forEach((ring, ringIndex) => {
+      let ringArea = 0;
+      let ringX = 0;
+      let ringY = 0;
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [x0, y0] = ring[i];
+        const [x1, y1] = ring[i + 1];
+        const cross = x0 * y1 - x1 * y0;
+        ringArea += cross;
+        ringX += (x0 + x1) * cross;
+        ringY += (y0 + y1) * cross;
+        if (ringIndex === 0) {
+          vertexX += x0;
+          vertexY += y0;
+          vertexCount++;
+        }
+      }
+      // Outer rings add area and holes subtract it, whatever their winding
+      const sign = (ringIndex === 0 ? 1 : -1) * Math.sign(ringArea);
+      area += sign * ringArea / 2;
+      sumX += sign * ringX / 6;
+      sumY += sign * ringY / 6;
+    });
+  });
+  if (Math.abs(area) > 1e-12) return [sumY / area, sumX / area];
+  // Degenerate polygons: fall back to the mean vertex
+  return vertexCount > 0 ? [vertexY / vertexCount, vertexX / vertexCount] : null;
+}
+
+/** Great-circle distance in kilometres */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLng = (lng2 - lng1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// =============================================================================
+// SCAN
+// =============================================================================
+
+export interface ScanOptions {
+  model: ScanModel;
+  /** Largest circle as a share of the total population (default 0.5) */
+  maxPopulationFraction?: number;
+  /** Monte Carlo replicates (default 999) */
+  replicates?: number;
+  /** Fewest cases a cluster may contain (default 2) */
+  minCases?: number;
+  /** Most clusters reported, the most likely one included (default 10) */
+  maxClusters?: number;
+  seed?: number;
+}
+
+export interface ScanCluster {
+  /** Location at the centre of the circle */
+  centerId: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  locationIds: string[];
+  cases: number;
+  population: number;
+  /** Cases expected in the circle under the null hypothesis */
+  expected: number;
+  /** Risk inside the circle relative to outside it */
+  relativeRisk: number;
+  logLikelihoodRatio: number;
+  pValue: number;
+}
+
+export interface ScanResult {
+  model: ScanModel;
+  totalCases: number;
+  totalPopulation: number;
+  locations: number;
+  replicates: number;
+  /** Most likely cluster first, then secondary clusters by likelihood */
+  clusters: ScanCluster[];
+}
+
+export interface SpatialScanRun {
+  /** Monte Carlo replicates to run; 0 when there are no clusters to test */
+  totalReplicates: number;
+  /** Run up to count more replicates; returns how many have run in all */
+  runReplicates(count: number): number;
+  /** Clusters with p-values from the replicates run so far */
+  result(): ScanResult;
+}
+
+/**
+ * Find the candidate clusters, leaving the Monte Carlo replicates to be run in
+ * batches. Gives no clusters when there are no cases, or (Bernoulli) no
+ * controls. Locations with zero population are ignored.
+ */
+export function createSpatialScan(input: ScanLocation[], options: ScanOptions): SpatialScanRun {
+  const {
+    model,
+    maxPopulationFraction = 0.5,
+    replicates = 999,
+    minCases = 2,
+    maxClusters = 10,
+    seed = 1,
+  } = options;
+  const locations = input.filter(location => location.population > 0 && isFinite(location.lat) && isFinite(location.lng));
+  const totalCases = locations.reduce((sum, l) => sum + l.cases, 0);
+  const totalPopulation = locations.reduce((sum, l) => sum + l.population, 0);
+  const empty: SpatialScanRun = {
+    totalReplicates: 0,
+    runReplicates: () => 0,
+    result: () => ({ model, totalCases, totalPopulation, locations: locations.length, replicates, clusters: [] }),
+  };
+  if (totalCases === 0 || (model === 'bernoulli' && totalCases >= totalPopulation)) return empty;
+
+  const windows = buildWindows(locations, totalPopulation * maxPopulationFraction);
+  const llr = model === 'bernoulli'
+    ? tabulatedBernoulliLLR(totalCases, totalPopulation)
+    : (c: number, n: number) => poissonLLR(c, (n / totalPopulation) * totalCases, totalCases);
+
+  // Best circle around each centre
+  const cases = locations.map(l => l.cases);
+  const candidates: Array<{ center: number; size: number; llr: number; cases: number; population: number }> = [];
+  windows.forEach((window, center) => {
+    let c = 0;
+    let best = { center, size: 0, llr: 0, cases: 0, population: 0 };
+    for (let k = 0; k < window.order.length; k++) {
+      c += cases[window.order[k]];
+      const value = window.closes[k] && c >= minCases ? llr(c, window.population[k]) : 0;
+      if (value > best.llr) best = { center, size: k + 1, llr: value, cases: c, population: window.population[k] };
+    }
+    if (best.size > 0) candidates.push(best);
+  });
+  candidates.sort((a, b) => b.llr - a.llr);
+
+  // Most likely cluster, then secondary clusters sharing no location with a more likely one
+  const used = new Set<number>();
+  const selected: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (selected.length >= maxClusters) break;
+    const members = Array.from(windows[candidate.center].order.subarray(0, candidate.size));
+    if (members.some(index => used.has(index))) continue;
+    members.forEach(index => used.add(index));
+    selected.push(candidate);
+  }
+  if (selected.length === 0) return empty;
+
+  // Monte Carlo: the highest LLR anywhere on the map, for each null replicate
+  const random = seededRandom(seed);
+  const simulate = model === 'bernoulli'
+    ? bernoulliReplicate(locations, totalCases, random)
+    : poissonReplicate(locations, totalCases, totalPopulation, random);
+  const replicateMaxima: number[] = [];
+
+  return {
+    totalReplicates: replicates,
+    runReplicates(count) {
+      const stop = Math.min(replicates, replicateMaxima.length + Math.max(0, count));
+      while (replicateMaxima.length < stop) {
+        const simulated = simulate();
+        let max = 0;
+        for (const window of windows) {
+          const { order, population, closes } = window;
+          let c = 0;
+          for (let k = 0; k < order.length; k++) {
+            c += simulated[order[k]];
+            // Only circles with a higher rate than the whole map can score, so skip the logarithms otherwise
+            if (closes[k] && c >= minCases && c * totalPopulation > totalCases * population[k]) {
+              const value = llr(c, population[k]);
+              if (value > max) max = value;
+            }
+          }
+        }
+        replicateMaxima.push(max);
+      }
+      return replicateMaxima.length;
+    },
+    result() {
+      const done = replicateMaxima.length;
+      const clusters = selected.map(candidate => {
+        const window = windows[candidate.center];
+        const center = locations[candidate.center];
+        const expected = (candidate.population / totalPopulation) * totalCases;
+        const outsideCases = totalCases - candidate.cases;
+        const outsideExpected = totalCases - expected;
+        const relativeRisk = outsideExpected > 0 && outsideCases > 0
+          ? (candidate.cases / expected) / (outsideCases / outsideExpected)
+          : Infinity;
+        const exceeding = replicateMaxima.filter(max => max >= candidate.llr - 1e-9).length;
+        return {
+          centerId: center.id,
+          lat: center.lat,
+          lng: center.lng,
+          radiusKm: window.radiusKm[candidate.size - 1],
+          locationIds: Array.from(window.order.subarray(0, candidate.size)).map(index => locations[index].id),
+          cases: candidate.cases,
+          population: candidate.population,
+          expected,
+          relativeRisk,
+          logLikelihoodRatio: candidate.llr,
+          pValue: (exceeding + 1) / (done + 1),
+        };
+      });
+      return { model, totalCases, totalPopulation, locations: locations.length, replicates: done, clusters };
+    },
+  };
+}
+
+/** Run the scan with every Monte Carlo replicate at once; see createSpatialScan */
+export function spatialScan(input: ScanLocation[], options: ScanOptions): ScanResult {
+  const scan = createSpatialScan(input, options);
+  scan.runReplicates(scan.totalReplicates);
+  return scan.result();
+}
+
+/** Monte Carlo p-values are multiples of 1 / (R + 1), so show as many decimals as that needs */
+export function formatScanPValue(pValue: number, replicates: number): string {
+  return pValue.toFixed(Math.max(2, String(replicates + 1).length - 1));
+}
+
+/**
+ * Bernoulli log likelihood ratio for c cases among n points inside the circle,
+ * with C cases among N points overall; 0 unless the inside proportion is higher.
+ */
+export function bernoulliLLR(c: number, n: number, C: number, N: number): number {
+  const outsideN = N - n;
+  const outsideC = C - c;
+  if (n <= 0 || c / n <= (outsideN > 0 ? outsideC / outsideN : 0)) return 0;
+  return xlogy(c, c / n) + xlogy(n - c, (n - c) / n)
+    + (outsideN > 0 ? xlogy(outsideC, outsideC / outsideN) + xlogy(outsideN - outsideC, (outsideN - outsideC) / outsideN) : 0)
+    - xlogy(C, C / N) - xlogy(N - C, (N - C) / N);
+}
+
+/** Poisson log likelihood ratio for c observed vs. e expected cases inside, of C in total; 0 unless c > e */
+export function poissonLLR(c: number, e: number, C: number): number {
+  if (e <= 0 || c <= e) return 0;
+  return xlogy(c, c / e) + (C - e > 0 ? xlogy(C - c, (C - c) / (C - e)) : 0);
+}
+
+// =============================================================================
+// Module-private helpers
+// =============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+
+interface ScanWindow {
+  /** Location indexes by distance from the centre, cut at the population limit */
+  order: Int32Array;
+  /** Cumulative population and circle radius after each location */
+  population: Float64Array;
+  radiusKm: Float64Array;
+  /** 1 where a circle can end: equidistant locations enter the circle together */
+  closes: Uint8Array;
+}
+
+function buildWindows(locations: ScanLocation[], maxPopulation: number): ScanWindow[] {
+  return locations.map(center => {
+    const distances = locations.map((location, index) => ({
+      index,
+      distance: haversineKm(center.lat, center.lng, location.lat, location.lng),
+    }));
+    distances.sort((a, b) => a.distance - b.distance || a.index - b.index);
+    const order: number[] = [];
+    const population: number[] = [];
+    const radiusKm: number[] = [];
+    const closes: number[] = [];
+    let total = 0;
+    let start = 0;
+    while (start < distances.length) {
+      // Locations tied (to rounding) with the first one join the circle as a group
+      let end = start + 1;
+      while (end < distances.length && isTied(distances[end].distance, distances[start].distance)) end++;
+      const group = distances.slice(start, end);
+      const groupTotal = total + group.reduce((sum, { index }) => sum + locations[index].population, 0);
+      // The centre alone is always a candidate, even when it exceeds the limit
+      if (groupTotal > maxPopulation && order.length > 0) break;
+      group.forEach(({ index, distance }, i) => {
+        total += locations[index].population;
+        order.push(index);
+        population.push(total);
+        radiusKm.push(distance);
+        closes.push(i === group.length - 1 ? 1 : 0);
+      });
+      start = end;
+    }
+    return {
+      order: Int32Array.from(order),
+      population: Float64Array.from(population),
+      radiusKm: Float64Array.from(radiusKm),
+      closes: Uint8Array.from(closes),
+    };
+  });
+}
+
+function isTied(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * bernoulliLLR for a fixed map, reading x·ln(x) from a table: point counts are
+ * whole numbers, and the replicates evaluate millions of circles.
+ */
+function tabulatedBernoulliLLR(C: number, N: number): (c: number, n: number) => number {
+  const xlnx = new Float64Array(N + 1);
+  for (let x = 2; x <= N; x++) xlnx[x] = x * Math.log(x);
+  const nullLikelihood = xlnx[C] + xlnx[N - C] - xlnx[N];
+  return (c, n) => {
+    const outsideN = N - n;
+    const outsideC = C - c;
+    if (c * outsideN <= outsideC * n) return 0;
+    return xlnx[c] + xlnx[n - c] - xlnx[n]
+      + xlnx[outsideC] + xlnx[outsideN - outsideC] - xlnx[outsideN]
+      - nullLikelihood;
+  };
+}
+
+/** Shuffle the case labels among all points, keeping the number of cases */
+function bernoulliReplicate(locations: ScanLocation[], totalCases: number, random: () => number): () => Int32Array {
+  const points: number[] = [];
+  locations.forEach((location, index) => {
+    for (let i = 0; i < location.population; i++) points.push(index);
+  });
+  return () => {
+    const counts = new Int32Array(locations.length);
+    // Partial Fisher-Yates: the first totalCases points become the cases
+    for (let i = 0; i < totalCases; i++) {
+      const j = i + Math.floor(random() * (points.length - i));
+      [points[i], points[j]] = [points[j], points[i]];
+      counts[points[i]]++;
+    }
+    return counts;
+  };
+}
+
+/** Allocate the cases to locations in proportion to population (multinomial) */
+function poissonReplicate(locations: ScanLocation[], totalCases: number, totalPopulation: number, random: () => number): () => Int32Array {
+  const cumulative: number[] = [];
+  let sum = 0;
+  locations.forEach(location => {
+    sum += location.population / totalPopulation;
+    cumulative.push(sum);
+  });
+  return () => {
+    const counts = new Int32Array(locations.length);
+    for (let i = 0; i < totalCases; i++) {
+      const u = random() * sum;
+      let lo = 0;
+      let hi = cumulative.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cumulative[mid] < u) lo = mid + 1;
+        else hi = mid;
+      }
+      counts[lo]++;
+    }
+    return counts;
+  };
+}
+
+/** x·ln(y), taken as 0 when x is 0 */
+function xlogy(x: number, y: number): number {
+  return x === 0 ? 0 : x * Math.log(y);
+}
@@ -0,0 +1,500 @@
+/**
+ * Age Standardization of Rates
+ *
+ * Compares rates between areas or groups with different age structures.
+ * Case records carry an age-group column; stratum-specific denominators come
+ * from a second (census) dataset with matching age-group labels.
+ *
+ * CONTENTS:
+ *
+ * 1. STANDARD POPULATIONS
+ *    - WHO World Standard (2000-2025) and US 2000 Standard, 5-year groups
+ *    - User-supplied standards from an imported dataset
+ *    - Saved standardization settings shared by the Area Map and Table Builder
+ *    - Age-group label parsing ("0-4", "<1", "85+", "65 and over") and
+ *      alignment of standard weights to the data's age groups
+ *
+ * 2. DIRECT STANDARDIZATION
+ *    - Age-adjusted rate: stratum rates weighted by the standard population
+ *    - Gamma 95% CI (Fay & Feuer)
+ *
+ * 3. INDIRECT STANDARDIZATION
+ *    - Expected counts from the pooled stratum rates of all groups combined
+ *    - Standardized mortality/morbidity ratio (SMR) with exact Poisson 95% CI
+ *
+ * 4. STANDARDIZING BY GROUP
+ *    - Counts cases and denominators per group and age stratum
+ *    - Join diagnostics: cases without a matching denominator stratum, age
+ *      groups without a standard weight
+ *
+ * References:
+ * - Ahmad OB, et al. Age Standardization of Rates: A New WHO Standard. 2001.
+ * - Klein RJ, Schoenborn CA. Age Adjustment Using the 2000 Projected U.S.
+ *   Population. Healthy People Statistical Notes, no. 20. 2001.
+ * - Fay MP, Feuer EJ. Confidence intervals for directly standardized rates:
+ *   a method based on the gamma distribution. Stat Med 1997;16:791-801.
+ */
+import type { CaseRecord, DataColumn, Dataset } from '../types/analysis';
+import { chiSquareQuantile, poissonExactCI } from './statistics';
+
+// =============================================================================
+// STANDARD POPULATIONS
+// =============================================================================
+
+export interface StandardPopulationGroup {
+  label: string;
+  /** Youngest age in the group (years) */
+  lower: number;
+  /** First age above the group; Infinity for an open-ended group */
+  upper: number;
+  population: number;
+}
+
+export interface StandardPopulation {
+  id: string;
+  label: string;
+  groups: StandardPopulationGroup[];
+}
+
+const fiveYearGroups = (weights: number[], openLabel: string, startAge = 0): StandardPopulationGroup[] =>
+  weights.map((population, i) => {
+    const lower = startAge + i * 5;
+    const isLast = i === weights.length - 1;
+    return {
+      label: isLast ? openLabel : `${lower}-${lower + 4}`,
+      lower,
+      upper: isLast ? Infinity : lower + 5,
+      population,
+    };
+  });
+
+/** WHO World Standard Population (2000-2025), per 100,000 */
+export const WHO_WORLD_STANDARD: StandardPopulation = {
+  id: 'who2000',
+  label: 'WHO World Standard (2000-2025)',
+  groups: fiveYearGroups(
+    [8860, 8690, 8600, 8470, 8220, 7930, 7610, 7150, 6590, 6040, 5370, 4550, 3720, 2960, 2210, 1520, 910, 440, 150, 40, 5],
+    '100+'
+  ),
+};
+
+/** US 2000 Standard Population (projected), per 1,000,000; under-1 and 1-4 kept separate */
+export const US_2000_STANDARD: StandardPopulation = {
+  id: 'us2000',
+  label: 'US 2000 Standard',
+  groups: [
+    { label: '<1', lower: 0, upper: 1, population: 13818 },
+    { label: '1-4', lower: 1, upper: 5, population: 55317 },
+    ...fiveYearGroups(
+      [72533, 73032, 72169, 66478, 64529, 71044, 80762, 81851, 72118, 62716, 48454, 38793, 34264, 31773, 26999, 17842, 15508],
+      '85+',
+      5
+    ),
+  ],
+};
+
+export const STANDARD_POPULATIONS: StandardPopulation[] = [WHO_WORLD_STANDARD, US_2000_STANDARD];
+
+export function normalizeAgeGroup(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse an age-group label into [lower, upper) in years. Accepts ranges
+ * ("0-4", "0 to 4 years"), open groups ("85+", "85 and over", ">=85"),
+ * under-groups ("<1", "under 5") and single ages ("3"). Returns null when the
+ * label cannot be read as ages.
+ */
+export function parseAgeGroup(label: string): { lower: number; upper: number } | null {
+  const text = normalizeAgeGroup(label).replace(/[–—]/g, '-').replace(/\s*(years?|yrs?|y)\.?$/, '');
+
+  let match = text.match(/^(\d+)\s*(?:-|to)\s*(\d+)$/);
+  if (match) {
+    const lower = Number(match[1]);
+    const upper = Number(match[2]) + 1;
+    return upper > lower ? { lower, upper } : null;
+  }
+  match = text.match(/^(?:>=|≥)\s*(\d+)$/) || text.match(/^(\d+)\s*(?:\+|plus|and over|and older|or older)$/);
+  if (match) return { lower: Number(match[1]), upper: Infinity };
+  match = text.match(/^(?:<|under|less than)\s*(\d+)$/);
+  if (match) return Number(match[1]) > 0 ? { lower: 0, upper: Number(match[1]) } : null;
+  match = text.match(/^(\d+)$/);
+  if (match) return { lower: Number(match[1]), upper: Number(match[1]) + 1 };
+  return null;
+}
+
+/**
+ * Build a standard population from an imported dataset (one row per age
+ * group). Rows with the same age group are summed.
+ */
+export function standardPopulationFromDataset(dataset: Dataset, ageField: string, valueField: string): StandardPopulation {
+  const groups = new Map<string, StandardPopulationGroup>();
+  dataset.records.forEach(record => {
+    const label = String(record[ageField] ?? '').trim();
+    const population = parseNumber(record[valueField]);
+    if (!label || population === null) return;
+    const key = normalizeAgeGroup(label);
+    const existing = groups.get(key);
+    const band = parseAgeGroup(label);
+    groups.set(key, {
+      label: existing?.label ?? label,
+      lower: band?.lower ?? NaN,
+      upper: band?.upper ?? NaN,
+      population: (existing?.population ?? 0) + population,
+    });
+  });
+  return { id: `dataset:${dataset.id}`, label: dataset.name, groups: Array.from(groups.values()) };
+}
+
+/** Standardization choices as saved with Area Map / Table Builder settings */
+export interface StandardizationSettings {
+  caseAgeField: string;
+  denominatorAgeField: string;
+  /** A built-in standard's id, or 'dataset' for a standard from an imported dataset */
+  standardId: string;
+  standardDatasetId: string;
+  standardAgeField: string;
+  standardValueField: string;
+}
+
+export const DEFAULT_STANDARDIZATION_SETTINGS: StandardizationSettings = {
+  caseAgeField: '',
+  denominatorAgeField: '',
+  standardId: WHO_WORLD_STANDARD.id,
+  standardDatasetId: '',
+  standardAgeField: '',
+  standardValueField: '',
+};
+
+/** Read persisted settings, falling back to defaults for missing fields */
+export function parseStandardizationSettings(value: unknown): StandardizationSettings {
+  const saved = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const text = (key: keyof StandardizationSettings) =>
+    typeof saved[key] === 'string' ? saved[key] as string : DEFAULT_STANDARDIZATION_SETTINGS[key];
+  return {
+    caseAgeField: text('caseAgeField'),
+    denominatorAgeField: text('denominatorAgeField'),
+    standardId: text('standardId'),
+    standardDatasetId: text('standardDatasetId'),
+    standardAgeField: text('standardAgeField'),
+    standardValueField: text('standardValueField'),
+  };
+}
+
+/** The chosen standard population, or null when a dataset standard is incomplete */
+export function resolveStandardPopulation(settings: StandardizationSettings, datasets: Dataset[]): StandardPopulation | null {
+  if (settings.standardId === 'dataset') {
+    const dataset = datasets.find(item => item.id === settings.standardDatasetId);
+    if (!dataset || !settings.standardAgeField || !settings.standardValueField) return null;
+    return standardPopulationFromDataset(dataset, settings.standardAgeField, settings.standardValueField);
+  }
+  return STANDARD_POPULATIONS.find(standard => standard.id === settings.standardId) ?? null;
+}
+
+export function suggestAgeGroupField(columns: DataColumn[]): string {
+  const patterns = [/age[_ ]?(group|grp|cat|band|class)|agegr/i, /^age/i];
+  for (const pattern of patterns) {
+    const match = columns.find(col => col.type !== 'number' && (pattern.test(col.key) || pattern.test(col.label)));
+    if (match) return match.key;
+  }
+  return '';
+}
+
+export interface StandardWeights {
+  /** Standard population per data age group (normalized key), summed over standard groups */
+  weights: Map<string, number>;
+  /** Data age groups with no standard weight (unreadable or crossing standard group boundaries) */
+  unmatched: string[];
+}
+
+/**
+ * Map standard population counts onto the data's age groups. Labels that
+ * match a standard group exactly are used directly; otherwise every standard
+ * group lying wholly inside the data's age range is summed, so 10-year or
+ * broad groups (0-14, 15-44, 65+) work with the 5-year standards.
+ */
+export function alignStandardWeights(ageGroups: string[], standard: StandardPopulation): StandardWeights {
+  const byLabel = new Map(standard.groups.map(group => [normalizeAgeGroup(group.label), group.population]));
+  const weights = new Map<string, number>();
+  const unmatched: string[] = [];
+
+  ageGroups.forEach(label => {
+    const key = normalizeAgeGroup(label);
+    if (byLabel.has(key)) {
+      weights.set(key, byLabel.get(key)!);
+      return;
+    }
+    const band = parseAgeGroup(label);
+    if (!band) {
+      unmatched.push(label);
+      return;
+    }
+    const overlapping = standard.groups.filter(group => group.lower < band.upper && group.upper > band.lower);
+    const contained = overlapping.every(group => group.lower >= band.lower && group.upper <= band.upper);
+    const total = overlapping.reduce((sum, group) => sum + group.population, 0);
+    if (!contained || total <= 0) unmatched.push(label);
+    else weights.set(key, total);
+  });
+
+  return { weights, unmatched };
+}
+
+// =============================================================================
+// DIRECT STANDARDIZATION
+// =============================================================================
+
+export interface AgeStratum {
+  ageGroup: string;
+  cases: number;
+  population: number;
+}
+
+export interface DirectStandardizedRate {
+  cases: number;
+  population: number;
+  /** Rates are per rateMultiplier persons */
+  crudeRate: number;
+  adjustedRate: number;
+  adjustedRateCI: [number, number];
+  /** Age groups with a standard weight but no population in this group, left out of the adjusted rate */
+  missingStrata: number;
+}
+
+/**
+ * Directly age-adjusted rate: Σ wᵢ·dᵢ/nᵢ with wᵢ the standard population
+ * share of stratum i (re-normalized over strata with population). The 95% CI
+ * follows Fay & Feuer, treating the rate as a weighted sum of Poisson counts
+ * approximated by a gamma distribution; with one stratum it reduces to the
+ * exact Poisson CI.
+ */
+export function directStandardize(
+  strata: AgeStratum[],
+  weights: Map<string, number>,
+  rateMultiplier = 100000
+): DirectStandardizedRate {
+  const cases = strata.reduce((sum, s) => sum + s.cases, 0);
+  const population = strata.reduce((sum, s) => sum + s.population, 0);
+  const weighted = strata.filter(s => (weights.get(normalizeAgeGroup(s.ageGroup)) ?? 0) > 0);
+  const usable = weighted.filter(s => s.population > 0);
+  const totalWeight = usable.reduce((sum, s) => sum + weights.get(normalizeAgeGroup(s.ageGroup))!, 0);
+
+  let rate = 0;
+  let variance = 0;
+  let maxWeight = 0;
+  usable.forEach(s => {
+    const w = weights.get(normalizeAgeGroup(s.ageGroup))! / totalWeight / s.population;
+    rate += w * s.cases;
+    variance += w * w * s.cases;
+    maxWeight = Math.max(maxWeight, w);
+  });
+
+  let ci: [number, number] = [NaN, NaN];
+  if (usable.length > 0) {
+    const lower = rate > 0 && variance > 0
+      ? (variance / (2 * rate)) * chiSquareQuantile(0.025, (2 * rate * rate) / variance)
+      : 0;
+    const upperVariance = variance + maxWeight * maxWeight;
+    const upperRate = rate + maxWeight;
+    const upper = (upperVariance / (2 * upperRate)) * chiSquareQuantile(0.975, (2 * upperRate * upperRate) / upperVariance);
+    ci = [lower * rateMultiplier, upper * rateMultiplier];
+  }
+
+  return {
+    cases,
+    population,
+    crudeRate: population > 0 ? (cases / population) * rateMultiplier : NaN,
+    adjustedRate: usable.length > 0 ? rate * rateMultiplier : NaN,
+    adjustedRateCI: ci,
+    missingStrata: weighted.length - usable.length,
+  };
+}
+
+// =============================================================================
+// INDIRECT STANDARDIZATION
+// =============================================================================
+
+export interface IndirectStandardizedResult {
+  observed: number;
+  expected: number;
+  /** Observed / expected */
+  smr: number;
+  smrCI: [number, number];
+  /** SMR × the reference population's crude rate (per rateMultiplier) */
+  indirectRate: number;
+}
+
+/**
+ * Indirect standardization against reference stratum rates (cases per
+ * person). Expected = Σ rateᵢ·nᵢ; the SMR CI is the exact Poisson CI of the
+ * observed count divided by the expected count.
+ */
+export function indirectStandardize(
+  strata: AgeStratum[],
+  referenceRates: Map<string, number>,
+  referenceCrudeRate: number,
+  rateMultiplier = 100000
+): IndirectStandardizedResult {
+  const observed = strata.reduce((sum, s) => sum + s.cases, 0);
+  const expected = strata.reduce(
+    (sum, s) => sum + (referenceRates.get(normalizeAgeGroup(s.ageGroup)) ?? 0) * s.population,
+    0
+  );
+  const smr = expected > 0 ? observed / expected : NaN;
+  const [lower, upper] = poissonExactCI(observed);
+  return {
+    observed,
+    expected,
+    smr,
+    smrCI: expected > 0 ? [lower / expected, upper / expected] : [NaN, NaN],
+    indirectRate: smr * referenceCrudeRate * rateMultiplier,
+  };
+}
+
+// =============================================================================
+// STANDARDIZING BY GROUP
+// =============================================================================
+
+export interface StandardizeRatesOptions {
+  caseRecords: CaseRecord[];
+  caseAgeField: string;
+  /** Area or group column in the case records; omit for a single overall rate */
+  caseGroupField?: string;
+  denominatorRecords: CaseRecord[];
+  denominatorAgeField: string;
+  /** Matching group column in the denominators; ignored without caseGroupField */
+  denominatorGroupField?: string;
+  denominatorValueField: string;
+  standard: StandardPopulation;
+  rateMultiplier?: number;
+  /** Normalizes group values before matching cases to denominators */
+  normalizeGroup?: (value: unknown) => string;
+}
+
+export interface StandardizedGroup {
+  key: string;
+  label: string;
+  strata: AgeStratum[];
+  direct: DirectStandardizedRate;
+  indirect: IndirectStandardizedResult;
+}
+
+export interface StandardizationResult {
+  groups: StandardizedGroup[];
+  /** All groups combined; its SMR is 1 because it is the indirect reference */
+  overall: StandardizedGroup;
+  /** Age groups in denominator order */
+  ageGroups: string[];
+  /** Age groups with no weight in the chosen standard */
+  unmatchedAgeGroups: string[];
+  /** Case records with a missing age group or group, or no denominator row */
+  unmatchedCaseCount: number;
+}
+
+const OVERALL_KEY = '__overall';
+
+/**
+ * Count cases per group and age stratum, join them to stratum denominators,
+ * and compute direct (against the chosen standard) and indirect (against the
+ * pooled rates of all groups) standardized rates for each group.
+ */
+export function standardizeRates(options: StandardizeRatesOptions): StandardizationResult {
+  const {
+    caseRecords,
+    caseAgeField,
+    caseGroupField,
+    denominatorRecords,
+    denominatorAgeField,
+    denominatorGroupField,
+    denominatorValueField,
+    standard,
+    rateMultiplier = 100000,
+    normalizeGroup = value => normalizeAgeGroup(value),
+  } = options;
+
+  const groupOf = (record: CaseRecord, field?: string): string | null => {
+    if (!field) return OVERALL_KEY;
+    const key = normalizeGroup(record[field]);
+    return key ? key : null;
+  };
+
+  // Denominators per group and age group, keeping first-seen labels and order
+  const groupLabels = new Map<string, string>();
+  const ageLabels = new Map<string, string>();
+  const populations = new Map<string, Map<string, number>>();
+  denominatorRecords.forEach(record => {
+    const group = groupOf(record, caseGroupField ? denominatorGroupField : undefined);
+    const age = normalizeAgeGroup(record[denominatorAgeField]);
+    const value = parseNumber(record[denominatorValueField]);
+    if (group === null || !age || value === null) return;
+    if (!groupLabels.has(group)) {
+      groupLabels.set(group, caseGroupField && denominatorGroupField ? String(record[denominatorGroupField]).trim() : 'Overall');
+    }
+    if (!ageLabels.has(age)) ageLabels.set(age, String(record[denominatorAgeField]).trim());
+    const byAge = populations.get(group) ?? new Map<string, number>();
+    byAge.set(age, (byAge.get(age) ?? 0) + value);
+    populations.set(group, byAge);
+  });
+
+  const counts = new Map<string, Map<string, number>>();
+  let unmatchedCaseCount = 0;
+  caseRecords.forEach(record => {
+    const group = groupOf(record, caseGroupField);
+    const age = normalizeAgeGroup(record[caseAgeField]);
+    if (group === null || !age || populations.get(group)?.get(age) === undefined) {
+      unmatchedCaseCount++;
+      return;
+    }
+    const byAge = counts.get(group) ?? new Map<string, number>();
+    byAge.set(age, (byAge.get(age) ?? 0) + 1);
+    counts.set(group, byAge);
+  });
+
+  const ageKeys = Array.from(ageLabels.keys());
+  const { weights, unmatched } = alignStandardWeights(Array.from(ageLabels.values()), standard);
+
+  const strataFor = (group: string): AgeStratum[] => ageKeys.map(age => ({
+    ageGroup: ageLabels.get(age)!,
+    cases: counts.get(group)?.get(age) ?? 0,
+    population: populations.get(group)?.get(age) ?? 0,
+  }));
+
+  // Pooled strata serve as the indirect reference
+  const pooled: AgeStratum[] = ageKeys.map(age => {
+    let cases = 0;
+    let population = 0;
+    populations.forEach((byAge, group) => {
+      cases += counts.get(group)?.get(age) ?? 0;
+      population += byAge.get(age) ?? 0;
+    });
+    return { ageGroup: ageLabels.get(age)!, cases, population };
+  });
+  const referenceRates = new Map(pooled.map(s => [normalizeAgeGroup(s.ageGroup), s.population > 0 ? s.cases / s.population : 0]));
+  const pooledCases = pooled.reduce((sum, s) => sum + s.cases, 0);
+  const pooledPopulation = pooled.reduce((sum, s) => sum + s.population, 0);
+  const referenceCrudeRate = pooledPopulation > 0 ? pooledCases / pooledPopulation : NaN;
+
+  const summarize = (key: string, label: string, strata: AgeStratum[]): StandardizedGroup => ({
+    key,
+    label,
+    strata,
+    direct: directStandardize(strata, weights, rateMultiplier),
+    indirect: indirectStandardize(strata, referenceRates, referenceCrudeRate, rateMultiplier),
+  });
+
+  return {
+    groups: caseGroupField
+      ? Array.from(groupLabels.entries()).map(([key, label]) => summarize(key, label, strataFor(key)))
+      : [],
+    overall: summarize(OVERALL_KEY, 'Overall', pooled),
+    ageGroups: ageKeys.map(age => ageLabels.get(age)!),
+    unmatchedAgeGroups: unmatched,
+    unmatchedCaseCount,
+  };
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(String(value).replace(/,/g, '').trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
@@ -21,7 +21,8 @@
  *    - Standard error methods for difference measures
  *
  * 3. STATISTICAL DISTRIBUTION FUNCTIONS (lines ~153-254)
- *    - Chi-square CDF (for p-value calculation)
+ *    - Chi-square CDF (for p-value calculation) and its inverse
+ *    - Standard normal CDF and quantile (via chi-square on 1 df)
  *    - Gamma function approximations
  *    - Log-gamma (Lanczos approximation)
  *
@@ -43,6 +44,35 @@
  *    - Group comparisons (R×2)
  *    - Full cross-tabulations (R×C)
  *
+ * 8. STRATIFIED ANALYSIS (lines ~795-1028)
+ *    - Mantel-Haenszel adjusted RR (Greenland-Robins CI) and OR
+ *      (Robins-Breslow-Greenland CI)
+ *    - Mantel-Haenszel summary chi-square
+ *    - Breslow-Day (OR) and Woolf (RR) tests of homogeneity
+ *
+ * 9. MATCHED CASE-CONTROL ANALYSIS (lines ~1067-1185)
+ *    - Discordant-pair table for 1:1 matched pairs
+ *    - McNemar's test (continuity-corrected and exact)
+ *    - Matched odds ratio with exact (binomial) CI
+ *    - Clopper-Pearson exact CI for a proportion
+ *
+ * 10. DOSE-RESPONSE (TREND) ANALYSIS (lines ~1186-1319)
+ *    - Attack rates, RR and OR per exposure level vs a reference level
+ *    - Extended Mantel-Haenszel chi-square for linear trend (Cochran-Armitage)
+ *    - Chi-square for departure from linear trend
+ *
+ * 11. EXACT AND SMALL-SAMPLE METHODS (lines ~1320-1472)
+ *    - Exact conditional (Fisher) and mid-P odds ratio CIs, conditional MLE
+ *    - Fisher and mid-P exact two-sided p-values
+ *    - Wilson, Clopper-Pearson and mid-P CIs for proportions
+ *    - Exact (Garwood) CI for a Poisson count
+ *
+ * 12. CONTINUOUS-OUTCOME GROUP COMPARISONS (lines ~1473-1767)
+ *    - Welch's t-test with 95% CI for the mean difference, Cohen's d, Hedges' g
+ *    - One-way ANOVA with eta- and omega-squared
+ *    - Wilcoxon rank-sum (Mann-Whitney) with Hodges-Lehmann median difference
+ *    - Kruskal-Wallis with epsilon-squared
+ *
  * References:
  * - Rothman KJ, Greenland S, Lash TL. Modern Epidemiology. 3rd ed.
  * - CDC. Principles of Epidemiology in Public Health Practice. 3rd ed.
@@ -268,11 +298,39 @@ function calculateChiSquare(a: number, b: number, c: number, d: number, n: numbe
 // Chi-square CDF via incomplete gamma function (Lanczos approximation)
 // =============================================================================
 
-function chiSquareCDF(x: number, df: number): number {
+export function chiSquareCDF(x: number, df: number): number {
   if (x <= 0) return 0;
   return gammaCDF(x / 2, df / 2);
 }
 
+/** Inverse chi-square CDF (df need not be an integer), by bisection */
+export function chiSquareQuantile(p: number, df: number): number {
+  if (p <= 0 || df <= 0) return 0;
+  let lo = 0;
+  let hi = Math.max(1, df);
+  while (chiSquareCDF(hi, df) < p && hi < 1e12) hi *= 2;
+  for (let i = 0; i < 200 && hi - lo > 1e-12 * hi; i++) {
+    const mid = (lo + hi) / 2;
+    if (chiSquareCDF(mid, df) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Standard normal CDF, since Z² follows a chi-square distribution on 1 df */
+export function normalCDF(z: number): number {
+  const halfCentral = chiSquareCDF(z * z, 1) / 2;
+  return z >= 0 ? 0.5 + halfCentral : 0.5 - halfCentral;
+}
+
+/** Standard normal quantile (inverse of normalCDF) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const z = Math.sqrt(chiSquareQuantile(Math.abs(2 * p - 1), 1));
+  return p >= 0.5 ? z : -z;
+}
+
 // Incomplete gamma function approximation
 function gammaCDF(x: number, a: number): number {
   if (x <= 0) return 0;
@@ -283,7 +341,7 @@ function gammaCDF(x: number, a: number): number {
 }
 
 function gammaSeriesLower(x: number, a: number): number {
-  const maxIterations = 100;
+  const maxIterations = 1000;
   const epsilon = 1e-10;
 
   let sum = 1 / a;
@@ -299,7 +357,7 @@ function gammaSeriesLower(x: number, a: number): number {
 }
 
 function gammaContinuedFraction(x: number, a: number): number {
-  const maxIterations = 100;
+  const maxIterations = 1000;
   const epsilon = 1e-10;
 
   let b = x + 1 - a;
@@ -323,7 +381,7 @@ function gammaContinuedFraction(x: number, a: number): number {
   return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
 }
 
-function logGamma(x: number): number {
+export function logGamma(x: number): number {
   const coefficients = [
     76.18009172947146,
     -86.5053203294168,
@@ -785,3 +843,940 @@ function calculateChiSquareRxC(
 
   return { chiSquare, degreesOfFreedom: df, pValue };
 }
+
+// =============================================================================
+// STRATIFIED ANALYSIS (MANTEL-HAENSZEL)
+// Summary measures across strata of a potential confounder (e.g., age group)
+// =============================================================================
+
+export interface StratumTable {
+  label: string;
+  table: TwoByTwoTable;
+}
+
+export interface StratumResult {
+  label: string;
+  results: TwoByTwoResults;
+}
+
+export interface HomogeneityTest {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface StratifiedResults {
+  strata: StratumResult[];
+  crude: TwoByTwoResults;
+
+  // Mantel-Haenszel adjusted measures
+  mhRiskRatio: number;
+  mhRiskRatioCI: [number, number];
+  mhOddsRatio: number;
+  mhOddsRatioCI: [number, number];
+
+  // Mantel-Haenszel summary chi-square (1 df, uncorrected)
+  mhChiSquare: number;
+  mhChiSquarePValue: number;
+
+  // Tests of homogeneity across strata
+  breslowDay: HomogeneityTest; // Odds ratio
+  woolfRiskRatio: HomogeneityTest; // Risk ratio (inverse-variance on ln RR)
+}
+
+/**
+ * Mantel-Haenszel stratified analysis of a set of 2×2 tables.
+ *
+ * - MH risk ratio with Greenland-Robins variance
+ * - MH odds ratio with Robins-Breslow-Greenland variance
+ * - MH chi-square (Epi Info "uncorrected" summary chi-square)
+ * - Breslow-Day test of homogeneity of odds ratios
+ * - Woolf test of homogeneity of risk ratios
+ *
+ * Strata with fewer than two observations contribute nothing to the summary
+ * measures and are skipped by the tests. Measures that cannot be estimated
+ * are returned as NaN (CIs as [NaN, NaN]).
+ */
+export function calculateStratifiedTwoByTwo(strata: StratumTable[]): StratifiedResults {
+  const crudeTable = strata.reduce<TwoByTwoTable>(
+    (sum, s) => ({
+      a: sum.a + s.table.a,
+      b: sum.b + s.table.b,
+      c: sum.c + s.table.c,
+      d: sum.d + s.table.d,
+    }),
+    { a: 0, b: 0, c: 0, d: 0 }
+  );
+
+  const usable = strata.filter(s => s.table.a + s.table.b + s.table.c + s.table.d > 1);
+
+  // Risk ratio: Greenland-Robins
+  let rrNum = 0;
+  let rrDen = 0;
+  let rrVarNum = 0;
+  // Odds ratio: Robins-Breslow-Greenland
+  let sumR = 0;
+  let sumS = 0;
+  let sumPR = 0;
+  let sumPSQR = 0;
+  let sumQS = 0;
+  // MH chi-square
+  let sumA = 0;
+  let sumExpected = 0;
+  let sumVariance = 0;
+
+  for (const { table } of usable) {
+    const { a, b, c, d } = table;
+    const n = a + b + c + d;
+    const n1 = a + b;
+    const n0 = c + d;
+    const m1 = a + c;
+    const m0 = b + d;
+
+    rrNum += (a * n0) / n;
+    rrDen += (c * n1) / n;
+    rrVarNum += (m1 * n1 * n0 - a * c * n) / (n * n);
+
+    const P = (a + d) / n;
+    const Q = (b + c) / n;
+    const R = (a * d) / n;
+    const S = (b * c) / n;
+    sumR += R;
+    sumS += S;
+    sumPR += P * R;
+    sumPSQR += P * S + Q * R;
+    sumQS += Q * S;
+
+    sumA += a;
+    sumExpected += (n1 * m1) / n;
+    sumVariance += (n1 * n0 * m1 * m0) / (n * n * (n - 1));
+  }
+
+  const mhRiskRatio = rrNum > 0 && rrDen > 0 ? rrNum / rrDen : NaN;
+  let mhRiskRatioCI: [number, number] = [NaN, NaN];
+  if (isFinite(mhRiskRatio)) {
+    const se = Math.sqrt(rrVarNum / (rrNum * rrDen));
+    mhRiskRatioCI = [
+      Math.exp(Math.log(mhRiskRatio) - 1.96 * se),
+      Math.exp(Math.log(mhRiskRatio) + 1.96 * se),
+    ];
+  }
+
+  const mhOddsRatio = sumR > 0 && sumS > 0 ? sumR / sumS : NaN;
+  let mhOddsRatioCI: [number, number] = [NaN, NaN];
+  if (isFinite(mhOddsRatio)) {
+    const variance =
+      sumPR / (2 * sumR * sumR) +
+      sumPSQR / (2 * sumR * sumS) +
+      sumQS / (2 * sumS * sumS);
+    const se = Math.sqrt(variance);
+    mhOddsRatioCI = [
+      Math.exp(Math.log(mhOddsRatio) - 1.96 * se),
+      Math.exp(Math.log(mhOddsRatio) + 1.96 * se),
+    ];
+  }
+
+  const mhChiSquare = sumVariance > 0 ? Math.pow(sumA - sumExpected, 2) / sumVariance : NaN;
+  const mhChiSquarePValue = isFinite(mhChiSquare) ? 1 - chiSquareCDF(mhChiSquare, 1) : NaN;
+
+  return {
+    strata: strata.map(s => ({ label: s.label, results: calculateTwoByTwo(s.table) })),
+    crude: calculateTwoByTwo(crudeTable),
+    mhRiskRatio,
+    mhRiskRatioCI,
+    mhOddsRatio,
+    mhOddsRatioCI,
+    mhChiSquare,
+    mhChiSquarePValue,
+    breslowDay: calculateBreslowDay(usable.map(s => s.table), mhOddsRatio),
+    woolfRiskRatio: calculateWoolfRiskRatioHomogeneity(usable.map(s => s.table)),
+  };
+}
+
+/**
+ * Breslow-Day test of homogeneity of odds ratios across strata.
+ * For each stratum, the expected count in cell a is the value that reproduces
+ * the MH odds ratio given the observed margins (root of a quadratic).
+ */
+function calculateBreslowDay(tables: TwoByTwoTable[], mhOddsRatio: number): HomogeneityTest {
+  const notComputable = { chiSquare: NaN, degreesOfFreedom: 0, pValue: NaN };
+  if (!isFinite(mhOddsRatio) || mhOddsRatio <= 0) return notComputable;
+
+  let chiSquare = 0;
+  let informative = 0;
+
+  for (const { a, b, c, d } of tables) {
+    const n1 = a + b;
+    const n0 = c + d;
+    const m1 = a + c;
+    const m0 = b + d;
+    // A stratum with an empty margin carries no information about the OR
+    if (n1 === 0 || n0 === 0 || m1 === 0 || m0 === 0) continue;
+
+    const expected = expectedCellForOddsRatio(n1, n0, m1, mhOddsRatio);
+    const variance = 1 / (
+      1 / expected +
+      1 / (m1 - expected) +
+      1 / (n1 - expected) +
+      1 / (n0 - m1 + expected)
+    );
+    if (!isFinite(variance) || variance <= 0) continue;
+
+    chiSquare += Math.pow(a - expected, 2) / variance;
+    informative++;
+  }
+
+  if (informative < 2) return notComputable;
+  const df = informative - 1;
+  return { chiSquare, degreesOfFreedom: df, pValue: 1 - chiSquareCDF(chiSquare, df) };
+}
+
+/**
+ * Expected count in cell a for fixed margins such that the table's odds ratio
+ * equals `oddsRatio`. Solves (1-ψ)x² + (n0 - m1 + ψ(n1 + m1))x - ψ·n1·m1 = 0
+ * and returns the root within the feasible range of a.
+ */
+function expectedCellForOddsRatio(n1: number, n0: number, m1: number, oddsRatio: number): number {
+  const lower = Math.max(0, m1 - n0);
+  const upper = Math.min(n1, m1);
+  const qa = 1 - oddsRatio;
+  const qb = n0 - m1 + oddsRatio * (n1 + m1);
+  const qc = -oddsRatio * n1 * m1;
+
+  if (Math.abs(qa) < 1e-12) return -qc / qb;
+
+  const disc = Math.sqrt(qb * qb - 4 * qa * qc);
+  const roots = [(-qb + disc) / (2 * qa), (-qb - disc) / (2 * qa)];
+  const feasible = roots.find(x => x >= lower - 1e-9 && x <= upper + 1e-9);
+  return feasible ?? roots[0];
+}
+
+/**
+ * Woolf (inverse-variance) test of homogeneity of risk ratios across strata.
+ * Strata with a zero count among exposed or unexposed cases are skipped,
+ * since ln(RR) and its variance are undefined there.
+ */
+function calculateWoolfRiskRatioHomogeneity(tables: TwoByTwoTable[]): HomogeneityTest {
+  const logs: { lnRR: number; weight: number }[] = [];
+
+  for (const { a, b, c, d } of tables) {
+    const n1 = a + b;
+    const n0 = c + d;
+    if (a === 0 || c === 0 || n1 === 0 || n0 === 0) continue;
+    const lnRR = Math.log((a / n1) / (c / n0));
+    const variance = b / (a * n1) + d / (c * n0);
+    if (variance <= 0) continue;
+    logs.push({ lnRR, weight: 1 / variance });
+  }
+
+  if (logs.length < 2) return { chiSquare: NaN, degreesOfFreedom: 0, pValue: NaN };
+
+  const totalWeight = logs.reduce((sum, l) => sum + l.weight, 0);
+  const pooled = logs.reduce((sum, l) => sum + l.weight * l.lnRR, 0) / totalWeight;
+  const chiSquare = logs.reduce((sum, l) => sum + l.weight * Math.pow(l.lnRR - pooled, 2), 0);
+  const df = logs.length - 1;
+
+  return { chiSquare, degreesOfFreedom: df, pValue: 1 - chiSquareCDF(chiSquare, df) };
+}
+
+// =============================================================================
+// MATCHED CASE-CONTROL ANALYSIS
+// 1:1 matched pairs: discordant-pair table, McNemar's test, matched OR
+// =============================================================================
+
+/**
+ * Matched-pair table: each cell counts pairs (one case, one control) by the
+ * exposure status of the case and of the control.
+ */
+export interface MatchedPairTable {
+  /** Case exposed, control exposed (concordant) */
+  bothExposed: number;
+  /** Case exposed, control unexposed (discordant, f) */
+  caseOnlyExposed: number;
+  /** Case unexposed, control exposed (discordant, g) */
+  controlOnlyExposed: number;
+  /** Case unexposed, control unexposed (concordant) */
+  neitherExposed: number;
+}
+
+export interface MatchedPairResults {
+  table: MatchedPairTable;
+  pairs: number;
+  discordantPairs: number;
+  /** f / g */
+  matchedOddsRatio: number;
+  /** Exact CI from the binomial distribution of f given f + g */
+  matchedOddsRatioCI: [number, number];
+  /** McNemar chi-square with continuity correction */
+  mcNemarChiSquare: number;
+  mcNemarPValue: number;
+  /** Two-sided exact (binomial) McNemar p-value */
+  mcNemarExactPValue: number;
+}
+
+/**
+ * Analyze 1:1 matched pairs. Only discordant pairs carry information: given
+ * f + g discordant pairs, f ~ Binomial(f + g, OR / (1 + OR)), so an exact CI
+ * for OR follows from the Clopper-Pearson interval for f / (f + g).
+ */
+export function calculateMatchedPairs(table: MatchedPairTable): MatchedPairResults {
+  const f = table.caseOnlyExposed;
+  const g = table.controlOnlyExposed;
+  const discordant = f + g;
+  const pairs = table.bothExposed + f + g + table.neitherExposed;
+
+  const matchedOddsRatio = g > 0 ? f / g : f > 0 ? Infinity : NaN;
+
+  let matchedOddsRatioCI: [number, number] = [NaN, NaN];
+  if (discordant > 0) {
+    const [pLower, pUpper] = clopperPearsonCI(f, discordant);
+    matchedOddsRatioCI = [
+      pLower / (1 - pLower),
+      pUpper >= 1 ? Infinity : pUpper / (1 - pUpper),
+    ];
+  }
+
+  const mcNemarChiSquare = discordant > 0
+    ? Math.pow(Math.max(Math.abs(f - g) - 1, 0), 2) / discordant
+    : NaN;
+  const mcNemarPValue = isFinite(mcNemarChiSquare) ? 1 - chiSquareCDF(mcNemarChiSquare, 1) : NaN;
+  const mcNemarExactPValue = discordant > 0
+    ? Math.min(1, 2 * binomialCDF(Math.min(f, g), discordant, 0.5))
+    : NaN;
+
+  return {
+    table,
+    pairs,
+    discordantPairs: discordant,
+    matchedOddsRatio,
+    matchedOddsRatioCI,
+    mcNemarChiSquare,
+    mcNemarPValue,
+    mcNemarExactPValue,
+  };
+}
+
+/** P(X <= k) for X ~ Binomial(n, p) */
+function binomialCDF(k: number, n: number, p: number): number {
+  if (k < 0) return 0;
+  if (k >= n) return 1;
+  if (p <= 0) return 1;
+  if (p >= 1) return 0;
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += Math.exp(
+      logGamma(n + 1) - logGamma(i + 1) - logGamma(n - i + 1) +
+      i * Math.log(p) + (n - i) * Math.log(1 - p)
+    );
+  }
+  return Math.min(sum, 1);
+}
+
+/**
+ * Exact (Clopper-Pearson) confidence interval for a binomial proportion x/n,
+ * found by bisection on the binomial tail probabilities.
+ */
+export function clopperPearsonCI(x: number, n: number, confidence = 0.95): [number, number] {
+  if (n <= 0) return [NaN, NaN];
+  const alpha = (1 - confidence) / 2;
+
+  // Find p where a monotone tail probability equals alpha
+  const solve = (tail: (p: number) => number, increasing: boolean): number => {
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 100; i++) {
+      const mid = (lo + hi) / 2;
+      if ((tail(mid) < alpha) === increasing) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  // Lower limit: P(X >= x | p) = alpha; upper limit: P(X <= x | p) = alpha
+  const lower = x === 0 ? 0 : solve(p => 1 - binomialCDF(x - 1, n, p), true);
+  const upper = x === n ? 1 : solve(p => binomialCDF(x, n, p), false);
+  return [lower, upper];
+}
+
+// =============================================================================
+// DOSE-RESPONSE (TREND) ANALYSIS
+// Ordered exposure levels vs a binary outcome: per-level measures against a
+// reference level and the chi-square for linear trend
+// =============================================================================
+
+export interface DoseResponseInput {
+  label: string;
+  cases: number;
+  nonCases: number;
+}
+
+export interface DoseResponseLevel {
+  label: string;
+  /** Score used in the trend test */
+  score: number;
+  cases: number;
+  nonCases: number;
+  total: number;
+  /** Percent of the level who are cases */
+  attackRate: number;
+  isReference: boolean;
+  /** Compared with the reference level (1 for the reference itself) */
+  riskRatio: number;
+  riskRatioCI: [number, number];
+  oddsRatio: number;
+  oddsRatioCI: [number, number];
+}
+
+export interface DoseResponseResults {
+  levels: DoseResponseLevel[];
+  /** True when the level labels are numbers and are used as scores; otherwise ranks 1..k */
+  numericScores: boolean;
+  /** Extended Mantel-Haenszel chi-square for linear trend (1 df) */
+  trendChiSquare: number;
+  trendPValue: number;
+  /** Pearson chi-square minus the Cochran-Armitage trend chi-square (k - 2 df) */
+  departureChiSquare: number;
+  departureDegreesOfFreedom: number;
+  departurePValue: number;
+}
+
+/**
+ * Order exposure levels for a dose-response table: the column's valueOrder
+ * first, then numerically when every remaining label is a number, otherwise
+ * alphabetically.
+ */
+export function orderExposureLevels(values: string[], valueOrder?: string[]): string[] {
+  const ordered = valueOrder ? valueOrder.filter(v => values.includes(v)) : [];
+  const rest = values.filter(v => !ordered.includes(v));
+  const allNumeric = rest.every(v => v.trim() !== '' && isFinite(Number(v)));
+  rest.sort(allNumeric ? (a, b) => Number(a) - Number(b) : undefined);
+  return [...ordered, ...rest];
+}
+
+/**
+ * Dose-response analysis of an ordered exposure (levels given in order).
+ *
+ * Each level is compared with the reference level in its own 2×2 table. The
+ * trend test is the extended Mantel-Haenszel chi-square (Mantel 1963), which
+ * is the Cochran-Armitage statistic multiplied by (N - 1) / N. Level labels
+ * are used as scores when all are numeric (e.g., servings eaten); otherwise
+ * levels are scored 1, 2, 3, ...
+ */
+export function calculateDoseResponse(inputs: DoseResponseInput[], referenceLabel: string): DoseResponseResults {
+  const numericScores = inputs.length > 0 && inputs.every(l => l.label.trim() !== '' && isFinite(Number(l.label)));
+  const scores = inputs.map((l, i) => (numericScores ? Number(l.label) : i + 1));
+  const reference = inputs.find(l => l.label === referenceLabel) ?? inputs[0];
+
+  const levels: DoseResponseLevel[] = inputs.map((l, i) => {
+    const total = l.cases + l.nonCases;
+    const isReference = !!reference && l.label === reference.label;
+    const comparison = reference && !isReference
+      ? calculateTwoByTwo({ a: l.cases, b: l.nonCases, c: reference.cases, d: reference.nonCases })
+      : null;
+    return {
+      label: l.label,
+      score: scores[i],
+      cases: l.cases,
+      nonCases: l.nonCases,
+      total,
+      attackRate: total > 0 ? (l.cases / total) * 100 : NaN,
+      isReference,
+      riskRatio: comparison ? comparison.riskRatio : 1,
+      riskRatioCI: comparison ? comparison.riskRatioCI : [NaN, NaN],
+      oddsRatio: comparison ? comparison.oddsRatio : 1,
+      oddsRatioCI: comparison ? comparison.oddsRatioCI : [NaN, NaN],
+    };
+  });
+
+  const n = levels.reduce((sum, l) => sum + l.total, 0);
+  const totalCases = levels.reduce((sum, l) => sum + l.cases, 0);
+  const totalNonCases = n - totalCases;
+  const sumNX = levels.reduce((sum, l) => sum + l.total * l.score, 0);
+  const sumNX2 = levels.reduce((sum, l) => sum + l.total * l.score * l.score, 0);
+  const sumAX = levels.reduce((sum, l) => sum + l.cases * l.score, 0);
+
+  let trendChiSquare = NaN;
+  let departureChiSquare = NaN;
+  const informativeLevels = levels.filter(l => l.total > 0);
+  const variance = n > 1
+    ? (totalCases * totalNonCases * (n * sumNX2 - sumNX * sumNX)) / (n * n * (n - 1))
+    : 0;
+  if (informativeLevels.length >= 2 && variance > 0) {
+    const t = sumAX - (totalCases * sumNX) / n;
+    trendChiSquare = (t * t) / variance;
+
+    // Pearson chi-square for the k×2 table, partitioned into trend + departure
+    const p = totalCases / n;
+    const pearson = informativeLevels.reduce((sum, l) => {
+      const expectedCases = l.total * p;
+      const expectedNonCases = l.total * (1 - p);
+      return sum
+        + Math.pow(l.cases - expectedCases, 2) / expectedCases
+        + Math.pow(l.nonCases - expectedNonCases, 2) / expectedNonCases;
+    }, 0);
+    const cochranArmitage = (trendChiSquare * n) / (n - 1);
+    departureChiSquare = Math.max(0, pearson - cochranArmitage);
+  }
+
+  const departureDf = informativeLevels.length - 2;
+  return {
+    levels,
+    numericScores,
+    trendChiSquare,
+    trendPValue: isFinite(trendChiSquare) ? 1 - chiSquareCDF(trendChiSquare, 1) : NaN,
+    departureChiSquare: departureDf > 0 ? departureChiSquare : NaN,
+    departureDegreesOfFreedom: Math.max(departureDf, 0),
+    departurePValue: departureDf > 0 && isFinite(departureChiSquare)
+      ? 1 - chiSquareCDF(departureChiSquare, departureDf)
+      : NaN,
+  };
+}
+
+// =============================================================================
+// EXACT AND SMALL-SAMPLE METHODS
+// Exact conditional and mid-P odds ratio CIs, mid-P p-values, and CIs for
+// proportions (attack rates, frequency percents)
+// =============================================================================
+
+/**
+ * Method for confidence intervals and p-values:
+ * - approximate: Woolf/Taylor CIs, Yates chi-square, Wilson score for proportions
+ * - exact: exact conditional OR CI, Fisher exact p, Clopper-Pearson for proportions
+ * - mid-p: mid-P exact OR CI, p-value and proportion CI
+ */
+export type ConfidenceMethod = 'approximate' | 'exact' | 'mid-p';
+
+/** Display names for each method, used in tables and exports */
+export const CONFIDENCE_METHOD_LABELS: Record<ConfidenceMethod, { proportion: string; oddsRatio: string; pValue: string }> = {
+  approximate: { proportion: 'Wilson score', oddsRatio: 'Woolf (Taylor series)', pValue: 'Chi-square (Yates corrected)' },
+  exact: { proportion: 'Clopper-Pearson exact', oddsRatio: 'Exact conditional', pValue: 'Fisher exact' },
+  'mid-p': { proportion: 'Mid-P exact', oddsRatio: 'Mid-P exact conditional', pValue: 'Mid-P exact' },
+};
+
+/** Find the root of a monotone function on the log scale by bisection */
+function solveLogScale(f: (value: number) => number, target: number, increasing: boolean): number {
+  let lo = -30;
+  let hi = 30;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if ((f(Math.exp(mid)) < target) === increasing) lo = mid;
+    else hi = mid;
+  }
+  return Math.exp((lo + hi) / 2);
+}
+
+/** Wilson score 95% CI for a proportion x/n */
+export function wilsonCI(x: number, n: number): [number, number] {
+  if (n <= 0) return [NaN, NaN];
+  const z = 1.96;
+  const p = x / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const halfWidth = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return [Math.max(0, center - halfWidth), Math.min(1, center + halfWidth)];
+}
+
+/** Mid-P exact 95% CI for a proportion x/n */
+function midPProportionCI(x: number, n: number): [number, number] {
+  if (n <= 0) return [NaN, NaN];
+  const alpha = 0.025;
+  const pmf = (p: number) => binomialCDF(x, n, p) - binomialCDF(x - 1, n, p);
+
+  const solve = (tail: (p: number) => number, increasing: boolean): number => {
+    let lo = 0;
+    let hi = 1;
+    for (let i = 0; i < 100; i++) {
+      const mid = (lo + hi) / 2;
+      if ((tail(mid) < alpha) === increasing) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  // Lower: P(X > x) + P(X = x)/2 = alpha; upper: P(X < x) + P(X = x)/2 = alpha
+  const lower = x === 0 ? 0 : solve(p => 1 - binomialCDF(x, n, p) + pmf(p) / 2, true);
+  const upper = x === n ? 1 : solve(p => binomialCDF(x - 1, n, p) + pmf(p) / 2, false);
+  return [lower, upper];
+}
+
+/** Exact (Garwood) 95% CI for a Poisson count */
+export function poissonExactCI(count: number): [number, number] {
+  if (count < 0 || !isFinite(count)) return [NaN, NaN];
+  const lower = count === 0 ? 0 : chiSquareQuantile(0.025, 2 * count) / 2;
+  return [lower, chiSquareQuantile(0.975, 2 * count + 2) / 2];
+}
+
+/** 95% CI for a proportion x/n (0-1 scale) by the chosen method */
+export function proportionCI(x: number, n: number, method: ConfidenceMethod): [number, number] {
+  if (method === 'exact') return clopperPearsonCI(x, n);
+  if (method === 'mid-p') return midPProportionCI(x, n);
+  return wilsonCI(x, n);
+}
+
+export interface ExactOddsRatioResults {
+  /** Conditional maximum likelihood estimate of the odds ratio */
+  conditionalMLE: number;
+  ci: [number, number];
+  /** Two-sided p-value: Fisher exact, or mid-P when midP is set */
+  pValue: number;
+}
+
+/**
+ * Exact conditional analysis of a 2×2 table. With all margins fixed, cell a
+ * follows the noncentral hypergeometric distribution with parameter OR; the
+ * CI limits are the ORs at which the observed a sits in the 2.5% tail
+ * (Fisher), or where the tail plus half the probability of a does (mid-P).
+ * Valid with zero cells, where an unbounded limit is returned as 0 or Infinity.
+ */
+export function calculateExactOddsRatio(table: TwoByTwoTable, midP = false): ExactOddsRatioResults {
+  const { a, b, c, d } = table;
+  const n1 = a + b;
+  const n0 = c + d;
+  const m1 = a + c;
+  const minA = Math.max(0, m1 - n0);
+  const maxA = Math.min(n1, m1);
+  if (n1 === 0 || n0 === 0 || m1 === 0 || m1 === n1 + n0) {
+    return { conditionalMLE: NaN, ci: [NaN, NaN], pValue: NaN };
+  }
+
+  const logBase: number[] = [];
+  for (let k = minA; k <= maxA; k++) {
+    logBase.push(logCombination(n1, k) + logCombination(n0, m1 - k));
+  }
+
+  // Probabilities of a = minA..maxA given the odds ratio
+  const distribution = (oddsRatio: number): number[] => {
+    const logOR = Math.log(oddsRatio);
+    const logWeights = logBase.map((w, i) => w + (minA + i) * logOR);
+    const max = Math.max(...logWeights);
+    const weights = logWeights.map(w => Math.exp(w - max));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+  };
+  const index = a - minA;
+  const upperTail = (oddsRatio: number): number => {
+    const probs = distribution(oddsRatio);
+    const beyond = probs.slice(index + 1).reduce((sum, p) => sum + p, 0);
+    return beyond + (midP ? probs[index] / 2 : probs[index]);
+  };
+  const lowerTail = (oddsRatio: number): number => {
+    const probs = distribution(oddsRatio);
+    const below = probs.slice(0, index).reduce((sum, p) => sum + p, 0);
+    return below + (midP ? probs[index] / 2 : probs[index]);
+  };
+  const mean = (oddsRatio: number): number =>
+    distribution(oddsRatio).reduce((sum, p, i) => sum + p * (minA + i), 0);
+
+  const alpha = 0.025;
+  const lower = a === minA ? 0 : solveLogScale(upperTail, alpha, true);
+  const upper = a === maxA ? Infinity : solveLogScale(lowerTail, alpha, false);
+  const conditionalMLE = a === minA ? 0 : a === maxA ? Infinity : solveLogScale(mean, a, true);
+
+  // Two-sided p-value at OR = 1
+  const nullProbs = distribution(1);
+  let pValue: number;
+  if (midP) {
+    pValue = 2 * Math.min(lowerTail(1), upperTail(1));
+  } else {
+    const observed = nullProbs[index];
+    pValue = nullProbs.filter(p => p <= observed * (1 + 1e-7)).reduce((sum, p) => sum + p, 0);
+  }
+
+  return { conditionalMLE, ci: [lower, upper], pValue: Math.min(1, pValue) };
+}
+
+// =============================================================================
+// CONTINUOUS-OUTCOME GROUP COMPARISONS
+// Welch's t-test, one-way ANOVA, Wilcoxon rank-sum (Mann-Whitney) and
+// Kruskal-Wallis, with effect sizes
+// =============================================================================
+
+/** Regularized incomplete beta function I_x(a, b) */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const logFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  // Use the continued fraction directly where it converges quickly, otherwise the symmetry relation
+  if (x < (a + 1) / (a + b + 2)) {
+    return (Math.exp(logFront) * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (Math.exp(logFront) * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Continued fraction for the incomplete beta function (modified Lentz) */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+/** Two-sided p-value for Student's t with df degrees of freedom */
+function tTwoSidedPValue(t: number, df: number): number {
+  if (!isFinite(t) || df <= 0) return NaN;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Upper-tail probability of the F distribution */
+export function fUpperTail(f: number, df1: number, df2: number): number {
+  if (!isFinite(f) || f < 0 || df1 <= 0 || df2 <= 0) return NaN;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/** Critical t value for a two-sided 95% CI */
+export function tCritical95(df: number): number {
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (tTwoSidedPValue(mid, df) > 0.05) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Average ranks (1-based) of the pooled values, with the tie-correction term sum(t^3 - t) */
+function rankWithTies(values: number[]): { ranks: number[]; tieSum: number } {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+  let tieSum = 0;
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].v === order[i].v) j++;
+    const averageRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) ranks[order[k].i] = averageRank;
+    const t = j - i + 1;
+    tieSum += t * t * t - t;
+    i = j + 1;
+  }
+  return { ranks, tieSum };
+}
+
+export interface ContinuousGroup {
+  label: string;
+  values: number[];
+}
+
+export interface WelchTTestResults {
+  /** Mean of group 1 minus mean of group 2 */
+  meanDifference: number;
+  meanDifferenceCI: [number, number];
+  t: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  /** Standardized mean difference using the pooled SD */
+  cohensD: number;
+  /** Cohen's d with the small-sample correction */
+  hedgesG: number;
+}
+
+/**
+ * Welch's unequal-variance t-test for the difference in means between two
+ * groups, with a 95% CI (Welch-Satterthwaite df).
+ */
+export function welchTTest(x: number[], y: number[]): WelchTTestResults {
+  const nx = x.length;
+  const ny = y.length;
+  const empty: WelchTTestResults = {
+    meanDifference: NaN, meanDifferenceCI: [NaN, NaN], t: NaN, degreesOfFreedom: NaN, pValue: NaN, cohensD: NaN, hedgesG: NaN,
+  };
+  if (nx < 2 || ny < 2) return empty;
+
+  const mean = (v: number[]) => v.reduce((sum, value) => sum + value, 0) / v.length;
+  const variance = (v: number[], m: number) => v.reduce((sum, value) => sum + (value - m) ** 2, 0) / (v.length - 1);
+  const mx = mean(x);
+  const my = mean(y);
+  const vx = variance(x, mx);
+  const vy = variance(y, my);
+  const difference = mx - my;
+  const se = Math.sqrt(vx / nx + vy / ny);
+
+  const pooledSD = Math.sqrt(((nx - 1) * vx + (ny - 1) * vy) / (nx + ny - 2));
+  const cohensD = pooledSD > 0 ? difference / pooledSD : NaN;
+  const hedgesG = cohensD * (1 - 3 / (4 * (nx + ny) - 9));
+
+  if (se === 0) return { ...empty, meanDifference: difference, cohensD, hedgesG };
+
+  const t = difference / se;
+  const df = (vx / nx + vy / ny) ** 2 / ((vx / nx) ** 2 / (nx - 1) + (vy / ny) ** 2 / (ny - 1));
+  const margin = tCritical95(df) * se;
+  return {
+    meanDifference: difference,
+    meanDifferenceCI: [difference - margin, difference + margin],
+    t,
+    degreesOfFreedom: df,
+    pValue: tTwoSidedPValue(t, df),
+    cohensD,
+    hedgesG,
+  };
+}
+
+export interface AnovaResults {
+  f: number;
+  dfBetween: number;
+  dfWithin: number;
+  pValue: number;
+  /** Proportion of total variance explained by group */
+  etaSquared: number;
+  /** Less biased variance-explained estimate */
+  omegaSquared: number;
+}
+
+/** One-way ANOVA across two or more groups (equal-variance F test) */
+export function oneWayAnova(groups: ContinuousGroup[]): AnovaResults {
+  const used = groups.filter(g => g.values.length > 0);
+  const n = used.reduce((sum, g) => sum + g.values.length, 0);
+  const k = used.length;
+  const dfBetween = k - 1;
+  const dfWithin = n - k;
+  if (k < 2 || dfWithin <= 0) {
+    return { f: NaN, dfBetween, dfWithin, pValue: NaN, etaSquared: NaN, omegaSquared: NaN };
+  }
+
+  const grandMean = used.reduce((sum, g) => sum + g.values.reduce((s, v) => s + v, 0), 0) / n;
+  let ssBetween = 0;
+  let ssWithin = 0;
+  used.forEach(g => {
+    const m = g.values.reduce((s, v) => s + v, 0) / g.values.length;
+    ssBetween += g.values.length * (m - grandMean) ** 2;
+    ssWithin += g.values.reduce((s, v) => s + (v - m) ** 2, 0);
+  });
+  const ssTotal = ssBetween + ssWithin;
+  const msWithin = ssWithin / dfWithin;
+  const f = msWithin > 0 ? ssBetween / dfBetween / msWithin : NaN;
+
+  return {
+    f,
+    dfBetween,
+    dfWithin,
+    pValue: fUpperTail(f, dfBetween, dfWithin),
+    etaSquared: ssTotal > 0 ? ssBetween / ssTotal : NaN,
+    omegaSquared: ssTotal > 0 ? Math.max(0, (ssBetween - dfBetween * msWithin) / (ssTotal + msWithin)) : NaN,
+  };
+}
+
+/** Above this many pairwise differences the Hodges-Lehmann estimate is skipped */
+const MAX_HODGES_LEHMANN_PAIRS = 1_000_000;
+
+export interface RankSumResults {
+  /** Mann-Whitney U for group 1 (equals R's W statistic) */
+  u: number;
+  z: number;
+  /** Two-sided p-value, normal approximation with tie and continuity corrections */
+  pValue: number;
+  /** Hodges-Lehmann estimate of the shift (group 1 minus group 2) */
+  medianDifference: number;
+  medianDifferenceCI: [number, number];
+  /** Effect size r = |z| / sqrt(N) */
+  effectSizeR: number;
+  /** P(random group 1 value > random group 2 value), ties counted as 1/2 */
+  probabilityOfSuperiority: number;
+}
+
+/**
+ * Wilcoxon rank-sum (Mann-Whitney U) test comparing two groups, with the
+ * Hodges-Lehmann median difference and its distribution-free 95% CI.
+ */
+export function wilcoxonRankSum(x: number[], y: number[]): RankSumResults {
+  const nx = x.length;
+  const ny = y.length;
+  if (nx === 0 || ny === 0) {
+    return {
+      u: NaN, z: NaN, pValue: NaN, medianDifference: NaN, medianDifferenceCI: [NaN, NaN], effectSizeR: NaN, probabilityOfSuperiority: NaN,
+    };
+  }
+  const n = nx + ny;
+  const { ranks, tieSum } = rankWithTies([...x, ...y]);
+  const rankSumX = ranks.slice(0, nx).reduce((sum, r) => sum + r, 0);
+  const u = rankSumX - (nx * (nx + 1)) / 2;
+  const meanU = (nx * ny) / 2;
+  const varianceU = ((nx * ny) / 12) * (n + 1 - tieSum / (n * (n - 1)));
+  const deviation = u - meanU;
+  const z = varianceU > 0
+    ? (deviation - Math.sign(deviation) * 0.5) / Math.sqrt(varianceU)
+    : NaN;
+
+  let medianDifference = NaN;
+  let medianDifferenceCI: [number, number] = [NaN, NaN];
+  if (nx * ny <= MAX_HODGES_LEHMANN_PAIRS) {
+    const differences: number[] = [];
+    x.forEach(a => y.forEach(b => differences.push(a - b)));
+    differences.sort((a, b) => a - b);
+    const m = differences.length;
+    medianDifference = m % 2 === 1
+      ? differences[(m - 1) / 2]
+      : (differences[m / 2 - 1] + differences[m / 2]) / 2;
+    // Order statistics of the pairwise differences bounding the 95% CI
+    const k = Math.floor(meanU - 1.96 * Math.sqrt((nx * ny * (n + 1)) / 12));
+    if (k >= 1) medianDifferenceCI = [differences[k - 1], differences[m - k]];
+  }
+
+  return {
+    u,
+    z,
+    pValue: isFinite(z) ? 1 - chiSquareCDF(z * z, 1) : NaN,
+    medianDifference,
+    medianDifferenceCI,
+    effectSizeR: isFinite(z) ? Math.abs(z) / Math.sqrt(n) : NaN,
+    probabilityOfSuperiority: u / (nx * ny),
+  };
+}
+
+export interface KruskalWallisResults {
+  h: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  /** Epsilon-squared effect size, H / (N - 1) */
+  epsilonSquared: number;
+}
+
+/** Kruskal-Wallis rank test across two or more groups (tie-corrected H) */
+export function kruskalWallis(groups: ContinuousGroup[]): KruskalWallisResults {
+  const used = groups.filter(g => g.values.length > 0);
+  const k = used.length;
+  const pooled = used.flatMap(g => g.values);
+  const n = pooled.length;
+  if (k < 2 || n < 3) return { h: NaN, degreesOfFreedom: k - 1, pValue: NaN, epsilonSquared: NaN };
+
+  const { ranks, tieSum } = rankWithTies(pooled);
+  let offset = 0;
+  let sum = 0;
+  used.forEach(g => {
+    const rankSum = ranks.slice(offset, offset + g.values.length).reduce((s, r) => s + r, 0);
+    sum += (rankSum * rankSum) / g.values.length;
+    offset += g.values.length;
+  });
+  const tieCorrection = 1 - tieSum / (n * n * n - n);
+  const h = tieCorrection > 0 ? ((12 / (n * (n + 1))) * sum - 3 * (n + 1)) / tieCorrection : NaN;
+  const df = k - 1;
+
+  return {
+    h,
+    degreesOfFreedom: df,
+    pValue: isFinite(h) ? 1 - chiSquareCDF(h, df) : NaN,
+    epsilonSquared: isFinite(h) ? h / (n - 1) : NaN,
+  };
+}
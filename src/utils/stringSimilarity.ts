@@ -62,7 +62,7 @@ function jaroSimilarity(s1: string, s2: string): number {
  */
 // Cap string length so pairwise fuzzy matching over large datasets stays
 // fast (Jaro similarity is O(n*m) per comparison)
-const MAX_SIMILARITY_LENGTH = 64;
+export const MAX_SIMILARITY_LENGTH = 64;
 
 export function jaroWinklerSimilarity(
   s1: string,
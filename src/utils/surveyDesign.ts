@@ -0,0 +1,426 @@
+/**
+ * Complex Survey Design Estimation
+ *
+ * Weighted estimates for datasets that declare sampling weights, strata and
+ * clusters (primary sampling units), as in SMART, MICS or EPI coverage
+ * surveys. Used by the Variable Explorer and Table Builder when a dataset has
+ * a survey design; without one, the simple random sampling methods in
+ * statistics.ts apply.
+ *
+ * CONTENTS:
+ *
+ * 1. DESIGN SET-UP
+ *    - Active design columns, weights/strata/PSUs per record
+ *    - Design degrees of freedom (PSUs - strata), singleton strata
+ *
+ * 2. TAYLOR-LINEARIZED ESTIMATION
+ *    - Ratio estimator for weighted proportions and means, including
+ *      subpopulations (domains) without dropping any PSU
+ *    - With-replacement variance between PSUs within strata
+ *    - Design effect against simple random sampling of the same size
+ *    - 95% CIs from Student's t on the design df (logit scale for proportions)
+ *
+ * 3. WEIGHTED FREQUENCIES, MEANS AND CROSS-TABULATIONS
+ *    - Weighted percentages per level, weighted mean
+ *    - Row, column and total percentages for R×C tables
+ *    - Rao-Scott first-order corrected chi-square (and F) test of independence
+ *
+ * References:
+ * - Lohr SL. Sampling: Design and Analysis. 2nd ed. 2010. Chapters 9-10.
+ * - Rao JNK, Scott AJ. On chi-squared tests for multiway contingency tables
+ *   with cell proportions estimated from survey data. Ann Stat 1984;12:46-60.
+ */
+import type { CaseRecord, DataColumn, SurveyDesign } from '../types/analysis';
+import { chiSquareCDF, fUpperTail, orderExposureLevels, tCritical95 } from './statistics';
+
+// =============================================================================
+// DESIGN SET-UP
+// =============================================================================
+
+export interface SurveyDesignSummary {
+  /** Records with a usable weight, stratum and cluster */
+  records: number;
+  /** Records left out for a missing or non-positive weight, or a missing stratum/cluster */
+  excluded: number;
+  strata: number;
+  psus: number;
+  /** PSUs minus strata; the df for t-based CIs */
+  degreesOfFreedom: number;
+  /** Strata with a single PSU, which contribute no variance */
+  singletonStrata: number;
+  weighted: boolean;
+}
+
+interface DesignUnit {
+  record: CaseRecord;
+  weight: number;
+  stratum: string;
+  psu: string;
+}
+
+/** Records prepared for design-based estimation */
+export interface SurveySample {
+  units: DesignUnit[];
+  summary: SurveyDesignSummary;
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * The declared design limited to columns that still exist, or null when no
+ * design field is set (simple random sampling).
+ */
+export function getActiveSurveyDesign(design: SurveyDesign | undefined, columns: DataColumn[]): SurveyDesign | null {
+  if (!design) return null;
+  const valid = (key?: string) => (key && columns.some(col => col.key === key) ? key : undefined);
+  const active: SurveyDesign = {
+    weightField: valid(design.weightField),
+    strataField: valid(design.strataField),
+    clusterField: valid(design.clusterField),
+  };
+  return active.weightField || active.strataField || active.clusterField ? active : null;
+}
+
+/** Short description of the design, e.g. "weights: wt · strata: region · clusters: village" */
+export function describeSurveyDesign(design: SurveyDesign, columns: DataColumn[]): string {
+  const label = (key?: string) => columns.find(col => col.key === key)?.label ?? key;
+  return [
+    design.weightField && `weights: ${label(design.weightField)}`,
+    design.strataField && `strata: ${label(design.strataField)}`,
+    design.clusterField && `clusters: ${label(design.clusterField)}`,
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Attach weight, stratum and PSU to each record. Without a cluster field each
+ * record is its own PSU; without strata there is one stratum.
+ */
+export function prepareSurveySample(records: CaseRecord[], design: SurveyDesign): SurveySample {
+  const units: DesignUnit[] = [];
+  let excluded = 0;
+
+  records.forEach((record, index) => {
+    const weight = design.weightField ? Number(record[design.weightField]) : 1;
+    if (design.weightField && (isBlank(record[design.weightField]) || !isFinite(weight) || weight <= 0)) {
+      excluded++;
+      return;
+    }
+    if ((design.strataField && isBlank(record[design.strataField])) || (design.clusterField && isBlank(record[design.clusterField]))) {
+      excluded++;
+      return;
+    }
+    const stratum = design.strataField ? String(record[design.strataField]).trim() : '';
+    const cluster = design.clusterField ? String(record[design.clusterField]).trim() : `#${index}`;
+    units.push({ record, weight, stratum, psu: `${stratum}\u0000${cluster}` });
+  });
+
+  const psusByStratum = new Map<string, Set<string>>();
+  units.forEach(unit => {
+    if (!psusByStratum.has(unit.stratum)) psusByStratum.set(unit.stratum, new Set());
+    psusByStratum.get(unit.stratum)!.add(unit.psu);
+  });
+  const psus = Array.from(psusByStratum.values()).reduce((sum, set) => sum + set.size, 0);
+
+  return {
+    units,
+    summary: {
+      records: units.length,
+      excluded,
+      strata: psusByStratum.size,
+      psus,
+      degreesOfFreedom: Math.max(0, psus - psusByStratum.size),
+      singletonStrata: Array.from(psusByStratum.values()).filter(set => set.size === 1).length,
+      weighted: !!design.weightField,
+    },
+  };
+}
+
+// =============================================================================
+// TAYLOR-LINEARIZED ESTIMATION
+// =============================================================================
+
+export interface SurveyEstimate {
+  /** Proportion (0-1) or mean */
+  estimate: number;
+  standardError: number;
+  ci: [number, number];
+  /** Design variance / simple random sampling variance */
+  designEffect: number;
+  /** Unweighted records in the domain */
+  count: number;
+  /** Sum of weights in the domain (estimated population size when weighted) */
+  weightedCount: number;
+}
+
+/**
+ * With-replacement variance of a total from PSU totals of the linearized
+ * scores: Σₕ nₕ/(nₕ-1) Σᵢ (zₕᵢ - z̄ₕ)².
+ */
+function linearizedVariance(units: DesignUnit[], scores: number[]): number {
+  const totals = new Map<string, Map<string, number>>();
+  units.forEach((unit, i) => {
+    if (!totals.has(unit.stratum)) totals.set(unit.stratum, new Map());
+    const psuTotals = totals.get(unit.stratum)!;
+    psuTotals.set(unit.psu, (psuTotals.get(unit.psu) ?? 0) + scores[i]);
+  });
+
+  let variance = 0;
+  totals.forEach(psuTotals => {
+    const n = psuTotals.size;
+    if (n < 2) return;
+    const values = Array.from(psuTotals.values());
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    variance += (n / (n - 1)) * values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0);
+  });
+  return variance;
+}
+
+/**
+ * Ratio estimator Σwy/Σw over a domain. Records outside the domain (or with
+ * y missing) keep a zero score so every PSU still counts toward the variance.
+ */
+function ratioEstimate(
+  sample: SurveySample,
+  value: (record: CaseRecord) => number | null,
+  inDomain: (record: CaseRecord) => boolean,
+  isProportion: boolean
+): SurveyEstimate | null {
+  const ys = sample.units.map(unit => (inDomain(unit.record) ? value(unit.record) : null));
+  let weightedCount = 0;
+  let weightedSum = 0;
+  let count = 0;
+  sample.units.forEach((unit, i) => {
+    const y = ys[i];
+    if (y === null) return;
+    weightedCount += unit.weight;
+    weightedSum += unit.weight * y;
+    count++;
+  });
+  if (count === 0 || weightedCount <= 0) return null;
+
+  const estimate = weightedSum / weightedCount;
+  const scores = sample.units.map((unit, i) => {
+    const y = ys[i];
+    return y === null ? 0 : (unit.weight * (y - estimate)) / weightedCount;
+  });
+  const variance = linearizedVariance(sample.units, scores);
+  const standardError = Math.sqrt(variance);
+
+  // Variance of the same estimate from a simple random sample of `count` records
+  const weightedSquares = sample.units.reduce((sum, unit, i) => {
+    const y = ys[i];
+    return y === null ? sum : sum + unit.weight * (y - estimate) * (y - estimate);
+  }, 0);
+  const srsVariance = count > 1 ? (weightedSquares / weightedCount) * (count / (count - 1)) / count : NaN;
+
+  const df = sample.summary.degreesOfFreedom;
+  const t = df > 0 ? tCritical95(df) : NaN;
+  let ci: [number, number];
+  if (!isFinite(t) || !isFinite(standardError)) {
+    ci = [NaN, NaN];
+  } else if (isProportion) {
+    if (estimate <= 0 || estimate >= 1 || standardError === 0) {
+      ci = [estimate, estimate];
+    } else {
+      const logit = Math.log(estimate / (1 - estimate));
+      const margin = (t * standardError) / (estimate * (1 - estimate));
+      const expit = (x: number) => 1 / (1 + Math.exp(-x));
+      ci = [expit(logit - margin), expit(logit + margin)];
+    }
+  } else {
+    ci = [estimate - t * standardError, estimate + t * standardError];
+  }
+
+  return {
+    estimate,
+    standardError,
+    ci,
+    designEffect: srsVariance > 0 ? variance / srsVariance : NaN,
+    count,
+    weightedCount,
+  };
+}
+
+// =============================================================================
+// WEIGHTED FREQUENCIES, MEANS AND CROSS-TABULATIONS
+// =============================================================================
+
+export interface SurveyProportion extends SurveyEstimate {
+  value: string;
+}
+
+export interface SurveyFrequencyResults {
+  levels: SurveyProportion[];
+  /** Design records with no value for the variable */
+  missingCount: number;
+}
+
+/** Weighted percentage of each level of a categorical variable, excluding missing values */
+export function surveyFrequency(sample: SurveySample, field: string, valueOrder?: string[]): SurveyFrequencyResults {
+  const valueOf = (record: CaseRecord) => (isBlank(record[field]) ? null : String(record[field]).trim());
+  const values = orderExposureLevels(
+    Array.from(new Set(sample.units.map(unit => valueOf(unit.record)).filter((v): v is string => v !== null))),
+    valueOrder
+  );
+  const hasValue = (record: CaseRecord) => valueOf(record) !== null;
+
+  const levels = values.flatMap(level => {
+    const estimate = ratioEstimate(sample, record => (valueOf(record) === level ? 1 : 0), hasValue, true);
+    return estimate ? [{ value: level, ...estimate }] : [];
+  });
+
+  return {
+    levels,
+    missingCount: sample.units.filter(unit => !hasValue(unit.record)).length,
+  };
+}
+
+/** Weighted mean of a numeric variable, excluding missing and non-numeric values */
+export function surveyMean(sample: SurveySample, field: string): SurveyEstimate | null {
+  const valueOf = (record: CaseRecord) => {
+    if (isBlank(record[field])) return null;
+    const n = Number(record[field]);
+    return isFinite(n) ? n : null;
+  };
+  return ratioEstimate(sample, valueOf, record => valueOf(record) !== null, false);
+}
+
+export interface SurveyCrossTabCell {
+  count: number;
+  weightedCount: number;
+  rowPercent: SurveyEstimate | null;
+  colPercent: SurveyEstimate | null;
+  totalPercent: SurveyEstimate | null;
+}
+
+export interface RaoScottTest {
+  /** Pearson chi-square computed from the weighted proportions and the unweighted n */
+  pearsonChiSquare: number;
+  /** Mean generalized design effect δ̄ */
+  meanDesignEffect: number;
+  /** Pearson chi-square / δ̄ */
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  /** chiSquare / df on (df, df × design df) degrees of freedom */
+  fStatistic: number;
+  fDegreesOfFreedom: [number, number];
+  fPValue: number;
+}
+
+export interface SurveyCrossTabResults {
+  rowValues: string[];
+  colValues: string[];
+  cells: Map<string, Map<string, SurveyCrossTabCell>>;
+  rowTotals: Map<string, SurveyEstimate | null>;
+  colTotals: Map<string, SurveyEstimate | null>;
+  /** Unweighted records with both values present */
+  count: number;
+  weightedCount: number;
+  raoScott: RaoScottTest | null;
+}
+
+/**
+ * Weighted R×C table. Row and column percentages are domain estimates;
+ * totals are proportions of all records with both values. An optional
+ * `inDomain` restricts the table to a subpopulation (e.g. the Table Builder
+ * filters) while keeping every PSU in the variance. The Rao-Scott
+ * first-order correction divides the Pearson statistic by
+ * δ̄ = [Σᵢⱼ (pᵢⱼ/(pᵢ.p.ⱼ))(1-pᵢⱼ)dᵢⱼ - Σᵢ(1-pᵢ.)dᵢ - Σⱼ(1-p.ⱼ)dⱼ] / ((R-1)(C-1)),
+ * where d are the design effects of the cell and marginal proportions.
+ */
+export function surveyCrossTab(
+  sample: SurveySample,
+  rowField: string,
+  colField: string,
+  rowValueOrder?: string[],
+  colValueOrder?: string[],
+  inDomain?: (record: CaseRecord) => boolean
+): SurveyCrossTabResults {
+  const rowOf = (record: CaseRecord) => (isBlank(record[rowField]) ? null : String(record[rowField]).trim());
+  const colOf = (record: CaseRecord) => (isBlank(record[colField]) ? null : String(record[colField]).trim());
+  const valid = (record: CaseRecord) =>
+    rowOf(record) !== null && colOf(record) !== null && (!inDomain || inDomain(record));
+  const validUnits = sample.units.filter(unit => valid(unit.record));
+
+  const rowValues = orderExposureLevels(Array.from(new Set(validUnits.map(unit => rowOf(unit.record)!))), rowValueOrder);
+  const colValues = orderExposureLevels(Array.from(new Set(validUnits.map(unit => colOf(unit.record)!))), colValueOrder);
+
+  const cells = new Map<string, Map<string, SurveyCrossTabCell>>();
+  rowValues.forEach(rv => {
+    const row = new Map<string, SurveyCrossTabCell>();
+    colValues.forEach(cv => {
+      const inCell = (record: CaseRecord) => rowOf(record) === rv && colOf(record) === cv;
+      const members = validUnits.filter(unit => inCell(unit.record));
+      row.set(cv, {
+        count: members.length,
+        weightedCount: members.reduce((sum, unit) => sum + unit.weight, 0),
+        rowPercent: ratioEstimate(sample, record => (colOf(record) === cv ? 1 : 0), record => valid(record) && rowOf(record) === rv, true),
+        colPercent: ratioEstimate(sample, record => (rowOf(record) === rv ? 1 : 0), record => valid(record) && colOf(record) === cv, true),
+        totalPercent: ratioEstimate(sample, record => (inCell(record) ? 1 : 0), valid, true),
+      });
+    });
+    cells.set(rv, row);
+  });
+
+  const rowTotals = new Map(rowValues.map(rv => [rv, ratioEstimate(sample, record => (rowOf(record) === rv ? 1 : 0), valid, true)]));
+  const colTotals = new Map(colValues.map(cv => [cv, ratioEstimate(sample, record => (colOf(record) === cv ? 1 : 0), valid, true)]));
+
+  return {
+    rowValues,
+    colValues,
+    cells,
+    rowTotals,
+    colTotals,
+    count: validUnits.length,
+    weightedCount: validUnits.reduce((sum, unit) => sum + unit.weight, 0),
+    raoScott: raoScottTest(rowValues, colValues, cells, rowTotals, colTotals, validUnits.length, sample.summary.degreesOfFreedom),
+  };
+}
+
+function raoScottTest(
+  rowValues: string[],
+  colValues: string[],
+  cells: Map<string, Map<string, SurveyCrossTabCell>>,
+  rowTotals: Map<string, SurveyEstimate | null>,
+  colTotals: Map<string, SurveyEstimate | null>,
+  n: number,
+  designDf: number
+): RaoScottTest | null {
+  const df = (rowValues.length - 1) * (colValues.length - 1);
+  if (df <= 0 || n === 0) return null;
+
+  let pearson = 0;
+  let deffSum = 0;
+  for (const rv of rowValues) {
+    const pRow = rowTotals.get(rv)?.estimate ?? 0;
+    for (const cv of colValues) {
+      const pCol = colTotals.get(cv)?.estimate ?? 0;
+      const cell = cells.get(rv)!.get(cv)!.totalPercent;
+      const pCell = cell?.estimate ?? 0;
+      const expected = pRow * pCol;
+      if (expected <= 0) continue;
+      pearson += (n * (pCell - expected) * (pCell - expected)) / expected;
+      if (pCell > 0) deffSum += (pCell / expected) * (1 - pCell) * (cell!.designEffect);
+    }
+  }
+  rowTotals.forEach(total => { if (total) deffSum -= (1 - total.estimate) * total.designEffect; });
+  colTotals.forEach(total => { if (total) deffSum -= (1 - total.estimate) * total.designEffect; });
+
+  const meanDesignEffect = deffSum / df;
+  if (!isFinite(meanDesignEffect) || meanDesignEffect <= 0) return null;
+
+  const chiSquare = pearson / meanDesignEffect;
+  const fStatistic = chiSquare / df;
+  const fDegreesOfFreedom: [number, number] = [df, df * designDf];
+  return {
+    pearsonChiSquare: pearson,
+    meanDesignEffect,
+    chiSquare,
+    degreesOfFreedom: df,
+    pValue: 1 - chiSquareCDF(chiSquare, df),
+    fStatistic,
+    fDegreesOfFreedom,
+    fPValue: designDf > 0 ? fUpperTail(fStatistic, df, df * designDf) : NaN,
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * Person-Time and Survival Analysis
+ *
+ * Cohort follow-up from entry and exit dates: incidence rates per
+ * person-time, rate ratios, Kaplan-Meier survival curves and the log-rank
+ * test. Used by the Time-to-Event analysis in the Model step.
+ *
+ * CONTENTS:
+ *
+ * 1. FOLLOW-UP DATA
+ *    - Follow-up time from entry/exit dates (parseLocalDate), event indicator
+ *    - Exclusion counts for missing or reversed dates
+ *
+ * 2. PERSON-TIME RATES
+ *    - Events, person-time and incidence rate per group, exact Poisson 95% CI
+ *    - Rate ratios against a reference group (Wald CI on the log scale)
+ *
+ * 3. KAPLAN-MEIER
+ *    - Product-limit survival with Greenwood standard errors
+ *    - 95% CI on the log(-log) scale, median survival time
+ *
+ * 4. LOG-RANK TEST
+ *    - Observed vs expected events per group; chi-square on k-1 df
+ *
+ * References:
+ * - Rothman KJ, Greenland S, Lash TL. Modern Epidemiology. 3rd ed.
+ * - Kleinbaum DG, Klein M. Survival Analysis: A Self-Learning Text. 3rd ed.
+ */
+import type { CaseRecord } from '../types/analysis';
+import { parseLocalDate } from './epiCurve';
+import { chiSquareCDF, orderExposureLevels, poissonExactCI } from './statistics';
+import { invertMatrix } from './regression';
+
+// =============================================================================
+// FOLLOW-UP DATA
+// =============================================================================
+
+export type PersonTimeUnit = 'days' | 'weeks' | 'months' | 'years';
+
+/** Length of each person-time unit in days */
+export const PERSON_TIME_UNIT_DAYS: Record<PersonTimeUnit, number> = {
+  days: 1,
+  weeks: 7,
+  months: 30.4375,
+  years: 365.25,
+};
+
+export interface SurvivalObservation {
+  id: string;
+  group: string;
+  /** Follow-up time in days */
+  time: number;
+  event: boolean;
+}
+
+export interface SurvivalDataOptions {
+  entryField: string;
+  exitField: string;
+  eventField: string;
+  /** Values of eventField that mean the event occurred; anything else is censored */
+  eventValues: string[];
+  /** Comparison groups; omit to analyze everyone together */
+  groupField?: string;
+}
+
+export interface SurvivalData {
+  observations: SurvivalObservation[];
+  excluded: {
+    missingDates: number;
+    exitBeforeEntry: number;
+    missingGroup: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+function toDate(value: unknown): Date | null {
+  if (isBlank(value)) return null;
+  const date = parseLocalDate(value instanceof Date ? value : String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Follow-up time for each record from its entry and exit dates. Times are
+ * whole days (rounded, so daylight-saving shifts do not matter); a same-day
+ * exit gives time 0.
+ */
+export function buildSurvivalData(records: CaseRecord[], options: SurvivalDataOptions): SurvivalData {
+  const { entryField, exitField, eventField, eventValues, groupField } = options;
+  const eventSet = new Set(eventValues);
+  const observations: SurvivalObservation[] = [];
+  const excluded = { missingDates: 0, exitBeforeEntry: 0, missingGroup: 0 };
+
+  records.forEach(record => {
+    const entry = toDate(record[entryField]);
+    const exit = toDate(record[exitField]);
+    if (!entry || !exit) {
+      excluded.missingDates++;
+      return;
+    }
+    const time = Math.round((exit.getTime() - entry.getTime()) / DAY_MS);
+    if (time < 0) {
+      excluded.exitBeforeEntry++;
+      return;
+    }
+    if (groupField && isBlank(record[groupField])) {
+      excluded.missingGroup++;
+      return;
+    }
+    observations.push({
+      id: record.id,
+      group: groupField ? String(record[groupField]).trim() : 'All',
+      time,
+      event: eventSet.has(String(record[eventField] ?? '').trim()),
+    });
+  });
+
+  return { observations, excluded };
+}
+
+/** Groups present in the observations, in valueOrder / numeric / alphabetical order */
+export function getSurvivalGroups(observations: SurvivalObservation[], valueOrder?: string[]): string[] {
+  return orderExposureLevels(Array.from(new Set(observations.map(o => o.group))), valueOrder);
+}
+
+// =============================================================================
+// PERSON-TIME RATES
+// =============================================================================
+
+export interface PersonTimeRate {
+  group: string;
+  subjects: number;
+  events: number;
+  /** Person-time in the chosen unit */
+  personTime: number;
+  /** Events per rateMultiplier person-time units */
+  rate: number;
+  rateCI: [number, number];
+  isReference: boolean;
+  rateRatio: number;
+  rateRatioCI: [number, number];
+  /** Wald test of rate ratio = 1 */
+  pValue: number;
+}
+
+export interface PersonTimeResults {
+  groups: PersonTimeRate[];
+  overall: PersonTimeRate;
+  unit: PersonTimeUnit;
+  rateMultiplier: number;
+}
+
+/**
+ * Incidence rate (events / person-time) per group with an exact Poisson CI,
+ * and the rate ratio against the reference group with a Wald CI from
+ * SE(ln IRR) = √(1/a₁ + 1/a₀). Ratios are not computable when either group
+ * has no events.
+ */
+export function calculatePersonTimeRates(
+  observations: SurvivalObservation[],
+  groups: string[],
+  referenceGroup: string,
+  unit: PersonTimeUnit = 'years',
+  rateMultiplier = 1000
+): PersonTimeResults {
+  const unitDays = PERSON_TIME_UNIT_DAYS[unit];
+
+  const summarize = (group: string, members: SurvivalObservation[]) => {
+    const events = members.filter(o => o.event).length;
+    const personTime = members.reduce((sum, o) => sum + o.time, 0) / unitDays;
+    const [lower, upper] = poissonExactCI(events);
+    return {
+      group,
+      subjects: members.length,
+      events,
+      personTime,
+      rate: personTime > 0 ? (events / personTime) * rateMultiplier : NaN,
+      rateCI: (personTime > 0
+        ? [(lower / personTime) * rateMultiplier, (upper / personTime) * rateMultiplier]
+        : [NaN, NaN]) as [number, number],
+    };
+  };
+
+  const summaries = groups.map(group => summarize(group, observations.filter(o => o.group === group)));
+  const reference = summaries.find(s => s.group === referenceGroup) ?? summaries[0];
+
+  const results: PersonTimeRate[] = summaries.map(s => {
+    const isReference = s === reference;
+    if (isReference) {
+      return { ...s, isReference, rateRatio: 1, rateRatioCI: [1, 1], pValue: NaN };
+    }
+    const computable = s.events > 0 && reference.events > 0 && s.personTime > 0 && reference.personTime > 0;
+    if (!computable) {
+      return { ...s, isReference, rateRatio: NaN, rateRatioCI: [NaN, NaN], pValue: NaN };
+    }
+    const rateRatio = (s.events / s.personTime) / (reference.events / reference.personTime);
+    const se = Math.sqrt(1 / s.events + 1 / reference.events);
+    const z = Math.log(rateRatio) / se;
+    return {
+      ...s,
+      isReference,
+      rateRatio,
+      rateRatioCI: [Math.exp(Math.log(rateRatio) - 1.96 * se), Math.exp(Math.log(rateRatio) + 1.96 * se)],
+      pValue: 1 - chiSquareCDF(z * z, 1),
+    };
+  });
+
+  return {
+    groups: results,
+    overall: {
+      ...summarize('Overall', observations),
+      isReference: false,
+      rateRatio: NaN,
+      rateRatioCI: [NaN, NaN],
+      pValue: NaN,
+    },
+    unit,
+    rateMultiplier,
+  };
+}
+
+// =============================================================================
+// KAPLAN-MEIER
+// =============================================================================
+
+export interface KaplanMeierStep {
+  /** Days since entry */
+  time: number;
+  atRisk: number;
+  events: number;
+  censored: number;
+  /** Survival just after this time */
+  survival: number;
+  /** Greenwood standard error */
+  standardError: number;
+  ci: [number, number];
+}
+
+export interface KaplanMeierCurve {
+  group: string;
+  subjects: number;
+  events: number;
+  /** One step per distinct follow-up time (events or censoring), after time 0 */
+  steps: KaplanMeierStep[];
+  /** First time survival falls to 0.5 or below; null if it never does */
+  medianSurvival: number | null;
+}
+
+/**
+ * Product-limit estimate S(t) = Π (1 - dᵢ/nᵢ). The 95% CI uses the
+ * log(-log) transform, S^exp(±1.96·σ) with σ = √(Σ dᵢ/(nᵢ(nᵢ-dᵢ))) / |ln S|,
+ * which keeps the limits inside 0-1.
+ */
+export function kaplanMeier(observations: SurvivalObservation[], group = 'All'): KaplanMeierCurve {
+  const times = Array.from(new Set(observations.map(o => o.time))).sort((a, b) => a - b);
+  let atRisk = observations.length;
+  let survival = 1;
+  let greenwood = 0;
+  let medianSurvival: number | null = null;
+  const steps: KaplanMeierStep[] = [];
+
+  times.forEach(time => {
+    const atTime = observations.filter(o => o.time === time);
+    const events = atTime.filter(o => o.event).length;
+    const censored = atTime.length - events;
+
+    if (events > 0) {
+      survival *= 1 - events / atRisk;
+      greenwood += atRisk > events ? events / (atRisk * (atRisk - events)) : Infinity;
+    }
+
+    let ci: [number, number];
+    if (survival <= 0) ci = [0, 0];
+    else if (survival >= 1) ci = [1, 1];
+    else {
+      const sigma = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+      ci = [Math.pow(survival, Math.exp(1.96 * sigma)), Math.pow(survival, Math.exp(-1.96 * sigma))];
+    }
+
+    steps.push({
+      time,
+      atRisk,
+      events,
+      censored,
+      survival,
+      standardError: survival > 0 ? survival * Math.sqrt(greenwood) : 0,
+      ci,
+    });
+    if (medianSurvival === null && survival <= 0.5) medianSurvival = time;
+    atRisk -= atTime.length;
+  });
+
+  return {
+    group,
+    subjects: observations.length,
+    events: observations.filter(o => o.event).length,
+    steps,
+    medianSurvival,
+  };
+}
+
+export function kaplanMeierByGroup(observations: SurvivalObservation[], groups: string[]): KaplanMeierCurve[] {
+  return groups.map(group => kaplanMeier(observations.filter(o => o.group === group), group));
+}
+
+// =============================================================================
+// LOG-RANK TEST
+// =============================================================================
+
+export interface LogRankResults {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  groups: Array<{ group: string; observed: number; expected: number }>;
+}
+
+/**
+ * Log-rank (Mantel-Cox) test of equal survival across groups. At each event
+ * time, expected events are shared by the numbers at risk; the statistic is
+ * U'V⁻¹U over the first k-1 groups, with U = observed - expected and V the
+ * hypergeometric covariance.
+ */
+export function logRankTest(observations: SurvivalObservation[], groups: string[]): LogRankResults {
+  const k = groups.length;
+  const groupIndex = new Map(groups.map((group, i) => [group, i]));
+  const observed = new Array(k).fill(0);
+  const expected = new Array(k).fill(0);
+  const variance = Array.from({ length: k }, () => new Array(k).fill(0));
+
+  const eventTimes = Array.from(new Set(observations.filter(o => o.event).map(o => o.time))).sort((a, b) => a - b);
+  eventTimes.forEach(time => {
+    const atRisk = new Array(k).fill(0);
+    const events = new Array(k).fill(0);
+    observations.forEach(o => {
+      const i = groupIndex.get(o.group);
+      if (i === undefined || o.time < time) return;
+      atRisk[i]++;
+      if (o.time === time && o.event) events[i]++;
+    });
+    const n = atRisk.reduce((sum, v) => sum + v, 0);
+    const d = events.reduce((sum, v) => sum + v, 0);
+    if (n === 0) return;
+
+    for (let i = 0; i < k; i++) {
+      observed[i] += events[i];
+      expected[i] += (d * atRisk[i]) / n;
+      if (n > 1) {
+        for (let j = 0; j < k; j++) {
+          const factor = (d * (n - d)) / (n - 1);
+          variance[i][j] += factor * (atRisk[i] / n) * ((i === j ? 1 : 0) - atRisk[j] / n);
+        }
+      }
+    }
+  });
+
+  const df = k - 1;
+  let chiSquare = NaN;
+  if (df > 0) {
+    const u = observed.slice(0, df).map((o, i) => o - expected[i]);
+    const inverse = invertMatrix(variance.slice(0, df).map(row => row.slice(0, df)));
+    if (inverse) {
+      chiSquare = u.reduce((sum, ui, i) => sum + ui * inverse[i].reduce((inner, vij, j) => inner + vij * u[j], 0), 0);
+    }
+  }
+
+  return {
+    chiSquare,
+    degreesOfFreedom: df,
+    pValue: isFinite(chiSquare) ? 1 - chiSquareCDF(chiSquare, df) : NaN,
+    groups: groups.map((group, i) => ({ group, observed: observed[i], expected: expected[i] })),
+  };
+}
@@ -0,0 +1,429 @@
+/**
+ * Transmission Network
+ *
+ * Builds a who-infected-whom graph from a line list with an "infected by"
+ * (source case or contact ID) column, summarizes it by generation and
+ * serial interval, and lays it out for drawing.
+ *
+ * CONTENTS:
+ *
+ * 1. GRAPH
+ *    - One node per case, linked from its source case
+ *    - Sources named in the column but missing from the line list become
+ *      unlisted nodes, so chains stay connected
+ *    - Duplicate IDs, self-links and cycles are reported, not guessed at
+ *
+ * 2. SUMMARIES
+ *    - Generations: index cases are generation 1, their secondary cases
+ *      generation 2, and so on, with secondary cases per case
+ *    - Observed serial intervals: days from the source case's onset to the
+ *      onset of the case it infected (negative when the infectee fell ill
+ *      first, e.g. presymptomatic transmission)
+ *
+ * 3. LAYOUTS
+ *    - Force-directed (Fruchterman-Reingold with a pull toward the centre so
+ *      separate clusters stay on screen), seeded so it is reproducible;
+ *      unlinked cases sit on a grid below rather than in the simulation
+ *    - Timeline: onset date on the x-axis, one row per case, with each chain
+ *      kept together in depth-first order
+ *
+ * Positions are returned in [0, 1] x [0, 1]; renderers scale them.
+ *
+ * References:
+ * - Fruchterman TMJ, Reingold EM. Graph drawing by force-directed placement.
+ *   Softw Pract Exper 1991;21:1129-64.
+ * - Fine PEM. The interval between successive cases of an infectious disease.
+ *   Am J Epidemiol 2003;158:1039-47.
+ */
+import type { CaseRecord } from '../types/analysis';
+import { parseLocalDate } from './epiCurve';
+import { calculateDescriptiveStats } from './statistics';
+import { seededRandom } from './random';
+
+// =============================================================================
+// GRAPH
+// =============================================================================
+
+export interface TransmissionNetworkOptions {
+  /** Column with each case's ID as used in the source column ('' for the record ID) */
+  idField: string;
+  /** Column naming the case each case was infected by */
+  sourceField: string;
+  /** Onset date column, for serial intervals and the timeline layout */
+  onsetField?: string;
+}
+
+export interface NetworkNode {
+  id: string;
+  /** Null for a source named in the source column but not listed as a case */
+  record: CaseRecord | null;
+  sourceId: string | null;
+  onset: Date | null;
+  /** 1 for index cases, 2 for the cases they infected, ...; null for cases caught in a cycle */
+  generation: number | null;
+  /** IDs of the cases this case infected */
+  infected: string[];
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  /** Days from the source case's onset to the infected case's onset (null when either is missing) */
+  serialInterval: number | null;
+}
+
+export interface TransmissionNetwork {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  issues: {
+    /** IDs used by more than one record (only the first record is kept) */
+    duplicateIds: string[];
+    /** Cases listed as their own source (the link is dropped) */
+    selfLinks: string[];
+    /** Cases whose chain of sources loops back on itself, and cases infected from such a loop */
+    cycles: string[];
+    /** Sources that are not in the line list */
+    unlistedSources: string[];
+  };
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function parseOnset(value: unknown): Date | null {
+  const text = cellText(value);
+  if (!text) return null;
+  const date = parseLocalDate(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function buildTransmissionNetwork(records: CaseRecord[], options: TransmissionNetworkOptions): TransmissionNetwork {
+  const { idField, sourceField, onsetField } = options;
+  const nodes = new Map<string, NetworkNode>();
+  const issues: TransmissionNetwork['issues'] = { duplicateIds: [], selfLinks: [], cycles: [], unlistedSources: [] };
+
+  records.forEach(record => {
+    const id = idField ? cellText(record[idField]) : record.id;
+    if (!id) return;
+    if (nodes.has(id)) {
+      if (!issues.duplicateIds.includes(id)) issues.duplicateIds.push(id);
+      return;
+    }
+    let sourceId: string | null = cellText(record[sourceField]) || null;
+    if (sourceId === id) {
+      issues.selfLinks.push(id);
+      sourceId = null;
+    }
+    nodes.set(id, {
+      id,
+      record,
+      sourceId,
+      onset: onsetField ? parseOnset(record[onsetField]) : null,
+      generation: null,
+      infected: [],
+    });
+  });
+
+  // Sources missing from the line list
+  Array.from(nodes.values()).forEach(node => {
+    if (node.sourceId && !nodes.has(node.sourceId)) {
+      issues.unlistedSources.push(node.sourceId);
+      nodes.set(node.sourceId, { id: node.sourceId, record: null, sourceId: null, onset: null, generation: null, infected: [] });
+    }
+  });
+
+  const edges: NetworkEdge[] = [];
+  nodes.forEach(node => {
+    if (!node.sourceId) return;
+    const source = nodes.get(node.sourceId) as NetworkNode;
+    source.infected.push(node.id);
+    edges.push({
+      source: source.id,
+      target: node.id,
+      serialInterval: source.onset && node.onset
+        ? Math.round((node.onset.getTime() - source.onset.getTime()) / MS_PER_DAY)
+        : null,
+    });
+  });
+
+  // Generations by breadth-first search from the index cases; anything unreached sits in a cycle
+  const queue = Array.from(nodes.values()).filter(node => !node.sourceId);
+  queue.forEach(node => { node.generation = 1; });
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    node.infected.forEach(childId => {
+      const child = nodes.get(childId) as NetworkNode;
+      child.generation = (node.generation as number) + 1;
+      queue.push(child);
+    });
+  }
+  nodes.forEach(node => {
+    if (node.generation === null) issues.cycles.push(node.id);
+  });
+
+  return { nodes: Array.from(nodes.values()), edges, issues };
+}
+
+// =============================================================================
+// SUMMARIES
+// =============================================================================
+
+export interface GenerationSummary {
+  generation: number;
+  /** Listed cases in this generation */
+  cases: number;
+  /** Cases they infected (the next generation) */
+  secondaryCases: number;
+  /** Secondary cases per case (an empirical reproduction number for the generation) */
+  secondaryPerCase: number;
+}
+
+/** Case counts per generation. Unlisted sources are not counted as cases but their links are followed. */
+export function summarizeGenerations(network: TransmissionNetwork): GenerationSummary[] {
+  const byGeneration = new Map<number, { cases: number; secondaryCases: number }>();
+  network.nodes.forEach(node => {
+    if (node.generation === null || !node.record) return;
+    const entry = byGeneration.get(node.generation) ?? { cases: 0, secondaryCases: 0 };
+    entry.cases++;
+    entry.secondaryCases += node.infected.length;
+    byGeneration.set(node.generation, entry);
+  });
+  return Array.from(byGeneration.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([generation, { cases, secondaryCases }]) => ({
+      generation,
+      cases,
+      secondaryCases,
+      secondaryPerCase: secondaryCases / cases,
+    }));
+}
+
+export interface SerialIntervalSummary {
+  /** Source-infectee pairs with both onset dates */
+  pairs: number;
+  mean: number;
+  sd: number;
+  median: number;
+  min: number;
+  max: number;
+  /** Pairs where the infected case fell ill before its source */
+  negative: number;
+  /** Serial interval (days) -> number of pairs */
+  distribution: Map<number, number>;
+}
+
+export function summarizeSerialIntervals(network: TransmissionNetwork): SerialIntervalSummary | null {
+  const intervals = network.edges
+    .map(edge => edge.serialInterval)
+    .filter((v): v is number => v !== null);
+  if (intervals.length === 0) return null;
+
+  const stats = calculateDescriptiveStats(intervals);
+  const distribution = new Map<number, number>();
+  intervals.forEach(days => distribution.set(days, (distribution.get(days) ?? 0) + 1));
+  return {
+    pairs: intervals.length,
+    mean: stats.mean,
+    sd: intervals.length > 1 ? stats.stdDev : 0,
+    median: stats.median,
+    min: stats.min,
+    max: stats.max,
+    negative: intervals.filter(days => days < 0).length,
+    distribution: new Map(Array.from(distribution.entries()).sort((a, b) => a[0] - b[0])),
+  };
+}
+
+// =============================================================================
+// LAYOUTS
+// =============================================================================
+
+export type NetworkLayout = 'force' | 'timeline';
+
+export const NETWORK_LAYOUT_LABELS: Record<NetworkLayout, string> = {
+  force: 'Force-directed',
+  timeline: 'Timeline (onset date)',
+};
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface ForceLayoutOptions {
+  iterations?: number;
+  seed?: number;
+}
+
+/** Share of the force layout's height given to the grid of unlinked cases, at most */
+const ISOLATED_BAND = 0.25;
+const ISOLATED_ROW_HEIGHT = 0.06;
+/** Space between the linked cases and the grid */
+const ISOLATED_GAP = 0.04;
+
+/**
+ * Fruchterman-Reingold placement: nodes repel each other, links pull their
+ * ends together, and a weak pull toward the centre keeps separate clusters in
+ * view. Cases with no links are left out of the simulation, which is O(n²)
+ * per iteration, and set out on a grid below the linked cases. The result is
+ * rescaled to fill the unit square.
+ */
+export function forceLayout(network: TransmissionNetwork, options: ForceLayoutOptions = {}): Map<string, NodePosition> {
+  const { iterations = 300, seed = 1 } = options;
+  const positions = new Map<string, NodePosition>();
+  const linkedIds = new Set(network.edges.flatMap(edge => [edge.source, edge.target]));
+  const linked = network.nodes.filter(node => linkedIds.has(node.id));
+  const isolated = network.nodes.filter(node => !linkedIds.has(node.id));
+
+  // Unlinked cases: a grid about twice as wide as tall, in a band at the
+  // bottom (or over the whole square when nothing is linked)
+  const columns = Math.max(1, Math.min(isolated.length, Math.ceil(Math.sqrt(isolated.length * 2))));
+  const rows = Math.ceil(isolated.length / columns);
+  const rowStep = linked.length > 0
+    ? Math.min(ISOLATED_ROW_HEIGHT, ISOLATED_BAND / rows)
+    : 1 / Math.max(rows - 1, 1);
+  const gridTop = linked.length > 0 || rows > 1 ? 1 - (rows - 1) * rowStep : 0.5;
+  const linkedHeight = isolated.length > 0 ? gridTop - rowStep - ISOLATED_GAP : 1;
+  const gridPositions = new Map(isolated.map((node, i) => [node.id, {
+    x: columns > 1 ? (i % columns) / (columns - 1) : 0.5,
+    y: gridTop + Math.floor(i / columns) * rowStep,
+  }]));
+
+  const n = linked.length;
+  const random = seededRandom(seed);
+  const x = linked.map(() => random());
+  const y = linked.map(() => random());
+  const index = new Map(linked.map((node, i) => [node.id, i]));
+  const links = network.edges.map(edge => [index.get(edge.source) as number, index.get(edge.target) as number]);
+  const k = Math.sqrt(1 / Math.max(n, 1));
+  const gravity = 0.05;
+
+  for (let step = 0; step < iterations && n > 1; step++) {
+    const temperature = 0.1 * (1 - step / iterations);
+    const dx = new Array<number>(n).fill(0);
+    const dy = new Array<number>(n).fill(0);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ex = x[i] - x[j];
+        let ey = y[i] - y[j];
+        let distance = Math.hypot(ex, ey);
+        if (distance < 1e-6) {
+          // Coincident nodes: nudge apart in a reproducible direction
+          ex = random() - 0.5;
+          ey = random() - 0.5;
+          distance = Math.hypot(ex, ey);
+        }
+        const force = (k * k) / distance;
+        dx[i] += (ex / distance) * force;
+        dy[i] += (ey / distance) * force;
+        dx[j] -= (ex / distance) * force;
+        dy[j] -= (ey / distance) * force;
+      }
+    }
+    links.forEach(([a, b]) => {
+      const ex = x[a] - x[b];
+      const ey = y[a] - y[b];
+      const distance = Math.hypot(ex, ey);
+      if (distance < 1e-6) return;
+      const force = (distance * distance) / k;
+      dx[a] -= (ex / distance) * force;
+      dy[a] -= (ey / distance) * force;
+      dx[b] += (ex / distance) * force;
+      dy[b] += (ey / distance) * force;
+    });
+
+    for (let i = 0; i < n; i++) {
+      dx[i] += (0.5 - x[i]) * gravity;
+      dy[i] += (0.5 - y[i]) * gravity;
+      const displacement = Math.hypot(dx[i], dy[i]);
+      if (displacement > 0) {
+        const limited = Math.min(displacement, temperature);
+        x[i] += (dx[i] / displacement) * limited;
+        y[i] += (dy[i] / displacement) * limited;
+      }
+    }
+  }
+
+  const [minX, maxX] = extent(x);
+  const [minY, maxY] = extent(y);
+  network.nodes.forEach(node => {
+    const i = index.get(node.id);
+    if (i === undefined) {
+      positions.set(node.id, gridPositions.get(node.id) as NodePosition);
+      return;
+    }
+    positions.set(node.id, {
+      x: maxX > minX ? (x[i] - minX) / (maxX - minX) : 0.5,
+      y: (maxY > minY ? (y[i] - minY) / (maxY - minY) : 0.5) * linkedHeight,
+    });
+  });
+  return positions;
+}
+
+export interface TimelineLayout {
+  positions: Map<string, NodePosition>;
+  /** Earliest and latest onset (null when no case has one) */
+  domain: [Date, Date] | null;
+  /** Nodes without an onset date, placed at their source's position (or the left edge) */
+  undated: Set<string>;
+}
+
+/**
+ * Onset date on the x-axis and one row per case. Chains are laid out
+ * depth-first from their index cases (earliest onset first), so each case sits
+ * just below the case that infected it.
+ */
+export function timelineLayout(network: TransmissionNetwork): TimelineLayout {
+  const positions = new Map<string, NodePosition>();
+  const undated = new Set<string>();
+  const byId = new Map(network.nodes.map(node => [node.id, node]));
+  const onsetTimes = network.nodes.filter(node => node.onset).map(node => (node.onset as Date).getTime());
+  const domain: [Date, Date] | null = onsetTimes.length > 0
+    ? [new Date(onsetTimes.reduce((a, b) => Math.min(a, b))), new Date(onsetTimes.reduce((a, b) => Math.max(a, b)))]
+    : null;
+  const span = domain ? domain[1].getTime() - domain[0].getTime() : 0;
+
+  const byOnset = (a: NetworkNode, b: NetworkNode) =>
+    (a.onset?.getTime() ?? Infinity) - (b.onset?.getTime() ?? Infinity) || a.id.localeCompare(b.id, undefined, { numeric: true });
+
+  // Depth-first row order (iterative, so long chains cannot overflow the stack)
+  const order: NetworkNode[] = [];
+  const visited = new Set<string>();
+  const visit = (root: NetworkNode) => {
+    const stack = [root];
+    while (stack.length > 0) {
+      const node = stack.pop() as NetworkNode;
+      if (visited.has(node.id)) continue;
+      visited.add(node.id);
+      order.push(node);
+      const children = node.infected.map(id => byId.get(id) as NetworkNode).sort(byOnset);
+      for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+    }
+  };
+  network.nodes.filter(node => !node.sourceId).sort(byOnset).forEach(visit);
+  network.nodes.filter(node => !visited.has(node.id)).sort(byOnset).forEach(visit);
+
+  order.forEach((node, row) => {
+    const y = order.length > 1 ? row / (order.length - 1) : 0.5;
+    if (node.onset && domain) {
+      positions.set(node.id, { x: span > 0 ? (node.onset.getTime() - domain[0].getTime()) / span : 0.5, y });
+    } else {
+      undated.add(node.id);
+      // Rows come after their source's row, so the source is already placed
+      const source = node.sourceId ? positions.get(node.sourceId) : undefined;
+      positions.set(node.id, { x: source ? source.x : 0, y });
+    }
+  });
+  return { positions, domain, undated };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function extent(values: number[]): [number, number] {
+  return values.reduce<[number, number]>(([lo, hi], v) => [Math.min(lo, v), Math.max(hi, v)], [Infinity, -Infinity]);
+}